@@ -0,0 +1,132 @@
+/**
+ * Evaluate generation quality over testdata/prompts
+ *
+ * Generates a deck per case in testdata/prompts/cases.json, scores it (see
+ * src/lib/ai/evaluation.ts) and writes a JSON report. Run once before a prompt
+ * change to get a baseline, then again with --baseline to see the deltas.
+ *
+ * Usage: npx tsx scripts/eval-generation.ts [options]
+ *   --client replay|live|mock   LLM client (default: replay)
+ *                               replay: testdata/fixtures/cassettes/<case id>.json;
+ *                                       cases without a cassette are skipped
+ *                               live:   configured provider (LLM_PROVIDER, see .env)
+ *   --label <name>              Report name (default: client name)
+ *   --out <path>                Report path (default: testdata/eval/<label>.json)
+ *   --baseline <path>           Earlier report to compare against
+ *   --max-drop <points>         Exit with code 1 when the overall score drops more than this
+ */
+
+import "dotenv/config";
+import { existsSync } from "fs";
+import { mkdir, readFile, writeFile } from "fs/promises";
+import { dirname, join } from "path";
+import { parseArgs } from "util";
+import { getLLMClient, resolveLLMSelection } from "@/lib/ai/llm-providers";
+import { MockLLMClient } from "@/lib/ai/mock-llm";
+import { LLMCassette, ReplayLLMClient } from "@/lib/ai/llm-cassette";
+import {
+  compareReports,
+  formatReport,
+  loadEvalCases,
+  runEvaluation,
+  type EvalCase,
+  type EvalReport,
+} from "@/lib/ai/evaluation";
+import type { LLMClient } from "@/lib/ai/llm-client";
+
+const CASSETTE_DIR = "testdata/fixtures/cassettes";
+
+function cassettePath(evalCase: EvalCase): string {
+  return join(CASSETTE_DIR, `${evalCase.id}.json`);
+}
+
+/** Replay clients per case, to report prompts missing from the cassettes */
+const replayClients = new Map<string, ReplayLLMClient>();
+
+async function createClient(kind: string, evalCase: EvalCase): Promise<LLMClient> {
+  switch (kind) {
+    case "live":
+      return getLLMClient();
+    case "mock":
+      return new MockLLMClient();
+    case "replay": {
+      const client = new ReplayLLMClient(await LLMCassette.load(cassettePath(evalCase)));
+      replayClients.set(evalCase.id, client);
+      return client;
+    }
+    default:
+      throw new Error(`Unknown client "${kind}" (replay, live or mock)`);
+  }
+}
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      client: { type: "string", default: "replay" },
+      label: { type: "string" },
+      out: { type: "string" },
+      baseline: { type: "string" },
+      "max-drop": { type: "string" },
+    },
+  });
+
+  const kind = values.client!;
+  const label = values.label ?? kind;
+  const out = values.out ?? join("testdata/eval", `${label}.json`);
+  const meta = kind === "live" ? { client: kind, ...resolveLLMSelection() } : { client: kind };
+
+  let cases = await loadEvalCases();
+  let skipped: string[] = [];
+  if (kind === "replay") {
+    // Only cases with a recording can be replayed; scoring the others as failures skews the baseline
+    const missing = cases.filter((c) => !existsSync(cassettePath(c)));
+    if (missing.length > 0) {
+      skipped = missing.map((c) => c.id);
+      const ids = skipped.join(" ");
+      console.warn(
+        `Skipping cases without a cassette: ${ids} (record with npx tsx scripts/record-llm-cassette.ts ${ids})`
+      );
+      cases = cases.filter((c) => !missing.includes(c));
+    }
+    if (cases.length === 0) {
+      throw new Error(`No cassettes in ${CASSETTE_DIR}`);
+    }
+  }
+  console.log(`Evaluating ${cases.length} cases with the ${kind} client...`);
+  const report = await runEvaluation(cases, (evalCase) => createClient(kind, evalCase), {
+    label,
+    meta,
+    skipped,
+  });
+
+  // Pipeline fallbacks hide missing recordings, so flag them explicitly
+  for (const [id, client] of replayClients) {
+    if (client.misses.length > 0) {
+      console.warn(
+        `${id}: ${client.misses.length} prompts missing from the cassette; re-record it after prompt changes`
+      );
+    }
+  }
+
+  await mkdir(dirname(out), { recursive: true });
+  await writeFile(out, JSON.stringify(report, null, 2) + "\n");
+
+  const baseline = values.baseline
+    ? (JSON.parse(await readFile(values.baseline, "utf-8")) as EvalReport)
+    : undefined;
+  console.log("\n" + formatReport(report, baseline) + "\n");
+  console.log(`Report written to ${out}`);
+
+  if (baseline && values["max-drop"] !== undefined) {
+    const { overallDelta } = compareReports(baseline, report);
+    if (-overallDelta > Number(values["max-drop"])) {
+      console.error(`Overall score dropped by ${(-overallDelta).toFixed(1)} points`);
+      process.exit(1);
+    }
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,61 @@
+/**
+ * Record LLM cassettes for replay tests and evaluation
+ *
+ * Runs the full GenerationPipeline on evaluation cases (testdata/prompts/cases.json)
+ * with the configured LLM provider (LLM_PROVIDER, see .env) and stores every
+ * response in testdata/fixtures/cassettes/<case id>.json. Re-run after prompt
+ * changes; the replay test in src/lib/ai/__tests__/llm-cassette.test.ts picks
+ * up every cassette in that directory.
+ *
+ * Usage: npx tsx scripts/record-llm-cassette.ts [case-id ...]   (all cases by default)
+ */
+
+import "dotenv/config";
+import { join } from "path";
+import { GenerationPipeline } from "@/lib/ai/pipeline";
+import { getLLMClient, resolveLLMSelection } from "@/lib/ai/llm-providers";
+import { LLMCassette, RecordingLLMClient } from "@/lib/ai/llm-cassette";
+import { loadEvalCases } from "@/lib/ai/evaluation";
+
+const CASSETTE_DIR = "testdata/fixtures/cassettes";
+
+async function main() {
+  const ids = process.argv.slice(2);
+  const cases = (await loadEvalCases()).filter((c) => ids.length === 0 || ids.includes(c.id));
+  const unknown = ids.filter((id) => !cases.some((c) => c.id === id));
+  if (unknown.length > 0) {
+    console.error(`Unknown case(s): ${unknown.join(", ")} (see testdata/prompts/cases.json)`);
+    process.exit(1);
+  }
+
+  const { provider, model } = resolveLLMSelection();
+  if (provider === "mock") {
+    // The mock client only returns its hand-written fixtures, which is what cassettes replace
+    console.error("Cassettes must be recorded with a real provider; unset FAKE_LLM");
+    process.exit(1);
+  }
+
+  for (const evalCase of cases) {
+    const cassette = new LLMCassette(join(CASSETTE_DIR, `${evalCase.id}.json`), {
+      provider,
+      model,
+      request: evalCase.request,
+    });
+
+    console.log(`Recording ${evalCase.id} with ${provider}/${model}...`);
+    const pipeline = new GenerationPipeline({
+      llmClient: new RecordingLLMClient(getLLMClient(), cassette),
+    });
+    const { deck } = await pipeline.generate(evalCase.request);
+
+    await cassette.save();
+    console.log(
+      `Saved ${cassette.size} prompts to ${cassette.path} (${deck.slides.length} slides: "${deck.deck.title}")`
+    );
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
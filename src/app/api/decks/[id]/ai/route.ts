@@ -21,6 +21,17 @@ import {
   getSlideViolations,
 } from "@/lib/ai/edit-actions";
 import { transformSlideServer } from "@/lib/ai/slide-agent";
+import { getLLMClient } from "@/lib/ai/llm-providers";
+import {
+  getEnvModelRouting,
+  getTransformLLMClient,
+  mergeModelRouting,
+  resolveStageOptions,
+} from "@/lib/ai/model-routing";
+import { TRANSFORMATION_TYPES, type TransformationType } from "@/lib/ai/prompts/slide-transform";
+import { getWorkspaceLLMSettings } from "@/lib/db/workspace";
+import { createUsageRecord, type UsageSource } from "@/lib/db/usage-record";
+import { UsageRecorder } from "@/lib/usage/recorder";
 import { buildImagePrompt, updateSlideWithImage } from "@/lib/ai/image-generation";
 import { getImageClient, ImageError } from "@/lib/ai/image-client";
 import { uploadFile, generateSignedUrl } from "@/lib/storage/s3-client";
@@ -47,6 +58,10 @@ const AIActionSchema = z.discriminatedUnion("action", [
     slideIndex: z.number().int().min(0),
     instruction: z.string().min(1),
     deckTitle: z.string().optional(),
+    /** Predefined transformation behind the instruction, for model routing */
+    transformType: z
+      .enum(TRANSFORMATION_TYPES as [TransformationType, ...TransformationType[]])
+      .optional(),
   }),
   z.object({
     action: z.literal("generate_image"),
@@ -58,11 +73,24 @@ const AIActionSchema = z.discriminatedUnion("action", [
   }),
 ]);
 
+/**
+ * Usage source per action, for cost reporting
+ */
+const USAGE_SOURCES: Record<z.infer<typeof AIActionSchema>["action"], UsageSource> = {
+  shorten: "edit_action",
+  split: "edit_action",
+  repair_all: "edit_action",
+  transform: "slide_agent",
+  generate_image: "image_generation",
+};
+
 // ============================================================================
 // POST /api/decks/[id]/ai
 // ============================================================================
 
 export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  let usage: UsageRecorder | undefined;
+
   try {
     const { id } = await params;
     const body = await request.json();
@@ -95,6 +123,12 @@ export async function POST(request: NextRequest, { params }: { params: Promise<{
 
     // Convert to schema format
     const deckSchema = dbDeckToSchema(deck);
+    usage = new UsageRecorder(
+      { workspaceId: MVP_WORKSPACE_ID, deckId: id, source: USAGE_SOURCES[action] },
+      createUsageRecord
+    );
+    const { routing, ...workspaceLLM } = await getWorkspaceLLMSettings(MVP_WORKSPACE_ID);
+    const llmSettings = { ...workspaceLLM, onUsage: usage.recordLLM };
 
     // Handle repair_all action (no slideIndex required)
     if (action === "repair_all") {
@@ -122,13 +156,19 @@ export async function POST(request: NextRequest, { params }: { params: Promise<{
       }
 
       // Repair each slide with violations
+      const llmClient = getLLMClient(
+        resolveStageOptions(llmSettings, mergeModelRouting(getEnvModelRouting(), routing), "repair")
+      );
       const repairedSlides = [...deckSchema.slides];
       let repairedCount = 0;
       const errors: Array<{ slideIndex: number; error: string }> = [];
 
       for (const { index, violations } of slidesWithViolations) {
         try {
-          const result = await aiRepairSlide(deckSchema.slides[index], { maxAttempts: 2 });
+          const result = await aiRepairSlide(deckSchema.slides[index], {
+            maxAttempts: 2,
+            llmClient,
+          });
 
           if (result.success && result.data && result.data.length > 0) {
             // For now, only handle the case where we get exactly 1 repaired slide
@@ -186,7 +226,15 @@ export async function POST(request: NextRequest, { params }: { params: Promise<{
 
     // Perform the AI action
     if (action === "shorten") {
-      const result = await aiShortenSlide(slide, violations);
+      const result = await aiShortenSlide(slide, violations, {
+        llmClient: getLLMClient(
+          resolveStageOptions(
+            llmSettings,
+            mergeModelRouting(getEnvModelRouting(), routing),
+            "repair"
+          )
+        ),
+      });
 
       if (!result.success || !result.data) {
         return NextResponse.json(
@@ -210,7 +258,15 @@ export async function POST(request: NextRequest, { params }: { params: Promise<{
     }
 
     if (action === "split") {
-      const result = await aiSplitSlide(slide, violations);
+      const result = await aiSplitSlide(slide, violations, {
+        llmClient: getLLMClient(
+          resolveStageOptions(
+            llmSettings,
+            mergeModelRouting(getEnvModelRouting(), routing),
+            "split"
+          )
+        ),
+      });
 
       if (!result.success || !result.data) {
         return NextResponse.json(
@@ -234,11 +290,18 @@ export async function POST(request: NextRequest, { params }: { params: Promise<{
     }
 
     if (action === "transform") {
-      const { instruction, deckTitle } = parsed.data;
-
-      const result = await transformSlideServer(slide, instruction, {
-        deckTitle,
-      });
+      const { instruction, deckTitle, transformType } = parsed.data;
+
+      const result = await transformSlideServer(
+        slide,
+        instruction,
+        { deckTitle },
+        getTransformLLMClient(
+          llmSettings,
+          mergeModelRouting(getEnvModelRouting(), routing),
+          transformType
+        )
+      );
 
       if (!result.success || !result.data) {
         return NextResponse.json(
@@ -290,7 +353,7 @@ export async function POST(request: NextRequest, { params }: { params: Promise<{
         });
 
         // Generate image using the configured provider (DALL-E or Gemini)
-        const imageClient = getImageClient();
+        const imageClient = getImageClient({ onUsage: usage.recordImage });
         const imageResult = await imageClient.generateImage(prompt, "default");
 
         // Check if the URL is already an S3 signed URL (from Gemini)
@@ -381,5 +444,7 @@ export async function POST(request: NextRequest, { params }: { params: Promise<{
       },
       { status: 500 }
     );
+  } finally {
+    await usage?.flush();
   }
 }
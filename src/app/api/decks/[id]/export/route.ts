@@ -1,21 +1,36 @@
 /**
  * Export API Routes
  *
- * POST /api/decks/[id]/export - Trigger a PDF or PPTX export
+ * POST /api/decks/[id]/export - Trigger a PDF, PPTX, PNG, SVG, HTML, Markdown or plain-text export
+ *
+ * An unchanged deck reuses the file from its previous export of the same
+ * format and options; the response is then already completed.
  */
 
 import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
-import { getDeckById } from "@/lib/db/deck";
-import { createExportJob } from "@/lib/db/export-job";
-import { addExportJob, type ExportFormat } from "@/lib/queue/export-queue";
+import { getDeckById, dbDeckToSchema } from "@/lib/db/deck";
+import { createExportJob, createCachedExportJob } from "@/lib/db/export-job";
+import {
+  addExportJob,
+  DEFAULT_PNG_SCALE,
+  MAX_PNG_SCALE,
+  type ExportFormat,
+} from "@/lib/queue/export-queue";
+import { HANDOUT_LAYOUTS } from "@/lib/export/pdf-handout";
+import { computeExportHash } from "@/lib/export/content-hash";
+import { findReusableExport } from "@/lib/export/export-cache";
 import type { ThemeId } from "@/lib/themes";
 
 // MVP: Use fixed workspace ID (no auth yet)
 const MVP_WORKSPACE_ID = "ws_default";
 
 const ExportRequestSchema = z.object({
-  format: z.enum(["pdf", "pptx"]),
+  format: z.enum(["pdf", "pptx", "png", "svg", "html", "markdown", "txt"]),
+  // PNG pixel density: 1 = 1280x720, 2 = 2560x1440, ...
+  scale: z.number().int().min(1).max(MAX_PNG_SCALE).default(DEFAULT_PNG_SCALE),
+  // PDF handout layout; omitted for one 16:9 page per slide
+  handout: z.enum(HANDOUT_LAYOUTS).optional(),
 });
 
 // ============================================================================
@@ -35,7 +50,8 @@ export async function POST(request: NextRequest, { params }: { params: Promise<{
         {
           error: {
             code: "VALIDATION_ERROR",
-            message: "Ugyldig format. Må være 'pdf' eller 'pptx'.",
+            message:
+              "Ugyldig eksport. Format må være 'pdf', 'pptx', 'png', 'svg', 'html', 'markdown' eller 'txt'.",
             details: parsed.error.flatten().fieldErrors,
           },
         },
@@ -43,7 +59,7 @@ export async function POST(request: NextRequest, { params }: { params: Promise<{
       );
     }
 
-    const { format } = parsed.data;
+    const { format, scale, handout } = parsed.data;
 
     // Verify deck exists and get theme info
     const deck = await getDeckById(id, MVP_WORKSPACE_ID);
@@ -55,10 +71,52 @@ export async function POST(request: NextRequest, { params }: { params: Promise<{
       );
     }
 
+    const themeId = (deck.themeId ?? "nordic_light") as ThemeId;
+    const brandKit =
+      deck.primaryColor || deck.secondaryColor
+        ? {
+            primaryColor: deck.primaryColor ?? undefined,
+            secondaryColor: deck.secondaryColor ?? undefined,
+            logoUrl: deck.logoUrl ?? undefined,
+          }
+        : undefined;
+    const options = {
+      ...(format === "png" ? { scale } : {}),
+      ...(format === "pdf" && handout ? { handout } : {}),
+    };
+
+    const contentHash = computeExportHash({
+      deck: dbDeckToSchema(deck),
+      format,
+      themeId,
+      brandKit,
+      ...options,
+    });
+
+    // Unchanged since an earlier export: reuse its file without rendering
+    const cached = await findReusableExport(id, format, contentHash);
+    if (cached) {
+      const exportJob = await createCachedExportJob({
+        deckId: id,
+        format,
+        contentHash,
+        ...cached,
+      });
+
+      return NextResponse.json({
+        exportJobId: exportJob.id,
+        status: "completed",
+        fileUrl: cached.fileUrl,
+        expiresAt: cached.expiresAt.toISOString(),
+        cached: true,
+      });
+    }
+
     // Create export job in database
     const exportJob = await createExportJob({
       deckId: id,
       format: format as ExportFormat,
+      contentHash,
     });
 
     // Add to BullMQ queue for processing
@@ -67,15 +125,9 @@ export async function POST(request: NextRequest, { params }: { params: Promise<{
       generationJobId: exportJob.id, // Use exportJobId as fallback
       deckId: id,
       format: format as ExportFormat,
-      themeId: (deck.themeId ?? "nordic_light") as ThemeId,
-      brandKit:
-        deck.primaryColor || deck.secondaryColor
-          ? {
-              primaryColor: deck.primaryColor ?? undefined,
-              secondaryColor: deck.secondaryColor ?? undefined,
-              logoUrl: deck.logoUrl ?? undefined,
-            }
-          : undefined,
+      themeId,
+      brandKit,
+      ...options,
     });
 
     return NextResponse.json({
@@ -0,0 +1,68 @@
+/**
+ * Save as Template API Route
+ *
+ * POST /api/decks/[id]/template - Save the deck's structure as a reusable template
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { saveDeckAsTemplate } from "@/lib/db/deck";
+
+// MVP: Use fixed workspace ID (no auth yet)
+const MVP_WORKSPACE_ID = "ws_default";
+
+const SaveAsTemplateSchema = z.object({
+  name: z.string().min(1).max(100),
+  description: z.string().max(500).optional(),
+});
+
+// ============================================================================
+// POST /api/decks/[id]/template
+// ============================================================================
+
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: { code: "INVALID_REQUEST", message: "Invalid JSON body" } },
+        { status: 400 }
+      );
+    }
+
+    const parsed = SaveAsTemplateSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Ugyldig input",
+            details: parsed.error.flatten().fieldErrors,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const template = await saveDeckAsTemplate(id, MVP_WORKSPACE_ID, parsed.data);
+
+    if (!template) {
+      return NextResponse.json(
+        { error: { code: "NOT_FOUND", message: "Presentasjon ikke funnet" } },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ template }, { status: 201 });
+  } catch (error) {
+    console.error("POST /api/decks/[id]/template error:", error);
+    return NextResponse.json(
+      { error: { code: "INTERNAL_ERROR", message: "Kunne ikke lagre som mal" } },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,50 @@
+/**
+ * Export Metrics API
+ *
+ * GET /api/exports/metrics?days=7 - Export counts and cache hit rate
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getExportCacheStats } from "@/lib/db/export-job";
+
+export const dynamic = "force-dynamic";
+
+const MetricsQuerySchema = z.object({
+  days: z.coerce.number().int().min(1).max(90).default(7),
+});
+
+// ============================================================================
+// GET /api/exports/metrics - Export cache metrics
+// ============================================================================
+
+export async function GET(request: NextRequest) {
+  try {
+    const parsed = MetricsQuerySchema.safeParse({
+      days: request.nextUrl.searchParams.get("days") ?? undefined,
+    });
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Ugyldig periode. Antall dager må være mellom 1 og 90.",
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const since = new Date(Date.now() - parsed.data.days * 24 * 60 * 60 * 1000);
+    const stats = await getExportCacheStats(since);
+
+    return NextResponse.json({ since: since.toISOString(), ...stats });
+  } catch (error) {
+    console.error("GET /api/exports/metrics error:", error);
+    return NextResponse.json(
+      { error: { code: "INTERNAL_ERROR", message: "Kunne ikke hente eksportstatistikk" } },
+      { status: 500 }
+    );
+  }
+}
@@ -8,8 +8,15 @@
 import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
 import { createPipeline, PipelineError } from "@/lib/ai/pipeline";
+import { createPipelineLLMs, getEnvModelRouting, mergeModelRouting } from "@/lib/ai/model-routing";
+import { getWorkspaceLLMSettings } from "@/lib/db/workspace";
+import { createUsageRecord } from "@/lib/db/usage-record";
+import { UsageRecorder } from "@/lib/usage/recorder";
 import { GenerationRequestSchema } from "@/lib/schemas/deck";
 
+// MVP: Use fixed workspace ID (no auth yet)
+const MVP_WORKSPACE_ID = "ws_default";
+
 // Subset of GenerationRequest needed for outline generation
 const OutlineRequestSchema = z.object({
   inputText: z.string().min(1).max(50000),
@@ -22,6 +29,8 @@ const OutlineRequestSchema = z.object({
 });
 
 export async function POST(request: NextRequest) {
+  let usage: UsageRecorder | undefined;
+
   try {
     // 1. Parse and validate request body
     let body: unknown;
@@ -50,8 +59,21 @@ export async function POST(request: NextRequest) {
 
     const outlineRequest = parseResult.data;
 
-    // 2. Create pipeline and generate outline
-    const pipeline = createPipeline();
+    // 2. Create pipeline with the workspace's stage models and generate outline
+    // (the outline is the first step of generating a deck, so it is billed as generation)
+    usage = new UsageRecorder(
+      { workspaceId: MVP_WORKSPACE_ID, source: "generation" },
+      createUsageRecord
+    );
+    const { routing, ...llmOptions } = await getWorkspaceLLMSettings(MVP_WORKSPACE_ID);
+    const llms = createPipelineLLMs(
+      { ...llmOptions, onUsage: usage.recordLLM },
+      mergeModelRouting(getEnvModelRouting(), routing)
+    );
+    const pipeline = createPipeline({
+      llmClient: llms.clients.content,
+      stageClients: llms.clients,
+    });
 
     // Build a GenerationRequest-compatible object for the pipeline
     const generationRequest = GenerationRequestSchema.parse({
@@ -103,5 +125,7 @@ export async function POST(request: NextRequest) {
       },
       { status: 500 }
     );
+  } finally {
+    await usage?.flush();
   }
 }
@@ -0,0 +1,51 @@
+/**
+ * Template API Routes
+ *
+ * GET /api/templates - List the workspace's own templates for the generation wizard
+ * (templates saved from decks and workspace-defined golden templates)
+ */
+
+import { NextResponse } from "next/server";
+import { listDeckTemplates } from "@/lib/db/deck-template";
+import { listWorkspaceTemplates } from "@/lib/db/golden-template";
+
+// MVP: Use fixed workspace ID (no auth yet)
+const MVP_WORKSPACE_ID = "ws_default";
+
+// ============================================================================
+// GET /api/templates
+// ============================================================================
+
+export async function GET() {
+  try {
+    const [deckTemplates, goldenTemplates] = await Promise.all([
+      listDeckTemplates(MVP_WORKSPACE_ID),
+      listWorkspaceTemplates(MVP_WORKSPACE_ID),
+    ]);
+
+    const templates = [
+      ...deckTemplates.map((template) => ({
+        id: template.id,
+        kind: "deck" as const,
+        name: template.name,
+        description: template.description,
+        slideCount: template.slideCount,
+      })),
+      ...goldenTemplates.map((template) => ({
+        id: template.id,
+        kind: "golden" as const,
+        name: template.name,
+        description: template.description,
+        slideCount: template.slideCount,
+      })),
+    ];
+
+    return NextResponse.json({ templates });
+  } catch (error) {
+    console.error("GET /api/templates error:", error);
+    return NextResponse.json(
+      { error: { code: "INTERNAL_ERROR", message: "Kunne ikke hente maler" } },
+      { status: 500 }
+    );
+  }
+}
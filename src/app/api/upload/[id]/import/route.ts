@@ -0,0 +1,138 @@
+/**
+ * POST /api/upload/{id}/import
+ *
+ * Import an uploaded PowerPoint file as an editable deck.
+ * Parses slides, text, tables, images and notes into the deck schema,
+ * stores the images, and creates a new deck from the result.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getUploadedFileById } from "@/lib/db/uploaded-file";
+import { createDeck, saveDeckFromSchema } from "@/lib/db/deck";
+import {
+  downloadFile,
+  fileExists,
+  generateImportMediaKey,
+  generateSignedUrl,
+  uploadFile,
+} from "@/lib/storage/s3-client";
+import { PPTX_MIME_TYPE } from "@/lib/extraction";
+import { importPptx } from "@/lib/extraction/pptx-importer";
+import type { Deck } from "@/lib/schemas/deck";
+
+// Default workspace/user IDs for MVP (single-tenant)
+const DEFAULT_WORKSPACE_ID = "ws_default";
+const DEFAULT_USER_ID = "user_default";
+
+// Imported images use the same lifetime as generated images
+const IMAGE_URL_EXPIRY_SECONDS = 86400 * 7; // 7 days
+
+type RouteParams = {
+  params: Promise<{ id: string }>;
+};
+
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+
+    // 1. Get the uploaded file record
+    const file = await getUploadedFileById(id, DEFAULT_WORKSPACE_ID);
+    if (!file) {
+      return NextResponse.json(
+        {
+          error: {
+            code: "NOT_FOUND",
+            message: "Upload not found",
+          },
+        },
+        { status: 404 }
+      );
+    }
+
+    // 2. Only PowerPoint files have slides to import
+    if (file.mimeType !== PPTX_MIME_TYPE) {
+      return NextResponse.json(
+        {
+          error: {
+            code: "INVALID_FILE_TYPE",
+            message: "Bare PowerPoint-filer (PPTX) kan importeres som presentasjon",
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    // 3. Verify file exists in S3
+    const exists = await fileExists(file.s3Key);
+    if (!exists) {
+      return NextResponse.json(
+        {
+          error: {
+            code: "FILE_NOT_FOUND",
+            message: "File not found in storage. Upload may have expired.",
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    // 4. Parse the presentation, storing images as we go
+    const buffer = await downloadFile(file.s3Key);
+    let schema: Deck;
+    try {
+      schema = await importPptx(buffer, {
+        title: file.filename.replace(/\.pptx$/i, ""),
+        resolveImage: async (image, slideIndex) => {
+          const key = generateImportMediaKey(
+            file.workspaceId,
+            file.id,
+            slideIndex,
+            image.path.split("/").pop() ?? "image"
+          );
+          await uploadFile(key, await image.read(), image.contentType);
+          return generateSignedUrl(key, IMAGE_URL_EXPIRY_SECONDS);
+        },
+      });
+    } catch (error) {
+      console.error("PPTX import error:", error);
+      return NextResponse.json(
+        {
+          error: {
+            code: "INVALID_FILE",
+            message: "Kunne ikke lese PowerPoint-filen",
+          },
+        },
+        { status: 422 }
+      );
+    }
+
+    // 5. Create the deck and its slides
+    const deck = await createDeck({
+      workspaceId: DEFAULT_WORKSPACE_ID,
+      userId: DEFAULT_USER_ID,
+      title: schema.deck.title,
+      language: schema.deck.language,
+      themeId: schema.deck.themeId,
+    });
+    await saveDeckFromSchema(deck.id, DEFAULT_WORKSPACE_ID, schema);
+
+    return NextResponse.json(
+      {
+        deckId: deck.id,
+        slideCount: schema.slides.length,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Import error:", error);
+    return NextResponse.json(
+      {
+        error: {
+          code: "INTERNAL_ERROR",
+          message: error instanceof Error ? error.message : "Failed to import presentation",
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -54,11 +54,24 @@ export async function GET(request: NextRequest, context: RouteContext) {
       if (job.pptxUrl) {
         response.pptxUrl = job.pptxUrl;
       }
+      if (job.markdownUrl) {
+        response.markdownUrl = job.markdownUrl;
+      }
       if (job.exportExpiresAt) {
         response.expiresAt = job.exportExpiresAt.toISOString();
       }
     }
 
+    // Add usage once the job has finished
+    if (job.status === "completed" || job.status === "failed") {
+      response.usage = {
+        promptTokens: job.promptTokens,
+        completionTokens: job.completionTokens,
+        images: job.imageCount,
+        costUsd: job.costUsd.toNumber(),
+      };
+    }
+
     // Add error if failed
     if (job.status === "failed") {
       response.error = {
@@ -62,12 +62,14 @@ export async function POST(request: NextRequest) {
       workspaceId: auth.workspaceId,
       request: generationRequest,
       idempotencyKey: idempotencyKey ?? undefined,
+      apiKeyId: auth.apiKeyId,
     });
 
     // 6. Add to queue
     await addGenerationJob({
       generationId: job.id,
       workspaceId: auth.workspaceId,
+      apiKeyId: auth.apiKeyId,
       request: generationRequest,
     });
 
@@ -1,14 +1,36 @@
 import { createClient } from "@/lib/db/supabase-server";
 import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
-
-const UpdateWorkspaceSchema = z.object({
-  name: z.string().min(1, "Workspace name is required"),
-});
+import { getLLMProvider } from "@/lib/ai/llm-providers";
+import { ModelRoutingSchema } from "@/lib/ai/model-routing";
+
+const UpdateWorkspaceSchema = z
+  .object({
+    name: z.string().min(1, "Workspace name is required").optional(),
+    // null resets to the environment default
+    llmProvider: z
+      .string()
+      .refine((id) => getLLMProvider(id) !== undefined, "Unknown LLM provider")
+      .nullable()
+      .optional(),
+    llmModel: z.string().min(1).max(200).nullable().optional(),
+    llmRouting: ModelRoutingSchema.refine(
+      (routing) =>
+        Object.values(routing).every(
+          (stage) => stage?.provider === undefined || getLLMProvider(stage.provider) !== undefined
+        ),
+      "Unknown LLM provider"
+    )
+      .nullable()
+      .optional(),
+  })
+  .refine((data) => Object.values(data).some((value) => value !== undefined), {
+    message: "Nothing to update",
+  });
 
 /**
  * PATCH /api/workspaces/[workspaceId]
- * Update workspace name
+ * Update workspace name and LLM provider, model and stage routing
  * Only owners and admins can update
  */
 export async function PATCH(
@@ -39,7 +61,7 @@ export async function PATCH(
       );
     }
 
-    const { name } = validation.data;
+    const { name, llmProvider, llmModel, llmRouting } = validation.data;
 
     // Check if user is owner or admin of this workspace
     const { data: member } = await supabase
@@ -56,10 +78,16 @@ export async function PATCH(
       );
     }
 
-    // Update workspace name
+    // Update workspace
     const { error } = await supabase
       .from("workspaces")
-      .update({ name, updated_at: new Date().toISOString() })
+      .update({
+        name,
+        llm_provider: llmProvider,
+        llm_model: llmModel,
+        llm_routing: llmRouting,
+        updated_at: new Date().toISOString(),
+      })
       .eq("id", workspaceId);
 
     if (error) {
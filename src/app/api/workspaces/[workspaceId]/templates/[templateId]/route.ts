@@ -0,0 +1,165 @@
+import { createClient } from "@/lib/db/supabase-server";
+import {
+  getWorkspaceTemplate,
+  updateWorkspaceTemplate,
+  deleteWorkspaceTemplate,
+} from "@/lib/db/golden-template";
+import { GoldenTemplateInputSchema } from "@/lib/templates/schema";
+import { NextRequest, NextResponse } from "next/server";
+
+/**
+ * GET /api/workspaces/[workspaceId]/templates/[templateId]
+ * Get a single workspace golden template
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ workspaceId: string; templateId: string }> }
+) {
+  try {
+    const { workspaceId, templateId } = await params;
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Verify user is member of this workspace
+    const { data: member } = await supabase
+      .from("workspace_members")
+      .select("role")
+      .eq("workspace_id", workspaceId)
+      .eq("user_id", user.id)
+      .single();
+
+    if (!member) {
+      return NextResponse.json({ error: "Not a member of this workspace" }, { status: 403 });
+    }
+
+    const template = await getWorkspaceTemplate(templateId, workspaceId);
+
+    if (!template) {
+      return NextResponse.json({ error: "Template not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ template });
+  } catch (error) {
+    console.error("Template fetch error:", error);
+    return NextResponse.json({ error: "Failed to fetch template" }, { status: 500 });
+  }
+}
+
+/**
+ * PUT /api/workspaces/[workspaceId]/templates/[templateId]
+ * Replace a golden template's definition (owners and admins only)
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ workspaceId: string; templateId: string }> }
+) {
+  try {
+    const { workspaceId, templateId } = await params;
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Verify user is admin or owner of this workspace
+    const { data: member } = await supabase
+      .from("workspace_members")
+      .select("role")
+      .eq("workspace_id", workspaceId)
+      .eq("user_id", user.id)
+      .single();
+
+    if (!member || (member.role !== "owner" && member.role !== "admin")) {
+      return NextResponse.json(
+        { error: "Only owners and admins can manage templates" },
+        { status: 403 }
+      );
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+    }
+
+    const validation = GoldenTemplateInputSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: "Validation failed",
+          details: validation.error.flatten().fieldErrors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const template = await updateWorkspaceTemplate(templateId, workspaceId, validation.data);
+
+    if (!template) {
+      return NextResponse.json({ error: "Template not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ template });
+  } catch (error) {
+    console.error("Template update error:", error);
+    return NextResponse.json({ error: "Failed to update template" }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/workspaces/[workspaceId]/templates/[templateId]
+ * Delete a golden template (owners and admins only)
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ workspaceId: string; templateId: string }> }
+) {
+  try {
+    const { workspaceId, templateId } = await params;
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Verify user is admin or owner of this workspace
+    const { data: member } = await supabase
+      .from("workspace_members")
+      .select("role")
+      .eq("workspace_id", workspaceId)
+      .eq("user_id", user.id)
+      .single();
+
+    if (!member || (member.role !== "owner" && member.role !== "admin")) {
+      return NextResponse.json(
+        { error: "Only owners and admins can manage templates" },
+        { status: 403 }
+      );
+    }
+
+    const deleted = await deleteWorkspaceTemplate(templateId, workspaceId);
+
+    if (!deleted) {
+      return NextResponse.json({ error: "Template not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Template deletion error:", error);
+    return NextResponse.json({ error: "Failed to delete template" }, { status: 500 });
+  }
+}
@@ -0,0 +1,110 @@
+import { createClient } from "@/lib/db/supabase-server";
+import { createWorkspaceTemplate, listWorkspaceTemplates } from "@/lib/db/golden-template";
+import { GoldenTemplateInputSchema } from "@/lib/templates/schema";
+import { NextRequest, NextResponse } from "next/server";
+
+/**
+ * GET /api/workspaces/[workspaceId]/templates
+ * List the workspace's own golden templates
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ workspaceId: string }> }
+) {
+  try {
+    const { workspaceId } = await params;
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Verify user is member of this workspace
+    const { data: member } = await supabase
+      .from("workspace_members")
+      .select("role")
+      .eq("workspace_id", workspaceId)
+      .eq("user_id", user.id)
+      .single();
+
+    if (!member) {
+      return NextResponse.json({ error: "Not a member of this workspace" }, { status: 403 });
+    }
+
+    const templates = await listWorkspaceTemplates(workspaceId);
+
+    return NextResponse.json({ templates });
+  } catch (error) {
+    console.error("Templates fetch error:", error);
+    return NextResponse.json({ error: "Failed to fetch templates" }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/workspaces/[workspaceId]/templates
+ * Create a golden template (owners and admins only)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ workspaceId: string }> }
+) {
+  try {
+    const { workspaceId } = await params;
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Verify user is admin or owner of this workspace
+    const { data: member } = await supabase
+      .from("workspace_members")
+      .select("role")
+      .eq("workspace_id", workspaceId)
+      .eq("user_id", user.id)
+      .single();
+
+    if (!member || (member.role !== "owner" && member.role !== "admin")) {
+      return NextResponse.json(
+        { error: "Only owners and admins can manage templates" },
+        { status: 403 }
+      );
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+    }
+
+    const validation = GoldenTemplateInputSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: "Validation failed",
+          details: validation.error.flatten().fieldErrors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const template = await createWorkspaceTemplate({
+      ...validation.data,
+      workspaceId,
+      createdBy: user.id,
+    });
+
+    return NextResponse.json({ template }, { status: 201 });
+  } catch (error) {
+    console.error("Template creation error:", error);
+    return NextResponse.json({ error: "Failed to create template" }, { status: 500 });
+  }
+}
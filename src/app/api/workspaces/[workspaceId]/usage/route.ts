@@ -0,0 +1,57 @@
+import { createClient } from "@/lib/db/supabase-server";
+import { getWorkspaceUsage } from "@/lib/db/usage-record";
+import { NextRequest, NextResponse } from "next/server";
+
+const DEFAULT_DAYS = 30;
+const MAX_DAYS = 366;
+
+/**
+ * GET /api/workspaces/[workspaceId]/usage?days=30
+ * Token usage, image count and estimated cost for the last `days` days,
+ * in total and per API key, model and source
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ workspaceId: string }> }
+) {
+  try {
+    const { workspaceId } = await params;
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Verify user is member of this workspace
+    const { data: member } = await supabase
+      .from("workspace_members")
+      .select("role")
+      .eq("workspace_id", workspaceId)
+      .eq("user_id", user.id)
+      .single();
+
+    if (!member) {
+      return NextResponse.json({ error: "Not a member of this workspace" }, { status: 403 });
+    }
+
+    const daysParam = request.nextUrl.searchParams.get("days");
+    const days = daysParam === null ? DEFAULT_DAYS : Number(daysParam);
+    if (!Number.isInteger(days) || days < 1 || days > MAX_DAYS) {
+      return NextResponse.json(
+        { error: `days must be a whole number between 1 and ${MAX_DAYS}` },
+        { status: 400 }
+      );
+    }
+
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+    const usage = await getWorkspaceUsage(workspaceId, since);
+
+    return NextResponse.json({ days, ...usage });
+  } catch (error) {
+    console.error("Usage fetch error:", error);
+    return NextResponse.json({ error: "Failed to fetch usage" }, { status: 500 });
+  }
+}
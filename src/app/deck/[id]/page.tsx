@@ -56,6 +56,7 @@ function EditorContent({
   const { state, canUndo, canRedo, actions } = useEditor();
   const [isShareModalOpen, setIsShareModalOpen] = useState(false);
   const [isExportModalOpen, setIsExportModalOpen] = useState(false);
+  const [isTemplateModalOpen, setIsTemplateModalOpen] = useState(false);
   const { addToast } = useToast();
 
   const currentSlide = state.deck.slides[state.selectedSlideIndex];
@@ -195,6 +196,11 @@ function EditorContent({
         onOpen: () => setIsExportModalOpen(true),
         onClose: () => setIsExportModalOpen(false),
       }}
+      templateModal={{
+        isOpen: isTemplateModalOpen,
+        onOpen: () => setIsTemplateModalOpen(true),
+        onClose: () => setIsTemplateModalOpen(false),
+      }}
       // Live mode props
       liveMode={
         isLiveMode
@@ -0,0 +1,201 @@
+"use client";
+
+/**
+ * Present Page
+ *
+ * Presents a deck straight from the app.
+ * - Default: audience window (full-screen slides, no chrome)
+ * - ?mode=presenter: presenter window with notes, timer and next-slide preview
+ *
+ * Both windows stay on the same slide via BroadcastChannel (usePresenterSync).
+ */
+
+import { useState, useEffect, useCallback, Suspense } from "react";
+import { useParams, useRouter, useSearchParams } from "next/navigation";
+import { DeckViewer, PresenterView } from "@/components/viewer";
+import { Button, LoadingSpinner } from "@/components/ui";
+import type { Deck, ThemeId } from "@/lib/schemas/deck";
+
+/**
+ * Window URL and name for each presentation window.
+ * Named windows are reused instead of opening duplicates.
+ */
+function getPresentWindow(deckId: string, mode: "audience" | "presenter") {
+  return mode === "presenter"
+    ? { url: `/deck/${deckId}/present?mode=presenter`, name: `arti-presenter-${deckId}` }
+    : { url: `/deck/${deckId}/present`, name: `arti-audience-${deckId}` };
+}
+
+function PresentContent() {
+  const params = useParams();
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const deckId = params.id as string;
+  const isPresenter = searchParams.get("mode") === "presenter";
+
+  const [deck, setDeck] = useState<Deck | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [hasEnded, setHasEnded] = useState(false);
+
+  const fetchDeck = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const res = await fetch(`/api/decks/${deckId}`);
+      if (!res.ok) {
+        throw new Error(
+          res.status === 404 ? "Presentasjon ikke funnet" : "Kunne ikke hente presentasjon"
+        );
+      }
+
+      const data = await res.json();
+      setDeck({
+        deck: {
+          title: data.deck.title,
+          language: data.deck.language,
+          themeId: data.deck.themeId,
+          brandKit: data.deck.brandKit,
+        },
+        slides: data.slides,
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "En feil oppstod");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [deckId]);
+
+  useEffect(() => {
+    fetchDeck();
+  }, [fetchDeck]);
+
+  const openWindow = useCallback(
+    (mode: "audience" | "presenter") => {
+      const { url, name } = getPresentWindow(deckId, mode);
+      window.open(url, name, mode === "presenter" ? "popup,width=1280,height=800" : undefined);
+    },
+    [deckId]
+  );
+
+  // Close windows we opened ourselves, otherwise go back to the editor
+  const leave = useCallback(() => {
+    if (window.opener) {
+      window.close();
+    } else {
+      router.push(`/deck/${deckId}`);
+    }
+  }, [deckId, router]);
+
+  // Audience shortcut: P opens the presenter window
+  useEffect(() => {
+    if (isPresenter) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "p" || e.key === "P") {
+        e.preventDefault();
+        openWindow("presenter");
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [isPresenter, openWindow]);
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-900">
+        <LoadingSpinner size="lg" label="Laster presentasjon" />
+      </div>
+    );
+  }
+
+  if (error || !deck) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-900">
+        <div className="text-center">
+          <h1 className="text-xl font-semibold text-white mb-4">{error || "Noe gikk galt"}</h1>
+          <Button variant="secondary" onClick={fetchDeck}>
+            Prøv igjen
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  const themeId = deck.deck.themeId as ThemeId;
+
+  if (isPresenter) {
+    return (
+      <PresenterView
+        deck={deck}
+        syncKey={deckId}
+        themeId={themeId}
+        brandKit={deck.deck.brandKit}
+        onOpenAudience={() => openWindow("audience")}
+        onExit={leave}
+      />
+    );
+  }
+
+  if (hasEnded) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center gap-4 bg-black">
+        <p className="text-gray-400">Presentasjonen er avsluttet</p>
+        <Button variant="secondary" onClick={leave}>
+          Lukk
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="group relative h-screen bg-black">
+      <DeckViewer
+        deck={deck}
+        themeId={themeId}
+        brandKit={deck.deck.brandKit}
+        showThumbnails={false}
+        showNavigation={false}
+        syncKey={deckId}
+        onPresenterEnd={() => setHasEnded(true)}
+        className="items-center"
+      />
+
+      {/* Controls appear on hover so they stay out of the audience's way */}
+      <div className="absolute top-4 right-4 flex gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
+        <button
+          type="button"
+          onClick={() => openWindow("presenter")}
+          title="Åpne presentatørvisning (P)"
+          className="px-3 py-1.5 rounded text-sm font-medium bg-gray-800/80 text-white hover:bg-gray-700"
+        >
+          Presentatørvisning
+        </button>
+        <button
+          type="button"
+          onClick={() => document.documentElement.requestFullscreen?.()}
+          className="px-3 py-1.5 rounded text-sm font-medium bg-gray-800/80 text-white hover:bg-gray-700"
+        >
+          Fullskjerm
+        </button>
+      </div>
+    </div>
+  );
+}
+
+// Wrap with Suspense for useSearchParams
+export default function PresentPage() {
+  return (
+    <Suspense
+      fallback={
+        <div className="min-h-screen flex items-center justify-center bg-gray-900">
+          <LoadingSpinner size="lg" label="Laster presentasjon" />
+        </div>
+      }
+    >
+      <PresentContent />
+    </Suspense>
+  );
+}
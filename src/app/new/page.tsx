@@ -7,7 +7,7 @@
  * Supports multiple creation modes:
  * - generate: Create from topic/prompt
  * - paste: Create from pasted text/notes
- * - import: Create from uploaded file (PDF, DOCX, TXT)
+ * - import: Create from uploaded file (PDF, DOCX, PPTX, TXT)
  */
 
 import { useState, useCallback, Suspense } from "react";
@@ -118,6 +118,7 @@ function NewPresentationContent() {
             imageMode: promptEditorState.imageMode,
             imageStyle:
               promptEditorState.imageMode === "ai" ? promptEditorState.imageStyle : undefined,
+            speakerNotes: promptEditorState.speakerNotes || undefined,
             numSlides: promptEditorState.targetSlideCount,
             // Golden Template (Phase 8) - when set, AI fills content into fixed structure
             templateId: promptEditorState.templateId || undefined,
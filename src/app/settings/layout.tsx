@@ -16,6 +16,7 @@ const tabs = [
   { name: "Workspace", href: "/settings/workspace" },
   { name: "API Keys", href: "/settings/api-keys" },
   { name: "Team", href: "/settings/team" },
+  { name: "Usage", href: "/settings/usage" },
 ];
 
 export default function SettingsLayout({ children }: { children: React.ReactNode }) {
@@ -0,0 +1,233 @@
+/**
+ * Usage Settings Page
+ *
+ * Token usage, generated images and estimated cost for the workspace,
+ * broken down by API key, model and source.
+ */
+
+"use client";
+
+import { useState, useEffect } from "react";
+import { useWorkspace } from "@/lib/context/WorkspaceContext";
+
+type UsageTotals = {
+  promptTokens: number;
+  completionTokens: number;
+  images: number;
+  costUsd: number;
+};
+
+type WorkspaceUsage = {
+  days: number;
+  totals: UsageTotals;
+  byApiKey: Array<UsageTotals & { apiKeyId: string | null; apiKeyName: string | null }>;
+  byModel: Array<UsageTotals & { provider: string; model: string }>;
+  bySource: Array<UsageTotals & { source: string }>;
+};
+
+const PERIODS = [
+  { days: 7, label: "Last 7 days" },
+  { days: 30, label: "Last 30 days" },
+  { days: 90, label: "Last 90 days" },
+];
+
+const SOURCE_LABELS: Record<string, string> = {
+  generation: "Generations",
+  slide_agent: "Slide agent",
+  edit_action: "Edit actions",
+  image_generation: "Image generation",
+};
+
+const formatCost = (costUsd: number) =>
+  costUsd.toLocaleString("en-US", {
+    style: "currency",
+    currency: "USD",
+    minimumFractionDigits: 2,
+    maximumFractionDigits: costUsd < 1 ? 4 : 2,
+  });
+
+const formatCount = (count: number) => count.toLocaleString("en-US");
+
+export default function UsagePage() {
+  const { activeWorkspace } = useWorkspace();
+  const [days, setDays] = useState(30);
+  const [usage, setUsage] = useState<WorkspaceUsage | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | undefined>();
+
+  useEffect(() => {
+    if (!activeWorkspace) return;
+
+    const fetchUsage = async () => {
+      setIsLoading(true);
+      setError(undefined);
+
+      try {
+        const res = await fetch(`/api/workspaces/${activeWorkspace.id}/usage?days=${days}`);
+
+        if (!res.ok) {
+          throw new Error("Failed to fetch usage");
+        }
+
+        setUsage(await res.json());
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to fetch usage");
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchUsage();
+  }, [activeWorkspace, days]);
+
+  if (!activeWorkspace) {
+    return (
+      <div>
+        <h1 className="text-2xl font-bold mb-6">Usage</h1>
+        <p className="text-gray-600">No active workspace selected.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-6">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Usage</h1>
+          <p className="text-sm text-gray-600 mt-1">
+            AI usage and estimated cost (list prices, USD) for this workspace
+          </p>
+        </div>
+        <select
+          value={days}
+          onChange={(e) => setDays(Number(e.target.value))}
+          className="px-4 py-2 border border-gray-200 rounded-lg bg-white text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500"
+        >
+          {PERIODS.map((period) => (
+            <option key={period.days} value={period.days}>
+              {period.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {error && (
+        <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-sm text-red-600">{error}</p>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="text-center py-12">
+          <div className="inline-block w-8 h-8 border-4 border-gray-200 border-t-emerald-600 rounded-full animate-spin"></div>
+          <p className="text-sm text-gray-600 mt-4">Loading usage...</p>
+        </div>
+      ) : usage ? (
+        <div className="space-y-8">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <SummaryCard label="Estimated cost" value={formatCost(usage.totals.costUsd)} />
+            <SummaryCard label="Input tokens" value={formatCount(usage.totals.promptTokens)} />
+            <SummaryCard label="Output tokens" value={formatCount(usage.totals.completionTokens)} />
+            <SummaryCard label="Images" value={formatCount(usage.totals.images)} />
+          </div>
+
+          <UsageTable
+            title="By API key"
+            rows={usage.byApiKey.map((row) => ({
+              key: row.apiKeyId ?? "app",
+              label: row.apiKeyId ? (row.apiKeyName ?? "Deleted key") : "App (no API key)",
+              ...row,
+            }))}
+          />
+          <UsageTable
+            title="By model"
+            rows={usage.byModel.map((row) => ({
+              key: `${row.provider}/${row.model}`,
+              label: `${row.model} (${row.provider})`,
+              ...row,
+            }))}
+          />
+          <UsageTable
+            title="By source"
+            rows={usage.bySource.map((row) => ({
+              key: row.source,
+              label: SOURCE_LABELS[row.source] ?? row.source,
+              ...row,
+            }))}
+          />
+        </div>
+      ) : null}
+    </div>
+  );
+}
+
+function SummaryCard({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg p-4">
+      <p className="text-xs font-medium text-gray-500 uppercase tracking-wider">{label}</p>
+      <p className="text-2xl font-semibold text-gray-900 mt-1">{value}</p>
+    </div>
+  );
+}
+
+function UsageTable({
+  title,
+  rows,
+}: {
+  title: string;
+  rows: Array<UsageTotals & { key: string; label: string }>;
+}) {
+  return (
+    <div>
+      <h2 className="text-lg font-semibold text-gray-900 mb-3">{title}</h2>
+      {rows.length === 0 ? (
+        <p className="text-sm text-gray-600">No usage in this period.</p>
+      ) : (
+        <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+          <table className="w-full">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Name
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Input Tokens
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Output Tokens
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Images
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Cost
+                </th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {rows.map((row) => (
+                <tr key={row.key} className="hover:bg-gray-50">
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                    {row.label}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right text-sm text-gray-600">
+                    {formatCount(row.promptTokens)}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right text-sm text-gray-600">
+                    {formatCount(row.completionTokens)}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right text-sm text-gray-600">
+                    {formatCount(row.images)}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right text-sm text-gray-900">
+                    {formatCost(row.costUsd)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -6,6 +6,7 @@
  */
 
 import type { Block } from "@/lib/schemas/block";
+import { getChartData } from "@/lib/charts";
 import { TitleBlock } from "./TitleBlock";
 import { TextBlock } from "./TextBlock";
 import { BulletsBlock } from "./BulletsBlock";
@@ -16,6 +17,7 @@ import { StatBlock } from "./StatBlock";
 import { TimelineStepBlock } from "./TimelineStepBlock";
 import { IconCardBlock } from "./IconCardBlock";
 import { NumberedCardBlock } from "./NumberedCardBlock";
+import { ChartBlock } from "./ChartBlock";
 
 interface BlockRendererProps {
   block: Block;
@@ -104,6 +106,21 @@ export function BlockRenderer({
         />
       );
 
+    case "chart": {
+      const data = getChartData(block);
+      return (
+        <ChartBlock
+          chartType={data.chartType}
+          title={block.text}
+          categories={data.categories}
+          series={data.series}
+          xAxisLabel={block.xAxisLabel}
+          yAxisLabel={block.yAxisLabel}
+          className={className}
+        />
+      );
+    }
+
     default:
       console.warn(`Unknown block kind: ${(block as Block).kind}`);
       return (
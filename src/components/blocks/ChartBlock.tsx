@@ -0,0 +1,315 @@
+/**
+ * ChartBlock Component
+ *
+ * Renders a bar, line, pie or stacked bar chart as inline SVG.
+ * Series colours come from the theme palette (CSS variables), and all
+ * styling is inline so the same markup works in the PDF export.
+ */
+
+import type { ChartSeries, ChartType } from "@/lib/schemas/block";
+import { getChartColorVar } from "@/lib/themes";
+import {
+  categoryCenterX,
+  formatChartValue,
+  getChartScale,
+  layoutBars,
+  layoutLines,
+  layoutPie,
+  valueToY,
+  type ChartData,
+  type PlotBox,
+} from "@/lib/charts";
+
+// SVG coordinate space (scaled to the container width)
+const VIEW_WIDTH = 800;
+const VIEW_HEIGHT = 400;
+
+interface ChartBlockProps {
+  chartType: ChartType;
+  title?: string;
+  categories: string[];
+  series: ChartSeries[];
+  xAxisLabel?: string;
+  yAxisLabel?: string;
+  className?: string;
+  /** Callback when block is clicked (to start editing) */
+  onClick?: () => void;
+}
+
+const axisTextStyle: React.CSSProperties = {
+  fill: "var(--theme-color-foreground-muted, #64748b)",
+  fontSize: 14,
+  fontFamily: "var(--theme-font-family, sans-serif)",
+};
+
+const axisTitleStyle: React.CSSProperties = {
+  ...axisTextStyle,
+  fontSize: 15,
+  fontWeight: 600,
+};
+
+/**
+ * Bars, lines, axes and gridlines for bar, line and stacked bar charts
+ */
+function CartesianChart({
+  data,
+  xAxisLabel,
+  yAxisLabel,
+}: {
+  data: ChartData;
+  xAxisLabel?: string;
+  yAxisLabel?: string;
+}) {
+  const box: PlotBox = {
+    x: yAxisLabel ? 90 : 64,
+    y: 16,
+    width: VIEW_WIDTH - (yAxisLabel ? 90 : 64) - 16,
+    height: VIEW_HEIGHT - 16 - (xAxisLabel ? 72 : 44),
+  };
+  const scale = getChartScale(data);
+  const zeroY = valueToY(0, scale, box);
+
+  return (
+    <>
+      {/* Gridlines and value ticks */}
+      {scale.ticks.map((tick) => {
+        const y = valueToY(tick, scale, box);
+        return (
+          <g key={tick}>
+            <line
+              x1={box.x}
+              x2={box.x + box.width}
+              y1={y}
+              y2={y}
+              style={{ stroke: "var(--theme-color-border-subtle, #e2e8f0)", strokeWidth: 1 }}
+            />
+            <text x={box.x - 10} y={y + 5} textAnchor="end" style={axisTextStyle}>
+              {formatChartValue(tick)}
+            </text>
+          </g>
+        );
+      })}
+
+      {/* Bars */}
+      {data.chartType !== "line" &&
+        layoutBars(data, scale, box).map((bar) => (
+          <rect
+            key={`${bar.seriesIndex}-${bar.categoryIndex}`}
+            x={bar.x}
+            y={bar.y}
+            width={Math.max(0, bar.width - (data.chartType === "bar" ? 2 : 0))}
+            height={bar.height}
+            rx={data.chartType === "bar" ? 3 : 0}
+            style={{ fill: getChartColorVar(bar.seriesIndex) }}
+          >
+            <title>{`${data.series[bar.seriesIndex].name}, ${data.categories[bar.categoryIndex]}: ${formatChartValue(bar.value)}`}</title>
+          </rect>
+        ))}
+
+      {/* Lines */}
+      {data.chartType === "line" &&
+        layoutLines(data, scale, box).map((line) => (
+          <g key={line.seriesIndex}>
+            <polyline
+              points={line.points.map((p) => `${p.x},${p.y}`).join(" ")}
+              style={{
+                fill: "none",
+                stroke: getChartColorVar(line.seriesIndex),
+                strokeWidth: 3,
+                strokeLinejoin: "round",
+                strokeLinecap: "round",
+              }}
+            />
+            {line.points.map((point) => (
+              <circle
+                key={point.categoryIndex}
+                cx={point.x}
+                cy={point.y}
+                r={5}
+                style={{
+                  fill: "var(--theme-color-background, #ffffff)",
+                  stroke: getChartColorVar(line.seriesIndex),
+                  strokeWidth: 2.5,
+                }}
+              >
+                <title>{`${data.series[line.seriesIndex].name}, ${data.categories[point.categoryIndex]}: ${formatChartValue(point.value)}`}</title>
+              </circle>
+            ))}
+          </g>
+        ))}
+
+      {/* Baseline */}
+      <line
+        x1={box.x}
+        x2={box.x + box.width}
+        y1={zeroY}
+        y2={zeroY}
+        style={{ stroke: "var(--theme-color-border, #cbd5e1)", strokeWidth: 1.5 }}
+      />
+
+      {/* Category labels */}
+      {data.categories.map((category, i) => (
+        <text
+          key={i}
+          x={categoryCenterX(i, data.categories.length, box)}
+          y={box.y + box.height + 26}
+          textAnchor="middle"
+          style={axisTextStyle}
+        >
+          {category}
+        </text>
+      ))}
+
+      {/* Axis titles */}
+      {xAxisLabel && (
+        <text
+          x={box.x + box.width / 2}
+          y={VIEW_HEIGHT - 12}
+          textAnchor="middle"
+          style={axisTitleStyle}
+        >
+          {xAxisLabel}
+        </text>
+      )}
+      {yAxisLabel && (
+        <text
+          x={0}
+          y={0}
+          transform={`translate(20 ${box.y + box.height / 2}) rotate(-90)`}
+          textAnchor="middle"
+          style={axisTitleStyle}
+        >
+          {yAxisLabel}
+        </text>
+      )}
+    </>
+  );
+}
+
+/**
+ * Pie slices with percentage labels (first series only)
+ */
+function PieChart({ data }: { data: ChartData }) {
+  const radius = VIEW_HEIGHT / 2 - 16;
+  const slices = layoutPie(data, VIEW_WIDTH / 2, VIEW_HEIGHT / 2, radius);
+
+  return (
+    <>
+      {slices.map((slice) => (
+        <path
+          key={slice.categoryIndex}
+          d={slice.path}
+          style={{
+            fill: getChartColorVar(slice.categoryIndex),
+            stroke: "var(--theme-color-background, #ffffff)",
+            strokeWidth: 2,
+          }}
+        >
+          <title>{`${data.categories[slice.categoryIndex]}: ${formatChartValue(slice.value)}`}</title>
+        </path>
+      ))}
+      {slices
+        .filter((slice) => slice.fraction >= 0.05)
+        .map((slice) => (
+          <text
+            key={slice.categoryIndex}
+            x={slice.labelX}
+            y={slice.labelY + 6}
+            textAnchor="middle"
+            style={{
+              fill: "#ffffff",
+              fontSize: 18,
+              fontWeight: 700,
+              fontFamily: "var(--theme-font-family, sans-serif)",
+            }}
+          >
+            {`${Math.round(slice.fraction * 100)}%`}
+          </text>
+        ))}
+    </>
+  );
+}
+
+export function ChartBlock({
+  chartType,
+  title,
+  categories,
+  series,
+  xAxisLabel,
+  yAxisLabel,
+  className = "",
+  onClick,
+}: ChartBlockProps) {
+  const data: ChartData = { chartType, categories, series };
+  const isPie = chartType === "pie";
+
+  // Pie charts colour by category, the others by series
+  const legend = isPie
+    ? categories.map((name, i) => ({ name, color: getChartColorVar(i) }))
+    : series.map((s, i) => ({ name: s.name, color: getChartColorVar(i) }));
+
+  return (
+    <figure
+      className={`chart-block ${onClick ? "cursor-pointer" : ""} ${className}`}
+      style={{ margin: 0, width: "100%" }}
+      onClick={onClick}
+    >
+      {title && (
+        <figcaption
+          style={{
+            fontSize: "var(--theme-typography-subheading-size, 1.25rem)",
+            fontWeight:
+              "var(--theme-typography-subheading-weight, 600)" as React.CSSProperties["fontWeight"],
+            color: "var(--theme-color-foreground, #0f172a)",
+            marginBottom: "0.5rem",
+          }}
+        >
+          {title}
+        </figcaption>
+      )}
+
+      <svg
+        viewBox={`0 0 ${VIEW_WIDTH} ${VIEW_HEIGHT}`}
+        role="img"
+        aria-label={title || "Diagram"}
+        style={{ display: "block", width: "100%", height: "auto" }}
+      >
+        {isPie ? (
+          <PieChart data={data} />
+        ) : (
+          <CartesianChart data={data} xAxisLabel={xAxisLabel} yAxisLabel={yAxisLabel} />
+        )}
+      </svg>
+
+      {/* Legend (a single bar/line series needs none) */}
+      {(isPie || series.length > 1) && (
+        <div
+          style={{
+            display: "flex",
+            flexWrap: "wrap",
+            justifyContent: "center",
+            gap: "0.5rem 1.25rem",
+            marginTop: "0.75rem",
+            fontSize: "var(--theme-typography-caption-size, 0.875rem)",
+            color: "var(--theme-color-foreground-muted, #64748b)",
+          }}
+        >
+          {legend.map((entry, i) => (
+            <span key={i} style={{ display: "inline-flex", alignItems: "center", gap: "0.4rem" }}>
+              <span
+                style={{
+                  display: "inline-block",
+                  width: "0.75rem",
+                  height: "0.75rem",
+                  borderRadius: isPie ? "50%" : "0.2rem",
+                  backgroundColor: entry.color,
+                }}
+              />
+              {entry.name}
+            </span>
+          ))}
+        </div>
+      )}
+    </figure>
+  );
+}
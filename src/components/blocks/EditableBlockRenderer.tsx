@@ -10,6 +10,7 @@
 
 import { useCallback } from "react";
 import type { Block } from "@/lib/schemas/block";
+import { getChartData } from "@/lib/charts";
 import { useEditor } from "@/components/editor/EditorProvider";
 import { createBlockId } from "@/lib/editor/constraints";
 import { useBlockValidation } from "@/lib/hooks/useBlockValidation";
@@ -24,6 +25,7 @@ import { EditableStatBlock } from "./EditableStatBlock";
 import { EditableTimelineStepBlock } from "./EditableTimelineStepBlock";
 import { EditableIconCardBlock } from "./EditableIconCardBlock";
 import { EditableNumberedCardBlock } from "./EditableNumberedCardBlock";
+import { ChartBlock } from "./ChartBlock";
 
 interface EditableBlockRendererProps {
   block: Block;
@@ -406,6 +408,43 @@ export function EditableBlockRenderer({
         </div>
       );
 
+    // Chart data is edited as a grid in the Inspector; the canvas only selects the block
+    case "chart": {
+      const data = getChartData(block);
+      return (
+        <div
+          className={`relative transition-all duration-200 rounded-lg ${
+            isEditing
+              ? "ring-2 ring-emerald-600 ring-offset-2 ring-offset-transparent"
+              : "hover:ring-2 hover:ring-emerald-600/20 hover:ring-offset-1 hover:ring-offset-transparent"
+          }`}
+        >
+          <ChartBlock
+            chartType={data.chartType}
+            title={block.text}
+            categories={data.categories}
+            series={data.series}
+            xAxisLabel={block.xAxisLabel}
+            yAxisLabel={block.yAxisLabel}
+            className={className}
+            onClick={handleClick}
+          />
+          {isEditing && (
+            <div className="absolute -bottom-6 right-0 text-xs text-zinc-500">
+              Rediger data i panelet til høyre
+            </div>
+          )}
+          {validation.violations.length > 0 && !isEditing && (
+            <CompactOverflowWarning
+              message={validation.violations[0].message}
+              severity="error"
+              className="mt-1"
+            />
+          )}
+        </div>
+      );
+    }
+
     default:
       console.warn(`Unknown block kind: ${(block as Block).kind}`);
       return (
@@ -18,6 +18,7 @@ export { IconCardBlock } from "./IconCardBlock";
 export { EditableIconCardBlock } from "./EditableIconCardBlock";
 export { NumberedCardBlock } from "./NumberedCardBlock";
 export { EditableNumberedCardBlock } from "./EditableNumberedCardBlock";
+export { ChartBlock } from "./ChartBlock";
 export { BlockRenderer } from "./BlockRenderer";
 export { EditableBlockRenderer } from "./EditableBlockRenderer";
 export { SmartBlockRenderer } from "./SmartBlockRenderer";
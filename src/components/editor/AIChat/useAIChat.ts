@@ -104,7 +104,7 @@ export function useAIChat(options: UseAIChatOptions): UseAIChatResult {
 
   // Execute transformation via API
   const executeTransform = useCallback(
-    async (instruction: string, isQuickAction = false) => {
+    async (instruction: string, quickAction?: TransformationType) => {
       if (!slide) {
         setError("Ingen slide valgt");
         return;
@@ -116,7 +116,7 @@ export function useAIChat(options: UseAIChatOptions): UseAIChatResult {
       setPartialResult(null);
 
       // Add user message
-      if (!isQuickAction) {
+      if (!quickAction) {
         addMessage("user", instruction);
       }
 
@@ -132,6 +132,7 @@ export function useAIChat(options: UseAIChatOptions): UseAIChatResult {
             slideIndex,
             instruction,
             deckTitle,
+            transformType: quickAction,
           }),
         });
 
@@ -202,7 +203,7 @@ export function useAIChat(options: UseAIChatOptions): UseAIChatResult {
       };
       addMessage("user", friendlyNames[type] || type);
 
-      await executeTransform(instruction, true);
+      await executeTransform(instruction, type);
     },
     [executeTransform, addMessage]
   );
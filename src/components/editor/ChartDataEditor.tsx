@@ -0,0 +1,305 @@
+"use client";
+
+/**
+ * ChartDataEditor Component
+ *
+ * Data grid for chart blocks, shown in the Inspector.
+ * Categories are columns and each series is a row. Cells keep a local
+ * draft while typing and commit on blur, so partial numbers like "-" or
+ * "1," never reach the deck and each edited cell is one undo step.
+ */
+
+import { useState } from "react";
+import type { Block, ChartType } from "@/lib/schemas/block";
+import { getChartData } from "@/lib/charts";
+import { BLOCK_CONSTRAINTS } from "@/lib/editor/constraints";
+import { getChartColorVar } from "@/lib/themes";
+
+const CHART_TYPES: { value: ChartType; label: string }[] = [
+  { value: "bar", label: "Stolpe" },
+  { value: "stacked_bar", label: "Stablet stolpe" },
+  { value: "line", label: "Linje" },
+  { value: "pie", label: "Kake" },
+];
+
+interface ChartDataEditorProps {
+  block: Block;
+  /** Apply a partial update to the chart block */
+  onChange: (updates: Partial<Block>) => void;
+}
+
+/**
+ * Parse a cell value, accepting Norwegian decimal commas and spaces
+ */
+function parseCellValue(raw: string): number | null {
+  const normalized = raw.replace(/\s/g, "").replace(",", ".");
+  if (normalized === "") return 0;
+  const value = Number(normalized);
+  return Number.isFinite(value) ? value : null;
+}
+
+/**
+ * Text input that commits on blur or Enter
+ */
+function DraftInput({
+  value,
+  onCommit,
+  maxLength,
+  placeholder,
+  className = "",
+  ariaLabel,
+}: {
+  value: string;
+  onCommit: (value: string) => void;
+  maxLength?: number;
+  placeholder?: string;
+  className?: string;
+  ariaLabel: string;
+}) {
+  const [draft, setDraft] = useState(value);
+  const [draftSource, setDraftSource] = useState(value);
+
+  // Reset the draft when the committed value changes (e.g. undo/redo)
+  if (draftSource !== value) {
+    setDraftSource(value);
+    setDraft(value);
+  }
+
+  const commit = () => {
+    if (draft !== value) {
+      onCommit(draft);
+    }
+  };
+
+  return (
+    <input
+      type="text"
+      value={draft}
+      maxLength={maxLength}
+      placeholder={placeholder}
+      aria-label={ariaLabel}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === "Enter") {
+          e.currentTarget.blur();
+        }
+      }}
+      className={`w-full px-2 py-1 text-xs text-gray-800 bg-white border border-[#e5e2dd] rounded focus:outline-none focus:ring-2 focus:ring-emerald-500/50 ${className}`}
+    />
+  );
+}
+
+export function ChartDataEditor({ block, onChange }: ChartDataEditorProps) {
+  const data = getChartData(block);
+  const { categories, series } = data;
+  const { maxCategories, maxSeries, maxCategoryChars, maxSeriesNameChars, maxAxisLabelChars } =
+    BLOCK_CONSTRAINTS.chart;
+
+  const setCategory = (index: number, name: string) => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    onChange({ categories: categories.map((c, i) => (i === index ? trimmed : c)) });
+  };
+
+  const setSeriesName = (index: number, name: string) => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    onChange({ series: series.map((s, i) => (i === index ? { ...s, name: trimmed } : s)) });
+  };
+
+  const setValue = (seriesIndex: number, categoryIndex: number, raw: string) => {
+    const value = parseCellValue(raw);
+    if (value === null) return;
+    onChange({
+      series: series.map((s, i) =>
+        i === seriesIndex
+          ? { ...s, values: s.values.map((v, j) => (j === categoryIndex ? value : v)) }
+          : s
+      ),
+    });
+  };
+
+  const addCategory = () => {
+    onChange({
+      categories: [...categories, `Kategori ${categories.length + 1}`],
+      series: series.map((s) => ({ ...s, values: [...s.values, 0] })),
+    });
+  };
+
+  const removeCategory = (index: number) => {
+    onChange({
+      categories: categories.filter((_, i) => i !== index),
+      series: series.map((s) => ({ ...s, values: s.values.filter((_, i) => i !== index) })),
+    });
+  };
+
+  const addSeries = () => {
+    onChange({
+      series: [...series, { name: `Serie ${series.length + 1}`, values: categories.map(() => 0) }],
+    });
+  };
+
+  const removeSeries = (index: number) => {
+    onChange({ series: series.filter((_, i) => i !== index) });
+  };
+
+  return (
+    <div className="space-y-3">
+      {/* Chart type */}
+      <div>
+        <label className="block text-xs text-gray-600 mb-1.5">Diagramtype</label>
+        <div className="grid grid-cols-2 gap-1.5">
+          {CHART_TYPES.map((type) => (
+            <button
+              key={type.value}
+              type="button"
+              onClick={() => onChange({ chartType: type.value })}
+              className={`px-2 py-1.5 text-xs rounded-md border transition-colors ${
+                data.chartType === type.value
+                  ? "bg-emerald-50 border-emerald-300 text-emerald-700"
+                  : "bg-white border-[#e5e2dd] text-gray-600 hover:bg-[#f5f3f0]"
+              }`}
+            >
+              {type.label}
+            </button>
+          ))}
+        </div>
+        {data.chartType === "pie" && series.length > 1 && (
+          <p className="mt-1 text-[10px] text-gray-400">Kakediagram viser bare første serie.</p>
+        )}
+      </div>
+
+      {/* Title and axis labels */}
+      <div className="space-y-1.5">
+        <label className="block text-xs text-gray-600">Tittel og akser</label>
+        <DraftInput
+          value={block.text ?? ""}
+          onCommit={(text) => onChange({ text: text.trim() || undefined })}
+          maxLength={BLOCK_CONSTRAINTS.chart.maxTitleChars}
+          placeholder="Diagramtittel"
+          ariaLabel="Diagramtittel"
+        />
+        {data.chartType !== "pie" && (
+          <div className="grid grid-cols-2 gap-1.5">
+            <DraftInput
+              value={block.xAxisLabel ?? ""}
+              onCommit={(label) => onChange({ xAxisLabel: label.trim() || undefined })}
+              maxLength={maxAxisLabelChars}
+              placeholder="X-akse"
+              ariaLabel="Tekst for x-aksen"
+            />
+            <DraftInput
+              value={block.yAxisLabel ?? ""}
+              onCommit={(label) => onChange({ yAxisLabel: label.trim() || undefined })}
+              maxLength={maxAxisLabelChars}
+              placeholder="Y-akse"
+              ariaLabel="Tekst for y-aksen"
+            />
+          </div>
+        )}
+      </div>
+
+      {/* Data grid: one row per series, one column per category */}
+      <div>
+        <label className="block text-xs text-gray-600 mb-1.5">Data</label>
+        <div className="overflow-x-auto border border-[#e5e2dd] rounded-lg bg-[#faf9f7]">
+          <table className="border-collapse text-xs">
+            <thead>
+              <tr>
+                <th className="p-1" />
+                {categories.map((category, ci) => (
+                  <th key={ci} className="p-1 min-w-[72px] font-normal">
+                    <div className="flex items-center gap-0.5">
+                      <DraftInput
+                        value={category}
+                        onCommit={(name) => setCategory(ci, name)}
+                        maxLength={maxCategoryChars}
+                        ariaLabel={`Kategori ${ci + 1}`}
+                        className="font-medium"
+                      />
+                      {categories.length > 1 && (
+                        <button
+                          type="button"
+                          onClick={() => removeCategory(ci)}
+                          className="p-0.5 text-gray-400 hover:text-red-500"
+                          title="Fjern kategori"
+                        >
+                          ×
+                        </button>
+                      )}
+                    </div>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {series.map((s, si) => (
+                <tr key={si}>
+                  <th className="p-1 min-w-[96px] font-normal">
+                    <div className="flex items-center gap-1">
+                      <span
+                        className="w-2.5 h-2.5 rounded-sm flex-shrink-0"
+                        style={{ backgroundColor: getChartColorVar(si) }}
+                      />
+                      <DraftInput
+                        value={s.name}
+                        onCommit={(name) => setSeriesName(si, name)}
+                        maxLength={maxSeriesNameChars}
+                        ariaLabel={`Navn på serie ${si + 1}`}
+                      />
+                      {series.length > 1 && (
+                        <button
+                          type="button"
+                          onClick={() => removeSeries(si)}
+                          className="p-0.5 text-gray-400 hover:text-red-500"
+                          title="Fjern serie"
+                        >
+                          ×
+                        </button>
+                      )}
+                    </div>
+                  </th>
+                  {s.values.map((value, ci) => (
+                    <td key={ci} className="p-1">
+                      <DraftInput
+                        value={String(value).replace(".", ",")}
+                        onCommit={(raw) => setValue(si, ci, raw)}
+                        ariaLabel={`${s.name}, ${categories[ci]}`}
+                        className="text-right tabular-nums"
+                      />
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="flex gap-3 mt-2">
+          {series.length < maxSeries && (
+            <button
+              type="button"
+              onClick={addSeries}
+              className="text-xs text-emerald-600 hover:text-emerald-700"
+            >
+              + Serie
+            </button>
+          )}
+          {categories.length < maxCategories && (
+            <button
+              type="button"
+              onClick={addCategory}
+              className="text-xs text-emerald-600 hover:text-emerald-700"
+            >
+              + Kategori
+            </button>
+          )}
+          <span className="ml-auto text-[10px] text-gray-400">
+            {series.length}/{maxSeries} serier, {categories.length}/{maxCategories} kategorier
+          </span>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -24,8 +24,10 @@ import { AIChat } from "./AIChat";
 import { HelpModal } from "./HelpModal";
 import { ShareModal } from "./ShareModal";
 import { ExportModal } from "./ExportModal";
+import { SaveTemplateModal } from "./SaveTemplateModal";
+import { SpeakerNotesPanel } from "./SpeakerNotesPanel";
 import { SaveStatus } from "./SaveStatus";
-import { Button, LoadingSpinner, Tooltip } from "@/components/ui";
+import { Button, LoadingSpinner, Tooltip, useToast } from "@/components/ui";
 import { GenerationHeader } from "@/components/generation";
 import { onAIChatEvent, type AIChatEvent } from "@/lib/editor/commands/ai-chat-events";
 import type { SlideTransformResult } from "@/lib/ai/slide-agent";
@@ -64,14 +66,16 @@ interface EditorLayoutProps {
   lastSavedAt?: Date | null;
   /** Save error message */
   saveError?: string | null;
-  /** Trigger save function */
-  onSaveNow?: () => void;
+  /** Trigger save function; resolves to whether the deck is saved afterwards */
+  onSaveNow?: () => Promise<boolean>;
 
   // Modal controls (state stays in page.tsx)
   /** Share modal state */
   shareModal?: { isOpen: boolean; onOpen: () => void; onClose: () => void };
   /** Export modal state */
   exportModal?: { isOpen: boolean; onOpen: () => void; onClose: () => void };
+  /** Save-as-template modal state */
+  templateModal?: { isOpen: boolean; onOpen: () => void; onClose: () => void };
 
   // Live generation mode
   /** Live generation mode state */
@@ -92,12 +96,14 @@ export function EditorLayout({
   // Modal props
   shareModal,
   exportModal,
+  templateModal,
   // Live mode props
   liveMode,
   liveGeneratedImages,
 }: EditorLayoutProps) {
   const { state, canUndo, canRedo, actions } = useEditor();
   const currentSlide = useCurrentSlide();
+  const { addToast } = useToast();
   const [isAIChatOpen, setIsAIChatOpen] = useState(false);
   const [isHelpOpen, setIsHelpOpen] = useState(false);
   const [isRepairing, setIsRepairing] = useState(false);
@@ -196,6 +202,33 @@ export function EditorLayout({
     }
   }, [deckId, violations.length, state.deck.slides, actions]);
 
+  // Open the presenter window (it loads the saved deck, so flush pending edits first).
+  // The window is opened before the save so popup blockers still see the click.
+  const handlePresent = useCallback(async () => {
+    const presenter = window.open(
+      "about:blank",
+      `arti-presenter-${deckId}`,
+      "popup,width=1280,height=800"
+    );
+
+    if (state.isDirty) {
+      const saved = violations.length === 0 && (await onSaveNow?.());
+      if (!saved) {
+        addToast({
+          type: "warning",
+          message:
+            violations.length > 0
+              ? `Endringene er ikke lagret: ${violations.length} feil må rettes. Presentasjonen viser sist lagrede versjon.`
+              : "Endringene kunne ikke lagres. Presentasjonen viser sist lagrede versjon.",
+        });
+      }
+    }
+
+    if (presenter) {
+      presenter.location.href = `/deck/${deckId}/present?mode=presenter`;
+    }
+  }, [deckId, state.isDirty, violations.length, onSaveNow, addToast]);
+
   return (
     <>
       {/* Live generation header (fixed position, above everything) */}
@@ -346,6 +379,61 @@ export function EditorLayout({
                   Lagre
                 </Button>
 
+                {/* Save as template button */}
+                {templateModal && (
+                  <Button
+                    variant="secondary"
+                    size="sm"
+                    onClick={templateModal.onOpen}
+                    className="!bg-white !border-[#e5e2dd] !text-gray-700 hover:!bg-[#f5f3f0] hover:!text-gray-900"
+                  >
+                    <svg
+                      className="w-4 h-4 mr-1.5"
+                      fill="none"
+                      stroke="currentColor"
+                      viewBox="0 0 24 24"
+                    >
+                      <path
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                        strokeWidth={1.5}
+                        d="M4 5a1 1 0 011-1h14a1 1 0 011 1v2a1 1 0 01-1 1H5a1 1 0 01-1-1V5zm0 8a1 1 0 011-1h6a1 1 0 011 1v6a1 1 0 01-1 1H5a1 1 0 01-1-1v-6zm12 0a1 1 0 011-1h2a1 1 0 011 1v6a1 1 0 01-1 1h-2a1 1 0 01-1-1v-6z"
+                      />
+                    </svg>
+                    Lagre som mal
+                  </Button>
+                )}
+
+                {/* Present button - opens the presenter window */}
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  onClick={handlePresent}
+                  title="Presenter med talernotater, tidtaker og neste slide"
+                  className="!bg-white !border-[#e5e2dd] !text-gray-700 hover:!bg-[#f5f3f0] hover:!text-gray-900"
+                >
+                  <svg
+                    className="w-4 h-4 mr-1.5"
+                    fill="none"
+                    stroke="currentColor"
+                    viewBox="0 0 24 24"
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={1.5}
+                      d="M14.752 11.168l-3.197-2.132A1 1 0 0010 9.87v4.263a1 1 0 001.555.832l3.197-2.132a1 1 0 000-1.664z"
+                    />
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={1.5}
+                      d="M21 12a9 9 0 11-18 0 9 9 0 0118 0z"
+                    />
+                  </svg>
+                  Presenter
+                </Button>
+
                 {/* Export button */}
                 {exportModal && (
                   <Button
@@ -406,13 +494,16 @@ export function EditorLayout({
           <SlideList className="w-56 flex-shrink-0" deckId={deckId} />
 
           {/* Center - Canvas with warm background */}
-          <div className="flex-1 flex items-center justify-center p-8 min-w-0 overflow-auto bg-[#f0ede8]">
+          <div className="flex-1 flex flex-col items-center justify-center p-8 min-w-0 overflow-auto bg-[#f0ede8]">
             {/* Slide container with subtle glow effect */}
             <div className="relative w-full max-w-4xl">
               {/* Ambient glow behind slide */}
               <div className="absolute inset-0 -m-4 bg-emerald-500/[0.03] blur-3xl rounded-3xl pointer-events-none" />
               {children}
             </div>
+
+            {/* Speaker notes for the current slide */}
+            <SpeakerNotesPanel className="w-full max-w-4xl mt-6 flex-shrink-0" />
           </div>
 
           {/* Right panel - Inspector */}
@@ -447,6 +538,16 @@ export function EditorLayout({
         {exportModal && (
           <ExportModal isOpen={exportModal.isOpen} onClose={exportModal.onClose} deckId={deckId} />
         )}
+
+        {/* Save as Template Modal (controlled by parent) */}
+        {templateModal && (
+          <SaveTemplateModal
+            isOpen={templateModal.isOpen}
+            onClose={templateModal.onClose}
+            deckId={deckId}
+            defaultName={state.deck.deck.title}
+          />
+        )}
       </div>
     </>
   );
@@ -46,6 +46,7 @@ interface EditorContextValue {
     stopEditing: () => void;
     updateDeckMeta: (meta: { title?: string; language?: string; themeId?: string }) => void;
     updateSlide: (index: number, slide: Parameters<typeof editorActions.updateSlide>[1]) => void;
+    updateSlideNotes: (index: number, notes: string) => void;
     updateBlock: (
       slideIndex: number,
       blockIndex: number,
@@ -305,6 +306,10 @@ export function EditorProvider({
     []
   );
 
+  const updateSlideNotes = useCallback((index: number, notes: string) => {
+    dispatch(editorActions.updateSlideNotes(index, notes));
+  }, []);
+
   const updateBlock = useCallback(
     (
       slideIndex: number,
@@ -399,6 +404,7 @@ export function EditorProvider({
         stopEditing,
         updateDeckMeta,
         updateSlide,
+        updateSlideNotes,
         updateBlock,
         addSlide,
         deleteSlide,
@@ -425,6 +431,7 @@ export function EditorProvider({
       stopEditing,
       updateDeckMeta,
       updateSlide,
+      updateSlideNotes,
       updateBlock,
       addSlide,
       deleteSlide,
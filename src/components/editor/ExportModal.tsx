@@ -1,15 +1,26 @@
 /**
  * ExportModal Component
  *
- * Modal for exporting decks to PDF and PPTX formats.
+ * Modal for exporting decks to PDF, PPTX, PNG, SVG, HTML, Markdown and plain-text formats.
  * Shows export progress and download links.
  */
 
 "use client";
 
-import { useEffect } from "react";
+import { useEffect, useState } from "react";
 import { Modal, Button, useToast } from "@/components/ui";
-import { useExport, type ExportStatus } from "@/lib/hooks";
+import { useExport, type ExportFormat, type ExportStatus } from "@/lib/hooks";
+import type { HandoutLayout } from "@/lib/export/pdf-handout";
+
+const PNG_SCALES = [1, 2, 4] as const;
+
+const PDF_LAYOUTS: { value: HandoutLayout | "slides"; label: string }[] = [
+  { value: "slides", label: "Én slide per side (16:9)" },
+  { value: "two_per_page", label: "Støtteark: 2 per side" },
+  { value: "three_with_lines", label: "Støtteark: 3 per side med notatlinjer" },
+  { value: "six_per_page", label: "Støtteark: 6 per side" },
+  { value: "one_with_lines", label: "Støtteark: 1 per side med skriveplass" },
+];
 
 interface ExportModalProps {
   isOpen: boolean;
@@ -77,16 +88,38 @@ export function ExportModal({ isOpen, onClose, deckId }: ExportModalProps) {
   const {
     exportPdf,
     exportPptx,
+    exportPng,
+    exportSvg,
+    exportHtml,
+    exportMarkdown,
+    exportText,
     pdfStatus,
     pptxStatus,
+    pngStatus,
+    svgStatus,
+    htmlStatus,
+    markdownStatus,
+    txtStatus,
     pdfUrl,
     pptxUrl,
+    pngUrl,
+    svgUrl,
+    htmlUrl,
+    markdownUrl,
+    txtUrl,
     pdfError,
     pptxError,
+    pngError,
+    svgError,
+    htmlError,
+    markdownError,
+    txtError,
     isExporting,
     reset,
   } = useExport(deckId);
   const { addToast } = useToast();
+  const [pngScale, setPngScale] = useState<number>(2);
+  const [pdfLayout, setPdfLayout] = useState<HandoutLayout | "slides">("slides");
 
   // Reset when modal closes
   useEffect(() => {
@@ -98,14 +131,34 @@ export function ExportModal({ isOpen, onClose, deckId }: ExportModalProps) {
   }, [isOpen, reset]);
 
   const handleExportPdf = async () => {
-    await exportPdf();
+    await exportPdf(pdfLayout === "slides" ? undefined : pdfLayout);
   };
 
   const handleExportPptx = async () => {
     await exportPptx();
   };
 
-  const handleDownload = (url: string, format: "pdf" | "pptx") => {
+  const handleExportPng = async () => {
+    await exportPng(pngScale);
+  };
+
+  const handleExportSvg = async () => {
+    await exportSvg();
+  };
+
+  const handleExportHtml = async () => {
+    await exportHtml();
+  };
+
+  const handleExportMarkdown = async () => {
+    await exportMarkdown();
+  };
+
+  const handleExportText = async () => {
+    await exportText();
+  };
+
+  const handleDownload = (url: string, format: ExportFormat) => {
     window.open(url, "_blank");
     addToast({ type: "success", message: `${format.toUpperCase()}-fil åpnes i ny fane` });
   };
@@ -118,7 +171,7 @@ export function ExportModal({ isOpen, onClose, deckId }: ExportModalProps) {
       isOpen={isOpen}
       onClose={onClose}
       title="Eksporter presentasjon"
-      description="Last ned presentasjonen som PDF eller PowerPoint-fil."
+      description="Last ned presentasjonen som PDF, PowerPoint-fil, bilder, HTML, Markdown eller ren tekst."
       size="md"
     >
       <div className="space-y-6">
@@ -135,19 +188,36 @@ export function ExportModal({ isOpen, onClose, deckId }: ExportModalProps) {
             {/* PDF Content */}
             <div className="flex-1 min-w-0">
               <h3 className="font-medium text-gray-900">PDF</h3>
-              <p className="text-sm text-gray-500 mb-3">Perfekt for visning og utskrift</p>
+              <p className="text-sm text-gray-500 mb-3">
+                Perfekt for visning og utskrift, også som støtteark på A4
+              </p>
 
               <ExportStatusIndicator status={pdfStatus} error={pdfError} />
 
-              {pdfStatus === "idle" && (
-                <Button
-                  onClick={handleExportPdf}
-                  disabled={isExporting}
-                  variant="secondary"
-                  size="sm"
-                >
-                  Eksporter PDF
-                </Button>
+              {(pdfStatus === "idle" || pdfStatus === "failed") && (
+                <div className="flex items-center gap-2">
+                  <select
+                    value={pdfLayout}
+                    onChange={(e) => setPdfLayout(e.target.value as HandoutLayout | "slides")}
+                    disabled={isExporting}
+                    aria-label="Sideoppsett"
+                    className="h-8 px-2 text-sm border border-gray-300 rounded-lg bg-white"
+                  >
+                    {PDF_LAYOUTS.map((layout) => (
+                      <option key={layout.value} value={layout.value}>
+                        {layout.label}
+                      </option>
+                    ))}
+                  </select>
+                  <Button
+                    onClick={handleExportPdf}
+                    disabled={isExporting}
+                    variant="secondary"
+                    size="sm"
+                  >
+                    {pdfStatus === "failed" ? "Prøv igjen" : "Eksporter PDF"}
+                  </Button>
+                </div>
               )}
 
               {pdfStatus === "completed" && pdfUrl && (
@@ -168,17 +238,6 @@ export function ExportModal({ isOpen, onClose, deckId }: ExportModalProps) {
                   Last ned PDF
                 </Button>
               )}
-
-              {pdfStatus === "failed" && (
-                <Button
-                  onClick={handleExportPdf}
-                  disabled={isExporting}
-                  variant="secondary"
-                  size="sm"
-                >
-                  Prøv igjen
-                </Button>
-              )}
             </div>
           </div>
         </div>
@@ -244,6 +303,335 @@ export function ExportModal({ isOpen, onClose, deckId }: ExportModalProps) {
           </div>
         </div>
 
+        {/* PNG Export */}
+        <div className="p-4 border border-gray-200 rounded-xl">
+          <div className="flex items-start gap-4">
+            {/* PNG Icon */}
+            <div className="w-12 h-12 bg-emerald-100 rounded-lg flex items-center justify-center flex-shrink-0">
+              <svg className="w-6 h-6 text-emerald-600" viewBox="0 0 24 24" fill="currentColor">
+                <path d="M19 3H5a2 2 0 0 0-2 2v14a2 2 0 0 0 2 2h14a2 2 0 0 0 2-2V5a2 2 0 0 0-2-2zm0 16H5V5h14v14zm-5.04-6.71l-2.75 3.54-1.96-2.36L6.5 17h11l-3.54-4.71z" />
+              </svg>
+            </div>
+
+            {/* PNG Content */}
+            <div className="flex-1 min-w-0">
+              <h3 className="font-medium text-gray-900">PNG</h3>
+              <p className="text-sm text-gray-500 mb-3">
+                Ett bilde per slide. Flere slides lastes ned som zip-fil.
+              </p>
+
+              <ExportStatusIndicator status={pngStatus} error={pngError} />
+
+              {(pngStatus === "idle" || pngStatus === "failed") && (
+                <div className="flex items-center gap-2">
+                  <select
+                    value={pngScale}
+                    onChange={(e) => setPngScale(Number(e.target.value))}
+                    disabled={isExporting}
+                    aria-label="Oppløsning"
+                    className="h-8 px-2 text-sm border border-gray-300 rounded-lg bg-white"
+                  >
+                    {PNG_SCALES.map((scale) => (
+                      <option key={scale} value={scale}>
+                        {scale}× ({1280 * scale}×{720 * scale})
+                      </option>
+                    ))}
+                  </select>
+                  <Button
+                    onClick={handleExportPng}
+                    disabled={isExporting}
+                    variant="secondary"
+                    size="sm"
+                  >
+                    {pngStatus === "failed" ? "Prøv igjen" : "Eksporter PNG"}
+                  </Button>
+                </div>
+              )}
+
+              {pngStatus === "completed" && pngUrl && (
+                <Button onClick={() => handleDownload(pngUrl, "png")} size="sm">
+                  <svg
+                    className="w-4 h-4 mr-1"
+                    fill="none"
+                    stroke="currentColor"
+                    viewBox="0 0 24 24"
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4"
+                    />
+                  </svg>
+                  Last ned PNG
+                </Button>
+              )}
+            </div>
+          </div>
+        </div>
+
+        {/* SVG Export */}
+        <div className="p-4 border border-gray-200 rounded-xl">
+          <div className="flex items-start gap-4">
+            {/* SVG Icon */}
+            <div className="w-12 h-12 bg-violet-100 rounded-lg flex items-center justify-center flex-shrink-0">
+              <svg className="w-6 h-6 text-violet-600" viewBox="0 0 24 24" fill="currentColor">
+                <path d="M14 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V8l-6-6zm-1 2l5 5h-5V4zM9.4 17.6L6.8 15l2.6-2.6.7.7L8.2 15l1.9 1.9-.7.7zm5.2 0l-.7-.7 1.9-1.9-1.9-1.9.7-.7 2.6 2.6-2.6 2.6z" />
+              </svg>
+            </div>
+
+            {/* SVG Content */}
+            <div className="flex-1 min-w-0">
+              <h3 className="font-medium text-gray-900">SVG</h3>
+              <p className="text-sm text-gray-500 mb-3">
+                Skalerbar vektorgrafikk for nett og design. Flere slides lastes ned som zip-fil.
+              </p>
+
+              <ExportStatusIndicator status={svgStatus} error={svgError} />
+
+              {svgStatus === "idle" && (
+                <Button
+                  onClick={handleExportSvg}
+                  disabled={isExporting}
+                  variant="secondary"
+                  size="sm"
+                >
+                  Eksporter SVG
+                </Button>
+              )}
+
+              {svgStatus === "completed" && svgUrl && (
+                <Button onClick={() => handleDownload(svgUrl, "svg")} size="sm">
+                  <svg
+                    className="w-4 h-4 mr-1"
+                    fill="none"
+                    stroke="currentColor"
+                    viewBox="0 0 24 24"
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4"
+                    />
+                  </svg>
+                  Last ned SVG
+                </Button>
+              )}
+
+              {svgStatus === "failed" && (
+                <Button
+                  onClick={handleExportSvg}
+                  disabled={isExporting}
+                  variant="secondary"
+                  size="sm"
+                >
+                  Prøv igjen
+                </Button>
+              )}
+            </div>
+          </div>
+        </div>
+
+        {/* HTML Export */}
+        <div className="p-4 border border-gray-200 rounded-xl">
+          <div className="flex items-start gap-4">
+            {/* HTML Icon */}
+            <div className="w-12 h-12 bg-sky-100 rounded-lg flex items-center justify-center flex-shrink-0">
+              <svg className="w-6 h-6 text-sky-600" viewBox="0 0 24 24" fill="currentColor">
+                <path d="M12 2a10 10 0 1 0 0 20 10 10 0 0 0 0-20zm6.93 6h-2.95a15.65 15.65 0 0 0-1.38-3.56A8.03 8.03 0 0 1 18.93 8zM12 4.04c.83 1.2 1.48 2.53 1.91 3.96h-3.82c.43-1.43 1.08-2.76 1.91-3.96zM4.26 14a8.2 8.2 0 0 1 0-4h3.38a16.5 16.5 0 0 0 0 4H4.26zm.81 2h2.95c.32 1.25.78 2.45 1.38 3.56A7.99 7.99 0 0 1 5.07 16zm2.95-8H5.07a7.99 7.99 0 0 1 4.33-3.56A15.65 15.65 0 0 0 8.02 8zM12 19.96c-.83-1.2-1.48-2.53-1.91-3.96h3.82c-.43 1.43-1.08 2.76-1.91 3.96zM14.34 14H9.66a14.7 14.7 0 0 1 0-4h4.68a14.7 14.7 0 0 1 0 4zm.25 5.56c.6-1.11 1.06-2.31 1.38-3.56h2.95a8.03 8.03 0 0 1-4.33 3.56zM16.36 14a16.5 16.5 0 0 0 0-4h3.38a8.2 8.2 0 0 1 0 4h-3.38z" />
+              </svg>
+            </div>
+
+            {/* HTML Content */}
+            <div className="flex-1 min-w-0">
+              <h3 className="font-medium text-gray-900">HTML</h3>
+              <p className="text-sm text-gray-500 mb-3">
+                Én fil som kan åpnes i nettleseren uten nett, med tastaturnavigasjon.
+              </p>
+
+              <ExportStatusIndicator status={htmlStatus} error={htmlError} />
+
+              {htmlStatus === "idle" && (
+                <Button
+                  onClick={handleExportHtml}
+                  disabled={isExporting}
+                  variant="secondary"
+                  size="sm"
+                >
+                  Eksporter HTML
+                </Button>
+              )}
+
+              {htmlStatus === "completed" && htmlUrl && (
+                <Button onClick={() => handleDownload(htmlUrl, "html")} size="sm">
+                  <svg
+                    className="w-4 h-4 mr-1"
+                    fill="none"
+                    stroke="currentColor"
+                    viewBox="0 0 24 24"
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4"
+                    />
+                  </svg>
+                  Last ned HTML
+                </Button>
+              )}
+
+              {htmlStatus === "failed" && (
+                <Button
+                  onClick={handleExportHtml}
+                  disabled={isExporting}
+                  variant="secondary"
+                  size="sm"
+                >
+                  Prøv igjen
+                </Button>
+              )}
+            </div>
+          </div>
+        </div>
+
+        {/* Markdown Export */}
+        <div className="p-4 border border-gray-200 rounded-xl">
+          <div className="flex items-start gap-4">
+            {/* Markdown Icon */}
+            <div className="w-12 h-12 bg-gray-100 rounded-lg flex items-center justify-center flex-shrink-0">
+              <svg className="w-6 h-6 text-gray-700" viewBox="0 0 24 24" fill="currentColor">
+                <path d="M20.56 18H3.44C2.65 18 2 17.37 2 16.59V7.41C2 6.63 2.65 6 3.44 6h17.12c.79 0 1.44.63 1.44 1.41v9.18c0 .78-.65 1.41-1.44 1.41zM6.81 15.19v-3.66l1.92 2.35 1.92-2.35v3.66h1.93V8.81h-1.93l-1.92 2.35-1.92-2.35H4.89v6.38h1.92zM19.69 12h-1.92V8.81h-1.92V12h-1.93l2.89 3.28L19.69 12z" />
+              </svg>
+            </div>
+
+            {/* Markdown Content */}
+            <div className="flex-1 min-w-0">
+              <h3 className="font-medium text-gray-900">Markdown</h3>
+              <p className="text-sm text-gray-500 mb-3">
+                Innholdet som tekstdokument, klart for gjennomlesing og kommentarer.
+              </p>
+
+              <ExportStatusIndicator status={markdownStatus} error={markdownError} />
+
+              {markdownStatus === "idle" && (
+                <Button
+                  onClick={handleExportMarkdown}
+                  disabled={isExporting}
+                  variant="secondary"
+                  size="sm"
+                >
+                  Eksporter Markdown
+                </Button>
+              )}
+
+              {markdownStatus === "completed" && markdownUrl && (
+                <Button onClick={() => handleDownload(markdownUrl, "markdown")} size="sm">
+                  <svg
+                    className="w-4 h-4 mr-1"
+                    fill="none"
+                    stroke="currentColor"
+                    viewBox="0 0 24 24"
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4"
+                    />
+                  </svg>
+                  Last ned Markdown
+                </Button>
+              )}
+
+              {markdownStatus === "failed" && (
+                <Button
+                  onClick={handleExportMarkdown}
+                  disabled={isExporting}
+                  variant="secondary"
+                  size="sm"
+                >
+                  Prøv igjen
+                </Button>
+              )}
+            </div>
+          </div>
+        </div>
+
+        {/* Plain-text Export */}
+        <div className="p-4 border border-gray-200 rounded-xl">
+          <div className="flex items-start gap-4">
+            {/* Plain-text Icon */}
+            <div className="w-12 h-12 bg-gray-100 rounded-lg flex items-center justify-center flex-shrink-0">
+              <svg
+                className="w-6 h-6 text-gray-700"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z"
+                />
+              </svg>
+            </div>
+
+            {/* Plain-text Content */}
+            <div className="flex-1 min-w-0">
+              <h3 className="font-medium text-gray-900">Ren tekst</h3>
+              <p className="text-sm text-gray-500 mb-3">
+                Innholdet uten formatering, for verktøy som ikke leser Markdown.
+              </p>
+
+              <ExportStatusIndicator status={txtStatus} error={txtError} />
+
+              {txtStatus === "idle" && (
+                <Button
+                  onClick={handleExportText}
+                  disabled={isExporting}
+                  variant="secondary"
+                  size="sm"
+                >
+                  Eksporter tekst
+                </Button>
+              )}
+
+              {txtStatus === "completed" && txtUrl && (
+                <Button onClick={() => handleDownload(txtUrl, "txt")} size="sm">
+                  <svg
+                    className="w-4 h-4 mr-1"
+                    fill="none"
+                    stroke="currentColor"
+                    viewBox="0 0 24 24"
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4"
+                    />
+                  </svg>
+                  Last ned tekst
+                </Button>
+              )}
+
+              {txtStatus === "failed" && (
+                <Button
+                  onClick={handleExportText}
+                  disabled={isExporting}
+                  variant="secondary"
+                  size="sm"
+                >
+                  Prøv igjen
+                </Button>
+              )}
+            </div>
+          </div>
+        </div>
+
         {/* Progress warning */}
         {isExporting && (
           <p className="text-xs text-gray-500 text-center">
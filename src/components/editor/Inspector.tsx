@@ -7,6 +7,8 @@
  */
 
 import { useEditor } from "./EditorProvider";
+import { ChartDataEditor } from "./ChartDataEditor";
+import type { Block } from "@/lib/schemas/block";
 import type { ThemeId } from "@/lib/schemas/deck";
 
 const THEMES: { id: ThemeId; name: string; description: string; gradient: string }[] = [
@@ -65,9 +67,22 @@ interface InspectorProps {
   className?: string;
 }
 
+/**
+ * Starter chart inserted by "Legg til diagram"
+ */
+function createDefaultChartBlock(): Block {
+  return {
+    kind: "chart",
+    chartType: "bar",
+    categories: ["Q1", "Q2", "Q3", "Q4"],
+    series: [{ name: "Serie 1", values: [10, 20, 15, 25] }],
+  };
+}
+
 export function Inspector({ className = "" }: InspectorProps) {
   const { state, actions } = useEditor();
   const currentSlide = state.deck.slides[state.selectedSlideIndex];
+  const hasChart = currentSlide?.blocks.some((block) => block.kind === "chart") ?? false;
 
   return (
     <aside className={`bg-[#faf8f5] border-l border-[#e5e2dd] flex flex-col ${className}`}>
@@ -191,7 +206,48 @@ export function Inspector({ className = "" }: InspectorProps) {
                   </div>
                 ))}
               </div>
+              {!hasChart && (
+                <button
+                  type="button"
+                  onClick={() =>
+                    actions.updateSlide(state.selectedSlideIndex, {
+                      blocks: [...currentSlide.blocks, createDefaultChartBlock()],
+                    })
+                  }
+                  className="mt-2 text-xs text-emerald-600 hover:text-emerald-700"
+                >
+                  + Legg til diagram
+                </button>
+              )}
             </div>
+
+            {/* Chart data grids */}
+            {currentSlide.blocks.map((block, index) =>
+              block.kind === "chart" ? (
+                <div key={index} className="mt-4 pt-4 border-t border-[#e5e2dd]">
+                  <div className="flex items-center justify-between mb-2">
+                    <label className="text-xs text-gray-600">Diagram (blokk {index + 1})</label>
+                    <button
+                      type="button"
+                      onClick={() =>
+                        actions.updateSlide(state.selectedSlideIndex, {
+                          blocks: currentSlide.blocks.filter((_, i) => i !== index),
+                        })
+                      }
+                      className="text-xs text-red-500/80 hover:text-red-600"
+                    >
+                      Fjern
+                    </button>
+                  </div>
+                  <ChartDataEditor
+                    block={block}
+                    onChange={(updates) =>
+                      actions.updateBlock(state.selectedSlideIndex, index, updates)
+                    }
+                  />
+                </div>
+              ) : null
+            )}
           </div>
         )}
 
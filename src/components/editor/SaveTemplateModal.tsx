@@ -0,0 +1,124 @@
+/**
+ * SaveTemplateModal Component
+ *
+ * Modal for saving a deck's structure as a reusable template.
+ * New decks generated from the template keep the same slide types,
+ * layout variants and block shapes, filled with new source text.
+ */
+
+"use client";
+
+import { useState } from "react";
+import { Modal, Button, useToast } from "@/components/ui";
+
+interface SaveTemplateModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  deckId: string;
+  /** Suggested template name (usually the deck title) */
+  defaultName?: string;
+}
+
+export function SaveTemplateModal({
+  isOpen,
+  onClose,
+  deckId,
+  defaultName = "",
+}: SaveTemplateModalProps) {
+  const { addToast } = useToast();
+  const [name, setName] = useState(defaultName);
+  const [description, setDescription] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/decks/${deckId}/template`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name: name.trim(),
+          ...(description.trim() ? { description: description.trim() } : {}),
+        }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => null);
+        throw new Error(data?.error?.message ?? "Kunne ikke lagre som mal");
+      }
+
+      addToast({ type: "success", message: "Mal lagret! Du finner den under Dine maler." });
+      setDescription("");
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Kunne ikke lagre som mal");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Lagre som mal"
+      description="Nye presentasjoner fra malen får samme lysbildetyper, oppsett og blokker."
+      size="md"
+    >
+      <div className="space-y-4">
+        {/* Error display */}
+        {error && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm">
+            {error}
+          </div>
+        )}
+
+        <div className="space-y-1.5">
+          <label htmlFor="template-name" className="text-sm font-medium text-gray-700">
+            Navn
+          </label>
+          <input
+            id="template-name"
+            type="text"
+            value={name}
+            maxLength={100}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="F.eks. Kvartalsrapport"
+            className="w-full px-3 py-2 bg-white border border-gray-200 rounded-lg text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-emerald-500"
+          />
+        </div>
+
+        <div className="space-y-1.5">
+          <label htmlFor="template-description" className="text-sm font-medium text-gray-700">
+            Beskrivelse (valgfri)
+          </label>
+          <textarea
+            id="template-description"
+            value={description}
+            maxLength={500}
+            rows={3}
+            onChange={(e) => setDescription(e.target.value)}
+            placeholder="Når bør malen brukes?"
+            className="w-full px-3 py-2 bg-white border border-gray-200 rounded-lg text-sm text-gray-900 resize-none focus:outline-none focus:ring-2 focus:ring-emerald-500"
+          />
+        </div>
+
+        <p className="text-xs text-gray-500">
+          Malen lages fra sist lagrede versjon av presentasjonen.
+        </p>
+
+        <div className="flex justify-end gap-2">
+          <Button variant="ghost" size="sm" onClick={onClose} disabled={isSaving}>
+            Avbryt
+          </Button>
+          <Button size="sm" onClick={handleSave} disabled={isSaving || !name.trim()}>
+            {isSaving ? "Lagrer..." : "Lagre mal"}
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
@@ -0,0 +1,83 @@
+/**
+ * SpeakerNotesPanel Component
+ *
+ * Collapsible speaker notes editor below the slide canvas.
+ * Edits are kept locally while typing and committed on blur,
+ * so one editing session becomes one undo step.
+ */
+
+"use client";
+
+import { useState } from "react";
+import { useEditor, useCurrentSlide } from "./EditorProvider";
+
+/** Matches the notes limit in SlideSchema */
+const MAX_NOTES_CHARS = 5000;
+
+interface SpeakerNotesPanelProps {
+  className?: string;
+}
+
+export function SpeakerNotesPanel({ className = "" }: SpeakerNotesPanelProps) {
+  const { actions } = useEditor();
+  const { slide, index } = useCurrentSlide();
+  const [isOpen, setIsOpen] = useState(true);
+  const savedNotes = slide?.notes ?? "";
+  const [draft, setDraft] = useState(savedNotes);
+  const [draftSource, setDraftSource] = useState({ index, notes: savedNotes });
+
+  // Reset the draft when switching slides or after undo/redo
+  if (draftSource.index !== index || draftSource.notes !== savedNotes) {
+    setDraftSource({ index, notes: savedNotes });
+    setDraft(savedNotes);
+  }
+
+  if (!slide) {
+    return null;
+  }
+
+  const commit = () => {
+    actions.updateSlideNotes(index, draft.trim());
+  };
+
+  return (
+    <section
+      className={`bg-white border border-[#e5e2dd] rounded-xl shadow-sm overflow-hidden ${className}`}
+    >
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between px-4 py-2.5 text-xs font-semibold text-gray-500 uppercase tracking-wider hover:bg-[#f5f3f0] transition-colors"
+        aria-expanded={isOpen}
+      >
+        <span>Talernotater</span>
+        <svg
+          className={`w-4 h-4 transition-transform ${isOpen ? "rotate-180" : ""}`}
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+
+      {isOpen && (
+        <div className="px-4 pb-3">
+          <textarea
+            value={draft}
+            maxLength={MAX_NOTES_CHARS}
+            rows={4}
+            onChange={(e) => setDraft(e.target.value)}
+            onBlur={commit}
+            placeholder="Skriv notater til deg selv – vises i presentasjonsvisning og i PowerPoint."
+            aria-label={`Talernotater for slide ${index + 1}`}
+            className="w-full px-3 py-2 text-sm text-gray-800 bg-[#faf9f7] border border-[#e5e2dd] rounded-lg resize-y focus:outline-none focus:ring-2 focus:ring-emerald-500/50 focus:border-emerald-500/50 transition-all"
+          />
+          <div className="mt-1 text-right text-[10px] text-gray-400">
+            {draft.length}/{MAX_NOTES_CHARS}
+          </div>
+        </div>
+      )}
+    </section>
+  );
+}
@@ -14,6 +14,9 @@ export { OverflowWarning, CompactOverflowWarning } from "./OverflowWarning";
 export { AIActionsMenu } from "./AIActionsMenu";
 export { ShareModal } from "./ShareModal";
 export { ExportModal } from "./ExportModal";
+export { SaveTemplateModal } from "./SaveTemplateModal";
+export { SpeakerNotesPanel } from "./SpeakerNotesPanel";
+export { ChartDataEditor } from "./ChartDataEditor";
 export { SaveStatus } from "./SaveStatus";
 export { SlideTransition } from "./SlideTransition";
 export { CommandPalette } from "./CommandPalette";
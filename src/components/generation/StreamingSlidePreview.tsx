@@ -156,6 +156,18 @@ function StreamingBlockRenderer({ block, isStreaming }: StreamingBlockRendererPr
         </motion.div>
       );
 
+    case "chart":
+      // Charts appear once their data is complete
+      return (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          className="flex items-center justify-center h-20 bg-muted/30 rounded-lg border-2 border-dashed border-muted"
+        >
+          <span className="text-xs text-muted-foreground">Diagram genereres...</span>
+        </motion.div>
+      );
+
     default:
       // Fallback for unknown block types
       return (
@@ -1,7 +1,8 @@
 /**
  * ActionItemsTableSlide Component
  *
- * Task/Owner/Deadline table slide.
+ * Task/Owner/Deadline table slide. Also hosts chart blocks for data slides:
+ * a chart sits beside the table, or fills the slide when there is no table.
  * Layout variants: default, compact, detailed
  */
 
@@ -24,9 +25,11 @@ export function ActionItemsTableSlide({
 
   const titleBlockIndex = slide.blocks.findIndex((b) => b.kind === "title");
   const tableBlockIndex = slide.blocks.findIndex((b) => b.kind === "table");
+  const chartBlockIndex = slide.blocks.findIndex((b) => b.kind === "chart");
 
   const titleBlock = titleBlockIndex >= 0 ? slide.blocks[titleBlockIndex] : null;
   const tableBlock = tableBlockIndex >= 0 ? slide.blocks[tableBlockIndex] : null;
+  const chartBlock = chartBlockIndex >= 0 ? slide.blocks[chartBlockIndex] : null;
 
   // Size classes based on variant
   const tableClasses: Record<string, string> = {
@@ -47,14 +50,34 @@ export function ActionItemsTableSlide({
             editable={editable}
           />
         )}
-        {tableBlock && (
-          <div className={tableClasses[variant] || ""}>
-            <SmartBlockRenderer
-              block={tableBlock}
-              slideIndex={slideIndex}
-              blockIndex={tableBlockIndex}
-              editable={editable}
-            />
+        {(tableBlock || chartBlock) && (
+          <div
+            className={
+              tableBlock && chartBlock
+                ? "grid grid-cols-2 gap-[var(--theme-spacing-block-gap)] items-start"
+                : ""
+            }
+          >
+            {tableBlock && (
+              <div className={tableClasses[variant] || ""}>
+                <SmartBlockRenderer
+                  block={tableBlock}
+                  slideIndex={slideIndex}
+                  blockIndex={tableBlockIndex}
+                  editable={editable}
+                />
+              </div>
+            )}
+            {chartBlock && (
+              <div className={tableBlock ? "" : "max-w-5xl mx-auto w-full"}>
+                <SmartBlockRenderer
+                  block={chartBlock}
+                  slideIndex={slideIndex}
+                  blockIndex={chartBlockIndex}
+                  editable={editable}
+                />
+              </div>
+            )}
           </div>
         )}
       </div>
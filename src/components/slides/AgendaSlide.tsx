@@ -11,6 +11,7 @@
  */
 
 import type { Slide } from "@/lib/schemas/slide";
+import { resolveAgendaVariant } from "@/lib/ai/layout";
 import { SlideLayout } from "./SlideLayout";
 import { SmartBlockRenderer } from "../blocks";
 
@@ -86,36 +87,6 @@ function AgendaCard({
   );
 }
 
-/**
- * Smart variant selection for agenda slides
- * Agendas typically have shorter items, so we favor cards/grid
- */
-function selectOptimalVariant(items: string[], explicitVariant?: string): string {
-  if (explicitVariant && explicitVariant !== "default") {
-    return explicitVariant;
-  }
-
-  const count = items.length;
-  const avgLength = items.reduce((sum, item) => sum + item.length, 0) / (count || 1);
-
-  // Agenda items are typically short - favor cards for ≤5 items
-  if (count <= 5 && avgLength < 60) {
-    return "cards";
-  }
-
-  // 6-8 items → grid
-  if (count >= 6 && count <= 8) {
-    return "grid";
-  }
-
-  // Many items → grid with 3 columns
-  if (count > 8) {
-    return "grid";
-  }
-
-  return "cards";
-}
-
 export function AgendaSlide({ slide, editable = false, slideIndex = 0 }: AgendaSlideProps) {
   const titleBlockIndex = slide.blocks.findIndex((b) => b.kind === "title");
   const bulletsBlockIndex = slide.blocks.findIndex((b) => b.kind === "bullets");
@@ -128,7 +99,7 @@ export function AgendaSlide({ slide, editable = false, slideIndex = 0 }: AgendaS
   const isContentLight = bulletCount <= 5;
 
   // Smart auto-selection of variant
-  const variant = selectOptimalVariant(items, slide.layoutVariant);
+  const variant = resolveAgendaVariant(items, slide.layoutVariant);
 
   // Container style
   const containerStyle: React.CSSProperties = {
@@ -14,6 +14,7 @@
  */
 
 import type { Slide } from "@/lib/schemas/slide";
+import { resolveBulletsVariant } from "@/lib/ai/layout";
 import { SlideLayout } from "./SlideLayout";
 import { SmartBlockRenderer, BulletsBlock } from "../blocks";
 
@@ -89,54 +90,6 @@ function BulletCard({
   );
 }
 
-/**
- * Smart variant selection based on content
- * Analyzes bullet count and text length to choose optimal layout
- */
-function selectOptimalVariant(items: string[], explicitVariant?: string): string {
-  // If explicitly set, respect it
-  if (explicitVariant && explicitVariant !== "default") {
-    return explicitVariant;
-  }
-
-  const count = items.length;
-  const avgLength = items.reduce((sum, item) => sum + item.length, 0) / (count || 1);
-  const maxLength = Math.max(...items.map((item) => item.length), 0);
-
-  // Very short items (keywords/phrases) → cards layout
-  if (count <= 4 && avgLength < 40) {
-    return "cards";
-  }
-
-  // Few items with medium text → cards
-  if (count <= 3 && avgLength < 80) {
-    return "cards";
-  }
-
-  // 4-6 items → grid (2 columns)
-  if (count >= 4 && count <= 6) {
-    return "grid";
-  }
-
-  // 7-8 items → grid (will use 2-3 columns)
-  if (count >= 7 && count <= 8) {
-    return "grid";
-  }
-
-  // Many items (9+) with short text → two_columns
-  if (count >= 9 && avgLength < 60) {
-    return "two_columns";
-  }
-
-  // Long text items → default list for readability
-  if (maxLength > 120 || avgLength > 80) {
-    return "default";
-  }
-
-  // Default to grid for premium look
-  return "grid";
-}
-
 export function BulletsSlide({ slide, editable = false, slideIndex = 0 }: BulletsSlideProps) {
   const titleBlockIndex = slide.blocks.findIndex((b) => b.kind === "title");
   const bulletsBlockIndex = slide.blocks.findIndex((b) => b.kind === "bullets");
@@ -149,7 +102,7 @@ export function BulletsSlide({ slide, editable = false, slideIndex = 0 }: Bullet
   const isContentLight = bulletCount <= 4;
 
   // Smart auto-selection of variant
-  const variant = selectOptimalVariant(items, slide.layoutVariant);
+  const variant = resolveBulletsVariant(items, slide.layoutVariant);
 
   // Container style
   const containerStyle: React.CSSProperties = {
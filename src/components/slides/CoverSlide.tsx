@@ -39,6 +39,11 @@ function getBlockText(block: Block | null): string {
   return "";
 }
 
+// Background images carry the image block's alt text; without one they are decorative
+function backgroundImageA11y(alt?: string) {
+  return alt ? { role: "img", "aria-label": alt } : { "aria-hidden": true };
+}
+
 export function CoverSlide({ slide, editable = false, slideIndex = 0 }: CoverSlideProps) {
   // Determine variant - default to "cinematic" for new covers
   const variant = (slide.layoutVariant as CoverLayoutVariant) || "cinematic";
@@ -56,6 +61,7 @@ export function CoverSlide({ slide, editable = false, slideIndex = 0 }: CoverSli
   // Check for valid background image
   const hasImage = Boolean(imageBlock?.url && !imageBlock.url.includes("placeholder"));
   const imageUrl = imageBlock?.url || "";
+  const imageAlt = imageBlock?.alt;
 
   // Get text content for custom rendering
   const titleText = getBlockText(titleBlock);
@@ -71,6 +77,7 @@ export function CoverSlide({ slide, editable = false, slideIndex = 0 }: CoverSli
         <CinematicLayout
           hasImage={hasImage}
           imageUrl={imageUrl}
+          imageAlt={imageAlt}
           titleText={titleText}
           subtitleText={subtitleText}
           titleBlock={titleBlock}
@@ -88,6 +95,7 @@ export function CoverSlide({ slide, editable = false, slideIndex = 0 }: CoverSli
         <EditorialLayout
           hasImage={hasImage}
           imageUrl={imageUrl}
+          imageAlt={imageAlt}
           titleText={titleText}
           subtitleText={subtitleText}
           titleBlock={titleBlock}
@@ -120,6 +128,7 @@ export function CoverSlide({ slide, editable = false, slideIndex = 0 }: CoverSli
         <CenteredLayout
           hasImage={hasImage}
           imageUrl={imageUrl}
+          imageAlt={imageAlt}
           titleText={titleText}
           subtitleText={subtitleText}
           titleBlock={titleBlock}
@@ -137,6 +146,7 @@ export function CoverSlide({ slide, editable = false, slideIndex = 0 }: CoverSli
         <SplitDiagonalLayout
           hasImage={hasImage}
           imageUrl={imageUrl}
+          imageAlt={imageAlt}
           titleText={titleText}
           subtitleText={subtitleText}
           titleBlock={titleBlock}
@@ -170,6 +180,7 @@ export function CoverSlide({ slide, editable = false, slideIndex = 0 }: CoverSli
         <CinematicLayout
           hasImage={hasImage}
           imageUrl={imageUrl}
+          imageAlt={imageAlt}
           titleText={titleText}
           subtitleText={subtitleText}
           titleBlock={titleBlock}
@@ -191,6 +202,7 @@ export function CoverSlide({ slide, editable = false, slideIndex = 0 }: CoverSli
 interface LayoutProps {
   hasImage?: boolean;
   imageUrl?: string;
+  imageAlt?: string;
   titleText: string;
   subtitleText: string;
   titleBlock: Block | null;
@@ -209,6 +221,7 @@ interface LayoutProps {
 function CinematicLayout({
   hasImage,
   imageUrl,
+  imageAlt,
   titleText,
   subtitleText,
   titleBlock,
@@ -229,7 +242,7 @@ function CinematicLayout({
             backgroundSize: "cover",
             backgroundPosition: "center",
           }}
-          aria-hidden="true"
+          {...backgroundImageA11y(imageAlt)}
         />
       )}
 
@@ -294,6 +307,7 @@ function CinematicLayout({
 function EditorialLayout({
   hasImage,
   imageUrl,
+  imageAlt,
   titleText,
   subtitleText,
   titleBlock,
@@ -361,6 +375,7 @@ function EditorialLayout({
                 backgroundSize: "cover",
                 backgroundPosition: "center",
               }}
+              {...backgroundImageA11y(imageAlt)}
             />
           ) : (
             <div
@@ -441,6 +456,7 @@ function MinimalLayout({
 function CenteredLayout({
   hasImage,
   imageUrl,
+  imageAlt,
   titleText,
   subtitleText,
   titleBlock,
@@ -461,7 +477,7 @@ function CenteredLayout({
             backgroundSize: "cover",
             backgroundPosition: "center",
           }}
-          aria-hidden="true"
+          {...backgroundImageA11y(imageAlt)}
         />
       )}
 
@@ -519,6 +535,7 @@ function CenteredLayout({
 function SplitDiagonalLayout({
   hasImage,
   imageUrl,
+  imageAlt,
   titleText,
   subtitleText,
   titleBlock,
@@ -540,6 +557,7 @@ function SplitDiagonalLayout({
             backgroundSize: "cover",
             backgroundPosition: "center",
           }}
+          {...backgroundImageA11y(imageAlt)}
         />
       )}
 
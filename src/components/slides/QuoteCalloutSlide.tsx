@@ -9,6 +9,7 @@
 
 import type { Slide } from "@/lib/schemas/slide";
 import { SlideLayout } from "./SlideLayout";
+import { useSlideLocale } from "./SlideLocale";
 import { SmartBlockRenderer } from "../blocks";
 
 interface QuoteCalloutSlideProps {
@@ -23,6 +24,7 @@ export function QuoteCalloutSlide({
   slideIndex = 0,
 }: QuoteCalloutSlideProps) {
   const variant = slide.layoutVariant || "default";
+  const { quotes } = useSlideLocale();
 
   // Find quote block - could be text or callout
   const quoteBlockIndex = slide.blocks.findIndex((b) => b.kind === "text" || b.kind === "callout");
@@ -149,7 +151,7 @@ export function QuoteCalloutSlide({
             }}
             aria-hidden="true"
           >
-            &ldquo;
+            {quotes[0]}
           </span>
           {quoteText}
         </blockquote>
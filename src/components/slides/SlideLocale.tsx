@@ -0,0 +1,30 @@
+"use client";
+
+/**
+ * SlideLocale Context
+ *
+ * Language-dependent details for slide components, such as which quotation
+ * marks to draw. Exports provide the deck's locale; the app uses the default.
+ */
+
+import { createContext, useContext } from "react";
+
+export interface SlideLocale {
+  /** Outer and inner quotation marks: [open, close, innerOpen, innerClose] */
+  quotes: readonly [string, string, string, string];
+}
+
+const DEFAULT_SLIDE_LOCALE: SlideLocale = {
+  quotes: ["“", "”", "‘", "’"],
+};
+
+const SlideLocaleContext = createContext<SlideLocale>(DEFAULT_SLIDE_LOCALE);
+
+export const SlideLocaleProvider = SlideLocaleContext.Provider;
+
+/**
+ * Locale for the slide being rendered
+ */
+export function useSlideLocale(): SlideLocale {
+  return useContext(SlideLocaleContext);
+}
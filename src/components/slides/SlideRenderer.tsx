@@ -25,6 +25,7 @@ import { SummaryWithStatsSlide } from "./SummaryWithStatsSlide";
 import { HeroStatsSlide } from "./HeroStatsSlide";
 import { SplitWithCalloutsSlide } from "./SplitWithCalloutsSlide";
 import { PersonSpotlightSlide } from "./PersonSpotlightSlide";
+import { GoldenSlideBody } from "./golden/GoldenSlideBody";
 
 interface SlideRendererProps {
   slide: Slide;
@@ -57,6 +58,10 @@ interface SlideRendererProps {
  * - hero_stats: Hero image with prominent stats (Premium)
  * - split_with_callouts: 50/50 split with callout cards (Premium)
  * - person_spotlight: Person profile/spotlight slide (Premium)
+ *
+ * Slides generated from a golden template (slide.goldenType set) render with
+ * their pixel-perfect golden component when not editable. The editor keeps the
+ * standard components for slide.type so every block stays inline-editable.
  */
 export function SlideRenderer({
   slide,
@@ -64,6 +69,10 @@ export function SlideRenderer({
   slideIndex = 0,
   isImageGenerating = false,
 }: SlideRendererProps) {
+  if (slide.goldenType && !editable) {
+    return <GoldenSlideBody slide={slide} goldenSlideType={slide.goldenType} />;
+  }
+
   switch (slide.type) {
     case "cover":
       return <CoverSlide slide={slide} editable={editable} slideIndex={slideIndex} />;
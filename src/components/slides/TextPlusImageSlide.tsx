@@ -2,6 +2,7 @@
  * TextPlusImageSlide Component
  *
  * Text with accompanying image slide.
+ * A chart block, when present, takes the image slot (except on image_background).
  * Layout variants: default, image_left, image_right, image_background
  */
 
@@ -34,6 +35,7 @@ export function TextPlusImageSlide({
   const titleBlock = titleBlockIndex >= 0 ? slide.blocks[titleBlockIndex] : null;
   const contentBlock = contentBlockIndex >= 0 ? slide.blocks[contentBlockIndex] : null;
   const imageBlock = imageBlockIndex >= 0 ? slide.blocks[imageBlockIndex] : null;
+  const chartBlockIndex = slide.blocks.findIndex((b) => b.kind === "chart");
 
   // Image background variant - special layout
   if (variant === "image_background") {
@@ -83,9 +85,27 @@ export function TextPlusImageSlide({
     );
   }
 
-  // Standard layouts with image left or right
+  // Standard layouts with image (or chart) left or right
   const isImageLeft = variant === "image_left";
 
+  const visual =
+    chartBlockIndex >= 0 ? (
+      <SmartBlockRenderer
+        block={slide.blocks[chartBlockIndex]}
+        slideIndex={slideIndex}
+        blockIndex={chartBlockIndex}
+        editable={editable}
+      />
+    ) : imageBlock ? (
+      <SmartBlockRenderer
+        block={imageBlock}
+        slideIndex={slideIndex}
+        blockIndex={imageBlockIndex}
+        editable={false}
+        isImageGenerating={isImageGenerating}
+      />
+    ) : null;
+
   return (
     <SlideLayout className="justify-start">
       {titleBlock && (
@@ -102,17 +122,7 @@ export function TextPlusImageSlide({
       <div className="grid grid-cols-2 gap-[var(--theme-spacing-block-gap)] flex-1 min-h-0">
         {isImageLeft ? (
           <>
-            <div className="flex items-center min-h-0">
-              {imageBlock && (
-                <SmartBlockRenderer
-                  block={imageBlock}
-                  slideIndex={slideIndex}
-                  blockIndex={imageBlockIndex}
-                  editable={false}
-                  isImageGenerating={isImageGenerating}
-                />
-              )}
-            </div>
+            <div className="flex items-center min-h-0">{visual}</div>
             <div className="flex items-center">
               {contentBlock && (
                 <SmartBlockRenderer
@@ -136,17 +146,7 @@ export function TextPlusImageSlide({
                 />
               )}
             </div>
-            <div className="flex items-center min-h-0">
-              {imageBlock && (
-                <SmartBlockRenderer
-                  block={imageBlock}
-                  slideIndex={slideIndex}
-                  blockIndex={imageBlockIndex}
-                  editable={false}
-                  isImageGenerating={isImageGenerating}
-                />
-              )}
-            </div>
+            <div className="flex items-center min-h-0">{visual}</div>
           </>
         )}
       </div>
@@ -0,0 +1,185 @@
+/**
+ * GoldenChecklistSlide Component
+ *
+ * Pixel-perfect checklist slide matching Gamma's premium design.
+ *
+ * Features:
+ * - 3-5 checklist items with image on the right (60/40 split)
+ * - Checkbox: 28px, completed = solid pink, upcoming = grey outline
+ * - Item text: 22px, line-height 1.5
+ * - Gap: 24px between items
+ *
+ * Item status only exists in freshly generated slot content; items read back
+ * from a bullets block have no status and render with a neutral pink check.
+ *
+ * NO var(), clamp(), or cqw - only hardcoded pixel values.
+ */
+
+"use client";
+
+import type { Slide } from "@/lib/schemas/slide";
+import type { SlotContent } from "@/lib/templates/types";
+
+interface GoldenChecklistSlideProps {
+  slide: Slide;
+  slotContent?: SlotContent;
+  editable?: boolean;
+  slideIndex?: number;
+}
+
+export function GoldenChecklistSlide({
+  slide,
+  slotContent,
+  editable = false,
+  slideIndex = 0,
+}: GoldenChecklistSlideProps) {
+  // Extract content from slot or fall back to slide blocks
+  const titleBlock = slide.blocks.find((b) => b.kind === "title");
+  const bulletsBlock = slide.blocks.find((b) => b.kind === "bullets");
+  const imageBlock = slide.blocks.find((b) => b.kind === "image");
+
+  const title = slotContent?.title ?? titleBlock?.text ?? "Sjekkliste";
+  const imageUrl = slotContent?.imageUrl ?? imageBlock?.url ?? "";
+  const imageAlt = slotContent?.imageAlt ?? imageBlock?.alt ?? "";
+
+  // Get items from slotContent or slide blocks (max 5)
+  const items =
+    slotContent?.items?.slice(0, 5).map((item) => ({
+      text: item.text ?? item.label ?? "",
+      status: item.status,
+    })) ??
+    (bulletsBlock?.items ?? []).slice(0, 5).map((text) => ({
+      text,
+      status: undefined,
+    }));
+
+  return (
+    <div
+      className="golden-slide"
+      style={{
+        width: "100%",
+        height: "100%",
+        padding: "80px 100px",
+        display: "grid",
+        gridTemplateColumns: "60fr 40fr",
+        gap: "64px",
+        alignItems: "center",
+        backgroundColor: "#FFFFFF",
+      }}
+    >
+      {/* Checklist Column */}
+      <div
+        style={{
+          display: "flex",
+          flexDirection: "column",
+          gap: "40px",
+        }}
+      >
+        {/* Title */}
+        <h2
+          style={{
+            fontSize: "36px",
+            fontWeight: 700,
+            lineHeight: 1.2,
+            letterSpacing: "-0.01em",
+            color: "#0F172A",
+            margin: 0,
+          }}
+        >
+          {title}
+        </h2>
+
+        <ul
+          style={{
+            display: "flex",
+            flexDirection: "column",
+            gap: "24px",
+            margin: 0,
+            padding: 0,
+            listStyle: "none",
+          }}
+        >
+          {items.map((item, index) => {
+            const isUpcoming = item.status === "upcoming";
+            const isCompleted = item.status === "completed";
+            return (
+              <li
+                key={index}
+                style={{
+                  display: "flex",
+                  alignItems: "flex-start",
+                  gap: "16px",
+                  fontSize: "22px",
+                  fontWeight: 400,
+                  lineHeight: 1.5,
+                  color: isUpcoming ? "#64748B" : "#334155",
+                }}
+              >
+                {/* Checkbox */}
+                <span
+                  style={{
+                    flexShrink: 0,
+                    width: "28px",
+                    height: "28px",
+                    marginTop: "2px",
+                    borderRadius: "8px",
+                    border: `2px solid ${isUpcoming ? "#CBD5E1" : "#E91E63"}`,
+                    backgroundColor: isCompleted ? "#E91E63" : "#FFFFFF",
+                    color: isCompleted ? "#FFFFFF" : "#E91E63",
+                    fontSize: "16px",
+                    fontWeight: 700,
+                    display: "flex",
+                    alignItems: "center",
+                    justifyContent: "center",
+                    boxSizing: "border-box",
+                  }}
+                  aria-hidden="true"
+                >
+                  {isUpcoming ? "" : "✓"}
+                </span>
+                <span>{item.text}</span>
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+
+      {/* Image Column */}
+      <div
+        style={{
+          width: "100%",
+          height: "100%",
+          maxHeight: "480px",
+          borderRadius: "16px",
+          overflow: "hidden",
+          boxShadow: "0 8px 24px rgba(0, 0, 0, 0.12)",
+        }}
+      >
+        {imageUrl ? (
+          <img
+            src={imageUrl}
+            alt={imageAlt}
+            style={{
+              width: "100%",
+              height: "100%",
+              objectFit: "cover",
+            }}
+          />
+        ) : (
+          <div
+            style={{
+              width: "100%",
+              height: "100%",
+              backgroundColor: "#F1F5F9",
+              display: "flex",
+              alignItems: "center",
+              justifyContent: "center",
+            }}
+          >
+            <span style={{ color: "#94A3B8", fontSize: "16px" }}>Bilde genereres...</span>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
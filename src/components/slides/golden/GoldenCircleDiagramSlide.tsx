@@ -0,0 +1,188 @@
+/**
+ * GoldenCircleDiagramSlide Component
+ *
+ * Pixel-perfect circle diagram matching Gamma's premium design.
+ *
+ * Features:
+ * - Central concept in a 260px pink circle
+ * - 4 surrounding elements, two on each side of the circle
+ * - Element marker: 12px pink dot facing the circle
+ * - Element title: 22px, weight 600
+ * - Element description: 16px, line-height 1.5
+ *
+ * NO var(), clamp(), or cqw - only hardcoded pixel values.
+ */
+
+"use client";
+
+import type { Slide } from "@/lib/schemas/slide";
+import type { SlotContent } from "@/lib/templates/types";
+
+interface GoldenCircleDiagramSlideProps {
+  slide: Slide;
+  slotContent?: SlotContent;
+  editable?: boolean;
+  slideIndex?: number;
+}
+
+/**
+ * Grid placement for the surrounding elements (clockwise from top-left)
+ */
+const ELEMENT_POSITIONS = [
+  { gridColumn: 1, gridRow: 1, align: "right" },
+  { gridColumn: 3, gridRow: 1, align: "left" },
+  { gridColumn: 3, gridRow: 2, align: "left" },
+  { gridColumn: 1, gridRow: 2, align: "right" },
+] as const;
+
+export function GoldenCircleDiagramSlide({
+  slide,
+  slotContent,
+  editable = false,
+  slideIndex = 0,
+}: GoldenCircleDiagramSlideProps) {
+  // Extract content from slot or fall back to slide blocks
+  const titleBlock = slide.blocks.find((b) => b.kind === "title");
+  const textBlock = slide.blocks.find((b) => b.kind === "text");
+  const iconBlocks = slide.blocks.filter((b) => b.kind === "icon_card");
+
+  const title = slotContent?.title ?? titleBlock?.text ?? "";
+  const center = slotContent?.body ?? textBlock?.text ?? "";
+
+  // Get elements from slotContent or slide blocks (max 4)
+  const elements =
+    slotContent?.items?.slice(0, 4).map((item) => ({
+      text: item.text ?? item.label ?? "",
+      description: item.description,
+    })) ??
+    iconBlocks.slice(0, 4).map((block) => ({
+      text: block.text ?? "",
+      description: block.description,
+    }));
+
+  return (
+    <div
+      className="golden-slide"
+      style={{
+        width: "100%",
+        height: "100%",
+        padding: "80px 100px",
+        display: "flex",
+        flexDirection: "column",
+        gap: "40px",
+        backgroundColor: "#FFFFFF",
+      }}
+    >
+      {/* Title */}
+      <h2
+        style={{
+          fontSize: "36px",
+          fontWeight: 700,
+          lineHeight: 1.2,
+          letterSpacing: "-0.01em",
+          color: "#0F172A",
+          margin: 0,
+        }}
+      >
+        {title}
+      </h2>
+
+      {/* Diagram */}
+      <div
+        style={{
+          flex: 1,
+          display: "grid",
+          gridTemplateColumns: "1fr 260px 1fr",
+          gridTemplateRows: "1fr 1fr",
+          columnGap: "56px",
+          rowGap: "32px",
+          alignItems: "center",
+        }}
+      >
+        {/* Central circle */}
+        <div
+          style={{
+            gridColumn: 2,
+            gridRow: "1 / span 2",
+            width: "260px",
+            height: "260px",
+            borderRadius: "50%",
+            backgroundColor: "#E91E63",
+            boxShadow: "0 12px 32px rgba(233, 30, 99, 0.25)",
+            display: "flex",
+            alignItems: "center",
+            justifyContent: "center",
+            padding: "32px",
+            boxSizing: "border-box",
+            textAlign: "center",
+            fontSize: "28px",
+            fontWeight: 700,
+            lineHeight: 1.2,
+            color: "#FFFFFF",
+          }}
+        >
+          {center}
+        </div>
+
+        {/* Surrounding elements */}
+        {elements.map((element, index) => {
+          const position = ELEMENT_POSITIONS[index];
+          const isRight = position.align === "right";
+          return (
+            <div
+              key={index}
+              style={{
+                gridColumn: position.gridColumn,
+                gridRow: position.gridRow,
+                display: "flex",
+                flexDirection: isRight ? "row-reverse" : "row",
+                alignItems: "flex-start",
+                gap: "16px",
+                textAlign: position.align,
+              }}
+            >
+              {/* Pink marker dot */}
+              <span
+                style={{
+                  flexShrink: 0,
+                  width: "12px",
+                  height: "12px",
+                  marginTop: "9px",
+                  backgroundColor: "#E91E63",
+                  borderRadius: "50%",
+                }}
+                aria-hidden="true"
+              />
+              <div style={{ display: "flex", flexDirection: "column", gap: "6px" }}>
+                <h3
+                  style={{
+                    fontSize: "22px",
+                    fontWeight: 600,
+                    lineHeight: 1.3,
+                    color: "#0F172A",
+                    margin: 0,
+                  }}
+                >
+                  {element.text}
+                </h3>
+                {element.description && (
+                  <p
+                    style={{
+                      fontSize: "16px",
+                      fontWeight: 400,
+                      lineHeight: 1.5,
+                      color: "#64748B",
+                      margin: 0,
+                    }}
+                  >
+                    {element.description}
+                  </p>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
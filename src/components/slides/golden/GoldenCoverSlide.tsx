@@ -38,6 +38,7 @@ export function GoldenCoverSlide({
   const title = slotContent?.title ?? titleBlock?.text ?? "";
   const subtitle = slotContent?.body ?? textBlock?.text ?? "";
   const backgroundUrl = slotContent?.imageUrl ?? imageBlock?.url;
+  const backgroundAlt = imageBlock?.alt;
 
   // Check for valid background image
   const hasBackground = backgroundUrl && !backgroundUrl.includes("placeholder");
@@ -64,7 +65,9 @@ export function GoldenCoverSlide({
             backgroundRepeat: "no-repeat",
             zIndex: 0,
           }}
-          aria-hidden="true"
+          {...(backgroundAlt
+            ? { role: "img", "aria-label": backgroundAlt }
+            : { "aria-hidden": true })}
         />
       )}
 
@@ -0,0 +1,182 @@
+/**
+ * GoldenIconGridSlide Component
+ *
+ * Pixel-perfect 2x2 feature grid matching Gamma's premium design.
+ *
+ * Features:
+ * - Exactly 4 icon cards in a 2x2 grid
+ * - Icon badge: 56px, pink tint with pink icon
+ * - Card title: 22px, weight 600
+ * - Card description: 17px, line-height 1.5
+ * - Grid gap: 32px
+ *
+ * NO var(), clamp(), or cqw - only hardcoded pixel values.
+ */
+
+"use client";
+
+import {
+  BarChart,
+  Bell,
+  Circle,
+  Clock,
+  Globe,
+  Layers,
+  Lock,
+  Shield,
+  Sparkles,
+  Target,
+  Users,
+  Zap,
+  type LucideIcon,
+} from "lucide-react";
+import type { Slide } from "@/lib/schemas/slide";
+import type { SlotContent } from "@/lib/templates/types";
+
+interface GoldenIconGridSlideProps {
+  slide: Slide;
+  slotContent?: SlotContent;
+  editable?: boolean;
+  slideIndex?: number;
+}
+
+/**
+ * Icons offered by buildGoldenIconGridPrompt
+ * Unknown names fall back to Circle
+ */
+const GOLDEN_ICONS: Record<string, LucideIcon> = {
+  zap: Zap,
+  shield: Shield,
+  globe: Globe,
+  users: Users,
+  "chart-bar": BarChart,
+  "bar-chart": BarChart,
+  clock: Clock,
+  lock: Lock,
+  sparkles: Sparkles,
+  target: Target,
+  layers: Layers,
+  bell: Bell,
+};
+
+export function GoldenIconGridSlide({
+  slide,
+  slotContent,
+  editable = false,
+  slideIndex = 0,
+}: GoldenIconGridSlideProps) {
+  // Extract content from slot or fall back to slide blocks
+  const titleBlock = slide.blocks.find((b) => b.kind === "title");
+  const iconBlocks = slide.blocks.filter((b) => b.kind === "icon_card");
+
+  const title = slotContent?.title ?? titleBlock?.text ?? "Nøkkelfunksjoner";
+
+  // Get features from slotContent or slide blocks (exactly 4 for the 2x2 grid)
+  const features =
+    slotContent?.items?.slice(0, 4).map((item) => ({
+      icon: item.icon ?? "sparkles",
+      text: item.text ?? item.label ?? "",
+      description: item.description,
+    })) ??
+    iconBlocks.slice(0, 4).map((block) => ({
+      icon: block.icon ?? "sparkles",
+      text: block.text ?? "",
+      description: block.description,
+    }));
+
+  return (
+    <div
+      className="golden-slide"
+      style={{
+        width: "100%",
+        height: "100%",
+        padding: "80px 100px",
+        display: "flex",
+        flexDirection: "column",
+        gap: "48px",
+        backgroundColor: "#FFFFFF",
+      }}
+    >
+      {/* Title */}
+      <h2
+        style={{
+          fontSize: "36px",
+          fontWeight: 700,
+          lineHeight: 1.2,
+          letterSpacing: "-0.01em",
+          color: "#0F172A",
+          margin: 0,
+        }}
+      >
+        {title}
+      </h2>
+
+      {/* 2x2 Grid */}
+      <div
+        style={{
+          display: "grid",
+          gridTemplateColumns: "1fr 1fr",
+          gap: "32px",
+        }}
+      >
+        {features.map((feature, index) => {
+          const Icon = GOLDEN_ICONS[feature.icon.toLowerCase()] ?? Circle;
+          return (
+            <div
+              key={index}
+              style={{
+                display: "flex",
+                alignItems: "flex-start",
+                gap: "20px",
+              }}
+            >
+              {/* Pink icon badge */}
+              <div
+                style={{
+                  flexShrink: 0,
+                  width: "56px",
+                  height: "56px",
+                  borderRadius: "14px",
+                  backgroundColor: "#FCE4EC",
+                  display: "flex",
+                  alignItems: "center",
+                  justifyContent: "center",
+                }}
+                aria-hidden="true"
+              >
+                <Icon size={28} color="#E91E63" strokeWidth={2} />
+              </div>
+
+              <div style={{ display: "flex", flexDirection: "column", gap: "6px" }}>
+                <h3
+                  style={{
+                    fontSize: "22px",
+                    fontWeight: 600,
+                    lineHeight: 1.3,
+                    color: "#0F172A",
+                    margin: 0,
+                  }}
+                >
+                  {feature.text}
+                </h3>
+                {feature.description && (
+                  <p
+                    style={{
+                      fontSize: "17px",
+                      fontWeight: 400,
+                      lineHeight: 1.5,
+                      color: "#64748B",
+                      margin: 0,
+                    }}
+                  >
+                    {feature.description}
+                  </p>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
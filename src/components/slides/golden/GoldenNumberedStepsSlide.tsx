@@ -0,0 +1,141 @@
+/**
+ * GoldenNumberedStepsSlide Component
+ *
+ * Pixel-perfect numbered steps slide matching Gamma's premium design.
+ *
+ * Features:
+ * - 3-4 numbered cards in a single row
+ * - Step number: 48px, weight 800, pink color
+ * - Card: 16px radius, pink top border (4px)
+ * - Step title: 22px, weight 600
+ * - Step description: 17px, line-height 1.5
+ *
+ * NO var(), clamp(), or cqw - only hardcoded pixel values.
+ */
+
+"use client";
+
+import type { Slide } from "@/lib/schemas/slide";
+import type { SlotContent } from "@/lib/templates/types";
+
+interface GoldenNumberedStepsSlideProps {
+  slide: Slide;
+  slotContent?: SlotContent;
+  editable?: boolean;
+  slideIndex?: number;
+}
+
+export function GoldenNumberedStepsSlide({
+  slide,
+  slotContent,
+  editable = false,
+  slideIndex = 0,
+}: GoldenNumberedStepsSlideProps) {
+  // Extract content from slot or fall back to slide blocks
+  const titleBlock = slide.blocks.find((b) => b.kind === "title");
+  const cardBlocks = slide.blocks.filter((b) => b.kind === "numbered_card");
+
+  const title = slotContent?.title ?? titleBlock?.text ?? "Tiltak";
+
+  // Get steps from slotContent or slide blocks (max 4)
+  const steps =
+    slotContent?.items?.slice(0, 4).map((item) => ({
+      text: item.text ?? item.label ?? "",
+      description: item.description,
+    })) ??
+    cardBlocks.slice(0, 4).map((block) => ({
+      text: block.text ?? "",
+      description: block.description,
+    }));
+
+  return (
+    <div
+      className="golden-slide"
+      style={{
+        width: "100%",
+        height: "100%",
+        padding: "80px 100px",
+        display: "flex",
+        flexDirection: "column",
+        gap: "48px",
+        backgroundColor: "#FFFFFF",
+      }}
+    >
+      {/* Title */}
+      <h2
+        style={{
+          fontSize: "36px",
+          fontWeight: 700,
+          lineHeight: 1.2,
+          letterSpacing: "-0.01em",
+          color: "#0F172A",
+          margin: 0,
+        }}
+      >
+        {title}
+      </h2>
+
+      {/* Step cards */}
+      <ol
+        style={{
+          display: "grid",
+          gridTemplateColumns: `repeat(${Math.max(steps.length, 1)}, 1fr)`,
+          gap: "32px",
+          margin: 0,
+          padding: 0,
+          listStyle: "none",
+        }}
+      >
+        {steps.map((step, index) => (
+          <li
+            key={index}
+            style={{
+              display: "flex",
+              flexDirection: "column",
+              gap: "12px",
+              padding: "32px 28px",
+              borderRadius: "16px",
+              borderTop: "4px solid #E91E63",
+              backgroundColor: "#F8FAFC",
+            }}
+          >
+            <span
+              style={{
+                fontSize: "48px",
+                fontWeight: 800,
+                lineHeight: 1,
+                color: "#E91E63",
+              }}
+            >
+              {String(index + 1).padStart(2, "0")}
+            </span>
+            <h3
+              style={{
+                fontSize: "22px",
+                fontWeight: 600,
+                lineHeight: 1.3,
+                color: "#0F172A",
+                margin: 0,
+              }}
+            >
+              {step.text}
+            </h3>
+            {step.description && (
+              <p
+                style={{
+                  fontSize: "17px",
+                  fontWeight: 400,
+                  lineHeight: 1.5,
+                  color: "#64748B",
+                  margin: 0,
+                }}
+              >
+                {step.description}
+              </p>
+            )}
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
@@ -0,0 +1,92 @@
+/**
+ * GoldenSlideBody Component
+ *
+ * Picks the pixel-perfect golden component for a golden slide type.
+ *
+ * Kept free of stylesheet imports so it can be rendered outside the Next.js
+ * bundle (SlideRenderer in the export worker); GoldenSlideRenderer adds
+ * golden.css and the data-golden wrapper on top of it.
+ */
+
+import type { Slide } from "@/lib/schemas/slide";
+import type { GoldenSlideType, SlotContent } from "@/lib/templates/types";
+
+import { GoldenCoverSlide } from "./GoldenCoverSlide";
+import { GoldenStatsSlide } from "./GoldenStatsSlide";
+import { GoldenContentSlide } from "./GoldenContentSlide";
+import { GoldenBulletsSlide } from "./GoldenBulletsSlide";
+import { GoldenCTASlide } from "./GoldenCTASlide";
+import { GoldenIconGridSlide } from "./GoldenIconGridSlide";
+import { GoldenTimelineSlide } from "./GoldenTimelineSlide";
+import { GoldenChecklistSlide } from "./GoldenChecklistSlide";
+import { GoldenNumberedStepsSlide } from "./GoldenNumberedStepsSlide";
+import { GoldenCircleDiagramSlide } from "./GoldenCircleDiagramSlide";
+
+export interface GoldenSlideBodyProps {
+  /** The slide data */
+  slide: Slide;
+  /** Golden slide type (overrides slide.type) */
+  goldenSlideType: GoldenSlideType;
+  /** Generated content for this slot */
+  slotContent?: SlotContent;
+  /** Enable editing (limited in golden mode) */
+  editable?: boolean;
+  /** Slide index for editing context */
+  slideIndex?: number;
+}
+
+export function GoldenSlideBody({
+  slide,
+  goldenSlideType,
+  slotContent,
+  editable = false,
+  slideIndex = 0,
+}: GoldenSlideBodyProps) {
+  const props = { slide, slotContent, editable, slideIndex };
+
+  switch (goldenSlideType) {
+    case "cover":
+      return <GoldenCoverSlide {...props} />;
+
+    case "stats":
+      return <GoldenStatsSlide {...props} />;
+
+    case "content":
+      return (
+        <GoldenContentSlide
+          {...props}
+          textPosition={slide.layoutVariant === "text_right" ? "right" : "left"}
+        />
+      );
+
+    case "bullets":
+      return <GoldenBulletsSlide {...props} />;
+
+    case "cta":
+      return <GoldenCTASlide {...props} />;
+
+    case "icon_grid":
+      return <GoldenIconGridSlide {...props} />;
+
+    case "timeline":
+      return <GoldenTimelineSlide {...props} />;
+
+    case "checklist":
+      return <GoldenChecklistSlide {...props} />;
+
+    case "numbered_steps":
+      return <GoldenNumberedStepsSlide {...props} />;
+
+    case "circle_diagram":
+      return <GoldenCircleDiagramSlide {...props} />;
+
+    default:
+      return (
+        <div className="golden-slide">
+          <div className="flex items-center justify-center h-full">
+            <p className="text-lg text-gray-500">Unknown golden slide type: {goldenSlideType}</p>
+          </div>
+        </div>
+      );
+  }
+}
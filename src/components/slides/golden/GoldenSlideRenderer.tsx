@@ -16,12 +16,7 @@ import type { GoldenSlideType, GoldenTemplateId, SlotContent } from "@/lib/templ
 // Import golden.css for pixel-perfect styling
 import "@/styles/golden.css";
 
-// Golden slide components (to be created)
-import { GoldenCoverSlide } from "./GoldenCoverSlide";
-import { GoldenStatsSlide } from "./GoldenStatsSlide";
-import { GoldenContentSlide } from "./GoldenContentSlide";
-import { GoldenBulletsSlide } from "./GoldenBulletsSlide";
-import { GoldenCTASlide } from "./GoldenCTASlide";
+import { GoldenSlideBody } from "./GoldenSlideBody";
 
 export interface GoldenSlideRendererProps {
   /** The slide data */
@@ -58,84 +53,6 @@ export function GoldenSlideRenderer({
   editable = false,
   slideIndex = 0,
 }: GoldenSlideRendererProps) {
-  // Render the appropriate golden slide component
-  const renderGoldenSlide = () => {
-    switch (goldenSlideType) {
-      case "cover":
-        return (
-          <GoldenCoverSlide
-            slide={slide}
-            slotContent={slotContent}
-            editable={editable}
-            slideIndex={slideIndex}
-          />
-        );
-
-      case "stats":
-        return (
-          <GoldenStatsSlide
-            slide={slide}
-            slotContent={slotContent}
-            editable={editable}
-            slideIndex={slideIndex}
-          />
-        );
-
-      case "content":
-        return (
-          <GoldenContentSlide
-            slide={slide}
-            slotContent={slotContent}
-            editable={editable}
-            slideIndex={slideIndex}
-          />
-        );
-
-      case "bullets":
-        return (
-          <GoldenBulletsSlide
-            slide={slide}
-            slotContent={slotContent}
-            editable={editable}
-            slideIndex={slideIndex}
-          />
-        );
-
-      case "cta":
-        return (
-          <GoldenCTASlide
-            slide={slide}
-            slotContent={slotContent}
-            editable={editable}
-            slideIndex={slideIndex}
-          />
-        );
-
-      // Future slide types
-      case "icon_grid":
-      case "timeline":
-      case "checklist":
-      case "numbered_steps":
-      case "circle_diagram":
-        return (
-          <div className="golden-slide" data-golden-type={goldenSlideType}>
-            <div className="flex items-center justify-center h-full">
-              <p className="text-lg text-gray-500">Golden {goldenSlideType} slide coming soon</p>
-            </div>
-          </div>
-        );
-
-      default:
-        return (
-          <div className="golden-slide">
-            <div className="flex items-center justify-center h-full">
-              <p className="text-lg text-gray-500">Unknown golden slide type: {goldenSlideType}</p>
-            </div>
-          </div>
-        );
-    }
-  };
-
   return (
     <div
       className="golden-slides"
@@ -144,7 +61,13 @@ export function GoldenSlideRenderer({
       data-golden-slot={slotPosition}
       data-golden-type={goldenSlideType}
     >
-      {renderGoldenSlide()}
+      <GoldenSlideBody
+        slide={slide}
+        goldenSlideType={goldenSlideType}
+        slotContent={slotContent}
+        editable={editable}
+        slideIndex={slideIndex}
+      />
     </div>
   );
 }
@@ -0,0 +1,182 @@
+/**
+ * GoldenTimelineSlide Component
+ *
+ * Pixel-perfect horizontal timeline matching Gamma's premium design.
+ *
+ * Features:
+ * - 3-5 milestones on a horizontal track
+ * - Milestone marker: 40px circle with step number
+ * - Status colors: completed = solid pink, current = pink ring, upcoming = grey
+ * - Milestone label: 20px, weight 600
+ * - Milestone description: 16px, line-height 1.5
+ *
+ * NO var(), clamp(), or cqw - only hardcoded pixel values.
+ */
+
+"use client";
+
+import type { Slide } from "@/lib/schemas/slide";
+import type { SlotContent } from "@/lib/templates/types";
+
+interface GoldenTimelineSlideProps {
+  slide: Slide;
+  slotContent?: SlotContent;
+  editable?: boolean;
+  slideIndex?: number;
+}
+
+type MilestoneStatus = "completed" | "current" | "upcoming";
+
+/**
+ * Marker styling per milestone status
+ */
+const MARKER_STYLES: Record<
+  MilestoneStatus,
+  { background: string; border: string; color: string }
+> = {
+  completed: { background: "#E91E63", border: "#E91E63", color: "#FFFFFF" },
+  current: { background: "#FFFFFF", border: "#E91E63", color: "#E91E63" },
+  upcoming: { background: "#FFFFFF", border: "#CBD5E1", color: "#94A3B8" },
+};
+
+export function GoldenTimelineSlide({
+  slide,
+  slotContent,
+  editable = false,
+  slideIndex = 0,
+}: GoldenTimelineSlideProps) {
+  // Extract content from slot or fall back to slide blocks
+  const titleBlock = slide.blocks.find((b) => b.kind === "title");
+  const stepBlocks = slide.blocks.filter((b) => b.kind === "timeline_step");
+
+  const title = slotContent?.title ?? titleBlock?.text ?? "Tidslinje";
+
+  // Get milestones from slotContent or slide blocks (max 5)
+  const milestones =
+    slotContent?.items?.slice(0, 5).map((item) => ({
+      text: item.text ?? item.label ?? "",
+      description: item.description,
+      status: item.status,
+    })) ??
+    stepBlocks.slice(0, 5).map((block) => ({
+      text: block.text ?? "",
+      description: block.description,
+      status: block.status,
+    }));
+
+  return (
+    <div
+      className="golden-slide"
+      style={{
+        width: "100%",
+        height: "100%",
+        padding: "80px 100px",
+        display: "flex",
+        flexDirection: "column",
+        gap: "64px",
+        backgroundColor: "#FFFFFF",
+      }}
+    >
+      {/* Title */}
+      <h2
+        style={{
+          fontSize: "36px",
+          fontWeight: 700,
+          lineHeight: 1.2,
+          letterSpacing: "-0.01em",
+          color: "#0F172A",
+          margin: 0,
+        }}
+      >
+        {title}
+      </h2>
+
+      {/* Timeline */}
+      <div style={{ position: "relative" }}>
+        {/* Track line through the marker centres */}
+        <div
+          style={{
+            position: "absolute",
+            top: "19px",
+            left: "20px",
+            right: "20px",
+            height: "2px",
+            backgroundColor: "#E2E8F0",
+          }}
+          aria-hidden="true"
+        />
+
+        <ol
+          style={{
+            position: "relative",
+            display: "grid",
+            gridTemplateColumns: `repeat(${Math.max(milestones.length, 1)}, 1fr)`,
+            gap: "32px",
+            margin: 0,
+            padding: 0,
+            listStyle: "none",
+          }}
+        >
+          {milestones.map((milestone, index) => {
+            const marker = MARKER_STYLES[milestone.status ?? "upcoming"];
+            return (
+              <li
+                key={index}
+                style={{
+                  display: "flex",
+                  flexDirection: "column",
+                  gap: "16px",
+                }}
+              >
+                {/* Step marker */}
+                <span
+                  style={{
+                    width: "40px",
+                    height: "40px",
+                    borderRadius: "50%",
+                    border: `2px solid ${marker.border}`,
+                    backgroundColor: marker.background,
+                    color: marker.color,
+                    fontSize: "16px",
+                    fontWeight: 700,
+                    display: "flex",
+                    alignItems: "center",
+                    justifyContent: "center",
+                    boxSizing: "border-box",
+                  }}
+                >
+                  {index + 1}
+                </span>
+
+                <h3
+                  style={{
+                    fontSize: "20px",
+                    fontWeight: 600,
+                    lineHeight: 1.3,
+                    color: milestone.status === "upcoming" ? "#64748B" : "#0F172A",
+                    margin: 0,
+                  }}
+                >
+                  {milestone.text}
+                </h3>
+                {milestone.description && (
+                  <p
+                    style={{
+                      fontSize: "16px",
+                      fontWeight: 400,
+                      lineHeight: 1.5,
+                      color: "#64748B",
+                      margin: 0,
+                    }}
+                  >
+                    {milestone.description}
+                  </p>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      </div>
+    </div>
+  );
+}
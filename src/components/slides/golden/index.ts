@@ -5,8 +5,14 @@
  */
 
 export { GoldenSlideRenderer, isGoldenDeck } from "./GoldenSlideRenderer";
+export { GoldenSlideBody } from "./GoldenSlideBody";
 export { GoldenCoverSlide } from "./GoldenCoverSlide";
 export { GoldenStatsSlide } from "./GoldenStatsSlide";
 export { GoldenContentSlide } from "./GoldenContentSlide";
 export { GoldenBulletsSlide } from "./GoldenBulletsSlide";
 export { GoldenCTASlide } from "./GoldenCTASlide";
+export { GoldenIconGridSlide } from "./GoldenIconGridSlide";
+export { GoldenTimelineSlide } from "./GoldenTimelineSlide";
+export { GoldenChecklistSlide } from "./GoldenChecklistSlide";
+export { GoldenNumberedStepsSlide } from "./GoldenNumberedStepsSlide";
+export { GoldenCircleDiagramSlide } from "./GoldenCircleDiagramSlide";
@@ -11,6 +11,9 @@ export { SlideRenderer } from "./SlideRenderer";
 // Base layout wrapper
 export { SlideLayout } from "./SlideLayout";
 
+// Language-dependent rendering (quotation marks)
+export { SlideLocaleProvider, useSlideLocale, type SlideLocale } from "./SlideLocale";
+
 // Individual slide components
 export { CoverSlide } from "./CoverSlide";
 export { AgendaSlide } from "./AgendaSlide";
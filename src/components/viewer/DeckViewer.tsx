@@ -2,7 +2,7 @@
  * DeckViewer Component
  *
  * Full presentation viewer with slide navigation, thumbnails,
- * and keyboard controls.
+ * and keyboard controls. Optionally synced with a presenter window.
  */
 
 "use client";
@@ -11,6 +11,7 @@ import { useState, useCallback, useEffect, useRef } from "react";
 import { AnimatePresence, motion } from "framer-motion";
 import type { Deck } from "@/lib/schemas/deck";
 import type { ThemeId, BrandKitOverrides } from "@/lib/themes";
+import { usePresenterSync } from "@/lib/hooks";
 import { ThemeProvider } from "./ThemeProvider";
 import { SlideCanvas } from "./SlideCanvas";
 import { SlideRenderer } from "../slides";
@@ -24,6 +25,10 @@ interface DeckViewerProps {
   showNavigation?: boolean;
   className?: string;
   onSlideChange?: (index: number) => void;
+  /** Sync navigation with other windows presenting the same deck (presenter mode) */
+  syncKey?: string;
+  /** Called when the presenter window ends the presentation */
+  onPresenterEnd?: () => void;
 }
 
 /**
@@ -34,6 +39,7 @@ interface DeckViewerProps {
  * - Previous/Next navigation buttons
  * - Keyboard navigation (Left/Right arrows, Home/End)
  * - Slide index display
+ * - Presenter window sync (when syncKey is set)
  */
 export function DeckViewer({
   deck,
@@ -44,6 +50,8 @@ export function DeckViewer({
   showNavigation = true,
   className = "",
   onSlideChange,
+  syncKey,
+  onPresenterEnd,
 }: DeckViewerProps) {
   const [currentIndex, setCurrentIndex] = useState(
     Math.max(0, Math.min(initialSlide, deck.slides.length - 1))
@@ -70,8 +78,8 @@ export function DeckViewer({
     }),
   };
 
-  // Navigation handlers
-  const goToSlide = useCallback(
+  // Show a slide without notifying other windows
+  const showSlide = useCallback(
     (index: number) => {
       const clampedIndex = Math.max(0, Math.min(index, totalSlides - 1));
       const dir = clampedIndex > prevIndexRef.current ? 1 : -1;
@@ -79,10 +87,27 @@ export function DeckViewer({
       prevIndexRef.current = clampedIndex;
       setCurrentIndex(clampedIndex);
       onSlideChange?.(clampedIndex);
+      return clampedIndex;
     },
     [totalSlides, onSlideChange]
   );
 
+  // Follow navigation from the presenter window
+  const { publishSlide } = usePresenterSync({
+    deckKey: syncKey ?? null,
+    currentIndex,
+    onRemoteSlide: showSlide,
+    onRemoteEnd: onPresenterEnd,
+  });
+
+  // Navigation handlers
+  const goToSlide = useCallback(
+    (index: number) => {
+      publishSlide(showSlide(index));
+    },
+    [showSlide, publishSlide]
+  );
+
   const goToPrevious = useCallback(() => {
     goToSlide(currentIndex - 1);
   }, [currentIndex, goToSlide]);
@@ -0,0 +1,328 @@
+/**
+ * PresenterView Component
+ *
+ * Presenter window shown on the speaker's screen while the audience
+ * window shows the slides. Displays the current and next slide,
+ * speaker notes, a timer and the slide counter, and keeps the
+ * audience window in sync via usePresenterSync.
+ */
+
+"use client";
+
+import { useState, useCallback, useEffect } from "react";
+import type { Deck } from "@/lib/schemas/deck";
+import type { Slide } from "@/lib/schemas/slide";
+import type { ThemeId, BrandKitOverrides } from "@/lib/themes";
+import { usePresenterSync } from "@/lib/hooks";
+import { formatPresenterTime } from "@/lib/presenter";
+import { ThemeProvider } from "./ThemeProvider";
+import { SlideCanvas } from "./SlideCanvas";
+import { SlideRenderer } from "../slides";
+
+// Target durations offered for the countdown (minutes, 0 = no target)
+const DURATION_OPTIONS = [0, 5, 10, 15, 20, 30, 45, 60, 90] as const;
+
+interface PresenterViewProps {
+  deck: Deck;
+  /** Channel scope shared with the audience window (deck ID) */
+  syncKey: string;
+  themeId?: ThemeId;
+  brandKit?: BrandKitOverrides;
+  /** Opens (or focuses) the audience window */
+  onOpenAudience?: () => void;
+  /** Called after the presentation has been ended */
+  onExit?: () => void;
+}
+
+/**
+ * Theme-wrapped slide preview scaled to its container
+ */
+function SlidePreview({
+  slide,
+  themeId,
+  brandKit,
+}: {
+  slide: Slide;
+  themeId: ThemeId;
+  brandKit?: BrandKitOverrides;
+}) {
+  return (
+    <ThemeProvider themeId={themeId} brandKit={brandKit}>
+      <SlideCanvas className="rounded-lg overflow-hidden shadow-lg">
+        <SlideRenderer slide={slide} />
+      </SlideCanvas>
+    </ThemeProvider>
+  );
+}
+
+export function PresenterView({
+  deck,
+  syncKey,
+  themeId = "nordic_light",
+  brandKit,
+  onOpenAudience,
+  onExit,
+}: PresenterViewProps) {
+  const totalSlides = deck.slides.length;
+  const [currentIndex, setCurrentIndex] = useState(0);
+
+  // Timer state: time banked while paused plus the running segment
+  const [bankedMs, setBankedMs] = useState(0);
+  const [runningSince, setRunningSince] = useState<number | null>(() => Date.now());
+  const [now, setNow] = useState(() => Date.now());
+  const [durationMinutes, setDurationMinutes] = useState(0);
+
+  const currentSlide = deck.slides[currentIndex];
+  const nextSlide = deck.slides[currentIndex + 1];
+
+  const showSlide = useCallback(
+    (index: number) => {
+      const clampedIndex = Math.max(0, Math.min(index, totalSlides - 1));
+      setCurrentIndex(clampedIndex);
+      return clampedIndex;
+    },
+    [totalSlides]
+  );
+
+  const { isSupported, publishSlide, publishEnd } = usePresenterSync({
+    deckKey: syncKey,
+    currentIndex,
+    onRemoteSlide: showSlide,
+  });
+
+  const goToSlide = useCallback(
+    (index: number) => {
+      publishSlide(showSlide(index));
+    },
+    [showSlide, publishSlide]
+  );
+
+  const goToPrevious = useCallback(() => {
+    goToSlide(currentIndex - 1);
+  }, [currentIndex, goToSlide]);
+
+  const goToNext = useCallback(() => {
+    goToSlide(currentIndex + 1);
+  }, [currentIndex, goToSlide]);
+
+  // Tick once per second while the timer runs
+  useEffect(() => {
+    if (runningSince === null) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [runningSince]);
+
+  const elapsedMs = bankedMs + (runningSince !== null ? Math.max(0, now - runningSince) : 0);
+  const remainingMs = durationMinutes > 0 ? durationMinutes * 60_000 - elapsedMs : null;
+
+  const toggleTimer = useCallback(() => {
+    const timestamp = Date.now();
+    if (runningSince !== null) {
+      setBankedMs((banked) => banked + (timestamp - runningSince));
+      setRunningSince(null);
+    } else {
+      setRunningSince(timestamp);
+    }
+    setNow(timestamp);
+  }, [runningSince]);
+
+  const resetTimer = useCallback(() => {
+    const timestamp = Date.now();
+    setBankedMs(0);
+    setRunningSince(runningSince !== null ? timestamp : null);
+    setNow(timestamp);
+  }, [runningSince]);
+
+  const handleExit = useCallback(() => {
+    publishEnd();
+    onExit?.();
+  }, [publishEnd, onExit]);
+
+  // Keyboard navigation (same keys as DeckViewer)
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (
+        e.target instanceof HTMLInputElement ||
+        e.target instanceof HTMLTextAreaElement ||
+        e.target instanceof HTMLSelectElement
+      ) {
+        return;
+      }
+
+      switch (e.key) {
+        case "ArrowLeft":
+        case "ArrowUp":
+        case "PageUp":
+          e.preventDefault();
+          goToPrevious();
+          break;
+        case "ArrowRight":
+        case "ArrowDown":
+        case "PageDown":
+        case " ": // Space
+          e.preventDefault();
+          goToNext();
+          break;
+        case "Home":
+          e.preventDefault();
+          goToSlide(0);
+          break;
+        case "End":
+          e.preventDefault();
+          goToSlide(totalSlides - 1);
+          break;
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [goToPrevious, goToNext, goToSlide, totalSlides]);
+
+  return (
+    <div className="flex flex-col h-screen bg-gray-900 text-gray-100">
+      {/* Top bar: title, counter, timer */}
+      <header className="flex-shrink-0 flex items-center justify-between gap-4 px-6 py-3 bg-gray-800 border-b border-gray-700">
+        <div className="min-w-0">
+          <h1 className="font-medium truncate">{deck.deck.title}</h1>
+          {!isSupported && (
+            <p className="text-xs text-amber-400">
+              Nettleseren støtter ikke synkronisering – publikumsvinduet følger ikke med.
+            </p>
+          )}
+        </div>
+
+        <div className="flex items-center gap-6">
+          <span className="text-sm text-gray-400 tabular-nums" aria-label="Slideteller">
+            {currentIndex + 1} / {totalSlides}
+          </span>
+
+          <div className="flex items-center gap-2">
+            <span className="text-2xl font-semibold tabular-nums" aria-label="Medgått tid">
+              {formatPresenterTime(elapsedMs)}
+            </span>
+            <button
+              type="button"
+              onClick={toggleTimer}
+              className="px-2.5 py-1 rounded text-xs font-medium bg-gray-700 hover:bg-gray-600 transition-colors"
+            >
+              {runningSince !== null ? "Pause" : "Start"}
+            </button>
+            <button
+              type="button"
+              onClick={resetTimer}
+              className="px-2.5 py-1 rounded text-xs font-medium bg-gray-700 hover:bg-gray-600 transition-colors"
+            >
+              Nullstill
+            </button>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <select
+              value={durationMinutes}
+              onChange={(e) => setDurationMinutes(Number(e.target.value))}
+              aria-label="Planlagt varighet"
+              className="px-2 py-1 rounded text-xs bg-gray-700 border border-gray-600 focus:outline-none focus:ring-2 focus:ring-emerald-500"
+            >
+              {DURATION_OPTIONS.map((minutes) => (
+                <option key={minutes} value={minutes}>
+                  {minutes === 0 ? "Ingen tidsramme" : `${minutes} min`}
+                </option>
+              ))}
+            </select>
+            {remainingMs !== null && (
+              <span
+                className={`text-sm font-medium tabular-nums ${
+                  remainingMs < 0
+                    ? "text-red-400"
+                    : remainingMs < 60_000
+                      ? "text-amber-400"
+                      : "text-gray-300"
+                }`}
+                aria-label="Gjenstående tid"
+              >
+                {formatPresenterTime(remainingMs)} igjen
+              </span>
+            )}
+          </div>
+
+          {onOpenAudience && (
+            <button
+              type="button"
+              onClick={onOpenAudience}
+              className="px-3 py-1.5 rounded text-sm font-medium bg-emerald-600 hover:bg-emerald-500 transition-colors"
+            >
+              Åpne publikumsvindu
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={handleExit}
+            className="px-3 py-1.5 rounded text-sm font-medium bg-gray-700 hover:bg-gray-600 transition-colors"
+          >
+            Avslutt
+          </button>
+        </div>
+      </header>
+
+      {/* Main area: current slide | next slide + notes */}
+      <main className="flex-1 min-h-0 grid grid-cols-1 lg:grid-cols-3 gap-6 p-6">
+        <section className="lg:col-span-2 flex flex-col min-h-0">
+          <h2 className="text-xs font-semibold uppercase tracking-wider text-gray-400 mb-2">Nå</h2>
+          <div className="flex-1 min-h-0 flex items-center">
+            {currentSlide && (
+              <SlidePreview slide={currentSlide} themeId={themeId} brandKit={brandKit} />
+            )}
+          </div>
+        </section>
+
+        <aside className="flex flex-col gap-6 min-h-0">
+          <section>
+            <h2 className="text-xs font-semibold uppercase tracking-wider text-gray-400 mb-2">
+              Neste
+            </h2>
+            {nextSlide ? (
+              <SlidePreview slide={nextSlide} themeId={themeId} brandKit={brandKit} />
+            ) : (
+              <div className="aspect-video rounded-lg border border-dashed border-gray-700 flex items-center justify-center text-sm text-gray-500">
+                Slutt på presentasjonen
+              </div>
+            )}
+          </section>
+
+          <section className="flex-1 min-h-0 flex flex-col">
+            <h2 className="text-xs font-semibold uppercase tracking-wider text-gray-400 mb-2">
+              Talernotater
+            </h2>
+            <div className="flex-1 min-h-0 overflow-y-auto rounded-lg bg-gray-800 p-4">
+              {currentSlide?.notes ? (
+                <p className="text-lg leading-relaxed whitespace-pre-wrap">{currentSlide.notes}</p>
+              ) : (
+                <p className="text-sm text-gray-500">Ingen talernotater for denne sliden.</p>
+              )}
+            </div>
+          </section>
+        </aside>
+      </main>
+
+      {/* Navigation bar */}
+      <footer className="flex-shrink-0 flex items-center justify-center gap-4 px-6 py-3 bg-gray-800 border-t border-gray-700">
+        <button
+          type="button"
+          onClick={goToPrevious}
+          disabled={currentIndex === 0}
+          className="px-4 py-2 rounded font-medium bg-gray-700 hover:bg-gray-600 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          Forrige
+        </button>
+        <button
+          type="button"
+          onClick={goToNext}
+          disabled={currentIndex === totalSlides - 1}
+          className="px-4 py-2 rounded font-medium bg-emerald-600 hover:bg-emerald-500 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          Neste
+        </button>
+      </footer>
+    </div>
+  );
+}
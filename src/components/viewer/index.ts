@@ -8,3 +8,4 @@ export { ThemeProvider, useTheme } from "./ThemeProvider";
 export { SlideCanvas, SLIDE_DIMENSIONS } from "./SlideCanvas";
 export { SlideViewer } from "./SlideViewer";
 export { DeckViewer } from "./DeckViewer";
+export { PresenterView } from "./PresenterView";
@@ -8,7 +8,12 @@
  */
 
 import { useState, useRef, useCallback } from "react";
-import { MIME_TYPE_NAMES, type SupportedMimeType } from "@/lib/extraction";
+import {
+  MIME_TYPE_EXTENSIONS,
+  MIME_TYPE_NAMES,
+  resolveMimeType,
+  type SupportedMimeType,
+} from "@/lib/extraction";
 
 interface FileDropZoneProps {
   onFileSelect: (file: File) => void;
@@ -27,7 +32,17 @@ const FORMAT_BADGES = [
     label: "DOCX",
     color: "bg-blue-100 text-blue-700",
   },
+  {
+    mime: "application/vnd.openxmlformats-officedocument.presentationml.presentation" as SupportedMimeType,
+    label: "PPTX",
+    color: "bg-orange-100 text-orange-700",
+  },
   { mime: "text/plain" as SupportedMimeType, label: "TXT", color: "bg-gray-100 text-gray-700" },
+  {
+    mime: "text/markdown" as SupportedMimeType,
+    label: "MD",
+    color: "bg-violet-100 text-violet-700",
+  },
 ];
 
 export function FileDropZone({
@@ -48,7 +63,7 @@ export function FileDropZone({
   const validateFile = useCallback(
     (file: File): string | null => {
       // Check file type
-      if (!accept.includes(file.type as SupportedMimeType)) {
+      if (!accept.includes(resolveMimeType(file.name, file.type) as SupportedMimeType)) {
         const acceptedFormats = accept.map((mime) => MIME_TYPE_NAMES[mime]).join(", ");
         return `Ugyldig filtype. Støttede formater: ${acceptedFormats}`;
       }
@@ -137,7 +152,7 @@ export function FileDropZone({
       <input
         ref={inputRef}
         type="file"
-        accept={accept.join(",")}
+        accept={[...accept, ...accept.map((mime) => MIME_TYPE_EXTENSIONS[mime])].join(",")}
         onChange={handleInputChange}
         className="hidden"
         disabled={disabled || isUploading}
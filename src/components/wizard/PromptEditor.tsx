@@ -29,7 +29,6 @@ import { AdditionalInstructions } from "./AdditionalInstructions";
 import { SlideCountSelector } from "./SlideCountSelector";
 import type { ThemeId } from "@/lib/themes";
 import type { Outline, OutlineSlide } from "@/lib/schemas/slide";
-import type { GoldenTemplateId } from "@/lib/templates";
 
 type TextMode = "generate" | "condense" | "preserve";
 type Amount = "brief" | "medium" | "detailed";
@@ -50,14 +49,17 @@ export interface PromptEditorState {
   imageMode: ImageMode;
   imageStyle: ImageStyle;
 
+  // Speaker notes
+  speakerNotes: boolean;
+
   // Slide count
   targetSlideCount: number;
 
   // Additional instructions
   additionalInstructions: string;
 
-  // Golden Template (Phase 8)
-  templateId: GoldenTemplateId | null;
+  // Golden Template (Phase 8) or a template saved from a deck
+  templateId: string | null;
 }
 
 interface PromptEditorProps {
@@ -196,6 +198,8 @@ export function PromptEditor({
             onImageModeChange={(v) => updateSetting("imageMode", v)}
             imageStyle={settings.imageStyle}
             onImageStyleChange={(v) => updateSetting("imageStyle", v)}
+            speakerNotes={settings.speakerNotes}
+            onSpeakerNotesChange={(v) => updateSetting("speakerNotes", v)}
             templateId={settings.templateId}
             onTemplateChange={(v) => updateSetting("templateId", v)}
             disabled={isLoading}
@@ -349,6 +353,7 @@ export function getDefaultPromptEditorState(): PromptEditorState {
     themeId: "nordic_light",
     imageMode: "ai", // Default to AI images for Gamma-level quality
     imageStyle: "photorealistic",
+    speakerNotes: false,
     targetSlideCount: 8,
     additionalInstructions: "",
     templateId: null, // null = dynamic mode (no Golden Template)
@@ -4,7 +4,7 @@
  * SettingsPanel Component
  *
  * Left panel in the Prompt Editor with generation settings.
- * Includes amount (text density), language, theme, and image settings.
+ * Includes amount (text density), language, theme, image and speaker notes settings.
  *
  * Note: textMode is set in step 1 (input step) based on the creation mode:
  * - GenerateInput → "generate"
@@ -18,7 +18,6 @@ import { ChevronDown, ChevronUp, ImageIcon } from "lucide-react";
 import { ThemeCardGrid } from "@/components/ui/ThemeCardGrid";
 import { TemplateSelector } from "./TemplateSelector";
 import type { ThemeId } from "@/lib/themes";
-import type { GoldenTemplateId } from "@/lib/templates";
 
 // Languages with flags
 const LANGUAGES = [
@@ -74,9 +73,13 @@ interface SettingsPanelProps {
   imageStyle?: ImageStyle;
   onImageStyleChange?: (style: ImageStyle) => void;
 
+  // Speaker notes
+  speakerNotes: boolean;
+  onSpeakerNotesChange: (enabled: boolean) => void;
+
   // Golden Template (Phase 8)
-  templateId: GoldenTemplateId | null;
-  onTemplateChange: (templateId: GoldenTemplateId | null) => void;
+  templateId: string | null;
+  onTemplateChange: (templateId: string | null) => void;
 
   // State
   disabled?: boolean;
@@ -93,6 +96,8 @@ export function SettingsPanel({
   onImageModeChange,
   imageStyle,
   onImageStyleChange,
+  speakerNotes,
+  onSpeakerNotesChange,
   templateId,
   onTemplateChange,
   disabled = false,
@@ -266,6 +271,29 @@ export function SettingsPanel({
         </AnimatePresence>
       </section>
 
+      {/* Speaker Notes Toggle */}
+      <section>
+        <label
+          className={`flex items-start justify-between gap-3 ${
+            disabled ? "opacity-50 cursor-not-allowed" : "cursor-pointer"
+          }`}
+        >
+          <span>
+            <span className="block text-sm font-medium text-gray-700">Talernotater</span>
+            <span className="block text-xs text-gray-500 mt-0.5">
+              Generer talernotater for hver slide
+            </span>
+          </span>
+          <input
+            type="checkbox"
+            checked={speakerNotes}
+            onChange={(e) => onSpeakerNotesChange(e.target.checked)}
+            disabled={disabled}
+            className="mt-1 h-4 w-4 rounded border-gray-300 text-emerald-600 focus:ring-emerald-500"
+          />
+        </label>
+      </section>
+
       {/* Golden Template Selector (Phase 8) */}
       <TemplateSelector
         selectedTemplate={templateId}
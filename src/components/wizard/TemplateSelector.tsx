@@ -6,9 +6,12 @@
  * Allows users to select a Golden Template for pixel-perfect generation.
  * When a template is selected, the outline step is skipped and
  * the AI generates content directly into the fixed template structure.
+ *
+ * Also lists the workspace's own templates ("Dine maler"), such as
+ * templates saved from a polished deck in the editor.
  */
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import {
   LayoutTemplate,
@@ -19,6 +22,7 @@ import {
   BarChart3,
   Target,
   Check,
+  Copy,
 } from "lucide-react";
 import { getTemplateOptions, type GoldenTemplateId } from "@/lib/templates";
 
@@ -34,11 +38,22 @@ const TEMPLATE_DESCRIPTIONS: Record<GoldenTemplateId, string> = {
   project_update: "5 slides: Cover, Timeline, Decisions, Actions, Next",
 };
 
+/**
+ * Workspace template summary from GET /api/templates
+ */
+interface WorkspaceTemplateOption {
+  id: string;
+  kind: "deck" | "golden";
+  name: string;
+  description: string;
+  slideCount: number;
+}
+
 interface TemplateSelectorProps {
-  /** Currently selected template (null = dynamic mode) */
-  selectedTemplate: GoldenTemplateId | null;
+  /** Currently selected template ID - built-in or workspace (null = dynamic mode) */
+  selectedTemplate: string | null;
   /** Called when selection changes */
-  onChange: (templateId: GoldenTemplateId | null) => void;
+  onChange: (templateId: string | null) => void;
   /** Disabled state */
   disabled?: boolean;
 }
@@ -49,9 +64,26 @@ export function TemplateSelector({
   disabled = false,
 }: TemplateSelectorProps) {
   const [isExpanded, setIsExpanded] = useState(selectedTemplate !== null);
+  const [workspaceTemplates, setWorkspaceTemplates] = useState<WorkspaceTemplateOption[]>([]);
   const templates = getTemplateOptions();
 
-  const handleTemplateSelect = (templateId: GoldenTemplateId | null) => {
+  // Load the workspace's own templates (missing list just hides the section)
+  useEffect(() => {
+    let cancelled = false;
+    fetch("/api/templates")
+      .then((res) => (res.ok ? res.json() : { templates: [] }))
+      .then((data: { templates?: WorkspaceTemplateOption[] }) => {
+        if (!cancelled) setWorkspaceTemplates(data.templates ?? []);
+      })
+      .catch(() => {
+        // Built-in templates still work without the workspace list
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const handleTemplateSelect = (templateId: string | null) => {
     onChange(templateId);
     if (templateId === null) {
       setIsExpanded(false);
@@ -186,6 +218,68 @@ export function TemplateSelector({
                 );
               })}
 
+              {/* Workspace templates */}
+              {workspaceTemplates.length > 0 && (
+                <p className="text-xs font-medium text-gray-500 pt-2 px-1">Dine maler</p>
+              )}
+              {workspaceTemplates.map((template) => {
+                const isSelected = selectedTemplate === template.id;
+
+                return (
+                  <button
+                    key={template.id}
+                    type="button"
+                    onClick={() => handleTemplateSelect(template.id)}
+                    disabled={disabled}
+                    className={`
+                      w-full p-3 rounded-xl border-2 text-left transition-all
+                      ${
+                        isSelected
+                          ? "border-emerald-500 bg-emerald-50"
+                          : "border-gray-200 hover:border-gray-300 hover:bg-gray-50"
+                      }
+                      ${disabled ? "opacity-50 cursor-not-allowed" : "cursor-pointer"}
+                    `}
+                  >
+                    <div className="flex items-start gap-3">
+                      <div
+                        className={`
+                        w-8 h-8 rounded-lg flex items-center justify-center flex-shrink-0
+                        ${isSelected ? "bg-emerald-100" : "bg-gray-100"}
+                      `}
+                      >
+                        {template.kind === "deck" ? (
+                          <Copy
+                            className={`w-4 h-4 ${isSelected ? "text-emerald-600" : "text-gray-500"}`}
+                          />
+                        ) : (
+                          <LayoutTemplate
+                            className={`w-4 h-4 ${isSelected ? "text-emerald-600" : "text-gray-500"}`}
+                          />
+                        )}
+                      </div>
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center justify-between">
+                          <span
+                            className={`text-sm font-medium ${isSelected ? "text-emerald-900" : "text-gray-900"}`}
+                          >
+                            {template.name}
+                          </span>
+                          {isSelected && <Check className="w-4 h-4 text-emerald-600" />}
+                        </div>
+                        {template.description && (
+                          <p className="text-xs text-gray-500 mt-0.5">{template.description}</p>
+                        )}
+                        <p className="text-xs text-gray-400 mt-1">
+                          {template.slideCount} slides
+                          {template.kind === "deck" && " · samme struktur som originalen"}
+                        </p>
+                      </div>
+                    </div>
+                  </button>
+                );
+              })}
+
               {/* Info text */}
               <p className="text-xs text-gray-400 pt-2 px-1">
                 Golden Templates har fast struktur. AI fyller kun innhold - gir premium kvalitet.
@@ -3,16 +3,25 @@
 /**
  * ImportInput
  *
- * Input for creating presentations from uploaded files (PDF, DOCX, TXT).
+ * Input for creating presentations from uploaded files (PDF, DOCX, PPTX, TXT, MD).
  * Handles presigned URL upload → S3 → extraction via SSE.
  * Theme/length configured in PromptEditor (step 2).
+ * PowerPoint files can also be imported directly as an editable deck, and
+ * Markdown drafts with slide breaks keep their structure ("preserve" mode).
  */
 
 import { useState, useCallback, useEffect, useRef } from "react";
+import { useRouter } from "next/navigation";
 import { Button } from "@/components/ui";
 import { FileDropZone } from "../FileDropZone";
 import type { InputData } from "../InputStep";
-import { SUPPORTED_MIME_TYPES } from "@/lib/extraction";
+import {
+  SUPPORTED_MIME_TYPES,
+  PPTX_MIME_TYPE,
+  MARKDOWN_MIME_TYPE,
+  resolveMimeType,
+} from "@/lib/extraction";
+import { isMarkdownSlideInput } from "@/lib/extraction/markdown-slides";
 
 interface ImportInputProps {
   onNext: (data: InputData & { sourceFileId?: string }) => void;
@@ -26,6 +35,7 @@ type UploadState =
   | {
       status: "ready";
       filename: string;
+      mimeType: string;
       extractedText: string;
       charCount: number;
       truncated: boolean;
@@ -36,8 +46,11 @@ type UploadState =
 const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
 
 export function ImportInput({ onNext, initialData }: ImportInputProps) {
+  const router = useRouter();
   const [uploadState, setUploadState] = useState<UploadState>({ status: "idle" });
   const [showFullPreview, setShowFullPreview] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [importError, setImportError] = useState<string | null>(null);
 
   const eventSourceRef = useRef<EventSource | null>(null);
   const abortControllerRef = useRef<AbortController | null>(null);
@@ -57,6 +70,7 @@ export function ImportInput({ onNext, initialData }: ImportInputProps) {
   const handleFileSelect = useCallback(async (file: File) => {
     // Reset state
     setUploadState({ status: "uploading", progress: 0, filename: file.name });
+    const mimeType = resolveMimeType(file.name, file.type);
 
     // Create new abort controller
     abortControllerRef.current = new AbortController();
@@ -68,7 +82,7 @@ export function ImportInput({ onNext, initialData }: ImportInputProps) {
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           filename: file.name,
-          mimeType: file.type,
+          mimeType,
           size: file.size,
         }),
         signal: abortControllerRef.current.signal,
@@ -82,7 +96,7 @@ export function ImportInput({ onNext, initialData }: ImportInputProps) {
       const { uploadId, presignedUrl } = await presignResponse.json();
 
       // Step 2: Upload to S3 with progress
-      await uploadToS3WithProgress(file, presignedUrl, (progress) => {
+      await uploadToS3WithProgress(file, mimeType, presignedUrl, (progress) => {
         setUploadState({ status: "uploading", progress, filename: file.name });
       });
 
@@ -110,7 +124,7 @@ export function ImportInput({ onNext, initialData }: ImportInputProps) {
         message: "Ekstraherer tekst fra fil...",
       });
 
-      await subscribeToExtractionStatus(uploadId, file.name);
+      await subscribeToExtractionStatus(uploadId, file.name, mimeType);
     } catch (error) {
       if (error instanceof Error && error.name === "AbortError") {
         setUploadState({ status: "idle" });
@@ -127,6 +141,7 @@ export function ImportInput({ onNext, initialData }: ImportInputProps) {
 
   const uploadToS3WithProgress = (
     file: File,
+    mimeType: string,
     presignedUrl: string,
     onProgress: (progress: number) => void
   ): Promise<void> => {
@@ -157,7 +172,7 @@ export function ImportInput({ onNext, initialData }: ImportInputProps) {
       });
 
       xhr.open("PUT", presignedUrl);
-      xhr.setRequestHeader("Content-Type", file.type);
+      xhr.setRequestHeader("Content-Type", mimeType);
       xhr.send(file);
 
       // Store reference for potential abort
@@ -167,7 +182,11 @@ export function ImportInput({ onNext, initialData }: ImportInputProps) {
     });
   };
 
-  const subscribeToExtractionStatus = (uploadId: string, filename: string): Promise<void> => {
+  const subscribeToExtractionStatus = (
+    uploadId: string,
+    filename: string,
+    mimeType: string
+  ): Promise<void> => {
     return new Promise((resolve, reject) => {
       const eventSource = new EventSource(`/api/upload/${uploadId}/status`);
       eventSourceRef.current = eventSource;
@@ -189,6 +208,7 @@ export function ImportInput({ onNext, initialData }: ImportInputProps) {
         setUploadState({
           status: "ready",
           filename,
+          mimeType,
           extractedText: data.extractedText,
           charCount: data.charCount,
           truncated: data.truncated ?? false,
@@ -238,14 +258,46 @@ export function ImportInput({ onNext, initialData }: ImportInputProps) {
       abortControllerRef.current = null;
     }
     setUploadState({ status: "idle" });
+    setImportError(null);
+  };
+
+  const handleImportDeck = async () => {
+    if (uploadState.status !== "ready") return;
+
+    setIsImporting(true);
+    setImportError(null);
+
+    try {
+      const response = await fetch(`/api/upload/${uploadState.uploadId}/import`, {
+        method: "POST",
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error?.message ?? "Kunne ikke importere presentasjonen");
+      }
+
+      const { deckId } = await response.json();
+      router.push(`/deck/${deckId}`);
+    } catch (error) {
+      setImportError(
+        error instanceof Error ? error.message : "Kunne ikke importere presentasjonen"
+      );
+      setIsImporting(false);
+    }
   };
 
   const handleSubmit = () => {
     if (uploadState.status !== "ready") return;
 
+    // Markdown slide drafts map straight to slides; other files are condensed
+    const isSlideDraft =
+      uploadState.mimeType === MARKDOWN_MIME_TYPE &&
+      isMarkdownSlideInput(uploadState.extractedText);
+
     onNext({
       inputText: uploadState.extractedText,
-      textMode: "condense", // Default for file imports
+      textMode: isSlideDraft ? "preserve" : "condense",
       language: "no",
       sourceFileId: uploadState.uploadId,
     });
@@ -253,6 +305,7 @@ export function ImportInput({ onNext, initialData }: ImportInputProps) {
 
   const isReady = uploadState.status === "ready";
   const isProcessing = uploadState.status === "uploading" || uploadState.status === "processing";
+  const canImportDeck = isReady && uploadState.mimeType === PPTX_MIME_TYPE;
 
   return (
     <div className="max-w-3xl mx-auto">
@@ -454,10 +507,32 @@ export function ImportInput({ onNext, initialData }: ImportInputProps) {
 
           {/* Submit button */}
           {(isReady || isProcessing) && (
-            <div className="p-4 bg-gray-50 border-t border-gray-100">
+            <div className="p-4 bg-gray-50 border-t border-gray-100 space-y-3">
+              {canImportDeck && (
+                <div>
+                  <Button
+                    onClick={handleImportDeck}
+                    disabled={isImporting}
+                    variant="secondary"
+                    className="w-full py-3"
+                    size="lg"
+                  >
+                    {isImporting
+                      ? "Importerer lysbilder..."
+                      : "Importer som redigerbar presentasjon"}
+                  </Button>
+                  <p className="mt-2 text-xs text-gray-500 text-center">
+                    Beholder lysbildene, tabellene, bildene og notatene fra PowerPoint-filen.
+                    Fortsett for å lage en ny presentasjon fra teksten i stedet.
+                  </p>
+                  {importError && (
+                    <p className="mt-2 text-sm text-red-600 text-center">{importError}</p>
+                  )}
+                </div>
+              )}
               <Button
                 onClick={handleSubmit}
-                disabled={!isReady}
+                disabled={!isReady || isImporting}
                 className="
                   w-full py-3
                   bg-gradient-to-r from-emerald-600 to-teal-600
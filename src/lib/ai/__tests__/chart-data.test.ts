@@ -0,0 +1,205 @@
+import { describe, it, expect } from "vitest";
+import { analyzeContent, type DataSeries } from "../content-analysis";
+import {
+  applyChartToSlide,
+  dataSeriesToChartBlock,
+  findDataSeriesForSlide,
+  getChartHint,
+  isChartOutlineSlide,
+  normalizeChartBlock,
+  selectChartType,
+} from "../chart-data";
+import { validateChartData, validateSlide } from "../validation";
+import type { Slide } from "@/lib/schemas/slide";
+
+describe("Chart data", () => {
+  describe("analyzeContent data series", () => {
+    it("extracts a time series from a list with values", () => {
+      const { dataSeries } = analyzeContent(
+        "Omsetning 2024:\nQ1 2024: 12,5 MNOK\nQ2 2024: 15 MNOK\nQ3 2024: 18,2 MNOK\nQ4 2024: 22 MNOK"
+      );
+
+      expect(dataSeries).toHaveLength(1);
+      expect(dataSeries[0]).toMatchObject({
+        title: "Omsetning 2024",
+        kind: "time_series",
+        unit: "MNOK",
+        categories: ["Q1 2024", "Q2 2024", "Q3 2024", "Q4 2024"],
+      });
+      expect(dataSeries[0].series[0].values).toEqual([12.5, 15, 18.2, 22]);
+    });
+
+    it("extracts period values from running text", () => {
+      const { dataSeries } = analyzeContent(
+        "Omsetningen var 12 MNOK i Q1, 15 MNOK i Q2, 18 MNOK i Q3 og 22 MNOK i Q4. Vi er fornøyde."
+      );
+
+      expect(dataSeries[0].title).toBe("Omsetningen");
+      expect(dataSeries[0].categories).toEqual(["Q1", "Q2", "Q3", "Q4"]);
+      expect(dataSeries[0].series[0].values).toEqual([12, 15, 18, 22]);
+    });
+
+    it("extracts a category comparison", () => {
+      const { dataSeries } = analyzeContent(
+        "Markedsandel per region\n- Oslo: 45 %\n- Bergen: 30 %\n- Trondheim: 25 %"
+      );
+
+      expect(dataSeries[0].kind).toBe("comparison");
+      expect(dataSeries[0].unit).toBe("%");
+      expect(dataSeries[0].categories).toEqual(["Oslo", "Bergen", "Trondheim"]);
+    });
+
+    it("extracts one series per numeric table column", () => {
+      const { dataSeries } = analyzeContent(
+        "| Kvartal | Omsetning | Kostnader |\n|---|---|---|\n| Q1 | 12 | 8 |\n| Q2 | 15 | 9 |\n| Q3 | 1 200 | 10,5 |"
+      );
+
+      expect(dataSeries[0].series).toEqual([
+        { name: "Omsetning", values: [12, 15, 1200] },
+        { name: "Kostnader", values: [8, 9, 10.5] },
+      ]);
+    });
+
+    it("ignores text without a series of values", () => {
+      const { dataSeries } = analyzeContent(
+        "Vi har tre mål: vekst, lønnsomhet og kunder. Møtet starter kl 10:30 med 12 deltakere."
+      );
+
+      expect(dataSeries).toEqual([]);
+    });
+  });
+
+  describe("chart slide helpers", () => {
+    const revenue: DataSeries = {
+      title: "Omsetning 2024",
+      kind: "time_series",
+      unit: "MNOK",
+      categories: ["Q1", "Q2", "Q3", "Q4"],
+      series: [{ name: "Omsetning", values: [12, 15, 18, 22] }],
+    };
+    const shares: DataSeries = {
+      title: "Markedsandel",
+      kind: "comparison",
+      unit: "%",
+      categories: ["Oslo", "Bergen", "Trondheim"],
+      series: [{ name: "Andel", values: [45, 30, 25] }],
+    };
+
+    it("recognises chart hints and matches them to data series", () => {
+      const slide = { title: "Andeler", hints: [getChartHint(shares)] };
+
+      expect(isChartOutlineSlide(slide)).toBe(true);
+      expect(isChartOutlineSlide({ title: "Tekst", hints: ["Vekst"] })).toBe(false);
+      expect(findDataSeriesForSlide(slide, [revenue, shares])).toBe(shares);
+      expect(findDataSeriesForSlide(slide, [revenue, shares], new Set([shares]))).toBe(revenue);
+    });
+
+    it("picks chart types from the shape of the data", () => {
+      expect(selectChartType(revenue)).toBe("line");
+      expect(selectChartType(shares)).toBe("pie");
+      expect(selectChartType({ ...shares, unit: "MNOK" })).toBe("bar");
+    });
+
+    it("replaces the image with the extracted chart and keeps generated labels", () => {
+      const slide: Slide = {
+        type: "text_plus_image",
+        blocks: [
+          { kind: "title", text: "Omsetningen vokser" },
+          { kind: "image", url: "", alt: "Graf" },
+          {
+            kind: "chart",
+            chartType: "bar",
+            text: "Omsetning per kvartal",
+            categories: ["A"],
+            series: [{ name: "Oppdiktet", values: [99] }],
+          },
+        ],
+      };
+
+      const result = applyChartToSlide(slide, revenue);
+      const chart = result.blocks.find((b) => b.kind === "chart");
+
+      expect(result.blocks.some((b) => b.kind === "image")).toBe(false);
+      expect(chart?.text).toBe("Omsetning per kvartal");
+      expect(chart?.categories).toEqual(revenue.categories);
+      expect(chart?.series).toEqual(revenue.series);
+      expect(chart?.yAxisLabel).toBe("MNOK");
+    });
+
+    it("normalises inconsistent chart data", () => {
+      const chart = normalizeChartBlock({
+        kind: "chart",
+        chartType: "pie",
+        categories: ["A", "B", "A"],
+        series: [
+          { name: "S", values: [1, 2] },
+          { name: "S", values: [1, 2, 3, 4] },
+        ],
+      });
+
+      expect(validateChartData(chart)).toEqual([]);
+      expect(chart.chartType).toBe("bar");
+      expect(chart.categories).toEqual(["A", "B", "A (2)"]);
+      expect(chart.series?.map((s) => s.values)).toEqual([
+        [1, 2, 0],
+        [1, 2, 3],
+      ]);
+    });
+
+    it("builds valid chart blocks from extracted data", () => {
+      expect(validateChartData(dataSeriesToChartBlock(revenue))).toEqual([]);
+      expect(validateChartData(dataSeriesToChartBlock(shares))).toEqual([]);
+    });
+  });
+
+  describe("validateChartData", () => {
+    it("reports series that do not match the categories", () => {
+      const issues = validateChartData({
+        kind: "chart",
+        chartType: "bar",
+        categories: ["Q1", "Q2", "Q3"],
+        series: [{ name: "Omsetning", values: [1, 2] }],
+      });
+
+      expect(issues).toEqual(['Series "Omsetning" has 2 values but the chart has 3 categories']);
+    });
+
+    it("reports pie charts that cannot be drawn", () => {
+      const issues = validateChartData({
+        kind: "chart",
+        chartType: "pie",
+        categories: ["A", "B"],
+        series: [
+          { name: "X", values: [1, -2] },
+          { name: "Y", values: [3, 4] },
+        ],
+      });
+
+      expect(issues).toHaveLength(2);
+    });
+
+    it("adds a fix_data violation to slide validation", () => {
+      const result = validateSlide(
+        {
+          type: "text_plus_image",
+          blocks: [
+            { kind: "title", text: "Omsetning per kvartal i 2024" },
+            { kind: "text", text: "Omsetningen økte gjennom hele året." },
+            {
+              kind: "chart",
+              chartType: "line",
+              categories: ["Q1", "Q2"],
+              series: [{ name: "Omsetning", values: [1] }],
+            },
+          ],
+        },
+        0,
+        false
+      );
+
+      expect(result.violations).toContainEqual(
+        expect.objectContaining({ field: "charts[0]", action: "fix_data" })
+      );
+    });
+  });
+});
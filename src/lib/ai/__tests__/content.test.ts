@@ -118,6 +118,28 @@ describe("Content Prompts", () => {
       const prompt = buildContentSystemPrompt(baseOutlineSlide, baseRequest, 0, 5);
       expect(prompt).toContain("Norwegian (Bokmål)");
     });
+    it("asks for a chart block with the extracted data on chart slides", () => {
+      const prompt = buildContentSystemPrompt(
+        {
+          title: "Omsetningen vokser",
+          suggestedType: "text_plus_image",
+          hints: ["Diagram: Omsetning"],
+        },
+        baseRequest,
+        1,
+        5,
+        {
+          title: "Omsetning",
+          kind: "time_series",
+          unit: "MNOK",
+          categories: ["Q1", "Q2", "Q3"],
+          series: [{ name: "Omsetning", values: [12, 15, 18] }],
+        }
+      );
+      expect(prompt).toContain('"kind": "chart"');
+      expect(prompt).toContain("do NOT include an image block");
+      expect(prompt).toContain('"values":[12,15,18]');
+    });
   });
 
   describe("buildContentUserPrompt", () => {
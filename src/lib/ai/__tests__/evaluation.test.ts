@@ -0,0 +1,175 @@
+/**
+ * Generation Evaluation Tests
+ */
+
+import { describe, it, expect } from "vitest";
+import { readFileSync } from "fs";
+import { join } from "path";
+import type { Deck, GenerationRequest } from "@/lib/schemas/deck";
+import { GenerationRequestSchema } from "@/lib/schemas/deck";
+import { MockLLMClient } from "../mock-llm";
+import {
+  compareReports,
+  detectLanguage,
+  formatReport,
+  getSlideCountTarget,
+  loadEvalCases,
+  runEvaluation,
+  scoreDeck,
+  type EvalReport,
+} from "../evaluation";
+
+const exampleDeck: Deck = JSON.parse(
+  readFileSync(join(process.cwd(), "testdata/fixtures/deck-example.json"), "utf-8")
+);
+
+const request = (fields: Partial<GenerationRequest> = {}): GenerationRequest =>
+  GenerationRequestSchema.parse({ inputText: "Møtenotater", textMode: "condense", ...fields });
+
+function report(label: string, scores: Record<string, number | null>): EvalReport {
+  const results = Object.entries(scores).map(([id, overall]) =>
+    overall === null
+      ? { id, durationMs: 0, error: "Generation failed" }
+      : { id, durationMs: 0, scores: { ...scoreDeck(exampleDeck, request()), overall } }
+  );
+  const scored = Object.values(scores).filter((s): s is number => s !== null);
+
+  return {
+    label,
+    createdAt: "2026-10-19T00:00:00.000Z",
+    meta: {},
+    results,
+    skipped: [],
+    summary: {
+      cases: results.length,
+      failed: results.length - scored.length,
+      overall: scored.reduce((sum, s) => sum + s, 0) / scored.length,
+      validSlideRatio: 1,
+      meanDensity: 0.5,
+      slideCountError: 0,
+      violations: 0,
+    },
+  };
+}
+
+describe("evaluation", () => {
+  describe("getSlideCountTarget", () => {
+    it("uses numSlides when given, else the range for the amount", () => {
+      expect(getSlideCountTarget(request({ numSlides: 8 }))).toEqual([8, 8]);
+      expect(getSlideCountTarget(request({ amount: "brief" }))).toEqual([4, 8]);
+      expect(getSlideCountTarget(request())).toEqual([6, 11]);
+    });
+  });
+
+  describe("detectLanguage", () => {
+    it("detects Norwegian and English", () => {
+      expect(
+        detectLanguage("Vi skal lansere produktet i januar, og det er viktig å teste med brukere")
+      ).toBe("no");
+      expect(
+        detectLanguage("We will launch the product in January, and it is important to test it")
+      ).toBe("en");
+    });
+
+    it("returns null for text too short to classify", () => {
+      expect(detectLanguage("Agenda")).toBeNull();
+    });
+  });
+
+  describe("scoreDeck", () => {
+    it("scores the example deck", () => {
+      const scores = scoreDeck(exampleDeck, request({ language: "no" }));
+
+      expect(scores.slideCount).toBe(exampleDeck.slides.length);
+      expect(scores.slideCountTarget).toEqual([6, 11]);
+      expect(scores.violations).toBe(0);
+      expect(scores.validSlideRatio).toBe(1);
+      expect(scores.sparseSlides).toBeGreaterThan(0);
+      expect(scores.uniqueTypes).toBeGreaterThan(1);
+      expect(scores.overall).toBeGreaterThan(0);
+      expect(scores.overall).toBeLessThanOrEqual(100);
+    });
+
+    it("penalises decks in the wrong language and with the wrong slide count", () => {
+      const matching = scoreDeck(exampleDeck, request({ language: "no" }));
+      const mismatched = scoreDeck(exampleDeck, request({ language: "en", numSlides: 20 }));
+
+      expect(matching.languageMatchRatio).toBeGreaterThan(mismatched.languageMatchRatio!);
+      expect(mismatched.slideCountError).toBe(20 - exampleDeck.slides.length);
+      expect(mismatched.overall).toBeLessThan(matching.overall);
+    });
+
+    it("skips the language check for unsupported languages", () => {
+      expect(scoreDeck(exampleDeck, request({ language: "fi" })).languageMatchRatio).toBeNull();
+    });
+  });
+
+  describe("loadEvalCases", () => {
+    it("loads the cases in testdata/prompts", async () => {
+      const cases = await loadEvalCases();
+
+      expect(cases.length).toBeGreaterThan(0);
+      for (const evalCase of cases) {
+        expect(evalCase.request.inputText.length).toBeGreaterThan(0);
+      }
+    });
+  });
+
+  describe("runEvaluation", () => {
+    it("scores generated decks and records failures", async () => {
+      const cases = (await loadEvalCases()).filter((c) => c.id === "meeting-notes");
+
+      const generated = await runEvaluation(cases, () => new MockLLMClient(), { label: "mock" });
+      const failed = await runEvaluation(
+        cases,
+        () => {
+          throw new Error("no client");
+        },
+        { label: "broken" }
+      );
+
+      expect(generated.results[0].scores?.slideCount).toBeGreaterThan(0);
+      expect(generated.summary).toMatchObject({ cases: 1, failed: 0 });
+      expect(failed.results[0].error).toBe("no client");
+      expect(failed.summary).toMatchObject({ cases: 1, failed: 1 });
+    }, 30_000);
+  });
+
+  describe("compareReports", () => {
+    it("reports overall and per-case deltas", () => {
+      const comparison = compareReports(
+        report("baseline", { a: 60, b: 80, c: 50 }),
+        report("current", { a: 70, b: 75, c: null })
+      );
+
+      // c failed in the current run and counts as 0 instead of dropping out of the mean
+      expect(comparison.overallDelta).toBeCloseTo((10 - 5 - 50) / 3);
+      expect(comparison.sharedCases).toBe(3);
+      expect(comparison.cases).toEqual([
+        { id: "a", baseline: 60, current: 70, delta: 10 },
+        { id: "b", baseline: 80, current: 75, delta: -5 },
+        { id: "c", baseline: 50, current: undefined, delta: undefined },
+      ]);
+    });
+
+    it("leaves cases out of the overall delta when a run skipped them", () => {
+      const current = { ...report("current", { a: 70 }), skipped: ["b"] };
+      const comparison = compareReports(report("baseline", { a: 60, b: 20 }), current);
+
+      expect(comparison.overallDelta).toBe(10);
+      expect(comparison.sharedCases).toBe(1);
+      expect(formatReport(current, report("baseline", { a: 60, b: 20 }))).toContain(
+        "0 of 1 cases failed, 1 skipped"
+      );
+    });
+
+    it("formats deltas in the Markdown report", () => {
+      const text = formatReport(report("current", { a: 70 }), report("baseline", { a: 60 }));
+
+      expect(text).toContain(`| a | 70.0 | +10.0 | ${exampleDeck.slides.length} | 6–11 |`);
+      expect(text).toContain(
+        "Overall: 70.0 (+10.0 vs baseline over 1 shared cases) — 0 of 1 cases failed, 0 skipped"
+      );
+    });
+  });
+});
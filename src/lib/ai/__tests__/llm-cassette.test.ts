@@ -0,0 +1,168 @@
+/**
+ * LLM Cassette Tests
+ *
+ * Record/replay mechanics, and the full pipeline replayed offline against
+ * every cassette in testdata/fixtures/cassettes.
+ */
+
+import { describe, it, expect } from "vitest";
+import { existsSync, readdirSync } from "fs";
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { z, ZodSchema } from "zod";
+import { LLMError, type LLMClient } from "../llm-client";
+import { LLMCassette, RecordingLLMClient, ReplayLLMClient, getPromptHash } from "../llm-cassette";
+import { GenerationPipeline } from "../pipeline";
+import { DeckSchema, GenerationRequestSchema } from "@/lib/schemas/deck";
+
+const CASSETTE_DIR = join(process.cwd(), "testdata/fixtures/cassettes");
+const CASSETTE_FILES = existsSync(CASSETTE_DIR)
+  ? readdirSync(CASSETTE_DIR).filter((file) => file.endsWith(".json"))
+  : [];
+
+const TitleSchema = z.object({ title: z.string() });
+
+/**
+ * Client answering from a list of responses, failing with LLMError for Error entries
+ */
+function scriptedClient(responses: unknown[]): LLMClient & { calls: number } {
+  const client = {
+    calls: 0,
+    async generateJSON<T>(_system: string, _user: string, schema: ZodSchema<T>): Promise<T> {
+      const response = responses[client.calls++];
+      if (response instanceof Error) {
+        throw new LLMError(response.message, "INVALID_RESPONSE");
+      }
+      return schema.parse(response);
+    },
+    generateJSONStreaming<T>(system: string, user: string, schema: ZodSchema<T>): Promise<T> {
+      return client.generateJSON(system, user, schema);
+    },
+  };
+  return client;
+}
+
+describe("LLM cassettes", () => {
+  it("replays recorded responses without calling the model", async () => {
+    const cassette = new LLMCassette("unused.json");
+    const inner = scriptedClient([{ title: "Kvartalsrapport" }]);
+
+    await new RecordingLLMClient(inner, cassette).generateJSON("system", "Q3", TitleSchema);
+    const replayed = await new ReplayLLMClient(cassette).generateJSON("system", "Q3", TitleSchema);
+
+    expect(replayed).toEqual({ title: "Kvartalsrapport" });
+    expect(inner.calls).toBe(1);
+  });
+
+  it("replays repeated prompts in order and then repeats the last response", async () => {
+    const cassette = new LLMCassette("unused.json");
+    const recorder = new RecordingLLMClient(
+      scriptedClient([{ title: "Første" }, { title: "Andre" }]),
+      cassette
+    );
+    await recorder.generateJSON("system", "Q3", TitleSchema);
+    await recorder.generateJSON("system", "Q3", TitleSchema);
+
+    const replay = new ReplayLLMClient(cassette);
+    const titles = [];
+    for (let i = 0; i < 3; i++) {
+      titles.push((await replay.generateJSON("system", "Q3", TitleSchema)).title);
+    }
+
+    expect(titles).toEqual(["Første", "Andre", "Andre"]);
+  });
+
+  it("replays recorded LLM errors", async () => {
+    const cassette = new LLMCassette("unused.json");
+    await new RecordingLLMClient(scriptedClient([new Error("bad output")]), cassette)
+      .generateJSON("system", "Q3", TitleSchema)
+      .catch(() => undefined);
+
+    const error = await new ReplayLLMClient(cassette)
+      .generateJSON("system", "Q3", TitleSchema)
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(LLMError);
+    expect((error as LLMError).code).toBe("INVALID_RESPONSE");
+    expect((error as LLMError).message).toBe("bad output");
+  });
+
+  it("fails for prompts without a recording", async () => {
+    const replay = new ReplayLLMClient(new LLMCassette("empty.json"));
+    const error = await replay.generateJSON("system", "Q4", TitleSchema).catch((e: unknown) => e);
+
+    expect((error as LLMError).code).toBe("MODEL_ERROR");
+    expect((error as LLMError).message).toContain(getPromptHash("system", "Q4"));
+    expect(replay.misses).toEqual([getPromptHash("system", "Q4")]);
+  });
+
+  it("validates replayed responses against the current schema", async () => {
+    const cassette = new LLMCassette("unused.json");
+    cassette.record("system", "Q3", { response: { heading: "Gammelt format" } });
+
+    const error = await new ReplayLLMClient(cassette)
+      .generateJSON("system", "Q3", TitleSchema)
+      .catch((e: unknown) => e);
+
+    expect((error as LLMError).code).toBe("INVALID_RESPONSE");
+  });
+
+  it("streams replayed responses", async () => {
+    const cassette = new LLMCassette("unused.json");
+    cassette.record("system", "Q3", { response: { title: "En lang tittel for strømming" } });
+    const tokens: string[] = [];
+    let completed: unknown;
+
+    const result = await new ReplayLLMClient(cassette).generateJSONStreaming(
+      "system",
+      "Q3",
+      TitleSchema,
+      { onToken: (token) => tokens.push(token), onComplete: (value) => (completed = value) }
+    );
+
+    expect(tokens.join("")).toBe(JSON.stringify(result));
+    expect(completed).toEqual({ title: "En lang tittel for strømming" });
+  });
+
+  it("saves and loads cassettes", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "llm-cassette-"));
+    try {
+      const cassette = new LLMCassette(join(dir, "nested", "test.json"), { provider: "openai" });
+      cassette.record("system", "Q3", { response: { title: "Kvartalsrapport" } });
+      await cassette.save();
+
+      const loaded = await LLMCassette.load(cassette.path);
+
+      expect(loaded.meta).toEqual({ provider: "openai" });
+      expect(loaded.next("system", "Q3")).toEqual({ response: { title: "Kvartalsrapport" } });
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  describe.each(CASSETTE_FILES)("pipeline replay of %s", (file) => {
+    it("was recorded with a real provider", async () => {
+      const cassette = await LLMCassette.load(join(CASSETTE_DIR, file));
+
+      // Mock recordings only replay the hand-written fixtures in mock-llm.ts
+      expect(cassette.meta.provider).toBeDefined();
+      expect(cassette.meta.provider).not.toBe("mock");
+    });
+
+    it("generates a valid deck offline", async () => {
+      const cassette = await LLMCassette.load(join(CASSETTE_DIR, file));
+      const request = GenerationRequestSchema.parse(cassette.meta.request);
+      const replay = new ReplayLLMClient(cassette);
+      const pipeline = new GenerationPipeline({ llmClient: replay });
+
+      const { outline, deck } = await pipeline.generate(request);
+
+      // A miss means the prompts changed since recording
+      expect(replay.misses).toEqual([]);
+      expect(DeckSchema.safeParse(deck).success).toBe(true);
+      expect(deck.slides.length).toBe(outline.slides.length);
+      expect(deck.deck.title).toBe(outline.title);
+    });
+  });
+});
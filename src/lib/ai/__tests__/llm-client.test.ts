@@ -1,6 +1,7 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 import { z } from "zod";
-import { getLLMClient, LLMError, OpenAIClient } from "../llm-client";
+import { LLMError, OpenAIClient } from "../llm-client";
+import { getLLMClient } from "../llm-providers";
 import { MockLLMClient } from "../mock-llm";
 
 describe("LLM Client", () => {
@@ -0,0 +1,343 @@
+/**
+ * LLM Provider Tests
+ *
+ * Contract suite every registered provider must pass, run against a fake
+ * HTTP server speaking the provider's wire format.
+ */
+
+import { describe, it, expect } from "vitest";
+import { z } from "zod";
+import { LLMError, OpenAIClient, type TokenUsage } from "../llm-client";
+import { AnthropicClient } from "../anthropic-client";
+import { MockLLMClient } from "../mock-llm";
+import {
+  getLLMClient,
+  getLLMProvider,
+  listLLMProviders,
+  registerLLMProvider,
+  resolveLLMSelection,
+  type LLMEnv,
+} from "../llm-providers";
+
+type Wire = "openai" | "anthropic";
+
+interface RecordedRequest {
+  url: string;
+  body: Record<string, unknown>;
+}
+
+interface ContractCase {
+  env: LLMEnv;
+  wire: Wire;
+  model: string;
+  urlPrefix: string;
+}
+
+const CONTRACT_CASES: Record<string, ContractCase> = {
+  openai: {
+    env: { OPENAI_API_KEY: "test-key", OPENAI_MODEL: "gpt-test" },
+    wire: "openai",
+    model: "gpt-test",
+    urlPrefix: "https://api.openai.com/v1/chat/completions",
+  },
+  azure_openai: {
+    env: {
+      AZURE_OPENAI_API_KEY: "test-key",
+      AZURE_OPENAI_ENDPOINT: "https://example.openai.azure.com",
+      AZURE_OPENAI_DEPLOYMENT: "gpt-deployment",
+    },
+    wire: "openai",
+    model: "gpt-deployment",
+    urlPrefix:
+      "https://example.openai.azure.com/openai/deployments/gpt-deployment/chat/completions",
+  },
+  anthropic: {
+    env: { ANTHROPIC_API_KEY: "test-key", ANTHROPIC_MODEL: "claude-test" },
+    wire: "anthropic",
+    model: "claude-test",
+    urlPrefix: "https://api.anthropic.com/v1/messages",
+  },
+  openai_compatible: {
+    env: { LLM_COMPATIBLE_BASE_URL: "http://localhost:11434/v1", LLM_COMPATIBLE_MODEL: "llama3" },
+    wire: "openai",
+    model: "llama3",
+    urlPrefix: "http://localhost:11434/v1/chat/completions",
+  },
+};
+
+const OutlineSchema = z.object({
+  title: z.string(),
+  slides: z.array(z.string()),
+});
+
+const OUTLINE = { title: "Kvartalsrapport", slides: ["Resultater", "Veien videre"] };
+
+function completionBody(wire: Wire, content: string): unknown {
+  return wire === "openai"
+    ? {
+        id: "chatcmpl-1",
+        object: "chat.completion",
+        created: 0,
+        model: "test",
+        choices: [{ index: 0, message: { role: "assistant", content }, finish_reason: "stop" }],
+        usage: { prompt_tokens: 12, completion_tokens: 34, total_tokens: 46 },
+      }
+    : {
+        id: "msg_1",
+        type: "message",
+        role: "assistant",
+        model: "test",
+        content: [{ type: "text", text: content }],
+        stop_reason: "end_turn",
+        usage: { input_tokens: 12, output_tokens: 34 },
+      };
+}
+
+function streamBody(wire: Wire, pieces: string[]): string {
+  const chunk = { id: "chatcmpl-1", object: "chat.completion.chunk", created: 0, model: "test" };
+  const events =
+    wire === "openai"
+      ? [
+          ...pieces.map((piece) => ({
+            ...chunk,
+            choices: [{ index: 0, delta: { content: piece }, finish_reason: null }],
+          })),
+          {
+            ...chunk,
+            choices: [],
+            usage: { prompt_tokens: 12, completion_tokens: 34, total_tokens: 46 },
+          },
+        ]
+      : [
+          {
+            type: "message_start",
+            message: { id: "msg_1", content: [], usage: { input_tokens: 12, output_tokens: 1 } },
+          },
+          ...pieces.map((piece) => ({
+            type: "content_block_delta",
+            index: 0,
+            delta: { type: "text_delta", text: piece },
+          })),
+          {
+            type: "message_delta",
+            delta: { stop_reason: "end_turn" },
+            usage: { output_tokens: 34 },
+          },
+          { type: "message_stop" },
+        ];
+
+  const lines = events.map(
+    (event) => `data: ${JSON.stringify(event)}
+
+`
+  );
+  return lines.join("") + (wire === "openai" ? "data: [DONE]\n\n" : "");
+}
+
+/**
+ * Fake server answering every request with the given content, as a stream
+ * when the request asks for one
+ */
+function fakeServer(wire: Wire, content: string) {
+  const requests: RecordedRequest[] = [];
+
+  const fetchImpl = (async (input: string | URL | Request, init?: RequestInit) => {
+    const body = JSON.parse(String(init?.body)) as Record<string, unknown>;
+    requests.push({ url: String(input), body });
+
+    if (body.stream) {
+      const pieces = content.match(/.{1,8}/g) ?? [];
+      return new Response(streamBody(wire, pieces), {
+        headers: { "content-type": "text/event-stream" },
+      });
+    }
+    return new Response(JSON.stringify(completionBody(wire, content)), {
+      headers: { "content-type": "application/json" },
+    });
+  }) as typeof fetch;
+
+  return { fetch: fetchImpl, requests };
+}
+
+function createClient(id: string, content: string) {
+  const server = fakeServer(CONTRACT_CASES[id].wire, content);
+  const usage: TokenUsage[] = [];
+  const client = getLLMProvider(id)!.create(CONTRACT_CASES[id].env, {
+    fetch: server.fetch,
+    onUsage: (tokens) => usage.push(tokens),
+  });
+  return { client, requests: server.requests, usage };
+}
+
+describe("LLM providers", () => {
+  it("has a contract case for every registered provider", () => {
+    expect(
+      listLLMProviders()
+        .map((provider) => provider.id)
+        .sort()
+    ).toEqual(Object.keys(CONTRACT_CASES).sort());
+  });
+
+  describe.each(Object.keys(CONTRACT_CASES))("%s contract", (id) => {
+    const { model, urlPrefix } = CONTRACT_CASES[id];
+
+    it("returns schema-validated JSON", async () => {
+      const { client, requests } = createClient(id, JSON.stringify(OUTLINE));
+
+      const result = await client.generateJSON("Lag en disposisjon", "Q3-tall", OutlineSchema);
+
+      expect(result).toEqual(OUTLINE);
+      expect(requests).toHaveLength(1);
+      expect(requests[0].url.startsWith(urlPrefix)).toBe(true);
+      expect(requests[0].body.model).toBe(model);
+      expect(JSON.stringify(requests[0].body)).toContain("Lag en disposisjon");
+      expect(JSON.stringify(requests[0].body)).toContain("Q3-tall");
+    });
+
+    it("streams tokens and partial JSON", async () => {
+      const { client, requests } = createClient(id, JSON.stringify(OUTLINE));
+      const tokens: string[] = [];
+      const partials: unknown[] = [];
+      let completed: unknown;
+
+      const result = await client.generateJSONStreaming("Lag en disposisjon", "Q3", OutlineSchema, {
+        onToken: (token) => tokens.push(token),
+        onPartialJSON: (partial) => partials.push(partial),
+        onComplete: (value) => (completed = value),
+      });
+
+      expect(result).toEqual(OUTLINE);
+      expect(completed).toEqual(OUTLINE);
+      expect(tokens.join("")).toBe(JSON.stringify(OUTLINE));
+      expect(partials.length).toBeGreaterThan(1);
+      expect(requests).toHaveLength(1);
+      expect(requests[0].body.stream).toBe(true);
+    });
+
+    it("reports token usage", async () => {
+      const { client, usage } = createClient(id, JSON.stringify(OUTLINE));
+
+      await client.generateJSON("Lag en disposisjon", "Q3", OutlineSchema);
+      await client.generateJSONStreaming("Lag en disposisjon", "Q3", OutlineSchema, {});
+
+      expect(usage).toEqual([
+        { promptTokens: 12, completionTokens: 34 },
+        { promptTokens: 12, completionTokens: 34 },
+      ]);
+    });
+
+    it("rejects responses that do not match the schema", async () => {
+      const { client } = createClient(id, JSON.stringify({ title: 42 }));
+
+      const error = await client
+        .generateJSON("Lag en disposisjon", "Q3", OutlineSchema)
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(LLMError);
+      expect((error as LLMError).code).toBe("INVALID_RESPONSE");
+    });
+
+    it("reports responses that are not JSON", async () => {
+      const { client } = createClient(id, "Beklager, det kan jeg ikke.");
+
+      const error = await client
+        .generateJSON("Lag en disposisjon", "Q3", OutlineSchema)
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(LLMError);
+      expect((error as LLMError).code).toBe("PARSE_ERROR");
+    });
+  });
+
+  describe("AnthropicClient", () => {
+    it("accepts JSON wrapped in a code fence", async () => {
+      const { client } = createClient("anthropic", "```json\n" + JSON.stringify(OUTLINE) + "\n```");
+
+      expect(await client.generateJSON("Lag en disposisjon", "Q3", OutlineSchema)).toEqual(OUTLINE);
+    });
+
+    it("maps rate limiting to RATE_LIMITED", async () => {
+      const client = new AnthropicClient({
+        apiKey: "test-key",
+        maxRetries: 1,
+        fetch: (async () => new Response("slow down", { status: 429 })) as typeof fetch,
+      });
+
+      const error = await client
+        .generateJSON("Lag en disposisjon", "Q3", OutlineSchema)
+        .catch((e: unknown) => e);
+
+      expect((error as LLMError).code).toBe("RATE_LIMITED");
+    });
+  });
+
+  describe("getLLMClient", () => {
+    it("returns MockLLMClient when FAKE_LLM=true", () => {
+      expect(getLLMClient({ provider: "anthropic" }, { FAKE_LLM: "true" })).toBeInstanceOf(
+        MockLLMClient
+      );
+    });
+
+    it("uses LLM_PROVIDER from the environment", () => {
+      const client = getLLMClient({}, { LLM_PROVIDER: "anthropic", ANTHROPIC_API_KEY: "key" });
+
+      expect(client).toBeInstanceOf(AnthropicClient);
+    });
+
+    it("lets options override the environment provider", () => {
+      const client = getLLMClient(
+        { provider: "openai_compatible", model: "qwen2.5" },
+        { LLM_PROVIDER: "anthropic", LLM_COMPATIBLE_BASE_URL: "http://vllm:8000/v1" }
+      );
+
+      expect(client).toBeInstanceOf(OpenAIClient);
+    });
+
+    it("reports missing configuration", () => {
+      expect(() =>
+        getLLMClient({ provider: "azure_openai" }, { AZURE_OPENAI_API_KEY: "key" })
+      ).toThrow("AZURE_OPENAI_DEPLOYMENT environment variable is required");
+      expect(() => getLLMClient({ provider: "openai_compatible" }, {})).toThrow(
+        "LLM_COMPATIBLE_BASE_URL environment variable is required"
+      );
+    });
+
+    it("resolves the provider, model and temperature a client uses", () => {
+      expect(resolveLLMSelection({}, { OPENAI_API_KEY: "key" })).toEqual({
+        provider: "openai",
+        model: "gpt-4o",
+        temperature: 0.7,
+      });
+      expect(
+        resolveLLMSelection(
+          { provider: "anthropic", temperature: 0.2 },
+          { ANTHROPIC_MODEL: "claude-test" }
+        )
+      ).toEqual({ provider: "anthropic", model: "claude-test", temperature: 0.2 });
+      expect(resolveLLMSelection({ model: "gpt-4o-mini" }, { FAKE_LLM: "true" }).provider).toBe(
+        "mock"
+      );
+    });
+
+    it("rejects unknown providers", () => {
+      expect(() => getLLMClient({ provider: "palm" }, {})).toThrow('Unknown LLM provider "palm"');
+    });
+
+    it("creates clients from registered providers", () => {
+      const custom = new MockLLMClient();
+      const unregister = registerLLMProvider({
+        id: "test_custom",
+        label: "Test",
+        defaultModel: () => "test-model",
+        create: () => custom,
+      });
+
+      try {
+        expect(getLLMClient({ provider: "test_custom" }, {})).toBe(custom);
+      } finally {
+        unregister();
+      }
+      expect(getLLMProvider("test_custom")).toBeUndefined();
+    });
+  });
+});
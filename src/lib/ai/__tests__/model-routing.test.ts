@@ -0,0 +1,124 @@
+/**
+ * Model Routing Tests
+ */
+
+import { describe, it, expect } from "vitest";
+import { OpenAIClient } from "../llm-client";
+import { AnthropicClient } from "../anthropic-client";
+import {
+  createPipelineLLMs,
+  getEnvModelRouting,
+  mergeModelRouting,
+  resolveStageOptions,
+} from "../model-routing";
+
+const ENV = { OPENAI_API_KEY: "test-key", ANTHROPIC_API_KEY: "test-key" };
+
+describe("model-routing", () => {
+  describe("resolveStageOptions", () => {
+    const base = { provider: "openai", model: "gpt-4o" };
+
+    it("uses the base options for stages without routing", () => {
+      expect(resolveStageOptions(base, { repair: { model: "gpt-4o-mini" } }, "outline")).toEqual(
+        base
+      );
+    });
+
+    it("overrides model and temperature per stage", () => {
+      expect(
+        resolveStageOptions(base, { repair: { model: "gpt-4o-mini", temperature: 0.2 } }, "repair")
+      ).toEqual({ provider: "openai", model: "gpt-4o-mini", temperature: 0.2 });
+    });
+
+    it("does not carry the base model over to another provider", () => {
+      expect(resolveStageOptions(base, { outline: { provider: "anthropic" } }, "outline")).toEqual({
+        provider: "anthropic",
+        model: undefined,
+        temperature: undefined,
+      });
+    });
+
+    it("falls back from a transformation type to all transformations", () => {
+      const routing = {
+        transform: { model: "gpt-4o-mini" },
+        "transform.translate_en": { model: "gpt-4o" },
+      };
+
+      expect(resolveStageOptions({}, routing, "transform.simplify").model).toBe("gpt-4o-mini");
+      expect(resolveStageOptions({}, routing, "transform.translate_en").model).toBe("gpt-4o");
+    });
+
+    it("tags reported usage with the route key", () => {
+      const reported: unknown[] = [];
+      const options = resolveStageOptions(
+        { onUsage: (usage) => reported.push(usage) },
+        {},
+        "transform.simplify"
+      );
+      const usage = { provider: "openai", model: "gpt-4o", temperature: 0.7 };
+
+      options.onUsage?.({ ...usage, promptTokens: 10, completionTokens: 5 });
+
+      expect(reported).toEqual([
+        { ...usage, promptTokens: 10, completionTokens: 5, stage: "transform.simplify" },
+      ]);
+    });
+  });
+
+  describe("getEnvModelRouting", () => {
+    it("parses LLM_MODEL_ROUTING", () => {
+      expect(
+        getEnvModelRouting({ LLM_MODEL_ROUTING: '{"repair":{"model":"gpt-4o-mini"}}' })
+      ).toEqual({ repair: { model: "gpt-4o-mini" } });
+      expect(getEnvModelRouting({})).toEqual({});
+    });
+
+    it("rejects malformed routing", () => {
+      expect(() => getEnvModelRouting({ LLM_MODEL_ROUTING: "repair=mini" })).toThrow(
+        "LLM_MODEL_ROUTING must be a JSON object"
+      );
+      expect(() =>
+        getEnvModelRouting({ LLM_MODEL_ROUTING: '{"reapir":{"model":"gpt-4o-mini"}}' })
+      ).toThrow("Invalid LLM_MODEL_ROUTING");
+    });
+  });
+
+  describe("mergeModelRouting", () => {
+    it("lets later layers replace stages", () => {
+      expect(
+        mergeModelRouting({ outline: { model: "a" }, repair: { model: "b" } }, null, {
+          repair: { temperature: 0 },
+        })
+      ).toEqual({ outline: { model: "a" }, repair: { temperature: 0 } });
+    });
+  });
+
+  describe("createPipelineLLMs", () => {
+    it("resolves a client and selection for every stage", () => {
+      const { clients, selections } = createPipelineLLMs(
+        {},
+        {
+          outline: { provider: "anthropic", model: "claude-test" },
+          repair: { model: "gpt-4o-mini", temperature: 0.2 },
+          split: { model: "gpt-4o-mini", temperature: 0.2 },
+        },
+        ENV
+      );
+
+      expect(selections.outline).toEqual({
+        provider: "anthropic",
+        model: "claude-test",
+        temperature: 0.7,
+      });
+      expect(selections.content).toEqual({ provider: "openai", model: "gpt-4o", temperature: 0.7 });
+      expect(selections.repair).toEqual({
+        provider: "openai",
+        model: "gpt-4o-mini",
+        temperature: 0.2,
+      });
+
+      expect(clients.outline).toBeInstanceOf(AnthropicClient);
+      expect(clients.content).toBeInstanceOf(OpenAIClient);
+    });
+  });
+});
@@ -1,5 +1,6 @@
 import { describe, it, expect } from "vitest";
 import { buildOutlineSystemPrompt, buildOutlineUserPrompt } from "../prompts/outline";
+import { analyzeContent } from "../content-analysis";
 import type { GenerationRequest } from "@/lib/schemas/deck";
 
 describe("Outline Prompts", () => {
@@ -114,6 +115,16 @@ describe("Outline Prompts", () => {
       expect(prompt).toContain("quote_callout");
     });
 
+    it("asks for a chart slide when the analysis finds data series", () => {
+      const request = {
+        ...baseRequest,
+        inputText: "Omsetning:\nQ1: 12 MNOK\nQ2: 15 MNOK\nQ3: 18 MNOK",
+      };
+      const prompt = buildOutlineSystemPrompt(request, analyzeContent(request.inputText));
+      expect(prompt).toContain("Data series: Omsetning (MNOK) [3 points]");
+      expect(prompt).toContain('"Diagram: <series name>" hint');
+    });
+
     it("includes JSON output format instructions", () => {
       const prompt = buildOutlineSystemPrompt(baseRequest);
       expect(prompt).toContain("Return ONLY valid JSON");
@@ -7,6 +7,7 @@ import {
 } from "../pipeline";
 import { MockLLMClient } from "../mock-llm";
 import type { GenerationRequest } from "@/lib/schemas/deck";
+import { getGoldenTemplate, listGoldenTemplateIds, type DeckTemplate } from "@/lib/templates";
 
 describe("Generation Pipeline", () => {
   const baseRequest: GenerationRequest = {
@@ -143,6 +144,311 @@ describe("Generation Pipeline", () => {
     });
   });
 
+  describe("generateFromTemplate", () => {
+    it("registers every golden template ID", () => {
+      expect(listGoldenTemplateIds().sort()).toEqual([
+        "executive_brief",
+        "feature_showcase",
+        "project_update",
+      ]);
+    });
+
+    it.each(["executive_brief", "feature_showcase", "project_update"] as const)(
+      "generates one slide per slot for %s",
+      async (templateId) => {
+        const template = getGoldenTemplate(templateId)!;
+        const deck = await pipeline.generateFromTemplate({ ...baseRequest, templateId });
+
+        expect(template.slots).toHaveLength(template.slideCount);
+        expect(deck.slides).toHaveLength(template.slideCount);
+        deck.slides.forEach((slide, index) => {
+          expect(slide.goldenType).toBe(template.slots[index].slideType);
+          expect(slide.blocks.find((b) => b.kind === "title")?.text).toBeTruthy();
+        });
+      }
+    );
+
+    it("maps feature_showcase icon grid and timeline slots to card blocks", async () => {
+      const deck = await pipeline.generateFromTemplate({
+        ...baseRequest,
+        templateId: "feature_showcase",
+      });
+
+      const iconCards = deck.slides[1].blocks.filter((b) => b.kind === "icon_card");
+      expect(iconCards).toHaveLength(4);
+      expect(iconCards.every((b) => b.icon && b.text)).toBe(true);
+
+      const steps = deck.slides[3].blocks.filter((b) => b.kind === "timeline_step");
+      expect(steps.map((b) => b.step)).toEqual([1, 2, 3, 4]);
+      expect(steps.some((b) => b.status === "current")).toBe(true);
+    });
+
+    it("maps project_update checklist and numbered steps slots", async () => {
+      const deck = await pipeline.generateFromTemplate({
+        ...baseRequest,
+        templateId: "project_update",
+      });
+
+      expect(deck.slides[2].blocks.find((b) => b.kind === "bullets")?.items).toHaveLength(3);
+      expect(deck.slides[2].blocks.some((b) => b.kind === "image")).toBe(true);
+
+      const cards = deck.slides[3].blocks.filter((b) => b.kind === "numbered_card");
+      expect(cards.map((b) => b.number)).toEqual([1, 2, 3]);
+    });
+
+    it("resolves workspace templates through the resolver", async () => {
+      const builtIn = getGoldenTemplate("project_update")!;
+      const workspaceTemplate = {
+        ...builtIn,
+        id: "ckworkspacetemplate0001",
+        workspaceId: "ws_default",
+        name: "Styringsgruppe",
+        slideCount: 2,
+        slots: builtIn.slots.slice(0, 2),
+      };
+      const resolveTemplate = vi.fn().mockResolvedValue(workspaceTemplate);
+      const workspacePipeline = new GenerationPipeline({
+        llmClient: new MockLLMClient(),
+        resolveTemplate,
+      });
+
+      const deck = await workspacePipeline.generateFromTemplate({
+        ...baseRequest,
+        templateId: workspaceTemplate.id,
+      });
+
+      expect(resolveTemplate).toHaveBeenCalledWith(workspaceTemplate.id);
+      expect(deck.slides.map((s) => s.goldenType)).toEqual(["cover", "timeline"]);
+    });
+
+    it("does not consult the resolver for built-in templates", async () => {
+      const resolveTemplate = vi.fn();
+      const workspacePipeline = new GenerationPipeline({
+        llmClient: new MockLLMClient(),
+        resolveTemplate,
+      });
+
+      await workspacePipeline.generateFromTemplate({
+        ...baseRequest,
+        templateId: "project_update",
+      });
+
+      expect(resolveTemplate).not.toHaveBeenCalled();
+    });
+
+    it("throws TEMPLATE_NOT_FOUND for unknown workspace templates", async () => {
+      const workspacePipeline = new GenerationPipeline({
+        llmClient: new MockLLMClient(),
+        resolveTemplate: vi.fn().mockResolvedValue(null),
+      });
+
+      await expect(
+        workspacePipeline.generateFromTemplate({
+          ...baseRequest,
+          templateId: "ckmissingtemplate00001",
+        })
+      ).rejects.toMatchObject({ code: "TEMPLATE_NOT_FOUND" });
+    });
+
+    it("pours new content into a template saved from a deck", async () => {
+      const deckTemplate: DeckTemplate = {
+        kind: "deck",
+        id: "ckdecktemplate00000001",
+        workspaceId: "ws_default",
+        name: "Kvartalsrapport",
+        description: "",
+        slideCount: 2,
+        slots: [
+          {
+            position: 1,
+            slideType: "cover",
+            layoutVariant: "minimal",
+            blockKinds: ["title", "text"],
+            purpose: "Q3 i tall",
+            constraints: { titleMaxChars: 40 },
+          },
+          {
+            position: 2,
+            slideType: "bullets",
+            layoutVariant: "numbered",
+            blockKinds: ["title", "bullets"],
+            purpose: "Hovedfunn",
+            constraints: { itemCount: 2, itemMaxChars: 30 },
+          },
+        ],
+      };
+      const deckPipeline = new GenerationPipeline({
+        llmClient: new MockLLMClient(),
+        resolveTemplate: vi.fn().mockResolvedValue(deckTemplate),
+      });
+
+      const deck = await deckPipeline.generateFromTemplate({
+        ...baseRequest,
+        templateId: deckTemplate.id,
+      });
+
+      expect(deck.slides.map((s) => s.type)).toEqual(["cover", "bullets"]);
+      expect(deck.slides.map((s) => s.layoutVariant)).toEqual(["minimal", "numbered"]);
+      const bullets = deck.slides[1].blocks.find((b) => b.kind === "bullets");
+      expect(bullets?.items?.length).toBeLessThanOrEqual(2);
+      bullets?.items?.forEach((item) => expect(item.length).toBeLessThanOrEqual(30));
+    });
+
+    it("respects slot item limits", async () => {
+      const template = getGoldenTemplate("feature_showcase")!;
+      const deck = await pipeline.generateFromTemplate({
+        ...baseRequest,
+        templateId: "feature_showcase",
+      });
+
+      const ctaSlot = template.slots[5];
+      const ctaBullets = deck.slides[5].blocks.find((b) => b.kind === "bullets");
+      expect(ctaBullets?.items?.length).toBeLessThanOrEqual(ctaSlot.constraints.itemCountMax!);
+    });
+  });
+
+  describe("speaker notes", () => {
+    it("writes notes for every slide when requested", async () => {
+      const deck = await pipeline.generateFromTemplate({
+        ...baseRequest,
+        templateId: "project_update",
+        speakerNotes: true,
+      });
+
+      deck.slides.forEach((slide) => {
+        expect(slide.notes).toBeTruthy();
+      });
+    });
+
+    it("leaves notes empty by default", async () => {
+      const deck = await pipeline.generateFromTemplate({
+        ...baseRequest,
+        templateId: "project_update",
+      });
+
+      expect(deck.slides.every((slide) => slide.notes === undefined)).toBe(true);
+    });
+  });
+
+  describe("chart slides", () => {
+    const dataRequest: GenerationRequest = {
+      ...baseRequest,
+      inputText:
+        "Omsetning 2024:\nQ1: 12,5 MNOK\nQ2: 15 MNOK\nQ3: 18 MNOK\nQ4: 22 MNOK\n\nVeksten fortsetter.",
+    };
+
+    it("attaches the extracted data to slides with a chart hint", async () => {
+      const deck = await pipeline.generateDeck(
+        {
+          title: "Kvartalstall",
+          slides: [
+            {
+              title: "Omsetningen vokser",
+              suggestedType: "bullets",
+              hints: ["Diagram: Omsetning 2024", "Sterk vekst"],
+            },
+          ],
+        },
+        dataRequest
+      );
+
+      const [slide] = deck.slides;
+      const chart = slide.blocks.find((b) => b.kind === "chart");
+      expect(slide.type).toBe("text_plus_image");
+      expect(slide.blocks.some((b) => b.kind === "image")).toBe(false);
+      expect(chart?.chartType).toBe("line");
+      expect(chart?.categories).toEqual(["Q1", "Q2", "Q3", "Q4"]);
+      expect(chart?.series?.[0].values).toEqual([12.5, 15, 18, 22]);
+    });
+
+    it("leaves slides without a chart hint unchanged", async () => {
+      const deck = await pipeline.generateDeck(
+        {
+          title: "Kvartalstall",
+          slides: [{ title: "Omsetningen vokser", suggestedType: "text_plus_image", hints: [] }],
+        },
+        dataRequest
+      );
+
+      expect(deck.slides[0].blocks.some((b) => b.kind === "chart")).toBe(false);
+    });
+  });
+
+  describe("preserved Markdown", () => {
+    const markdownRequest: GenerationRequest = {
+      ...baseRequest,
+      textMode: "preserve",
+      inputText: [
+        "# Hvorfor vi bytter byggverktøy",
+        "Fagdag, mars",
+        "",
+        "---",
+        "",
+        "## Problemet",
+        "",
+        "- Byggene tar 12 minutter",
+        "- Cachen treffer sjelden",
+        "",
+        "<!-- Vis grafen fra CI her -->",
+      ].join("\n"),
+    };
+
+    it("maps slides directly without content calls", async () => {
+      const llm = new MockLLMClient();
+      const generateJSON = vi.spyOn(llm, "generateJSON");
+      const generateJSONStreaming = vi.spyOn(llm, "generateJSONStreaming");
+      const markdownPipeline = new GenerationPipeline({ llmClient: llm });
+
+      const { outline, deck } = await markdownPipeline.generate(markdownRequest);
+
+      expect(generateJSON).not.toHaveBeenCalled();
+      expect(generateJSONStreaming).not.toHaveBeenCalled();
+      expect(outline.slides.map((s) => s.title)).toEqual([
+        "Hvorfor vi bytter byggverktøy",
+        "Problemet",
+      ]);
+      expect(deck.slides.map((s) => s.type)).toEqual(["cover", "bullets"]);
+      expect(deck.slides[1].blocks[1].items).toEqual([
+        "Byggene tar 12 minutter",
+        "Cachen treffer sjelden",
+      ]);
+      expect(deck.slides[1].notes).toBe("Vis grafen fra CI her");
+      expect(deck.slides.every((s) => s.layoutVariant)).toBe(true);
+    });
+
+    it("reads the outline from the Markdown", async () => {
+      const outline = await pipeline.generateOutline(markdownRequest);
+
+      expect(outline.title).toBe("Hvorfor vi bytter byggverktøy");
+      expect(outline.slides.map((s) => s.suggestedType)).toEqual(["cover", "bullets"]);
+    });
+
+    it("uses titles edited in the outline step", async () => {
+      const { deck } = await pipeline.generate({
+        ...markdownRequest,
+        outline: {
+          title: "Nytt byggverktøy",
+          slides: [{ title: "Nytt byggverktøy" }, { title: "Hva er galt i dag" }],
+        },
+      });
+
+      expect(deck.deck.title).toBe("Nytt byggverktøy");
+      expect(deck.slides[1].blocks[0].text).toBe("Hva er galt i dag");
+    });
+
+    it("uses the LLM for text without slide structure", async () => {
+      const llm = new MockLLMClient();
+      const generateJSON = vi.spyOn(llm, "generateJSON");
+
+      await new GenerationPipeline({ llmClient: llm }).generateOutline({
+        ...markdownRequest,
+        inputText: "# Notater\n\nBare ett avsnitt med tekst.",
+      });
+
+      expect(generateJSON).toHaveBeenCalled();
+    });
+  });
+
   describe("createPipeline", () => {
     it("creates pipeline with default options", () => {
       process.env.FAKE_LLM = "true";
@@ -43,6 +43,20 @@ describe("Repair Prompts", () => {
       expect(prompt).toContain("limit: 70");
     });
 
+    it("includes chart data guidance for fix_data violations", () => {
+      const prompt = buildRepairSystemPrompt([
+        {
+          field: "charts[0]",
+          message: 'Series "Omsetning" has 2 values but the chart has 3 categories',
+          current: 1,
+          limit: 0,
+          action: "fix_data",
+        },
+      ]);
+      expect(prompt).toContain("FIX CHART DATA");
+      expect(prompt).toContain("never invent");
+    });
+
     it("includes SHORTEN action for shorten violations", () => {
       const prompt = buildRepairSystemPrompt([shortenViolation]);
       expect(prompt).toContain("SHORTEN");
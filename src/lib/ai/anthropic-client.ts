@@ -0,0 +1,308 @@
+import { ZodSchema } from "zod";
+import { parse as parsePartialJSON } from "partial-json";
+import {
+  DEFAULT_LLM_TEMPERATURE,
+  LLMError,
+  parseJSONResponse,
+  type LLMClient,
+  type StreamingCallback,
+  type TokenUsage,
+} from "./llm-client";
+
+/**
+ * Configuration for Anthropic client
+ */
+export interface AnthropicClientConfig {
+  apiKey: string;
+  model?: string;
+  maxRetries?: number;
+  temperature?: number;
+  /** Upper bound on response tokens (required by the Messages API) */
+  maxTokens?: number;
+  baseURL?: string;
+  /** Custom fetch implementation */
+  fetch?: typeof fetch;
+  /** Called after each successful request with its token usage */
+  onUsage?: (usage: TokenUsage) => void;
+}
+
+const ANTHROPIC_VERSION = "2023-06-01";
+
+export const DEFAULT_ANTHROPIC_MODEL = "claude-sonnet-4-5";
+
+/**
+ * The Messages API has no JSON mode, so the format is part of the system prompt
+ */
+const JSON_INSTRUCTION =
+  "\n\nRespond with a single JSON object only. Do not wrap it in Markdown or add any other text.";
+
+interface AnthropicUsage {
+  input_tokens?: number;
+  output_tokens?: number;
+}
+
+interface AnthropicMessage {
+  content?: Array<{ type: string; text?: string }>;
+  usage?: AnthropicUsage;
+}
+
+interface AnthropicStreamEvent {
+  type: string;
+  delta?: { type: string; text?: string };
+  error?: { message?: string };
+  /** message_start carries input tokens, message_delta the running output count */
+  message?: { usage?: AnthropicUsage };
+  usage?: AnthropicUsage;
+}
+
+/**
+ * Non-2xx response from the Messages API
+ */
+class AnthropicAPIError extends Error {
+  constructor(
+    message: string,
+    public status: number
+  ) {
+    super(message);
+    this.name = "AnthropicAPIError";
+  }
+}
+
+/**
+ * Strip a Markdown code fence around the JSON, also while it is still streaming
+ */
+function stripCodeFence(text: string): string {
+  return text
+    .trimStart()
+    .replace(/^```(?:json)?\s*/i, "")
+    .replace(/\s*```\s*$/, "");
+}
+
+/**
+ * Extract the JSON object from a text response
+ */
+export function extractJSON(text: string): string {
+  const stripped = stripCodeFence(text).trim();
+  if (stripped.startsWith("{")) return stripped;
+
+  const start = stripped.indexOf("{");
+  const end = stripped.lastIndexOf("}");
+  return start !== -1 && end > start ? stripped.slice(start, end + 1) : stripped;
+}
+
+/**
+ * Read the data payloads of a server-sent event stream
+ */
+async function* readEventData(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+
+    const lines = buffer.split(/\r?\n/);
+    buffer = done ? "" : (lines.pop() ?? "");
+    for (const line of lines) {
+      if (line.startsWith("data:")) {
+        yield line.slice(5).trim();
+      }
+    }
+
+    if (done) return;
+  }
+}
+
+/**
+ * Anthropic LLM Client implementation (Messages API over fetch)
+ */
+export class AnthropicClient implements LLMClient {
+  private apiKey: string;
+  private model: string;
+  private maxRetries: number;
+  private temperature: number;
+  private maxTokens: number;
+  private baseURL: string;
+  private fetch: typeof fetch;
+  private onUsage?: (usage: TokenUsage) => void;
+
+  constructor(config: AnthropicClientConfig) {
+    this.apiKey = config.apiKey;
+    this.model = config.model ?? DEFAULT_ANTHROPIC_MODEL;
+    this.maxRetries = config.maxRetries ?? 3;
+    this.temperature = config.temperature ?? DEFAULT_LLM_TEMPERATURE;
+    this.maxTokens = config.maxTokens ?? 8192;
+    this.baseURL = (config.baseURL ?? "https://api.anthropic.com").replace(/\/+$/, "");
+    this.fetch = config.fetch ?? fetch;
+    this.onUsage = config.onUsage;
+  }
+
+  private async createMessage(
+    systemPrompt: string,
+    userPrompt: string,
+    stream: boolean
+  ): Promise<Response> {
+    const response = await this.fetch(`${this.baseURL}/v1/messages`, {
+      method: "POST",
+      headers: {
+        "content-type": "application/json",
+        "x-api-key": this.apiKey,
+        "anthropic-version": ANTHROPIC_VERSION,
+      },
+      body: JSON.stringify({
+        model: this.model,
+        max_tokens: this.maxTokens,
+        temperature: this.temperature,
+        system: systemPrompt + JSON_INSTRUCTION,
+        messages: [{ role: "user", content: userPrompt }],
+        stream,
+      }),
+    });
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => "");
+      throw new AnthropicAPIError(
+        `${response.status} ${detail.slice(0, 200)}`.trim(),
+        response.status
+      );
+    }
+
+    return response;
+  }
+
+  async generateJSON<T>(
+    systemPrompt: string,
+    userPrompt: string,
+    schema: ZodSchema<T>
+  ): Promise<T> {
+    let lastError: unknown;
+
+    for (let attempt = 1; attempt <= this.maxRetries; attempt++) {
+      try {
+        const response = await this.createMessage(systemPrompt, userPrompt, false);
+        const message = (await response.json()) as AnthropicMessage;
+        if (message.usage) {
+          this.onUsage?.({
+            promptTokens: message.usage.input_tokens ?? 0,
+            completionTokens: message.usage.output_tokens ?? 0,
+          });
+        }
+        const content = (message.content ?? [])
+          .filter((block) => block.type === "text")
+          .map((block) => block.text ?? "")
+          .join("");
+
+        if (!content) {
+          throw new LLMError("Empty response from model", "MODEL_ERROR");
+        }
+
+        return parseJSONResponse(extractJSON(content), schema);
+      } catch (error) {
+        lastError = error;
+
+        // LLM errors come from the response itself and won't self-heal
+        if (error instanceof LLMError) {
+          throw error;
+        }
+
+        if (error instanceof AnthropicAPIError) {
+          if (error.status === 429) {
+            if (attempt < this.maxRetries) {
+              await this.sleep(Math.pow(2, attempt) * 1000);
+              continue;
+            }
+            throw new LLMError("Rate limited by Anthropic API", "RATE_LIMITED", error);
+          }
+
+          // Client errors (bad request, auth) fail the same way on every attempt
+          if (error.status >= 500 && attempt < this.maxRetries) {
+            await this.sleep(1000 * attempt);
+            continue;
+          }
+          throw new LLMError(`Anthropic API error: ${error.message}`, "MODEL_ERROR", error);
+        }
+
+        // Network errors
+        if (attempt >= this.maxRetries) {
+          throw new LLMError(
+            `LLM call failed after ${this.maxRetries} attempts`,
+            "MODEL_ERROR",
+            error
+          );
+        }
+      }
+    }
+
+    throw new LLMError("Unexpected error in LLM client", "MODEL_ERROR", lastError);
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+
+  /**
+   * Generate JSON with streaming support for character-level updates
+   * Falls back to non-streaming generateJSON on error.
+   */
+  async generateJSONStreaming<T>(
+    systemPrompt: string,
+    userPrompt: string,
+    schema: ZodSchema<T>,
+    callbacks: StreamingCallback
+  ): Promise<T> {
+    let accumulated = "";
+    const usage: TokenUsage = { promptTokens: 0, completionTokens: 0 };
+
+    try {
+      const response = await this.createMessage(systemPrompt, userPrompt, true);
+      if (!response.body) {
+        throw new LLMError("Empty response from streaming", "MODEL_ERROR");
+      }
+
+      for await (const data of readEventData(response.body)) {
+        const event = JSON.parse(data) as AnthropicStreamEvent;
+
+        if (event.type === "error") {
+          throw new LLMError(
+            `Anthropic stream error: ${event.error?.message ?? "unknown"}`,
+            "MODEL_ERROR"
+          );
+        }
+
+        usage.promptTokens = event.message?.usage?.input_tokens ?? usage.promptTokens;
+        usage.completionTokens = event.usage?.output_tokens ?? usage.completionTokens;
+
+        const delta = event.type === "content_block_delta" ? event.delta : undefined;
+        if (delta?.type === "text_delta" && delta.text) {
+          accumulated += delta.text;
+          callbacks.onToken?.(delta.text);
+
+          try {
+            const partial = parsePartialJSON(stripCodeFence(accumulated));
+            callbacks.onPartialJSON?.(partial);
+          } catch {
+            // Partial parsing failed, continue accumulating
+          }
+        }
+      }
+
+      this.onUsage?.(usage);
+      if (!accumulated) {
+        throw new LLMError("Empty response from streaming", "MODEL_ERROR");
+      }
+
+      const result = parseJSONResponse(extractJSON(accumulated), schema);
+      callbacks.onComplete?.(result);
+      return result;
+    } catch (error) {
+      callbacks.onError?.(error as Error);
+
+      console.warn(
+        "Streaming failed, falling back to non-streaming:",
+        error instanceof Error ? error.message : error
+      );
+      return this.generateJSON(systemPrompt, userPrompt, schema);
+    }
+  }
+}
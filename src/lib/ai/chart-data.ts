@@ -0,0 +1,168 @@
+/**
+ * Chart Data - turns extracted numeric series into chart blocks
+ *
+ * The outline marks chart slides with a "Diagram:" hint naming the data
+ * series. Content generation writes the surrounding text, and the chart
+ * data itself is attached deterministically from the content analysis so
+ * the numbers on the slide are exactly the numbers in the input.
+ */
+
+import type { Block, ChartType } from "@/lib/schemas/block";
+import type { OutlineSlide, Slide } from "@/lib/schemas/slide";
+import { getChartData } from "@/lib/charts";
+import type { DataSeries } from "./content-analysis";
+
+/**
+ * Hint prefix that marks an outline slide as a chart slide
+ */
+export const CHART_HINT_PREFIX = "Diagram:";
+
+/**
+ * Outline hint for a chart slide showing the given data series
+ */
+export function getChartHint(data: DataSeries): string {
+  return `${CHART_HINT_PREFIX} ${data.title}`.slice(0, 100);
+}
+
+/**
+ * Get the data series name from a slide's chart hint, if it has one
+ */
+function getChartHintTitle(slide: OutlineSlide): string | undefined {
+  const hint = slide.hints?.find((h) =>
+    h.trim().toLowerCase().startsWith(CHART_HINT_PREFIX.toLowerCase())
+  );
+  return hint?.trim().slice(CHART_HINT_PREFIX.length).trim();
+}
+
+/**
+ * Check if an outline slide asks for a chart
+ */
+export function isChartOutlineSlide(slide: OutlineSlide): boolean {
+  return getChartHintTitle(slide) !== undefined;
+}
+
+/**
+ * Find the data series a chart slide refers to.
+ * Matches the hint against series titles, then falls back to the first
+ * series not already used by an earlier chart slide.
+ */
+export function findDataSeriesForSlide(
+  slide: OutlineSlide,
+  dataSeries: DataSeries[],
+  used: ReadonlySet<DataSeries> = new Set()
+): DataSeries | undefined {
+  const hintTitle = getChartHintTitle(slide);
+  if (hintTitle === undefined) return undefined;
+
+  const normalized = hintTitle.toLowerCase();
+  const available = dataSeries.filter((d) => !used.has(d));
+
+  return (
+    available.find((d) => {
+      const title = d.title.toLowerCase();
+      return normalized.length > 0 && (title.includes(normalized) || normalized.includes(title));
+    }) ?? available[0]
+  );
+}
+
+/**
+ * Pick a chart type for the data:
+ * time series → line, shares of a whole → pie, multiple measures → bar
+ */
+export function selectChartType(data: DataSeries): ChartType {
+  if (data.kind === "time_series") {
+    return data.categories.length >= 4 || data.series.length > 1 ? "line" : "bar";
+  }
+
+  const [first] = data.series;
+  const isShare =
+    data.series.length === 1 &&
+    data.unit === "%" &&
+    first.values.every((v) => v >= 0) &&
+    Math.abs(first.values.reduce((sum, v) => sum + v, 0) - 100) <= 1;
+
+  return isShare ? "pie" : "bar";
+}
+
+/**
+ * Build a chart block from an extracted data series
+ */
+export function dataSeriesToChartBlock(data: DataSeries): Block {
+  const chartType = selectChartType(data);
+
+  return {
+    kind: "chart",
+    chartType,
+    text: data.title,
+    categories: data.categories,
+    series: data.series,
+    yAxisLabel: chartType !== "pie" ? data.unit : undefined,
+  };
+}
+
+/**
+ * Make labels unique by numbering repeats ("Oslo", "Oslo (2)")
+ */
+function uniqueLabels(labels: string[]): string[] {
+  const seen = new Map<string, number>();
+  return labels.map((label) => {
+    const count = (seen.get(label) ?? 0) + 1;
+    seen.set(label, count);
+    return count > 1 ? `${label} (${count})` : label;
+  });
+}
+
+/**
+ * Make a chart block internally consistent: one value per category,
+ * unique labels, and no pie chart that cannot be drawn as a pie.
+ */
+export function normalizeChartBlock(block: Block): Block {
+  const data = getChartData(block);
+  const seriesNames = uniqueLabels(data.series.map((s) => s.name));
+  const series = data.series.map((s, i) => ({ ...s, name: seriesNames[i] }));
+
+  const pieIsDrawable =
+    series.length === 1 &&
+    series[0].values.every((v) => v >= 0) &&
+    series[0].values.some((v) => v > 0);
+
+  return {
+    ...block,
+    chartType: data.chartType === "pie" && !pieIsDrawable ? "bar" : data.chartType,
+    categories: uniqueLabels(data.categories),
+    series,
+  };
+}
+
+/**
+ * Put the chart on a generated slide.
+ *
+ * With extracted data, the chart uses that data and keeps the title and axis
+ * labels the content stage wrote. Without it, a chart from the content stage
+ * is kept after normalisation. The chart takes the image slot, so image
+ * blocks are dropped from chart slides.
+ */
+export function applyChartToSlide(slide: Slide, data?: DataSeries): Slide {
+  const index = slide.blocks.findIndex((b) => b.kind === "chart");
+  const generated = index >= 0 ? slide.blocks[index] : undefined;
+
+  let chart: Block | undefined;
+  if (data) {
+    const extracted = dataSeriesToChartBlock(data);
+    chart = normalizeChartBlock({
+      ...extracted,
+      text: generated?.text ?? extracted.text,
+      xAxisLabel: generated?.xAxisLabel ?? extracted.xAxisLabel,
+      yAxisLabel: generated?.yAxisLabel ?? extracted.yAxisLabel,
+    });
+  } else if (generated && (generated.categories?.length ?? 0) > 0 && generated.series?.length) {
+    chart = normalizeChartBlock(generated);
+  }
+
+  if (!chart) {
+    return { ...slide, blocks: slide.blocks.filter((b) => b.kind !== "chart") };
+  }
+
+  const blocks = slide.blocks.filter((b) => b.kind !== "chart" && b.kind !== "image");
+  return { ...slide, blocks: [...blocks, chart] };
+}
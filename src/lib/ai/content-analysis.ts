@@ -7,8 +7,11 @@
  * - Sitater (tekst i anførselstegn)
  * - Action items (verb + objekt mønstre)
  * - Beslutninger (bestemte/vedtatt/godkjent mønstre)
+ * - Tallserier (tabeller, lister og periodeverdier) for diagrammer
  */
 
+import { BLOCK_CONSTRAINTS } from "@/lib/editor/constraints";
+
 /**
  * A step in a sequential process
  */
@@ -26,6 +29,17 @@ export interface Comparison {
   basis?: string;
 }
 
+/**
+ * A numeric data series found in the text (candidate for a chart)
+ */
+export interface DataSeries {
+  title: string;
+  kind: "time_series" | "comparison";
+  unit?: string;
+  categories: string[];
+  series: Array<{ name: string; values: number[] }>;
+}
+
 /**
  * A feature with title and description
  */
@@ -49,6 +63,8 @@ export interface ContentAnalysis {
   comparisons: Comparison[]; // Sammenligninger (vs, kontra, før/etter)
   features: Feature[]; // Features med beskrivelser
   hasRoadmap: boolean; // Indikerer om teksten beskriver en tidslinje/plan
+
+  dataSeries: DataSeries[]; // Tallserier (tidsserier, kategori-sammenligninger) for diagrammer
 }
 
 /**
@@ -72,6 +88,8 @@ export function analyzeContent(inputText: string): ContentAnalysis {
     comparisons: extractComparisons(text),
     features: extractFeatures(text),
     hasRoadmap: detectRoadmap(text),
+
+    dataSeries: extractDataSeries(text),
   };
 }
 
@@ -368,6 +386,274 @@ function detectRoadmap(text: string): boolean {
   return keywords.some((k) => k.test(text));
 }
 
+// =============================================================================
+// Tallserier for diagrammer
+// =============================================================================
+
+const MIN_SERIES_POINTS = 3;
+const MAX_DATA_SERIES = 3;
+
+// Tall med norsk eller engelsk formatering: 1 200, 1.200, 12,5, 12.5, -3
+const NUMBER_SOURCE = String.raw`[-−]?\d{1,3}(?:[ \u00a0.]\d{3})+(?:,\d+)?|[-−]?\d+(?:[.,]\d+)?`;
+const UNIT_SOURCE = String.raw`%|prosent|MNOK|BNOK|NOK|kr|mill(?:ioner|\.)?|mrd\.?|milliarder|USD|EUR|ansatte|brukere|kunder`;
+const PERIOD_SOURCE = String.raw`(?:Q[1-4]|H[12]|K[1-4])(?:\s*(?:19|20)\d{2})?|(?:19|20)\d{2}`;
+
+const PERIOD_LABEL_PATTERN =
+  /^(?:(?:Q[1-4]|H[12]|K[1-4])(?:\s*(?:19|20)?\d{2})?|(?:19|20)\d{2}|uke\s*\d+|week\s*\d+|jan(?:uar)?|feb(?:ruar)?|mar(?:s)?|apr(?:il)?|mai|jun(?:i)?|jul(?:i)?|aug(?:ust)?|sep(?:tember)?|okt(?:ober)?|nov(?:ember)?|des(?:ember)?)\.?(?:\s+(?:19|20)\d{2})?$/i;
+
+/**
+ * Tolk et tall med norsk eller engelsk formatering
+ */
+function parseNumber(raw: string): number | null {
+  let normalized = raw.replace(/\s/g, "").replace("−", "-");
+  if (normalized.includes(",")) {
+    normalized = normalized.replace(/\./g, "").replace(",", ".");
+  } else if (/^-?\d{1,3}(?:\.\d{3})+$/.test(normalized)) {
+    normalized = normalized.replace(/\./g, "");
+  }
+  const value = Number(normalized);
+  return Number.isFinite(value) ? value : null;
+}
+
+/**
+ * Vanligste enhet i en liste (ignorerer tomme)
+ */
+function mostCommonUnit(units: Array<string | undefined>): string | undefined {
+  const counts = new Map<string, number>();
+  for (const unit of units) {
+    if (!unit) continue;
+    const key = unit.toLowerCase() === "prosent" ? "%" : unit;
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+  return [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0];
+}
+
+/**
+ * Bruk linjen over en liste/tabell som tittel hvis den ser ut som en overskrift
+ */
+function headingBefore(lines: string[], index: number): string | undefined {
+  for (let i = index - 1; i >= 0; i--) {
+    const line = lines[i].trim();
+    if (!line) continue;
+    const heading = line
+      .replace(/^#+\s*/, "")
+      .replace(/:$/, "")
+      .trim();
+    return heading.length > 0 && heading.length <= 60 ? heading : undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Bygg en tallserie, eller null hvis den er for liten til et diagram
+ */
+function createDataSeries(
+  title: string | undefined,
+  labels: string[],
+  series: Array<{ name: string; values: number[] }>,
+  unit: string | undefined,
+  minPoints: number
+): DataSeries | null {
+  const { maxCategories, maxCategoryChars, maxSeries, maxSeriesNameChars } =
+    BLOCK_CONSTRAINTS.chart;
+  if (labels.length < minPoints || series.length === 0) return null;
+
+  const categories = labels.slice(0, maxCategories).map((l) => l.slice(0, maxCategoryChars));
+  if (new Set(categories).size !== categories.length) return null;
+
+  return {
+    title: title ?? (unit ? `Verdier (${unit})` : "Nøkkeltall"),
+    kind: categories.every((c) => PERIOD_LABEL_PATTERN.test(c)) ? "time_series" : "comparison",
+    unit,
+    categories,
+    series: series.slice(0, maxSeries).map((s) => ({
+      name: s.name.slice(0, maxSeriesNameChars),
+      values: s.values.slice(0, categories.length),
+    })),
+  };
+}
+
+/**
+ * Mønster 1: Lister med én verdi per linje ("Q1 2024: 12,5 MNOK", "- Oslo – 45 %")
+ */
+function extractListSeries(text: string): DataSeries[] {
+  const linePattern = new RegExp(
+    String.raw`^\s*(?:[-•*]\s*)?([^:|\n]{1,30}?)\s*(?::|–|—|=|\s-)\s*(${NUMBER_SOURCE})\s*(${UNIT_SOURCE})?\s*$`,
+    "i"
+  );
+  const lines = text.split("\n");
+  const results: DataSeries[] = [];
+
+  let run: Array<{ label: string; value: number; unit?: string }> = [];
+  let runStart = 0;
+
+  const flush = () => {
+    const unit = mostCommonUnit(run.map((r) => r.unit));
+    const title = headingBefore(lines, runStart);
+    const data = createDataSeries(
+      title,
+      run.map((r) => r.label),
+      [{ name: title ?? unit ?? "Verdi", values: run.map((r) => r.value) }],
+      unit,
+      MIN_SERIES_POINTS
+    );
+    if (data) results.push(data);
+    run = [];
+  };
+
+  lines.forEach((line, index) => {
+    const match = line.match(linePattern);
+    const value = match ? parseNumber(match[2]) : null;
+    if (match && value !== null) {
+      if (run.length === 0) runStart = index;
+      run.push({ label: match[1].trim(), value, unit: match[3] });
+    } else if (run.length > 0) {
+      flush();
+    }
+  });
+  if (run.length > 0) flush();
+
+  return results;
+}
+
+/**
+ * Mønster 2: Periodeverdier i løpende tekst ("12 MNOK i Q1, 15 MNOK i Q2 og 18 MNOK i Q3")
+ */
+function extractInlineSeries(text: string): DataSeries[] {
+  const valueFirst = new RegExp(
+    String.raw`(${NUMBER_SOURCE})\s*(${UNIT_SOURCE})?\s+(?:i|in|for)\s+(${PERIOD_SOURCE})`,
+    "gi"
+  );
+  const periodFirst = new RegExp(
+    String.raw`(${PERIOD_SOURCE})\s*[:=]\s*(${NUMBER_SOURCE})\s*(${UNIT_SOURCE})?`,
+    "gi"
+  );
+  const results: DataSeries[] = [];
+
+  for (const sentence of text.split(/(?<=[.!?])\s+|\n/)) {
+    for (const [pattern, valueGroup, unitGroup, periodGroup] of [
+      [valueFirst, 1, 2, 3],
+      [periodFirst, 2, 3, 1],
+    ] as const) {
+      const matches = [...sentence.matchAll(pattern)];
+      if (matches.length < MIN_SERIES_POINTS) continue;
+
+      const points = matches.flatMap((m) => {
+        const value = parseNumber(m[valueGroup]);
+        return value === null ? [] : [{ label: m[periodGroup].trim(), value, unit: m[unitGroup] }];
+      });
+
+      // Subjektet foran første tall blir tittel ("Omsetningen var ..." → "Omsetningen")
+      const lead = sentence
+        .slice(0, matches[0].index)
+        .replace(
+          /[\s,:]*(?:\b(?:var|er|ble|økte|steg|falt|utgjorde|endte|på|til|med|fra|was|were)\b[\s,:]*)+$/i,
+          ""
+        )
+        .trim();
+      const title = lead.length > 0 && lead.length <= 60 ? lead : undefined;
+      const unit = mostCommonUnit(points.map((p) => p.unit));
+
+      const data = createDataSeries(
+        title,
+        points.map((p) => p.label),
+        [{ name: title ?? unit ?? "Verdi", values: points.map((p) => p.value) }],
+        unit,
+        MIN_SERIES_POINTS
+      );
+      if (data) results.push(data);
+      break;
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Mønster 3: Markdown-tabeller der én eller flere kolonner er tall
+ */
+function extractTableSeries(text: string): DataSeries[] {
+  const lines = text.split("\n");
+  const results: DataSeries[] = [];
+  const cellPattern = new RegExp(String.raw`^(${NUMBER_SOURCE})\s*(${UNIT_SOURCE})?$`, "i");
+
+  let i = 0;
+  while (i < lines.length) {
+    if (!lines[i].trim().startsWith("|")) {
+      i++;
+      continue;
+    }
+
+    const start = i;
+    const rows: string[][] = [];
+    while (i < lines.length && lines[i].trim().startsWith("|")) {
+      const cells = lines[i]
+        .trim()
+        .replace(/^\||\|$/g, "")
+        .split("|")
+        .map((c) => c.trim());
+      // Hopp over skillelinjen (|---|---|)
+      if (!cells.every((c) => /^:?-{3,}:?$/.test(c))) {
+        rows.push(cells);
+      }
+      i++;
+    }
+
+    const [header, ...body] = rows;
+    if (!header || body.length < 2) continue;
+
+    const units: Array<string | undefined> = [];
+    const series: Array<{ name: string; values: number[] }> = [];
+    for (let col = 1; col < header.length; col++) {
+      const values: number[] = [];
+      for (const row of body) {
+        const match = (row[col] ?? "").match(cellPattern);
+        const value = match ? parseNumber(match[1]) : null;
+        if (value === null) break;
+        values.push(value);
+        units.push(match?.[2]);
+      }
+      if (values.length === body.length && header[col]) {
+        series.push({ name: header[col], values });
+      }
+    }
+
+    const data = createDataSeries(
+      headingBefore(lines, start) ?? header[0] ?? undefined,
+      body.map((row) => row[0] ?? ""),
+      series,
+      mostCommonUnit(units),
+      2
+    );
+    if (data) results.push(data);
+  }
+
+  return results;
+}
+
+/**
+ * Ekstraher tallserier egnet for diagram: tabeller, lister med verdier
+ * og periodeverdier i løpende tekst
+ */
+function extractDataSeries(text: string): DataSeries[] {
+  const found = [
+    ...extractTableSeries(text),
+    ...extractListSeries(text),
+    ...extractInlineSeries(text),
+  ];
+
+  // Unngå samme serie to ganger (f.eks. både liste og løpende tekst)
+  const unique: DataSeries[] = [];
+  for (const data of found) {
+    const key = data.categories.join("|") + "#" + data.series[0].values.join("|");
+    if (!unique.some((u) => u.categories.join("|") + "#" + u.series[0].values.join("|") === key)) {
+      unique.push(data);
+    }
+  }
+
+  return unique.slice(0, MAX_DATA_SERIES);
+}
+
 /**
  * Format analyse som streng for prompt-injeksjon
  * Begrenser lengde for å unngå for lange prompts
@@ -386,6 +672,15 @@ export function formatAnalysisForPrompt(
     parts.push(`Statistics: ${analysis.statistics.slice(0, 4).join(", ")}`);
   }
 
+  if (analysis.dataSeries.length > 0) {
+    parts.push(
+      `Data series: ${analysis.dataSeries
+        .slice(0, 2)
+        .map((d) => `${d.title}${d.unit ? ` (${d.unit})` : ""} [${d.categories.length} points]`)
+        .join("; ")}`
+    );
+  }
+
   if (analysis.quotes.length > 0) {
     parts.push(`Quotes: "${analysis.quotes[0]}"`);
   }
@@ -10,7 +10,8 @@ import type { Slide } from "@/lib/schemas/slide";
 import { SlideSchema } from "@/lib/schemas/slide";
 import type { ConstraintViolation as ValidationViolation } from "@/lib/validation/constraints";
 import type { ConstraintViolation as EditorViolation } from "@/lib/editor/types";
-import { getLLMClient, LLMError } from "./llm-client";
+import { LLMError, type LLMClient } from "./llm-client";
+import { getLLMClient } from "./llm-providers";
 import {
   buildRepairSystemPrompt,
   buildRepairUserPrompt,
@@ -34,6 +35,8 @@ export interface AIEditResult<T> {
 export interface AIEditOptions {
   /** Maximum attempts for the operation */
   maxAttempts?: number;
+  /** LLM client to use, e.g. configured for the deck's workspace */
+  llmClient?: LLMClient;
 }
 
 // ============================================================================
@@ -137,7 +140,7 @@ export async function aiShortenSlide(
   violations?: ValidationViolation[],
   options: AIEditOptions = {}
 ): Promise<AIEditResult<Slide>> {
-  const llm = getLLMClient();
+  const llm = options.llmClient ?? getLLMClient();
   const maxAttempts = options.maxAttempts ?? 2;
 
   // Get violations if not provided
@@ -200,7 +203,7 @@ export async function aiSplitSlide(
   violations?: ValidationViolation[],
   options: AIEditOptions = {}
 ): Promise<AIEditResult<Slide[]>> {
-  const llm = getLLMClient();
+  const llm = options.llmClient ?? getLLMClient();
   const maxAttempts = options.maxAttempts ?? 2;
 
   // Get violations if not provided
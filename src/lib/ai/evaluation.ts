@@ -0,0 +1,448 @@
+import { readFile } from "fs/promises";
+import { join } from "path";
+import { z } from "zod";
+import type { Deck, GenerationRequest } from "@/lib/schemas/deck";
+import { GenerationRequestSchema } from "@/lib/schemas/deck";
+import type { Outline, Slide } from "@/lib/schemas/slide";
+import type { LLMClient } from "./llm-client";
+import { GenerationPipeline } from "./pipeline";
+import { calculateContentDensity, validateDeck } from "./validation";
+import { getDistributionStats } from "./outline-enforcer";
+
+/**
+ * Generation Quality Evaluation
+ *
+ * Generates decks for the inputs in testdata/prompts with any LLMClient
+ * (live, mock or cassette replay), scores them and compares reports, so a
+ * prompt change can be judged against a baseline run.
+ */
+
+// ============================================================================
+// Cases
+// ============================================================================
+
+/**
+ * Entry in testdata/prompts/cases.json; request fields besides inputText
+ */
+const EvalCaseFileSchema = z.array(
+  z.object({
+    id: z.string().min(1),
+    /** Prompt file, relative to the cases file */
+    input: z.string().min(1),
+    request: GenerationRequestSchema.omit({ inputText: true }).partial().default({}),
+  })
+);
+
+export interface EvalCase {
+  id: string;
+  request: GenerationRequest;
+}
+
+/**
+ * Load evaluation cases and their input texts
+ */
+export async function loadEvalCases(dir = "testdata/prompts"): Promise<EvalCase[]> {
+  const entries = EvalCaseFileSchema.parse(
+    JSON.parse(await readFile(join(dir, "cases.json"), "utf-8"))
+  );
+
+  return Promise.all(
+    entries.map(async (entry) => ({
+      id: entry.id,
+      request: GenerationRequestSchema.parse({
+        ...entry.request,
+        inputText: (await readFile(join(dir, entry.input), "utf-8")).trim(),
+      }),
+    }))
+  );
+}
+
+// ============================================================================
+// Scoring
+// ============================================================================
+
+/** Density below which a slide looks empty (see validation.ts) */
+const SPARSE_DENSITY = 0.35;
+/** Density above which a slide is overfilled */
+const OVERFILLED_DENSITY = 1;
+
+/**
+ * Expected total slide count per amount, when numSlides is not given:
+ * the outline prompt's content slide range plus up to three structural slides
+ */
+const AMOUNT_SLIDE_RANGE: Record<GenerationRequest["amount"], [number, number]> = {
+  brief: [4, 8],
+  medium: [6, 11],
+  detailed: [9, 15],
+};
+
+/**
+ * Weights of the overall score (0-100)
+ */
+const SCORE_WEIGHTS = {
+  validity: 30,
+  density: 25,
+  slideCount: 20,
+  language: 15,
+  variety: 10,
+};
+
+export interface DeckScores {
+  slideCount: number;
+  /** Expected [min, max] slide count */
+  slideCountTarget: [number, number];
+  /** Slides outside the target range (0 when within) */
+  slideCountError: number;
+  /** Constraint violations other than low content density */
+  violations: number;
+  /** Share of slides without constraint violations */
+  validSlideRatio: number;
+  meanDensity: number;
+  sparseSlides: number;
+  overfilledSlides: number;
+  bulletLikeSlides: number;
+  premiumSlides: number;
+  uniqueTypes: number;
+  /** Share of slides with enough text whose detected language matches; null when unsupported */
+  languageMatchRatio: number | null;
+  /** Weighted 0-100 score (see SCORE_WEIGHTS) */
+  overall: number;
+}
+
+/**
+ * Slide count a request asks for, as an inclusive range
+ */
+export function getSlideCountTarget(request: GenerationRequest): [number, number] {
+  return request.numSlides
+    ? [request.numSlides, request.numSlides]
+    : AMOUNT_SLIDE_RANGE[request.amount];
+}
+
+const stopwords = (list: string) => new Set(list.split(" "));
+
+/**
+ * Frequent function words per language, normalised to primary subtags
+ */
+const STOPWORDS: Record<string, Set<string>> = {
+  no: stopwords(
+    "og i er det som på til med for av ikke en et å vi skal har fra om eller kan blir være også mer våre"
+  ),
+  da: stopwords(
+    "og i er det som på til med for af ikke en et at vi skal har fra om eller kan bliver være også mere vores"
+  ),
+  sv: stopwords(
+    "och i är det som på till med för av inte en ett att vi ska har från om eller kan blir vara också mer våra"
+  ),
+  en: stopwords(
+    "and in is it the that to with for of not a an we will have from or can be also more our are this"
+  ),
+  de: stopwords(
+    "und in ist es der die das zu mit für von nicht ein eine wir wird haben aus oder kann auch mehr unsere"
+  ),
+};
+
+const LANGUAGE_ALIASES: Record<string, string> = { nb: "no", nn: "no" };
+
+/** Slides with fewer words are too short to classify */
+const MIN_LANGUAGE_WORDS = 8;
+
+function normaliseLanguage(language: string): string {
+  const primary = language.toLowerCase().split(/[-_]/)[0];
+  return LANGUAGE_ALIASES[primary] ?? primary;
+}
+
+/**
+ * Guess the language of a text from its function words
+ * @returns Primary language subtag, or null when the text is too short or ambiguous
+ */
+export function detectLanguage(text: string): string | null {
+  const words = text.toLowerCase().match(/\p{L}+/gu) ?? [];
+  if (words.length < MIN_LANGUAGE_WORDS) return null;
+
+  const hits = Object.entries(STOPWORDS)
+    .map(([language, stopwords]) => ({
+      language,
+      count: words.filter((word) => stopwords.has(word)).length,
+    }))
+    .sort((a, b) => b.count - a.count);
+
+  if (hits[0].count === 0 || hits[0].count === hits[1].count) return null;
+  return hits[0].language;
+}
+
+/**
+ * All visible text of a slide
+ */
+function slideText(slide: Slide): string {
+  const parts: string[] = [];
+  for (const block of slide.blocks) {
+    const { text, items, rows, columns, description, title, label, sublabel } = block as Record<
+      string,
+      unknown
+    >;
+    for (const value of [text, items, rows, columns, description, title, label, sublabel]) {
+      if (typeof value === "string") parts.push(value);
+      if (Array.isArray(value)) parts.push(value.flat().join(" "));
+    }
+  }
+  return parts.join(" ");
+}
+
+/**
+ * Score a generated deck against the request that produced it
+ */
+export function scoreDeck(deck: Deck, request: GenerationRequest): DeckScores {
+  const slideCount = deck.slides.length;
+  const slideCountTarget = getSlideCountTarget(request);
+  const [minSlides, maxSlides] = slideCountTarget;
+  const slideCountError = Math.max(minSlides - slideCount, slideCount - maxSlides, 0);
+
+  // Density is scored separately, so it does not count as a violation here
+  const slideViolations = validateDeck(deck).slideResults.map(
+    (result) => result.violations.filter((v) => v.field !== "content_density").length
+  );
+  const violations = slideViolations.reduce((sum, count) => sum + count, 0);
+  const validSlideRatio = slideCount
+    ? slideViolations.filter((count) => count === 0).length / slideCount
+    : 0;
+
+  const densities = deck.slides.map(calculateContentDensity);
+  const meanDensity = slideCount ? densities.reduce((sum, d) => sum + d, 0) / slideCount : 0;
+  const sparseSlides = densities.filter((d) => d < SPARSE_DENSITY).length;
+  const overfilledSlides = densities.filter((d) => d > OVERFILLED_DENSITY).length;
+
+  // Distribution of the final slide types, which may differ from the outline
+  const finalOutline: Outline = {
+    title: deck.deck.title,
+    slides: deck.slides.map((slide) => ({ title: slide.type, suggestedType: slide.type })),
+  };
+  const distribution = getDistributionStats(finalOutline);
+
+  const requested = normaliseLanguage(request.language);
+  const detected = deck.slides
+    .map((slide) => detectLanguage(slideText(slide)))
+    .filter((language): language is string => language !== null);
+  const languageMatchRatio =
+    requested in STOPWORDS && detected.length > 0
+      ? detected.filter((language) => language === requested).length / detected.length
+      : null;
+
+  const components = {
+    validity: validSlideRatio,
+    density: slideCount ? 1 - (sparseSlides + overfilledSlides) / slideCount : 0,
+    slideCount: Math.max(0, 1 - slideCountError / Math.max(minSlides, 1)),
+    language: languageMatchRatio ?? 1,
+    variety: Math.min(1, distribution.uniqueTypes / Math.min(slideCount || 1, 6)),
+  };
+  const overall = Object.entries(SCORE_WEIGHTS).reduce(
+    (sum, [key, weight]) => sum + weight * components[key as keyof typeof SCORE_WEIGHTS],
+    0
+  );
+
+  return {
+    slideCount,
+    slideCountTarget,
+    slideCountError,
+    violations,
+    validSlideRatio,
+    meanDensity,
+    sparseSlides,
+    overfilledSlides,
+    bulletLikeSlides: distribution.bulletLikeCount,
+    premiumSlides: distribution.premiumCount,
+    uniqueTypes: distribution.uniqueTypes,
+    languageMatchRatio,
+    overall: Math.round(overall * 10) / 10,
+  };
+}
+
+// ============================================================================
+// Running and reporting
+// ============================================================================
+
+export interface EvalCaseResult {
+  id: string;
+  durationMs: number;
+  title?: string;
+  scores?: DeckScores;
+  /** Generation failure; the case is left out of the summary */
+  error?: string;
+}
+
+export interface EvalSummary {
+  cases: number;
+  failed: number;
+  /** Mean over the scored cases; use compareReports for deltas between runs */
+  overall: number;
+  validSlideRatio: number;
+  meanDensity: number;
+  slideCountError: number;
+  violations: number;
+}
+
+export interface EvalReport {
+  label: string;
+  createdAt: string;
+  /** Free-form details of the run, e.g. provider and model */
+  meta: Record<string, unknown>;
+  results: EvalCaseResult[];
+  /** Case ids left out of the run, e.g. replay cases without a cassette */
+  skipped: string[];
+  summary: EvalSummary;
+}
+
+/**
+ * Generate and score every case
+ * @param createClient - Client per case, e.g. a ReplayLLMClient over the case's cassette
+ */
+export async function runEvaluation(
+  cases: EvalCase[],
+  createClient: (evalCase: EvalCase) => Promise<LLMClient> | LLMClient,
+  options: { label: string; meta?: Record<string, unknown>; skipped?: string[] }
+): Promise<EvalReport> {
+  const results: EvalCaseResult[] = [];
+
+  for (const evalCase of cases) {
+    const start = Date.now();
+    try {
+      const pipeline = new GenerationPipeline({ llmClient: await createClient(evalCase) });
+      const { deck } = await pipeline.generate(evalCase.request);
+      results.push({
+        id: evalCase.id,
+        durationMs: Date.now() - start,
+        title: deck.deck.title,
+        scores: scoreDeck(deck, evalCase.request),
+      });
+    } catch (error) {
+      results.push({
+        id: evalCase.id,
+        durationMs: Date.now() - start,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  return {
+    label: options.label,
+    createdAt: new Date().toISOString(),
+    meta: options.meta ?? {},
+    results,
+    skipped: options.skipped ?? [],
+    summary: summarize(results),
+  };
+}
+
+function summarize(results: EvalCaseResult[]): EvalSummary {
+  const scored = results.flatMap((result) => (result.scores ? [result.scores] : []));
+  const mean = (pick: (scores: DeckScores) => number) =>
+    scored.length ? scored.reduce((sum, scores) => sum + pick(scores), 0) / scored.length : 0;
+
+  return {
+    cases: results.length,
+    failed: results.length - scored.length,
+    overall: mean((s) => s.overall),
+    validSlideRatio: mean((s) => s.validSlideRatio),
+    meanDensity: mean((s) => s.meanDensity),
+    slideCountError: mean((s) => s.slideCountError),
+    violations: mean((s) => s.violations),
+  };
+}
+
+export interface EvalCaseComparison {
+  id: string;
+  baseline?: number;
+  current?: number;
+  /** current - baseline overall score; undefined when either run failed */
+  delta?: number;
+}
+
+export interface EvalComparison {
+  /** Mean overall change over the shared cases, counting failed cases as 0 */
+  overallDelta: number;
+  /** Cases run in both reports; cases skipped in either are left out */
+  sharedCases: number;
+  cases: EvalCaseComparison[];
+}
+
+/**
+ * Compare overall scores of two reports, per case and in total
+ *
+ * The total compares the same case set in both runs, so a case that fails or
+ * is skipped in one of them cannot raise the delta.
+ */
+export function compareReports(baseline: EvalReport, current: EvalReport): EvalComparison {
+  const baselineScores = new Map(baseline.results.map((r) => [r.id, r.scores?.overall]));
+  const currentScores = new Map(current.results.map((r) => [r.id, r.scores?.overall]));
+  const ids = [...new Set([...baseline.results, ...current.results].map((r) => r.id))];
+  const shared = ids.filter((id) => baselineScores.has(id) && currentScores.has(id));
+  const totalDelta = shared.reduce(
+    (sum, id) => sum + (currentScores.get(id) ?? 0) - (baselineScores.get(id) ?? 0),
+    0
+  );
+
+  return {
+    overallDelta: shared.length ? totalDelta / shared.length : 0,
+    sharedCases: shared.length,
+    cases: ids.map((id) => {
+      const before = baselineScores.get(id);
+      const after = currentScores.get(id);
+      return {
+        id,
+        baseline: before,
+        current: after,
+        delta: before !== undefined && after !== undefined ? after - before : undefined,
+      };
+    }),
+  };
+}
+
+const formatNumber = (value: number | undefined, digits = 1) =>
+  value === undefined ? "–" : value.toFixed(digits);
+
+const formatDelta = (value: number | undefined) =>
+  value === undefined ? "–" : `${value >= 0 ? "+" : ""}${value.toFixed(1)}`;
+
+/**
+ * Markdown summary of a report, with deltas when a baseline is given
+ */
+export function formatReport(report: EvalReport, baseline?: EvalReport): string {
+  const comparison = baseline ? compareReports(baseline, report) : undefined;
+  const lines = [
+    `## ${report.label}`,
+    "",
+    "| Case | Score | Δ | Slides | Target | Violations | Density | Language | Error |",
+    "| --- | --- | --- | --- | --- | --- | --- | --- | --- |",
+  ];
+
+  for (const result of report.results) {
+    const s = result.scores;
+    const delta = comparison?.cases.find((c) => c.id === result.id)?.delta;
+    lines.push(
+      [
+        result.id,
+        formatNumber(s?.overall),
+        formatDelta(delta),
+        s?.slideCount ?? "–",
+        s ? s.slideCountTarget.join("–") : "–",
+        s?.violations ?? "–",
+        formatNumber(s?.meanDensity, 2),
+        s?.languageMatchRatio == null ? "–" : `${Math.round(s.languageMatchRatio * 100)}%`,
+        result.error ?? "",
+      ]
+        .join(" | ")
+        .replace(/^/, "| ")
+        .concat(" |")
+    );
+  }
+
+  lines.push(
+    "",
+    `Overall: ${formatNumber(report.summary.overall)}` +
+      (comparison
+        ? ` (${formatDelta(comparison.overallDelta)} vs ${baseline!.label} over ${comparison.sharedCases} shared cases)`
+        : "") +
+      ` — ${report.summary.failed} of ${report.summary.cases} cases failed, ${report.skipped.length} skipped`
+  );
+
+  return lines.join("\n");
+}
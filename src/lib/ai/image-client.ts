@@ -40,6 +40,15 @@ export interface ImageResult {
   revisedPrompt?: string;
 }
 
+/**
+ * Images produced by one generation request
+ */
+export interface ImageUsage {
+  provider: "openai" | "gemini";
+  model: string;
+  images: number;
+}
+
 /**
  * Image Client interface - abstraction for image generation providers
  */
@@ -62,6 +71,8 @@ export interface OpenAIImageClientConfig {
   size?: "1024x1024" | "1792x1024" | "1024x1792";
   quality?: "standard" | "hd";
   maxRetries?: number;
+  /** Called after each generated image, e.g. to record costs */
+  onUsage?: (usage: ImageUsage) => void;
 }
 
 /**
@@ -86,6 +97,7 @@ export class OpenAIImageClient implements ImageClient {
   private size: "1024x1024" | "1792x1024" | "1024x1792";
   private quality: "standard" | "hd";
   private maxRetries: number;
+  private onUsage?: (usage: ImageUsage) => void;
 
   constructor(config: OpenAIImageClientConfig) {
     this.client = new OpenAI({
@@ -95,6 +107,7 @@ export class OpenAIImageClient implements ImageClient {
     this.size = config.size ?? "1792x1024"; // 16:9-ish for presentations
     this.quality = config.quality ?? "standard";
     this.maxRetries = config.maxRetries ?? 2;
+    this.onUsage = config.onUsage;
   }
 
   async generateImage(prompt: string, style: ImageStyle = "default"): Promise<ImageResult> {
@@ -118,6 +131,7 @@ export class OpenAIImageClient implements ImageClient {
         if (!imageData?.url) {
           throw new ImageError("No image URL in response", "MODEL_ERROR");
         }
+        this.onUsage?.({ provider: "openai", model: this.model, images: 1 });
 
         return {
           url: imageData.url,
@@ -191,6 +205,8 @@ export interface GeminiImageClientConfig {
   aspectRatio?: string;
   imageSize?: string;
   maxRetries?: number;
+  /** Called after each generated image, e.g. to record costs */
+  onUsage?: (usage: ImageUsage) => void;
 }
 
 /**
@@ -203,6 +219,7 @@ export class GeminiImageClient implements ImageClient {
   private aspectRatio: string;
   private imageSize: string;
   private maxRetries: number;
+  private onUsage?: (usage: ImageUsage) => void;
 
   constructor(config: GeminiImageClientConfig) {
     this.ai = new GoogleGenAI({ apiKey: config.apiKey });
@@ -210,6 +227,7 @@ export class GeminiImageClient implements ImageClient {
     this.aspectRatio = config.aspectRatio ?? "16:9";
     this.imageSize = config.imageSize ?? "2K";
     this.maxRetries = config.maxRetries ?? 2;
+    this.onUsage = config.onUsage;
     console.log(`[GeminiImageClient] Initialized with model: ${this.model}`);
   }
 
@@ -245,6 +263,7 @@ export class GeminiImageClient implements ImageClient {
         if (!imagePart?.inlineData?.data) {
           throw new ImageError("No image data in Gemini response", "MODEL_ERROR");
         }
+        this.onUsage?.({ provider: "gemini", model: this.model, images: 1 });
 
         // Convert base64 to Buffer
         const imageBuffer = Buffer.from(imagePart.inlineData.data, "base64");
@@ -350,11 +369,19 @@ export class MockImageClient implements ImageClient {
 // Client Factory
 // ============================================================================
 
+/**
+ * Options for getImageClient
+ */
+export interface ImageClientOptions {
+  /** Called after each generated image, e.g. to record costs */
+  onUsage?: (usage: ImageUsage) => void;
+}
+
 /**
  * Get OpenAI image client
  * Internal helper for fallback scenarios
  */
-function getOpenAIImageClient(): ImageClient {
+function getOpenAIImageClient(options: ImageClientOptions): ImageClient {
   const apiKey = process.env.OPENAI_API_KEY;
   if (!apiKey) {
     throw new Error(
@@ -367,6 +394,7 @@ function getOpenAIImageClient(): ImageClient {
     model: process.env.OPENAI_IMAGE_MODEL ?? "dall-e-3",
     size: (process.env.OPENAI_IMAGE_SIZE as "1024x1024" | "1792x1024") ?? "1792x1024",
     quality: (process.env.OPENAI_IMAGE_QUALITY as "standard" | "hd") ?? "standard",
+    onUsage: options.onUsage,
   });
 }
 
@@ -380,7 +408,7 @@ function getOpenAIImageClient(): ImageClient {
  *
  * Falls back to OpenAI if Gemini API key is not configured.
  */
-export function getImageClient(): ImageClient {
+export function getImageClient(options: ImageClientOptions = {}): ImageClient {
   // Testing mode
   if (process.env.FAKE_LLM === "true") {
     return new MockImageClient();
@@ -394,7 +422,7 @@ export function getImageClient(): ImageClient {
 
     if (!geminiApiKey) {
       console.warn("[image-client] GEMINI_API_KEY not set, falling back to OpenAI");
-      return getOpenAIImageClient();
+      return getOpenAIImageClient(options);
     }
 
     return new GeminiImageClient({
@@ -402,9 +430,10 @@ export function getImageClient(): ImageClient {
       model: process.env.GEMINI_IMAGE_MODEL ?? "gemini-3-pro-image-preview",
       aspectRatio: process.env.GEMINI_ASPECT_RATIO ?? "16:9",
       imageSize: process.env.GEMINI_IMAGE_SIZE ?? "2K",
+      onUsage: options.onUsage,
     });
   }
 
   // OpenAI
-  return getOpenAIImageClient();
+  return getOpenAIImageClient(options);
 }
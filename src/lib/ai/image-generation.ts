@@ -12,7 +12,7 @@ import type { Slide } from "@/lib/schemas/slide";
 import type { Block } from "@/lib/schemas/block";
 import type { Deck, GenerationRequest } from "@/lib/schemas/deck";
 import type { ContentAnalysis } from "./content-analysis";
-import { getImageClient, ImageStyle, ImageError } from "./image-client";
+import { getImageClient, ImageStyle, ImageError, type ImageUsage } from "./image-client";
 import { uploadFile, generateSignedUrl } from "@/lib/storage/s3-client";
 
 /**
@@ -99,6 +99,8 @@ export interface ImageGenerationOptions {
   maxRetriesPerSlide?: number;
   /** Base delay between images to prevent rate limiting (default: 3000ms) */
   baseDelayMs?: number;
+  /** Called after each generated image, e.g. to record costs */
+  onUsage?: (usage: ImageUsage) => void;
 }
 
 /**
@@ -139,6 +141,9 @@ function extractBlockText(block: Block): string {
     case "table":
       // Use column headers for context
       return (block.columns ?? []).join(", ");
+    case "chart":
+      // Chart title and categories describe what the data is about
+      return [block.text, ...(block.categories ?? [])].filter(Boolean).join(", ");
     default:
       return "";
   }
@@ -346,6 +351,11 @@ export function shouldGenerateImage(slide: Slide): boolean {
     return false;
   }
 
+  // Charts take the image slot
+  if (slide.blocks.some((b) => b.kind === "chart")) {
+    return false;
+  }
+
   // Check if slide has an image block that needs generation
   const imageBlock = slide.blocks.find((b) => b.kind === "image");
 
@@ -408,9 +418,10 @@ async function generateSlideImage(
   deckId: string,
   deckTitle: string,
   style: ImageStyle,
-  analysis?: ContentAnalysis
+  analysis?: ContentAnalysis,
+  onUsage?: (usage: ImageUsage) => void
 ): Promise<SlideImageResult> {
-  const imageClient = getImageClient();
+  const imageClient = getImageClient({ onUsage });
 
   // Build prompt from slide content with semantic analysis
   const prompt = buildImagePrompt({
@@ -505,6 +516,7 @@ export async function generateImagesForDeck(
     analysis,
     maxRetriesPerSlide = 1, // Reduced from 3 to minimize wait time
     baseDelayMs = 3000, // Increased from 2000 to prevent rate limits proactively
+    onUsage,
   } = options;
 
   // Find slides that need images
@@ -547,7 +559,8 @@ export async function generateImagesForDeck(
         deckId,
         deck.deck.title,
         style,
-        analysis
+        analysis,
+        onUsage
       );
 
       results.push(result);
@@ -671,6 +684,7 @@ export async function generateImagesForDeckWithResult(
     analysis,
     maxRetriesPerSlide = 1, // Reduced from 3 to minimize wait time
     baseDelayMs = 3000, // Increased from 2000 to prevent rate limits proactively
+    onUsage,
   } = options;
 
   // Find slides that need images
@@ -714,7 +728,8 @@ export async function generateImagesForDeckWithResult(
         deckId,
         deck.deck.title,
         style,
-        analysis
+        analysis,
+        onUsage
       );
 
       results.push(result);
@@ -428,3 +428,82 @@ export function assignLayoutVariantsWithContext(slides: Slide[]): Slide[] {
 
   return result;
 }
+
+/**
+ * Variant a bullets slide renders with
+ * Explicit variants are respected; "default" picks a layout from the item
+ * count and text length. Shared by the slide component and the PPTX export.
+ */
+export function resolveBulletsVariant(items: string[], explicitVariant?: string): string {
+  // If explicitly set, respect it
+  if (explicitVariant && explicitVariant !== "default") {
+    return explicitVariant;
+  }
+
+  const count = items.length;
+  const avgLength = items.reduce((sum, item) => sum + item.length, 0) / (count || 1);
+  const maxLength = Math.max(...items.map((item) => item.length), 0);
+
+  // Very short items (keywords/phrases) → cards layout
+  if (count <= 4 && avgLength < 40) {
+    return "cards";
+  }
+
+  // Few items with medium text → cards
+  if (count <= 3 && avgLength < 80) {
+    return "cards";
+  }
+
+  // 4-6 items → grid (2 columns)
+  if (count >= 4 && count <= 6) {
+    return "grid";
+  }
+
+  // 7-8 items → grid (will use 2-3 columns)
+  if (count >= 7 && count <= 8) {
+    return "grid";
+  }
+
+  // Many items (9+) with short text → two_columns
+  if (count >= 9 && avgLength < 60) {
+    return "two_columns";
+  }
+
+  // Long text items → default list for readability
+  if (maxLength > 120 || avgLength > 80) {
+    return "default";
+  }
+
+  // Default to grid for premium look
+  return "grid";
+}
+
+/**
+ * Variant an agenda slide renders with
+ * Agendas typically have shorter items, so we favor cards/grid
+ */
+export function resolveAgendaVariant(items: string[], explicitVariant?: string): string {
+  if (explicitVariant && explicitVariant !== "default") {
+    return explicitVariant;
+  }
+
+  const count = items.length;
+  const avgLength = items.reduce((sum, item) => sum + item.length, 0) / (count || 1);
+
+  // Agenda items are typically short - favor cards for ≤5 items
+  if (count <= 5 && avgLength < 60) {
+    return "cards";
+  }
+
+  // 6-8 items → grid
+  if (count >= 6 && count <= 8) {
+    return "grid";
+  }
+
+  // Many items → grid with 3 columns
+  if (count > 8) {
+    return "grid";
+  }
+
+  return "cards";
+}
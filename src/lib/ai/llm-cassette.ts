@@ -0,0 +1,238 @@
+import { createHash } from "crypto";
+import { mkdir, readFile, writeFile } from "fs/promises";
+import { dirname } from "path";
+import { ZodSchema } from "zod";
+import { parse as parsePartialJSON } from "partial-json";
+import { LLMError, parseJSONResponse, type LLMClient, type StreamingCallback } from "./llm-client";
+
+/**
+ * LLM Cassettes
+ *
+ * Record real request/response pairs once and replay them offline, so the
+ * whole GenerationPipeline can run in vitest against realistic model output
+ * instead of the hand-written MockLLMClient fixtures.
+ *
+ * Interactions are keyed by a hash of the system and user prompt. A prompt
+ * change therefore shows up as a missing recording; re-record the cassette
+ * with scripts/record-llm-cassette.ts.
+ */
+
+const CASSETTE_VERSION = 1;
+
+/** Characters of the user prompt kept next to each hash, for readable diffs */
+const PROMPT_PREVIEW_LENGTH = 120;
+
+/**
+ * One recorded call: the validated response, or the error the client threw
+ */
+export type CassetteResponse =
+  | { response: unknown }
+  | { error: { code: LLMError["code"]; message: string } };
+
+export interface CassetteInteraction {
+  prompt: string;
+  /** Responses in call order; replay repeats the last one when exhausted */
+  responses: CassetteResponse[];
+}
+
+export interface CassetteFile {
+  version: number;
+  /** Free-form details of how the cassette was recorded, e.g. provider and request */
+  meta: Record<string, unknown>;
+  interactions: Record<string, CassetteInteraction>;
+}
+
+/**
+ * Hash identifying a prompt pair in a cassette
+ */
+export function getPromptHash(systemPrompt: string, userPrompt: string): string {
+  return createHash("sha256")
+    .update(JSON.stringify([systemPrompt, userPrompt]))
+    .digest("hex")
+    .slice(0, 16);
+}
+
+/**
+ * Recorded interactions backed by a JSON file
+ */
+export class LLMCassette {
+  private interactions = new Map<string, CassetteInteraction>();
+  private replayed = new Map<string, number>();
+
+  constructor(
+    public readonly path: string,
+    public meta: Record<string, unknown> = {}
+  ) {}
+
+  /**
+   * Load a cassette from disk
+   * @throws Error when the file is missing or not a cassette
+   */
+  static async load(path: string): Promise<LLMCassette> {
+    const file = JSON.parse(await readFile(path, "utf-8")) as CassetteFile;
+    if (file.version !== CASSETTE_VERSION || !file.interactions) {
+      throw new Error(`${path} is not a version ${CASSETTE_VERSION} LLM cassette`);
+    }
+
+    const cassette = new LLMCassette(path, file.meta ?? {});
+    for (const [hash, interaction] of Object.entries(file.interactions)) {
+      cassette.interactions.set(hash, interaction);
+    }
+    return cassette;
+  }
+
+  get size(): number {
+    return this.interactions.size;
+  }
+
+  record(systemPrompt: string, userPrompt: string, response: CassetteResponse): void {
+    const hash = getPromptHash(systemPrompt, userPrompt);
+    const interaction = this.interactions.get(hash) ?? {
+      prompt: userPrompt.slice(0, PROMPT_PREVIEW_LENGTH),
+      responses: [],
+    };
+
+    interaction.responses.push(response);
+    this.interactions.set(hash, interaction);
+  }
+
+  /**
+   * Next recorded response for a prompt pair, or undefined when none was recorded
+   */
+  next(systemPrompt: string, userPrompt: string): CassetteResponse | undefined {
+    const hash = getPromptHash(systemPrompt, userPrompt);
+    const interaction = this.interactions.get(hash);
+    if (!interaction || interaction.responses.length === 0) return undefined;
+
+    const index = this.replayed.get(hash) ?? 0;
+    this.replayed.set(hash, index + 1);
+    return interaction.responses[Math.min(index, interaction.responses.length - 1)];
+  }
+
+  /**
+   * Write the cassette to its path, sorted by hash for stable diffs
+   */
+  async save(): Promise<void> {
+    const file: CassetteFile = {
+      version: CASSETTE_VERSION,
+      meta: this.meta,
+      interactions: Object.fromEntries(
+        [...this.interactions.entries()].sort(([a], [b]) => a.localeCompare(b))
+      ),
+    };
+
+    await mkdir(dirname(this.path), { recursive: true });
+    await writeFile(this.path, JSON.stringify(file, null, 2) + "\n");
+  }
+}
+
+/**
+ * LLMClient wrapper that records every response (and LLM error) of the wrapped client
+ * Call cassette.save() when done.
+ */
+export class RecordingLLMClient implements LLMClient {
+  constructor(
+    private inner: LLMClient,
+    private cassette: LLMCassette
+  ) {}
+
+  async generateJSON<T>(
+    systemPrompt: string,
+    userPrompt: string,
+    schema: ZodSchema<T>
+  ): Promise<T> {
+    return this.capture(systemPrompt, userPrompt, () =>
+      this.inner.generateJSON(systemPrompt, userPrompt, schema)
+    );
+  }
+
+  async generateJSONStreaming<T>(
+    systemPrompt: string,
+    userPrompt: string,
+    schema: ZodSchema<T>,
+    callbacks: StreamingCallback
+  ): Promise<T> {
+    return this.capture(systemPrompt, userPrompt, () =>
+      this.inner.generateJSONStreaming(systemPrompt, userPrompt, schema, callbacks)
+    );
+  }
+
+  private async capture<T>(
+    systemPrompt: string,
+    userPrompt: string,
+    call: () => Promise<T>
+  ): Promise<T> {
+    try {
+      const response = await call();
+      this.cassette.record(systemPrompt, userPrompt, { response });
+      return response;
+    } catch (error) {
+      // Only model-level failures are reproducible; network errors are not recorded
+      if (error instanceof LLMError) {
+        this.cassette.record(systemPrompt, userPrompt, {
+          error: { code: error.code, message: error.message },
+        });
+      }
+      throw error;
+    }
+  }
+}
+
+/**
+ * LLMClient serving recorded responses offline
+ * Prompts without a recording fail with MODEL_ERROR.
+ */
+export class ReplayLLMClient implements LLMClient {
+  /** Hashes of prompts without a recording; pipeline fallbacks may hide the error */
+  readonly misses: string[] = [];
+
+  constructor(private cassette: LLMCassette) {}
+
+  async generateJSON<T>(
+    systemPrompt: string,
+    userPrompt: string,
+    schema: ZodSchema<T>
+  ): Promise<T> {
+    const recorded = this.cassette.next(systemPrompt, userPrompt);
+    if (!recorded) {
+      const hash = getPromptHash(systemPrompt, userPrompt);
+      this.misses.push(hash);
+      throw new LLMError(
+        `No recorded response for prompt ${hash} in ${this.cassette.path} (re-record the cassette)`,
+        "MODEL_ERROR"
+      );
+    }
+
+    if ("error" in recorded) {
+      throw new LLMError(recorded.error.message, recorded.error.code);
+    }
+
+    // Validate again: the schema may have changed since recording
+    return parseJSONResponse(JSON.stringify(recorded.response), schema);
+  }
+
+  /**
+   * Replays the recorded response as a token stream
+   */
+  async generateJSONStreaming<T>(
+    systemPrompt: string,
+    userPrompt: string,
+    schema: ZodSchema<T>,
+    callbacks: StreamingCallback
+  ): Promise<T> {
+    const result = await this.generateJSON(systemPrompt, userPrompt, schema);
+    const json = JSON.stringify(result);
+
+    for (let i = 0; i < json.length; i += 16) {
+      callbacks.onToken?.(json.slice(i, i + 16));
+      try {
+        callbacks.onPartialJSON?.(parsePartialJSON(json.slice(0, i + 16)));
+      } catch {
+        // Partial parsing failed, continue
+      }
+    }
+
+    callbacks.onComplete?.(result);
+    return result;
+  }
+}
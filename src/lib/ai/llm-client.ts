@@ -1,7 +1,6 @@
 import OpenAI from "openai";
 import { z, ZodSchema } from "zod";
 import { parse as parsePartialJSON } from "partial-json";
-import { MockLLMClient } from "./mock-llm";
 
 /**
  * LLM Error types
@@ -17,6 +16,19 @@ export class LLMError extends Error {
   }
 }
 
+/**
+ * Sampling temperature when none is configured
+ */
+export const DEFAULT_LLM_TEMPERATURE = 0.7;
+
+/**
+ * Tokens used by one LLM request
+ */
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
 /**
  * Streaming callback interface for character-level streaming
  */
@@ -56,6 +68,34 @@ export interface LLMClient {
   ): Promise<T>;
 }
 
+/**
+ * Parse and validate a model's JSON response
+ * @throws LLMError with PARSE_ERROR or INVALID_RESPONSE
+ */
+export function parseJSONResponse<T>(content: string, schema: ZodSchema<T>): T {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch (parseError) {
+    throw new LLMError(
+      `Failed to parse JSON response: ${content.slice(0, 200)}...`,
+      "PARSE_ERROR",
+      parseError
+    );
+  }
+
+  const result = schema.safeParse(parsed);
+  if (!result.success) {
+    throw new LLMError(
+      `Response validation failed: ${result.error.message}`,
+      "INVALID_RESPONSE",
+      result.error
+    );
+  }
+
+  return result.data;
+}
+
 /**
  * Configuration for OpenAI client
  */
@@ -64,24 +104,54 @@ export interface OpenAIClientConfig {
   model?: string;
   maxRetries?: number;
   temperature?: number;
+  /** Chat Completions endpoint, for OpenAI-compatible servers (vLLM, Ollama) */
+  baseURL?: string;
+  /** Custom fetch implementation */
+  fetch?: typeof fetch;
+  /** Preconfigured SDK client, e.g. AzureOpenAI; apiKey, baseURL and fetch are then ignored */
+  client?: OpenAI;
+  /** Provider name used in error messages */
+  providerName?: string;
+  /** Called after each successful request with its token usage */
+  onUsage?: (usage: TokenUsage) => void;
 }
 
 /**
  * OpenAI LLM Client implementation
+ *
+ * Also serves Azure OpenAI and OpenAI-compatible servers, which share the
+ * Chat Completions API.
  */
 export class OpenAIClient implements LLMClient {
   private client: OpenAI;
   private model: string;
   private maxRetries: number;
   private temperature: number;
+  private providerName: string;
+  private onUsage?: (usage: TokenUsage) => void;
 
   constructor(config: OpenAIClientConfig) {
-    this.client = new OpenAI({
-      apiKey: config.apiKey,
-    });
+    this.client =
+      config.client ??
+      new OpenAI({
+        apiKey: config.apiKey,
+        baseURL: config.baseURL,
+        fetch: config.fetch,
+      });
     this.model = config.model ?? "gpt-4o";
     this.maxRetries = config.maxRetries ?? 3;
-    this.temperature = config.temperature ?? 0.7;
+    this.temperature = config.temperature ?? DEFAULT_LLM_TEMPERATURE;
+    this.providerName = config.providerName ?? "OpenAI";
+    this.onUsage = config.onUsage;
+  }
+
+  private reportUsage(usage: OpenAI.CompletionUsage | null | undefined): void {
+    if (usage) {
+      this.onUsage?.({
+        promptTokens: usage.prompt_tokens,
+        completionTokens: usage.completion_tokens,
+      });
+    }
   }
 
   async generateJSON<T>(
@@ -103,36 +173,14 @@ export class OpenAIClient implements LLMClient {
           response_format: { type: "json_object" },
         });
 
+        this.reportUsage(response.usage);
         const content = response.choices[0]?.message?.content;
 
         if (!content) {
           throw new LLMError("Empty response from model", "MODEL_ERROR");
         }
 
-        // Parse JSON
-        let parsed: unknown;
-        try {
-          parsed = JSON.parse(content);
-        } catch (parseError) {
-          throw new LLMError(
-            `Failed to parse JSON response: ${content.slice(0, 200)}...`,
-            "PARSE_ERROR",
-            parseError
-          );
-        }
-
-        // Validate against schema
-        const result = schema.safeParse(parsed);
-
-        if (!result.success) {
-          throw new LLMError(
-            `Response validation failed: ${result.error.message}`,
-            "INVALID_RESPONSE",
-            result.error
-          );
-        }
-
-        return result.data;
+        return parseJSONResponse(content, schema);
       } catch (error) {
         lastError = error;
 
@@ -148,7 +196,7 @@ export class OpenAIClient implements LLMClient {
             await this.sleep(Math.pow(2, attempt) * 1000);
             continue;
           }
-          throw new LLMError("Rate limited by OpenAI API", "RATE_LIMITED", error);
+          throw new LLMError(`Rate limited by ${this.providerName} API`, "RATE_LIMITED", error);
         }
 
         // Handle API errors
@@ -157,7 +205,11 @@ export class OpenAIClient implements LLMClient {
             await this.sleep(1000 * attempt);
             continue;
           }
-          throw new LLMError(`OpenAI API error: ${error.message}`, "MODEL_ERROR", error);
+          throw new LLMError(
+            `${this.providerName} API error: ${error.message}`,
+            "MODEL_ERROR",
+            error
+          );
         }
 
         // Re-throw LLM errors
@@ -207,10 +259,13 @@ export class OpenAIClient implements LLMClient {
         temperature: this.temperature,
         response_format: { type: "json_object" },
         stream: true,
+        stream_options: { include_usage: true },
       });
 
       // Process streaming chunks
       for await (const chunk of stream) {
+        // Usage arrives on the last chunk, which has no choices
+        this.reportUsage(chunk.usage);
         const delta = chunk.choices[0]?.delta?.content;
         if (delta) {
           accumulated += delta;
@@ -231,29 +286,9 @@ export class OpenAIClient implements LLMClient {
         throw new LLMError("Empty response from streaming", "MODEL_ERROR");
       }
 
-      let parsed: unknown;
-      try {
-        parsed = JSON.parse(accumulated);
-      } catch (parseError) {
-        throw new LLMError(
-          `Failed to parse JSON response: ${accumulated.slice(0, 200)}...`,
-          "PARSE_ERROR",
-          parseError
-        );
-      }
-
-      // Validate against schema
-      const result = schema.safeParse(parsed);
-      if (!result.success) {
-        throw new LLMError(
-          `Response validation failed: ${result.error.message}`,
-          "INVALID_RESPONSE",
-          result.error
-        );
-      }
-
-      callbacks.onComplete?.(result.data);
-      return result.data;
+      const result = parseJSONResponse(accumulated, schema);
+      callbacks.onComplete?.(result);
+      return result;
     } catch (error) {
       // Notify about streaming error
       callbacks.onError?.(error as Error);
@@ -267,23 +302,3 @@ export class OpenAIClient implements LLMClient {
     }
   }
 }
-
-/**
- * Get default LLM client based on environment
- * Uses FAKE_LLM=true for testing, otherwise OpenAI
- */
-export function getLLMClient(): LLMClient {
-  if (process.env.FAKE_LLM === "true") {
-    return new MockLLMClient();
-  }
-
-  const apiKey = process.env.OPENAI_API_KEY;
-  if (!apiKey) {
-    throw new Error("OPENAI_API_KEY environment variable is required");
-  }
-
-  return new OpenAIClient({
-    apiKey,
-    model: process.env.OPENAI_MODEL ?? "gpt-4o",
-  });
-}
@@ -0,0 +1,227 @@
+/**
+ * LLM Provider Registry
+ *
+ * Maps provider ids to factories for LLMClient implementations. The default
+ * provider comes from LLM_PROVIDER; workspaces can override provider and
+ * model. Credentials and endpoints always come from the environment.
+ */
+
+import { AzureOpenAI } from "openai";
+import {
+  DEFAULT_LLM_TEMPERATURE,
+  OpenAIClient,
+  type LLMClient,
+  type TokenUsage,
+} from "./llm-client";
+import { AnthropicClient, DEFAULT_ANTHROPIC_MODEL } from "./anthropic-client";
+import { MockLLMClient } from "./mock-llm";
+
+export type LLMEnv = Record<string, string | undefined>;
+
+/**
+ * Per-client settings passed to a provider factory
+ */
+export interface LLMProviderOptions {
+  /** Model (or Azure deployment) overriding the provider's environment default */
+  model?: string;
+  temperature?: number;
+  /** Custom fetch implementation, e.g. for tests or an egress proxy */
+  fetch?: typeof fetch;
+  onUsage?: (usage: TokenUsage) => void;
+}
+
+export interface LLMProvider {
+  id: string;
+  /** Display name */
+  label: string;
+  /** Model used when none is selected; undefined when the environment lacks one */
+  defaultModel(env: LLMEnv): string | undefined;
+  /** Create a client; throws when required environment variables are missing */
+  create(env: LLMEnv, options: LLMProviderOptions): LLMClient;
+}
+
+/**
+ * Provider and model selection, e.g. from workspace settings
+ */
+export interface LLMClientOptions {
+  provider?: string;
+  model?: string;
+  temperature?: number;
+  /** Called after each request with its token usage, e.g. to record costs */
+  onUsage?: (usage: LLMUsage) => void;
+}
+
+/**
+ * Provider, model and temperature a client actually uses
+ */
+export interface LLMSelection {
+  provider: string;
+  model: string;
+  temperature: number;
+}
+
+/**
+ * Token usage of one request, with the client's selection
+ */
+export interface LLMUsage extends LLMSelection, TokenUsage {
+  /** Pipeline stage or transformation the request belongs to */
+  stage?: string;
+}
+
+function requireEnv(env: LLMEnv, name: string): string {
+  const value = env[name];
+  if (!value) {
+    throw new Error(`${name} environment variable is required`);
+  }
+  return value;
+}
+
+const openAIProvider: LLMProvider = {
+  id: "openai",
+  label: "OpenAI",
+  defaultModel: (env) => env.OPENAI_MODEL ?? "gpt-4o",
+  create: (env, options) =>
+    new OpenAIClient({
+      apiKey: requireEnv(env, "OPENAI_API_KEY"),
+      model: options.model ?? openAIProvider.defaultModel(env),
+      baseURL: env.OPENAI_BASE_URL,
+      temperature: options.temperature,
+      fetch: options.fetch,
+      onUsage: options.onUsage,
+    }),
+};
+
+const azureOpenAIProvider: LLMProvider = {
+  id: "azure_openai",
+  label: "Azure OpenAI",
+  defaultModel: (env) => env.AZURE_OPENAI_DEPLOYMENT,
+  create: (env, options) => {
+    const apiKey = requireEnv(env, "AZURE_OPENAI_API_KEY");
+    const deployment = options.model ?? requireEnv(env, "AZURE_OPENAI_DEPLOYMENT");
+
+    return new OpenAIClient({
+      apiKey,
+      // Azure routes by deployment; the model field is sent but not used
+      model: deployment,
+      temperature: options.temperature,
+      onUsage: options.onUsage,
+      providerName: "Azure OpenAI",
+      client: new AzureOpenAI({
+        apiKey,
+        endpoint: requireEnv(env, "AZURE_OPENAI_ENDPOINT"),
+        deployment,
+        apiVersion: env.AZURE_OPENAI_API_VERSION ?? "2024-10-21",
+        fetch: options.fetch,
+      }),
+    });
+  },
+};
+
+const anthropicProvider: LLMProvider = {
+  id: "anthropic",
+  label: "Anthropic",
+  defaultModel: (env) => env.ANTHROPIC_MODEL ?? DEFAULT_ANTHROPIC_MODEL,
+  create: (env, options) =>
+    new AnthropicClient({
+      apiKey: requireEnv(env, "ANTHROPIC_API_KEY"),
+      model: options.model ?? anthropicProvider.defaultModel(env),
+      baseURL: env.ANTHROPIC_BASE_URL,
+      temperature: options.temperature,
+      fetch: options.fetch,
+      onUsage: options.onUsage,
+    }),
+};
+
+const openAICompatibleProvider: LLMProvider = {
+  id: "openai_compatible",
+  label: "OpenAI-compatible (vLLM, Ollama)",
+  defaultModel: (env) => env.LLM_COMPATIBLE_MODEL,
+  create: (env, options) =>
+    new OpenAIClient({
+      // Local servers usually accept any key, but the SDK requires one
+      apiKey: env.LLM_COMPATIBLE_API_KEY || "not-needed",
+      baseURL: requireEnv(env, "LLM_COMPATIBLE_BASE_URL"),
+      model: options.model ?? requireEnv(env, "LLM_COMPATIBLE_MODEL"),
+      temperature: options.temperature,
+      fetch: options.fetch,
+      onUsage: options.onUsage,
+      providerName: "OpenAI-compatible",
+    }),
+};
+
+const providers = new Map<string, LLMProvider>(
+  [openAIProvider, azureOpenAIProvider, anthropicProvider, openAICompatibleProvider].map(
+    (provider) => [provider.id, provider]
+  )
+);
+
+/**
+ * Register a provider, replacing any provider with the same id
+ * @returns Function that removes the registration again
+ */
+export function registerLLMProvider(provider: LLMProvider): () => void {
+  providers.set(provider.id, provider);
+  return () => {
+    if (providers.get(provider.id) === provider) {
+      providers.delete(provider.id);
+    }
+  };
+}
+
+/**
+ * Get a registered provider by id
+ */
+export function getLLMProvider(id: string): LLMProvider | undefined {
+  return providers.get(id);
+}
+
+/**
+ * List registered providers
+ */
+export function listLLMProviders(): LLMProvider[] {
+  return [...providers.values()];
+}
+
+/**
+ * Resolve which provider, model and temperature a client would use
+ *
+ * - FAKE_LLM=true → provider "mock"
+ * - options.provider (workspace setting), else LLM_PROVIDER, else "openai"
+ * - options.model overrides the provider's model from the environment
+ */
+export function resolveLLMSelection(
+  options: LLMClientOptions = {},
+  env: LLMEnv = process.env
+): LLMSelection {
+  const temperature = options.temperature ?? DEFAULT_LLM_TEMPERATURE;
+  if (env.FAKE_LLM === "true") {
+    return { provider: "mock", model: "mock", temperature };
+  }
+
+  const id = options.provider ?? env.LLM_PROVIDER ?? "openai";
+  const provider = providers.get(id);
+  if (!provider) {
+    throw new Error(
+      `Unknown LLM provider "${id}" (available: ${[...providers.keys()].join(", ")})`
+    );
+  }
+
+  return { provider: id, model: options.model ?? provider.defaultModel(env) ?? "", temperature };
+}
+
+/**
+ * Get an LLM client for the configured provider (see resolveLLMSelection)
+ */
+export function getLLMClient(options: LLMClientOptions = {}, env: LLMEnv = process.env): LLMClient {
+  const selection = resolveLLMSelection(options, env);
+  if (selection.provider === "mock") {
+    return new MockLLMClient();
+  }
+
+  return providers.get(selection.provider)!.create(env, {
+    // An empty model lets the provider report its missing environment variable
+    model: selection.model || undefined,
+    temperature: selection.temperature,
+    onUsage: options.onUsage && ((tokens) => options.onUsage!({ ...selection, ...tokens })),
+  });
+}
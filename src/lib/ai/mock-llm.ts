@@ -3,6 +3,7 @@ import type { LLMClient, StreamingCallback } from "./llm-client";
 import { OutlineSchema, type Outline } from "@/lib/schemas/slide";
 import { DeckSchema, type Deck } from "@/lib/schemas/deck";
 import { SlideSchema, type Slide } from "@/lib/schemas/slide";
+import type { GoldenSlideType } from "@/lib/templates/types";
 
 /**
  * Mock LLM Client for deterministic testing
@@ -32,6 +33,11 @@ export class MockLLMClient implements LLMClient {
       mockData = this.getMockSplitSlides();
     } else if (systemLower.includes("repair") || systemLower.includes("fix")) {
       mockData = this.getMockRepairedSlide(userPrompt);
+    } else if (systemLower.includes("speaker notes writer")) {
+      mockData = this.getMockSpeakerNotes(userPrompt);
+    } else if (systemLower.includes("presentation content writer")) {
+      // Golden template slot content (see GenerationPipeline.generateSlotContent)
+      mockData = this.getMockSlotContent(userPrompt);
     } else if (systemLower.includes("slide") || systemLower.includes("content")) {
       // Pass combined prompt so we can detect slide type from system prompt
       mockData = this.getMockSlide(combinedPrompt);
@@ -128,6 +134,18 @@ export class MockLLMClient implements LLMClient {
     return partial + "]".repeat(Math.max(0, brackets)) + "}".repeat(Math.max(0, braces));
   }
 
+  /**
+   * Speaker notes that refer to the slide title (see GenerationPipeline.generateSpeakerNotes)
+   */
+  private getMockSpeakerNotes(userPrompt: string): { notes: string } {
+    const titleLine = userPrompt.split("\n").find((line) => line.startsWith("title: "));
+    const title = titleLine?.slice("title: ".length) ?? "denne sliden";
+
+    return {
+      notes: `Start med å introdusere ${title}. Trekk fram det viktigste poenget og gi et konkret eksempel fra materialet før du går videre.`,
+    };
+  }
+
   private getMockOutline(userPrompt: string): Outline {
     // Detect content type from prompt
     const promptLower = userPrompt.toLowerCase();
@@ -479,6 +497,27 @@ export class MockLLMClient implements LLMClient {
     };
   }
 
+  /**
+   * Detect the golden slot type from the first line of the golden-content prompt
+   * (the rest of the prompt contains user text, which must not affect detection)
+   */
+  private getMockSlotContent(userPrompt: string): unknown {
+    const firstLine = userPrompt.split("\n")[0].toLowerCase();
+
+    let slotType: GoldenSlideType = "content";
+    if (firstLine.includes("nøkkeltall")) slotType = "stats";
+    else if (firstLine.includes("nøkkelfunksjoner")) slotType = "icon_grid";
+    else if (firstLine.includes("tidslinje")) slotType = "timeline";
+    else if (firstLine.includes("sjekkliste")) slotType = "checklist";
+    else if (firstLine.includes("nummererte steg")) slotType = "numbered_steps";
+    else if (firstLine.includes("sirkeldiagram")) slotType = "circle_diagram";
+    else if (firstLine.includes("oppsummer")) slotType = "bullets";
+    else if (firstLine.includes("presentasjonstittel")) slotType = "cover";
+    else if (firstLine.includes("call to action")) slotType = "cta";
+
+    return MOCK_FIXTURES.golden[slotType];
+  }
+
   private getMockRepairedSlide(userPrompt: string): Slide {
     // Return a slide with shortened content
     return {
@@ -560,4 +599,96 @@ export const MOCK_FIXTURES = {
       ],
     },
   },
+
+  /** Golden template slot content, keyed by golden slide type */
+  golden: {
+    cover: {
+      title: "Prosjekt Fenix statusrapport",
+      body: "Fremdrift, beslutninger og veien videre",
+    },
+    stats: {
+      title: "Nøkkeltall",
+      body: "Resultater fra siste periode",
+      items: [
+        { value: "24%", label: "Økning i salg" },
+        { value: "1.2M", label: "Aktive brukere" },
+        { value: "98%", label: "Kundetilfredshet" },
+      ],
+    },
+    content: {
+      title: "Strategisk retning",
+      body: "Vi investerer i kjerneteknologi og utvider markedsposisjonen, med fokus på bærekraftige løsninger.",
+      imageDescription: "Team som samarbeider i moderne kontor",
+    },
+    bullets: {
+      title: "Viktige funn",
+      items: [
+        { text: "Markedsandelen økte med 3 prosentpoeng" },
+        { text: "Kundetilfredsheten er på rekordnivå" },
+        { text: "Nye produkter utgjør 40% av omsetningen" },
+        { text: "Kostnadene er redusert med 15%" },
+      ],
+    },
+    cta: {
+      title: "Neste steg",
+      body: "La oss ta dette videre sammen",
+      items: [{ text: "Godkjenn planen innen fredag" }, { text: "Planlegg oppfølgingsmøte" }],
+    },
+    icon_grid: {
+      title: "Nøkkelfunksjoner",
+      items: [
+        {
+          icon: "zap",
+          text: "Sanntidsdata",
+          description: "Se endringer i det øyeblikket de skjer",
+        },
+        {
+          icon: "bell",
+          text: "Smarte varsler",
+          description: "Varsler kun når noe krever handling",
+        },
+        {
+          icon: "users",
+          text: "Delte dashboards",
+          description: "Hele teamet ser de samme tallene",
+        },
+        { icon: "lock", text: "Sikker tilgang", description: "Tilgangsstyring på feltnivå" },
+      ],
+    },
+    timeline: {
+      title: "Fremdrift",
+      items: [
+        { text: "Forstudie", description: "Behov og gevinster kartlagt", status: "completed" },
+        { text: "Design", description: "Løsningsarkitektur godkjent", status: "completed" },
+        { text: "Utvikling", description: "Kjernefunksjonalitet bygges", status: "current" },
+        { text: "Lansering", description: "Utrulling til alle brukere", status: "upcoming" },
+      ],
+    },
+    checklist: {
+      title: "Beslutninger",
+      items: [
+        { text: "Leverandør for skyplattform er valgt", status: "completed" },
+        { text: "Budsjett for fase 2 er godkjent", status: "completed" },
+        { text: "Dato for produksjonssetting må besluttes", status: "upcoming" },
+      ],
+    },
+    numbered_steps: {
+      title: "Tiltak",
+      items: [
+        { text: "Avklare testmiljø", description: "Kari sørger for tilgang innen 1. april" },
+        { text: "Fullføre datamigrering", description: "Per leder migreringen" },
+        { text: "Lære opp superbrukere", description: "Anna holder to workshops" },
+      ],
+    },
+    circle_diagram: {
+      title: "Vår modell",
+      body: "Kunden",
+      items: [
+        { text: "Innsikt", description: "Vi forstår behovene før vi bygger" },
+        { text: "Design", description: "Løsninger som er enkle å ta i bruk" },
+        { text: "Levering", description: "Korte iterasjoner med målbar effekt" },
+        { text: "Oppfølging", description: "Vi måler og forbedrer kontinuerlig" },
+      ],
+    },
+  } as Record<GoldenSlideType, unknown>,
 };
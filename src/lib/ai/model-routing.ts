@@ -0,0 +1,151 @@
+/**
+ * Model Routing
+ *
+ * Per-stage model and temperature for the generation pipeline, the editor's
+ * AI actions and the slide transform agent, so cheap stages (repair, split)
+ * can run on a smaller model than the outline. The editor's repair_all and
+ * shorten actions use the repair route; split uses the split route. Routing comes from LLM_MODEL_ROUTING (JSON) and the
+ * workspace's llmRouting setting, which wins per stage.
+ *
+ * Example: {"outline":{"model":"gpt-4o"},"repair":{"model":"gpt-4o-mini","temperature":0.2}}
+ */
+
+import { z } from "zod";
+import type { LLMClient } from "./llm-client";
+import {
+  getLLMClient,
+  resolveLLMSelection,
+  type LLMClientOptions,
+  type LLMEnv,
+  type LLMSelection,
+} from "./llm-providers";
+import { TRANSFORMATION_TYPES, type TransformationType } from "./prompts/slide-transform";
+
+/**
+ * Pipeline stages that call the LLM
+ * Template slot filling counts as content.
+ */
+export const LLM_STAGES = ["outline", "content", "repair", "split", "notes"] as const;
+
+export type LLMStage = (typeof LLM_STAGES)[number];
+
+/**
+ * Routing keys: pipeline stages, "transform" for every slide transformation,
+ * and "transform.<type>" for one predefined transformation
+ */
+export type ModelRouteKey = LLMStage | "transform" | `transform.${TransformationType}`;
+
+export const MODEL_ROUTE_KEYS: readonly ModelRouteKey[] = [
+  ...LLM_STAGES,
+  "transform",
+  ...TRANSFORMATION_TYPES.map((type) => `transform.${type}` as const),
+];
+
+export const StageModelSchema = z
+  .object({
+    provider: z.string().min(1).optional(),
+    model: z.string().min(1).max(200).optional(),
+    temperature: z.number().min(0).max(2).optional(),
+  })
+  .strict();
+
+export type StageModel = z.infer<typeof StageModelSchema>;
+
+export const ModelRoutingSchema = z.partialRecord(
+  z.enum(MODEL_ROUTE_KEYS as [ModelRouteKey, ...ModelRouteKey[]]),
+  StageModelSchema
+);
+
+export type ModelRouting = Partial<Record<ModelRouteKey, StageModel>>;
+
+/**
+ * Read routing from LLM_MODEL_ROUTING
+ * @throws Error when the variable is not valid routing JSON
+ */
+export function getEnvModelRouting(env: LLMEnv = process.env): ModelRouting {
+  const raw = env.LLM_MODEL_ROUTING;
+  if (!raw) return {};
+
+  let json: unknown;
+  try {
+    json = JSON.parse(raw);
+  } catch {
+    throw new Error("LLM_MODEL_ROUTING must be a JSON object");
+  }
+
+  const result = ModelRoutingSchema.safeParse(json);
+  if (!result.success) {
+    throw new Error(`Invalid LLM_MODEL_ROUTING: ${result.error.message}`);
+  }
+  return result.data;
+}
+
+/**
+ * Combine routing layers; later layers replace earlier ones per key
+ */
+export function mergeModelRouting(...layers: Array<ModelRouting | null | undefined>): ModelRouting {
+  return Object.assign({}, ...layers.filter(Boolean));
+}
+
+/**
+ * Client options for one route key
+ *
+ * "transform.<type>" falls back to "transform", then to the base options.
+ * A stage that switches provider does not inherit the base model. Usage
+ * reported by the client is tagged with the route key.
+ */
+export function resolveStageOptions(
+  base: LLMClientOptions,
+  routing: ModelRouting,
+  key: ModelRouteKey
+): LLMClientOptions {
+  const route = routing[key] ?? (key.startsWith("transform.") ? routing.transform : undefined);
+  const switchesProvider = route?.provider !== undefined && route.provider !== base.provider;
+
+  return {
+    provider: route?.provider ?? base.provider,
+    model: route?.model ?? (switchesProvider ? undefined : base.model),
+    temperature: route?.temperature ?? base.temperature,
+    onUsage: base.onUsage && ((usage) => base.onUsage!({ ...usage, stage: key })),
+  };
+}
+
+export interface PipelineLLMs {
+  clients: Record<LLMStage, LLMClient>;
+  /** Resolved choice per stage, for the generation job record */
+  selections: Record<LLMStage, LLMSelection>;
+}
+
+/**
+ * Create one client per pipeline stage
+ */
+export function createPipelineLLMs(
+  base: LLMClientOptions,
+  routing: ModelRouting,
+  env: LLMEnv = process.env
+): PipelineLLMs {
+  const clients = {} as Record<LLMStage, LLMClient>;
+  const selections = {} as Record<LLMStage, LLMSelection>;
+
+  for (const stage of LLM_STAGES) {
+    const options = resolveStageOptions(base, routing, stage);
+    clients[stage] = getLLMClient(options, env);
+    selections[stage] = resolveLLMSelection(options, env);
+  }
+
+  return { clients, selections };
+}
+
+/**
+ * Create the client for a slide transformation
+ * @param type - Predefined transformation, or undefined for free-form instructions
+ */
+export function getTransformLLMClient(
+  base: LLMClientOptions,
+  routing: ModelRouting,
+  type?: TransformationType,
+  env: LLMEnv = process.env
+): LLMClient {
+  const key: ModelRouteKey = type ? `transform.${type}` : "transform";
+  return getLLMClient(resolveStageOptions(base, routing, key), env);
+}
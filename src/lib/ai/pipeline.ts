@@ -1,12 +1,18 @@
 import { z } from "zod";
 import type { LLMClient, StreamingCallback } from "./llm-client";
-import { getLLMClient, LLMError } from "./llm-client";
+import { LLMError } from "./llm-client";
+import { getLLMClient } from "./llm-providers";
+import type { LLMStage } from "./model-routing";
 import type { BlockKind } from "@/lib/schemas/block";
 import type { GenerationRequest, Deck, DeckMeta } from "@/lib/schemas/deck";
 import { OutlineLenientSchema, SlideSchema, sanitizeOutline } from "@/lib/schemas/slide";
 import type { Outline, OutlineSlide, Slide, SlideType } from "@/lib/schemas/slide";
 import { buildOutlineSystemPrompt, buildOutlineUserPrompt } from "./prompts/outline";
 import { buildContentSystemPrompt, buildContentUserPrompt } from "./prompts/content";
+import {
+  buildSpeakerNotesSystemPrompt,
+  buildSpeakerNotesUserPrompt,
+} from "./prompts/speaker-notes";
 import {
   buildRepairSystemPrompt,
   buildRepairUserPrompt,
@@ -19,11 +25,23 @@ import {
   buildGoldenCoverPrompt,
   buildGoldenCTAPrompt,
   buildGoldenContentPrompt,
+  buildGoldenIconGridPrompt,
+  buildGoldenTimelinePrompt,
+  buildGoldenChecklistPrompt,
+  buildGoldenNumberedStepsPrompt,
+  buildGoldenCircleDiagramPrompt,
 } from "./prompts/golden-content";
 import { validateDeck, needsRepair, getSlidesNeedingRepair } from "./validation";
 import { assignLayoutVariant, assignLayoutVariantsWithContext } from "./layout";
 import type { ConstraintViolation } from "@/lib/validation/constraints";
-import { analyzeContent } from "./content-analysis";
+import { analyzeContent, type DataSeries } from "./content-analysis";
+import {
+  applyChartToSlide,
+  findDataSeriesForSlide,
+  getChartHint,
+  isChartOutlineSlide,
+  normalizeChartBlock,
+} from "./chart-data";
 import { enforceSlideConstraints } from "@/lib/editor/constraints";
 import { composeDeck, getComposerStats } from "./deck-composer";
 import {
@@ -32,15 +50,27 @@ import {
   shouldGenerateImage,
   getImageStyle,
 } from "./image-generation";
+import type { ImageUsage } from "./image-client";
 import { enforceSlideDistribution, getDistributionStats } from "./outline-enforcer";
 import {
   getGoldenTemplate,
-  type GoldenTemplate,
+  isValidGoldenTemplateId,
+  isDeckTemplate,
+  describeDeckTemplateSlot,
+  applyDeckTemplateSlot,
+  type AnyGoldenTemplate,
+  type DeckTemplate,
+  type ResolvedTemplate,
   type GoldenSlot,
   type SlotContent,
   type GoldenSlideType,
 } from "@/lib/templates";
 import { toNorwegianSentenceCase } from "@/lib/text/sentence-case";
+import {
+  isMarkdownSlideInput,
+  markdownToOutline,
+  markdownToSlides,
+} from "@/lib/extraction/markdown-slides";
 
 /**
  * Pipeline error types
@@ -141,16 +171,32 @@ function extractTextFromPartialSlide(partial: unknown): ExtractedText | null {
   return null;
 }
 
+/**
+ * Check if a request is a Markdown slide draft to be kept as-is
+ */
+function isPreservedMarkdown(request: GenerationRequest): boolean {
+  return request.textMode === "preserve" && isMarkdownSlideInput(request.inputText);
+}
+
 /**
  * Pipeline options
  */
 export interface PipelineOptions {
   llmClient?: LLMClient;
+  /** Clients for individual stages (see model-routing); other stages use llmClient */
+  stageClients?: Partial<Record<LLMStage, LLMClient>>;
   maxRepairAttempts?: number;
   /** Progress callback - can be async for operations like DB updates */
   onProgress?: (progress: PipelineProgress) => void | Promise<void>;
+  /** Called after each generated image, e.g. to record costs */
+  onImageUsage?: (usage: ImageUsage) => void;
   /** Deck ID for image storage (required when imageMode is 'ai') */
   deckId?: string;
+  /**
+   * Resolve template IDs that are not built-in golden templates
+   * (workspace-defined golden templates and templates saved from decks)
+   */
+  resolveTemplate?: (templateId: string) => Promise<ResolvedTemplate | null>;
 }
 
 /**
@@ -188,15 +234,28 @@ function applyNorwegianSentenceCase(slide: Slide): Slide {
  */
 export class GenerationPipeline {
   private llm: LLMClient;
+  private stageClients: Partial<Record<LLMStage, LLMClient>>;
   private maxRepairAttempts: number;
   private onProgress?: (progress: PipelineProgress) => void | Promise<void>;
   private deckId?: string;
+  private onImageUsage?: (usage: ImageUsage) => void;
+  private resolveTemplate?: (templateId: string) => Promise<ResolvedTemplate | null>;
 
   constructor(options: PipelineOptions = {}) {
     this.llm = options.llmClient ?? getLLMClient();
+    this.stageClients = options.stageClients ?? {};
     this.maxRepairAttempts = options.maxRepairAttempts ?? 3;
     this.onProgress = options.onProgress;
     this.deckId = options.deckId;
+    this.onImageUsage = options.onImageUsage;
+    this.resolveTemplate = options.resolveTemplate;
+  }
+
+  /**
+   * LLM client for a stage
+   */
+  private llmFor(stage: LLMStage): LLMClient {
+    return this.stageClients[stage] ?? this.llm;
   }
 
   /**
@@ -214,6 +273,16 @@ export class GenerationPipeline {
    * The LLM is asked for approximate content slides, composition adds structural slides.
    */
   async generateOutline(request: GenerationRequest): Promise<Outline> {
+    // Markdown slide drafts in preserve mode keep the author's structure
+    if (isPreservedMarkdown(request)) {
+      const outline = markdownToOutline(request.inputText);
+      await this.report({
+        stage: "outline",
+        message: `Outline read from Markdown: ${outline.slides.length} slides`,
+      });
+      return outline;
+    }
+
     // Analyze content first (no LLM call, just regex/heuristics)
     const analysis = analyzeContent(request.inputText);
 
@@ -233,7 +302,7 @@ export class GenerationPipeline {
       const userPrompt = buildOutlineUserPrompt(request);
 
       // Use lenient schema to allow AI to exceed limits, then sanitize
-      const rawOutline = await this.llm.generateJSON(
+      const rawOutline = await this.llmFor("outline").generateJSON(
         systemPrompt,
         userPrompt,
         OutlineLenientSchema
@@ -267,12 +336,16 @@ export class GenerationPipeline {
 
   /**
    * Generate content for a single slide with character-level streaming
+   * An optional postProcess step runs before the completed slide is reported.
+   * chartData is extracted data for chart slides, shown to the content prompt.
    */
   private async generateSlideContent(
     outlineSlide: OutlineSlide,
     request: GenerationRequest,
     slideIndex: number,
-    totalSlides: number
+    totalSlides: number,
+    postProcess?: (slide: Slide) => Slide,
+    chartData?: DataSeries
   ): Promise<Slide> {
     await this.report({
       stage: "content",
@@ -319,11 +392,17 @@ export class GenerationPipeline {
     };
 
     try {
-      const systemPrompt = buildContentSystemPrompt(outlineSlide, request, slideIndex, totalSlides);
+      const systemPrompt = buildContentSystemPrompt(
+        outlineSlide,
+        request,
+        slideIndex,
+        totalSlides,
+        chartData
+      );
       const userPrompt = buildContentUserPrompt(outlineSlide, request, request.inputText);
 
       // Use streaming generation for character-level updates
-      const slide = await this.llm.generateJSONStreaming(
+      const slide = await this.llmFor("content").generateJSONStreaming(
         systemPrompt,
         userPrompt,
         SlideSchema,
@@ -339,7 +418,13 @@ export class GenerationPipeline {
       };
 
       // Post-process: Apply Norwegian sentence case to titles
-      const finalSlide = applyNorwegianSentenceCase(slideWithLayout);
+      const casedSlide = applyNorwegianSentenceCase(slideWithLayout);
+      const processedSlide = postProcess ? postProcess(casedSlide) : casedSlide;
+
+      // Optional speaker notes, written from the finished slide
+      const finalSlide = request.speakerNotes
+        ? await this.generateSpeakerNotes(processedSlide, request, slideIndex, totalSlides)
+        : processedSlide;
 
       // Report completion with full slide data - MUST await for DB insertion
       await this.report({
@@ -378,12 +463,18 @@ export class GenerationPipeline {
     const systemPrompt = buildRepairSystemPrompt(violations, slide.type);
     const userPrompt = buildRepairUserPrompt(slide);
 
-    const repaired = await this.llm.generateJSON(systemPrompt, userPrompt, SlideSchema);
+    const repaired = await this.llmFor("repair").generateJSON(
+      systemPrompt,
+      userPrompt,
+      SlideSchema
+    );
 
     // Post-process: Apply Norwegian sentence case after repair
+    // Speaker notes are not part of the repair - keep the original ones
     const repairedWithLayout = {
       ...repaired,
       layoutVariant: assignLayoutVariant(repaired),
+      ...(slide.notes ? { notes: slide.notes } : {}),
     };
 
     return [applyNorwegianSentenceCase(repairedWithLayout)];
@@ -404,15 +495,54 @@ export class GenerationPipeline {
       slides: z.array(SlideSchema).min(2).max(4),
     });
 
-    const result = await this.llm.generateJSON(systemPrompt, userPrompt, SplitResultSchema);
+    const result = await this.llmFor("split").generateJSON(
+      systemPrompt,
+      userPrompt,
+      SplitResultSchema
+    );
 
     // Assign layout variants and apply sentence case to split slides
-    return result.slides.map((s) => {
-      const withLayout = { ...s, layoutVariant: assignLayoutVariant(s) };
+    // Speaker notes stay with the first part of the split
+    return result.slides.map((s, index) => {
+      const withLayout = {
+        ...s,
+        layoutVariant: assignLayoutVariant(s),
+        ...(index === 0 && slide.notes ? { notes: slide.notes } : {}),
+      };
       return applyNorwegianSentenceCase(withLayout);
     });
   }
 
+  /**
+   * Generate speaker notes for a finished slide
+   * Notes are optional - failures are logged and the slide is kept without notes
+   */
+  private async generateSpeakerNotes(
+    slide: Slide,
+    request: GenerationRequest,
+    slideIndex: number,
+    totalSlides: number
+  ): Promise<Slide> {
+    const SpeakerNotesSchema = z.object({
+      notes: z.string().min(1),
+    });
+
+    try {
+      const systemPrompt = buildSpeakerNotesSystemPrompt(request, slideIndex, totalSlides);
+      const userPrompt = buildSpeakerNotesUserPrompt(slide, request.inputText);
+      const { notes } = await this.llmFor("notes").generateJSON(
+        systemPrompt,
+        userPrompt,
+        SpeakerNotesSchema
+      );
+
+      return { ...slide, notes: notes.trim().slice(0, 5000) };
+    } catch (error) {
+      console.error(`Speaker notes generation failed for slide ${slideIndex + 1}:`, error);
+      return slide;
+    }
+  }
+
   /**
    * Validate and repair deck until constraints are satisfied
    */
@@ -572,6 +702,21 @@ export class GenerationPipeline {
       const fixedBlocks = [...slide.blocks];
 
       for (const violation of slideResult.violations) {
+        // Inconsistent chart data: align series to categories
+        if (violation.action === "fix_data") {
+          for (let index = fixedBlocks.length - 1; index >= 0; index--) {
+            if (fixedBlocks[index].kind !== "chart") continue;
+            const chart = normalizeChartBlock(fixedBlocks[index]);
+            // A chart without data cannot be repaired - drop it
+            if (chart.categories?.length && chart.series?.length) {
+              fixedBlocks[index] = chart;
+            } else {
+              fixedBlocks.splice(index, 1);
+            }
+          }
+          continue;
+        }
+
         // Only handle "shorten" actions - split/expand need LLM
         if (violation.action !== "shorten") continue;
 
@@ -666,9 +811,30 @@ export class GenerationPipeline {
 
     // Generate content for each slide
     const slides: Slide[] = [];
+    const dataSeries = (analysis ?? analyzeContent(request.inputText)).dataSeries;
+    const usedDataSeries = new Set<DataSeries>();
 
     for (let i = 0; i < outline.slides.length; i++) {
-      const slide = await this.generateSlideContent(outline.slides[i], request, i, totalSlides);
+      const outlineSlide = outline.slides[i];
+
+      if (!isChartOutlineSlide(outlineSlide)) {
+        slides.push(await this.generateSlideContent(outlineSlide, request, i, totalSlides));
+        continue;
+      }
+
+      // Chart slides: the chart takes the image slot of a text_plus_image slide,
+      // and its data comes from the input rather than the LLM
+      const chartData = findDataSeriesForSlide(outlineSlide, dataSeries, usedDataSeries);
+      if (chartData) usedDataSeries.add(chartData);
+
+      const slide = await this.generateSlideContent(
+        { ...outlineSlide, suggestedType: "text_plus_image" },
+        request,
+        i,
+        totalSlides,
+        (generated) => applyChartToSlide(generated, chartData),
+        chartData
+      );
       slides.push(slide);
     }
 
@@ -718,6 +884,7 @@ export class GenerationPipeline {
       try {
         finalDeck = await generateImagesForDeck(finalDeck, this.deckId, {
           style: getImageStyle(request),
+          onUsage: this.onImageUsage,
           analysis, // Phase 7 Sprint 4: Pass ContentAnalysis for smarter prompts
           onProgress: (progress) => {
             // Fire-and-forget for UI updates during image generation
@@ -866,6 +1033,17 @@ export class GenerationPipeline {
         hints: analysis.sequentialProcess.slice(0, 3).map((s) => s.text.slice(0, 60)),
       });
     }
+    if (
+      analysis.dataSeries.length >= 1 &&
+      !outline.slides.some(isChartOutlineSlide) &&
+      slidesToAdd > additionalSlideTypes.length
+    ) {
+      additionalSlideTypes.push({
+        type: "text_plus_image",
+        title: analysis.dataSeries[0].title,
+        hints: [getChartHint(analysis.dataSeries[0])],
+      });
+    }
     if (analysis.comparisons.length >= 1 && slidesToAdd > additionalSlideTypes.length) {
       additionalSlideTypes.push({
         type: "two_column_text",
@@ -928,6 +1106,11 @@ export class GenerationPipeline {
       return { outline, deck };
     }
 
+    // Markdown slide drafts map directly to slides, without composition
+    if (isPreservedMarkdown(request)) {
+      return this.generateFromMarkdown(request);
+    }
+
     // Step 1: Get or generate outline (LLM generates freely, no count enforcement)
     let rawOutline: Outline;
 
@@ -1007,6 +1190,79 @@ export class GenerationPipeline {
     return { outline, deck };
   }
 
+  /**
+   * Generate deck from a Markdown slide draft ("preserve" mode)
+   * Slides and block kinds come straight from the Markdown structure, so the
+   * text is never rewritten. Only speaker notes and images use the LLM.
+   */
+  async generateFromMarkdown(
+    request: GenerationRequest
+  ): Promise<{ outline: Outline; deck: Deck }> {
+    const { title, slides: parsedSlides } = markdownToSlides(request.inputText);
+    if (parsedSlides.length === 0) {
+      throw new PipelineError("Markdown input contains no slides", "OUTLINE_FAILED");
+    }
+
+    // Titles edited in the outline step win when the slides still line up
+    const editedTitles =
+      request.outline?.slides.length === parsedSlides.length
+        ? request.outline.slides.map((s) => s.title)
+        : undefined;
+    const outline = editedTitles ? request.outline! : markdownToOutline(request.inputText);
+
+    await this.report({
+      stage: "outline",
+      message: `Outline read from Markdown: ${outline.slides.length} slides`,
+      outline,
+    });
+
+    const totalSlides = parsedSlides.length;
+    const slides: Slide[] = [];
+
+    for (let i = 0; i < totalSlides; i++) {
+      const parsed = parsedSlides[i];
+      const titled: Slide = editedTitles
+        ? {
+            ...parsed,
+            blocks: parsed.blocks.map((b) =>
+              b.kind === "title" ? { ...b, text: editedTitles[i] } : b
+            ),
+          }
+        : parsed;
+      const slide: Slide = {
+        ...enforceSlideConstraints(titled),
+        layoutVariant: assignLayoutVariant(titled),
+      } as Slide;
+
+      // Notes written in the draft are kept; otherwise generate them if asked
+      const finalSlide =
+        request.speakerNotes && !slide.notes
+          ? await this.generateSpeakerNotes(slide, request, i, totalSlides)
+          : slide;
+
+      await this.report({
+        stage: "content",
+        slideIndex: i,
+        totalSlides,
+        message: `Completed slide ${i + 1}/${totalSlides}`,
+        slide: finalSlide,
+      });
+      slides.push(finalSlide);
+    }
+
+    const deck: Deck = {
+      deck: {
+        title: outline.title || title,
+        language: request.language,
+        themeId: request.themeId ?? "nordic_light",
+        brandKit: undefined,
+      },
+      slides: assignLayoutVariantsWithContext(slides),
+    };
+
+    return { outline, deck: await this.generateTemplateImages(deck, request) };
+  }
+
   /**
    * Generate deck from a golden template
    * Phase 8: Template-based generation with fixed structure
@@ -1018,12 +1274,19 @@ export class GenerationPipeline {
       throw new PipelineError("No template ID provided", "TEMPLATE_NOT_FOUND");
     }
 
-    const template = getGoldenTemplate(templateId);
+    // Built-in templates first, then workspace templates via the resolver
+    const template = isValidGoldenTemplateId(templateId)
+      ? getGoldenTemplate(templateId)
+      : await this.resolveTemplate?.(templateId);
 
     if (!template) {
       throw new PipelineError(`Template not found: ${templateId}`, "TEMPLATE_NOT_FOUND");
     }
 
+    if (isDeckTemplate(template)) {
+      return this.generateFromDeckTemplate(template, request);
+    }
+
     await this.report({
       stage: "template",
       message: `Using golden template: ${template.name} (${template.slideCount} slides)`,
@@ -1063,8 +1326,13 @@ export class GenerationPipeline {
     // Convert slot contents to slides
     const slides = this.convertSlotsToSlides(template, slotContents);
 
-    // Generate images if requested
-    let finalDeck: Deck = {
+    if (request.speakerNotes) {
+      for (let i = 0; i < slides.length; i++) {
+        slides[i] = await this.generateSpeakerNotes(slides[i], request, i, slides.length);
+      }
+    }
+
+    const finalDeck: Deck = {
       deck: {
         title: slotContents[0]?.title ?? template.name,
         language: request.language,
@@ -1073,39 +1341,123 @@ export class GenerationPipeline {
       slides,
     };
 
-    if (shouldGenerateImages(request) && this.deckId) {
-      // Calculate total images BEFORE starting
-      const goldenImagesToProcess = finalDeck.slides.filter((slide) => shouldGenerateImage(slide));
-      const goldenTotalImages = goldenImagesToProcess.length;
+    // Generate images if requested
+    return this.generateTemplateImages(finalDeck, request);
+  }
 
-      await this.report({
-        stage: "images",
-        totalImages: goldenTotalImages,
-        message: `Generating AI images for ${goldenTotalImages} golden slides...`,
+  /**
+   * Generate images for a template-based deck if requested
+   * Failures are logged and the deck is returned without images
+   */
+  private async generateTemplateImages(deck: Deck, request: GenerationRequest): Promise<Deck> {
+    if (!shouldGenerateImages(request) || !this.deckId) {
+      return deck;
+    }
+
+    // Calculate total images BEFORE starting
+    const templateImagesToProcess = deck.slides.filter((slide) => shouldGenerateImage(slide));
+    const templateTotalImages = templateImagesToProcess.length;
+
+    await this.report({
+      stage: "images",
+      totalImages: templateTotalImages,
+      message: `Generating AI images for ${templateTotalImages} template slides...`,
+    });
+
+    try {
+      return await generateImagesForDeck(deck, this.deckId, {
+        style: getImageStyle(request),
+        onUsage: this.onImageUsage,
+        onProgress: (progress) => {
+          // Fire-and-forget for UI updates during image generation
+          void this.report({
+            stage: "images",
+            slideIndex: progress.slideIndex,
+            totalSlides: deck.slides.length, // Keep slide count for context
+            totalImages: progress.totalImages, // Add image count for progress display
+            imageIndex: progress.slideIndex !== undefined ? progress.slideIndex + 1 : undefined, // 1-based for display
+            imageUrl: progress.imageResult?.imageUrl, // Include URL when image is complete
+            message: progress.message,
+          });
+        },
       });
+    } catch (error) {
+      console.error("Image generation failed:", error);
+      return deck;
+    }
+  }
 
-      try {
-        finalDeck = await generateImagesForDeck(finalDeck, this.deckId, {
-          style: getImageStyle(request),
-          onProgress: (progress) => {
-            // Fire-and-forget for UI updates during image generation
-            void this.report({
-              stage: "images",
-              slideIndex: progress.slideIndex,
-              totalSlides: finalDeck.slides.length, // Keep slide count for context
-              totalImages: progress.totalImages, // Add image count for progress display
-              imageIndex: progress.slideIndex !== undefined ? progress.slideIndex + 1 : undefined, // 1-based for display
-              imageUrl: progress.imageResult?.imageUrl, // Include URL when image is complete
-              message: progress.message,
-            });
-          },
-        });
-      } catch (error) {
-        console.error("Image generation failed:", error);
-      }
+  /**
+   * Generate deck from a template saved from an existing deck
+   * The outline is written freely from the new source text, then each outline
+   * slide is poured into the matching slot (type, layout variant, block shape)
+   */
+  private async generateFromDeckTemplate(
+    template: DeckTemplate,
+    request: GenerationRequest
+  ): Promise<Deck> {
+    await this.report({
+      stage: "template",
+      message: `Using deck template: ${template.name} (${template.slideCount} slides)`,
+    });
+
+    // Ask for exactly one outline slide per slot, in slot order
+    const structure = template.slots
+      .map((slot) => `${slot.position}. ${slot.slideType}`)
+      .join(", ");
+    const rawOutline = await this.generateOutline({
+      ...request,
+      numSlides: template.slideCount,
+      additionalInstructions: [
+        request.additionalInstructions,
+        `Use exactly ${template.slideCount} slides in this order: ${structure}`,
+      ]
+        .filter(Boolean)
+        .join("\n"),
+    });
+
+    // One outline slide per slot; missing slides fall back to the slot's purpose
+    const outline: Outline = {
+      title: rawOutline.title,
+      slides: template.slots.map((slot, index) => {
+        const outlineSlide = rawOutline.slides[index];
+        return {
+          title: outlineSlide?.title ?? slot.purpose,
+          hints: [...describeDeckTemplateSlot(slot), ...(outlineSlide?.hints ?? [])].slice(0, 3),
+          suggestedType: slot.slideType,
+        };
+      }),
+    };
+
+    await this.report({
+      stage: "outline",
+      message: `Outline mapped to ${template.slideCount} template slots`,
+      outline,
+    });
+
+    const slides: Slide[] = [];
+    for (let i = 0; i < template.slots.length; i++) {
+      const slot = template.slots[i];
+      const slide = await this.generateSlideContent(
+        outline.slides[i],
+        request,
+        i,
+        template.slideCount,
+        (generated) => applyDeckTemplateSlot(generated, slot)
+      );
+      slides.push(slide);
     }
 
-    return finalDeck;
+    const deck: Deck = {
+      deck: {
+        title: outline.title,
+        language: request.language,
+        themeId: request.themeId ?? "nordic_light",
+      },
+      slides,
+    };
+
+    return this.generateTemplateImages(deck, request);
   }
 
   /**
@@ -1139,6 +1491,47 @@ export class GenerationPipeline {
       case "content":
         prompt = buildGoldenContentPrompt(request.inputText, request.language, slot.purpose);
         break;
+      case "icon_grid":
+        prompt = buildGoldenIconGridPrompt(
+          request.inputText,
+          request.language,
+          slot.constraints.itemCount ?? 4
+        );
+        break;
+      case "timeline":
+        prompt = buildGoldenTimelinePrompt(
+          request.inputText,
+          request.language,
+          slot.constraints.itemCountMin ?? 3,
+          slot.constraints.itemCountMax ?? 5
+        );
+        break;
+      case "checklist":
+        prompt = buildGoldenChecklistPrompt(
+          request.inputText,
+          request.language,
+          slot.purpose,
+          slot.constraints.itemCountMin ?? 3,
+          slot.constraints.itemCountMax ?? 5
+        );
+        break;
+      case "numbered_steps":
+        prompt = buildGoldenNumberedStepsPrompt(
+          request.inputText,
+          request.language,
+          slot.purpose,
+          slot.constraints.itemCountMin ?? 3,
+          slot.constraints.itemCountMax ?? 4
+        );
+        break;
+      case "circle_diagram":
+        prompt = buildGoldenCircleDiagramPrompt(
+          request.inputText,
+          request.language,
+          slot.purpose,
+          slot.constraints.itemCount ?? 4
+        );
+        break;
       default:
         // Generic prompt for other slot types
         prompt = `Generate content for a ${slot.slideType} slide based on:
@@ -1161,6 +1554,7 @@ Return JSON with title, body, and items as appropriate.`;
             sublabel: z.string().optional(),
             icon: z.string().optional(),
             description: z.string().optional(),
+            status: z.enum(["completed", "current", "upcoming"]).optional(),
           })
         )
         .optional(),
@@ -1170,20 +1564,38 @@ Return JSON with title, body, and items as appropriate.`;
     const systemPrompt = `You are a professional presentation content writer.
 Generate concise, high-quality content. Return ONLY valid JSON, no markdown.`;
 
-    const result = await this.llm.generateJSON(systemPrompt, prompt, SlotContentSchema);
+    const result = await this.llmFor("content").generateJSON(
+      systemPrompt,
+      prompt,
+      SlotContentSchema
+    );
 
     return {
       position: slot.position,
       title: result.title,
       body: result.body,
-      items: result.items,
+      items: this.enforceSlotItemLimits(slot, result.items),
     };
   }
 
+  /**
+   * Trim slot items to the slot's item constraints
+   * The LLM is asked for exact counts, but templates must never overflow their fixed layout
+   */
+  private enforceSlotItemLimits(
+    slot: GoldenSlot,
+    items: SlotContent["items"]
+  ): SlotContent["items"] {
+    if (!items) return items;
+
+    const maxItems = slot.constraints.itemCount ?? slot.constraints.itemCountMax;
+    return maxItems !== undefined ? items.slice(0, maxItems) : items;
+  }
+
   /**
    * Convert slot contents to Slide objects
    */
-  private convertSlotsToSlides(template: GoldenTemplate, slotContents: SlotContent[]): Slide[] {
+  private convertSlotsToSlides(template: AnyGoldenTemplate, slotContents: SlotContent[]): Slide[] {
     return template.slots.map((slot, index) => {
       const content = slotContents[index];
       const slideType = this.goldenSlideTypeToSlideType(slot.slideType);
@@ -1213,7 +1625,52 @@ Generate concise, high-quality content. Return ONLY valid JSON, no markdown.`;
               sublabel: item.sublabel,
             });
           }
-        } else if (slot.slideType === "bullets" || slot.slideType === "cta") {
+        } else if (slot.slideType === "icon_grid") {
+          // Convert to icon_card blocks
+          for (const item of content.items) {
+            blocks.push({
+              kind: "icon_card",
+              icon: item.icon ?? "sparkles",
+              text: item.text ?? item.label ?? "",
+              description: item.description,
+            });
+          }
+        } else if (slot.slideType === "timeline") {
+          // Convert to timeline_step blocks
+          content.items.forEach((item, itemIndex) => {
+            blocks.push({
+              kind: "timeline_step",
+              step: itemIndex + 1,
+              text: item.text ?? item.label ?? "",
+              description: item.description,
+              status: item.status,
+            });
+          });
+        } else if (slot.slideType === "numbered_steps") {
+          // Convert to numbered_card blocks
+          content.items.forEach((item, itemIndex) => {
+            blocks.push({
+              kind: "numbered_card",
+              number: itemIndex + 1,
+              text: item.text ?? item.label ?? "",
+              description: item.description,
+            });
+          });
+        } else if (slot.slideType === "circle_diagram") {
+          // Convert to icon_card blocks (one per segment around the centre)
+          for (const item of content.items) {
+            blocks.push({
+              kind: "icon_card",
+              icon: item.icon ?? "circle",
+              text: item.text ?? item.label ?? "",
+              description: item.description,
+            });
+          }
+        } else if (
+          slot.slideType === "bullets" ||
+          slot.slideType === "cta" ||
+          slot.slideType === "checklist"
+        ) {
           // Convert to bullets block
           blocks.push({
             kind: "bullets",
@@ -1236,6 +1693,7 @@ Generate concise, high-quality content. Return ONLY valid JSON, no markdown.`;
       const slide: Slide = {
         type: slideType,
         layoutVariant: slot.layoutVariant,
+        goldenType: slot.slideType,
         blocks,
       };
 
@@ -1258,7 +1716,7 @@ Generate concise, high-quality content. Return ONLY valid JSON, no markdown.`;
       timeline: "timeline_roadmap",
       checklist: "bullets",
       numbered_steps: "numbered_grid",
-      circle_diagram: "bullets",
+      circle_diagram: "icon_cards_with_image",
     };
     return mapping[goldenType];
   }
@@ -1,6 +1,9 @@
 import type { GenerationRequest } from "@/lib/schemas/deck";
 import type { OutlineSlide, SlideType } from "@/lib/schemas/slide";
 import { SLIDE_CONSTRAINTS } from "@/lib/validation/constraints";
+import { BLOCK_CONSTRAINTS } from "@/lib/editor/constraints";
+import type { DataSeries } from "../content-analysis";
+import { isChartOutlineSlide } from "../chart-data";
 
 /**
  * Get constraints description for a slide type
@@ -214,6 +217,34 @@ function getBlockStructure(slideType: SlideType): string {
   return structures[slideType];
 }
 
+/**
+ * Block structure for chart slides (text_plus_image with a chart in the image slot)
+ */
+const CHART_BLOCK_STRUCTURE = `[
+  { "kind": "title", "text": "Omsetningen doblet seg på ett år" },
+  { "kind": "text", "text": "Kort tolkning av hva tallene viser" },
+  { "kind": "chart", "chartType": "line", "text": "Omsetning per kvartal", "categories": ["Q1", "Q2", "Q3", "Q4"], "series": [{ "name": "Omsetning", "values": [12, 15, 19, 24] }], "yAxisLabel": "MNOK" }
+]`;
+
+/**
+ * Writing guidance for chart slides
+ */
+function getChartGuidance(chartData?: DataSeries): string {
+  const { maxCategories, maxSeries } = BLOCK_CONSTRAINTS.chart;
+  const dataSection = chartData
+    ? `
+- Use EXACTLY this data extracted from the input (do not change, round or add values):
+${JSON.stringify({ categories: chartData.categories, series: chartData.series, unit: chartData.unit })}`
+    : `
+- Only use numbers that appear in the input - never invent data points`;
+
+  return `- The chart replaces the image: do NOT include an image block
+- chartType: "line" for development over time, "bar" for comparing categories, "stacked_bar" for parts of a total per category, "pie" for shares of one whole (single series only)
+- Every series needs exactly one value per category, in category order (max ${maxCategories} categories, ${maxSeries} series)
+- The title states the insight ("Omsetningen doblet seg"), the chart title names the measure ("Omsetning per kvartal")
+- The text block interprets the data in 1-2 sentences${dataSection}`;
+}
+
 /**
  * Build system prompt for slide content generation
  */
@@ -221,9 +252,11 @@ export function buildContentSystemPrompt(
   outlineSlide: OutlineSlide,
   request: GenerationRequest,
   slideIndex: number,
-  totalSlides: number
+  totalSlides: number,
+  chartData?: DataSeries
 ): string {
   const slideType = outlineSlide.suggestedType ?? "bullets";
+  const isChartSlide = isChartOutlineSlide(outlineSlide);
   const { textMode, tone, language, additionalInstructions } = request;
 
   const modeInstructions = {
@@ -252,7 +285,7 @@ CONSTRAINTS FOR ${slideType.toUpperCase()}:
 ${getConstraintsDescription(slideType)}
 
 REQUIRED BLOCK STRUCTURE:
-${getBlockStructure(slideType)}
+${isChartSlide ? CHART_BLOCK_STRUCTURE : getBlockStructure(slideType)}
 
 OUTPUT FORMAT:
 Return ONLY valid JSON with this exact structure:
@@ -270,7 +303,7 @@ QUALITY REQUIREMENTS:
 - Avoid filler phrases like "Det er viktig å..." or "Vi må fokusere på..."
 
 SLIDE-TYPE SPECIFIC GUIDANCE:
-${getSlideTypeGuidance(slideType)}
+${isChartSlide ? getChartGuidance(chartData) : getSlideTypeGuidance(slideType)}
 
 CRITICAL RULES:
 - Stay within character limits - this is absolutely critical
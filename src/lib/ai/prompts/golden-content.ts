@@ -239,3 +239,195 @@ OUTPUT FORMAT (kun JSON):
   "imageDescription": "Profesjonelt bilde av teamarbeid i moderne kontor"
 }`;
 }
+
+/**
+ * Build icon-grid-specific prompt for golden icon_grid slots (2x2 feature grid)
+ */
+export function buildGoldenIconGridPrompt(
+  inputText: string,
+  language: string,
+  itemCount: number = 4
+): string {
+  const lang = language === "no" ? "norsk" : "English";
+
+  return `Trekk ut NØYAKTIG ${itemCount} nøkkelfunksjoner eller fordeler fra teksten.
+
+TEKST:
+---
+${inputText}
+---
+
+KRAV:
+- NØYAKTIG ${itemCount} funksjoner
+- Hver funksjon har: icon (Lucide-ikonnavn), text (navn, maks 40 tegn), description (nytte, maks 100 tegn)
+- Bruk enkle Lucide-ikoner: zap, shield, globe, users, chart-bar, clock, lock, sparkles, target, layers
+- Beskriv nytten for brukeren, ikke teknisk implementasjon
+- Skriv på ${lang}
+
+OUTPUT FORMAT (kun JSON):
+{
+  "title": "Nøkkelfunksjoner",
+  "items": [
+    { "icon": "zap", "text": "Sanntidsdata", "description": "Se endringer i det øyeblikket de skjer" },
+    { "icon": "bell", "text": "Smarte varsler", "description": "Bli varslet kun når noe krever handling" },
+    { "icon": "users", "text": "Delte dashboards", "description": "Hele teamet jobber ut fra samme tall" },
+    { "icon": "lock", "text": "Sikker tilgang", "description": "Tilgangsstyring på rad- og feltnivå" }
+  ]
+}`;
+}
+
+/**
+ * Build timeline-specific prompt for golden timeline slots
+ */
+export function buildGoldenTimelinePrompt(
+  inputText: string,
+  language: string,
+  minItems: number = 3,
+  maxItems: number = 5
+): string {
+  const lang = language === "no" ? "norsk" : "English";
+
+  return `Lag en tidslinje med ${minItems}-${maxItems} milepæler basert på teksten.
+
+TEKST:
+---
+${inputText}
+---
+
+KRAV:
+- Mellom ${minItems} og ${maxItems} milepæler i kronologisk rekkefølge
+- Hver milepæl har: text (navn/periode, maks 40 tegn), description (maks 100 tegn), status
+- status er "completed", "current" eller "upcoming" - NØYAKTIG én milepæl er "current"
+- Bruk datoer eller perioder fra teksten når de finnes
+- Skriv på ${lang}
+
+OUTPUT FORMAT (kun JSON):
+{
+  "title": "Fremdrift",
+  "items": [
+    { "text": "Forstudie", "description": "Behov og gevinster kartlagt", "status": "completed" },
+    { "text": "Utvikling", "description": "Kjernefunksjonalitet bygges", "status": "current" },
+    { "text": "Lansering", "description": "Utrulling til alle brukere", "status": "upcoming" }
+  ]
+}`;
+}
+
+/**
+ * Build checklist-specific prompt for golden checklist slots
+ */
+export function buildGoldenChecklistPrompt(
+  inputText: string,
+  language: string,
+  purpose: string,
+  minItems: number = 3,
+  maxItems: number = 5
+): string {
+  const lang = language === "no" ? "norsk" : "English";
+
+  return `Lag en sjekkliste med ${minItems}-${maxItems} punkter basert på teksten.
+
+FORMÅL: ${purpose}
+
+TEKST:
+---
+${inputText}
+---
+
+KRAV:
+- Mellom ${minItems} og ${maxItems} punkter
+- Hvert punkt maks 80 tegn, formulert som en fullstendig påstand
+- status er "completed" for det som er avklart/gjort, "upcoming" for det som gjenstår
+- List avklarte punkter først
+- Skriv på ${lang}
+
+OUTPUT FORMAT (kun JSON):
+{
+  "title": "Beslutninger",
+  "items": [
+    { "text": "Leverandør for skyplattform er valgt", "status": "completed" },
+    { "text": "Budsjett for fase 2 er godkjent", "status": "completed" },
+    { "text": "Dato for produksjonssetting må besluttes", "status": "upcoming" }
+  ]
+}`;
+}
+
+/**
+ * Build numbered-steps-specific prompt for golden numbered_steps slots
+ */
+export function buildGoldenNumberedStepsPrompt(
+  inputText: string,
+  language: string,
+  purpose: string,
+  minItems: number = 3,
+  maxItems: number = 4
+): string {
+  const lang = language === "no" ? "norsk" : "English";
+
+  return `Lag ${minItems}-${maxItems} nummererte steg basert på teksten.
+
+FORMÅL: ${purpose}
+
+TEKST:
+---
+${inputText}
+---
+
+KRAV:
+- Mellom ${minItems} og ${maxItems} steg i prioritert eller logisk rekkefølge
+- Hvert steg har: text (kort handling, maks 50 tegn), description (maks 120 tegn)
+- Start hver text med et handlingsverb
+- Ta med ansvarlig eller frist i description når det finnes i teksten
+- Skriv på ${lang}
+
+OUTPUT FORMAT (kun JSON):
+{
+  "title": "Tiltak",
+  "items": [
+    { "text": "Avklare testmiljø", "description": "Kari sørger for tilgang innen 1. april" },
+    { "text": "Fullføre datamigrering", "description": "Per leder migreringen av historiske data" },
+    { "text": "Lære opp superbrukere", "description": "Anna holder to workshops før lansering" }
+  ]
+}`;
+}
+
+/**
+ * Build circle-diagram-specific prompt for golden circle_diagram slots
+ * (a central concept surrounded by its parts)
+ */
+export function buildGoldenCircleDiagramPrompt(
+  inputText: string,
+  language: string,
+  purpose: string,
+  itemCount: number = 4
+): string {
+  const lang = language === "no" ? "norsk" : "English";
+
+  return `Lag et sirkeldiagram med ett sentralt begrep og NØYAKTIG ${itemCount} elementer rundt.
+
+FORMÅL: ${purpose}
+
+TEKST:
+---
+${inputText}
+---
+
+KRAV:
+- title: overskrift for sliden (maks 50 tegn)
+- body: det sentrale begrepet i midten av sirkelen (maks 25 tegn)
+- NØYAKTIG ${itemCount} elementer rundt sentrum
+- Hvert element har: text (maks 30 tegn), description (maks 80 tegn)
+- Elementene skal være likeverdige deler av helheten, ikke en rekkefølge
+- Skriv på ${lang}
+
+OUTPUT FORMAT (kun JSON):
+{
+  "title": "Vår modell",
+  "body": "Kunden",
+  "items": [
+    { "text": "Innsikt", "description": "Vi forstår behovene før vi bygger" },
+    { "text": "Design", "description": "Løsninger som er enkle å ta i bruk" },
+    { "text": "Levering", "description": "Korte iterasjoner med målbar effekt" },
+    { "text": "Oppfølging", "description": "Vi måler og forbedrer kontinuerlig" }
+  ]
+}`;
+}
@@ -3,6 +3,7 @@ import type { SlideType } from "@/lib/schemas/slide";
 import type { ContentAnalysis } from "../content-analysis";
 import { formatAnalysisForPrompt } from "../content-analysis";
 import { recommendSlideTypes, formatRecommendationsForPrompt } from "../slide-type-selector";
+import { CHART_HINT_PREFIX } from "../chart-data";
 
 /**
  * Available slide types for outline generation
@@ -102,6 +103,11 @@ SLIDE TYPE GUIDELINES:
 - quote_callout: Highlighted quote - USE for memorable statements
 - summary_next_steps: Conclusion slide (often last)
 
+**CHART SLIDES (for numeric data series):**
+- When the input has a time series or a comparison of values across categories (e.g. revenue per quarter, share per region), use a "text_plus_image" slide and make its FIRST hint "${CHART_HINT_PREFIX} <name of the data series>"
+- The chart replaces the image and shows the exact numbers from the input - the other hints describe what the data shows
+- Use stat slides (summary_with_stats, hero_stats) for 2-4 standalone numbers, charts for series of 3+ related values
+
 OUTPUT FORMAT:
 Return ONLY valid JSON with this exact structure:
 {
@@ -134,6 +140,7 @@ CONTENT ANALYSIS - Look for and use:
 - Decisions made (use "decisions_list" slide)
 - Action items or tasks (use "action_items_table" slide)
 - Comparisons or alternatives (use "two_column_text" slide)
+- Numeric data series (use a chart slide, see CHART SLIDES)
 
 HINTS - Be Specific (MAXIMUM 3 PER SLIDE):
 - CRITICAL: Each slide can have AT MOST 3 hints. Never exceed this.
@@ -173,6 +180,7 @@ USE THIS ANALYSIS (REQUIRED):
 - If action items are found → MUST use action_items_table slide
 - If persons are named → MUST use person_spotlight slide
 - If sequential steps are found → MUST use timeline_roadmap slide
+- If data series are found → MUST include one chart slide per data series ("${CHART_HINT_PREFIX} <series name>" hint)
 - Focus on CONTENT quality - the final slide count will be adjusted automatically
 ${formatRecommendationsForPrompt(recommendSlideTypes(analysis))}`
       : ""
@@ -79,6 +79,7 @@ export function buildRepairSystemPrompt(
   const hasSplit = violations.some((v) => v.action === "split");
   const hasAdjustTitle = violations.some((v) => v.action === "adjust_title");
   const hasExpand = violations.some((v) => v.action === "expand");
+  const hasFixData = violations.some((v) => v.action === "fix_data");
 
   // Include full constraint spec for context
   const constraintSpec = slideType
@@ -130,6 +131,18 @@ Techniques to expand meaningfully:
 `;
   }
 
+  // Handle inconsistent chart data
+  if (hasFixData) {
+    actionInstructions += `
+ACTION REQUIRED: FIX CHART DATA
+A chart block has inconsistent data.
+- Every series must have exactly one number per category, in category order
+- Category labels and series names must be unique
+- Pie charts use a single series with no negative values (use "bar" otherwise)
+- Keep the original numbers - never invent or round data points
+`;
+  }
+
   if (hasShorten && hasSplit) {
     actionInstructions += `
 ACTION REQUIRED:
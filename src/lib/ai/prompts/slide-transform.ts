@@ -204,6 +204,8 @@ export const TRANSFORM_INSTRUCTIONS = {
 
 export type TransformationType = keyof typeof TRANSFORM_INSTRUCTIONS;
 
+export const TRANSFORMATION_TYPES = Object.keys(TRANSFORM_INSTRUCTIONS) as TransformationType[];
+
 /**
  * Get instruction for a predefined transformation type
  */
@@ -0,0 +1,63 @@
+import type { Slide } from "@/lib/schemas/slide";
+import type { GenerationRequest } from "@/lib/schemas/deck";
+
+/**
+ * Collect the visible text of a slide for the notes prompt
+ */
+function describeSlide(slide: Slide): string {
+  return slide.blocks
+    .map((block) => {
+      if (block.items?.length) return `${block.kind}: ${block.items.join(" | ")}`;
+      if (block.kind === "stat_block") return `stat: ${block.value} ${block.label ?? ""}`.trim();
+      if (block.kind === "image") return block.alt ? `image: ${block.alt}` : "";
+      if (block.kind === "table") return `table: ${block.columns?.join(", ") ?? ""}`;
+      if (block.kind === "chart") {
+        const series = (block.series ?? []).map((s) => `${s.name}: ${s.values.join(", ")}`);
+        return `chart: ${block.text ?? ""} [${block.categories?.join(", ") ?? ""}] ${series.join("; ")}`;
+      }
+      const text = [block.text, block.description].filter(Boolean).join(" - ");
+      return text ? `${block.kind}: ${text}` : "";
+    })
+    .filter(Boolean)
+    .join("\n");
+}
+
+/**
+ * Build system prompt for speaker notes generation
+ */
+export function buildSpeakerNotesSystemPrompt(
+  request: GenerationRequest,
+  slideIndex: number,
+  totalSlides: number
+): string {
+  const { language, tone, audience } = request;
+
+  return `You are a speaker notes writer for presentations.
+
+TASK: Write speaker notes for slide ${slideIndex + 1} of ${totalSlides}.
+
+INSTRUCTIONS:
+- Language: ${language === "no" ? "Norwegian (Bokmål)" : language}
+${tone ? `- Tone: ${tone}\n` : ""}${audience ? `- Audience: ${audience}\n` : ""}- Write what the presenter should SAY, not what is already on the slide
+- Add context, examples and transitions from the source material
+- 2-5 short paragraphs or talking points, max 800 characters
+- Plain text only - no markdown, no headings
+- Never invent numbers or facts that are not in the source material
+
+OUTPUT FORMAT:
+Return ONLY valid JSON:
+{
+  "notes": "..."
+}`;
+}
+
+/**
+ * Build user prompt for speaker notes generation
+ */
+export function buildSpeakerNotesUserPrompt(slide: Slide, inputText: string): string {
+  return `SLIDE CONTENT:
+${describeSlide(slide)}
+
+SOURCE MATERIAL:
+${inputText.slice(0, 4000)}`;
+}
@@ -9,7 +9,8 @@ import { z } from "zod";
 import type { Slide } from "@/lib/schemas/slide";
 import { SlideSchema } from "@/lib/schemas/slide";
 import type { LLMClient, StreamingCallback } from "./llm-client";
-import { getLLMClient, LLMError } from "./llm-client";
+import { LLMError } from "./llm-client";
+import { getLLMClient } from "./llm-providers";
 import {
   buildTransformSystemPrompt,
   buildTransformUserPrompt,
@@ -395,14 +396,15 @@ export function getSlideTransformAgent(): SlideTransformAgent {
 export async function transformSlideServer(
   slide: Slide,
   instruction: string,
-  context?: { deckTitle?: string }
+  context?: { deckTitle?: string },
+  llmClient?: LLMClient
 ): Promise<{
   success: boolean;
   data?: SlideTransformResult;
   error?: string;
 }> {
   try {
-    const agent = new SlideTransformAgent();
+    const agent = new SlideTransformAgent({ llmClient });
     const result = await agent.transform({
       slide,
       instruction,
@@ -191,6 +191,74 @@ function validateTitleCountConsistency(
   return null;
 }
 
+/**
+ * Check that a chart block's data is consistent: every series has one
+ * finite value per category, labels are unique, and pie charts hold a
+ * single non-negative series. Returns one message per problem found.
+ */
+export function validateChartData(block: Block): string[] {
+  const issues: string[] = [];
+  const categories = block.categories ?? [];
+  const series = block.series ?? [];
+
+  if (categories.length === 0) {
+    issues.push("Chart has no categories");
+  }
+  if (series.length === 0) {
+    issues.push("Chart has no data series");
+  }
+  if (new Set(categories).size !== categories.length) {
+    issues.push("Chart has duplicate category labels");
+  }
+  if (new Set(series.map((s) => s.name)).size !== series.length) {
+    issues.push("Chart has duplicate series names");
+  }
+
+  for (const s of series) {
+    if (s.values.length !== categories.length) {
+      issues.push(
+        `Series "${s.name}" has ${s.values.length} values but the chart has ${categories.length} categories`
+      );
+    }
+    if (s.values.some((v) => typeof v !== "number" || !Number.isFinite(v))) {
+      issues.push(`Series "${s.name}" contains non-numeric values`);
+    }
+  }
+
+  if (block.chartType === "pie") {
+    if (series.length > 1) {
+      issues.push(`Pie charts show a single series (found ${series.length})`);
+    }
+    if (series.some((s) => s.values.some((v) => v < 0))) {
+      issues.push("Pie charts cannot show negative values");
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Validate the data of every chart block on a slide
+ */
+function validateChartBlocks(slide: Slide): ConstraintViolation[] {
+  return slide.blocks
+    .filter((block) => block.kind === "chart")
+    .flatMap((block, chartIndex) => {
+      const issues = validateChartData(block);
+      if (issues.length === 0) return [];
+
+      return [
+        {
+          field: `charts[${chartIndex}]`,
+          message: issues.join("; "),
+          current: issues.length,
+          limit: 0,
+          action: "fix_data" as const,
+        },
+      ];
+    });
+}
+
 /**
  * Validate a single slide against its constraints
  * @param checkDensity - If true, also checks content density (default: true)
@@ -203,6 +271,9 @@ export function validateSlide(
   const content = extractSlideContent(slide);
   const violations = validateSlideConstraints(slide.type, content);
 
+  // Check chart series consistency
+  violations.push(...validateChartBlocks(slide));
+
   // Check title-count consistency
   const titleCountViolation = validateTitleCountConsistency(slide, content);
   if (titleCountViolation) {
@@ -289,8 +360,8 @@ export function calculateContentDensity(slide: Slide): number {
     totalChars += content.tableRows.flat().reduce((sum, cell) => sum + cell.length, 0);
   }
 
-  // Images add visual density (count as ~150 chars worth)
-  const hasImage = slide.blocks.some((b) => b.kind === "image" && b.url);
+  // Images and charts add visual density (count as ~150 chars worth)
+  const hasImage = slide.blocks.some((b) => (b.kind === "image" && b.url) || b.kind === "chart");
   const imageBonus = hasImage ? 150 : 0;
 
   const capacity = LAYOUT_CAPACITY[slide.type] ?? 400;
@@ -0,0 +1,158 @@
+import { describe, it, expect } from "vitest";
+import {
+  getChartData,
+  getValueScale,
+  getChartScale,
+  layoutBars,
+  layoutLines,
+  layoutPie,
+  type ChartData,
+  type PlotBox,
+} from "../geometry";
+
+const box: PlotBox = { x: 0, y: 0, width: 400, height: 200 };
+
+const createData = (overrides: Partial<ChartData> = {}): ChartData => ({
+  chartType: "bar",
+  categories: ["Q1", "Q2", "Q3"],
+  series: [
+    { name: "A", values: [10, 20, 30] },
+    { name: "B", values: [5, 15, 25] },
+  ],
+  ...overrides,
+});
+
+describe("chart geometry", () => {
+  describe("getChartData", () => {
+    it("pads and trims series values to the categories", () => {
+      const data = getChartData({
+        kind: "chart",
+        chartType: "line",
+        categories: ["Jan", "Feb", "Mar"],
+        series: [
+          { name: "Kort", values: [1] },
+          { name: "Lang", values: [1, 2, 3, 4] },
+        ],
+      });
+
+      expect(data.chartType).toBe("line");
+      expect(data.series[0].values).toEqual([1, 0, 0]);
+      expect(data.series[1].values).toEqual([1, 2, 3]);
+    });
+
+    it("defaults to an empty bar chart", () => {
+      expect(getChartData({ kind: "chart" })).toEqual({
+        chartType: "bar",
+        categories: [],
+        series: [],
+      });
+    });
+  });
+
+  describe("getValueScale", () => {
+    it("rounds bounds to nice steps and includes zero", () => {
+      const scale = getValueScale(12, 87);
+      expect(scale.min).toBe(0);
+      expect(scale.max).toBe(100);
+      expect(scale.ticks).toEqual([0, 20, 40, 60, 80, 100]);
+    });
+
+    it("extends below zero for negative values", () => {
+      const scale = getValueScale(-7, 18);
+      expect(scale.min).toBeLessThanOrEqual(-7);
+      expect(scale.max).toBeGreaterThanOrEqual(18);
+      expect(scale.ticks).toContain(0);
+    });
+
+    it("handles all-zero data", () => {
+      const scale = getValueScale(0, 0);
+      expect(scale.max).toBeGreaterThan(scale.min);
+    });
+
+    it("avoids floating point noise in ticks", () => {
+      const scale = getValueScale(0, 0.7);
+      scale.ticks.forEach((tick) => expect(String(tick).length).toBeLessThan(6));
+    });
+  });
+
+  describe("getChartScale", () => {
+    it("scales stacked bars to the stack totals", () => {
+      expect(getChartScale(createData()).max).toBeLessThan(55);
+      expect(getChartScale(createData({ chartType: "stacked_bar" })).max).toBeGreaterThanOrEqual(
+        55
+      );
+    });
+  });
+
+  describe("layoutBars", () => {
+    it("places grouped bars side by side from the baseline", () => {
+      const data = createData();
+      const scale = getChartScale(data);
+      const bars = layoutBars(data, scale, box);
+
+      expect(bars).toHaveLength(6);
+      const [a, b] = bars.filter((bar) => bar.categoryIndex === 0);
+      expect(b.x).toBeCloseTo(a.x + a.width);
+      expect(a.y + a.height).toBeCloseTo(box.height);
+      expect(b.y + b.height).toBeCloseTo(box.height);
+    });
+
+    it("stacks series on top of each other", () => {
+      const data = createData({ chartType: "stacked_bar" });
+      const scale = getChartScale(data);
+      const [a, b] = layoutBars(data, scale, box).filter((bar) => bar.categoryIndex === 2);
+
+      expect(b.x).toBe(a.x);
+      expect(b.y + b.height).toBeCloseTo(a.y);
+    });
+
+    it("draws negative values below the baseline", () => {
+      const data = createData({ series: [{ name: "A", values: [10, -10, 5] }] });
+      const scale = getChartScale(data);
+      const bars = layoutBars(data, scale, box);
+      const zeroY = box.height - ((0 - scale.min) / (scale.max - scale.min)) * box.height;
+
+      expect(bars[0].y + bars[0].height).toBeCloseTo(zeroY);
+      expect(bars[1].y).toBeCloseTo(zeroY);
+    });
+  });
+
+  describe("layoutLines", () => {
+    it("creates one point per category for each series", () => {
+      const data = createData({ chartType: "line" });
+      const lines = layoutLines(data, getChartScale(data), box);
+
+      expect(lines).toHaveLength(2);
+      expect(lines[0].points).toHaveLength(3);
+      expect(lines[0].points[2].y).toBeLessThan(lines[0].points[0].y);
+    });
+  });
+
+  describe("layoutPie", () => {
+    it("splits the first series into slices by share", () => {
+      const data = createData({ chartType: "pie" });
+      const slices = layoutPie(data, 100, 100, 50);
+
+      expect(slices).toHaveLength(3);
+      expect(slices.map((slice) => slice.fraction)).toEqual([10 / 60, 20 / 60, 30 / 60]);
+      slices.forEach((slice) => expect(slice.path.startsWith("M")).toBe(true));
+    });
+
+    it("skips non-positive values and handles a single full slice", () => {
+      const data = createData({
+        chartType: "pie",
+        series: [{ name: "A", values: [0, 40, -5] }],
+      });
+      const slices = layoutPie(data, 100, 100, 50);
+
+      expect(slices).toHaveLength(1);
+      expect(slices[0].categoryIndex).toBe(1);
+      expect(slices[0].fraction).toBe(1);
+    });
+
+    it("returns no slices when there is nothing to show", () => {
+      const data = createData({ chartType: "pie", series: [] });
+      expect(layoutPie(data, 100, 100, 50)).toEqual([]);
+    });
+  });
+});
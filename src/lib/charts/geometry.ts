@@ -0,0 +1,293 @@
+/**
+ * Chart Geometry
+ *
+ * Pure layout math for chart blocks. The React ChartBlock turns the
+ * result into SVG (editor, viewer and PDF via slide-html), so every
+ * renderer draws the same bars, lines and slices.
+ */
+
+import type { Block, ChartSeries, ChartType } from "@/lib/schemas/block";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Chart data with every series aligned to the categories
+ */
+export interface ChartData {
+  chartType: ChartType;
+  categories: string[];
+  series: ChartSeries[];
+}
+
+/**
+ * Plot area inside the SVG viewBox
+ */
+export interface PlotBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Value axis with rounded ("nice") bounds and tick values
+ */
+export interface ValueScale {
+  min: number;
+  max: number;
+  ticks: number[];
+}
+
+export interface BarRect {
+  seriesIndex: number;
+  categoryIndex: number;
+  value: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface LinePoint {
+  categoryIndex: number;
+  value: number;
+  x: number;
+  y: number;
+}
+
+export interface LineSeriesPath {
+  seriesIndex: number;
+  points: LinePoint[];
+}
+
+export interface PieSlice {
+  categoryIndex: number;
+  value: number;
+  fraction: number;
+  path: string;
+  labelX: number;
+  labelY: number;
+}
+
+// ============================================================================
+// Data
+// ============================================================================
+
+/**
+ * Read chart data from a block, padding or trimming series values so
+ * each series has exactly one value per category.
+ */
+export function getChartData(block: Block): ChartData {
+  const categories = block.categories ?? [];
+
+  return {
+    chartType: block.chartType ?? "bar",
+    categories,
+    series: (block.series ?? []).map((series) => ({
+      name: series.name,
+      values: categories.map((_, i) => {
+        const value = series.values[i];
+        return typeof value === "number" && Number.isFinite(value) ? value : 0;
+      }),
+    })),
+  };
+}
+
+/**
+ * Format a value for axis ticks and data labels (Norwegian number format)
+ */
+export function formatChartValue(value: number): string {
+  return new Intl.NumberFormat("nb-NO", { maximumFractionDigits: 1 }).format(value);
+}
+
+// ============================================================================
+// Scales
+// ============================================================================
+
+/**
+ * Round a raw step up to 1, 2, 2.5 or 5 times a power of ten
+ */
+function niceStep(rawStep: number): number {
+  const magnitude = Math.pow(10, Math.floor(Math.log10(rawStep)));
+  const normalized = rawStep / magnitude;
+  const nice =
+    normalized <= 1 ? 1 : normalized <= 2 ? 2 : normalized <= 2.5 ? 2.5 : normalized <= 5 ? 5 : 10;
+  return nice * magnitude;
+}
+
+/**
+ * Build a value scale that always includes zero
+ */
+export function getValueScale(minValue: number, maxValue: number, targetTicks = 5): ValueScale {
+  let min = Math.min(0, minValue);
+  let max = Math.max(0, maxValue);
+
+  if (min === max) {
+    max = min + 1;
+  }
+
+  const step = niceStep((max - min) / targetTicks);
+  min = Math.floor(min / step) * step;
+  max = Math.ceil(max / step) * step;
+
+  const ticks: number[] = [];
+  for (let tick = min; tick <= max + step / 2; tick += step) {
+    // Avoid floating point noise like 0.30000000000000004
+    ticks.push(Number(tick.toPrecision(12)));
+  }
+
+  return { min, max, ticks };
+}
+
+/**
+ * Value scale for the chart's data (stacked charts scale to the stack totals)
+ */
+export function getChartScale(data: ChartData): ValueScale {
+  if (data.chartType === "stacked_bar") {
+    const positives = data.categories.map((_, i) =>
+      data.series.reduce((sum, s) => sum + Math.max(0, s.values[i]), 0)
+    );
+    const negatives = data.categories.map((_, i) =>
+      data.series.reduce((sum, s) => sum + Math.min(0, s.values[i]), 0)
+    );
+    return getValueScale(Math.min(0, ...negatives), Math.max(0, ...positives));
+  }
+
+  const values = data.series.flatMap((s) => s.values);
+  return getValueScale(Math.min(0, ...values), Math.max(0, ...values));
+}
+
+/**
+ * Map a value to a y coordinate inside the plot box
+ */
+export function valueToY(value: number, scale: ValueScale, box: PlotBox): number {
+  const ratio = (value - scale.min) / (scale.max - scale.min);
+  return box.y + box.height - ratio * box.height;
+}
+
+/**
+ * Centre x coordinate of a category band
+ */
+export function categoryCenterX(
+  categoryIndex: number,
+  categoryCount: number,
+  box: PlotBox
+): number {
+  const band = box.width / Math.max(1, categoryCount);
+  return box.x + band * categoryIndex + band / 2;
+}
+
+// ============================================================================
+// Layouts
+// ============================================================================
+
+/**
+ * Lay out grouped (bar) or stacked (stacked_bar) columns
+ */
+export function layoutBars(data: ChartData, scale: ValueScale, box: PlotBox): BarRect[] {
+  const stacked = data.chartType === "stacked_bar";
+  const categoryCount = Math.max(1, data.categories.length);
+  const band = box.width / categoryCount;
+  const groupWidth = band * 0.7;
+  const seriesCount = Math.max(1, data.series.length);
+  const barWidth = stacked ? groupWidth : groupWidth / seriesCount;
+  const zeroY = valueToY(0, scale, box);
+  const rects: BarRect[] = [];
+
+  data.categories.forEach((_, categoryIndex) => {
+    const groupX = box.x + band * categoryIndex + (band - groupWidth) / 2;
+    let positiveTop = 0;
+    let negativeBottom = 0;
+
+    data.series.forEach((series, seriesIndex) => {
+      const value = series.values[categoryIndex] ?? 0;
+      let start = 0;
+      let end = value;
+
+      if (stacked) {
+        if (value >= 0) {
+          start = positiveTop;
+          positiveTop += value;
+          end = positiveTop;
+        } else {
+          start = negativeBottom;
+          negativeBottom += value;
+          end = negativeBottom;
+        }
+      }
+
+      const y1 = stacked ? valueToY(start, scale, box) : zeroY;
+      const y2 = valueToY(end, scale, box);
+
+      rects.push({
+        seriesIndex,
+        categoryIndex,
+        value,
+        x: stacked ? groupX : groupX + barWidth * seriesIndex,
+        y: Math.min(y1, y2),
+        width: barWidth,
+        height: Math.abs(y2 - y1),
+      });
+    });
+  });
+
+  return rects;
+}
+
+/**
+ * Lay out one polyline per series, one point per category
+ */
+export function layoutLines(data: ChartData, scale: ValueScale, box: PlotBox): LineSeriesPath[] {
+  return data.series.map((series, seriesIndex) => ({
+    seriesIndex,
+    points: data.categories.map((_, categoryIndex) => {
+      const value = series.values[categoryIndex] ?? 0;
+      return {
+        categoryIndex,
+        value,
+        x: categoryCenterX(categoryIndex, data.categories.length, box),
+        y: valueToY(value, scale, box),
+      };
+    }),
+  }));
+}
+
+/**
+ * Lay out pie slices for the first series (one slice per category).
+ * Non-positive values are left out; slices start at 12 o'clock.
+ */
+export function layoutPie(data: ChartData, cx: number, cy: number, radius: number): PieSlice[] {
+  const values = data.series[0]?.values ?? [];
+  const total = values.reduce((sum, value) => sum + Math.max(0, value), 0);
+  if (total <= 0) return [];
+
+  const slices: PieSlice[] = [];
+  let angle = -Math.PI / 2;
+
+  values.forEach((value, categoryIndex) => {
+    if (value <= 0) return;
+
+    const fraction = value / total;
+    const sweep = fraction * Math.PI * 2;
+    const endAngle = angle + sweep;
+    const midAngle = angle + sweep / 2;
+
+    const point = (a: number, r: number) => [cx + r * Math.cos(a), cy + r * Math.sin(a)];
+    const [x1, y1] = point(angle, radius);
+    const [x2, y2] = point(endAngle, radius);
+    const [labelX, labelY] = point(midAngle, radius * 0.65);
+
+    // A single full slice cannot be drawn as one arc
+    const path =
+      fraction >= 1
+        ? `M ${cx - radius} ${cy} A ${radius} ${radius} 0 1 1 ${cx + radius} ${cy} A ${radius} ${radius} 0 1 1 ${cx - radius} ${cy} Z`
+        : `M ${cx} ${cy} L ${x1} ${y1} A ${radius} ${radius} 0 ${sweep > Math.PI ? 1 : 0} 1 ${x2} ${y2} Z`;
+
+    slices.push({ categoryIndex, value, fraction, path, labelX, labelY });
+    angle = endAngle;
+  });
+
+  return slices;
+}
@@ -0,0 +1,27 @@
+/**
+ * Charts Module
+ *
+ * Data normalisation and layout math for chart blocks.
+ */
+
+export {
+  getChartData,
+  formatChartValue,
+  getValueScale,
+  getChartScale,
+  valueToY,
+  categoryCenterX,
+  layoutBars,
+  layoutLines,
+  layoutPie,
+} from "./geometry";
+
+export type {
+  ChartData,
+  PlotBox,
+  ValueScale,
+  BarRect,
+  LinePoint,
+  LineSeriesPath,
+  PieSlice,
+} from "./geometry";
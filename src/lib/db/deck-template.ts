@@ -0,0 +1,108 @@
+/**
+ * Deck Template CRUD Operations
+ *
+ * Database operations for templates saved from existing decks.
+ * All operations enforce multi-tenant isolation via workspaceId.
+ */
+
+import { prisma } from "./prisma";
+import type { DeckTemplate as DeckTemplateRecord } from "@prisma/client";
+import type { DeckTemplate, DeckTemplateSlot } from "@/lib/templates/types";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface CreateDeckTemplateInput {
+  workspaceId: string;
+  createdBy?: string;
+  sourceDeckId?: string;
+  name: string;
+  description?: string;
+  slots: DeckTemplateSlot[];
+}
+
+// ============================================================================
+// Operations
+// ============================================================================
+
+/**
+ * Create a deck template
+ */
+export async function createDeckTemplate(input: CreateDeckTemplateInput): Promise<DeckTemplate> {
+  const record = await prisma.deckTemplate.create({
+    data: {
+      workspaceId: input.workspaceId,
+      createdBy: input.createdBy,
+      sourceDeckId: input.sourceDeckId,
+      name: input.name,
+      description: input.description ?? "",
+      slots: JSON.parse(JSON.stringify(input.slots)),
+    },
+  });
+
+  return dbDeckTemplateToTemplate(record);
+}
+
+/**
+ * List all deck templates for a workspace
+ */
+export async function listDeckTemplates(workspaceId: string): Promise<DeckTemplate[]> {
+  const records = await prisma.deckTemplate.findMany({
+    where: { workspaceId },
+    orderBy: { updatedAt: "desc" },
+  });
+
+  return records.map(dbDeckTemplateToTemplate);
+}
+
+/**
+ * Get a deck template by ID
+ * Enforces workspace isolation
+ */
+export async function getDeckTemplate(
+  templateId: string,
+  workspaceId: string
+): Promise<DeckTemplate | null> {
+  const record = await prisma.deckTemplate.findFirst({
+    where: { id: templateId, workspaceId },
+  });
+
+  return record ? dbDeckTemplateToTemplate(record) : null;
+}
+
+/**
+ * Delete a deck template
+ */
+export async function deleteDeckTemplate(
+  templateId: string,
+  workspaceId: string
+): Promise<boolean> {
+  const { count } = await prisma.deckTemplate.deleteMany({
+    where: { id: templateId, workspaceId },
+  });
+
+  return count > 0;
+}
+
+// ============================================================================
+// Conversion
+// ============================================================================
+
+/**
+ * Convert a database record to the template structure used by the pipeline
+ */
+export function dbDeckTemplateToTemplate(record: DeckTemplateRecord): DeckTemplate {
+  const slots = record.slots as unknown as DeckTemplateSlot[];
+
+  return {
+    kind: "deck",
+    id: record.id,
+    workspaceId: record.workspaceId,
+    name: record.name,
+    description: record.description,
+    ...(record.sourceDeckId ? { sourceDeckId: record.sourceDeckId } : {}),
+    slideCount: slots.length,
+    slots,
+  };
+}
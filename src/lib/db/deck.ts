@@ -9,6 +9,9 @@ import { prisma } from "./prisma";
 import type { Deck, Slide, Block } from "@prisma/client";
 import type { Deck as DeckSchema, ThemeId } from "@/lib/schemas/deck";
 import type { Slide as SlideSchema } from "@/lib/schemas/slide";
+import type { DeckTemplate } from "@/lib/templates/types";
+import { deriveDeckTemplateSlots } from "@/lib/templates/from-deck";
+import { createDeckTemplate } from "./deck-template";
 import { randomBytes } from "crypto";
 
 // ============================================================================
@@ -42,9 +45,17 @@ export interface UpdateDeckInput {
   shareAccess?: "private" | "anyone_with_link_can_view";
 }
 
+export interface SaveDeckAsTemplateInput {
+  name: string;
+  description?: string;
+  createdBy?: string;
+}
+
 export interface CreateSlideInput {
   type: string;
   layoutVariant?: string;
+  goldenType?: string;
+  notes?: string;
   blocks: CreateBlockInput[];
 }
 
@@ -260,6 +271,32 @@ export async function revokeShareAccess(deckId: string, workspaceId: string): Pr
   return true;
 }
 
+/**
+ * Save a deck's structure as a reusable template
+ * Derives one slot per slide (type, layout variant, block shape, length limits)
+ * Returns null if the deck does not exist in the workspace
+ */
+export async function saveDeckAsTemplate(
+  deckId: string,
+  workspaceId: string,
+  input: SaveDeckAsTemplateInput
+): Promise<DeckTemplate | null> {
+  const deck = await getDeckById(deckId, workspaceId);
+
+  if (!deck) {
+    return null;
+  }
+
+  return createDeckTemplate({
+    workspaceId,
+    createdBy: input.createdBy,
+    sourceDeckId: deckId,
+    name: input.name,
+    description: input.description,
+    slots: deriveDeckTemplateSlots(dbDeckToSchema(deck)),
+  });
+}
+
 // ============================================================================
 // Slide Operations
 // ============================================================================
@@ -306,6 +343,8 @@ export async function addSlide(
       deckId,
       type: input.type,
       layoutVariant: input.layoutVariant ?? "default",
+      goldenType: input.goldenType,
+      notes: input.notes,
       position: slidePosition,
       blocks: {
         create: input.blocks.map((block, index) => ({
@@ -346,6 +385,8 @@ export async function updateSlide(
     data: {
       type: input.type,
       layoutVariant: input.layoutVariant,
+      goldenType: input.goldenType,
+      notes: input.notes,
     },
     include: {
       blocks: {
@@ -492,6 +533,8 @@ function dbSlideToSchema(dbSlide: Slide & { blocks: Block[] }): SlideSchema {
   return {
     type: dbSlide.type,
     layoutVariant: dbSlide.layoutVariant,
+    ...(dbSlide.goldenType ? { goldenType: dbSlide.goldenType } : {}),
+    ...(dbSlide.notes ? { notes: dbSlide.notes } : {}),
     blocks: dbSlide.blocks.map((block) => ({
       kind: block.kind,
       ...(block.content as object),
@@ -549,6 +592,8 @@ export async function saveDeckFromSchema(
             deckId,
             type: slide.type,
             layoutVariant: slide.layoutVariant,
+            goldenType: slide.goldenType,
+            notes: slide.notes,
             position: slideIndex,
             blocks: {
               create: slide.blocks.map((block, blockIndex) => {
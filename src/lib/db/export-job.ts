@@ -1,7 +1,8 @@
 /**
  * ExportJob CRUD operations
  *
- * Manages PDF and PPTX export job records in the database.
+ * Manages PDF, PPTX and image export job records in the database, and the
+ * content-hash cache that lets unchanged decks reuse earlier export files.
  */
 
 import { prisma } from "./prisma";
@@ -11,12 +12,13 @@ import type { ExportJob } from "@prisma/client";
 export type ExportJobStatus = "queued" | "running" | "completed" | "failed";
 
 // Export format type
-export type ExportFormat = "pdf" | "pptx";
+export type ExportFormat = "pdf" | "pptx" | "png" | "svg" | "html" | "markdown" | "txt";
 
 // Input type for creating an export job
 export interface CreateExportJobInput {
   deckId: string;
   format: ExportFormat;
+  contentHash?: string;
 }
 
 // Input type for updating export job status
@@ -29,24 +31,69 @@ export interface UpdateExportJobStatusInput {
 // Input type for setting export job result
 export interface SetExportJobResultInput {
   fileUrl: string;
+  fileKey: string;
   expiresAt: Date;
+  contentHash?: string;
+  cacheHit?: boolean;
+}
+
+// Input type for recording an export served from the cache
+export interface CreateCachedExportJobInput {
+  deckId: string;
+  format: ExportFormat;
+  contentHash: string;
+  fileUrl: string;
+  fileKey: string;
+  expiresAt: Date;
+}
+
+// Cache hit counts for a period
+export interface ExportCacheStats {
+  total: number;
+  cacheHits: number;
+  /** Hits / total, 0 when there were no exports */
+  hitRate: number;
+  byFormat: Record<string, { total: number; cacheHits: number }>;
 }
 
 /**
  * Create a new export job
  */
 export async function createExportJob(input: CreateExportJobInput): Promise<ExportJob> {
-  const { deckId, format } = input;
+  const { deckId, format, contentHash } = input;
 
   return prisma.exportJob.create({
     data: {
       deckId,
       format,
+      contentHash,
       status: "queued",
     },
   });
 }
 
+/**
+ * Record an export that reuses an earlier file; it is completed right away
+ */
+export async function createCachedExportJob(input: CreateCachedExportJobInput): Promise<ExportJob> {
+  const { deckId, format, contentHash, fileUrl, fileKey, expiresAt } = input;
+  const now = new Date();
+
+  return prisma.exportJob.create({
+    data: {
+      deckId,
+      format,
+      contentHash,
+      fileUrl,
+      fileKey,
+      expiresAt,
+      cacheHit: true,
+      status: "completed",
+      completedAt: now,
+    },
+  });
+}
+
 /**
  * Get an export job by ID
  */
@@ -109,6 +156,56 @@ export async function getLatestCompletedExport(
   });
 }
 
+/**
+ * Find the latest completed export with the same content hash
+ * The signed URL may have expired; the stored key is used to re-sign it.
+ */
+export async function findCachedExport(
+  deckId: string,
+  format: ExportFormat,
+  contentHash: string
+): Promise<ExportJob | null> {
+  return prisma.exportJob.findFirst({
+    where: {
+      deckId,
+      format,
+      contentHash,
+      status: "completed",
+      fileKey: { not: null },
+    },
+    orderBy: { createdAt: "desc" },
+  });
+}
+
+/**
+ * Count exports and cache hits created since a date, overall and per format
+ */
+export async function getExportCacheStats(since: Date): Promise<ExportCacheStats> {
+  const groups = await prisma.exportJob.groupBy({
+    by: ["format", "cacheHit"],
+    where: { createdAt: { gte: since } },
+    _count: { _all: true },
+  });
+
+  const byFormat: ExportCacheStats["byFormat"] = {};
+  for (const group of groups) {
+    const entry = (byFormat[group.format] ??= { total: 0, cacheHits: 0 });
+    entry.total += group._count._all;
+    if (group.cacheHit) entry.cacheHits += group._count._all;
+  }
+
+  const counts = Object.values(byFormat);
+  const total = counts.reduce((sum, entry) => sum + entry.total, 0);
+  const cacheHits = counts.reduce((sum, entry) => sum + entry.cacheHits, 0);
+
+  return {
+    total,
+    cacheHits,
+    hitRate: total > 0 ? cacheHits / total : 0,
+    byFormat,
+  };
+}
+
 /**
  * Update export job status
  */
@@ -147,13 +244,16 @@ export async function setExportJobResult(
   id: string,
   input: SetExportJobResultInput
 ): Promise<ExportJob> {
-  const { fileUrl, expiresAt } = input;
+  const { fileUrl, fileKey, expiresAt, contentHash, cacheHit = false } = input;
 
   return prisma.exportJob.update({
     where: { id },
     data: {
       fileUrl,
+      fileKey,
       expiresAt,
+      contentHash,
+      cacheHit,
       status: "completed",
       completedAt: new Date(),
     },
@@ -7,6 +7,8 @@
 import { prisma } from "./prisma";
 import type { GenerationRequest } from "@/lib/schemas/deck";
 import type { GenerationJob } from "@prisma/client";
+import type { LLMSelection } from "@/lib/ai/llm-providers";
+import type { UsageTotals } from "./usage-record";
 
 // Types for job status
 export type JobStatus = "queued" | "running" | "completed" | "failed";
@@ -16,6 +18,8 @@ export interface CreateJobInput {
   workspaceId: string;
   request: GenerationRequest;
   idempotencyKey?: string;
+  /** API key that created the job, for usage reporting */
+  apiKeyId?: string;
 }
 
 // Input type for updating job status
@@ -43,11 +47,12 @@ function sanitizeText(text: string): string {
  * Create a new generation job
  */
 export async function createGenerationJob(input: CreateJobInput): Promise<GenerationJob> {
-  const { workspaceId, request, idempotencyKey } = input;
+  const { workspaceId, request, idempotencyKey, apiKeyId } = input;
 
   return prisma.generationJob.create({
     data: {
       workspaceId,
+      apiKeyId,
       inputText: sanitizeText(request.inputText),
       textMode: request.textMode,
       language: request.language ?? "no",
@@ -204,6 +209,35 @@ export async function setJobDeckId(id: string, deckId: string): Promise<Generati
   });
 }
 
+/**
+ * Record the provider, model and temperature used per pipeline stage
+ */
+export async function setJobLLMModels(
+  id: string,
+  models: Record<string, LLMSelection>
+): Promise<GenerationJob> {
+  return prisma.generationJob.update({
+    where: { id },
+    data: { llmModels: JSON.parse(JSON.stringify(models)) },
+  });
+}
+
+/**
+ * Add usage to the job's token, image and cost totals
+ * Incremented rather than set, so retried attempts are counted too.
+ */
+export async function addJobUsage(id: string, usage: UsageTotals): Promise<GenerationJob> {
+  return prisma.generationJob.update({
+    where: { id },
+    data: {
+      promptTokens: { increment: usage.promptTokens },
+      completionTokens: { increment: usage.completionTokens },
+      imageCount: { increment: usage.images },
+      costUsd: { increment: usage.costUsd },
+    },
+  });
+}
+
 /**
  * Get all jobs for a workspace (for dashboard/listing)
  */
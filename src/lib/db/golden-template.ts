@@ -0,0 +1,140 @@
+/**
+ * Workspace Golden Template CRUD Operations
+ *
+ * Database operations for golden templates defined by a workspace.
+ * All operations enforce multi-tenant isolation via workspaceId.
+ * Input is expected to be validated with GoldenTemplateInputSchema.
+ */
+
+import { prisma } from "./prisma";
+import type { GoldenTemplate as GoldenTemplateRecord } from "@prisma/client";
+import type { GoldenSlot, WorkspaceGoldenTemplate } from "@/lib/templates/types";
+import type { GoldenTemplateInput } from "@/lib/templates/schema";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface CreateGoldenTemplateInput extends GoldenTemplateInput {
+  workspaceId: string;
+  createdBy?: string;
+}
+
+// ============================================================================
+// Operations
+// ============================================================================
+
+/**
+ * Create a workspace golden template
+ */
+export async function createWorkspaceTemplate(
+  input: CreateGoldenTemplateInput
+): Promise<WorkspaceGoldenTemplate> {
+  const record = await prisma.goldenTemplate.create({
+    data: {
+      workspaceId: input.workspaceId,
+      createdBy: input.createdBy,
+      name: input.name,
+      description: input.description,
+      useCases: input.useCases,
+      slots: input.slots,
+    },
+  });
+
+  return dbTemplateToGoldenTemplate(record);
+}
+
+/**
+ * List all golden templates for a workspace
+ */
+export async function listWorkspaceTemplates(
+  workspaceId: string
+): Promise<WorkspaceGoldenTemplate[]> {
+  const records = await prisma.goldenTemplate.findMany({
+    where: { workspaceId },
+    orderBy: { updatedAt: "desc" },
+  });
+
+  return records.map(dbTemplateToGoldenTemplate);
+}
+
+/**
+ * Get a workspace golden template by ID
+ * Enforces workspace isolation
+ */
+export async function getWorkspaceTemplate(
+  templateId: string,
+  workspaceId: string
+): Promise<WorkspaceGoldenTemplate | null> {
+  const record = await prisma.goldenTemplate.findFirst({
+    where: { id: templateId, workspaceId },
+  });
+
+  return record ? dbTemplateToGoldenTemplate(record) : null;
+}
+
+/**
+ * Replace a workspace golden template's definition
+ */
+export async function updateWorkspaceTemplate(
+  templateId: string,
+  workspaceId: string,
+  input: GoldenTemplateInput
+): Promise<WorkspaceGoldenTemplate | null> {
+  // Verify ownership first
+  const existing = await prisma.goldenTemplate.findFirst({
+    where: { id: templateId, workspaceId },
+  });
+
+  if (!existing) {
+    return null;
+  }
+
+  const record = await prisma.goldenTemplate.update({
+    where: { id: templateId },
+    data: {
+      name: input.name,
+      description: input.description,
+      useCases: input.useCases,
+      slots: input.slots,
+    },
+  });
+
+  return dbTemplateToGoldenTemplate(record);
+}
+
+/**
+ * Delete a workspace golden template
+ */
+export async function deleteWorkspaceTemplate(
+  templateId: string,
+  workspaceId: string
+): Promise<boolean> {
+  const { count } = await prisma.goldenTemplate.deleteMany({
+    where: { id: templateId, workspaceId },
+  });
+
+  return count > 0;
+}
+
+// ============================================================================
+// Conversion
+// ============================================================================
+
+/**
+ * Convert a database record to the template structure used by the pipeline
+ */
+export function dbTemplateToGoldenTemplate(record: GoldenTemplateRecord): WorkspaceGoldenTemplate {
+  const slots = record.slots as unknown as GoldenSlot[];
+
+  return {
+    id: record.id,
+    workspaceId: record.workspaceId,
+    name: record.name,
+    description: record.description,
+    useCases: record.useCases,
+    slideCount: slots.length,
+    slots,
+    defaultTheme: "golden",
+  };
+}
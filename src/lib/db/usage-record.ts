@@ -0,0 +1,123 @@
+/**
+ * Usage Record Operations
+ *
+ * Token and image usage per LLM/image call, with the estimated cost, and the
+ * per-workspace aggregates behind the usage page and API.
+ * All reads enforce multi-tenant isolation via workspaceId.
+ */
+
+import { prisma } from "./prisma";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type UsageSource = "generation" | "slide_agent" | "edit_action" | "image_generation";
+
+export interface CreateUsageRecordInput {
+  workspaceId: string;
+  apiKeyId?: string;
+  generationJobId?: string;
+  deckId?: string;
+  source: UsageSource;
+  stage?: string;
+  kind: "llm" | "image";
+  provider: string;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  images: number;
+  costUsd: number;
+}
+
+export interface UsageTotals {
+  promptTokens: number;
+  completionTokens: number;
+  images: number;
+  costUsd: number;
+}
+
+export interface WorkspaceUsage {
+  since: Date;
+  totals: UsageTotals;
+  /** apiKeyId null covers usage from the app (editor and app generations) */
+  byApiKey: Array<UsageTotals & { apiKeyId: string | null; apiKeyName: string | null }>;
+  byModel: Array<UsageTotals & { provider: string; model: string }>;
+  bySource: Array<UsageTotals & { source: string }>;
+}
+
+interface UsageSums {
+  _sum: {
+    promptTokens: number | null;
+    completionTokens: number | null;
+    images: number | null;
+    costUsd: { toNumber(): number } | null;
+  };
+}
+
+// ============================================================================
+// Operations
+// ============================================================================
+
+/**
+ * Record the usage of one LLM or image call
+ */
+export async function createUsageRecord(input: CreateUsageRecordInput): Promise<void> {
+  await prisma.usageRecord.create({ data: input });
+}
+
+/**
+ * Aggregate a workspace's usage since the given date
+ */
+export async function getWorkspaceUsage(workspaceId: string, since: Date): Promise<WorkspaceUsage> {
+  const where = { workspaceId, createdAt: { gte: since } };
+  const sum = {
+    promptTokens: true,
+    completionTokens: true,
+    images: true,
+    costUsd: true,
+  } as const;
+
+  const [totals, byApiKey, byModel, bySource] = await Promise.all([
+    prisma.usageRecord.aggregate({ where, _sum: sum }),
+    prisma.usageRecord.groupBy({ by: ["apiKeyId"], where, _sum: sum }),
+    prisma.usageRecord.groupBy({ by: ["provider", "model"], where, _sum: sum }),
+    prisma.usageRecord.groupBy({ by: ["source"], where, _sum: sum }),
+  ]);
+
+  const apiKeyIds = byApiKey
+    .map((group) => group.apiKeyId)
+    .filter((id): id is string => id !== null);
+  const apiKeys = await prisma.apiKey.findMany({
+    where: { id: { in: apiKeyIds }, workspaceId },
+    select: { id: true, name: true },
+  });
+  const apiKeyNames = new Map(apiKeys.map((key) => [key.id, key.name]));
+
+  const byCost = (a: UsageTotals, b: UsageTotals) => b.costUsd - a.costUsd;
+
+  return {
+    since,
+    totals: toTotals(totals),
+    byApiKey: byApiKey
+      .map((group) => ({
+        apiKeyId: group.apiKeyId,
+        apiKeyName: group.apiKeyId ? (apiKeyNames.get(group.apiKeyId) ?? null) : null,
+        ...toTotals(group),
+      }))
+      .sort(byCost),
+    byModel: byModel
+      .map((group) => ({ provider: group.provider, model: group.model, ...toTotals(group) }))
+      .sort(byCost),
+    bySource: bySource.map((group) => ({ source: group.source, ...toTotals(group) })).sort(byCost),
+  };
+}
+
+function toTotals({ _sum }: UsageSums): UsageTotals {
+  return {
+    promptTokens: _sum.promptTokens ?? 0,
+    completionTokens: _sum.completionTokens ?? 0,
+    images: _sum.images ?? 0,
+    costUsd: _sum.costUsd?.toNumber() ?? 0,
+  };
+}
@@ -0,0 +1,34 @@
+/**
+ * Workspace Settings Operations
+ *
+ * Database reads for per-workspace settings used outside the Supabase routes.
+ */
+
+import { prisma } from "./prisma";
+import type { LLMClientOptions } from "@/lib/ai/llm-providers";
+import { ModelRoutingSchema, type ModelRouting } from "@/lib/ai/model-routing";
+
+export interface WorkspaceLLMSettings extends LLMClientOptions {
+  /** Per-stage overrides of provider, model and temperature */
+  routing: ModelRouting;
+}
+
+/**
+ * Get the workspace's LLM provider, model and stage routing overrides
+ * Unset fields fall back to the environment defaults in getLLMClient.
+ */
+export async function getWorkspaceLLMSettings(workspaceId: string): Promise<WorkspaceLLMSettings> {
+  const workspace = await prisma.workspace.findUnique({
+    where: { id: workspaceId },
+    select: { llmProvider: true, llmModel: true, llmRouting: true },
+  });
+
+  // Validated on write; anything else stored there is ignored
+  const routing = ModelRoutingSchema.safeParse(workspace?.llmRouting ?? {});
+
+  return {
+    provider: workspace?.llmProvider ?? undefined,
+    model: workspace?.llmModel ?? undefined,
+    routing: routing.success ? routing.data : {},
+  };
+}
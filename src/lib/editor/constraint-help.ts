@@ -116,6 +116,9 @@ export function getBlockKindHelp(kind: BlockKind): string {
     case "numbered_card":
       return "Nummererte kort skal gi rask oversikt. Lange tekster bryter det visuelle hierarkiet.";
 
+    case "chart":
+      return "Diagrammer må kunne leses på få sekunder. Mange kategorier eller dataserier gjør stolper og linjer for små til å sammenligne.";
+
     default:
       return "Denne blokktypen har begrensninger for å sikre god lesbarhet på slide.";
   }
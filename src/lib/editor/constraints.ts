@@ -62,6 +62,16 @@ export const BLOCK_CONSTRAINTS = {
     maxTextChars: 60,
     maxDescriptionChars: 150,
   },
+  chart: {
+    maxTitleChars: 80,
+    minCategories: 1,
+    maxCategories: 12,
+    maxCategoryChars: 30,
+    minSeries: 1,
+    maxSeries: 6,
+    maxSeriesNameChars: 40,
+    maxAxisLabelChars: 40,
+  },
 } as const;
 
 // ============================================================================
@@ -314,6 +324,44 @@ export function validateBlock(
       break;
     }
 
+    case "chart": {
+      const title = block.text ?? "";
+      const categories = block.categories ?? [];
+      const series = block.series ?? [];
+      const { maxTitleChars, maxCategories, maxSeries } = BLOCK_CONSTRAINTS.chart;
+
+      if (title.length > maxTitleChars) {
+        violations.push({
+          blockId,
+          type: "max_chars",
+          current: title.length,
+          max: maxTitleChars,
+          message: `Diagramtittel er for lang (${title.length}/${maxTitleChars} tegn)`,
+        });
+      }
+
+      if (categories.length > maxCategories) {
+        violations.push({
+          blockId,
+          type: "max_items",
+          current: categories.length,
+          max: maxCategories,
+          message: `For mange kategorier (${categories.length}/${maxCategories})`,
+        });
+      }
+
+      if (series.length > maxSeries) {
+        violations.push({
+          blockId,
+          type: "max_rows",
+          current: series.length,
+          max: maxSeries,
+          message: `For mange dataserier (${series.length}/${maxSeries})`,
+        });
+      }
+      break;
+    }
+
     // Image blocks are read-only, no validation needed
     case "image":
       break;
@@ -579,6 +627,39 @@ export function enforceBlockConstraints(block: Block): Block {
       break;
     }
 
+    case "chart": {
+      const {
+        maxTitleChars,
+        maxCategories,
+        maxCategoryChars,
+        maxSeries,
+        maxSeriesNameChars,
+        maxAxisLabelChars,
+      } = BLOCK_CONSTRAINTS.chart;
+      if (enforced.text && enforced.text.length > maxTitleChars) {
+        enforced.text = truncateText(enforced.text, maxTitleChars);
+      }
+      if (enforced.categories) {
+        enforced.categories = enforced.categories
+          .slice(0, maxCategories)
+          .map((category) => truncateText(category, maxCategoryChars));
+      }
+      if (enforced.series) {
+        const categoryCount = enforced.categories?.length ?? maxCategories;
+        enforced.series = enforced.series.slice(0, maxSeries).map((series) => ({
+          name: truncateText(series.name, maxSeriesNameChars),
+          values: series.values.slice(0, categoryCount),
+        }));
+      }
+      if (enforced.xAxisLabel && enforced.xAxisLabel.length > maxAxisLabelChars) {
+        enforced.xAxisLabel = truncateText(enforced.xAxisLabel, maxAxisLabelChars);
+      }
+      if (enforced.yAxisLabel && enforced.yAxisLabel.length > maxAxisLabelChars) {
+        enforced.yAxisLabel = truncateText(enforced.yAxisLabel, maxAxisLabelChars);
+      }
+      break;
+    }
+
     // image blocks have no text constraints that need enforcement
     case "image":
       break;
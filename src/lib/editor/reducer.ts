@@ -116,6 +116,34 @@ export function editorReducer(state: EditorState, action: EditorAction): EditorS
       };
     }
 
+    case "UPDATE_SLIDE_NOTES": {
+      const { index, notes } = action.payload;
+      if (index < 0 || index >= state.deck.slides.length) {
+        return state;
+      }
+
+      // Skip no-op commits so they don't create empty undo steps
+      const current = state.deck.slides[index].notes ?? "";
+      if (current === notes) {
+        return state;
+      }
+
+      const newSlides = [...state.deck.slides];
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      const { notes: _previous, ...slide } = newSlides[index];
+      newSlides[index] = notes ? { ...slide, notes } : slide;
+
+      return {
+        ...state,
+        deck: {
+          ...state.deck,
+          slides: newSlides,
+        },
+        isDirty: true,
+        history: pushToHistory(state.history, state.deck),
+      };
+    }
+
     case "UPDATE_BLOCK": {
       const { slideIndex, blockIndex, block } = action.payload;
       if (
@@ -417,6 +445,11 @@ export const editorActions = {
     payload: { index, slide },
   }),
 
+  updateSlideNotes: (index: number, notes: string): EditorAction => ({
+    type: "UPDATE_SLIDE_NOTES",
+    payload: { index, notes },
+  }),
+
   updateBlock: (slideIndex: number, blockIndex: number, block: Partial<Block>): EditorAction => ({
     type: "UPDATE_BLOCK",
     payload: { slideIndex, blockIndex, block },
@@ -114,6 +114,15 @@ export interface UpdateSlideAction {
   };
 }
 
+/** Update a slide's speaker notes (empty string removes them) */
+export interface UpdateSlideNotesAction {
+  type: "UPDATE_SLIDE_NOTES";
+  payload: {
+    index: number;
+    notes: string;
+  };
+}
+
 /** Update a block */
 export interface UpdateBlockAction {
   type: "UPDATE_BLOCK";
@@ -236,6 +245,7 @@ export type EditorAction =
   | StopEditingAction
   | UpdateDeckMetaAction
   | UpdateSlideAction
+  | UpdateSlideNotesAction
   | UpdateBlockAction
   | AddSlideAction
   | DeleteSlideAction
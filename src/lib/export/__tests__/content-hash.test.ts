@@ -0,0 +1,82 @@
+/**
+ * Export Content Hash Tests
+ */
+
+import { describe, it, expect } from "vitest";
+import { computeExportHash, type ExportHashInput } from "../content-hash";
+import type { Deck } from "@/lib/schemas/deck";
+
+const deck: Deck = {
+  deck: { title: "Styremøte", language: "no", themeId: "nordic_light" },
+  slides: [
+    {
+      type: "bullets",
+      layoutVariant: "default",
+      blocks: [
+        { kind: "title", text: "Agenda" },
+        { kind: "bullets", items: ["Budsjett", "Ansettelser"] },
+      ],
+    },
+  ],
+};
+
+const input: ExportHashInput = { deck, format: "pdf", themeId: "nordic_light" };
+
+describe("content-hash", () => {
+  describe("computeExportHash", () => {
+    it("is stable for the same content", () => {
+      const copy = structuredClone(input);
+
+      expect(computeExportHash(copy)).toBe(computeExportHash(input));
+      expect(computeExportHash(input)).toMatch(/^[0-9a-f]{64}$/);
+    });
+
+    it("ignores object key order", () => {
+      const reordered: Deck = {
+        slides: [
+          {
+            blocks: [
+              { text: "Agenda", kind: "title" },
+              { items: ["Budsjett", "Ansettelser"], kind: "bullets" },
+            ],
+            layoutVariant: "default",
+            type: "bullets",
+          },
+        ],
+        deck: { themeId: "nordic_light", language: "no", title: "Styremøte" },
+      };
+
+      expect(computeExportHash({ ...input, deck: reordered })).toBe(computeExportHash(input));
+    });
+
+    it("changes with slide content, title, theme, brand kit and format", () => {
+      const edited = structuredClone(deck);
+      edited.slides[0].blocks[1].items = ["Budsjett"];
+      const retitled = { ...deck, deck: { ...deck.deck, title: "Styremøte mars" } };
+
+      const hashes = [
+        computeExportHash(input),
+        computeExportHash({ ...input, deck: edited }),
+        computeExportHash({ ...input, deck: retitled }),
+        computeExportHash({ ...input, themeId: "nordic_dark" }),
+        computeExportHash({ ...input, brandKit: { primaryColor: "#123456" } }),
+        computeExportHash({ ...input, format: "pptx" }),
+      ];
+
+      expect(new Set(hashes).size).toBe(hashes.length);
+    });
+
+    it("only counts options that apply to the format", () => {
+      expect(computeExportHash({ ...input, handout: "six_per_page" })).not.toBe(
+        computeExportHash(input)
+      );
+      expect(computeExportHash({ ...input, scale: 2 })).toBe(computeExportHash(input));
+
+      const png: ExportHashInput = { ...input, format: "png" };
+      expect(computeExportHash({ ...png, scale: 2 })).not.toBe(
+        computeExportHash({ ...png, scale: 1 })
+      );
+      expect(computeExportHash({ ...png, handout: "six_per_page" })).toBe(computeExportHash(png));
+    });
+  });
+});
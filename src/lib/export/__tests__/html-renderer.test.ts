@@ -0,0 +1,190 @@
+/**
+ * HTML Renderer Tests
+ *
+ * Tests for the self-contained HTML export. Fonts and images are served
+ * by a stubbed fetch, so no network access is needed.
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import { renderDeckToHtml, extractFontFamilies, GOOGLE_FONTS_CSS_URL } from "../html-renderer";
+import type { Deck } from "@/lib/schemas/deck";
+
+const IMAGE_URL = "https://images.example.com/team.png?w=800&h=600";
+const FONT_URL = "https://fonts.gstatic.com/s/plusjakartasans/v8/font.woff2";
+
+const deck: Deck = {
+  deck: { title: "Strategi <2025> & videre", language: "no", themeId: "nordic_light" },
+  slides: [
+    {
+      type: "cover",
+      layoutVariant: "default",
+      blocks: [
+        { kind: "title", text: "Strategi 2025" },
+        { kind: "text", text: "Ledermøte" },
+      ],
+    },
+    {
+      type: "text_plus_image",
+      layoutVariant: "default",
+      blocks: [
+        { kind: "title", text: "Teamet" },
+        { kind: "text", text: "Tolv ansatte i Oslo" },
+        { kind: "image", url: IMAGE_URL, alt: "Teamet", cropMode: "cover" },
+      ],
+    },
+  ],
+};
+
+function stubFetch() {
+  return vi.fn(async (url: string) => {
+    if (url.startsWith(GOOGLE_FONTS_CSS_URL)) {
+      return new Response(
+        `@font-face { font-family: 'Plus Jakarta Sans'; src: url(${FONT_URL}) format('woff2'); }`,
+        { headers: { "content-type": "text/css; charset=utf-8" } }
+      );
+    }
+    if (url === FONT_URL) {
+      return new Response(Buffer.from("font-bytes"), { headers: { "content-type": "font/woff2" } });
+    }
+    if (url === IMAGE_URL) {
+      return new Response(Buffer.from("png-bytes"), { headers: { "content-type": "image/png" } });
+    }
+    return new Response("Not found", { status: 404 });
+  });
+}
+
+describe("html-renderer", () => {
+  describe("renderDeckToHtml", () => {
+    it("renders every slide into one document with navigation", async () => {
+      const html = (
+        await renderDeckToHtml(deck, "nordic_light", undefined, { fetch: stubFetch() })
+      ).toString("utf-8");
+
+      expect(html.startsWith("<!DOCTYPE html>")).toBe(true);
+      expect(html).toContain('<html lang="no" dir="ltr">');
+      expect(html).toContain("<title>Strategi &lt;2025&gt; &amp; videre</title>");
+      expect(html.match(/<section class="deck-slide"/g)).toHaveLength(2);
+      expect(html).toContain('aria-label="Slide 2 av 2"');
+      expect(html).toContain("Tolv ansatte i Oslo");
+      expect(html).toContain('case "ArrowRight":');
+      expect(html).toContain("--theme-color-primary");
+    });
+
+    it("inlines images and fonts so the file works offline", async () => {
+      const fetchFn = stubFetch();
+
+      const html = (
+        await renderDeckToHtml(deck, "nordic_light", undefined, { fetch: fetchFn })
+      ).toString("utf-8");
+
+      expect(fetchFn).toHaveBeenCalledWith(
+        IMAGE_URL,
+        expect.objectContaining({ signal: expect.any(AbortSignal) })
+      );
+      expect(html).toContain(
+        `data:image/png;base64,${Buffer.from("png-bytes").toString("base64")}`
+      );
+      expect(html).toContain(
+        `url(data:font/woff2;base64,${Buffer.from("font-bytes").toString("base64")})`
+      );
+      expect(html).not.toContain("images.example.com");
+      expect(html).not.toContain("fonts.gstatic.com");
+    });
+
+    it("requests the theme fonts from Google Fonts", async () => {
+      const fetchFn = stubFetch();
+
+      await renderDeckToHtml(deck, "nordic_light", undefined, { fetch: fetchFn });
+
+      expect(fetchFn).toHaveBeenCalledWith(
+        `${GOOGLE_FONTS_CSS_URL}?family=Plus+Jakarta+Sans:wght@400..800&display=swap`,
+        expect.objectContaining({ headers: expect.any(Object) })
+      );
+    });
+
+    it("keeps remote URLs and system fonts when assets cannot be fetched", async () => {
+      const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+      const fetchFn = vi.fn(async () => new Response("Unavailable", { status: 503 }));
+
+      const html = (
+        await renderDeckToHtml(deck, "nordic_light", undefined, { fetch: fetchFn })
+      ).toString("utf-8");
+
+      expect(html).toContain(IMAGE_URL.replace("&", "&amp;"));
+      expect(html).not.toContain("@font-face");
+      expect(warn).toHaveBeenCalledTimes(2);
+      warn.mockRestore();
+    });
+
+    it("only inlines responses that are images", async () => {
+      const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+      const fetchFn = vi.fn(async (url: string) =>
+        url === IMAGE_URL
+          ? new Response('{"secret":"internal"}', {
+              headers: { "content-type": "application/json" },
+            })
+          : stubFetch()(url)
+      );
+
+      const html = (
+        await renderDeckToHtml(deck, "nordic_light", undefined, { fetch: fetchFn })
+      ).toString("utf-8");
+
+      expect(html).toContain(IMAGE_URL.replace("&", "&amp;"));
+      expect(html).not.toContain("data:application/json");
+      expect(warn).toHaveBeenCalledWith(
+        expect.stringContaining("Could not inline"),
+        expect.any(Error)
+      );
+      warn.mockRestore();
+    });
+
+    it("keeps the URL of images larger than the size limit", async () => {
+      const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+      const html = (
+        await renderDeckToHtml(deck, "nordic_light", undefined, {
+          fetch: stubFetch(),
+          maxAssetBytes: 4,
+        })
+      ).toString("utf-8");
+
+      expect(html).toContain(IMAGE_URL.replace("&", "&amp;"));
+      expect(html).not.toContain("data:image/png");
+      warn.mockRestore();
+    });
+
+    it("gives up on hosts that do not respond in time", async () => {
+      const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+      const fetchFn = vi.fn(
+        (_url: string, init?: RequestInit) =>
+          new Promise<Response>((_, reject) =>
+            init?.signal?.addEventListener("abort", () => reject(init.signal!.reason))
+          )
+      );
+
+      const html = (
+        await renderDeckToHtml(deck, "nordic_light", undefined, {
+          fetch: fetchFn,
+          assetTimeoutMs: 10,
+        })
+      ).toString("utf-8");
+
+      expect(html).toContain(IMAGE_URL.replace("&", "&amp;"));
+      expect(html).not.toContain("@font-face");
+      warn.mockRestore();
+    });
+  });
+
+  describe("extractFontFamilies", () => {
+    it("returns unique quoted family names", () => {
+      expect(
+        extractFontFamilies([
+          '"Plus Jakarta Sans", system-ui, sans-serif',
+          '"Plus Jakarta Sans", "Inter", sans-serif',
+          "system-ui, sans-serif",
+        ])
+      ).toEqual(["Plus Jakarta Sans", "Inter"]);
+    });
+  });
+});
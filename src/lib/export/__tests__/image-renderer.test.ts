@@ -0,0 +1,142 @@
+/**
+ * Image Renderer Tests
+ *
+ * Tests for PNG and SVG export. Rendering requires Playwright Chromium;
+ * SVG wrapping and zip packaging run without it.
+ */
+
+import { describe, it, expect, afterAll } from "vitest";
+import JSZip from "jszip";
+import { existsSync } from "fs";
+import { join } from "path";
+import { homedir } from "os";
+import { renderSlidesToImages, packageSlideImages, slideMarkupToSvg } from "../image-renderer";
+import { closeBrowser } from "../pdf-renderer";
+import { PDF_DIMENSIONS } from "../slide-html";
+import type { Slide } from "@/lib/schemas/slide";
+
+// Check if Playwright Chromium is installed
+function isPlaywrightInstalled(): boolean {
+  const playwrightCache = join(homedir(), "Library/Caches/ms-playwright");
+  try {
+    return existsSync(playwrightCache);
+  } catch {
+    return false;
+  }
+}
+
+const PLAYWRIGHT_AVAILABLE = isPlaywrightInstalled();
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47]);
+
+const slides: Slide[] = [
+  {
+    type: "cover",
+    layoutVariant: "default",
+    blocks: [
+      { kind: "title", text: "Test Presentation" },
+      { kind: "text", text: "Subtitle text here" },
+    ],
+  },
+  {
+    type: "bullets",
+    layoutVariant: "default",
+    blocks: [
+      { kind: "title", text: "Key Points" },
+      { kind: "bullets", items: ["First point", "Second point"] },
+    ],
+  },
+];
+
+describe("image-renderer", () => {
+  describe("slideMarkupToSvg", () => {
+    it("wraps slide markup in a foreignObject sized to the slide", () => {
+      const svg = slideMarkupToSvg(
+        ".slide { color: red; }",
+        '<body xmlns="http://www.w3.org/1999/xhtml"><h1>Hei</h1></body>'
+      );
+      const { width, height } = PDF_DIMENSIONS;
+
+      expect(svg).toContain(`viewBox="0 0 ${width} ${height}"`);
+      expect(svg).toContain("<style><![CDATA[.slide { color: red; }]]></style>");
+      expect(svg).toContain(
+        `<foreignObject x="0" y="0" width="${width}" height="${height}"><body xmlns="http://www.w3.org/1999/xhtml"><h1>Hei</h1></body></foreignObject>`
+      );
+    });
+
+    it("keeps CSS containing a CDATA terminator inside the style", () => {
+      const svg = slideMarkupToSvg('a::after { content: "]]>"; }', "<body/>");
+
+      expect(svg).toContain('content: "]]]]><![CDATA[>"');
+      expect(svg.match(/]]><\/style>/g)).toHaveLength(1);
+    });
+  });
+
+  describe("packageSlideImages", () => {
+    it("returns a single slide as the image itself", async () => {
+      const image = Buffer.from("png-bytes");
+
+      const file = await packageSlideImages([image], "png");
+
+      expect(file).toEqual({ buffer: image, contentType: "image/png", extension: "png" });
+    });
+
+    it("zips several slides in slide order", async () => {
+      const images = Array.from({ length: 3 }, (_, i) => Buffer.from(`<svg>${i + 1}</svg>`));
+
+      const file = await packageSlideImages(images, "svg");
+      const zip = await JSZip.loadAsync(file.buffer);
+
+      expect(file.contentType).toBe("application/zip");
+      expect(file.extension).toBe("zip");
+      expect(Object.keys(zip.files)).toEqual(["slide-01.svg", "slide-02.svg", "slide-03.svg"]);
+      expect(await zip.file("slide-02.svg")?.async("string")).toBe("<svg>2</svg>");
+    });
+
+    it("pads file names to the number of slides", async () => {
+      const images = Array.from({ length: 120 }, () => Buffer.from("png"));
+
+      const zip = await JSZip.loadAsync((await packageSlideImages(images, "png")).buffer);
+
+      expect(zip.file("slide-001.png")).not.toBeNull();
+      expect(zip.file("slide-120.png")).not.toBeNull();
+    });
+  });
+});
+
+describe.skipIf(!PLAYWRIGHT_AVAILABLE)("image-renderer (requires Playwright)", () => {
+  afterAll(async () => {
+    await closeBrowser();
+  });
+
+  it("renders one PNG per slide", async () => {
+    const images = await renderSlidesToImages(slides, "nordic_light", undefined, {
+      format: "png",
+    });
+
+    expect(images).toHaveLength(2);
+    images.forEach((image) => expect(image.subarray(0, 4)).toEqual(PNG_SIGNATURE));
+  }, 60000);
+
+  it("scales PNG output by the pixel density", async () => {
+    const [image] = await renderSlidesToImages(slides.slice(0, 1), "nordic_light", undefined, {
+      format: "png",
+      scale: 2,
+    });
+
+    // Width and height are stored big-endian in the IHDR chunk
+    expect(image.readUInt32BE(16)).toBe(PDF_DIMENSIONS.width * 2);
+    expect(image.readUInt32BE(20)).toBe(PDF_DIMENSIONS.height * 2);
+  }, 60000);
+
+  it("renders slides to SVG with the slide text", async () => {
+    const [cover] = await renderSlidesToImages(slides, "nordic_light", undefined, {
+      format: "svg",
+    });
+    const svg = cover.toString("utf-8");
+
+    expect(svg.startsWith("<svg")).toBe(true);
+    expect(svg).toContain("<foreignObject");
+    expect(svg).toContain("Test Presentation");
+  }, 60000);
+});
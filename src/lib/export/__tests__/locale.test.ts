@@ -0,0 +1,78 @@
+/**
+ * Export Locale Tests
+ */
+
+import { describe, it, expect } from "vitest";
+import { generateLocaleStyles, resolveExportLocale, withFallbackFonts } from "../locale";
+
+const THEME_FONT = '"Plus Jakarta Sans", system-ui, -apple-system, sans-serif';
+
+describe("locale", () => {
+  describe("resolveExportLocale", () => {
+    it.each([
+      ["no", "«", "»"],
+      ["en", "“", "”"],
+      ["sv", "”", "”"],
+      ["de", "„", "“"],
+      ["da", "»", "«"],
+    ])("uses %s quotation marks", (language, open, close) => {
+      const locale = resolveExportLocale(language);
+
+      expect(locale.lang).toBe(language);
+      expect(locale.quotes.slice(0, 2)).toEqual([open, close]);
+      expect(locale.script).toBe("latin");
+      expect(locale.dir).toBe("ltr");
+    });
+
+    it("normalises tag casing and matches on the primary subtag", () => {
+      const locale = resolveExportLocale("EN_gb");
+
+      expect(locale.lang).toBe("en-GB");
+      expect(locale.quotes[0]).toBe("“");
+      expect(resolveExportLocale("zh-hant-tw").lang).toBe("zh-Hant-TW");
+    });
+
+    it("picks fallback fonts for non-Latin scripts", () => {
+      expect(resolveExportLocale("ru").fallbackFonts).toEqual(['"Noto Sans"']);
+      expect(resolveExportLocale("ja").fallbackFonts).toContain('"Noto Sans CJK JP"');
+      expect(resolveExportLocale("zh").script).toBe("chinese_simplified");
+      expect(resolveExportLocale("zh-TW").script).toBe("chinese_traditional");
+      expect(resolveExportLocale("en").fallbackFonts).toEqual([]);
+    });
+
+    it("sets right-to-left direction for Arabic and Hebrew", () => {
+      expect(resolveExportLocale("ar").dir).toBe("rtl");
+      expect(resolveExportLocale("he").dir).toBe("rtl");
+    });
+
+    it("keeps unknown languages with English quotes", () => {
+      const locale = resolveExportLocale("sw");
+
+      expect(locale.lang).toBe("sw");
+      expect(locale.quotes[0]).toBe("“");
+      expect(locale.fallbackFonts).toEqual([]);
+    });
+  });
+
+  describe("withFallbackFonts", () => {
+    it("inserts fallbacks after named fonts and before generic families", () => {
+      expect(withFallbackFonts(THEME_FONT, resolveExportLocale("ru"))).toBe(
+        '"Plus Jakarta Sans", "Noto Sans", system-ui, -apple-system, sans-serif'
+      );
+    });
+
+    it("leaves Latin fonts unchanged", () => {
+      expect(withFallbackFonts(THEME_FONT, resolveExportLocale("de"))).toBe(THEME_FONT);
+    });
+  });
+
+  describe("generateLocaleStyles", () => {
+    it("sets quotes and hyphenation, but not for headings", () => {
+      const css = generateLocaleStyles(resolveExportLocale("de"));
+
+      expect(css).toContain('quotes: "„" "“" "‚" "‘"');
+      expect(css).toContain("hyphens: auto");
+      expect(css).toMatch(/h1, h2, h3[^{]*\{\s*hyphens: manual/);
+    });
+  });
+});
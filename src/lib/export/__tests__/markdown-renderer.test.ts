@@ -0,0 +1,188 @@
+/**
+ * Markdown Renderer Tests
+ *
+ * Covers every block kind, round-trips through the Markdown importer, and
+ * checks the plain-text variant.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  renderDeckToMarkdown,
+  renderDeckToText,
+  renderSlideToMarkdown,
+} from "../markdown-renderer";
+import { markdownToSlides } from "@/lib/extraction/markdown-slides";
+import type { Deck } from "@/lib/schemas/deck";
+
+const deck: Deck = {
+  deck: { title: "Kvartalsrapport", language: "no", themeId: "nordic_light" },
+  slides: [
+    {
+      type: "cover",
+      blocks: [
+        { kind: "title", text: "Kvartalsrapport" },
+        { kind: "text", text: "Q3 2024" },
+      ],
+    },
+    {
+      type: "bullets",
+      blocks: [
+        { kind: "title", text: "Hovedpunkter" },
+        { kind: "bullets", items: ["Vekst i alle regioner", "Flere kunder"] },
+      ],
+      notes: "Husk å nevne tallene",
+    },
+    {
+      type: "action_items_table",
+      blocks: [
+        { kind: "title", text: "Tiltak" },
+        {
+          kind: "table",
+          columns: ["Oppgave", "Eier"],
+          rows: [
+            ["Lansere", "Kari | Ola"],
+            ["Evaluere", "Ola"],
+          ],
+        },
+      ],
+    },
+  ],
+};
+
+describe("markdown-renderer", () => {
+  describe("renderDeckToMarkdown", () => {
+    it("separates slides and keeps notes as comments", () => {
+      const markdown = renderDeckToMarkdown(deck).toString("utf-8");
+
+      expect(markdown).toBe(
+        [
+          "# Kvartalsrapport\n\nQ3 2024",
+          "## Hovedpunkter\n\n- Vekst i alle regioner\n- Flere kunder\n\n<!--\nHusk å nevne tallene\n-->",
+          "## Tiltak\n\n| Oppgave | Eier |\n|---|---|\n| Lansere | Kari \\| Ola |\n| Evaluere | Ola |",
+        ].join("\n\n---\n\n") + "\n"
+      );
+    });
+
+    it("round-trips through the Markdown importer", () => {
+      const { slides } = markdownToSlides(renderDeckToMarkdown(deck).toString("utf-8"));
+
+      expect(slides.map((s) => s.type)).toEqual(["cover", "bullets", "action_items_table"]);
+      expect(slides[1].blocks).toEqual(deck.slides[1].blocks);
+      expect(slides[1].notes).toBe("Husk å nevne tallene");
+      expect(slides[2].blocks[1].rows?.[0]).toEqual(["Lansere", "Kari | Ola"]);
+    });
+  });
+
+  describe("renderDeckToText", () => {
+    it("renders the outline without Markdown syntax", () => {
+      const text = renderDeckToText(deck).toString("utf-8");
+
+      expect(text).toBe(
+        [
+          "Kvartalsrapport\n\nQ3 2024",
+          "Hovedpunkter\n\n• Vekst i alle regioner\n• Flere kunder\n\n    Husk å nevne tallene",
+          "Tiltak\n\nOppgave | Eier\nLansere | Kari | Ola\nEvaluere | Ola",
+        ].join(`\n\n${"-".repeat(40)}\n\n`) + "\n"
+      );
+      expect(text).not.toMatch(/[#*`]|<!--/);
+    });
+  });
+
+  describe("renderSlideToMarkdown", () => {
+    it("renders stats as bold values", () => {
+      const markdown = renderSlideToMarkdown({
+        type: "bullets",
+        blocks: [
+          { kind: "title", text: "Nøkkeltall" },
+          { kind: "stat_block", value: "95%", label: "Kundetilfredshet", sublabel: "Opp 5 poeng" },
+          { kind: "stat_block", value: "180", label: "Ansatte" },
+        ],
+      });
+
+      expect(markdown).toBe(
+        "## Nøkkeltall\n\n- **95%** Kundetilfredshet – Opp 5 poeng\n- **180** Ansatte"
+      );
+    });
+
+    it("renders timelines as ordered lists", () => {
+      const markdown = renderSlideToMarkdown({
+        type: "timeline_roadmap",
+        blocks: [
+          { kind: "title", text: "Veikart" },
+          { kind: "timeline_step", step: 1, text: "Q1", description: "Pilot", status: "completed" },
+          { kind: "timeline_step", step: 2, text: "Q2" },
+        ],
+      });
+
+      expect(markdown).toBe("## Veikart\n\n1. **Q1**: Pilot\n2. **Q2**");
+    });
+
+    it("renders callouts as blockquotes", () => {
+      const markdown = renderSlideToMarkdown({
+        type: "quote_callout",
+        blocks: [
+          { kind: "callout", text: "Enkelhet er\nden ultimate raffinement", style: "quote" },
+        ],
+      });
+
+      expect(markdown).toBe("> Enkelhet er\n> den ultimate raffinement");
+    });
+
+    it("renders cards, images and extra titles", () => {
+      const markdown = renderSlideToMarkdown({
+        type: "icon_cards_with_image",
+        blocks: [
+          { kind: "title", text: "Fordeler" },
+          { kind: "icon_card", icon: "zap", text: "Rask", description: "Svar på sekunder" },
+          { kind: "icon_card", icon: "shield", text: "Trygg" },
+          { kind: "title", text: "Prinsipper" },
+          { kind: "numbered_card", number: 1, text: "Kunden først" },
+          { kind: "image", url: "https://example.com/a.png", alt: "Team" },
+        ],
+      });
+
+      expect(markdown).toBe(
+        [
+          "## Fordeler",
+          "- **Rask**: Svar på sekunder\n- **Trygg**",
+          "### Prinsipper",
+          "1. **Kunden først**",
+          "![Team](https://example.com/a.png)",
+        ].join("\n\n")
+      );
+    });
+
+    it("renders charts as a titled table of their data", () => {
+      const markdown = renderSlideToMarkdown({
+        type: "text_plus_image",
+        blocks: [
+          {
+            kind: "chart",
+            chartType: "bar",
+            text: "Omsetning",
+            categories: ["Q1", "Q2"],
+            series: [
+              { name: "2023", values: [10, 12] },
+              { name: "2024", values: [14] },
+            ],
+            xAxisLabel: "Kvartal",
+          },
+        ],
+      });
+
+      expect(markdown).toBe(
+        "**Omsetning**\n\n| Kvartal | 2023 | 2024 |\n|---|---|---|\n| Q1 | 10 | 14 |\n| Q2 | 12 |  |"
+      );
+    });
+
+    it("keeps notes from closing the comment early", () => {
+      const markdown = renderSlideToMarkdown({
+        type: "bullets",
+        blocks: [{ kind: "title", text: "Plan" }],
+        notes: "Pil --> neste",
+      });
+
+      expect(markdown).toBe("## Plan\n\n<!--\nPil -- > neste\n-->");
+    });
+  });
+});
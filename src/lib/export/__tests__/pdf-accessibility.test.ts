@@ -0,0 +1,245 @@
+/**
+ * PDF Accessibility Tests
+ *
+ * Builds small tagged PDFs shaped like Chromium's output, so no Playwright
+ * is needed.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  PDFArray,
+  PDFDict,
+  PDFDocument,
+  PDFHexString,
+  PDFName,
+  PDFNumber,
+  PDFRef,
+  PDFString,
+} from "pdf-lib";
+import { applyPdfAccessibility, getSlideTitle, mergeTaggedPdfs } from "../pdf-accessibility";
+import { composeHandout } from "../pdf-handout";
+
+/**
+ * A one-page PDF tagged as Document > [H1, Figure (with alt text)], with
+ * marked content on the page keyed 0 in the parent tree
+ */
+async function createTaggedSlidePdf(heading: string, alt: string): Promise<Buffer> {
+  const pdf = await PDFDocument.create();
+  const page = pdf.addPage([960, 540]);
+  page.drawText(heading, { x: 40, y: 480, size: 32 });
+  const { context } = pdf;
+
+  const rootRef = context.nextRef();
+  const documentRef = context.nextRef();
+  const headingRef = context.nextRef();
+  const figureRef = context.nextRef();
+
+  context.assign(
+    headingRef,
+    context.obj({ Type: "StructElem", S: "H1", P: documentRef, Pg: page.ref, K: 0 })
+  );
+  context.assign(
+    figureRef,
+    context.obj({
+      Type: "StructElem",
+      S: "Figure",
+      P: documentRef,
+      Pg: page.ref,
+      K: 1,
+      Alt: PDFHexString.fromText(alt),
+      T: PDFHexString.fromText(heading),
+    })
+  );
+  context.assign(
+    documentRef,
+    context.obj({ Type: "StructElem", S: "Document", P: rootRef, K: [headingRef, figureRef] })
+  );
+  context.assign(
+    rootRef,
+    context.obj({
+      Type: "StructTreeRoot",
+      K: documentRef,
+      ParentTree: context.obj({ Nums: [0, [headingRef, figureRef]] }),
+      ParentTreeNextKey: 1,
+      RoleMap: context.obj({ Heading: "H1" }),
+    })
+  );
+  page.node.set(PDFName.of("StructParents"), PDFNumber.of(0));
+  pdf.catalog.set(PDFName.of("StructTreeRoot"), rootRef);
+  pdf.catalog.set(PDFName.of("MarkInfo"), context.obj({ Marked: true }));
+
+  return Buffer.from(await pdf.save());
+}
+
+function text(value: unknown): string {
+  return value instanceof PDFHexString || value instanceof PDFString ? value.decodeText() : "";
+}
+
+function kids(element: PDFDict): PDFDict[] {
+  const k = element.lookup(PDFName.of("K"));
+  const refs = k instanceof PDFArray ? k.asArray() : [k];
+  return refs.map((ref) => element.context.lookup(ref as PDFRef, PDFDict));
+}
+
+function outlineTitles(doc: PDFDocument): string[] {
+  const outline = doc.catalog.lookup(PDFName.of("Outlines"), PDFDict);
+  const titles: string[] = [];
+  let item = outline.lookupMaybe(PDFName.of("First"), PDFDict);
+  while (item) {
+    titles.push(text(item.lookup(PDFName.of("Title"))));
+    item = item.lookupMaybe(PDFName.of("Next"), PDFDict);
+  }
+  return titles;
+}
+
+describe("pdf-accessibility", () => {
+  describe("mergeTaggedPdfs", () => {
+    it("keeps each slide's structure as a section, in order", async () => {
+      const merged = await mergeTaggedPdfs(
+        [
+          await createTaggedSlidePdf("Intro", "Teamet samlet"),
+          await createTaggedSlidePdf("Resultater", "Graf over vekst"),
+        ],
+        ["Intro", "Resultater"]
+      );
+
+      expect(merged.getPageCount()).toBe(2);
+
+      const root = merged.catalog.lookup(PDFName.of("StructTreeRoot"), PDFDict);
+      const [document] = kids(root);
+      expect(document.get(PDFName.of("S"))).toBe(PDFName.of("Document"));
+
+      const sections = kids(document);
+      expect(sections.map((s) => s.get(PDFName.of("S")))).toEqual([
+        PDFName.of("Sect"),
+        PDFName.of("Sect"),
+      ]);
+      expect(sections.map((s) => text(s.lookup(PDFName.of("T"))))).toEqual(["Intro", "Resultater"]);
+
+      const figures = sections.map((s) => kids(s)[1]);
+      expect(figures.map((f) => text(f.lookup(PDFName.of("Alt"))))).toEqual([
+        "Teamet samlet",
+        "Graf over vekst",
+      ]);
+      // Page references point at the merged pages
+      expect(figures.map((f) => f.get(PDFName.of("Pg")))).toEqual(
+        merged.getPages().map((p) => p.ref)
+      );
+
+      const roleMap = root.lookup(PDFName.of("RoleMap"), PDFDict);
+      expect(roleMap.get(PDFName.of("Heading"))).toBe(PDFName.of("H1"));
+      const markInfo = merged.catalog.lookup(PDFName.of("MarkInfo"), PDFDict);
+      expect(markInfo.get(PDFName.of("Marked"))?.toString()).toBe("true");
+    });
+
+    it("gives every page a unique key in the parent tree", async () => {
+      const merged = await mergeTaggedPdfs([
+        await createTaggedSlidePdf("A", "a"),
+        await createTaggedSlidePdf("B", "b"),
+        await createTaggedSlidePdf("C", "c"),
+      ]);
+
+      const keys = merged
+        .getPages()
+        .map((page) => page.node.lookup(PDFName.of("StructParents"), PDFNumber).asNumber());
+      expect(keys).toEqual([0, 1, 2]);
+
+      const root = merged.catalog.lookup(PDFName.of("StructTreeRoot"), PDFDict);
+      const nums = root
+        .lookup(PDFName.of("ParentTree"), PDFDict)
+        .lookup(PDFName.of("Nums"), PDFArray);
+      const treeKeys = nums
+        .asArray()
+        .filter((_, i) => i % 2 === 0)
+        .map((n) => (n as PDFNumber).asNumber());
+      expect(treeKeys).toEqual(keys);
+      expect(root.lookup(PDFName.of("ParentTreeNextKey"), PDFNumber).asNumber()).toBe(3);
+
+      // Each key's marked content belongs to its own slide's section
+      const sectionTitles = nums
+        .asArray()
+        .filter((_, i) => i % 2 === 1)
+        .map((entry) => {
+          const [heading] = (entry as PDFArray).asArray();
+          const element = merged.context.lookup(heading as PDFRef, PDFDict);
+          return text(element.lookup(PDFName.of("P"), PDFDict).lookup(PDFName.of("T")));
+        });
+      expect(sectionTitles).toEqual(["Slide 1", "Slide 2", "Slide 3"]);
+    });
+
+    it("leaves untagged slides untagged", async () => {
+      const plain = await PDFDocument.create();
+      plain.addPage([960, 540]);
+      const merged = await mergeTaggedPdfs([Buffer.from(await plain.save())]);
+
+      expect(merged.getPageCount()).toBe(1);
+      expect(merged.catalog.get(PDFName.of("StructTreeRoot"))).toBeUndefined();
+      expect(merged.catalog.get(PDFName.of("MarkInfo"))).toBeUndefined();
+    });
+  });
+
+  describe("applyPdfAccessibility", () => {
+    it("sets title, language and one bookmark per slide", async () => {
+      const doc = await mergeTaggedPdfs([
+        await createTaggedSlidePdf("Intro", "a"),
+        await createTaggedSlidePdf("Plan", "b"),
+      ]);
+      applyPdfAccessibility(doc, { title: "Kvartalsrapport", language: "nb" }, [
+        { title: "Intro", pageIndex: 0 },
+        { title: "Plan", pageIndex: 1 },
+      ]);
+
+      const saved = await PDFDocument.load(await doc.save(), { updateMetadata: false });
+      expect(saved.getTitle()).toBe("Kvartalsrapport");
+      expect(text(saved.catalog.lookup(PDFName.of("Lang")))).toBe("nb");
+      const preferences = saved.catalog.lookup(PDFName.of("ViewerPreferences"), PDFDict);
+      expect(preferences.get(PDFName.of("DisplayDocTitle"))?.toString()).toBe("true");
+      expect(saved.catalog.get(PDFName.of("PageMode"))).toBe(PDFName.of("UseOutlines"));
+      expect(outlineTitles(saved)).toEqual(["Intro", "Plan"]);
+      saved.getPages().forEach((page) => {
+        expect(page.node.get(PDFName.of("Tabs"))).toBe(PDFName.of("S"));
+      });
+    });
+
+    it("points handout bookmarks at the page each slide is printed on", async () => {
+      const slides = await mergeTaggedPdfs(
+        await Promise.all(["A", "B", "C"].map((t) => createTaggedSlidePdf(t, t)))
+      );
+      const handout = await PDFDocument.load(
+        await composeHandout(Buffer.from(await slides.save()), "two_per_page", {
+          meta: { title: "Utdeling", language: "no" },
+          slideTitles: ["A", "B", "C"],
+        }),
+        { updateMetadata: false }
+      );
+
+      expect(handout.getTitle()).toBe("Utdeling");
+      expect(outlineTitles(handout)).toEqual(["A", "B", "C"]);
+
+      const outline = handout.catalog.lookup(PDFName.of("Outlines"), PDFDict);
+      const last = outline.lookup(PDFName.of("Last"), PDFDict);
+      const dest = last.lookup(PDFName.of("Dest"), PDFArray);
+      expect(dest.get(0)).toBe(handout.getPage(1).ref);
+    });
+  });
+
+  describe("getSlideTitle", () => {
+    it("uses the first title block, or the slide number", () => {
+      expect(
+        getSlideTitle(
+          {
+            type: "bullets",
+            blocks: [
+              { kind: "text", text: "Ingress" },
+              { kind: "title", text: " Mål for 2025 " },
+            ],
+          },
+          0
+        )
+      ).toBe("Mål for 2025");
+      expect(getSlideTitle({ type: "bullets", blocks: [{ kind: "text", text: "x" }] }, 3)).toBe(
+        "Slide 4"
+      );
+    });
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * PDF Handout Tests
+ *
+ * Lays out generated 16:9 pages, so no Playwright is needed.
+ */
+
+import { describe, it, expect } from "vitest";
+import { PDFDocument } from "pdf-lib";
+import {
+  composeHandout,
+  getHandoutSlots,
+  HANDOUT_LAYOUTS,
+  HANDOUT_PAGE,
+  type HandoutLayout,
+} from "../pdf-handout";
+
+/**
+ * A PDF with one 16:9 page per slide, sized like the Playwright output
+ */
+async function createSlidesPdf(count: number): Promise<Buffer> {
+  const pdf = await PDFDocument.create();
+  for (let i = 0; i < count; i++) {
+    pdf.addPage([960, 540]).drawText(`Slide ${i + 1}`, { x: 40, y: 480, size: 32 });
+  }
+  return Buffer.from(await pdf.save());
+}
+
+describe("pdf-handout", () => {
+  describe("composeHandout", () => {
+    it.each<[HandoutLayout, number]>([
+      ["two_per_page", 4],
+      ["three_with_lines", 3],
+      ["six_per_page", 2],
+      ["one_with_lines", 7],
+    ])("lays out 7 slides as %s on %i A4 pages", async (layout, pages) => {
+      const handout = await PDFDocument.load(
+        await composeHandout(await createSlidesPdf(7), layout)
+      );
+
+      expect(handout.getPageCount()).toBe(pages);
+      handout.getPages().forEach((page) => {
+        expect(page.getSize()).toEqual({ width: HANDOUT_PAGE.width, height: HANDOUT_PAGE.height });
+      });
+    });
+
+    it("handles a single slide", async () => {
+      const handout = await PDFDocument.load(
+        await composeHandout(await createSlidesPdf(1), "six_per_page")
+      );
+
+      expect(handout.getPageCount()).toBe(1);
+    });
+  });
+
+  describe("getHandoutSlots", () => {
+    it.each(HANDOUT_LAYOUTS)("keeps %s slots 16:9, inside the margins and apart", (layout) => {
+      const slots = getHandoutSlots(layout);
+      const { width, height, margin } = HANDOUT_PAGE;
+
+      slots.forEach((slot) => {
+        expect(slot.height / slot.width).toBeCloseTo(9 / 16);
+        expect(slot.x).toBeGreaterThanOrEqual(margin);
+        expect(slot.y).toBeGreaterThanOrEqual(margin);
+        expect(slot.x + slot.width).toBeLessThanOrEqual(width - margin + 0.01);
+        expect(slot.y + slot.height).toBeLessThanOrEqual(height - margin + 0.01);
+      });
+
+      slots.forEach((a, i) =>
+        slots.slice(i + 1).forEach((b) => {
+          const apart =
+            a.x + a.width <= b.x ||
+            b.x + b.width <= a.x ||
+            a.y + a.height <= b.y ||
+            b.y + b.height <= a.y;
+          expect(apart).toBe(true);
+        })
+      );
+    });
+
+    it("reads left to right, top to bottom", () => {
+      const [first, second, third] = getHandoutSlots("six_per_page");
+
+      expect(second.x).toBeGreaterThan(first.x);
+      expect(second.y).toBe(first.y);
+      expect(third.y).toBeLessThan(first.y);
+    });
+
+    it("adds note lines beside three slides and below one", () => {
+      const three = getHandoutSlots("three_with_lines");
+      const [one] = getHandoutSlots("one_with_lines");
+
+      three.forEach((slot) => {
+        expect(slot.lines?.x).toBeGreaterThan(slot.x + slot.width);
+        expect(slot.lines?.height).toBe(slot.height);
+      });
+      expect(one.lines!.y + one.lines!.height).toBeLessThan(one.y);
+      expect(one.lines!.height).toBeGreaterThan(one.height);
+      expect(getHandoutSlots("six_per_page").every((slot) => !slot.lines)).toBe(true);
+    });
+  });
+});
@@ -13,6 +13,7 @@ import { join } from "path";
 import { homedir } from "os";
 import { renderSlidesToPdf, renderSingleSlideToPdf, closeBrowser } from "../pdf-renderer";
 import { renderSlideToHtml, PDF_DIMENSIONS } from "../slide-html";
+import type { SlidePdfCache } from "../slide-pdf-cache";
 import type { Slide } from "@/lib/schemas/slide";
 import type { ThemeId } from "@/lib/themes";
 
@@ -101,6 +102,30 @@ describe("slide-html", () => {
       expect(html).toContain("Complete report");
     });
 
+    it("renders chart blocks as inline SVG", () => {
+      const slide: Slide = {
+        type: "action_items_table",
+        layoutVariant: "default",
+        blocks: [
+          { kind: "title", text: "Salg" },
+          {
+            kind: "chart",
+            chartType: "bar",
+            text: "Salg per region",
+            categories: ["Nord", "Sør"],
+            series: [{ name: "2025", values: [40, 60] }],
+          },
+        ],
+      };
+      const html = renderSlideToHtml(slide, themeId);
+
+      expect(html).toContain("<svg");
+      expect(html).toContain("<rect");
+      expect(html).toContain("Salg per region");
+      expect(html).toContain("Nord");
+      expect(html).toContain("var(--theme-color-primary");
+    });
+
     it("includes theme CSS variables", () => {
       const slide = createCoverSlide();
       const html = renderSlideToHtml(slide, themeId);
@@ -109,6 +134,24 @@ describe("slide-html", () => {
       expect(html).toContain("background");
     });
 
+    it("sets the deck language, quotation marks and script fallback fonts", () => {
+      const quote: Slide = {
+        type: "quote_callout",
+        layoutVariant: "default",
+        blocks: [{ kind: "text", text: "Wir schaffen das" }],
+      };
+
+      expect(renderSlideToHtml(quote, themeId)).toContain('<html lang="no" dir="ltr">');
+
+      const german = renderSlideToHtml(quote, themeId, undefined, "de");
+      expect(german).toContain('<html lang="de" dir="ltr">');
+      expect(german).toContain("„");
+      expect(german).not.toContain("“Wir");
+
+      const japanese = renderSlideToHtml(createCoverSlide(), themeId, undefined, "ja");
+      expect(japanese).toContain('"Noto Sans CJK JP"');
+    });
+
     it("applies brand kit overrides", () => {
       const slide = createCoverSlide();
       const brandKit = {
@@ -121,6 +164,34 @@ describe("slide-html", () => {
     });
   });
 
+  describe("golden slides", () => {
+    it("renders golden slides with the golden component and no theme padding", () => {
+      const slide: Slide = {
+        type: "numbered_grid",
+        layoutVariant: "grid",
+        goldenType: "numbered_steps",
+        blocks: [
+          { kind: "title", text: "Tiltak" },
+          { kind: "numbered_card", number: 1, text: "Avklare testmiljø" },
+          { kind: "numbered_card", number: 2, text: "Fullføre migrering" },
+        ],
+      };
+      const html = renderSlideToHtml(slide, themeId);
+
+      expect(html).toContain('class="slide-container golden"');
+      expect(html).toContain("golden-slide");
+      expect(html).toContain("Avklare testmiljø");
+      expect(html).toContain("02");
+    });
+
+    it("keeps standard rendering for slides without a golden type", () => {
+      const html = renderSlideToHtml(createBulletsSlide(), themeId);
+
+      expect(html).toContain('class="slide-container"');
+      expect(html).not.toContain("golden-slide");
+    });
+  });
+
   describe("PDF_DIMENSIONS", () => {
     it("has correct aspect ratio (16:9)", () => {
       const ratio = PDF_DIMENSIONS.width / PDF_DIMENSIONS.height;
@@ -186,6 +257,45 @@ describe.skipIf(!PLAYWRIGHT_AVAILABLE)("pdf-renderer (requires Playwright)", ()
       expect(pdf.getPageCount()).toBe(slides.length);
     }, 60000);
 
+    it("lays out slides on A4 handout pages", async () => {
+      const slides = [createCoverSlide(), createBulletsSlide(), createTableSlide()];
+
+      const buffer = await renderSlidesToPdf(slides, themeId, undefined, {
+        handout: "two_per_page",
+      });
+
+      const pdf = await PDFDocument.load(buffer);
+      expect(pdf.getPageCount()).toBe(2);
+      expect(pdf.getPage(0).getSize()).toEqual({ width: 595.28, height: 841.89 });
+    }, 60000);
+
+    it("only re-renders slides that changed", async () => {
+      const stored = new Map<string, Buffer>();
+      let renders = 0;
+      const cache: SlidePdfCache = {
+        get: async (hash) => stored.get(hash),
+        set: async (hash, pdf) => {
+          renders++;
+          stored.set(hash, pdf);
+        },
+      };
+      const slides = [createCoverSlide(), createBulletsSlide(), createTableSlide()];
+
+      await renderSlidesToPdf(slides, themeId, undefined, { cache, concurrency: 2 });
+      expect(renders).toBe(3);
+
+      const edited = [
+        slides[0],
+        { ...slides[1], blocks: [{ kind: "title", text: "Ny" }] },
+        slides[2],
+      ];
+      const buffer = await renderSlidesToPdf(edited as Slide[], themeId, undefined, { cache });
+      expect(renders).toBe(4);
+
+      const pdf = await PDFDocument.load(buffer);
+      expect(pdf.getPageCount()).toBe(3);
+    }, 60000);
+
     it("renders slides with brand kit overrides", async () => {
       const slides = [createCoverSlide()];
       const brandKit = {
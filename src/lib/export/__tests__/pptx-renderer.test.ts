@@ -14,7 +14,8 @@ import {
   CONTENT_AREA,
 } from "../pptx-theme-mapper";
 import { getTheme } from "@/lib/themes";
-import type { Slide } from "@/lib/schemas/slide";
+import { CoverLayoutVariant, type Slide, type SlideType } from "@/lib/schemas/slide";
+import { LAYOUT_VARIANTS } from "@/lib/ai/layout";
 import type { Deck } from "@/lib/schemas/deck";
 import type { ThemeId } from "@/lib/themes";
 
@@ -100,6 +101,223 @@ const createTwoColumnSlide = (): Slide => ({
   ],
 });
 
+// 1x1 PNG, fetched like any other image URL
+const PNG_DATA_URL =
+  "data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=";
+
+const createPremiumSlide = (
+  type: "hero_stats" | "split_with_callouts" | "person_spotlight",
+  layoutVariant: string
+): Slide => {
+  const image = { kind: "image" as const, url: PNG_DATA_URL, alt: "Bilde" };
+  switch (type) {
+    case "hero_stats":
+      return {
+        type,
+        layoutVariant,
+        blocks: [
+          { kind: "title", text: "Et rekordår" },
+          { kind: "text", text: "Sterk vekst i alle regioner" },
+          image,
+          { kind: "stat_block", value: "42%", label: "Vekst", sublabel: "mot 2023" },
+          { kind: "stat_block", value: "1,2 mrd", label: "Omsetning" },
+          { kind: "stat_block", value: "350", label: "Ansatte" },
+        ],
+      };
+    case "split_with_callouts":
+      return {
+        type,
+        layoutVariant,
+        blocks: [
+          { kind: "title", text: "Hvorfor oss" },
+          image,
+          { kind: "icon_card", icon: "zap", text: "Raskt", description: "Svar på sekunder" },
+          { kind: "icon_card", icon: "shield", text: "Trygt", bgColor: "green" },
+          { kind: "bullets", items: ["Enkelt", "Ingen opplæring", "Fungerer overalt"] },
+        ],
+      };
+    case "person_spotlight":
+      return {
+        type,
+        layoutVariant,
+        blocks: [
+          { kind: "title", text: "Kari Nordmann" },
+          { kind: "text", text: "Teknologidirektør" },
+          { kind: "text", text: "Har ledet plattformteamet siden 2019." },
+          image,
+          { kind: "bullets", items: ["Skyarkitektur", "Sikkerhet"] },
+        ],
+      };
+  }
+};
+
+const createVariantSlide = (type: SlideType, layoutVariant: string): Slide => {
+  const image = { kind: "image" as const, url: PNG_DATA_URL, alt: "Bilde" };
+  const title = { kind: "title" as const, text: "Veien videre" };
+  const bullets = {
+    kind: "bullets" as const,
+    items: ["Ansette to utviklere", "Lansere i Sverige", "Kutte kostnader", "Ny prismodell"],
+  };
+  const blocksByType: Partial<Record<SlideType, Slide["blocks"]>> = {
+    cover: [title, { kind: "text", text: "Strategi 2025" }, image],
+    agenda: [title, bullets],
+    section_header: [title, { kind: "text", text: "Del 2" }],
+    bullets: [title, bullets],
+    two_column_text: [
+      title,
+      { kind: "text", text: "Venstre kolonne" },
+      { kind: "text", text: "Høyre kolonne" },
+    ],
+    text_plus_image: [title, { kind: "text", text: "Teamet i Oslo" }, image],
+    decisions_list: [title, bullets],
+    action_items_table: [
+      title,
+      { kind: "table", columns: ["Oppgave", "Eier"], rows: [["Lansere", "Kari"]] },
+    ],
+    summary_next_steps: [title, bullets],
+    quote_callout: [
+      { kind: "callout", text: "Kunden først, alltid.", style: "quote" },
+      { kind: "text", text: "Kari Nordmann" },
+    ],
+    timeline_roadmap: [
+      title,
+      {
+        kind: "timeline_step",
+        step: 1,
+        text: "Forstudie",
+        description: "Jan",
+        status: "completed",
+      },
+      { kind: "timeline_step", step: 2, text: "Utvikling", description: "Feb", status: "current" },
+      { kind: "timeline_step", step: 3, text: "Lansering", description: "Mar" },
+    ],
+    numbered_grid: [
+      title,
+      ...["Kartlegge", "Prioritere", "Gjennomføre", "Evaluere"].map((text, i) => ({
+        kind: "numbered_card" as const,
+        number: i + 1,
+        text,
+      })),
+    ],
+    icon_cards_with_image: [
+      title,
+      { kind: "icon_card", icon: "zap", text: "Raskt", description: "Svar på sekunder" },
+      { kind: "icon_card", icon: "lock", text: "Trygt" },
+      image,
+    ],
+    summary_with_stats: [
+      title,
+      { kind: "text", text: "Et godt år for selskapet" },
+      { kind: "stat_block", value: "42%", label: "Vekst" },
+      { kind: "stat_block", value: "350", label: "Ansatte" },
+      { kind: "stat_block", value: "12", label: "Land" },
+    ],
+  };
+  return { type, layoutVariant, blocks: blocksByType[type] ?? [title] };
+};
+
+const createGoldenSlides = (): Slide[] => [
+  {
+    type: "cover",
+    layoutVariant: "default",
+    goldenType: "cover",
+    blocks: [
+      { kind: "title", text: "Prosjektstatus" },
+      { kind: "text", text: "Styremøte, mars" },
+    ],
+  },
+  {
+    type: "summary_with_stats",
+    layoutVariant: "default",
+    goldenType: "stats",
+    blocks: [
+      { kind: "title", text: "Nøkkeltall" },
+      { kind: "stat_block", value: "87%", label: "Kundetilfredshet" },
+      { kind: "stat_block", value: "12", label: "Nye kunder" },
+    ],
+  },
+  {
+    type: "text_plus_image",
+    layoutVariant: "text_right",
+    goldenType: "content",
+    blocks: [
+      { kind: "title", text: "Bakgrunn" },
+      { kind: "text", text: "Systemet er fra 2009" },
+      { kind: "image", url: "", alt: "Bakgrunn" },
+    ],
+  },
+  {
+    type: "bullets",
+    layoutVariant: "default",
+    goldenType: "bullets",
+    blocks: [
+      { kind: "title", text: "Funn" },
+      { kind: "bullets", items: ["Treg innlogging", "Mange manuelle steg"] },
+    ],
+  },
+  {
+    type: "summary_next_steps",
+    layoutVariant: "default",
+    goldenType: "cta",
+    blocks: [
+      { kind: "title", text: "Neste steg" },
+      { kind: "bullets", items: ["Godkjenn budsjett", "Start pilot"] },
+    ],
+  },
+  {
+    type: "icon_cards_with_image",
+    layoutVariant: "2x2",
+    goldenType: "icon_grid",
+    blocks: [
+      { kind: "title", text: "Nøkkelfunksjoner" },
+      { kind: "icon_card", icon: "zap", text: "Sanntidsdata", description: "Se endringer" },
+      { kind: "icon_card", icon: "lock", text: "Sikker tilgang", description: "Tilgangsstyring" },
+    ],
+  },
+  {
+    type: "timeline_roadmap",
+    layoutVariant: "horizontal",
+    goldenType: "timeline",
+    blocks: [
+      { kind: "title", text: "Fremdrift" },
+      { kind: "timeline_step", step: 1, text: "Forstudie", status: "completed" },
+      { kind: "timeline_step", step: 2, text: "Utvikling", status: "current" },
+      { kind: "timeline_step", step: 3, text: "Lansering", status: "upcoming" },
+    ],
+  },
+  {
+    type: "bullets",
+    layoutVariant: "image_right",
+    goldenType: "checklist",
+    blocks: [
+      { kind: "title", text: "Beslutninger" },
+      { kind: "bullets", items: ["Leverandør er valgt", "Budsjett er godkjent"] },
+      { kind: "image", url: "", alt: "Beslutninger" },
+    ],
+  },
+  {
+    type: "numbered_grid",
+    layoutVariant: "grid",
+    goldenType: "numbered_steps",
+    blocks: [
+      { kind: "title", text: "Tiltak" },
+      { kind: "numbered_card", number: 1, text: "Avklare testmiljø" },
+      { kind: "numbered_card", number: 2, text: "Fullføre migrering" },
+    ],
+  },
+  {
+    type: "icon_cards_with_image",
+    layoutVariant: "default",
+    goldenType: "circle_diagram",
+    blocks: [
+      { kind: "title", text: "Vår modell" },
+      { kind: "text", text: "Kunden" },
+      { kind: "icon_card", icon: "circle", text: "Innsikt" },
+      { kind: "icon_card", icon: "circle", text: "Design" },
+    ],
+  },
+];
+
 const createTestDeck = (): Deck => ({
   deck: {
     title: "Test Deck",
@@ -172,6 +390,7 @@ describe("pptx-theme-mapper", () => {
       expect(styles.colors.primary).not.toContain("#");
       expect(styles.colors.background).not.toContain("#");
       expect(styles.colors.foreground).not.toContain("#");
+      styles.chartColors.forEach((color) => expect(color).not.toContain("#"));
     });
 
     it("produces font sizes in points", () => {
@@ -203,6 +422,15 @@ describe("pptx-theme-mapper", () => {
 });
 
 describe("pptx-renderer", () => {
+  const renderOne = async (slide: Slide) => {
+    const zip = await JSZip.loadAsync(await renderSlidesToPptx([slide], themeId));
+    return {
+      xml: await zip.files["ppt/slides/slide1.xml"].async("string"),
+      media: Object.keys(zip.files).filter((name) => /^ppt\/media\/.+/.test(name)),
+    };
+  };
+  const imageX = (xml: string) => Number(xml.match(/<p:pic>[\s\S]*?<a:off x="(\d+)"/)?.[1]);
+
   describe("renderSlidesToPptx", () => {
     it("renders cover slide to valid PPTX", async () => {
       const slides = [createCoverSlide()];
@@ -321,6 +549,259 @@ describe("pptx-renderer", () => {
     });
   });
 
+  describe("golden slides", () => {
+    it("renders every golden slide type with a dedicated layout", async () => {
+      const buffer = await renderSlidesToPptx(createGoldenSlides(), themeId);
+      const zip = await JSZip.loadAsync(buffer);
+
+      const slideXml = await Promise.all(
+        createGoldenSlides().map((_, i) =>
+          zip.files[`ppt/slides/slide${i + 1}.xml`].async("string")
+        )
+      );
+
+      const expectedText = [
+        "Styremøte, mars",
+        "Kundetilfredshet",
+        "Systemet er fra 2009",
+        "Mange manuelle steg",
+        "Start pilot",
+        "Sanntidsdata",
+        "Utvikling",
+        "Budsjett er godkjent",
+        "Fullføre migrering",
+        "Kunden",
+      ];
+      expectedText.forEach((text, i) => expect(slideXml[i]).toContain(text));
+
+      // Golden pink accent instead of theme colors (the content slide has none)
+      slideXml.filter((_, i) => i !== 2).forEach((xml) => expect(xml).toContain("E91E63"));
+    });
+  });
+
+  describe("premium slides", () => {
+    it.each([
+      ["hero_stats", "hero_top"],
+      ["hero_stats", "hero_background"],
+      ["hero_stats", "hero_split"],
+      ["split_with_callouts", "image_left"],
+      ["split_with_callouts", "image_right"],
+      ["person_spotlight", "centered"],
+      ["person_spotlight", "side_by_side"],
+    ] as const)("renders %s (%s) with its image and content", async (type, variant) => {
+      const slide = createPremiumSlide(type, variant);
+      const { xml, media } = await renderOne(slide);
+
+      expect(media).toHaveLength(1);
+      for (const block of slide.blocks) {
+        if (block.text) expect(xml).toContain(block.text);
+        if (block.value) expect(xml).toContain(block.value);
+        if (block.label) expect(xml).toContain(block.label);
+      }
+    });
+
+    it("puts white text over a dark overlay for hero_background", async () => {
+      const { xml } = await renderOne(createPremiumSlide("hero_stats", "hero_background"));
+
+      expect(xml).toContain('<a:srgbClr val="000000"><a:alpha val="50000"/>');
+      expect(xml).toMatch(/<a:srgbClr val="FFFFFF"\/>[\s\S]*Et rekordår/);
+    });
+
+    it("uses the callout colors of the web layout", async () => {
+      const { xml } = await renderOne(createPremiumSlide("split_with_callouts", "image_left"));
+
+      // Default pink for the first card, bgColor for the second, cycling to cyan
+      expect(xml).toContain("EC4899");
+      expect(xml).toContain("22C55E");
+      expect(xml).toContain("06B6D4");
+      expect(xml).toContain("Ingen opplæring");
+    });
+
+    it("crops the portrait to a circle", async () => {
+      const { xml } = await renderOne(createPremiumSlide("person_spotlight", "centered"));
+
+      expect(xml).toMatch(/<p:pic>[\s\S]*prst="ellipse"[\s\S]*<\/p:pic>/);
+    });
+
+    it("places the image on the side given by the layout variant", async () => {
+      const left = await renderOne(createPremiumSlide("split_with_callouts", "image_left"));
+      const right = await renderOne(createPremiumSlide("split_with_callouts", "image_right"));
+
+      expect(imageX(left.xml)).toBe(0);
+      expect(imageX(right.xml)).toBeGreaterThan(0);
+    });
+  });
+
+  describe("layout variants", () => {
+    const PREMIUM_TYPES = ["hero_stats", "split_with_callouts", "person_spotlight"];
+    const variantCases = [
+      ...Object.entries(LAYOUT_VARIANTS)
+        .filter(([type]) => !PREMIUM_TYPES.includes(type))
+        .flatMap(([type, variants]) => variants.map((variant) => [type, variant])),
+      ...CoverLayoutVariant.unwrap().options.map((variant) => ["cover", variant]),
+      ["bullets", "grid"],
+      ["bullets", "cards"],
+    ] as [SlideType, string][];
+
+    it.each(variantCases)("renders %s (%s) with all of its content", async (type, variant) => {
+      const slide = createVariantSlide(type, variant);
+      const { xml } = await renderOne(slide);
+
+      for (const block of slide.blocks) {
+        if (block.text) expect(xml).toContain(block.text);
+        block.items?.forEach((item) => expect(xml).toContain(item));
+        block.rows?.flat().forEach((cell) => expect(xml).toContain(cell));
+        if (block.value) expect(xml).toContain(block.value);
+      }
+    });
+
+    it("renders bullets as a list or as cards depending on the variant", async () => {
+      const list = await renderOne(createVariantSlide("bullets", "compact"));
+      const grid = await renderOne(createVariantSlide("bullets", "grid"));
+      const columns = await renderOne(createVariantSlide("bullets", "two_columns"));
+
+      expect(list.xml).toContain("<a:buChar");
+      expect(list.xml).not.toContain('prst="roundRect"');
+      expect(grid.xml).not.toContain("<a:buChar");
+      expect(grid.xml.match(/prst="roundRect"/g)).toHaveLength(4);
+      expect(columns.xml.match(/<p:txBody>[^]*?<a:buChar/g)).toHaveLength(2);
+    });
+
+    it("resolves the default bullets variant from the content like the web layout", async () => {
+      // Four short items resolve to cards
+      const { xml } = await renderOne(createVariantSlide("bullets", "default"));
+
+      expect(xml).not.toContain("<a:buChar");
+      expect(xml).toContain('prst="roundRect"');
+    });
+
+    it("renders decisions with check marks", async () => {
+      const { xml } = await renderOne(createVariantSlide("decisions_list", "numbered"));
+
+      expect(xml.match(/<a:t>✓<\/a:t>/g)).toHaveLength(4);
+    });
+
+    it("places the cover image and text according to the cover variant", async () => {
+      const cinematic = await renderOne(createVariantSlide("cover", "cinematic"));
+      const editorial = await renderOne(createVariantSlide("cover", "editorial"));
+      const diagonal = await renderOne(createVariantSlide("cover", "split_diagonal"));
+      const gradient = await renderOne(createVariantSlide("cover", "gradient_only"));
+
+      expect(imageX(cinematic.xml)).toBe(0);
+      expect(cinematic.xml).toContain('<a:srgbClr val="000000">');
+      expect(imageX(editorial.xml)).toBeGreaterThan(0);
+      expect(diagonal.xml).toContain("<a:custGeom>");
+      expect(gradient.media).toHaveLength(0);
+      expect(gradient.xml).toContain("1E1B4B");
+    });
+
+    it("places the image on the side given by the text_plus_image variant", async () => {
+      const left = await renderOne(createVariantSlide("text_plus_image", "image_left"));
+      const right = await renderOne(createVariantSlide("text_plus_image", "image_right"));
+      const background = await renderOne(createVariantSlide("text_plus_image", "image_background"));
+
+      expect(imageX(left.xml)).toBeLessThan(imageX(right.xml));
+      expect(imageX(background.xml)).toBe(0);
+      expect(background.xml).toMatch(/<a:srgbClr val="FFFFFF"\/>[\s\S]*Teamet i Oslo/);
+    });
+
+    it("lays out numbered cards in the grid given by the variant", async () => {
+      // Distinct rows of card backgrounds
+      const rows = (xml: string) =>
+        new Set(
+          xml
+            .split("<p:sp>")
+            .filter((shape) => shape.includes('prst="roundRect"'))
+            .map((shape) => shape.match(/<a:off x="\d+" y="(\d+)"/)?.[1])
+        ).size;
+
+      expect(rows((await renderOne(createVariantSlide("numbered_grid", "2x2"))).xml)).toBe(2);
+      expect(rows((await renderOne(createVariantSlide("numbered_grid", "4x1"))).xml)).toBe(1);
+    });
+
+    it("adds the quote attribution", async () => {
+      const { xml } = await renderOne(createVariantSlide("quote_callout", "large"));
+
+      expect(xml).toContain("— Kari Nordmann");
+      expect(xml).toContain('algn="ctr"');
+    });
+  });
+
+  describe("speaker notes", () => {
+    it("writes slide notes to the notes page", async () => {
+      const slides: Slide[] = [
+        { ...createCoverSlide(), notes: "Ønsk velkommen og presenter agendaen" },
+        createBulletsSlide(),
+      ];
+      const buffer = await renderSlidesToPptx(slides, themeId);
+      const zip = await JSZip.loadAsync(buffer);
+
+      const notesXml = await zip.files["ppt/notesSlides/notesSlide1.xml"].async("string");
+      expect(notesXml).toContain("Ønsk velkommen og presenter agendaen");
+
+      const otherNotesXml = await zip.files["ppt/notesSlides/notesSlide2.xml"]?.async("string");
+      expect(otherNotesXml ?? "").not.toContain("Ønsk velkommen");
+    });
+  });
+
+  describe("charts", () => {
+    const createChartSlide = (chartType: "bar" | "line" | "pie" | "stacked_bar"): Slide => ({
+      type: "action_items_table",
+      layoutVariant: "default",
+      blocks: [
+        { kind: "title", text: "Omsetning per kvartal" },
+        {
+          kind: "chart",
+          chartType,
+          text: "Omsetning (MNOK)",
+          categories: ["Q1", "Q2", "Q3", "Q4"],
+          series: [
+            { name: "2024", values: [12, 15, 14, 18] },
+            { name: "2025", values: [14, 17, 19, 22] },
+          ],
+          yAxisLabel: "MNOK",
+        },
+      ],
+    });
+
+    it("exports chart blocks as native PowerPoint charts", async () => {
+      const buffer = await renderSlidesToPptx([createChartSlide("bar")], themeId);
+      const zip = await JSZip.loadAsync(buffer);
+
+      const chartFile = Object.keys(zip.files).find((name) =>
+        /^ppt\/charts\/chart\d+\.xml$/.test(name)
+      );
+      expect(chartFile).toBeDefined();
+
+      const chartXml = await zip.files[chartFile!].async("string");
+      expect(chartXml).toContain("<c:barChart>");
+      expect(chartXml).toContain("Q3");
+      expect(chartXml).toContain("2025");
+      expect(chartXml).toContain("MNOK");
+    });
+
+    it("maps chart types and uses the theme palette", async () => {
+      const styles = themeToPptxStyles(getTheme(themeId).tokens);
+      const cases = [
+        ["stacked_bar", '<c:grouping val="stacked"/>'],
+        ["line", "<c:lineChart>"],
+        ["pie", "<c:pieChart>"],
+      ] as const;
+
+      for (const [chartType, marker] of cases) {
+        const buffer = await renderSlidesToPptx([createChartSlide(chartType)], themeId);
+        const zip = await JSZip.loadAsync(buffer);
+        const chartFile = Object.keys(zip.files).find((name) =>
+          /^ppt\/charts\/chart\d+\.xml$/.test(name)
+        );
+        const chartXml = await zip.files[chartFile!].async("string");
+
+        expect(chartXml).toContain(marker);
+        expect(chartXml.toLowerCase()).toContain(styles.chartColors[0].toLowerCase());
+      }
+    });
+  });
+
   describe("renderDeckToPptx", () => {
     it("renders full deck to PPTX", async () => {
       const deck = createTestDeck();
@@ -0,0 +1,53 @@
+/**
+ * Render Pool Tests
+ */
+
+import { describe, it, expect } from "vitest";
+import { mapWithConcurrency } from "../render-pool";
+
+const tick = () => new Promise((resolve) => setTimeout(resolve, 1));
+
+describe("render-pool", () => {
+  describe("mapWithConcurrency", () => {
+    it("keeps result order while finishing out of order", async () => {
+      const results = await mapWithConcurrency([30, 10, 20], 3, async (delay, i) => {
+        await new Promise((resolve) => setTimeout(resolve, delay));
+        return i;
+      });
+
+      expect(results).toEqual([0, 1, 2]);
+    });
+
+    it("never runs more than the limit at once", async () => {
+      let running = 0;
+      let peak = 0;
+
+      await mapWithConcurrency(Array.from({ length: 10 }), 3, async () => {
+        running++;
+        peak = Math.max(peak, running);
+        await tick();
+        running--;
+      });
+
+      expect(peak).toBe(3);
+    });
+
+    it("handles empty input and limits below one", async () => {
+      expect(await mapWithConcurrency([], 4, async () => 1)).toEqual([]);
+      expect(await mapWithConcurrency([1, 2], 0, async (n) => n * 2)).toEqual([2, 4]);
+    });
+
+    it("stops starting work after a failure and rethrows it", async () => {
+      const started: number[] = [];
+
+      await expect(
+        mapWithConcurrency([0, 1, 2, 3, 4], 1, async (n) => {
+          started.push(n);
+          if (n === 1) throw new Error("Slide 2 failed");
+          await tick();
+        })
+      ).rejects.toThrow("Slide 2 failed");
+      expect(started).toEqual([0, 1]);
+    });
+  });
+});
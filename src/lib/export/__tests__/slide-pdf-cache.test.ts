@@ -0,0 +1,60 @@
+/**
+ * Slide PDF Cache Tests
+ */
+
+import { describe, it, expect } from "vitest";
+import { createMemorySlidePdfCache, hashSlideHtml } from "../slide-pdf-cache";
+
+const bytes = (size: number, fill = 0) => Buffer.alloc(size, fill);
+
+describe("slide-pdf-cache", () => {
+  describe("hashSlideHtml", () => {
+    it("changes with the markup", () => {
+      expect(hashSlideHtml("<h1>A</h1>")).toBe(hashSlideHtml("<h1>A</h1>"));
+      expect(hashSlideHtml("<h1>A</h1>")).not.toBe(hashSlideHtml("<h1>B</h1>"));
+    });
+  });
+
+  describe("createMemorySlidePdfCache", () => {
+    it("returns stored slides", async () => {
+      const cache = createMemorySlidePdfCache(1024);
+      await cache.set("a", bytes(10, 1));
+
+      expect(await cache.get("a")).toEqual(bytes(10, 1));
+      expect(await cache.get("b")).toBeUndefined();
+    });
+
+    it("drops the least recently used slides above the size limit", async () => {
+      const cache = createMemorySlidePdfCache(30);
+      await cache.set("a", bytes(10));
+      await cache.set("b", bytes(10));
+      await cache.set("c", bytes(10));
+      await cache.get("a");
+      await cache.set("d", bytes(10));
+
+      expect(await cache.get("a")).toBeDefined();
+      expect(await cache.get("b")).toBeUndefined();
+      expect(await cache.get("c")).toBeDefined();
+      expect(await cache.get("d")).toBeDefined();
+    });
+
+    it("replaces entries without double counting their size", async () => {
+      const cache = createMemorySlidePdfCache(20);
+      await cache.set("a", bytes(10, 1));
+      await cache.set("a", bytes(10, 2));
+      await cache.set("b", bytes(10));
+
+      expect(await cache.get("a")).toEqual(bytes(10, 2));
+      expect(await cache.get("b")).toBeDefined();
+    });
+
+    it("skips slides larger than the whole cache", async () => {
+      const cache = createMemorySlidePdfCache(10);
+      await cache.set("small", bytes(5));
+      await cache.set("huge", bytes(11));
+
+      expect(await cache.get("huge")).toBeUndefined();
+      expect(await cache.get("small")).toBeDefined();
+    });
+  });
+});
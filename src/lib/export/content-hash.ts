@@ -0,0 +1,74 @@
+/**
+ * Export Content Hash
+ *
+ * Fingerprints everything that affects an export file, so an unchanged deck
+ * can reuse the previous file instead of being rendered again.
+ */
+
+import { createHash } from "crypto";
+import type { Deck } from "@/lib/schemas/deck";
+import type { ThemeId, BrandKitOverrides } from "@/lib/themes";
+import type { ExportFormat } from "@/lib/queue/export-queue";
+import type { HandoutLayout } from "./pdf-handout";
+
+/**
+ * Bump when renderer output changes, so files rendered by older code are
+ * not served from the cache
+ */
+export const EXPORT_RENDER_VERSION = 2;
+
+export interface ExportHashInput {
+  deck: Deck;
+  format: ExportFormat;
+  themeId: ThemeId;
+  brandKit?: BrandKitOverrides;
+  /** PNG pixel density */
+  scale?: number;
+  /** PDF handout layout */
+  handout?: HandoutLayout;
+}
+
+/**
+ * JSON with object keys sorted, so key order never changes the hash
+ */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
+
+/**
+ * Compute the cache key for an export
+ *
+ * Covers slide content, deck title and language (used in file metadata),
+ * theme, brand kit, format and format options.
+ *
+ * @returns SHA-256 hex digest
+ */
+export function computeExportHash(input: ExportHashInput): string {
+  const { deck, format, themeId, brandKit, scale, handout } = input;
+
+  return createHash("sha256")
+    .update(
+      canonicalJson({
+        version: EXPORT_RENDER_VERSION,
+        format,
+        themeId,
+        brandKit,
+        title: deck.deck.title,
+        language: deck.deck.language,
+        slides: deck.slides,
+        ...(format === "png" ? { scale } : {}),
+        ...(format === "pdf" ? { handout } : {}),
+      })
+    )
+    .digest("hex");
+}
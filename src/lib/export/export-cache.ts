@@ -0,0 +1,60 @@
+/**
+ * Export Cache
+ *
+ * Reuses the file from an earlier export when the content hash matches, so
+ * repeated downloads of an unchanged deck skip rendering. Expired signed URLs
+ * are re-signed from the stored S3 key.
+ */
+
+import { findCachedExport, type ExportFormat } from "@/lib/db/export-job";
+import {
+  fileExists,
+  generateSignedUrl,
+  calculateExpiryDate,
+  getDefaultExpirySeconds,
+} from "@/lib/storage";
+
+/**
+ * URLs closer than this to expiry are re-signed, so a download started
+ * right before a meeting does not fail halfway
+ */
+const MIN_REMAINING_MS = 5 * 60 * 1000;
+
+export interface CachedExportFile {
+  fileUrl: string;
+  fileKey: string;
+  expiresAt: Date;
+}
+
+/**
+ * Find a reusable export file for a content hash
+ *
+ * @returns A signed URL for the cached file, or null when it must be rendered
+ */
+export async function findReusableExport(
+  deckId: string,
+  format: ExportFormat,
+  contentHash: string
+): Promise<CachedExportFile | null> {
+  const cached = await findCachedExport(deckId, format, contentHash);
+  if (!cached?.fileKey) {
+    return null;
+  }
+
+  const { fileUrl, fileKey, expiresAt } = cached;
+  if (fileUrl && expiresAt && expiresAt.getTime() - Date.now() > MIN_REMAINING_MS) {
+    return { fileUrl, fileKey, expiresAt };
+  }
+
+  // The bucket may have removed the file since
+  if (!(await fileExists(fileKey))) {
+    return null;
+  }
+
+  const expirySeconds = getDefaultExpirySeconds();
+  return {
+    fileUrl: await generateSignedUrl(fileKey, expirySeconds),
+    fileKey,
+    expiresAt: calculateExpiryDate(expirySeconds),
+  };
+}
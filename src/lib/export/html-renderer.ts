@@ -0,0 +1,387 @@
+/**
+ * HTML Renderer
+ *
+ * Renders a deck to a single self-contained HTML file that opens offline:
+ * theme CSS, fonts and images are inlined, and a small script provides
+ * the same keyboard navigation as DeckViewer.
+ */
+
+import type { Deck } from "@/lib/schemas/deck";
+import type { ThemeId, BrandKitOverrides } from "@/lib/themes";
+import { getTheme, applyBrandKit } from "@/lib/themes";
+import { generateSlideStyles, renderSlideMarkup, PDF_DIMENSIONS } from "./slide-html";
+import { resolveExportLocale } from "./locale";
+
+/**
+ * Google Fonts stylesheet endpoint for the theme font families
+ */
+export const GOOGLE_FONTS_CSS_URL = "https://fonts.googleapis.com/css2";
+
+// Google Fonts only serves woff2 to browsers it recognises
+const FONT_USER_AGENT =
+  "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0 Safari/537.36";
+
+/** Per-request limit for fonts and images, so one slow host cannot stall the export */
+const ASSET_TIMEOUT_MS = 10_000;
+const MAX_ASSET_BYTES = 10 * 1024 * 1024;
+
+type FetchFn = (url: string, init?: RequestInit) => Promise<Response>;
+
+export interface HtmlExportOptions {
+  /** Fetch used for fonts and images (defaults to global fetch) */
+  fetch?: FetchFn;
+  /** Timeout per font or image request in milliseconds (default 10 s) */
+  assetTimeoutMs?: number;
+  /** Largest font or image that is inlined, in bytes (default 10 MB) */
+  maxAssetBytes?: number;
+}
+
+interface AssetFetcher {
+  fetch: FetchFn;
+  timeoutMs: number;
+  maxBytes: number;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Fetch a font or image with the export's timeout and size limit
+ */
+async function fetchAsset(url: string, assets: AssetFetcher, init: RequestInit = {}) {
+  const response = await assets.fetch(url, {
+    ...init,
+    signal: AbortSignal.timeout(assets.timeoutMs),
+  });
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status} for ${url}`);
+  }
+  return response;
+}
+
+/**
+ * Read a response body, failing once it exceeds `maxBytes`
+ */
+async function readBody(response: Response, maxBytes: number): Promise<Buffer> {
+  if (!response.body) return Buffer.alloc(0);
+  if (Number(response.headers.get("content-length")) > maxBytes) {
+    await response.body.cancel();
+    throw new Error(`Larger than ${maxBytes} bytes`);
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > maxBytes) {
+      await reader.cancel();
+      throw new Error(`Larger than ${maxBytes} bytes`);
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Download a file and encode it as a data URL
+ *
+ * Only responses of the expected media type (e.g. "image/") are inlined:
+ * slide URLs are user-controlled, and the export must not copy arbitrary
+ * responses (internal endpoints, HTML pages) into the file.
+ */
+async function fetchAsDataUrl(
+  url: string,
+  mediaType: string,
+  assets: AssetFetcher
+): Promise<string> {
+  const response = await fetchAsset(url, assets);
+  const contentType = (response.headers.get("content-type") ?? "").split(";")[0].trim();
+  if (!contentType.startsWith(mediaType)) {
+    await response.body?.cancel();
+    throw new Error(`Unexpected content type "${contentType}" for ${url}`);
+  }
+  const buffer = await readBody(response, assets.maxBytes);
+  return `data:${contentType};base64,${buffer.toString("base64")}`;
+}
+
+/**
+ * Replace remote URLs matched by `pattern` with data URLs
+ *
+ * The first capture group is the URL as it appears in the markup, with
+ * `&amp;` escaped. URLs that cannot be fetched, or are not of `mediaType`,
+ * are left as they are and keep working online.
+ */
+async function inlineUrls(
+  markup: string,
+  pattern: RegExp,
+  mediaType: string,
+  assets: AssetFetcher
+): Promise<string> {
+  // Longest first, so a URL that prefixes another does not break it
+  const urls = Array.from(new Set(Array.from(markup.matchAll(pattern), (match) => match[1])));
+  urls.sort((a, b) => b.length - a.length);
+  let result = markup;
+
+  for (const url of urls) {
+    try {
+      const dataUrl = await fetchAsDataUrl(url.replace(/&amp;/g, "&"), mediaType, assets);
+      result = result.split(url).join(dataUrl);
+    } catch (error) {
+      console.warn(`Could not inline ${url} in HTML export:`, error);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Quoted font family names from CSS font-family values
+ */
+export function extractFontFamilies(fontFamilies: string[]): string[] {
+  const names = fontFamilies.flatMap((value) =>
+    Array.from(value.matchAll(/"([^"]+)"/g), (match) => match[1])
+  );
+  return Array.from(new Set(names));
+}
+
+/**
+ * Fetch the @font-face rules for the given families with the font files inlined
+ *
+ * Returns an empty string when the fonts cannot be fetched, so the export
+ * falls back to the system fonts listed after them.
+ */
+async function embedFonts(families: string[], assets: AssetFetcher): Promise<string> {
+  if (families.length === 0) return "";
+
+  const query = families
+    .map((family) => `family=${encodeURIComponent(family).replace(/%20/g, "+")}:wght@400..800`)
+    .join("&");
+
+  try {
+    const response = await fetchAsset(`${GOOGLE_FONTS_CSS_URL}?${query}&display=swap`, assets, {
+      headers: { "User-Agent": FONT_USER_AGENT },
+    });
+    const css = (await readBody(response, assets.maxBytes)).toString("utf-8");
+    return await inlineUrls(css, /url\((https:\/\/[^)]+)\)/g, "font/", assets);
+  } catch (error) {
+    console.warn(`Could not embed fonts (${families.join(", ")}) in HTML export:`, error);
+    return "";
+  }
+}
+
+const VIEWER_STYLES = `
+    html, body.deck-viewer {
+      height: 100%;
+      overflow: hidden;
+      background-color: #111827;
+    }
+
+    .deck-stage {
+      position: fixed;
+      inset: 0 0 56px 0;
+      display: flex;
+      align-items: center;
+      justify-content: center;
+    }
+
+    .deck-slide {
+      display: none;
+      flex: none;
+      width: ${PDF_DIMENSIONS.width}px;
+      height: ${PDF_DIMENSIONS.height}px;
+      transform: scale(var(--deck-scale, 1));
+      box-shadow: 0 10px 40px rgba(0, 0, 0, 0.5);
+    }
+
+    .deck-slide.active { display: block; }
+
+    .deck-controls {
+      position: fixed;
+      left: 0;
+      right: 0;
+      bottom: 0;
+      height: 56px;
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      gap: 16px;
+      color: #E5E7EB;
+      font: 14px system-ui, -apple-system, sans-serif;
+    }
+
+    .deck-controls button {
+      width: 36px;
+      height: 36px;
+      border: none;
+      border-radius: 9999px;
+      background: rgba(255, 255, 255, 0.1);
+      color: inherit;
+      font-size: 18px;
+      cursor: pointer;
+    }
+
+    .deck-controls button:hover { background: rgba(255, 255, 255, 0.2); }
+    .deck-controls button:disabled { opacity: 0.3; cursor: default; }
+
+    @page {
+      size: ${PDF_DIMENSIONS.width}px ${PDF_DIMENSIONS.height}px;
+      margin: 0;
+    }
+
+    @media print {
+      html, body.deck-viewer { height: auto; overflow: visible; background: none; }
+      .deck-stage { position: static; display: block; }
+      .deck-slide { display: block; transform: none; box-shadow: none; break-after: page; }
+      .deck-controls { display: none; }
+    }
+`;
+
+// Plain ES5 so the file opens in any browser; mirrors DeckViewer's keys
+const VIEWER_SCRIPT = `
+(function () {
+  var slides = document.querySelectorAll(".deck-slide");
+  var stage = document.querySelector(".deck-stage");
+  var counter = document.getElementById("deck-counter");
+  var prev = document.getElementById("deck-prev");
+  var next = document.getElementById("deck-next");
+  var current = 0;
+
+  function fit() {
+    var scale = Math.min(stage.clientWidth / ${PDF_DIMENSIONS.width}, stage.clientHeight / ${PDF_DIMENSIONS.height});
+    document.documentElement.style.setProperty("--deck-scale", String(scale));
+  }
+
+  function show(index) {
+    current = Math.max(0, Math.min(index, slides.length - 1));
+    for (var i = 0; i < slides.length; i++) {
+      slides[i].classList.toggle("active", i === current);
+      slides[i].setAttribute("aria-hidden", i === current ? "false" : "true");
+    }
+    counter.textContent = current + 1 + " / " + slides.length;
+    prev.disabled = current === 0;
+    next.disabled = current === slides.length - 1;
+    if (location.hash !== "#" + (current + 1)) {
+      history.replaceState(null, "", "#" + (current + 1));
+    }
+  }
+
+  function fromHash() {
+    return (parseInt(location.hash.slice(1), 10) || 1) - 1;
+  }
+
+  document.addEventListener("keydown", function (e) {
+    switch (e.key) {
+      case "ArrowLeft":
+      case "ArrowUp":
+      case "PageUp":
+        e.preventDefault();
+        show(current - 1);
+        break;
+      case "ArrowRight":
+      case "ArrowDown":
+      case "PageDown":
+      case " ":
+        e.preventDefault();
+        show(current + 1);
+        break;
+      case "Home":
+        e.preventDefault();
+        show(0);
+        break;
+      case "End":
+        e.preventDefault();
+        show(slides.length - 1);
+        break;
+      case "f":
+        if (document.fullscreenElement) {
+          document.exitFullscreen();
+        } else if (document.documentElement.requestFullscreen) {
+          document.documentElement.requestFullscreen();
+        }
+        break;
+    }
+  });
+
+  prev.addEventListener("click", function () { show(current - 1); });
+  next.addEventListener("click", function () { show(current + 1); });
+  window.addEventListener("hashchange", function () { show(fromHash()); });
+  window.addEventListener("resize", fit);
+
+  fit();
+  show(fromHash());
+})();
+`;
+
+/**
+ * Render a deck to a self-contained HTML file
+ *
+ * @param deck - The deck data to render
+ * @param themeId - The theme to apply
+ * @param brandKit - Optional brand kit color overrides
+ * @param options - Optional fetch and limits for fonts and images
+ * @returns HTML document as a Buffer
+ */
+export async function renderDeckToHtml(
+  deck: Deck,
+  themeId: ThemeId,
+  brandKit?: BrandKitOverrides,
+  options: HtmlExportOptions = {}
+): Promise<Buffer> {
+  const assets: AssetFetcher = {
+    fetch: options.fetch ?? fetch,
+    timeoutMs: options.assetTimeoutMs ?? ASSET_TIMEOUT_MS,
+    maxBytes: options.maxAssetBytes ?? MAX_ASSET_BYTES,
+  };
+  const locale = resolveExportLocale(deck.deck.language);
+  const { typography } = applyBrandKit(getTheme(themeId), brandKit).tokens;
+  const total = deck.slides.length;
+
+  const slidesMarkup = deck.slides
+    .map(
+      (slide, i) =>
+        `<section class="deck-slide" aria-label="Slide ${i + 1} av ${total}">
+    ${renderSlideMarkup(slide, locale)}
+  </section>`
+    )
+    .join("\n  ");
+
+  const [fontCss, body] = await Promise.all([
+    embedFonts(extractFontFamilies([typography.fontFamily, typography.fontFamilyHeading]), assets),
+    inlineUrls(slidesMarkup, /(?:src="|url\()(https?:\/\/[^")]+)/g, "image/", assets),
+  ]);
+
+  const html = `<!DOCTYPE html>
+<html lang="${escapeHtml(locale.lang)}" dir="${locale.dir}">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>${escapeHtml(deck.deck.title)}</title>
+  <style>
+    ${fontCss}
+    ${generateSlideStyles(themeId, brandKit, locale)}
+    ${VIEWER_STYLES}
+  </style>
+</head>
+<body class="deck-viewer">
+  <main class="deck-stage">
+  ${body}
+  </main>
+  <nav class="deck-controls" aria-label="Navigasjon">
+    <button type="button" id="deck-prev" aria-label="Forrige slide">&#8249;</button>
+    <span id="deck-counter" aria-live="polite"></span>
+    <button type="button" id="deck-next" aria-label="Neste slide">&#8250;</button>
+  </nav>
+  <script>${VIEWER_SCRIPT}</script>
+</body>
+</html>`;
+
+  return Buffer.from(html, "utf-8");
+}
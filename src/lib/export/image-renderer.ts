@@ -0,0 +1,205 @@
+/**
+ * Image Renderer
+ *
+ * Uses Playwright to render slides as PNG or SVG images, one per slide.
+ * A single slide is delivered as the image itself, several as a zip.
+ */
+
+import type { BrowserContext } from "playwright";
+import JSZip from "jszip";
+import type { Slide } from "@/lib/schemas/slide";
+import type { ThemeId, BrandKitOverrides } from "@/lib/themes";
+import { renderSlideToHtml, PDF_DIMENSIONS } from "./slide-html";
+import { getBrowser } from "./pdf-renderer";
+
+/**
+ * Image export formats
+ */
+export type ImageFormat = "png" | "svg";
+
+const IMAGE_CONTENT_TYPES: Record<ImageFormat, string> = {
+  png: "image/png",
+  svg: "image/svg+xml",
+};
+
+/** Per-image limits when inlining SVG images, so one slow host cannot stall the export */
+const SVG_IMAGE_LIMITS = { timeoutMs: 10_000, maxBytes: 10 * 1024 * 1024 };
+
+/**
+ * An export file ready for upload
+ */
+export interface ImageExportFile {
+  buffer: Buffer;
+  contentType: string;
+  extension: ImageFormat | "zip";
+}
+
+/**
+ * Wrap rendered slide markup in a standalone SVG
+ *
+ * The slide stays HTML inside a foreignObject, so text remains text and
+ * layout matches the browser exactly. `body` is the serialized XHTML body.
+ */
+export function slideMarkupToSvg(css: string, body: string): string {
+  const { width, height } = PDF_DIMENSIONS;
+  // CSS goes in CDATA; split any "]]>" so the section cannot end early
+  const cdata = css.split("]]>").join("]]]]><![CDATA[>");
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+    `<style><![CDATA[${cdata}]]></style>`,
+    `<foreignObject x="0" y="0" width="${width}" height="${height}">${body}</foreignObject>`,
+    "</svg>",
+  ].join("\n");
+}
+
+/**
+ * Load slide HTML in a page sized to the slide
+ */
+async function openSlide(context: BrowserContext, html: string) {
+  const page = await context.newPage();
+  await page.setViewportSize({
+    width: PDF_DIMENSIONS.width,
+    height: PDF_DIMENSIONS.height,
+  });
+  await page.setContent(html, { waitUntil: "networkidle" });
+  await page.evaluate(() => document.fonts.ready);
+  return page;
+}
+
+/**
+ * Render a single slide HTML to PNG
+ */
+async function renderSlideToPng(context: BrowserContext, html: string): Promise<Buffer> {
+  const page = await openSlide(context, html);
+
+  try {
+    const png = await page.screenshot({
+      type: "png",
+      clip: { x: 0, y: 0, width: PDF_DIMENSIONS.width, height: PDF_DIMENSIONS.height },
+    });
+    return Buffer.from(png);
+  } finally {
+    await page.close();
+  }
+}
+
+/**
+ * Render a single slide HTML to SVG
+ *
+ * Images are inlined as data URLs so the file works offline; images the
+ * browser may not read (no CORS headers), responses that are not images and
+ * slow or oversized downloads keep their original URL.
+ */
+async function renderSlideToSvg(context: BrowserContext, html: string): Promise<Buffer> {
+  const page = await openSlide(context, html);
+
+  try {
+    const { css, body } = await page.evaluate(async (limits) => {
+      const toDataUrl = async (url: string): Promise<string> => {
+        const response = await fetch(url, { signal: AbortSignal.timeout(limits.timeoutMs) });
+        const blob = await response.blob();
+        if (!response.ok || !blob.type.startsWith("image/") || blob.size > limits.maxBytes) {
+          throw new Error(`Not inlining ${url}`);
+        }
+        return new Promise((resolve, reject) => {
+          const reader = new FileReader();
+          reader.onload = () => resolve(reader.result as string);
+          reader.onerror = () => reject(reader.error);
+          reader.readAsDataURL(blob);
+        });
+      };
+
+      for (const img of Array.from(document.querySelectorAll("img"))) {
+        if (img.src.startsWith("http")) {
+          img.src = await toDataUrl(img.src).catch(() => img.src);
+        }
+      }
+
+      for (const element of Array.from(document.querySelectorAll<HTMLElement>("[style]"))) {
+        const match = element.style.backgroundImage.match(/url\("?(http[^")]+)"?\)/);
+        if (match) {
+          const dataUrl = await toDataUrl(match[1]).catch(() => match[1]);
+          element.style.backgroundImage = `url("${dataUrl}")`;
+        }
+      }
+
+      return {
+        css: Array.from(document.querySelectorAll("style"))
+          .map((style) => style.textContent ?? "")
+          .join("\n"),
+        body: new XMLSerializer().serializeToString(document.body),
+      };
+    }, SVG_IMAGE_LIMITS);
+
+    return Buffer.from(slideMarkupToSvg(css, body), "utf-8");
+  } finally {
+    await page.close();
+  }
+}
+
+/**
+ * Render slides to one image per slide
+ *
+ * @param slides - Array of slides to render
+ * @param themeId - The theme to apply
+ * @param brandKit - Optional brand kit color overrides
+ * @param options - Image format, for PNG the pixel density (2 gives 2560x1440),
+ *   and the deck language (default Norwegian)
+ * @returns One image buffer per slide, in slide order
+ */
+export async function renderSlidesToImages(
+  slides: Slide[],
+  themeId: ThemeId,
+  brandKit: BrandKitOverrides | undefined,
+  options: { format: ImageFormat; scale?: number; language?: string }
+): Promise<Buffer[]> {
+  const browser = await getBrowser();
+  const context = await browser.newContext(
+    options.format === "png" ? { deviceScaleFactor: options.scale ?? 1 } : {}
+  );
+
+  try {
+    const images: Buffer[] = [];
+
+    for (let i = 0; i < slides.length; i++) {
+      console.log(`Rendering slide ${i + 1}/${slides.length} as ${options.format}...`);
+
+      const html = renderSlideToHtml(slides[i], themeId, brandKit, options.language);
+      images.push(
+        options.format === "png"
+          ? await renderSlideToPng(context, html)
+          : await renderSlideToSvg(context, html)
+      );
+    }
+
+    return images;
+  } finally {
+    await context.close();
+  }
+}
+
+/**
+ * Package slide images for download: the image itself for a single slide,
+ * otherwise a zip with slide-01, slide-02, ... in slide order
+ */
+export async function packageSlideImages(
+  images: Buffer[],
+  format: ImageFormat
+): Promise<ImageExportFile> {
+  if (images.length === 1) {
+    return { buffer: images[0], contentType: IMAGE_CONTENT_TYPES[format], extension: format };
+  }
+
+  const zip = new JSZip();
+  const digits = Math.max(2, String(images.length).length);
+  images.forEach((image, i) => {
+    zip.file(`slide-${String(i + 1).padStart(digits, "0")}.${format}`, image);
+  });
+
+  return {
+    buffer: await zip.generateAsync({ type: "nodebuffer", compression: "DEFLATE" }),
+    contentType: "application/zip",
+    extension: "zip",
+  };
+}
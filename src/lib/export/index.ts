@@ -1,7 +1,7 @@
 /**
  * Export Module
  *
- * PDF and PPTX export functionality for presentations.
+ * PDF, PPTX, image, HTML, Markdown and plain-text export functionality for presentations.
  */
 
 // PDF exports
@@ -10,10 +10,62 @@ export {
   renderSlidesToPdf,
   renderSingleSlideToPdf,
   closeBrowser,
+  type PdfRenderOptions,
 } from "./pdf-renderer";
 
+export {
+  createMemorySlidePdfCache,
+  getDefaultSlidePdfCache,
+  hashSlideHtml,
+  type SlidePdfCache,
+} from "./slide-pdf-cache";
+export { mapWithConcurrency } from "./render-pool";
+
+export {
+  composeHandout,
+  getHandoutSlots,
+  HANDOUT_LAYOUTS,
+  HANDOUT_PAGE,
+  type HandoutLayout,
+} from "./pdf-handout";
+
+export {
+  mergeTaggedPdfs,
+  applyPdfAccessibility,
+  getSlideTitle,
+  type PdfDocumentMeta,
+  type PdfBookmark,
+} from "./pdf-accessibility";
+
 export { renderSlideToHtml, renderSlidesToHtml, PDF_DIMENSIONS } from "./slide-html";
 
+export {
+  resolveExportLocale,
+  generateLocaleStyles,
+  withFallbackFonts,
+  type ExportLocale,
+  type ExportScript,
+} from "./locale";
+
+// Offline HTML export
+export { renderDeckToHtml, type HtmlExportOptions } from "./html-renderer";
+
+// Markdown and plain-text outline export
+export { renderDeckToMarkdown, renderDeckToText, renderSlideToMarkdown } from "./markdown-renderer";
+
+// PNG/SVG exports
+export {
+  renderSlidesToImages,
+  packageSlideImages,
+  slideMarkupToSvg,
+  type ImageFormat,
+  type ImageExportFile,
+} from "./image-renderer";
+
+// Content-hash export cache
+export { computeExportHash, EXPORT_RENDER_VERSION, type ExportHashInput } from "./content-hash";
+export { findReusableExport, type CachedExportFile } from "./export-cache";
+
 // PPTX exports
 export { renderDeckToPptx, renderSlidesToPptx } from "./pptx-renderer";
 
@@ -0,0 +1,180 @@
+/**
+ * Export Locale
+ *
+ * Language settings for exported slide HTML: the lang and dir attributes,
+ * hyphenation, quotation marks, and fallback fonts for scripts the theme
+ * fonts do not cover. Resolved from DeckMeta.language (a BCP 47 tag).
+ */
+
+/**
+ * Writing systems with their own fallback fonts
+ */
+export type ExportScript =
+  | "latin"
+  | "cyrillic"
+  | "greek"
+  | "arabic"
+  | "hebrew"
+  | "devanagari"
+  | "thai"
+  | "japanese"
+  | "chinese_simplified"
+  | "chinese_traditional"
+  | "korean";
+
+export interface ExportLocale {
+  /** Normalised BCP 47 tag for the lang attribute */
+  lang: string;
+  dir: "ltr" | "rtl";
+  script: ExportScript;
+  /** Outer and inner quotation marks: [open, close, innerOpen, innerClose] */
+  quotes: [string, string, string, string];
+  /** Font families to try after the theme fonts, as CSS font-family names */
+  fallbackFonts: string[];
+}
+
+interface LanguageRule {
+  quotes: ExportLocale["quotes"];
+  script?: ExportScript;
+  dir?: "rtl";
+}
+
+const ENGLISH_QUOTES: ExportLocale["quotes"] = ["“", "”", "‘", "’"];
+const GUILLEMETS: ExportLocale["quotes"] = ["«", "»", "“", "”"];
+const LOW_HIGH_QUOTES: ExportLocale["quotes"] = ["„", "“", "‚", "‘"];
+const NORDIC_QUOTES: ExportLocale["quotes"] = ["”", "”", "’", "’"];
+const CJK_BRACKETS: ExportLocale["quotes"] = ["「", "」", "『", "』"];
+
+/**
+ * Rules by primary language subtag
+ */
+const LANGUAGES: Record<string, LanguageRule> = {
+  no: { quotes: ["«", "»", "‘", "’"] },
+  nb: { quotes: ["«", "»", "‘", "’"] },
+  nn: { quotes: ["«", "»", "‘", "’"] },
+  da: { quotes: ["»", "«", "›", "‹"] },
+  sv: { quotes: NORDIC_QUOTES },
+  fi: { quotes: NORDIC_QUOTES },
+  is: { quotes: LOW_HIGH_QUOTES },
+  de: { quotes: LOW_HIGH_QUOTES },
+  cs: { quotes: LOW_HIGH_QUOTES },
+  en: { quotes: ENGLISH_QUOTES },
+  nl: { quotes: ENGLISH_QUOTES },
+  fr: { quotes: GUILLEMETS },
+  es: { quotes: GUILLEMETS },
+  it: { quotes: GUILLEMETS },
+  pt: { quotes: GUILLEMETS },
+  pl: { quotes: ["„", "”", "«", "»"] },
+  ru: { quotes: ["«", "»", "„", "“"], script: "cyrillic" },
+  uk: { quotes: ["«", "»", "„", "“"], script: "cyrillic" },
+  el: { quotes: GUILLEMETS, script: "greek" },
+  ar: { quotes: GUILLEMETS, script: "arabic", dir: "rtl" },
+  fa: { quotes: GUILLEMETS, script: "arabic", dir: "rtl" },
+  he: { quotes: ENGLISH_QUOTES, script: "hebrew", dir: "rtl" },
+  hi: { quotes: ENGLISH_QUOTES, script: "devanagari" },
+  th: { quotes: ENGLISH_QUOTES, script: "thai" },
+  ja: { quotes: CJK_BRACKETS, script: "japanese" },
+  zh: { quotes: ENGLISH_QUOTES, script: "chinese_simplified" },
+  ko: { quotes: ENGLISH_QUOTES, script: "korean" },
+};
+
+/**
+ * Web font name first (HTML export viewers), then the name the worker's
+ * Noto packages install under (PDF and image rendering)
+ */
+const SCRIPT_FONTS: Record<ExportScript, string[]> = {
+  latin: [],
+  cyrillic: ['"Noto Sans"'],
+  greek: ['"Noto Sans"'],
+  arabic: ['"Noto Sans Arabic"'],
+  hebrew: ['"Noto Sans Hebrew"'],
+  devanagari: ['"Noto Sans Devanagari"'],
+  thai: ['"Noto Sans Thai"'],
+  japanese: ['"Noto Sans JP"', '"Noto Sans CJK JP"'],
+  chinese_simplified: ['"Noto Sans SC"', '"Noto Sans CJK SC"'],
+  chinese_traditional: ['"Noto Sans TC"', '"Noto Sans CJK TC"'],
+  korean: ['"Noto Sans KR"', '"Noto Sans CJK KR"'],
+};
+
+/**
+ * Normalise tag casing: language lower case, script title case, region upper case
+ */
+function normaliseTag(language: string): string {
+  const [primary, ...rest] = language.trim().replace(/_/g, "-").split("-");
+  const subtags = rest.map((subtag) =>
+    subtag.length === 4
+      ? subtag[0].toUpperCase() + subtag.slice(1).toLowerCase()
+      : subtag.length === 2
+        ? subtag.toUpperCase()
+        : subtag.toLowerCase()
+  );
+  return [primary.toLowerCase(), ...subtags].join("-");
+}
+
+/**
+ * Resolve export settings for a deck language
+ *
+ * Unknown languages keep their tag and get English quotes and Latin fonts.
+ *
+ * @param language - BCP 47 tag, e.g. "no", "en-GB", "zh-Hant"
+ */
+export function resolveExportLocale(language: string): ExportLocale {
+  const lang = normaliseTag(language || "no");
+  const primary = lang.split("-")[0];
+  const rule = LANGUAGES[primary] ?? { quotes: ENGLISH_QUOTES };
+
+  let script = rule.script ?? "latin";
+  let quotes = rule.quotes;
+  if (script === "chinese_simplified" && /-(Hant|TW|HK|MO)\b/.test(lang)) {
+    script = "chinese_traditional";
+    quotes = CJK_BRACKETS;
+  }
+
+  return {
+    lang,
+    dir: rule.dir ?? "ltr",
+    script,
+    quotes,
+    fallbackFonts: SCRIPT_FONTS[script],
+  };
+}
+
+/**
+ * Add the locale's fallback fonts to a CSS font-family list, after the
+ * named theme fonts and before generic families like system-ui
+ */
+export function withFallbackFonts(fontFamily: string, locale: ExportLocale): string {
+  if (locale.fallbackFonts.length === 0) return fontFamily;
+
+  const families = fontFamily.split(",").map((family) => family.trim());
+  const firstGeneric = families.findIndex((family) => !family.startsWith('"'));
+  const at = firstGeneric === -1 ? families.length : firstGeneric;
+  const missing = locale.fallbackFonts.filter((font) => !families.includes(font));
+
+  return [...families.slice(0, at), ...missing, ...families.slice(at)].join(", ");
+}
+
+/**
+ * CSS for hyphenation and quotation marks
+ * Headings are not hyphenated; broken titles read poorly on slides.
+ */
+export function generateLocaleStyles(locale: ExportLocale): string {
+  const quotes = locale.quotes.map((mark) => JSON.stringify(mark)).join(" ");
+
+  return `
+    html {
+      quotes: ${quotes};
+    }
+
+    body {
+      hyphens: auto;
+      -webkit-hyphens: auto;
+      overflow-wrap: break-word;
+    }
+
+    h1, h2, h3, .font-heading, .text-title, .text-heading {
+      hyphens: manual;
+      -webkit-hyphens: manual;
+    }
+  `;
+}
@@ -0,0 +1,223 @@
+/**
+ * Markdown Renderer
+ *
+ * Serialises a deck to a Markdown outline for reviewers who want the
+ * content in a document. Slides are separated by `---` and speaker notes
+ * are HTML comments, the same conventions the Markdown importer reads.
+ * The plain-text variant uses the same layout without the syntax.
+ */
+
+import type { Block } from "@/lib/schemas/block";
+import type { Deck } from "@/lib/schemas/deck";
+import type { Slide } from "@/lib/schemas/slide";
+
+/**
+ * Markup for one output format; block layout is shared between them
+ */
+interface OutlineSyntax {
+  slideSeparator: string;
+  heading: (text: string, level: number) => string;
+  bold: (text: string) => string;
+  bullet: string;
+  table: (header: string[], rows: string[][]) => string;
+  quote: (text: string) => string;
+  image: (url: string, alt: string) => string | null;
+  notes: (notes: string) => string;
+}
+
+/**
+ * Escape a table cell: pipes would end the cell, newlines the row
+ */
+function tableCell(text: string): string {
+  return text.replace(/\|/g, "\\|").replace(/\s*\n\s*/g, " ");
+}
+
+const MARKDOWN: OutlineSyntax = {
+  slideSeparator: "\n\n---\n\n",
+  heading: (text, level) => `${"#".repeat(level)} ${text}`,
+  bold: (text) => `**${text}**`,
+  bullet: "-",
+  // GFM table with the first row as header
+  table: (header, rows) => {
+    const line = (cells: string[]) => `| ${cells.map(tableCell).join(" | ")} |`;
+    return [line(header), `|${header.map(() => "---").join("|")}|`, ...rows.map(line)].join("\n");
+  },
+  quote: (text) =>
+    text
+      .split("\n")
+      .map((line) => `> ${line}`)
+      .join("\n"),
+  image: (url, alt) => `![${alt}](${url})`,
+  // "-->" would end the comment early
+  notes: (notes) => `<!--\n${notes.replace(/-->/g, "-- >")}\n-->`,
+};
+
+const PLAIN_TEXT: OutlineSyntax = {
+  slideSeparator: `\n\n${"-".repeat(40)}\n\n`,
+  heading: (text) => text,
+  bold: (text) => text,
+  bullet: "•",
+  table: (header, rows) =>
+    [header, ...rows]
+      .map((cells) => cells.map((cell) => cell.replace(/\s*\n\s*/g, " ")).join(" | "))
+      .join("\n"),
+  quote: (text) => text,
+  // Images carry no text beyond their description
+  image: (_url, alt) => (alt ? `[${alt}]` : null),
+  // Indented below the slide content
+  notes: (notes) =>
+    notes
+      .split("\n")
+      .map((line) => `    ${line}`)
+      .join("\n"),
+};
+
+/**
+ * A rendered block; list lines of the same kind are joined without a blank line
+ */
+interface OutlineChunk {
+  text: string;
+  listKind?: Block["kind"];
+}
+
+/**
+ * "**Title**: description", or just the bold title
+ */
+function labelled(syntax: OutlineSyntax, title: string, description?: string): string {
+  return description ? `${syntax.bold(title)}: ${description}` : syntax.bold(title);
+}
+
+function renderBlock(
+  block: Block,
+  headingLevel: number,
+  syntax: OutlineSyntax
+): OutlineChunk | null {
+  switch (block.kind) {
+    case "title":
+      return block.text ? { text: syntax.heading(block.text, headingLevel) } : null;
+
+    case "text":
+      return block.text ? { text: block.text } : null;
+
+    case "bullets":
+      return block.items?.length
+        ? { text: block.items.map((item) => `${syntax.bullet} ${item}`).join("\n") }
+        : null;
+
+    case "image": {
+      const image = block.url ? syntax.image(block.url, block.alt ?? "") : null;
+      return image ? { text: image } : null;
+    }
+
+    case "table":
+      return block.columns?.length ? { text: syntax.table(block.columns, block.rows ?? []) } : null;
+
+    case "callout":
+      return block.text ? { text: syntax.quote(block.text) } : null;
+
+    case "stat_block": {
+      const stat = [syntax.bold(block.value ?? ""), block.label].filter(Boolean).join(" ");
+      return {
+        text: `${syntax.bullet} ${block.sublabel ? `${stat} – ${block.sublabel}` : stat}`,
+        listKind: block.kind,
+      };
+    }
+
+    case "timeline_step":
+      return {
+        text: `${block.step ?? 1}. ${labelled(syntax, block.text ?? "", block.description)}`,
+        listKind: block.kind,
+      };
+
+    case "icon_card":
+      return {
+        text: `${syntax.bullet} ${labelled(syntax, block.text ?? "", block.description)}`,
+        listKind: block.kind,
+      };
+
+    case "numbered_card":
+      return {
+        text: `${block.number ?? 1}. ${labelled(syntax, block.text ?? "", block.description)}`,
+        listKind: block.kind,
+      };
+
+    case "chart": {
+      const series = block.series ?? [];
+      const categories = block.categories ?? [];
+      const table = syntax.table(
+        [block.xAxisLabel ?? "", ...series.map((s) => s.name)],
+        categories.map((category, i) => [
+          category,
+          ...series.map((s) => (s.values[i] === undefined ? "" : String(s.values[i]))),
+        ])
+      );
+      return { text: block.text ? `${syntax.bold(block.text)}\n\n${table}` : table };
+    }
+
+    default:
+      return null;
+  }
+}
+
+function renderSlide(slide: Slide, syntax: OutlineSyntax): string {
+  let headingLevel = slide.type === "cover" ? 1 : 2;
+  const chunks: OutlineChunk[] = [];
+
+  for (const block of slide.blocks) {
+    const chunk = renderBlock(block, headingLevel, syntax);
+    if (!chunk) continue;
+    // Later titles on the same slide are subheadings
+    if (block.kind === "title") headingLevel = 3;
+    chunks.push(chunk);
+  }
+
+  if (slide.notes?.trim()) {
+    chunks.push({ text: syntax.notes(slide.notes.trim()) });
+  }
+
+  return chunks
+    .map((chunk, i) => {
+      const previous = chunks[i - 1];
+      const sameList = previous && chunk.listKind && previous.listKind === chunk.listKind;
+      return i === 0 ? chunk.text : `${sameList ? "\n" : "\n\n"}${chunk.text}`;
+    })
+    .join("");
+}
+
+function renderDeck(deck: Deck, syntax: OutlineSyntax): Buffer {
+  const outline = deck.slides
+    .map((slide) => renderSlide(slide, syntax))
+    .filter((section) => section.length > 0)
+    .join(syntax.slideSeparator);
+
+  return Buffer.from(`${outline}\n`, "utf-8");
+}
+
+/**
+ * Render a slide to Markdown: the cover title as `#`, other slide titles
+ * as `##`, and speaker notes as a trailing HTML comment
+ */
+export function renderSlideToMarkdown(slide: Slide): string {
+  return renderSlide(slide, MARKDOWN);
+}
+
+/**
+ * Render a deck to a Markdown outline, one section per slide
+ *
+ * @param deck - The deck data to render
+ * @returns Markdown document as a Buffer
+ */
+export function renderDeckToMarkdown(deck: Deck): Buffer {
+  return renderDeck(deck, MARKDOWN);
+}
+
+/**
+ * Render a deck to a plain-text outline: the Markdown layout without its
+ * syntax, with slides separated by a dashed line and notes indented
+ *
+ * @param deck - The deck data to render
+ * @returns UTF-8 text document as a Buffer
+ */
+export function renderDeckToText(deck: Deck): Buffer {
+  return renderDeck(deck, PLAIN_TEXT);
+}
@@ -0,0 +1,263 @@
+/**
+ * PDF Accessibility
+ *
+ * Chromium tags each slide PDF (structure tree with headings, lists,
+ * tables and figures with alt text). pdf-lib's copyPages drops that tree,
+ * so slides are merged here with their structure kept: each slide becomes a
+ * Sect under one Document element, in slide order. Title, language and a
+ * bookmark per slide are added on top.
+ */
+
+import {
+  PDFArray,
+  PDFDict,
+  PDFDocument,
+  PDFHexString,
+  PDFName,
+  PDFNumber,
+  PDFObjectCopier,
+  PDFPage,
+  PDFPageLeaf,
+  PDFRef,
+  type PDFObject,
+} from "pdf-lib";
+import type { Slide } from "@/lib/schemas/slide";
+
+/**
+ * Document metadata for the exported PDF
+ */
+export interface PdfDocumentMeta {
+  title: string;
+  /** BCP 47 language tag, e.g. "no" or "en" */
+  language: string;
+}
+
+/**
+ * A bookmark in the document outline
+ */
+export interface PdfBookmark {
+  title: string;
+  pageIndex: number;
+}
+
+const STRUCT_PARENTS = PDFName.of("StructParents");
+const STRUCT_PARENT = PDFName.of("StructParent");
+const STRUCT_TREE_ROOT = PDFName.of("StructTreeRoot");
+const K = PDFName.of("K");
+const P = PDFName.of("P");
+const S = PDFName.of("S");
+
+/**
+ * Bookmark title for a slide: its first title block, or its position
+ */
+export function getSlideTitle(slide: Slide, index: number): string {
+  const title = slide.blocks.find((block) => block.kind === "title")?.text?.trim();
+  return title || `Slide ${index + 1}`;
+}
+
+/**
+ * Flatten a number tree (ParentTree) to key/value pairs
+ */
+function readNumberTree(tree: PDFDict | undefined): [number, PDFObject][] {
+  if (!tree) return [];
+
+  const entries: [number, PDFObject][] = [];
+  const nums = tree.lookupMaybe(PDFName.of("Nums"), PDFArray);
+  for (let i = 0; nums && i + 1 < nums.size(); i += 2) {
+    const key = nums.lookup(i, PDFNumber).asNumber();
+    entries.push([key, nums.get(i + 1)]);
+  }
+
+  const kids = tree.lookupMaybe(PDFName.of("Kids"), PDFArray);
+  for (let i = 0; kids && i < kids.size(); i++) {
+    entries.push(...readNumberTree(kids.lookup(i, PDFDict)));
+  }
+
+  return entries;
+}
+
+/**
+ * Top-level structure elements of a slide; a Document wrapper is unwrapped
+ * so it does not end up nested inside the merged Document
+ */
+function topLevelElements(root: PDFDict): PDFRef[] {
+  const toRefs = (value: PDFObject | undefined): PDFRef[] =>
+    value instanceof PDFArray
+      ? value.asArray().filter((item): item is PDFRef => item instanceof PDFRef)
+      : value instanceof PDFRef
+        ? [value]
+        : [];
+
+  const elements = toRefs(root.get(K));
+  if (elements.length === 1) {
+    const only = root.context.lookup(elements[0], PDFDict);
+    if (only.get(S) === PDFName.of("Document")) {
+      return toRefs(only.get(K));
+    }
+  }
+  return elements;
+}
+
+/**
+ * Merge single-slide PDFs into one document, keeping Chromium's tags
+ *
+ * @param pdfBuffers - One PDF per slide, in slide order
+ * @param slideTitles - Section titles, one per slide
+ * @returns The merged document (tagged when the slide PDFs are)
+ */
+export async function mergeTaggedPdfs(
+  pdfBuffers: Buffer[],
+  slideTitles: string[] = []
+): Promise<PDFDocument> {
+  const merged = await PDFDocument.create();
+  const { context } = merged;
+
+  const rootRef = context.nextRef();
+  const documentRef = context.nextRef();
+  const sections: PDFRef[] = [];
+  const parentTree: PDFObject[] = [];
+  const roleMap = context.obj({});
+  let nextKey = 0;
+
+  for (const [slideIndex, buffer] of pdfBuffers.entries()) {
+    const source = await PDFDocument.load(buffer);
+    // One copier per slide, so pages referenced from the structure tree
+    // map to the pages copied below instead of being copied twice
+    const copier = PDFObjectCopier.for(source.context, context);
+    const structRoot = source.catalog.lookupMaybe(STRUCT_TREE_ROOT, PDFDict);
+    const keyMap = new Map<number, number>();
+    const renumber = (dict: PDFDict, name: PDFName) => {
+      const key = dict.lookupMaybe(name, PDFNumber)?.asNumber();
+      if (key === undefined) return;
+      if (!keyMap.has(key)) keyMap.set(key, nextKey++);
+      dict.set(name, PDFNumber.of(keyMap.get(key)!));
+    };
+
+    for (const sourcePage of source.getPages()) {
+      const pageRef = copier.copy(sourcePage.ref) as PDFRef;
+      const leaf = context.lookup(pageRef) as PDFPageLeaf;
+      merged.addPage(PDFPage.of(leaf, pageRef, merged));
+
+      // Struct parent keys must be unique across the merged document
+      renumber(leaf, STRUCT_PARENTS);
+      const annots = leaf.lookupMaybe(PDFName.of("Annots"), PDFArray);
+      for (let i = 0; annots && i < annots.size(); i++) {
+        renumber(annots.lookup(i, PDFDict), STRUCT_PARENT);
+      }
+    }
+
+    if (!structRoot) continue;
+
+    // Detach top-level elements from the slide's root so it is not copied along
+    const elements = topLevelElements(structRoot);
+    elements.forEach((ref) => source.context.lookup(ref, PDFDict).delete(P));
+
+    const sectionRef = context.nextRef();
+    const kids = elements.map((ref) => copier.copy(ref) as PDFRef);
+    kids.forEach((ref) => context.lookup(ref, PDFDict).set(P, sectionRef));
+    context.assign(
+      sectionRef,
+      context.obj({
+        Type: "StructElem",
+        S: "Sect",
+        P: documentRef,
+        K: kids,
+        T: PDFHexString.fromText(slideTitles[slideIndex] ?? `Slide ${slideIndex + 1}`),
+      })
+    );
+    sections.push(sectionRef);
+
+    for (const [key, value] of readNumberTree(
+      structRoot.lookupMaybe(PDFName.of("ParentTree"), PDFDict)
+    )) {
+      const newKey = keyMap.get(key);
+      if (newKey !== undefined) {
+        parentTree.push(PDFNumber.of(newKey), copier.copy(value));
+      }
+    }
+
+    const sourceRoleMap = structRoot.lookupMaybe(PDFName.of("RoleMap"), PDFDict);
+    sourceRoleMap?.entries().forEach(([name, value]) => roleMap.set(name, value));
+  }
+
+  if (sections.length === 0) {
+    return merged;
+  }
+
+  context.assign(
+    documentRef,
+    context.obj({ Type: "StructElem", S: "Document", P: rootRef, K: sections })
+  );
+  context.assign(
+    rootRef,
+    context.obj({
+      Type: "StructTreeRoot",
+      K: documentRef,
+      ParentTree: context.obj({ Nums: parentTree }),
+      ParentTreeNextKey: nextKey,
+      ...(roleMap.keys().length > 0 ? { RoleMap: roleMap } : {}),
+    })
+  );
+  merged.catalog.set(STRUCT_TREE_ROOT, rootRef);
+  merged.catalog.set(PDFName.of("MarkInfo"), context.obj({ Marked: true }));
+
+  return merged;
+}
+
+/**
+ * Add a flat document outline with one bookmark per entry
+ */
+function addOutline(doc: PDFDocument, bookmarks: PdfBookmark[]): void {
+  if (bookmarks.length === 0) return;
+
+  const { context } = doc;
+  const pages = doc.getPages();
+  const outlineRef = context.nextRef();
+  const itemRefs = bookmarks.map(() => context.nextRef());
+
+  bookmarks.forEach((bookmark, i) => {
+    const item = context.obj({
+      Title: PDFHexString.fromText(bookmark.title),
+      Parent: outlineRef,
+      Dest: [pages[bookmark.pageIndex].ref, "Fit"],
+    });
+    if (i > 0) item.set(PDFName.of("Prev"), itemRefs[i - 1]);
+    if (i < bookmarks.length - 1) item.set(PDFName.of("Next"), itemRefs[i + 1]);
+    context.assign(itemRefs[i], item);
+  });
+
+  context.assign(
+    outlineRef,
+    context.obj({
+      Type: "Outlines",
+      First: itemRefs[0],
+      Last: itemRefs[itemRefs.length - 1],
+      Count: bookmarks.length,
+    })
+  );
+  doc.catalog.set(PDFName.of("Outlines"), outlineRef);
+  doc.catalog.set(PDFName.of("PageMode"), PDFName.of("UseOutlines"));
+}
+
+/**
+ * Set title, language and bookmarks, and make assistive technology follow
+ * the structure tree for reading and tab order
+ *
+ * @param doc - The document to update in place
+ * @param meta - Title and language from the deck
+ * @param bookmarks - Outline entries, in order
+ */
+export function applyPdfAccessibility(
+  doc: PDFDocument,
+  meta: PdfDocumentMeta,
+  bookmarks: PdfBookmark[]
+): void {
+  doc.setTitle(meta.title, { showInWindowTitleBar: true });
+  doc.setLanguage(meta.language);
+  doc.setCreator("ARTI Slides");
+
+  // Tab order follows the structure tree (PDF/UA)
+  doc.getPages().forEach((page) => page.node.set(PDFName.of("Tabs"), PDFName.of("S")));
+
+  addOutline(doc, bookmarks);
+}
@@ -0,0 +1,219 @@
+/**
+ * PDF Handouts
+ *
+ * Lays out rendered 16:9 slide pages on A4 handout pages with pdf-lib.
+ * Slides are embedded as vector pages, so text stays sharp and selectable.
+ */
+
+import { PDFDocument, StandardFonts, rgb, type PDFEmbeddedPage, type PDFPage } from "pdf-lib";
+import { applyPdfAccessibility, type PdfDocumentMeta } from "./pdf-accessibility";
+
+/**
+ * Handout layouts for printing
+ * - two_per_page: two slides stacked
+ * - three_with_lines: three slides with ruled note lines beside them
+ * - six_per_page: two columns of three slides
+ * - one_with_lines: one slide with ruled writing space below
+ */
+export const HANDOUT_LAYOUTS = [
+  "two_per_page",
+  "three_with_lines",
+  "six_per_page",
+  "one_with_lines",
+] as const;
+export type HandoutLayout = (typeof HANDOUT_LAYOUTS)[number];
+
+/**
+ * A4 portrait in PDF points
+ */
+export const HANDOUT_PAGE = {
+  width: 595.28,
+  height: 841.89,
+  margin: 36,
+} as const;
+
+const SLIDE_ASPECT = 9 / 16;
+const LINE_SPACING = 24;
+const FOOTER_HEIGHT = 20;
+
+const BORDER_COLOR = rgb(0.8, 0.8, 0.8);
+const LINE_COLOR = rgb(0.75, 0.75, 0.75);
+const FOOTER_COLOR = rgb(0.45, 0.45, 0.45);
+
+/**
+ * Where a slide goes on the page, and the ruled area for notes, if any
+ * (PDF coordinates: origin bottom left)
+ */
+interface HandoutSlot {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  lines?: { x: number; y: number; width: number; height: number };
+}
+
+const CONTENT = {
+  x: HANDOUT_PAGE.margin,
+  bottom: HANDOUT_PAGE.margin + FOOTER_HEIGHT,
+  width: HANDOUT_PAGE.width - HANDOUT_PAGE.margin * 2,
+  height: HANDOUT_PAGE.height - HANDOUT_PAGE.margin * 2 - FOOTER_HEIGHT,
+};
+
+/**
+ * Split the content area into equal rows, top to bottom
+ */
+function rows(count: number): { y: number; height: number }[] {
+  const height = CONTENT.height / count;
+  return Array.from({ length: count }, (_, i) => ({
+    y: CONTENT.bottom + CONTENT.height - height * (i + 1),
+    height,
+  }));
+}
+
+/**
+ * Slide slots per page for a layout, in reading order
+ */
+export function getHandoutSlots(layout: HandoutLayout): HandoutSlot[] {
+  switch (layout) {
+    case "two_per_page": {
+      const width = CONTENT.width * 0.9;
+      const height = width * SLIDE_ASPECT;
+      return rows(2).map((row) => ({
+        x: CONTENT.x + (CONTENT.width - width) / 2,
+        y: row.y + (row.height - height) / 2,
+        width,
+        height,
+      }));
+    }
+
+    case "three_with_lines": {
+      const width = CONTENT.width * 0.48;
+      const height = width * SLIDE_ASPECT;
+      const gap = 18;
+      return rows(3).map((row) => {
+        const y = row.y + (row.height - height) / 2;
+        return {
+          x: CONTENT.x,
+          y,
+          width,
+          height,
+          lines: { x: CONTENT.x + width + gap, y, width: CONTENT.width - width - gap, height },
+        };
+      });
+    }
+
+    case "six_per_page": {
+      const gap = 18;
+      const width = (CONTENT.width - gap) / 2;
+      const height = width * SLIDE_ASPECT;
+      return rows(3).flatMap((row) =>
+        [0, 1].map((column) => ({
+          x: CONTENT.x + column * (width + gap),
+          y: row.y + (row.height - height) / 2,
+          width,
+          height,
+        }))
+      );
+    }
+
+    case "one_with_lines": {
+      const width = CONTENT.width;
+      const height = width * SLIDE_ASPECT;
+      const y = CONTENT.bottom + CONTENT.height - height;
+      const gap = 24;
+      return [
+        {
+          x: CONTENT.x,
+          y,
+          width,
+          height,
+          lines: { x: CONTENT.x, y: CONTENT.bottom, width, height: y - gap - CONTENT.bottom },
+        },
+      ];
+    }
+  }
+}
+
+/**
+ * Draw ruled lines from the top of an area down, one per LINE_SPACING
+ */
+function drawNoteLines(page: PDFPage, area: NonNullable<HandoutSlot["lines"]>): void {
+  const top = area.y + area.height;
+  for (let y = top - LINE_SPACING; y >= area.y; y -= LINE_SPACING) {
+    page.drawLine({
+      start: { x: area.x, y },
+      end: { x: area.x + area.width, y },
+      thickness: 0.5,
+      color: LINE_COLOR,
+    });
+  }
+}
+
+function drawSlide(page: PDFPage, slide: PDFEmbeddedPage, slot: HandoutSlot): void {
+  page.drawPage(slide, { x: slot.x, y: slot.y, width: slot.width, height: slot.height });
+  page.drawRectangle({
+    x: slot.x,
+    y: slot.y,
+    width: slot.width,
+    height: slot.height,
+    borderColor: BORDER_COLOR,
+    borderWidth: 0.5,
+  });
+}
+
+/**
+ * Lay out a slide PDF (one slide per page) as an A4 handout
+ *
+ * @param slidesPdf - PDF with one 16:9 page per slide
+ * @param layout - Handout layout
+ * @param accessibility - Optional title, language and slide titles; each
+ *   slide gets a bookmark to the page it is printed on
+ * @returns Handout PDF as a Buffer
+ */
+export async function composeHandout(
+  slidesPdf: Buffer,
+  layout: HandoutLayout,
+  accessibility?: { meta: PdfDocumentMeta; slideTitles: string[] }
+): Promise<Buffer> {
+  const handout = await PDFDocument.create();
+  const source = await PDFDocument.load(slidesPdf);
+  const slides = await handout.embedPdf(source, source.getPageIndices());
+  const font = await handout.embedFont(StandardFonts.Helvetica);
+
+  const slots = getHandoutSlots(layout);
+  const pageCount = Math.ceil(slides.length / slots.length);
+
+  for (let p = 0; p < pageCount; p++) {
+    const page = handout.addPage([HANDOUT_PAGE.width, HANDOUT_PAGE.height]);
+
+    slots.forEach((slot, i) => {
+      const slide = slides[p * slots.length + i];
+      if (!slide) return;
+      drawSlide(page, slide, slot);
+      if (slot.lines) drawNoteLines(page, slot.lines);
+    });
+
+    const footer = `${p + 1} / ${pageCount}`;
+    const fontSize = 9;
+    page.drawText(footer, {
+      x: (HANDOUT_PAGE.width - font.widthOfTextAtSize(footer, fontSize)) / 2,
+      y: HANDOUT_PAGE.margin,
+      size: fontSize,
+      font,
+      color: FOOTER_COLOR,
+    });
+  }
+
+  if (accessibility) {
+    applyPdfAccessibility(
+      handout,
+      accessibility.meta,
+      accessibility.slideTitles.map((title, i) => ({
+        title,
+        pageIndex: Math.floor(i / slots.length),
+      }))
+    );
+  }
+
+  return Buffer.from(await handout.save());
+}
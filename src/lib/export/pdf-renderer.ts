@@ -2,15 +2,45 @@
  * PDF Renderer
  *
  * Uses Playwright to render slides as PDF pages.
- * Each slide becomes one page in the final PDF.
+ * Slides render in parallel on a bounded pool of browser pages, each to its
+ * own PDF, which is cached by slide hash and merged with pdf-lib. Each slide
+ * becomes one tagged page in the final PDF, or is laid out on A4 handout
+ * pages when a handout layout is requested.
  */
 
 import { chromium, type Browser, type BrowserContext } from "playwright";
-import { PDFDocument } from "pdf-lib";
 import type { Slide } from "@/lib/schemas/slide";
 import type { Deck } from "@/lib/schemas/deck";
 import type { ThemeId, BrandKitOverrides } from "@/lib/themes";
 import { renderSlideToHtml, PDF_DIMENSIONS } from "./slide-html";
+import { composeHandout, type HandoutLayout } from "./pdf-handout";
+import {
+  applyPdfAccessibility,
+  getSlideTitle,
+  mergeTaggedPdfs,
+  type PdfDocumentMeta,
+} from "./pdf-accessibility";
+import { mapWithConcurrency } from "./render-pool";
+import { getDefaultSlidePdfCache, hashSlideHtml, type SlidePdfCache } from "./slide-pdf-cache";
+
+/**
+ * Options for multi-slide PDF rendering
+ */
+export interface PdfRenderOptions {
+  /** Document title and language (default: "Presentation", Norwegian); the
+   *  language also sets hyphenation, quotation marks and fallback fonts */
+  meta?: PdfDocumentMeta;
+  /** Handout layout; omitted for one 16:9 page per slide */
+  handout?: HandoutLayout;
+  /** Browser pages rendering at once (default: PDF_RENDER_CONCURRENCY or 4) */
+  concurrency?: number;
+  /** Rendered slide cache; null disables caching (default: shared in-memory cache) */
+  cache?: SlidePdfCache | null;
+}
+
+function getDefaultConcurrency(): number {
+  return parseInt(process.env.PDF_RENDER_CONCURRENCY ?? "4", 10);
+}
 
 /**
  * Browser instance singleton for reuse
@@ -19,8 +49,9 @@ let browserInstance: Browser | null = null;
 
 /**
  * Get or create browser instance
+ * Shared with the image renderer so one Chromium serves every export.
  */
-async function getBrowser(): Promise<Browser> {
+export async function getBrowser(): Promise<Browser> {
   if (browserInstance && browserInstance.isConnected()) {
     return browserInstance;
   }
@@ -64,12 +95,14 @@ async function renderSlideToPdf(context: BrowserContext, html: string): Promise<
     // Wait for fonts to load
     await page.evaluate(() => document.fonts.ready);
 
-    // Generate PDF with exact dimensions
+    // Generate a tagged PDF with exact dimensions; tags carry the reading
+    // order and image alt text from the slide markup
     const pdfBuffer = await page.pdf({
       width: `${PDF_DIMENSIONS.width}px`,
       height: `${PDF_DIMENSIONS.height}px`,
       printBackground: true,
       margin: { top: 0, right: 0, bottom: 0, left: 0 },
+      tagged: true,
     });
 
     return Buffer.from(pdfBuffer);
@@ -78,22 +111,6 @@ async function renderSlideToPdf(context: BrowserContext, html: string): Promise<
   }
 }
 
-/**
- * Merge multiple single-page PDFs into one document
- */
-async function mergePdfs(pdfBuffers: Buffer[]): Promise<Buffer> {
-  const mergedPdf = await PDFDocument.create();
-
-  for (const buffer of pdfBuffers) {
-    const pdf = await PDFDocument.load(buffer);
-    const pages = await mergedPdf.copyPages(pdf, pdf.getPageIndices());
-    pages.forEach((page) => mergedPdf.addPage(page));
-  }
-
-  const mergedBuffer = await mergedPdf.save();
-  return Buffer.from(mergedBuffer);
-}
-
 /**
  * Render a deck to PDF
  *
@@ -107,73 +124,93 @@ export async function renderDeckToPdf(
   themeId: ThemeId,
   brandKit?: BrandKitOverrides
 ): Promise<Buffer> {
-  const browser = await getBrowser();
-  const context = await browser.newContext();
-
-  try {
-    const pdfBuffers: Buffer[] = [];
-
-    // Render each slide to PDF
-    for (let i = 0; i < deck.slides.length; i++) {
-      const slide = deck.slides[i];
-      console.log(`Rendering slide ${i + 1}/${deck.slides.length}...`);
-
-      // Generate HTML for this slide
-      const html = renderSlideToHtml(slide, themeId, brandKit);
-
-      // Render to PDF
-      const pdfBuffer = await renderSlideToPdf(context, html);
-      pdfBuffers.push(pdfBuffer);
-    }
-
-    // Merge all PDFs into one
-    if (pdfBuffers.length === 1) {
-      return pdfBuffers[0];
-    }
-
-    console.log("Merging PDF pages...");
-    return await mergePdfs(pdfBuffers);
-  } finally {
-    await context.close();
-  }
+  return renderSlidesToPdf(deck.slides, themeId, brandKit, {
+    meta: { title: deck.deck.title, language: deck.deck.language },
+  });
 }
 
 /**
  * Render slides array to PDF (when you already have parsed slides)
  *
+ * The PDF is tagged, with the deck title and language as metadata and a
+ * bookmark per slide.
+ *
  * @param slides - Array of slides to render
  * @param themeId - The theme to apply
  * @param brandKit - Optional brand kit color overrides
+ * @param options - Document metadata, handout layout, parallelism and cache
  * @returns PDF as a Buffer
  */
 export async function renderSlidesToPdf(
   slides: Slide[],
   themeId: ThemeId,
-  brandKit?: BrandKitOverrides
+  brandKit?: BrandKitOverrides,
+  options: PdfRenderOptions = {}
 ): Promise<Buffer> {
-  const browser = await getBrowser();
-  const context = await browser.newContext();
-
-  try {
-    const pdfBuffers: Buffer[] = [];
-
-    for (let i = 0; i < slides.length; i++) {
-      const slide = slides[i];
-      console.log(`Rendering slide ${i + 1}/${slides.length}...`);
-
-      const html = renderSlideToHtml(slide, themeId, brandKit);
-      const pdfBuffer = await renderSlideToPdf(context, html);
-      pdfBuffers.push(pdfBuffer);
+  const meta = options.meta ?? { title: "Presentation", language: "no" };
+  const cache = options.cache === undefined ? getDefaultSlidePdfCache() : options.cache;
+  const slideTitles = slides.map(getSlideTitle);
+
+  const htmls = slides.map((slide) => renderSlideToHtml(slide, themeId, brandKit, meta.language));
+  const hashes = htmls.map(hashSlideHtml);
+
+  // Look up every distinct slide; identical slides render once
+  const rendered = new Map<string, Buffer>();
+  const pending = new Set<string>();
+  const missing: number[] = [];
+  for (const [i, hash] of hashes.entries()) {
+    if (rendered.has(hash) || pending.has(hash)) continue;
+    const cached = await cache?.get(hash);
+    if (cached) {
+      rendered.set(hash, cached);
+    } else {
+      pending.add(hash);
+      missing.push(i);
     }
+  }
 
-    if (pdfBuffers.length === 1) {
-      return pdfBuffers[0];
+  console.log(
+    `Rendering ${missing.length}/${slides.length} slides (${slides.length - missing.length} cached)...`
+  );
+
+  if (missing.length > 0) {
+    const browser = await getBrowser();
+    const context = await browser.newContext();
+
+    try {
+      await mapWithConcurrency(
+        missing,
+        options.concurrency ?? getDefaultConcurrency(),
+        async (i) => {
+          const pdf = await renderSlideToPdf(context, htmls[i]);
+          rendered.set(hashes[i], pdf);
+          await cache?.set(hashes[i], pdf);
+        }
+      );
+    } finally {
+      await context.close();
     }
+  }
 
-    return await mergePdfs(pdfBuffers);
-  } finally {
-    await context.close();
+  const pdfBuffers = hashes.map((hash) => rendered.get(hash)!);
+
+  if (options.handout) {
+    console.log(`Laying out ${options.handout} handout...`);
+    const slidesPdf = await (await mergeTaggedPdfs(pdfBuffers)).save();
+    return composeHandout(Buffer.from(slidesPdf), options.handout, {
+      meta,
+      slideTitles,
+    });
   }
+
+  // Merge slides, keeping the tags, then add metadata and bookmarks
+  const pdf = await mergeTaggedPdfs(pdfBuffers, slideTitles);
+  applyPdfAccessibility(
+    pdf,
+    meta,
+    slideTitles.map((title, pageIndex) => ({ title, pageIndex }))
+  );
+  return Buffer.from(await pdf.save());
 }
 
 /**
@@ -182,18 +219,20 @@ export async function renderSlidesToPdf(
  * @param slide - The slide to render
  * @param themeId - The theme to apply
  * @param brandKit - Optional brand kit color overrides
+ * @param language - Deck language (BCP 47), default Norwegian
  * @returns PDF as a Buffer
  */
 export async function renderSingleSlideToPdf(
   slide: Slide,
   themeId: ThemeId,
-  brandKit?: BrandKitOverrides
+  brandKit?: BrandKitOverrides,
+  language?: string
 ): Promise<Buffer> {
   const browser = await getBrowser();
   const context = await browser.newContext();
 
   try {
-    const html = renderSlideToHtml(slide, themeId, brandKit);
+    const html = renderSlideToHtml(slide, themeId, brandKit, language);
     return await renderSlideToPdf(context, html);
   } finally {
     await context.close();
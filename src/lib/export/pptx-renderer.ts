@@ -11,6 +11,8 @@ import type { Block } from "@/lib/schemas/block";
 import type { Deck } from "@/lib/schemas/deck";
 import type { ThemeId, BrandKitOverrides } from "@/lib/themes";
 import { getTheme, applyBrandKit } from "@/lib/themes";
+import { getChartData } from "@/lib/charts";
+import { resolveAgendaVariant, resolveBulletsVariant } from "@/lib/ai/layout";
 import {
   themeToPptxStyles,
   PPTX_DIMENSIONS,
@@ -19,6 +21,12 @@ import {
   type PptxThemeStyles,
 } from "./pptx-theme-mapper";
 
+/**
+ * Shape name for number, check and icon badges, so the PPTX importer can skip
+ * them (see pptx-parser.ts)
+ */
+export const BADGE_SHAPE_NAME = "badge";
+
 /**
  * Extract text content from a block
  */
@@ -46,23 +54,6 @@ function getBlockTable(block: Block): { columns: string[]; rows: string[][] } {
   };
 }
 
-/**
- * Extract callout data from a callout block
- */
-function getCalloutData(block: Block): {
-  text: string;
-  style?: "info" | "warning" | "success" | "quote";
-} {
-  const content = block as {
-    text?: string;
-    style?: "info" | "warning" | "success" | "quote";
-  };
-  return {
-    text: content.text ?? "",
-    style: content.style,
-  };
-}
-
 /**
  * Extract image data from an image block
  */
@@ -212,6 +203,7 @@ async function addImage(
     w: number;
     h: number;
     sizing?: { type: "cover" | "contain" | "crop"; w: number; h: number };
+    rounding?: boolean;
   }
 ): Promise<boolean> {
   const base64Data = await downloadImageAsBase64(imageUrl);
@@ -226,30 +218,12 @@ async function addImage(
     w: options.w,
     h: options.h,
     sizing: options.sizing,
+    rounding: options.rounding,
   });
 
   return true;
 }
 
-/**
- * Get callout border color based on style
- */
-function getCalloutColor(style: string | undefined, styles: PptxThemeStyles): string {
-  switch (style) {
-    case "warning":
-      return styles.colors.warning;
-    case "success":
-      return styles.colors.success;
-    case "error":
-      return styles.colors.error;
-    case "quote":
-      return styles.colors.primary;
-    case "info":
-    default:
-      return styles.colors.info;
-  }
-}
-
 /**
  * Add title to slide
  */
@@ -328,9 +302,10 @@ function addTable(
   pptxSlide: PptxGenJS.Slide,
   data: { columns: string[]; rows: string[][] },
   styles: PptxThemeStyles,
-  options: { x: number; y: number; w: number }
+  options: { x: number; y: number; w: number; fontSize?: number; margin?: number }
 ): void {
   const tableData: PptxGenJS.TableRow[] = [];
+  const fontSize = options.fontSize ?? styles.body.fontSize;
 
   // Header row
   tableData.push(
@@ -339,7 +314,7 @@ function addTable(
       options: {
         bold: true,
         fill: { color: styles.colors.backgroundSubtle },
-        fontSize: styles.body.fontSize,
+        fontSize,
         fontFace: styles.body.fontFace,
         color: styles.body.color,
       },
@@ -352,7 +327,7 @@ function addTable(
       row.map((cell) => ({
         text: cell,
         options: {
-          fontSize: styles.body.fontSize,
+          fontSize,
           fontFace: styles.body.fontFace,
           color: styles.body.color,
         },
@@ -366,28 +341,95 @@ function addTable(
     w: options.w,
     colW: Array(data.columns.length).fill(options.w / data.columns.length),
     border: { type: "solid", color: styles.colors.border, pt: 0.5 },
+    margin: options.margin,
   });
 }
 
+/**
+ * Add a native PowerPoint chart to slide
+ * Uses the same data normalisation and series colours as the SVG renderer.
+ */
+function addChart(
+  pptxSlide: PptxGenJS.Slide,
+  block: Block,
+  styles: PptxThemeStyles,
+  options: { x: number; y: number; w: number; h: number }
+): void {
+  const data = getChartData(block);
+  if (data.categories.length === 0 || data.series.length === 0) return;
+
+  const isPie = data.chartType === "pie";
+  const type = isPie ? "pie" : data.chartType === "line" ? "line" : "bar";
+  // Pie charts only show the first series
+  const series = isPie ? data.series.slice(0, 1) : data.series;
+
+  const axisTextOptions = {
+    fontFace: styles.body.fontFace,
+    fontSize: styles.small.fontSize,
+    color: styles.colors.foregroundMuted,
+  };
+
+  pptxSlide.addChart(
+    type,
+    series.map((s) => ({ name: s.name, labels: data.categories, values: s.values })),
+    {
+      ...options,
+      barDir: "col",
+      barGrouping: data.chartType === "stacked_bar" ? "stacked" : "clustered",
+      chartColors: styles.chartColors,
+      showTitle: Boolean(block.text),
+      title: block.text,
+      titleFontFace: styles.heading.fontFace,
+      titleFontSize: styles.body.fontSize,
+      titleColor: styles.colors.foreground,
+      showLegend: isPie || series.length > 1,
+      legendPos: "b",
+      legendFontFace: axisTextOptions.fontFace,
+      legendFontSize: axisTextOptions.fontSize,
+      legendColor: axisTextOptions.color,
+      showPercent: isPie,
+      showValue: false,
+      dataLabelColor: styles.colors.primaryForeground,
+      catAxisLabelFontFace: axisTextOptions.fontFace,
+      catAxisLabelFontSize: axisTextOptions.fontSize,
+      catAxisLabelColor: axisTextOptions.color,
+      valAxisLabelFontFace: axisTextOptions.fontFace,
+      valAxisLabelFontSize: axisTextOptions.fontSize,
+      valAxisLabelColor: axisTextOptions.color,
+      valGridLine: { color: styles.colors.border, size: 0.5 },
+      catGridLine: { style: "none" },
+      showCatAxisTitle: !isPie && Boolean(block.xAxisLabel),
+      catAxisTitle: block.xAxisLabel,
+      showValAxisTitle: !isPie && Boolean(block.yAxisLabel),
+      valAxisTitle: block.yAxisLabel,
+      catAxisTitleColor: axisTextOptions.color,
+      valAxisTitleColor: axisTextOptions.color,
+      lineSize: 3,
+      lineDataSymbolSize: 8,
+    }
+  );
+}
+
 /**
  * Add a stat block to slide (Phase 7)
- * Renders a large statistic with label and optional sublabel
+ * Renders a large statistic with label and optional sublabel.
+ * `scale` shrinks it the way the web layout does for 3+ stats.
  */
 function addStatBlock(
   pptxSlide: PptxGenJS.Slide,
   data: { value: string; label: string; sublabel?: string },
   styles: PptxThemeStyles,
-  options: { x: number; y: number; w: number; h: number }
+  options: { x: number; y: number; w: number; h: number; scale?: number }
 ): void {
-  const centerX = options.x + options.w / 2;
+  const scale = options.scale ?? 1;
 
   // Large value
   pptxSlide.addText(data.value, {
     x: options.x,
     y: options.y,
     w: options.w,
-    h: 1.2,
-    fontSize: 48,
+    h: 1.2 * scale,
+    fontSize: 48 * scale,
     fontFace: styles.title.fontFace,
     color: styles.colors.primary,
     bold: true,
@@ -398,7 +440,7 @@ function addStatBlock(
   // Label
   pptxSlide.addText(data.label, {
     x: options.x,
-    y: options.y + 1.2,
+    y: options.y + 1.2 * scale,
     w: options.w,
     h: 0.5,
     fontSize: styles.heading.fontSize,
@@ -413,7 +455,7 @@ function addStatBlock(
   if (data.sublabel) {
     pptxSlide.addText(data.sublabel, {
       x: options.x,
-      y: options.y + 1.7,
+      y: options.y + 1.2 * scale + 0.5,
       w: options.w,
       h: 0.4,
       fontSize: styles.body.fontSize * 0.9,
@@ -434,11 +476,11 @@ function addTimelineStep(
   pptxSlide: PptxGenJS.Slide,
   data: { step: number; title: string; description?: string; status?: string },
   styles: PptxThemeStyles,
-  options: { x: number; y: number; w: number; isLast: boolean }
+  options: { x: number; y: number; w: number; isLast: boolean; compact?: boolean }
 ): number {
   const circleSize = 0.3;
   const lineWidth = 0.03;
-  const stepHeight = data.description ? 1.0 : 0.7;
+  const stepHeight = (data.description ? 1.0 : 0.7) - (options.compact ? 0.2 : 0);
 
   // Get status-based colors
   const getStatusColor = (): string => {
@@ -467,6 +509,7 @@ function addTimelineStep(
   // Draw step number or checkmark inside circle
   if (data.status === "completed") {
     pptxSlide.addText("✓", {
+      objectName: BADGE_SHAPE_NAME,
       x: options.x,
       y: options.y,
       w: circleSize,
@@ -478,6 +521,7 @@ function addTimelineStep(
     });
   } else {
     pptxSlide.addText(String(data.step), {
+      objectName: BADGE_SHAPE_NAME,
       x: options.x,
       y: options.y,
       w: circleSize,
@@ -577,6 +621,7 @@ function addIconCard(
 
   // Icon text placeholder (first letter of icon name)
   pptxSlide.addText(data.icon.charAt(0).toUpperCase(), {
+    objectName: BADGE_SHAPE_NAME,
     x: options.x + 0.2,
     y: options.y + 0.2,
     w: 0.5,
@@ -648,6 +693,7 @@ function addNumberedCard(
 
   // Number text
   pptxSlide.addText(String(data.number), {
+    objectName: BADGE_SHAPE_NAME,
     x: options.x + 0.2,
     y: options.y + 0.2,
     w: 0.45,
@@ -687,13 +733,160 @@ function addNumberedCard(
   }
 }
 
+/**
+ * Add a grid of item cards (bullets, agenda, decisions, next steps)
+ * Each card has a badge (number, check) beside the text, or above it when
+ * stacked, like the card variants of the web layouts.
+ */
+function addItemCardGrid(
+  pptxSlide: PptxGenJS.Slide,
+  items: string[],
+  styles: PptxThemeStyles,
+  options: {
+    y: number;
+    columns: number;
+    badge: (index: number) => string;
+    badgeColor: string;
+    stacked?: boolean;
+  }
+): void {
+  const gap = 0.3;
+  const rows = Math.ceil(items.length / options.columns);
+  const availableHeight = CONTENT_AREA.y + CONTENT_AREA.height - options.y;
+  const cardWidth = (CONTENT_AREA.width - gap * (options.columns - 1)) / options.columns;
+  const cardHeight = Math.min(
+    options.stacked ? 2.2 : 1.3,
+    (availableHeight - gap * (rows - 1)) / rows
+  );
+  const badgeSize = options.stacked ? 0.5 : 0.4;
+
+  items.forEach((item, index) => {
+    const x = CONTENT_AREA.x + (index % options.columns) * (cardWidth + gap);
+    const y = options.y + Math.floor(index / options.columns) * (cardHeight + gap);
+
+    // Card background
+    pptxSlide.addShape("roundRect", {
+      x,
+      y,
+      w: cardWidth,
+      h: cardHeight,
+      fill: { color: styles.colors.backgroundSubtle },
+      line: { color: styles.colors.border, width: 1 },
+      rectRadius: 0.1,
+    });
+
+    // Badge: rounded square above the text, circle beside it
+    pptxSlide.addShape(options.stacked ? "roundRect" : "ellipse", {
+      x: x + 0.25,
+      y: y + 0.25,
+      w: badgeSize,
+      h: badgeSize,
+      fill: { color: options.badgeColor },
+      rectRadius: 0.1,
+    });
+    pptxSlide.addText(options.badge(index), {
+      objectName: BADGE_SHAPE_NAME,
+      x: x + 0.25,
+      y: y + 0.25,
+      w: badgeSize,
+      h: badgeSize,
+      fontSize: options.stacked ? 14 : 12,
+      color: styles.colors.primaryForeground,
+      bold: true,
+      align: "center",
+      valign: "middle",
+    });
+
+    const textX = options.stacked ? x + 0.25 : x + 0.45 + badgeSize;
+    const textY = options.stacked ? y + 0.4 + badgeSize : y + 0.2;
+    pptxSlide.addText(item, {
+      x: textX,
+      y: textY,
+      w: x + cardWidth - 0.25 - textX,
+      h: y + cardHeight - 0.2 - textY,
+      fontSize: styles.body.fontSize,
+      fontFace: styles.body.fontFace,
+      color: styles.body.color,
+      valign: options.stacked ? "top" : "middle",
+    });
+  });
+}
+
+/**
+ * Freeform shape drawn from `points`; supported by PptxGenJS but missing
+ * from its SHAPE_NAME type
+ */
+const CUSTOM_GEOMETRY = "custGeom" as PptxGenJS.SHAPE_NAME;
+
+/**
+ * Add an accent line, title and subtitle stacked from `y`
+ * Shared by the cover variants, which differ in position, alignment and color.
+ */
+function addCoverText(
+  pptxSlide: PptxGenJS.Slide,
+  text: { title?: string; subtitle?: string },
+  styles: PptxThemeStyles,
+  options: {
+    x: number;
+    y: number;
+    w: number;
+    align: "left" | "center";
+    color: string;
+    subtitleColor: string;
+    accentColor: string;
+    accentWidth: number;
+    titleScale?: number;
+  }
+): void {
+  const accentX =
+    options.align === "center" ? options.x + (options.w - options.accentWidth) / 2 : options.x;
+  pptxSlide.addShape("rect", {
+    x: accentX,
+    y: options.y,
+    w: options.accentWidth,
+    h: 0.04,
+    fill: { color: options.accentColor },
+  });
+
+  if (text.title) {
+    pptxSlide.addText(text.title, {
+      x: options.x,
+      y: options.y + 0.2,
+      w: options.w,
+      h: 1.6,
+      fontSize: styles.title.fontSize * (options.titleScale ?? 1.2),
+      fontFace: styles.title.fontFace,
+      color: options.color,
+      bold: styles.title.bold,
+      align: options.align,
+      valign: "middle",
+    });
+  }
+
+  if (text.subtitle) {
+    pptxSlide.addText(text.subtitle, {
+      x: options.x,
+      y: options.y + 1.9,
+      w: options.w,
+      h: 0.8,
+      fontSize: styles.heading.fontSize,
+      fontFace: styles.body.fontFace,
+      color: options.subtitleColor,
+      align: options.align,
+      valign: "top",
+    });
+  }
+}
+
 /**
  * Render a numbered grid slide (Phase 7 Sprint 4)
+ * Variants pick the grid: 2x2, 4x1, or 3x1 (default), wrapping to new rows.
  */
 function renderNumberedGridSlide(
   pptxSlide: PptxGenJS.Slide,
   blocks: Block[],
-  styles: PptxThemeStyles
+  styles: PptxThemeStyles,
+  variant?: string
 ): void {
   pptxSlide.background = { color: styles.colors.background };
 
@@ -708,50 +901,40 @@ function renderNumberedGridSlide(
     contentY += 1.2;
   }
 
-  // Render numbered cards in grid
-  const cardCount = numberedCards.length;
-  const cardHeight = 2.2;
-
-  if (cardCount === 4) {
-    // 2x2 grid
-    const cardWidth = (CONTENT_AREA.width - 0.5) / 2;
-    numberedCards.forEach((block, index) => {
-      const row = Math.floor(index / 2);
-      const col = index % 2;
-      addNumberedCard(pptxSlide, getNumberedCardData(block), styles, {
-        x: CONTENT_AREA.x + col * (cardWidth + 0.5),
-        y: contentY + row * (cardHeight + 0.3),
-        w: cardWidth,
-        h: cardHeight,
-      });
-    });
-  } else {
-    // Single row
-    const cardWidth = (CONTENT_AREA.width - 0.5 * (cardCount - 1)) / cardCount;
-    numberedCards.forEach((block, index) => {
-      addNumberedCard(pptxSlide, getNumberedCardData(block), styles, {
-        x: CONTENT_AREA.x + index * (cardWidth + 0.5),
-        y: contentY,
-        w: cardWidth,
-        h: cardHeight,
-      });
+  const columns = variant === "2x2" ? 2 : variant === "4x1" ? 4 : 3;
+  const rows = Math.ceil(numberedCards.length / columns);
+  const gap = 0.4;
+  const cardWidth = (CONTENT_AREA.width - gap * (columns - 1)) / columns;
+  const availableHeight = CONTENT_AREA.y + CONTENT_AREA.height - contentY;
+  const cardHeight = Math.min(2.2, (availableHeight - gap * (rows - 1)) / rows);
+
+  numberedCards.forEach((block, index) => {
+    addNumberedCard(pptxSlide, getNumberedCardData(block), styles, {
+      x: CONTENT_AREA.x + (index % columns) * (cardWidth + gap),
+      y: contentY + Math.floor(index / columns) * (cardHeight + gap),
+      w: cardWidth,
+      h: cardHeight,
     });
-  }
+  });
 }
 
 /**
  * Render an icon cards with image slide (Phase 7 Sprint 4)
+ * cards_left/cards_right stack the cards beside the image; cards_top puts the
+ * row of cards above it, and the default puts the image first.
  */
 async function renderIconCardsWithImageSlide(
   pptxSlide: PptxGenJS.Slide,
   blocks: Block[],
-  styles: PptxThemeStyles
+  styles: PptxThemeStyles,
+  variant?: string
 ): Promise<void> {
   pptxSlide.background = { color: styles.colors.background };
 
   const titleBlock = blocks.find((b) => b.kind === "title");
   const iconCards = blocks.filter((b) => b.kind === "icon_card");
   const imageBlock = blocks.find((b) => b.kind === "image");
+  const imageUrl = imageBlock ? getImageData(imageBlock).url : undefined;
 
   let contentY = CONTENT_AREA.y;
 
@@ -761,57 +944,85 @@ async function renderIconCardsWithImageSlide(
     contentY += 1.2;
   }
 
-  const cardHeight = 1.8;
-  const hasImage = imageBlock !== undefined;
-
-  if (hasImage) {
-    // Cards on left, image on right
-    const cardsWidth = (CONTENT_AREA.width - 0.5) * 0.5;
-    const imageWidth = (CONTENT_AREA.width - 0.5) * 0.5;
+  const gap = 0.4;
+  const availableHeight = CONTENT_AREA.y + CONTENT_AREA.height - contentY;
+  const isHorizontal = variant === "cards_left" || variant === "cards_right";
+  const cardsFirst = variant === "cards_left" || variant === "cards_top";
 
-    // Render icon cards vertically on left
+  // Row of cards across the content width
+  const addCardRow = (y: number, h: number) => {
+    const cardWidth = (CONTENT_AREA.width - gap * (iconCards.length - 1)) / iconCards.length;
     iconCards.forEach((block, index) => {
       addIconCard(pptxSlide, getIconCardData(block), styles, {
-        x: CONTENT_AREA.x,
-        y: contentY + index * (cardHeight + 0.2),
-        w: cardsWidth,
-        h: cardHeight,
+        x: CONTENT_AREA.x + index * (cardWidth + gap),
+        y,
+        w: cardWidth,
+        h,
       });
     });
+  };
+
+  if (!imageUrl) {
+    addCardRow(contentY, Math.min(2.3, availableHeight));
+    return;
+  }
+
+  if (isHorizontal) {
+    // Cards stacked in one half, image in the other
+    const columnWidth = (CONTENT_AREA.width - gap) / 2;
+    const cardsX = cardsFirst ? CONTENT_AREA.x : CONTENT_AREA.x + columnWidth + gap;
+    const imageX = cardsFirst ? CONTENT_AREA.x + columnWidth + gap : CONTENT_AREA.x;
+    const cardGap = 0.2;
+    const cardHeight = Math.min(
+      1.8,
+      (availableHeight - cardGap * (iconCards.length - 1)) / Math.max(iconCards.length, 1)
+    );
 
-    // Image on right
-    const imageData = getImageData(imageBlock);
-    if (imageData.url) {
-      const imageHeight = iconCards.length * (cardHeight + 0.2) - 0.2;
-      await addImage(pptxSlide, imageData.url, {
-        x: CONTENT_AREA.x + cardsWidth + 0.5,
-        y: contentY,
-        w: imageWidth,
-        h: Math.max(imageHeight, 3),
-        sizing: { type: "contain", w: imageWidth, h: Math.max(imageHeight, 3) },
-      });
-    }
-  } else {
-    // Cards only - render in a row
-    const cardWidth = (CONTENT_AREA.width - 0.5 * (iconCards.length - 1)) / iconCards.length;
     iconCards.forEach((block, index) => {
       addIconCard(pptxSlide, getIconCardData(block), styles, {
-        x: CONTENT_AREA.x + index * (cardWidth + 0.5),
-        y: contentY,
-        w: cardWidth,
-        h: cardHeight + 0.5,
+        x: cardsX,
+        y: contentY + index * (cardHeight + cardGap),
+        w: columnWidth,
+        h: cardHeight,
       });
     });
+
+    await addImage(pptxSlide, imageUrl, {
+      x: imageX,
+      y: contentY,
+      w: columnWidth,
+      h: availableHeight,
+      sizing: { type: "cover", w: columnWidth, h: availableHeight },
+    });
+    return;
   }
+
+  // Row of cards and the image stacked, in variant order
+  const cardHeight = 1.8;
+  const imageHeight = availableHeight - cardHeight - gap;
+  const cardsY = cardsFirst ? contentY : contentY + imageHeight + gap;
+  const imageY = cardsFirst ? contentY + cardHeight + gap : contentY;
+
+  addCardRow(cardsY, cardHeight);
+  await addImage(pptxSlide, imageUrl, {
+    x: CONTENT_AREA.x,
+    y: imageY,
+    w: CONTENT_AREA.width,
+    h: imageHeight,
+    sizing: { type: "cover", w: CONTENT_AREA.width, h: imageHeight },
+  });
 }
 
 /**
  * Render a summary with stats slide (Phase 7 Sprint 4)
+ * stats_right stacks the stats beside the text, stats_inline places them
+ * right after the text, and stats_bottom (default) anchors them to the bottom.
  */
 function renderSummaryWithStatsSlide(
   pptxSlide: PptxGenJS.Slide,
   blocks: Block[],
-  styles: PptxThemeStyles
+  styles: PptxThemeStyles,
+  variant?: string
 ): void {
   pptxSlide.background = { color: styles.colors.background };
 
@@ -827,43 +1038,75 @@ function renderSummaryWithStatsSlide(
     contentY += 1.2;
   }
 
+  // Smaller stats when there are many of them, as in the web layout
+  const scale = statBlocks.length <= 2 ? 1 : statBlocks.length === 3 ? 0.75 : 0.6;
+  const isHorizontal = variant === "stats_right";
+  const textWidth = isHorizontal ? (CONTENT_AREA.width - 0.5) * 0.6 : CONTENT_AREA.width;
+
   // Text content
-  if (textBlocks.length > 0) {
-    const textHeight = 1.5;
-    textBlocks.forEach((block) => {
-      addBodyText(pptxSlide, getBlockText(block), styles, {
-        x: CONTENT_AREA.x,
-        y: contentY,
-        w: CONTENT_AREA.width,
-        h: textHeight,
-      });
-      contentY += textHeight + 0.3;
+  const textHeight = 1.5;
+  const textTop = contentY;
+  textBlocks.forEach((block) => {
+    addBodyText(pptxSlide, getBlockText(block), styles, {
+      x: CONTENT_AREA.x,
+      y: contentY,
+      w: textWidth,
+      h: textHeight,
     });
+    contentY += textHeight + 0.3;
+  });
+
+  if (statBlocks.length === 0) {
+    return;
   }
 
-  // Stat blocks at bottom in a row
-  if (statBlocks.length > 0) {
-    const statWidth = CONTENT_AREA.width / statBlocks.length;
-    const statY = Math.max(contentY + 0.5, CONTENT_AREA.y + CONTENT_AREA.height - 2.5);
+  if (isHorizontal) {
+    // Stats stacked in a column to the right of the text
+    const statX = CONTENT_AREA.x + textWidth + 0.5;
+    const statWidth = CONTENT_AREA.width - textWidth - 0.5;
+    const statHeight = (CONTENT_AREA.y + CONTENT_AREA.height - textTop) / statBlocks.length;
 
     statBlocks.forEach((block, index) => {
       addStatBlock(pptxSlide, getStatBlockData(block), styles, {
-        x: CONTENT_AREA.x + index * statWidth,
-        y: statY,
+        x: statX,
+        y: textTop + index * statHeight,
         w: statWidth,
-        h: 2.2,
+        h: statHeight,
+        scale,
       });
     });
+    return;
   }
+
+  // Stats in a row (at most 4 per row), inline after the text or at the bottom
+  const columns = Math.min(statBlocks.length, 4);
+  const statWidth = CONTENT_AREA.width / columns;
+  const statY =
+    variant === "stats_inline"
+      ? contentY + 0.2
+      : Math.max(contentY + 0.5, CONTENT_AREA.y + CONTENT_AREA.height - 2.5);
+
+  statBlocks.forEach((block, index) => {
+    addStatBlock(pptxSlide, getStatBlockData(block), styles, {
+      x: CONTENT_AREA.x + (index % columns) * statWidth,
+      y: statY + Math.floor(index / columns) * 2.2 * scale,
+      w: statWidth,
+      h: 2.2,
+      scale,
+    });
+  });
 }
 
 /**
  * Render a timeline roadmap slide (Phase 7)
+ * Vertical by default; horizontal lays the steps out along a line and
+ * compact tightens the vertical spacing.
  */
 function renderTimelineRoadmapSlide(
   pptxSlide: PptxGenJS.Slide,
   blocks: Block[],
-  styles: PptxThemeStyles
+  styles: PptxThemeStyles,
+  variant?: string
 ): void {
   pptxSlide.background = { color: styles.colors.background };
 
@@ -878,6 +1121,80 @@ function renderTimelineRoadmapSlide(
     contentY += 1.2;
   }
 
+  if (variant === "horizontal" && timelineSteps.length > 0) {
+    // Steps side by side, connected by a line through the circles
+    const stepWidth = CONTENT_AREA.width / timelineSteps.length;
+    const circleSize = 0.5;
+    const lineY = contentY + (CONTENT_AREA.y + CONTENT_AREA.height - contentY) / 3;
+
+    pptxSlide.addShape("rect", {
+      x: CONTENT_AREA.x + stepWidth / 2,
+      y: lineY - 0.015,
+      w: stepWidth * (timelineSteps.length - 1),
+      h: 0.03,
+      fill: { color: styles.colors.border },
+    });
+
+    timelineSteps.forEach((block, index) => {
+      const step = getTimelineStepData(block);
+      const x = CONTENT_AREA.x + index * stepWidth;
+      const statusColor =
+        step.status === "completed"
+          ? styles.colors.success
+          : step.status === "current"
+            ? styles.colors.primary
+            : styles.colors.border;
+      const isUpcoming = step.status !== "completed" && step.status !== "current";
+
+      pptxSlide.addShape("ellipse", {
+        x: x + (stepWidth - circleSize) / 2,
+        y: lineY - circleSize / 2,
+        w: circleSize,
+        h: circleSize,
+        fill: { color: isUpcoming ? styles.colors.background : statusColor },
+        line: { color: statusColor, width: 2 },
+      });
+      pptxSlide.addText(step.status === "completed" ? "✓" : String(step.step), {
+        objectName: BADGE_SHAPE_NAME,
+        x: x + (stepWidth - circleSize) / 2,
+        y: lineY - circleSize / 2,
+        w: circleSize,
+        h: circleSize,
+        fontSize: 12,
+        color: isUpcoming ? styles.colors.foregroundMuted : styles.colors.background,
+        align: "center",
+        valign: "middle",
+      });
+
+      pptxSlide.addText(step.title, {
+        x: x + 0.1,
+        y: lineY + circleSize / 2 + 0.2,
+        w: stepWidth - 0.2,
+        h: 0.5,
+        fontSize: styles.heading.fontSize,
+        fontFace: styles.heading.fontFace,
+        color: styles.heading.color,
+        bold: true,
+        align: "center",
+        valign: "top",
+      });
+      if (step.description) {
+        pptxSlide.addText(step.description, {
+          x: x + 0.1,
+          y: lineY + circleSize / 2 + 0.7,
+          w: stepWidth - 0.2,
+          h: 1.2,
+          fontSize: styles.body.fontSize * 0.9,
+          fontFace: styles.body.fontFace,
+          color: styles.colors.foregroundMuted,
+          align: "center",
+          valign: "top",
+        });
+      }
+    });
+    return;
+  }
+
   // Render timeline steps vertically
   timelineSteps.forEach((block, index) => {
     const stepData = getTimelineStepData(block);
@@ -886,6 +1203,7 @@ function renderTimelineRoadmapSlide(
       y: contentY,
       w: CONTENT_AREA.width - 0.6,
       isLast: index === timelineSteps.length - 1,
+      compact: variant === "compact",
     });
     contentY += height;
   });
@@ -893,83 +1211,212 @@ function renderTimelineRoadmapSlide(
 
 /**
  * Render a cover slide
+ * Mirrors the CoverSlide layouts: cinematic (default), editorial, minimal,
+ * centered, split_diagonal and gradient_only.
  */
 async function renderCoverSlide(
   pptxSlide: PptxGenJS.Slide,
   blocks: Block[],
-  styles: PptxThemeStyles
+  styles: PptxThemeStyles,
+  variant?: string
 ): Promise<void> {
   pptxSlide.background = { color: styles.colors.background };
 
   const titleBlock = blocks.find((b) => b.kind === "title");
   const textBlock = blocks.find((b) => b.kind === "text");
   const imageBlock = blocks.find((b) => b.kind === "image");
+  const imageUrl = imageBlock ? getImageData(imageBlock).url : undefined;
+  const text = {
+    title: titleBlock ? getBlockText(titleBlock) : undefined,
+    subtitle: textBlock ? getBlockText(textBlock) : undefined,
+  };
+  const { width, height } = PPTX_DIMENSIONS;
 
-  // Add background image if present (semi-transparent overlay for text visibility)
-  if (imageBlock) {
-    const imageData = getImageData(imageBlock);
-    if (imageData.url) {
-      const added = await addImage(pptxSlide, imageData.url, {
-        x: 0,
-        y: 0,
-        w: PPTX_DIMENSIONS.width,
-        h: PPTX_DIMENSIONS.height,
-        sizing: { type: "cover", w: PPTX_DIMENSIONS.width, h: PPTX_DIMENSIONS.height },
-      });
+  const addFullImage = async (): Promise<boolean> =>
+    imageUrl
+      ? addImage(pptxSlide, imageUrl, {
+          x: 0,
+          y: 0,
+          w: width,
+          h: height,
+          sizing: { type: "cover", w: width, h: height },
+        })
+      : false;
+
+  const addOverlay = (transparency: number) =>
+    pptxSlide.addShape("rect", {
+      x: 0,
+      y: 0,
+      w: width,
+      h: height,
+      fill: { color: "000000", transparency },
+    });
 
-      // Add semi-transparent overlay for text readability
-      if (added) {
+  switch (variant) {
+    case "editorial": {
+      // Text on the left 55%, image (or a primary panel) on the right 45%
+      const panelX = width * 0.55;
+      const added = imageUrl
+        ? await addImage(pptxSlide, imageUrl, {
+            x: panelX,
+            y: 0,
+            w: width - panelX,
+            h: height,
+            sizing: { type: "cover", w: width - panelX, h: height },
+          })
+        : false;
+      if (!added) {
         pptxSlide.addShape("rect", {
-          x: 0,
+          x: panelX,
           y: 0,
-          w: PPTX_DIMENSIONS.width,
-          h: PPTX_DIMENSIONS.height,
-          fill: { color: styles.colors.background, transparency: 40 },
+          w: width - panelX,
+          h: height,
+          fill: { color: styles.colors.primary },
         });
       }
+      addCoverText(pptxSlide, text, styles, {
+        x: 0.8,
+        y: height / 2 - 1.4,
+        w: panelX - 1.3,
+        align: "left",
+        color: styles.title.color,
+        subtitleColor: styles.colors.foregroundMuted,
+        accentColor: styles.colors.primary,
+        accentWidth: 0.83,
+      });
+      return;
     }
-  }
 
-  // Centered title
-  if (titleBlock) {
-    pptxSlide.addText(getBlockText(titleBlock), {
-      x: CONTENT_AREA.x,
-      y: PPTX_DIMENSIONS.height / 2 - 1,
-      w: CONTENT_AREA.width,
-      h: 1.5,
-      fontSize: styles.title.fontSize * 1.2,
-      fontFace: styles.title.fontFace,
-      color: styles.title.color,
-      bold: styles.title.bold,
-      align: "center",
-      valign: "middle",
-    });
-  }
+    case "minimal":
+      addCoverText(pptxSlide, text, styles, {
+        x: CONTENT_AREA.x,
+        y: height / 2 - 1.4,
+        w: CONTENT_AREA.width,
+        align: "center",
+        color: styles.title.color,
+        subtitleColor: styles.colors.foregroundMuted,
+        accentColor: styles.colors.primary,
+        accentWidth: 1.04,
+      });
+      return;
 
-  // Subtitle
-  if (textBlock) {
-    pptxSlide.addText(getBlockText(textBlock), {
-      x: CONTENT_AREA.x,
-      y: PPTX_DIMENSIONS.height / 2 + 0.7,
-      w: CONTENT_AREA.width,
-      h: 0.8,
-      fontSize: styles.heading.fontSize,
-      fontFace: styles.body.fontFace,
-      color: styles.colors.foregroundMuted,
-      align: "center",
-      valign: "middle",
-    });
+    case "centered": {
+      const hasImage = await addFullImage();
+      if (hasImage) {
+        addOverlay(50);
+      }
+      addCoverText(pptxSlide, text, styles, {
+        x: CONTENT_AREA.x,
+        y: height / 2 - 1.4,
+        w: CONTENT_AREA.width,
+        align: "center",
+        color: hasImage ? "FFFFFF" : styles.title.color,
+        subtitleColor: hasImage ? "E5E7EB" : styles.colors.foregroundMuted,
+        accentColor: styles.colors.primary,
+        accentWidth: 0.83,
+      });
+      return;
+    }
+
+    case "split_diagonal":
+      // Primary triangle over the image, its edge crossing the slide center
+      // at 135 degrees like the web gradient
+      await addFullImage();
+      pptxSlide.addShape(CUSTOM_GEOMETRY, {
+        x: 0,
+        y: 0,
+        w: width,
+        h: height,
+        fill: { color: styles.colors.primary },
+        points: [
+          { x: 0, y: 0 },
+          { x: width / 2 + height / 2, y: 0 },
+          { x: width / 2 - height / 2, y: height },
+          { x: 0, y: height },
+          { close: true },
+        ],
+      });
+      addCoverText(pptxSlide, text, styles, {
+        x: 0.8,
+        y: height / 2 - 1.4,
+        w: width * 0.45,
+        align: "left",
+        color: "FFFFFF",
+        subtitleColor: "FFFFFF",
+        accentColor: "FFFFFF",
+        accentWidth: 0.83,
+      });
+      return;
+
+    case "gradient_only":
+      // Primary fading into deep indigo, approximated with a diagonal band
+      pptxSlide.background = { color: styles.colors.primary };
+      pptxSlide.addShape(CUSTOM_GEOMETRY, {
+        x: 0,
+        y: 0,
+        w: width,
+        h: height,
+        fill: { color: "1E1B4B", transparency: 20 },
+        points: [
+          { x: width / 2 + height / 2, y: 0 },
+          { x: width, y: 0 },
+          { x: width, y: height },
+          { x: width / 2 - height / 2, y: height },
+          { close: true },
+        ],
+      });
+      addCoverText(pptxSlide, text, styles, {
+        x: CONTENT_AREA.x,
+        y: height / 2 - 1.4,
+        w: CONTENT_AREA.width,
+        align: "center",
+        color: "FFFFFF",
+        subtitleColor: "E5E7EB",
+        accentColor: "FFFFFF",
+        accentWidth: 1.04,
+        titleScale: 1.4,
+      });
+      return;
+
+    default: {
+      // Cinematic: full-bleed image under a dark overlay, text bottom-left
+      const hasImage = await addFullImage();
+      if (hasImage) {
+        addOverlay(45);
+      } else {
+        // Soft corner accent when there is no image
+        pptxSlide.addShape("ellipse", {
+          x: width - 4,
+          y: -2,
+          w: 6,
+          h: 6,
+          fill: { color: styles.colors.primary, transparency: 85 },
+        });
+      }
+      addCoverText(pptxSlide, text, styles, {
+        x: CONTENT_AREA.x + 0.3,
+        y: height - 3.4,
+        w: CONTENT_AREA.width * 0.75,
+        align: "left",
+        color: hasImage ? "FFFFFF" : styles.title.color,
+        subtitleColor: hasImage ? "E5E7EB" : styles.colors.foregroundMuted,
+        accentColor: styles.colors.primary,
+        accentWidth: 1.25,
+      });
+    }
   }
 }
 
 /**
  * Render a standard content slide (bullets, agenda, etc.)
+ * List variants: compact and expanded change the text size, two_columns
+ * splits the items.
  */
 function renderContentSlide(
   pptxSlide: PptxGenJS.Slide,
   blocks: Block[],
   styles: PptxThemeStyles,
-  options?: { numbered?: boolean }
+  options?: { numbered?: boolean; variant?: string }
 ): void {
   pptxSlide.background = { color: styles.colors.background };
 
@@ -1000,15 +1447,38 @@ function renderContentSlide(
     contentY += 2.8;
   }
 
-  // Bullets
+  const listHeight = CONTENT_AREA.height - contentY + SLIDE_MARGINS.top;
+  const fontScale =
+    options?.variant === "compact" ? 0.875 : options?.variant === "expanded" ? 1.125 : 1;
+  const listStyles = {
+    ...styles,
+    body: { ...styles.body, fontSize: styles.body.fontSize * fontScale },
+  };
+
+  // Bullets, split over two columns for the two_columns variant
   if (bulletsBlock) {
-    addBulletList(pptxSlide, getBlockItems(bulletsBlock), styles, {
-      x: CONTENT_AREA.x,
-      y: contentY,
-      w: CONTENT_AREA.width,
-      h: CONTENT_AREA.height - contentY + SLIDE_MARGINS.top,
-      numbered: options?.numbered,
-    });
+    const items = getBlockItems(bulletsBlock);
+    if (options?.variant === "two_columns") {
+      const columnWidth = (CONTENT_AREA.width - 0.5) / 2;
+      const half = Math.ceil(items.length / 2);
+      [items.slice(0, half), items.slice(half)].forEach((columnItems, column) => {
+        addBulletList(pptxSlide, columnItems, listStyles, {
+          x: CONTENT_AREA.x + column * (columnWidth + 0.5),
+          y: contentY,
+          w: columnWidth,
+          h: listHeight,
+          numbered: options?.numbered,
+        });
+      });
+    } else {
+      addBulletList(pptxSlide, items, listStyles, {
+        x: CONTENT_AREA.x,
+        y: contentY,
+        w: CONTENT_AREA.width,
+        h: listHeight,
+        numbered: options?.numbered,
+      });
+    }
   }
 
   // Text (if no bullets)
@@ -1017,23 +1487,104 @@ function renderContentSlide(
       x: CONTENT_AREA.x,
       y: contentY,
       w: CONTENT_AREA.width,
-      h: CONTENT_AREA.height - contentY + SLIDE_MARGINS.top,
+      h: listHeight,
     });
   }
 }
 
+/**
+ * Render the bullets as a grid of cards under the title
+ * Falls back to a content slide when there is no bullets block.
+ */
+function renderItemCardsSlide(
+  pptxSlide: PptxGenJS.Slide,
+  blocks: Block[],
+  styles: PptxThemeStyles,
+  cards: {
+    columns: (count: number) => number;
+    badge: (index: number) => string;
+    badgeColor: string;
+    stacked?: boolean;
+  }
+): void {
+  const bulletsBlock = blocks.find((b) => b.kind === "bullets");
+  const items = bulletsBlock ? getBlockItems(bulletsBlock) : [];
+  if (items.length === 0) {
+    renderContentSlide(pptxSlide, blocks, styles);
+    return;
+  }
+
+  pptxSlide.background = { color: styles.colors.background };
+
+  const titleBlock = blocks.find((b) => b.kind === "title");
+  let contentY = CONTENT_AREA.y;
+
+  if (titleBlock) {
+    addTitle(pptxSlide, getBlockText(titleBlock), styles);
+    contentY += 1.2;
+  }
+
+  addItemCardGrid(pptxSlide, items, styles, {
+    y: contentY,
+    columns: cards.columns(items.length),
+    badge: cards.badge,
+    badgeColor: cards.badgeColor,
+    stacked: cards.stacked,
+  });
+}
+
+/**
+ * Render a bullets slide in the variant the web layout resolves to:
+ * numbered card grids for grid/cards, a list for the others
+ */
+function renderBulletsSlide(
+  pptxSlide: PptxGenJS.Slide,
+  blocks: Block[],
+  styles: PptxThemeStyles,
+  variant?: string
+): void {
+  const bulletsBlock = blocks.find((b) => b.kind === "bullets");
+  const resolved = resolveBulletsVariant(bulletsBlock ? getBlockItems(bulletsBlock) : [], variant);
+
+  if (resolved === "grid" || resolved === "cards") {
+    renderItemCardsSlide(pptxSlide, blocks, styles, {
+      columns: (count) => (count <= 6 ? 2 : 3),
+      badge: (index) => String(index + 1),
+      badgeColor: styles.colors.primary,
+      stacked: resolved === "cards",
+    });
+    return;
+  }
+
+  renderContentSlide(pptxSlide, blocks, styles, { variant: resolved });
+}
+
 /**
  * Render a section header slide
+ * large enlarges the title; subtle mutes it and the accent line.
  */
 function renderSectionHeaderSlide(
   pptxSlide: PptxGenJS.Slide,
   blocks: Block[],
-  styles: PptxThemeStyles
+  styles: PptxThemeStyles,
+  variant?: string
 ): void {
   pptxSlide.background = { color: styles.colors.backgroundSubtle };
 
   const titleBlock = blocks.find((b) => b.kind === "title");
   const textBlock = blocks.find((b) => b.kind === "text");
+  const isLarge = variant === "large";
+  const isSubtle = variant === "subtle";
+
+  // Accent line above the title
+  const accentWidth = isLarge ? 1.5 : 1;
+  pptxSlide.addShape("rect", {
+    x: (PPTX_DIMENSIONS.width - accentWidth) / 2,
+    y: PPTX_DIMENSIONS.height / 2 - 1.2,
+    w: accentWidth,
+    h: 0.05,
+    fill: { color: styles.colors.primary, transparency: isSubtle ? 50 : 0 },
+  });
 
   // Large centered title
   if (titleBlock) {
@@ -1042,9 +1593,9 @@ function renderSectionHeaderSlide(
       y: PPTX_DIMENSIONS.height / 2 - 0.8,
       w: CONTENT_AREA.width,
       h: 1.5,
-      fontSize: styles.title.fontSize * 1.3,
+      fontSize: styles.title.fontSize * (isLarge ? 1.6 : isSubtle ? 1.1 : 1.3),
       fontFace: styles.title.fontFace,
-      color: styles.colors.primary,
+      color: isSubtle ? styles.colors.foregroundMuted : styles.colors.primary,
       bold: styles.title.bold,
       align: "center",
       valign: "middle",
@@ -1068,11 +1619,14 @@ function renderSectionHeaderSlide(
 
 /**
  * Render a two-column slide (also used for text_plus_image)
+ * text_left/text_right weight the text columns 2:1/1:2; image_left moves the
+ * visual to the left and image_background puts the text over the image.
  */
 async function renderTwoColumnSlide(
   pptxSlide: PptxGenJS.Slide,
   blocks: Block[],
-  styles: PptxThemeStyles
+  styles: PptxThemeStyles,
+  variant?: string
 ): Promise<void> {
   pptxSlide.background = { color: styles.colors.background };
 
@@ -1080,10 +1634,52 @@ async function renderTwoColumnSlide(
   const textBlocks = blocks.filter((b) => b.kind === "text");
   const bulletsBlock = blocks.find((b) => b.kind === "bullets");
   const imageBlock = blocks.find((b) => b.kind === "image");
+  const chartBlock = blocks.find((b) => b.kind === "chart");
+  const imageUrl = imageBlock ? getImageData(imageBlock).url : undefined;
+
+  // Full-bleed image with the text at the bottom over a dark overlay
+  if (variant === "image_background" && imageUrl && !chartBlock) {
+    const { width, height } = PPTX_DIMENSIONS;
+    const added = await addImage(pptxSlide, imageUrl, {
+      x: 0,
+      y: 0,
+      w: width,
+      h: height,
+      sizing: { type: "cover", w: width, h: height },
+    });
+    if (added) {
+      pptxSlide.addShape("rect", {
+        x: 0,
+        y: 0,
+        w: width,
+        h: height,
+        fill: { color: "000000", transparency: 50 },
+      });
+      const white = {
+        ...styles,
+        title: { ...styles.title, color: "FFFFFF" },
+        body: { ...styles.body, color: "FFFFFF" },
+      };
+      if (titleBlock) {
+        addTitle(pptxSlide, getBlockText(titleBlock), white, { y: height - 3.2 });
+      }
+      const box = { x: CONTENT_AREA.x, y: height - 2.1, w: CONTENT_AREA.width, h: 1.6 };
+      if (textBlocks[0]) {
+        addBodyText(pptxSlide, getBlockText(textBlocks[0]), white, box);
+      } else if (bulletsBlock) {
+        addBulletList(pptxSlide, getBlockItems(bulletsBlock), white, box);
+      }
+      return;
+    }
+  }
 
   let contentY = CONTENT_AREA.y;
-  const columnWidth = (CONTENT_AREA.width - 0.5) / 2;
   const contentHeight = CONTENT_AREA.height - 1.2;
+  const gap = 0.5;
+  const ratio = variant === "text_left" ? 2 / 3 : variant === "text_right" ? 1 / 3 : 1 / 2;
+  const leftWidth = (CONTENT_AREA.width - gap) * ratio;
+  const rightWidth = CONTENT_AREA.width - gap - leftWidth;
+  const rightX = CONTENT_AREA.x + leftWidth + gap;
 
   // Title
   if (titleBlock) {
@@ -1091,31 +1687,41 @@ async function renderTwoColumnSlide(
     contentY += 1.2;
   }
 
-  // If we have an image, render text/bullets on left, image on right
-  if (imageBlock) {
-    const imageData = getImageData(imageBlock);
+  // If we have a chart or an image, render text/bullets in one column and the visual in the other
+  if (chartBlock || imageBlock) {
+    const columnWidth = (CONTENT_AREA.width - gap) / 2;
+    const visualFirst = variant === "image_left";
+    const textX = visualFirst ? CONTENT_AREA.x + columnWidth + gap : CONTENT_AREA.x;
+    const visualX = visualFirst ? CONTENT_AREA.x : CONTENT_AREA.x + columnWidth + gap;
 
-    // Left column: text or bullets
+    // Text column: text or bullets
     if (textBlocks[0]) {
       addBodyText(pptxSlide, getBlockText(textBlocks[0]), styles, {
-        x: CONTENT_AREA.x,
+        x: textX,
         y: contentY,
         w: columnWidth,
         h: contentHeight,
       });
     } else if (bulletsBlock) {
       addBulletList(pptxSlide, getBlockItems(bulletsBlock), styles, {
-        x: CONTENT_AREA.x,
+        x: textX,
         y: contentY,
         w: columnWidth,
         h: contentHeight,
       });
     }
 
-    // Right column: image
-    if (imageData.url) {
-      await addImage(pptxSlide, imageData.url, {
-        x: CONTENT_AREA.x + columnWidth + 0.5,
+    // Visual column: chart (takes the image slot) or image
+    if (chartBlock) {
+      addChart(pptxSlide, chartBlock, styles, {
+        x: visualX,
+        y: contentY,
+        w: columnWidth,
+        h: contentHeight,
+      });
+    } else if (imageUrl) {
+      await addImage(pptxSlide, imageUrl, {
+        x: visualX,
         y: contentY,
         w: columnWidth,
         h: contentHeight,
@@ -1123,13 +1729,13 @@ async function renderTwoColumnSlide(
       });
     }
   } else {
-    // No image - standard two-column text layout
+    // No image - two text columns, weighted by the variant
     // Left column
     if (textBlocks[0]) {
       addBodyText(pptxSlide, getBlockText(textBlocks[0]), styles, {
         x: CONTENT_AREA.x,
         y: contentY,
-        w: columnWidth,
+        w: leftWidth,
         h: contentHeight,
       });
     }
@@ -1137,9 +1743,9 @@ async function renderTwoColumnSlide(
     // Right column
     if (textBlocks[1]) {
       addBodyText(pptxSlide, getBlockText(textBlocks[1]), styles, {
-        x: CONTENT_AREA.x + columnWidth + 0.5,
+        x: rightX,
         y: contentY,
-        w: columnWidth,
+        w: rightWidth,
         h: contentHeight,
       });
     }
@@ -1148,16 +1754,19 @@ async function renderTwoColumnSlide(
 
 /**
  * Render a table slide
+ * compact uses smaller text and tighter cells; detailed adds cell padding.
  */
 function renderTableSlide(
   pptxSlide: PptxGenJS.Slide,
   blocks: Block[],
-  styles: PptxThemeStyles
+  styles: PptxThemeStyles,
+  variant?: string
 ): void {
   pptxSlide.background = { color: styles.colors.background };
 
   const titleBlock = blocks.find((b) => b.kind === "title");
   const tableBlock = blocks.find((b) => b.kind === "table");
+  const chartBlock = blocks.find((b) => b.kind === "chart");
 
   let contentY = CONTENT_AREA.y;
 
@@ -1167,29 +1776,63 @@ function renderTableSlide(
     contentY += 1.2;
   }
 
-  // Table
-  if (tableBlock) {
+  const availableHeight = CONTENT_AREA.y + CONTENT_AREA.height - contentY;
+  const tableOptions =
+    variant === "compact"
+      ? { fontSize: styles.body.fontSize * 0.875, margin: 0.05 }
+      : variant === "detailed"
+        ? { margin: 0.15 }
+        : {};
+
+  // Table and chart side by side, or either one full width
+  if (tableBlock && chartBlock) {
+    const columnWidth = (CONTENT_AREA.width - 0.5) / 2;
+    addTable(pptxSlide, getBlockTable(tableBlock), styles, {
+      x: CONTENT_AREA.x,
+      y: contentY,
+      w: columnWidth,
+      ...tableOptions,
+    });
+    addChart(pptxSlide, chartBlock, styles, {
+      x: CONTENT_AREA.x + columnWidth + 0.5,
+      y: contentY,
+      w: columnWidth,
+      h: availableHeight,
+    });
+  } else if (tableBlock) {
     addTable(pptxSlide, getBlockTable(tableBlock), styles, {
       x: CONTENT_AREA.x,
       y: contentY,
       w: CONTENT_AREA.width,
+      ...tableOptions,
+    });
+  } else if (chartBlock) {
+    addChart(pptxSlide, chartBlock, styles, {
+      x: CONTENT_AREA.x,
+      y: contentY,
+      w: CONTENT_AREA.width,
+      h: availableHeight,
     });
   }
 }
 
 /**
  * Render a quote/callout slide
+ * Quote with a decorative quote mark and an optional "— attribution" line
+ * (a second text block). large and centered center the quote; subtle uses
+ * body-sized, muted text.
  */
 function renderQuoteSlide(
   pptxSlide: PptxGenJS.Slide,
   blocks: Block[],
-  styles: PptxThemeStyles
+  styles: PptxThemeStyles,
+  variant?: string
 ): void {
   pptxSlide.background = { color: styles.colors.background };
 
   const titleBlock = blocks.find((b) => b.kind === "title");
-  const calloutBlock = blocks.find((b) => b.kind === "callout");
-  const textBlock = blocks.find((b) => b.kind === "text");
+  const quoteBlock = blocks.find((b) => b.kind === "callout" || b.kind === "text");
+  const attributionBlock = blocks.find((b) => b.kind === "text" && b !== quoteBlock);
 
   let contentY = CONTENT_AREA.y;
 
@@ -1199,88 +1842,1503 @@ function renderQuoteSlide(
     contentY += 1.2;
   }
 
-  // Quote/callout
-  const quoteContent = calloutBlock
-    ? getCalloutData(calloutBlock)
-    : { text: textBlock ? getBlockText(textBlock) : "", style: "quote" };
+  const quoteText = quoteBlock ? getBlockText(quoteBlock) : "";
+  if (!quoteText) {
+    return;
+  }
 
-  if (quoteContent.text) {
-    // Add a colored bar on the left
-    pptxSlide.addShape("rect", {
-      x: CONTENT_AREA.x,
-      y: contentY,
-      w: 0.1,
-      h: 2,
-      fill: { color: getCalloutColor(quoteContent.style, styles) },
+  const isCentered = variant === "centered" || variant === "large";
+  const fontSize =
+    variant === "large"
+      ? styles.quote.fontSize * 1.35
+      : variant === "subtle"
+        ? styles.body.fontSize
+        : styles.quote.fontSize;
+  const align = isCentered ? "center" : "left";
+  const textX = isCentered ? CONTENT_AREA.x : CONTENT_AREA.x + 0.6;
+  const textWidth = CONTENT_AREA.width - (textX - CONTENT_AREA.x);
+  const quoteY = Math.max(contentY, PPTX_DIMENSIONS.height / 2 - 1.5);
+
+  // Decorative quote mark, above the text when centered
+  pptxSlide.addText("“", {
+    x: CONTENT_AREA.x,
+    y: quoteY - (isCentered ? 0.9 : 0.2),
+    w: isCentered ? CONTENT_AREA.width : 0.6,
+    h: 0.9,
+    fontSize: 60,
+    fontFace: styles.quote.fontFace,
+    color: styles.colors.primary,
+    transparency: 70,
+    align,
+    valign: "top",
+  });
+
+  pptxSlide.addText(quoteText, {
+    x: textX,
+    y: quoteY,
+    w: textWidth,
+    h: 2.2,
+    fontSize,
+    fontFace: styles.quote.fontFace,
+    color: variant === "subtle" ? styles.colors.foregroundMuted : styles.quote.color,
+    italic: true,
+    align,
+    valign: "top",
+  });
+
+  if (attributionBlock) {
+    pptxSlide.addText(`— ${getBlockText(attributionBlock)}`, {
+      x: textX,
+      y: quoteY + 2.4,
+      w: textWidth,
+      h: 0.5,
+      fontSize: styles.body.fontSize,
+      fontFace: styles.body.fontFace,
+      color: styles.colors.foregroundMuted,
+      align,
     });
+  }
+}
 
-    // Quote text
-    pptxSlide.addText(quoteContent.text, {
-      x: CONTENT_AREA.x + 0.3,
-      y: contentY,
-      w: CONTENT_AREA.width - 0.3,
-      h: 2,
-      fontSize: styles.quote.fontSize,
-      fontFace: styles.quote.fontFace,
-      color: styles.quote.color,
-      italic: styles.quote.italic,
+// ============================================================================
+// Premium slides (hero_stats, split_with_callouts, person_spotlight)
+// ============================================================================
+
+/**
+ * Callout card colors, matching SplitWithCalloutsSlide's presets
+ */
+const CALLOUT_CARD_COLORS: Record<string, { border: string; icon: string }> = {
+  pink: { border: "EC4899", icon: "BE185D" },
+  purple: { border: "9333EA", icon: "7C3AED" },
+  blue: { border: "3B82F6", icon: "2563EB" },
+  cyan: { border: "06B6D4", icon: "0891B2" },
+  green: { border: "22C55E", icon: "16A34A" },
+  orange: { border: "F97316", icon: "EA580C" },
+};
+
+const DEFAULT_CALLOUT_COLORS = ["pink", "purple", "cyan"];
+
+/**
+ * Add a hero stat card (value, label and optional sublabel)
+ * On an image background the card is translucent white with white text
+ */
+function addHeroStat(
+  pptxSlide: PptxGenJS.Slide,
+  data: { value: string; label: string; sublabel?: string },
+  styles: PptxThemeStyles,
+  options: { x: number; y: number; w: number; h: number; scale: number; onImage: boolean }
+): void {
+  pptxSlide.addShape("roundRect", {
+    x: options.x,
+    y: options.y,
+    w: options.w,
+    h: options.h,
+    fill: options.onImage
+      ? { color: "FFFFFF", transparency: 90 }
+      : { color: styles.colors.backgroundSubtle },
+    rectRadius: 0.12,
+  });
+
+  const valueHeight = options.h * 0.55;
+  pptxSlide.addText(data.value, {
+    x: options.x,
+    y: options.y + 0.1,
+    w: options.w,
+    h: valueHeight,
+    fontSize: Math.round(48 * options.scale),
+    fontFace: styles.title.fontFace,
+    color: options.onImage ? "FFFFFF" : styles.colors.primary,
+    bold: true,
+    align: "center",
+    valign: "bottom",
+  });
+
+  pptxSlide.addText(data.label, {
+    x: options.x + 0.1,
+    y: options.y + 0.1 + valueHeight,
+    w: options.w - 0.2,
+    h: 0.4,
+    fontSize: styles.small.fontSize,
+    fontFace: styles.body.fontFace,
+    color: options.onImage ? "FFFFFF" : styles.colors.foregroundMuted,
+    align: "center",
+    valign: "top",
+  });
+
+  if (data.sublabel) {
+    pptxSlide.addText(data.sublabel, {
+      x: options.x + 0.1,
+      y: options.y + 0.5 + valueHeight,
+      w: options.w - 0.2,
+      h: 0.3,
+      fontSize: styles.small.fontSize * 0.85,
+      fontFace: styles.body.fontFace,
+      color: options.onImage ? "FFFFFF" : styles.colors.foregroundMuted,
+      align: "center",
       valign: "top",
     });
   }
 }
 
 /**
- * Render slide based on type
+ * Render a hero stats slide (mirrors HeroStatsSlide)
+ * Variants: hero_top (image band above), hero_background (full-bleed image
+ * behind the text) and hero_split (image left, content right)
  */
-async function renderSlide(pptx: PptxGenJS, slide: Slide, styles: PptxThemeStyles): Promise<void> {
-  const pptxSlide = pptx.addSlide();
+async function renderHeroStatsSlide(
+  pptxSlide: PptxGenJS.Slide,
+  blocks: Block[],
+  styles: PptxThemeStyles,
+  variant?: string
+): Promise<void> {
+  pptxSlide.background = { color: styles.colors.background };
 
-  switch (slide.type) {
-    case "cover":
-      await renderCoverSlide(pptxSlide, slide.blocks, styles);
-      break;
+  const titleBlock = blocks.find((b) => b.kind === "title");
+  const textBlock = blocks.find((b) => b.kind === "text");
+  const imageBlock = blocks.find((b) => b.kind === "image");
+  const stats = blocks.filter((b) => b.kind === "stat_block").slice(0, 4);
+  const imageUrl = imageBlock ? getImageData(imageBlock).url : "";
 
-    case "section_header":
-      renderSectionHeaderSlide(pptxSlide, slide.blocks, styles);
-      break;
+  // Stats shrink as they get more numerous, like the web component
+  const scale = stats.length <= 2 ? 1 : stats.length === 3 ? 0.75 : 0.6;
+  const statHeight = 1.9 * Math.max(scale, 0.8);
 
-    case "agenda":
-      renderContentSlide(pptxSlide, slide.blocks, styles, { numbered: true });
-      break;
+  const isSplit = variant === "hero_split";
+  const isBackground = variant === "hero_background";
 
-    case "bullets":
-    case "decisions_list":
-    case "summary_next_steps":
-      renderContentSlide(pptxSlide, slide.blocks, styles);
-      break;
+  // Image placement and content area per variant
+  let area: { x: number; y: number; w: number } = {
+    x: CONTENT_AREA.x,
+    y: CONTENT_AREA.y,
+    w: CONTENT_AREA.width,
+  };
+  let onImage = false;
 
-    case "two_column_text":
-    case "text_plus_image":
-      await renderTwoColumnSlide(pptxSlide, slide.blocks, styles);
-      break;
+  if (isSplit) {
+    const imageWidth = PPTX_DIMENSIONS.width / 2;
+    if (imageUrl) {
+      await addImage(pptxSlide, imageUrl, {
+        x: 0,
+        y: 0,
+        w: imageWidth,
+        h: PPTX_DIMENSIONS.height,
+        sizing: { type: "cover", w: imageWidth, h: PPTX_DIMENSIONS.height },
+      });
+    }
+    area = { x: imageWidth + 0.5, y: CONTENT_AREA.y + 0.8, w: imageWidth - 1 };
+  } else if (isBackground) {
+    const added =
+      imageUrl &&
+      (await addImage(pptxSlide, imageUrl, {
+        x: 0,
+        y: 0,
+        w: PPTX_DIMENSIONS.width,
+        h: PPTX_DIMENSIONS.height,
+        sizing: { type: "cover", w: PPTX_DIMENSIONS.width, h: PPTX_DIMENSIONS.height },
+      }));
+    if (added) {
+      // Dark overlay so white text stays readable
+      pptxSlide.addShape("rect", {
+        x: 0,
+        y: 0,
+        w: PPTX_DIMENSIONS.width,
+        h: PPTX_DIMENSIONS.height,
+        fill: { color: "000000", transparency: 50 },
+      });
+      onImage = true;
+    }
+    // Text sits at the bottom, above the stats
+    area = { ...area, y: PPTX_DIMENSIONS.height - SLIDE_MARGINS.bottom - statHeight - 2.3 };
+  } else if (imageUrl) {
+    const imageHeight = CONTENT_AREA.height * 0.4;
+    const added = await addImage(pptxSlide, imageUrl, {
+      x: CONTENT_AREA.x,
+      y: CONTENT_AREA.y,
+      w: CONTENT_AREA.width,
+      h: imageHeight,
+      sizing: { type: "cover", w: CONTENT_AREA.width, h: imageHeight },
+    });
+    if (added) area = { ...area, y: CONTENT_AREA.y + imageHeight + 0.25 };
+  }
 
-    case "action_items_table":
-      renderTableSlide(pptxSlide, slide.blocks, styles);
-      break;
+  let contentY = area.y;
 
-    case "quote_callout":
-      renderQuoteSlide(pptxSlide, slide.blocks, styles);
-      break;
+  if (titleBlock) {
+    pptxSlide.addText(getBlockText(titleBlock), {
+      x: area.x,
+      y: contentY,
+      w: area.w,
+      h: 0.9,
+      fontSize: styles.title.fontSize,
+      fontFace: styles.title.fontFace,
+      color: onImage ? "FFFFFF" : styles.title.color,
+      bold: styles.title.bold,
+      valign: "top",
+    });
+    contentY += 0.95;
+  }
 
-    case "timeline_roadmap":
-      renderTimelineRoadmapSlide(pptxSlide, slide.blocks, styles);
-      break;
+  if (textBlock) {
+    pptxSlide.addText(getBlockText(textBlock), {
+      x: area.x,
+      y: contentY,
+      w: isSplit ? area.w : Math.min(area.w, 8),
+      h: 0.9,
+      fontSize: styles.body.fontSize,
+      fontFace: styles.body.fontFace,
+      color: onImage ? "FFFFFF" : styles.colors.foregroundMuted,
+      valign: "top",
+    });
+    contentY += 1;
+  }
 
-    case "numbered_grid":
-      renderNumberedGridSlide(pptxSlide, slide.blocks, styles);
-      break;
+  if (stats.length === 0) return;
 
-    case "icon_cards_with_image":
-      await renderIconCardsWithImageSlide(pptxSlide, slide.blocks, styles);
-      break;
+  // Stats in one row at the bottom of the content area
+  const gap = 0.25;
+  const statWidth = (area.w - gap * (stats.length - 1)) / stats.length;
+  const statY = Math.max(
+    contentY + 0.2,
+    PPTX_DIMENSIONS.height - SLIDE_MARGINS.bottom - statHeight
+  );
 
-    case "summary_with_stats":
-      renderSummaryWithStatsSlide(pptxSlide, slide.blocks, styles);
+  stats.forEach((block, index) => {
+    addHeroStat(pptxSlide, getStatBlockData(block), styles, {
+      x: area.x + index * (statWidth + gap),
+      y: statY,
+      w: statWidth,
+      h: statHeight,
+      scale,
+      onImage,
+    });
+  });
+}
+
+/**
+ * Render a split slide with callout cards (mirrors SplitWithCalloutsSlide)
+ * Variants: image_left (default) and image_right
+ */
+async function renderSplitWithCalloutsSlide(
+  pptxSlide: PptxGenJS.Slide,
+  blocks: Block[],
+  styles: PptxThemeStyles,
+  variant?: string
+): Promise<void> {
+  pptxSlide.background = { color: styles.colors.background };
+
+  const titleBlock = blocks.find((b) => b.kind === "title");
+  const textBlock = blocks.find((b) => b.kind === "text");
+  const imageBlock = blocks.find((b) => b.kind === "image");
+  const callouts = blocks.filter((b) => b.kind === "icon_card" || b.kind === "bullets");
+
+  const halfWidth = PPTX_DIMENSIONS.width / 2;
+  const imageOnLeft = variant !== "image_right";
+  const imageX = imageOnLeft ? 0 : halfWidth;
+  const contentX = (imageOnLeft ? halfWidth : 0) + 0.5;
+  const contentWidth = halfWidth - 1;
+
+  if (imageBlock) {
+    const imageData = getImageData(imageBlock);
+    if (imageData.url) {
+      await addImage(pptxSlide, imageData.url, {
+        x: imageX,
+        y: 0,
+        w: halfWidth,
+        h: PPTX_DIMENSIONS.height,
+        sizing: { type: "cover", w: halfWidth, h: PPTX_DIMENSIONS.height },
+      });
+    }
+  }
+
+  // Card height shrinks with more callouts so the column stays within the slide
+  const cardGap = 0.2;
+  const headerHeight = (titleBlock ? 1 : 0) + (textBlock ? 0.9 : 0);
+  const cardHeight = Math.min(
+    1.3,
+    (CONTENT_AREA.height - headerHeight - cardGap * Math.max(callouts.length - 1, 0)) /
+      Math.max(callouts.length, 1)
+  );
+  const columnHeight = headerHeight + callouts.length * (cardHeight + cardGap) - cardGap;
+  let contentY = CONTENT_AREA.y + Math.max((CONTENT_AREA.height - columnHeight) / 2, 0);
+
+  if (titleBlock) {
+    pptxSlide.addText(getBlockText(titleBlock), {
+      x: contentX,
+      y: contentY,
+      w: contentWidth,
+      h: 0.9,
+      fontSize: styles.title.fontSize,
+      fontFace: styles.title.fontFace,
+      color: styles.title.color,
+      bold: styles.title.bold,
+      valign: "top",
+    });
+    contentY += 1;
+  }
+
+  if (textBlock) {
+    pptxSlide.addText(getBlockText(textBlock), {
+      x: contentX,
+      y: contentY,
+      w: contentWidth,
+      h: 0.8,
+      fontSize: styles.body.fontSize,
+      fontFace: styles.body.fontFace,
+      color: styles.colors.foregroundMuted,
+      valign: "top",
+    });
+    contentY += 0.9;
+  }
+
+  callouts.forEach((block, index) => {
+    const bgColor = block.kind === "icon_card" ? getIconCardData(block).bgColor : undefined;
+    const colorKey =
+      bgColor && bgColor.toLowerCase() in CALLOUT_CARD_COLORS
+        ? bgColor.toLowerCase()
+        : DEFAULT_CALLOUT_COLORS[index % DEFAULT_CALLOUT_COLORS.length];
+    const colors = CALLOUT_CARD_COLORS[colorKey];
+
+    // Tinted card with a colored left border
+    pptxSlide.addShape("rect", {
+      x: contentX,
+      y: contentY,
+      w: contentWidth,
+      h: cardHeight,
+      fill: { color: colors.border, transparency: 88 },
+    });
+    pptxSlide.addShape("rect", {
+      x: contentX,
+      y: contentY,
+      w: 0.05,
+      h: cardHeight,
+      fill: { color: colors.border },
+    });
+
+    // Icon cards show heading + description, bullets their first item + the rest
+    const items = block.kind === "bullets" ? getBlockItems(block) : [];
+    const iconCard = block.kind === "icon_card" ? getIconCardData(block) : undefined;
+    const heading = iconCard ? iconCard.text : (items[0] ?? "");
+    const detail = iconCard ? iconCard.description : undefined;
+    const detailItems = items.slice(1);
+
+    pptxSlide.addText(heading, {
+      x: contentX + 0.25,
+      y: contentY + 0.1,
+      w: contentWidth - 0.4,
+      h: 0.4,
+      fontSize: styles.body.fontSize,
+      fontFace: styles.heading.fontFace,
+      color: styles.colors.foreground,
+      bold: true,
+      valign: "top",
+    });
+
+    if (detail || detailItems.length > 0) {
+      pptxSlide.addText(
+        detailItems.length > 0
+          ? detailItems.map((item) => ({ text: item, options: { bullet: true } }))
+          : (detail ?? ""),
+        {
+          x: contentX + 0.25,
+          y: contentY + 0.5,
+          w: contentWidth - 0.4,
+          h: cardHeight - 0.6,
+          fontSize: styles.small.fontSize,
+          fontFace: styles.body.fontFace,
+          color: styles.colors.foregroundMuted,
+          valign: "top",
+        }
+      );
+    }
+
+    contentY += cardHeight + cardGap;
+  });
+}
+
+/**
+ * Render a person spotlight slide (mirrors PersonSpotlightSlide)
+ * Variants: centered (default) and side_by_side
+ * The title is the name, the first text block the role and the second the bio
+ */
+async function renderPersonSpotlightSlide(
+  pptxSlide: PptxGenJS.Slide,
+  blocks: Block[],
+  styles: PptxThemeStyles,
+  variant?: string
+): Promise<void> {
+  pptxSlide.background = { color: styles.colors.background };
+
+  const titleBlock = blocks.find((b) => b.kind === "title");
+  const [roleBlock, bioBlock] = blocks.filter((b) => b.kind === "text");
+  const imageBlock = blocks.find((b) => b.kind === "image");
+  const bulletsBlock = blocks.find((b) => b.kind === "bullets");
+
+  const name = titleBlock ? getBlockText(titleBlock) : "Navn";
+  const role = roleBlock ? getBlockText(roleBlock) : "";
+  const bio = bioBlock ? getBlockText(bioBlock) : "";
+  const points = bulletsBlock ? getBlockItems(bulletsBlock) : [];
+  const imageUrl = imageBlock ? getImageData(imageBlock).url : "";
+
+  const isCentered = variant !== "side_by_side";
+
+  // Portrait in an accent ring
+  const addPortrait = async (x: number, y: number, size: number, ringColor: string) => {
+    const ring = 0.06;
+    pptxSlide.addShape("ellipse", {
+      x: x - ring,
+      y: y - ring,
+      w: size + 2 * ring,
+      h: size + 2 * ring,
+      fill: { color: ringColor },
+    });
+    if (imageUrl) {
+      await addImage(pptxSlide, imageUrl, {
+        x,
+        y,
+        w: size,
+        h: size,
+        sizing: { type: "cover", w: size, h: size },
+        rounding: true,
+      });
+    }
+  };
+
+  let textX: number;
+  let textWidth: number;
+  let contentY: number;
+  const align = isCentered ? "center" : "left";
+
+  if (isCentered) {
+    const size = 180 / 96;
+    const textHeight = 0.9 + (role ? 0.5 : 0) + (bio ? 1 : 0) + (points.length > 0 ? 0.6 : 0);
+    const top = Math.max((PPTX_DIMENSIONS.height - size - 0.3 - textHeight) / 2, 0.4);
+
+    await addPortrait((PPTX_DIMENSIONS.width - size) / 2, top, size, styles.colors.primary);
+    textX = CONTENT_AREA.x + 1.5;
+    textWidth = CONTENT_AREA.width - 3;
+    contentY = top + size + 0.3;
+  } else {
+    // Accent panel on the left 40% with the portrait centered in it
+    const panelWidth = PPTX_DIMENSIONS.width * 0.4;
+    const size = 280 / 96;
+    pptxSlide.addShape("rect", {
+      x: 0,
+      y: 0,
+      w: panelWidth,
+      h: PPTX_DIMENSIONS.height,
+      fill: { color: styles.colors.primary },
+    });
+    await addPortrait(
+      (panelWidth - size) / 2,
+      (PPTX_DIMENSIONS.height - size) / 2,
+      size,
+      styles.colors.primaryForeground
+    );
+
+    const textHeight = 0.9 + (role ? 0.5 : 0) + (bio ? 1.2 : 0) + (points.length > 0 ? 1 : 0);
+    textX = panelWidth + 0.6;
+    textWidth = PPTX_DIMENSIONS.width - textX - SLIDE_MARGINS.right;
+    contentY = (PPTX_DIMENSIONS.height - textHeight) / 2;
+  }
+
+  pptxSlide.addText(name, {
+    x: textX,
+    y: contentY,
+    w: textWidth,
+    h: 0.8,
+    fontSize: styles.title.fontSize,
+    fontFace: styles.title.fontFace,
+    color: styles.title.color,
+    bold: true,
+    align,
+    valign: "top",
+  });
+  contentY += 0.85;
+
+  if (role) {
+    pptxSlide.addText(role, {
+      x: textX,
+      y: contentY,
+      w: textWidth,
+      h: 0.45,
+      fontSize: styles.heading.fontSize,
+      fontFace: styles.heading.fontFace,
+      color: styles.colors.primary,
+      align,
+      valign: "top",
+    });
+    contentY += 0.5;
+  }
+
+  if (bio) {
+    pptxSlide.addText(bio, {
+      x: textX,
+      y: contentY,
+      w: textWidth,
+      h: isCentered ? 0.95 : 1.15,
+      fontSize: styles.body.fontSize,
+      fontFace: styles.body.fontFace,
+      color: styles.colors.foregroundMuted,
+      align,
+      valign: "top",
+    });
+    contentY += isCentered ? 1 : 1.2;
+  }
+
+  if (points.length > 0) {
+    // Key points as pills, wrapping like the web layout's flex row
+    const pillHeight = 0.4;
+    const pillGap = 0.15;
+    const widths = points.map((point) => Math.min(0.5 + point.length * 0.09, textWidth));
+    const rows: number[][] = [[]];
+    let rowWidth = 0;
+    widths.forEach((w, i) => {
+      if (rowWidth + w > textWidth && rows[rows.length - 1].length > 0) {
+        rows.push([]);
+        rowWidth = 0;
+      }
+      rows[rows.length - 1].push(i);
+      rowWidth += w + pillGap;
+    });
+
+    rows.forEach((row, rowIndex) => {
+      const total = row.reduce((sum, i) => sum + widths[i] + pillGap, -pillGap);
+      let x = isCentered ? textX + (textWidth - total) / 2 : textX;
+      const y = contentY + rowIndex * (pillHeight + pillGap);
+
+      row.forEach((i) => {
+        pptxSlide.addShape("roundRect", {
+          x,
+          y,
+          w: widths[i],
+          h: pillHeight,
+          fill: { color: styles.colors.backgroundSubtle },
+          rectRadius: 0.08,
+        });
+        pptxSlide.addText(`• ${points[i]}`, {
+          x,
+          y,
+          w: widths[i],
+          h: pillHeight,
+          fontSize: styles.small.fontSize,
+          fontFace: styles.body.fontFace,
+          color: styles.colors.foreground,
+          align: "center",
+          valign: "middle",
+        });
+        x += widths[i] + pillGap;
+      });
+    });
+  }
+}
+
+// ============================================================================
+// Golden Template slides (Phase 8)
+// ============================================================================
+
+/**
+ * Golden Template palette and geometry
+ * Mirrors the hardcoded pixel values of the golden components
+ * (1280px slide = 13.333in, so 96px per inch and 0.75pt per px)
+ */
+const GOLDEN_PPTX = {
+  colors: {
+    pink: "E91E63",
+    pinkLight: "FCE4EC",
+    text: "0F172A",
+    textSecondary: "334155",
+    muted: "64748B",
+    border: "E2E8F0",
+    borderStrong: "CBD5E1",
+    bg: "FFFFFF",
+    bgSubtle: "F8FAFC",
+  },
+  padding: { x: 100 / 96, y: 80 / 96 },
+  titleSize: 27,
+  itemTitleSize: 16,
+  bodySize: 13,
+} as const;
+
+const GOLDEN_CONTENT_WIDTH = PPTX_DIMENSIONS.width - 2 * GOLDEN_PPTX.padding.x;
+
+/**
+ * Add a golden slide title and return the y position below it
+ */
+function addGoldenTitle(
+  pptxSlide: PptxGenJS.Slide,
+  blocks: Block[],
+  styles: PptxThemeStyles
+): number {
+  pptxSlide.background = { color: GOLDEN_PPTX.colors.bg };
+
+  const titleBlock = blocks.find((b) => b.kind === "title");
+  if (titleBlock) {
+    pptxSlide.addText(getBlockText(titleBlock), {
+      x: GOLDEN_PPTX.padding.x,
+      y: GOLDEN_PPTX.padding.y,
+      w: GOLDEN_CONTENT_WIDTH,
+      h: 0.6,
+      fontSize: GOLDEN_PPTX.titleSize,
+      fontFace: styles.title.fontFace,
+      color: GOLDEN_PPTX.colors.text,
+      bold: true,
+      valign: "top",
+    });
+  }
+
+  return GOLDEN_PPTX.padding.y + 1.1;
+}
+
+/**
+ * Add a golden item heading with optional description below it
+ */
+function addGoldenItemText(
+  pptxSlide: PptxGenJS.Slide,
+  data: { text: string; description?: string },
+  styles: PptxThemeStyles,
+  options: { x: number; y: number; w: number; align?: "left" | "right" }
+): void {
+  pptxSlide.addText(data.text, {
+    x: options.x,
+    y: options.y,
+    w: options.w,
+    h: 0.4,
+    fontSize: GOLDEN_PPTX.itemTitleSize,
+    fontFace: styles.heading.fontFace,
+    color: GOLDEN_PPTX.colors.text,
+    bold: true,
+    align: options.align ?? "left",
+    valign: "top",
+  });
+
+  if (data.description) {
+    pptxSlide.addText(data.description, {
+      x: options.x,
+      y: options.y + 0.4,
+      w: options.w,
+      h: 0.7,
+      fontSize: GOLDEN_PPTX.bodySize,
+      fontFace: styles.body.fontFace,
+      color: GOLDEN_PPTX.colors.muted,
+      align: options.align ?? "left",
+      valign: "top",
+    });
+  }
+}
+
+/**
+ * Render a golden icon grid slide (2x2 feature grid)
+ */
+function renderGoldenIconGridSlide(
+  pptxSlide: PptxGenJS.Slide,
+  blocks: Block[],
+  styles: PptxThemeStyles
+): void {
+  const contentY = addGoldenTitle(pptxSlide, blocks, styles);
+  const iconCards = blocks.filter((b) => b.kind === "icon_card").slice(0, 4);
+
+  const gap = 1 / 3;
+  const cellWidth = (GOLDEN_CONTENT_WIDTH - gap) / 2;
+  const cellHeight = 1.8;
+  const badgeSize = 0.58;
+
+  iconCards.forEach((block, index) => {
+    const data = getIconCardData(block);
+    const x = GOLDEN_PPTX.padding.x + (index % 2) * (cellWidth + gap);
+    const y = contentY + Math.floor(index / 2) * (cellHeight + gap);
+
+    // Pink icon badge with the icon's initial
+    pptxSlide.addShape("roundRect", {
+      x,
+      y,
+      w: badgeSize,
+      h: badgeSize,
+      fill: { color: GOLDEN_PPTX.colors.pinkLight },
+      rectRadius: 0.15,
+    });
+    pptxSlide.addText(data.icon.charAt(0).toUpperCase(), {
+      objectName: BADGE_SHAPE_NAME,
+      x,
+      y,
+      w: badgeSize,
+      h: badgeSize,
+      fontSize: 16,
+      bold: true,
+      color: GOLDEN_PPTX.colors.pink,
+      align: "center",
+      valign: "middle",
+    });
+
+    addGoldenItemText(pptxSlide, data, styles, {
+      x: x + badgeSize + 0.2,
+      y,
+      w: cellWidth - badgeSize - 0.2,
+    });
+  });
+}
+
+/**
+ * Render a golden horizontal timeline slide
+ */
+function renderGoldenTimelineSlide(
+  pptxSlide: PptxGenJS.Slide,
+  blocks: Block[],
+  styles: PptxThemeStyles
+): void {
+  const contentY = addGoldenTitle(pptxSlide, blocks, styles) + 0.3;
+  const steps = blocks.filter((b) => b.kind === "timeline_step").slice(0, 5);
+  if (steps.length === 0) return;
+
+  const gap = 1 / 3;
+  const columnWidth = (GOLDEN_CONTENT_WIDTH - gap * (steps.length - 1)) / steps.length;
+  const markerSize = 0.42;
+
+  // Track line through the marker centres
+  pptxSlide.addShape("rect", {
+    x: GOLDEN_PPTX.padding.x + markerSize / 2,
+    y: contentY + markerSize / 2 - 0.01,
+    w: GOLDEN_CONTENT_WIDTH - markerSize,
+    h: 0.02,
+    fill: { color: GOLDEN_PPTX.colors.border },
+  });
+
+  steps.forEach((block, index) => {
+    const data = getTimelineStepData(block);
+    const x = GOLDEN_PPTX.padding.x + index * (columnWidth + gap);
+    const isCompleted = data.status === "completed";
+    const isUpcoming = data.status === "upcoming" || data.status === undefined;
+
+    pptxSlide.addShape("ellipse", {
+      x,
+      y: contentY,
+      w: markerSize,
+      h: markerSize,
+      fill: { color: isCompleted ? GOLDEN_PPTX.colors.pink : GOLDEN_PPTX.colors.bg },
+      line: {
+        color: isUpcoming ? GOLDEN_PPTX.colors.borderStrong : GOLDEN_PPTX.colors.pink,
+        width: 2,
+      },
+    });
+    pptxSlide.addText(String(index + 1), {
+      objectName: BADGE_SHAPE_NAME,
+      x,
+      y: contentY,
+      w: markerSize,
+      h: markerSize,
+      fontSize: 12,
+      bold: true,
+      color: isCompleted
+        ? GOLDEN_PPTX.colors.bg
+        : isUpcoming
+          ? GOLDEN_PPTX.colors.muted
+          : GOLDEN_PPTX.colors.pink,
+      align: "center",
+      valign: "middle",
+    });
+
+    addGoldenItemText(pptxSlide, { text: data.title, description: data.description }, styles, {
+      x,
+      y: contentY + markerSize + 0.2,
+      w: columnWidth,
+    });
+  });
+}
+
+/**
+ * Render a golden checklist slide (checklist left, image right)
+ */
+async function renderGoldenChecklistSlide(
+  pptxSlide: PptxGenJS.Slide,
+  blocks: Block[],
+  styles: PptxThemeStyles
+): Promise<void> {
+  const contentY = addGoldenTitle(pptxSlide, blocks, styles);
+  const bulletsBlock = blocks.find((b) => b.kind === "bullets");
+  const imageBlock = blocks.find((b) => b.kind === "image");
+  const items = bulletsBlock ? getBlockItems(bulletsBlock).slice(0, 5) : [];
+
+  const gap = 2 / 3;
+  const listWidth = (GOLDEN_CONTENT_WIDTH - gap) * 0.6;
+  const imageWidth = (GOLDEN_CONTENT_WIDTH - gap) * 0.4;
+  const boxSize = 0.3;
+  const rowHeight = 0.75;
+
+  items.forEach((item, index) => {
+    const y = contentY + index * rowHeight;
+
+    pptxSlide.addShape("roundRect", {
+      x: GOLDEN_PPTX.padding.x,
+      y: y + 0.03,
+      w: boxSize,
+      h: boxSize,
+      fill: { color: GOLDEN_PPTX.colors.bg },
+      line: { color: GOLDEN_PPTX.colors.pink, width: 2 },
+      rectRadius: 0.08,
+    });
+    pptxSlide.addText("✓", {
+      objectName: BADGE_SHAPE_NAME,
+      x: GOLDEN_PPTX.padding.x,
+      y: y + 0.03,
+      w: boxSize,
+      h: boxSize,
+      fontSize: 12,
+      bold: true,
+      color: GOLDEN_PPTX.colors.pink,
+      align: "center",
+      valign: "middle",
+    });
+    pptxSlide.addText(item, {
+      x: GOLDEN_PPTX.padding.x + boxSize + 0.2,
+      y,
+      w: listWidth - boxSize - 0.2,
+      h: rowHeight - 0.1,
+      fontSize: 16,
+      fontFace: styles.body.fontFace,
+      color: GOLDEN_PPTX.colors.textSecondary,
+      valign: "top",
+    });
+  });
+
+  if (imageBlock) {
+    const imageData = getImageData(imageBlock);
+    const imageX = GOLDEN_PPTX.padding.x + listWidth + gap;
+    const imageHeight = PPTX_DIMENSIONS.height - 2 * GOLDEN_PPTX.padding.y;
+    if (imageData.url) {
+      await addImage(pptxSlide, imageData.url, {
+        x: imageX,
+        y: GOLDEN_PPTX.padding.y,
+        w: imageWidth,
+        h: imageHeight,
+        sizing: { type: "cover", w: imageWidth, h: imageHeight },
+      });
+    }
+  }
+}
+
+/**
+ * Render a golden numbered steps slide (3-4 cards in one row)
+ */
+function renderGoldenNumberedStepsSlide(
+  pptxSlide: PptxGenJS.Slide,
+  blocks: Block[],
+  styles: PptxThemeStyles
+): void {
+  const contentY = addGoldenTitle(pptxSlide, blocks, styles);
+  const cards = blocks.filter((b) => b.kind === "numbered_card").slice(0, 4);
+  if (cards.length === 0) return;
+
+  const gap = 1 / 3;
+  const cardWidth = (GOLDEN_CONTENT_WIDTH - gap * (cards.length - 1)) / cards.length;
+  const cardHeight = 2.8;
+  const padding = 0.3;
+
+  cards.forEach((block, index) => {
+    const data = getNumberedCardData(block);
+    const x = GOLDEN_PPTX.padding.x + index * (cardWidth + gap);
+
+    // Card with pink top border
+    pptxSlide.addShape("roundRect", {
+      x,
+      y: contentY,
+      w: cardWidth,
+      h: cardHeight,
+      fill: { color: GOLDEN_PPTX.colors.bgSubtle },
+      rectRadius: 0.15,
+    });
+    pptxSlide.addShape("rect", {
+      x,
+      y: contentY,
+      w: cardWidth,
+      h: 0.04,
+      fill: { color: GOLDEN_PPTX.colors.pink },
+    });
+
+    pptxSlide.addText(String(index + 1).padStart(2, "0"), {
+      x: x + padding,
+      y: contentY + padding,
+      w: cardWidth - 2 * padding,
+      h: 0.6,
+      fontSize: 36,
+      bold: true,
+      color: GOLDEN_PPTX.colors.pink,
+      valign: "top",
+    });
+
+    addGoldenItemText(pptxSlide, data, styles, {
+      x: x + padding,
+      y: contentY + padding + 0.75,
+      w: cardWidth - 2 * padding,
+    });
+  });
+}
+
+/**
+ * Render a golden circle diagram slide (central concept with 4 surrounding elements)
+ */
+function renderGoldenCircleDiagramSlide(
+  pptxSlide: PptxGenJS.Slide,
+  blocks: Block[],
+  styles: PptxThemeStyles
+): void {
+  const contentY = addGoldenTitle(pptxSlide, blocks, styles);
+  const textBlock = blocks.find((b) => b.kind === "text");
+  const elements = blocks.filter((b) => b.kind === "icon_card").slice(0, 4);
+
+  const circleSize = 260 / 96;
+  const sideGap = 56 / 96;
+  const diagramHeight = PPTX_DIMENSIONS.height - GOLDEN_PPTX.padding.y - contentY;
+  const circleX = (PPTX_DIMENSIONS.width - circleSize) / 2;
+  const circleY = contentY + (diagramHeight - circleSize) / 2;
+
+  pptxSlide.addShape("ellipse", {
+    x: circleX,
+    y: circleY,
+    w: circleSize,
+    h: circleSize,
+    fill: { color: GOLDEN_PPTX.colors.pink },
+  });
+  if (textBlock) {
+    pptxSlide.addText(getBlockText(textBlock), {
+      x: circleX + 0.3,
+      y: circleY,
+      w: circleSize - 0.6,
+      h: circleSize,
+      fontSize: 21,
+      fontFace: styles.heading.fontFace,
+      bold: true,
+      color: GOLDEN_PPTX.colors.bg,
+      align: "center",
+      valign: "middle",
+    });
+  }
+
+  // Clockwise from top-left, matching GoldenCircleDiagramSlide
+  const sideWidth = circleX - GOLDEN_PPTX.padding.x - sideGap;
+  const rowHeight = diagramHeight / 2;
+  const positions = [
+    { x: GOLDEN_PPTX.padding.x, row: 0, align: "right" as const },
+    { x: circleX + circleSize + sideGap, row: 0, align: "left" as const },
+    { x: circleX + circleSize + sideGap, row: 1, align: "left" as const },
+    { x: GOLDEN_PPTX.padding.x, row: 1, align: "right" as const },
+  ];
+
+  elements.forEach((block, index) => {
+    const position = positions[index];
+    addGoldenItemText(pptxSlide, getIconCardData(block), styles, {
+      x: position.x,
+      y: contentY + position.row * rowHeight + rowHeight / 2 - 0.55,
+      w: sideWidth,
+      align: position.align,
+    });
+  });
+}
+
+/**
+ * Render a golden cover slide (large left-aligned title with accent line)
+ * With a background image the text turns white over a dark overlay
+ */
+async function renderGoldenCoverSlide(
+  pptxSlide: PptxGenJS.Slide,
+  blocks: Block[],
+  styles: PptxThemeStyles
+): Promise<void> {
+  pptxSlide.background = { color: GOLDEN_PPTX.colors.bg };
+
+  const titleBlock = blocks.find((b) => b.kind === "title");
+  const textBlock = blocks.find((b) => b.kind === "text");
+  const imageBlock = blocks.find((b) => b.kind === "image");
+  const imageUrl = imageBlock ? getImageData(imageBlock).url : "";
+
+  const hasBackground =
+    imageUrl !== "" &&
+    (await addImage(pptxSlide, imageUrl, {
+      x: 0,
+      y: 0,
+      w: PPTX_DIMENSIONS.width,
+      h: PPTX_DIMENSIONS.height,
+      sizing: { type: "cover", w: PPTX_DIMENSIONS.width, h: PPTX_DIMENSIONS.height },
+    }));
+
+  if (hasBackground) {
+    pptxSlide.addShape("rect", {
+      x: 0,
+      y: 0,
+      w: PPTX_DIMENSIONS.width,
+      h: PPTX_DIMENSIONS.height,
+      fill: { color: "000000", transparency: 55 },
+    });
+  } else {
+    // Decorative pink glow in the bottom-right corner
+    pptxSlide.addShape("ellipse", {
+      x: PPTX_DIMENSIONS.width * 0.8,
+      y: PPTX_DIMENSIONS.height * 0.8,
+      w: PPTX_DIMENSIONS.width * 0.4,
+      h: PPTX_DIMENSIONS.height * 0.4,
+      fill: { color: GOLDEN_PPTX.colors.pink, transparency: 85 },
+    });
+  }
+
+  const titleY = PPTX_DIMENSIONS.height / 2 - 1.6;
+  if (titleBlock) {
+    pptxSlide.addText(getBlockText(titleBlock), {
+      x: GOLDEN_PPTX.padding.x,
+      y: titleY,
+      w: 800 / 96,
+      h: 1.8,
+      fontSize: 54,
+      fontFace: styles.title.fontFace,
+      color: hasBackground ? "FFFFFF" : GOLDEN_PPTX.colors.text,
+      bold: true,
+      valign: "bottom",
+    });
+  }
+
+  pptxSlide.addShape("rect", {
+    x: GOLDEN_PPTX.padding.x,
+    y: titleY + 2.05,
+    w: 120 / 96,
+    h: 4 / 96,
+    fill: { color: hasBackground ? "FFFFFF" : GOLDEN_PPTX.colors.pink },
+  });
+
+  if (textBlock) {
+    pptxSlide.addText(getBlockText(textBlock), {
+      x: GOLDEN_PPTX.padding.x,
+      y: titleY + 2.35,
+      w: 600 / 96,
+      h: 1,
+      fontSize: 18,
+      fontFace: styles.body.fontFace,
+      color: hasBackground ? "FFFFFF" : GOLDEN_PPTX.colors.muted,
+      valign: "top",
+    });
+  }
+}
+
+/**
+ * Render a golden stats slide (title, intro and three large pink numbers)
+ */
+function renderGoldenStatsSlide(
+  pptxSlide: PptxGenJS.Slide,
+  blocks: Block[],
+  styles: PptxThemeStyles
+): void {
+  let contentY = addGoldenTitle(pptxSlide, blocks, styles) - 0.3;
+  const textBlock = blocks.find((b) => b.kind === "text");
+  const stats = blocks.filter((b) => b.kind === "stat_block").slice(0, 3);
+
+  if (textBlock) {
+    pptxSlide.addText(getBlockText(textBlock), {
+      x: GOLDEN_PPTX.padding.x,
+      y: contentY,
+      w: 600 / 96,
+      h: 1,
+      fontSize: 15,
+      fontFace: styles.body.fontFace,
+      color: GOLDEN_PPTX.colors.muted,
+      valign: "top",
+    });
+    contentY += 1;
+  }
+
+  // Three equal columns anchored to the bottom, like the CSS grid
+  const gap = 0.5;
+  const columnWidth = (GOLDEN_CONTENT_WIDTH - 2 * gap) / 3;
+  const statY = Math.max(contentY + 0.3, PPTX_DIMENSIONS.height - GOLDEN_PPTX.padding.y - 1.8);
+
+  stats.forEach((block, index) => {
+    const data = getStatBlockData(block);
+    const x = GOLDEN_PPTX.padding.x + index * (columnWidth + gap);
+
+    pptxSlide.addText(data.value, {
+      x,
+      y: statY,
+      w: columnWidth,
+      h: 0.8,
+      fontSize: 48,
+      fontFace: styles.title.fontFace,
+      color: GOLDEN_PPTX.colors.pink,
+      bold: true,
+      valign: "bottom",
+    });
+    pptxSlide.addText(data.label, {
+      x,
+      y: statY + 0.85,
+      w: columnWidth,
+      h: 0.5,
+      fontSize: 13.5,
+      fontFace: styles.body.fontFace,
+      color: GOLDEN_PPTX.colors.textSecondary,
+      valign: "top",
+    });
+    if (data.sublabel) {
+      pptxSlide.addText(data.sublabel, {
+        x,
+        y: statY + 1.35,
+        w: columnWidth,
+        h: 0.4,
+        fontSize: 10.5,
+        fontFace: styles.body.fontFace,
+        color: GOLDEN_PPTX.colors.muted,
+        valign: "top",
+      });
+    }
+  });
+}
+
+/**
+ * Render a golden content slide (60/40 text and image)
+ * The text_right layout variant puts the image first
+ */
+async function renderGoldenContentSlide(
+  pptxSlide: PptxGenJS.Slide,
+  blocks: Block[],
+  styles: PptxThemeStyles,
+  variant?: string
+): Promise<void> {
+  pptxSlide.background = { color: GOLDEN_PPTX.colors.bg };
+
+  const titleBlock = blocks.find((b) => b.kind === "title");
+  const textBlock = blocks.find((b) => b.kind === "text");
+  const imageBlock = blocks.find((b) => b.kind === "image");
+
+  const gap = 64 / 96;
+  const textWidth = (GOLDEN_CONTENT_WIDTH - gap) * 0.6;
+  const imageWidth = (GOLDEN_CONTENT_WIDTH - gap) * 0.4;
+  const isTextLeft = variant !== "text_right";
+  const textX = isTextLeft ? GOLDEN_PPTX.padding.x : GOLDEN_PPTX.padding.x + imageWidth + gap;
+  const imageX = isTextLeft ? GOLDEN_PPTX.padding.x + textWidth + gap : GOLDEN_PPTX.padding.x;
+
+  // Text column, vertically centered
+  const textTop = PPTX_DIMENSIONS.height / 2 - 1.6;
+  if (titleBlock) {
+    pptxSlide.addText(getBlockText(titleBlock), {
+      x: textX,
+      y: textTop,
+      w: textWidth,
+      h: 0.9,
+      fontSize: GOLDEN_PPTX.titleSize,
+      fontFace: styles.title.fontFace,
+      color: GOLDEN_PPTX.colors.text,
+      bold: true,
+      valign: "bottom",
+    });
+  }
+  if (textBlock) {
+    pptxSlide.addText(getBlockText(textBlock), {
+      x: textX,
+      y: textTop + 1.15,
+      w: textWidth,
+      h: 2.2,
+      fontSize: 15,
+      fontFace: styles.body.fontFace,
+      color: GOLDEN_PPTX.colors.textSecondary,
+      valign: "top",
+    });
+  }
+
+  // Image column (max 400px tall), with a light placeholder when missing
+  const imageHeight = 400 / 96;
+  const imageY = (PPTX_DIMENSIONS.height - imageHeight) / 2;
+  const imageUrl = imageBlock ? getImageData(imageBlock).url : "";
+  const added =
+    imageUrl !== "" &&
+    (await addImage(pptxSlide, imageUrl, {
+      x: imageX,
+      y: imageY,
+      w: imageWidth,
+      h: imageHeight,
+      sizing: { type: "cover", w: imageWidth, h: imageHeight },
+    }));
+
+  if (!added) {
+    pptxSlide.addShape("roundRect", {
+      x: imageX,
+      y: imageY,
+      w: imageWidth,
+      h: imageHeight,
+      fill: { color: "F1F5F9" },
+      rectRadius: 0.17,
+    });
+  }
+}
+
+/**
+ * Render a golden bullets slide (up to 5 items with pink dots)
+ */
+function renderGoldenBulletsSlide(
+  pptxSlide: PptxGenJS.Slide,
+  blocks: Block[],
+  styles: PptxThemeStyles
+): void {
+  const contentY = addGoldenTitle(pptxSlide, blocks, styles);
+  const bulletsBlock = blocks.find((b) => b.kind === "bullets");
+  const items = bulletsBlock ? getBlockItems(bulletsBlock).slice(0, 5) : [];
+
+  const rowHeight = 0.85;
+  const dotSize = 8 / 96;
+
+  items.forEach((item, index) => {
+    const y = contentY + index * rowHeight;
+
+    pptxSlide.addShape("ellipse", {
+      x: GOLDEN_PPTX.padding.x,
+      y: y + 0.12,
+      w: dotSize,
+      h: dotSize,
+      fill: { color: GOLDEN_PPTX.colors.pink },
+    });
+    pptxSlide.addText(item, {
+      x: GOLDEN_PPTX.padding.x + dotSize + 16 / 96,
+      y,
+      w: GOLDEN_CONTENT_WIDTH - dotSize - 16 / 96,
+      h: rowHeight - 0.1,
+      fontSize: 16.5,
+      fontFace: styles.body.fontFace,
+      color: GOLDEN_PPTX.colors.textSecondary,
+      valign: "top",
+    });
+  });
+}
+
+/**
+ * Render a golden call-to-action slide (centered title with numbered actions)
+ */
+function renderGoldenCTASlide(
+  pptxSlide: PptxGenJS.Slide,
+  blocks: Block[],
+  styles: PptxThemeStyles
+): void {
+  pptxSlide.background = { color: GOLDEN_PPTX.colors.bg };
+
+  const titleBlock = blocks.find((b) => b.kind === "title");
+  const textBlock = blocks.find((b) => b.kind === "text");
+  const bulletsBlock = blocks.find((b) => b.kind === "bullets");
+  const actions = bulletsBlock ? getBlockItems(bulletsBlock).slice(0, 3) : [];
+
+  const actionRow = 0.5;
+  const height =
+    1 + (textBlock ? 1 : 0) + (actions.length > 0 ? 0.3 + actions.length * actionRow : 0);
+  let y = (PPTX_DIMENSIONS.height - height) / 2;
+
+  if (titleBlock) {
+    pptxSlide.addText(getBlockText(titleBlock), {
+      x: GOLDEN_PPTX.padding.x,
+      y,
+      w: GOLDEN_CONTENT_WIDTH,
+      h: 0.9,
+      fontSize: 36,
+      fontFace: styles.title.fontFace,
+      color: GOLDEN_PPTX.colors.text,
+      bold: true,
+      align: "center",
+      valign: "middle",
+    });
+  }
+  y += 1;
+
+  if (textBlock) {
+    pptxSlide.addText(getBlockText(textBlock), {
+      x: (PPTX_DIMENSIONS.width - 600 / 96) / 2,
+      y,
+      w: 600 / 96,
+      h: 0.9,
+      fontSize: 15,
+      fontFace: styles.body.fontFace,
+      color: GOLDEN_PPTX.colors.muted,
+      align: "center",
+      valign: "top",
+    });
+    y += 1;
+  }
+
+  // Numbered pink badges, centered as a group
+  const badgeSize = 28 / 96;
+  const actionWidth = 6;
+  const actionX = (PPTX_DIMENSIONS.width - actionWidth) / 2;
+  y += 0.3;
+
+  actions.forEach((action, index) => {
+    const rowY = y + index * actionRow;
+    pptxSlide.addShape("ellipse", {
+      x: actionX,
+      y: rowY,
+      w: badgeSize,
+      h: badgeSize,
+      fill: { color: GOLDEN_PPTX.colors.pink },
+    });
+    pptxSlide.addText(String(index + 1), {
+      objectName: BADGE_SHAPE_NAME,
+      x: actionX,
+      y: rowY,
+      w: badgeSize,
+      h: badgeSize,
+      fontSize: 10.5,
+      bold: true,
+      color: "FFFFFF",
+      align: "center",
+      valign: "middle",
+    });
+    pptxSlide.addText(action, {
+      x: actionX + badgeSize + 0.15,
+      y: rowY - 0.05,
+      w: actionWidth - badgeSize - 0.15,
+      h: badgeSize + 0.1,
+      fontSize: 15,
+      fontFace: styles.body.fontFace,
+      color: GOLDEN_PPTX.colors.text,
+      valign: "middle",
+    });
+  });
+
+  // Faint accent line near the bottom
+  pptxSlide.addShape("rect", {
+    x: (PPTX_DIMENSIONS.width - 80 / 96) / 2,
+    y: PPTX_DIMENSIONS.height - 60 / 96 - 4 / 96,
+    w: 80 / 96,
+    h: 4 / 96,
+    fill: { color: GOLDEN_PPTX.colors.pink, transparency: 50 },
+  });
+}
+
+/**
+ * Render slide based on type
+ */
+async function renderSlide(pptx: PptxGenJS, slide: Slide, styles: PptxThemeStyles): Promise<void> {
+  const pptxSlide = pptx.addSlide();
+
+  // Speaker notes go on the notes page (PowerPoint presenter view)
+  if (slide.notes) {
+    pptxSlide.addNotes(slide.notes);
+  }
+
+  // Golden slides mirror their pixel-perfect golden components
+  switch (slide.goldenType) {
+    case "cover":
+      await renderGoldenCoverSlide(pptxSlide, slide.blocks, styles);
+      return;
+
+    case "stats":
+      renderGoldenStatsSlide(pptxSlide, slide.blocks, styles);
+      return;
+
+    case "content":
+      await renderGoldenContentSlide(pptxSlide, slide.blocks, styles, slide.layoutVariant);
+      return;
+
+    case "bullets":
+      renderGoldenBulletsSlide(pptxSlide, slide.blocks, styles);
+      return;
+
+    case "cta":
+      renderGoldenCTASlide(pptxSlide, slide.blocks, styles);
+      return;
+
+    case "icon_grid":
+      renderGoldenIconGridSlide(pptxSlide, slide.blocks, styles);
+      return;
+
+    case "timeline":
+      renderGoldenTimelineSlide(pptxSlide, slide.blocks, styles);
+      return;
+
+    case "checklist":
+      await renderGoldenChecklistSlide(pptxSlide, slide.blocks, styles);
+      return;
+
+    case "numbered_steps":
+      renderGoldenNumberedStepsSlide(pptxSlide, slide.blocks, styles);
+      return;
+
+    case "circle_diagram":
+      renderGoldenCircleDiagramSlide(pptxSlide, slide.blocks, styles);
+      return;
+  }
+
+  switch (slide.type) {
+    case "cover":
+      await renderCoverSlide(pptxSlide, slide.blocks, styles, slide.layoutVariant);
+      break;
+
+    case "section_header":
+      renderSectionHeaderSlide(pptxSlide, slide.blocks, styles, slide.layoutVariant);
+      break;
+
+    case "agenda": {
+      const bulletsBlock = slide.blocks.find((b) => b.kind === "bullets");
+      const variant = resolveAgendaVariant(
+        bulletsBlock ? getBlockItems(bulletsBlock) : [],
+        slide.layoutVariant
+      );
+      renderItemCardsSlide(pptxSlide, slide.blocks, styles, {
+        columns: (count) => (count <= 6 ? 2 : 3),
+        badge: (index) => String(index + 1),
+        badgeColor: styles.colors.primary,
+        stacked: variant === "cards",
+      });
+      break;
+    }
+
+    case "bullets":
+      renderBulletsSlide(pptxSlide, slide.blocks, styles, slide.layoutVariant);
+      break;
+
+    // The web layouts render these as card grids whatever the variant
+    case "decisions_list":
+      renderItemCardsSlide(pptxSlide, slide.blocks, styles, {
+        columns: (count) => (count <= 3 ? 1 : 2),
+        badge: () => "✓",
+        badgeColor: styles.colors.success,
+      });
+      break;
+
+    case "summary_next_steps":
+      renderItemCardsSlide(pptxSlide, slide.blocks, styles, {
+        columns: (count) => (count <= 2 ? 1 : count <= 6 ? 2 : 3),
+        badge: (index) => String(index + 1),
+        badgeColor: styles.colors.primary,
+      });
+      break;
+
+    case "two_column_text":
+    case "text_plus_image":
+      await renderTwoColumnSlide(pptxSlide, slide.blocks, styles, slide.layoutVariant);
+      break;
+
+    case "action_items_table":
+      renderTableSlide(pptxSlide, slide.blocks, styles, slide.layoutVariant);
+      break;
+
+    case "quote_callout":
+      renderQuoteSlide(pptxSlide, slide.blocks, styles, slide.layoutVariant);
+      break;
+
+    case "timeline_roadmap":
+      renderTimelineRoadmapSlide(pptxSlide, slide.blocks, styles, slide.layoutVariant);
+      break;
+
+    case "numbered_grid":
+      renderNumberedGridSlide(pptxSlide, slide.blocks, styles, slide.layoutVariant);
+      break;
+
+    case "icon_cards_with_image":
+      await renderIconCardsWithImageSlide(pptxSlide, slide.blocks, styles, slide.layoutVariant);
+      break;
+
+    case "summary_with_stats":
+      renderSummaryWithStatsSlide(pptxSlide, slide.blocks, styles, slide.layoutVariant);
+      break;
+
+    case "hero_stats":
+      await renderHeroStatsSlide(pptxSlide, slide.blocks, styles, slide.layoutVariant);
+      break;
+
+    case "split_with_callouts":
+      await renderSplitWithCalloutsSlide(pptxSlide, slide.blocks, styles, slide.layoutVariant);
+      break;
+
+    case "person_spotlight":
+      await renderPersonSpotlightSlide(pptxSlide, slide.blocks, styles, slide.layoutVariant);
       break;
 
     default:
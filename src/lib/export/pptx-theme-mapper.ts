@@ -6,6 +6,7 @@
  */
 
 import type { ThemeTokens } from "@/lib/themes";
+import { getChartColors } from "@/lib/themes";
 
 /**
  * Slide dimensions in inches (standard PowerPoint 16:9)
@@ -89,6 +90,8 @@ export interface PptxThemeStyles {
     error: string;
     info: string;
   };
+  /** Chart series palette, same order as the web renderer */
+  chartColors: string[];
   defaultFont: string;
   headingFont: string;
 }
@@ -147,6 +150,7 @@ export function themeToPptxStyles(tokens: ThemeTokens): PptxThemeStyles {
       error: hexToRgb(tokens.colors.error),
       info: hexToRgb(tokens.colors.info),
     },
+    chartColors: getChartColors(tokens.colors).map(hexToRgb),
     defaultFont,
     headingFont,
   };
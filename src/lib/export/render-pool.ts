@@ -0,0 +1,47 @@
+/**
+ * Render Pool
+ *
+ * Runs async work over a list with a bounded number of tasks in flight, so
+ * slides render in parallel without opening a browser page per slide at once.
+ */
+
+/**
+ * Map over items with at most `limit` calls running at a time
+ *
+ * Results keep the order of the items. The first rejection stops new work
+ * from starting and is rethrown once running tasks settle.
+ *
+ * @param items - Items to process
+ * @param limit - Maximum concurrent calls (at least 1)
+ * @param fn - Async work per item
+ */
+export async function mapWithConcurrency<T, R>(
+  items: readonly T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  let failed = false;
+
+  const worker = async () => {
+    while (!failed && next < items.length) {
+      const index = next++;
+      try {
+        results[index] = await fn(items[index], index);
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+    }
+  };
+
+  const workers = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker);
+  const settled = await Promise.allSettled(workers);
+  const rejected = settled.find((s): s is PromiseRejectedResult => s.status === "rejected");
+  if (rejected) {
+    throw rejected.reason;
+  }
+
+  return results;
+}
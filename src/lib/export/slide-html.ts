@@ -10,7 +10,13 @@ import { createElement } from "react";
 import type { Slide } from "@/lib/schemas/slide";
 import type { ThemeId, BrandKitOverrides } from "@/lib/themes";
 import { getTheme, applyBrandKit, themeToCssVars } from "@/lib/themes";
-import { SlideRenderer } from "@/components/slides";
+import { SlideRenderer, SlideLocaleProvider } from "@/components/slides";
+import {
+  resolveExportLocale,
+  generateLocaleStyles,
+  withFallbackFonts,
+  type ExportLocale,
+} from "./locale";
 
 /**
  * Base dimensions for PDF rendering (matches SlideCanvas)
@@ -68,6 +74,12 @@ function generateBaseStyles(cssVars: Record<string, string>): string {
       flex-direction: column;
     }
 
+    /* Golden slides carry their own hardcoded padding and white background */
+    .slide-container.golden {
+      padding: 0;
+      background-color: #FFFFFF;
+    }
+
     /* Typography utilities */
     .font-heading {
       font-family: var(--theme-font-family-heading);
@@ -122,6 +134,10 @@ function generateBaseStyles(cssVars: Record<string, string>): string {
     .gap-4 { gap: 1rem; }
     .gap-6 { gap: 1.5rem; }
     .gap-8 { gap: 2rem; }
+    .grid { display: grid; }
+    .grid-cols-2 { grid-template-columns: repeat(2, minmax(0, 1fr)); }
+    .mx-auto { margin-left: auto; margin-right: auto; }
+    .max-w-5xl { max-width: 64rem; }
 
     /* Spacing utilities */
     .p-4 { padding: 1rem; }
@@ -200,6 +216,10 @@ function generateBaseStyles(cssVars: Record<string, string>): string {
     .img-contain { object-fit: contain; }
     .img-fill { object-fit: fill; }
 
+    /* Chart styles (chart blocks are inline SVG with inline styles) */
+    .chart-block { margin: 0; break-inside: avoid; }
+    .chart-block svg { display: block; width: 100%; height: auto; overflow: visible; }
+
     /* Text utilities */
     .text-center { text-align: center; }
     .text-left { text-align: left; }
@@ -232,43 +252,80 @@ function generateBaseStyles(cssVars: Record<string, string>): string {
   `;
 }
 
+/**
+ * Generate the theme and base CSS for rendering slides outside the app
+ *
+ * @param themeId - The theme to apply
+ * @param brandKit - Optional brand kit color overrides
+ * @param locale - Deck locale: adds hyphenation, quotation marks and
+ *   fallback fonts for the deck's script
+ * @returns CSS string for a <style> element
+ */
+export function generateSlideStyles(
+  themeId: ThemeId,
+  brandKit?: BrandKitOverrides,
+  locale?: ExportLocale
+): string {
+  const theme = applyBrandKit(getTheme(themeId), brandKit);
+  const cssVars = themeToCssVars(theme.tokens);
+  if (!locale) {
+    return generateBaseStyles(cssVars);
+  }
+
+  for (const name of ["--theme-font-family", "--theme-font-family-heading"]) {
+    cssVars[name] = withFallbackFonts(cssVars[name], locale);
+  }
+  return generateBaseStyles(cssVars) + generateLocaleStyles(locale);
+}
+
+/**
+ * Render a slide to its static container markup, without a document around it
+ *
+ * @param slide - The slide data to render
+ * @param locale - Deck locale, for quotation marks drawn by slide components
+ */
+export function renderSlideMarkup(slide: Slide, locale?: ExportLocale): string {
+  const element = createElement(SlideRenderer, { slide });
+  const slideHtml = renderToStaticMarkup(
+    locale
+      ? createElement(SlideLocaleProvider, { value: { quotes: locale.quotes } }, element)
+      : element
+  );
+  return `<div class="${slide.goldenType ? "slide-container golden" : "slide-container"}">
+    ${slideHtml}
+  </div>`;
+}
+
 /**
  * Render a single slide to static HTML
  *
  * @param slide - The slide data to render
  * @param themeId - The theme to apply
  * @param brandKit - Optional brand kit color overrides
+ * @param language - Deck language (BCP 47), default Norwegian
  * @returns Complete HTML document string
  */
 export function renderSlideToHtml(
   slide: Slide,
   themeId: ThemeId,
-  brandKit?: BrandKitOverrides
+  brandKit?: BrandKitOverrides,
+  language: string = "no"
 ): string {
-  // Get and apply theme
-  const baseTheme = getTheme(themeId);
-  const theme = applyBrandKit(baseTheme, brandKit);
-  const cssVars = themeToCssVars(theme.tokens);
-
-  // Render slide component to static markup
-  const slideElement = createElement(SlideRenderer, { slide });
-  const slideHtml = renderToStaticMarkup(slideElement);
+  const locale = resolveExportLocale(language);
 
   // Wrap in full HTML document
   const html = `<!DOCTYPE html>
-<html lang="no">
+<html lang="${locale.lang}" dir="${locale.dir}">
 <head>
   <meta charset="UTF-8">
   <meta name="viewport" content="width=${PDF_DIMENSIONS.width}, height=${PDF_DIMENSIONS.height}">
   <title>Slide</title>
   <style>
-    ${generateBaseStyles(cssVars)}
+    ${generateSlideStyles(themeId, brandKit, locale)}
   </style>
 </head>
 <body>
-  <div class="slide-container">
-    ${slideHtml}
-  </div>
+  ${renderSlideMarkup(slide, locale)}
 </body>
 </html>`;
 
@@ -281,12 +338,14 @@ export function renderSlideToHtml(
  * @param slides - Array of slides to render
  * @param themeId - The theme to apply
  * @param brandKit - Optional brand kit color overrides
+ * @param language - Deck language (BCP 47), default Norwegian
  * @returns Array of HTML document strings
  */
 export function renderSlidesToHtml(
   slides: Slide[],
   themeId: ThemeId,
-  brandKit?: BrandKitOverrides
+  brandKit?: BrandKitOverrides,
+  language?: string
 ): string[] {
-  return slides.map((slide) => renderSlideToHtml(slide, themeId, brandKit));
+  return slides.map((slide) => renderSlideToHtml(slide, themeId, brandKit, language));
 }
@@ -0,0 +1,77 @@
+/**
+ * Slide PDF Cache
+ *
+ * Keeps each slide's rendered PDF page keyed by a hash of its HTML, so
+ * re-exporting a deck after editing one slide only renders that slide.
+ * The HTML covers slide content, theme, brand kit and renderer markup.
+ */
+
+import { createHash } from "crypto";
+
+/**
+ * Storage for rendered single-slide PDFs
+ */
+export interface SlidePdfCache {
+  get(hash: string): Promise<Buffer | undefined>;
+  set(hash: string, pdf: Buffer): Promise<void>;
+}
+
+/**
+ * Hash of a slide's rendered HTML
+ */
+export function hashSlideHtml(html: string): string {
+  return createHash("sha256").update(html).digest("hex");
+}
+
+/**
+ * In-memory LRU cache bounded by total size
+ *
+ * @param maxBytes - Least recently used entries are dropped above this size
+ */
+export function createMemorySlidePdfCache(maxBytes: number): SlidePdfCache {
+  // Map iteration order is insertion order: oldest first
+  const entries = new Map<string, Buffer>();
+  let totalBytes = 0;
+
+  return {
+    async get(hash) {
+      const pdf = entries.get(hash);
+      if (pdf) {
+        entries.delete(hash);
+        entries.set(hash, pdf);
+      }
+      return pdf;
+    },
+
+    async set(hash, pdf) {
+      if (pdf.length > maxBytes) return;
+
+      const existing = entries.get(hash);
+      if (existing) {
+        totalBytes -= existing.length;
+        entries.delete(hash);
+      }
+      entries.set(hash, pdf);
+      totalBytes += pdf.length;
+
+      for (const [oldest, oldPdf] of entries) {
+        if (totalBytes <= maxBytes) break;
+        entries.delete(oldest);
+        totalBytes -= oldPdf.length;
+      }
+    },
+  };
+}
+
+let defaultCache: SlidePdfCache | null = null;
+
+/**
+ * Process-wide cache shared by PDF exports (PDF_SLIDE_CACHE_MB, default 200)
+ */
+export function getDefaultSlidePdfCache(): SlidePdfCache {
+  if (!defaultCache) {
+    const megabytes = parseInt(process.env.PDF_SLIDE_CACHE_MB ?? "200", 10);
+    defaultCache = createMemorySlidePdfCache(megabytes * 1024 * 1024);
+  }
+  return defaultCache;
+}
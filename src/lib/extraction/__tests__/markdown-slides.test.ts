@@ -0,0 +1,163 @@
+/**
+ * Markdown Slides Tests
+ *
+ * Slide breaks, block mapping and file extraction for Markdown talk drafts.
+ */
+
+import { describe, it, expect } from "vitest";
+import { isMarkdownSlideInput, markdownToOutline, markdownToSlides } from "../markdown-slides";
+import { extractContent, MARKDOWN_MIME_TYPE, resolveMimeType, validateFile } from "..";
+import { SlideSchema } from "@/lib/schemas/slide";
+
+const draft = `---
+title: Overgang til monorepo
+marp: true
+---
+
+# Overgang til monorepo
+Arkitekturforum, **uke 12**
+
+---
+
+## Hvorfor nå?
+
+- Tre repoer med *samme* kode
+- Versjonering tar en dag per release
+- [ ] Avklare eierskap
+
+<!-- Nevn hendelsen fra i fjor -->
+
+---
+
+## Byggetider
+
+| Repo | Minutter |
+|------|---------:|
+| web  | 14 |
+| api  | 9 |
+
+---
+
+> Den beste tiden å flytte var i fjor.
+> — Tech lead
+
+---
+
+## Arkitektur
+
+Alle pakker bygges med samme verktøy.
+
+![Avhengighetsgraf](https://cdn.example.com/graph.png)
+
+---
+
+# Del 2
+
+\`\`\`
+---
+ikke et skille
+\`\`\`
+`;
+
+describe("Markdown slides", () => {
+  it("detects slide drafts", () => {
+    expect(isMarkdownSlideInput(draft)).toBe(true);
+    expect(isMarkdownSlideInput("## En\n\ntekst\n\n## To\n\nmer tekst")).toBe(true);
+    expect(isMarkdownSlideInput("Vanlig tekst\n---\nmed setext-overskrift")).toBe(false);
+    expect(isMarkdownSlideInput("Møtenotater fra uke 50")).toBe(false);
+  });
+
+  it("maps structure to slide types and blocks", () => {
+    const { title, slides } = markdownToSlides(draft);
+
+    expect(title).toBe("Overgang til monorepo");
+    expect(slides.map((s) => s.type)).toEqual([
+      "cover",
+      "bullets",
+      "action_items_table",
+      "quote_callout",
+      "text_plus_image",
+      "section_header",
+    ]);
+    slides.forEach((slide) => expect(SlideSchema.safeParse(slide).success).toBe(true));
+
+    expect(slides[0].blocks).toEqual([
+      { kind: "title", text: "Overgang til monorepo" },
+      { kind: "text", text: "Arkitekturforum, uke 12" },
+    ]);
+    expect(slides[1].blocks[1].items).toEqual([
+      "Tre repoer med samme kode",
+      "Versjonering tar en dag per release",
+      "Avklare eierskap",
+    ]);
+    expect(slides[1].notes).toBe("Nevn hendelsen fra i fjor");
+    expect(slides[2].blocks[1]).toMatchObject({
+      columns: ["Repo", "Minutter"],
+      rows: [
+        ["web", "14"],
+        ["api", "9"],
+      ],
+    });
+    expect(slides[3].blocks).toEqual([
+      { kind: "callout", text: "Den beste tiden å flytte var i fjor.", style: "quote" },
+      { kind: "text", text: "Tech lead" },
+    ]);
+    expect(slides[4].blocks).toEqual([
+      { kind: "title", text: "Arkitektur" },
+      { kind: "text", text: "Alle pakker bygges med samme verktøy." },
+      {
+        kind: "image",
+        url: "https://cdn.example.com/graph.png",
+        alt: "Avhengighetsgraf",
+        cropMode: "cover",
+      },
+    ]);
+  });
+
+  it("keeps separators inside code blocks", () => {
+    const { slides } = markdownToSlides(draft);
+
+    expect(slides).toHaveLength(6);
+    expect(slides[5].blocks[1]).toEqual({ kind: "text", text: "---\nikke et skille" });
+  });
+
+  it("splits on headings when there are no separators", () => {
+    const outline = markdownToOutline(
+      "# Plan\n\n## Mål\n\n- Raskere bygg\n- Færre feil\n\n## Neste steg\n\nPilot i april."
+    );
+
+    expect(outline.slides).toEqual([
+      { title: "Plan", suggestedType: "cover" },
+      { title: "Mål", suggestedType: "bullets" },
+      { title: "Neste steg", suggestedType: "section_header" },
+    ]);
+  });
+
+  it("continues long lists on extra slides", () => {
+    const items = Array.from({ length: 10 }, (_, i) => `- Punkt ${i + 1}`).join("\n");
+    const { slides } = markdownToSlides(`## Start\n\n---\n\n## Liste\n\n${items}`);
+
+    expect(slides.map((s) => s.blocks[0].text)).toEqual(["Start", "Liste", "Liste (forts.)"]);
+    expect(slides[2].blocks[1].items).toEqual(["Punkt 9", "Punkt 10"]);
+  });
+
+  describe("file extraction", () => {
+    it("accepts Markdown uploads, also without a browser MIME type", () => {
+      expect(validateFile(MARKDOWN_MIME_TYPE, 1024).valid).toBe(true);
+      expect(resolveMimeType("foredrag.md", "")).toBe(MARKDOWN_MIME_TYPE);
+      expect(resolveMimeType("notater.txt", "text/plain")).toBe("text/plain");
+    });
+
+    it("keeps blank lines and indentation", async () => {
+      const result = await extractContent(
+        Buffer.from(
+          "# Tittel  \r\n\r\n\r\n\r\n- Punkt\r\n  - Underpunkt\r\n\r\n---\r\n\r\n## Neste"
+        ),
+        MARKDOWN_MIME_TYPE
+      );
+
+      expect(result.text).toBe("# Tittel\n\n- Punkt\n  - Underpunkt\n\n---\n\n## Neste");
+      expect(result.metadata?.pageCount).toBe(2);
+    });
+  });
+});
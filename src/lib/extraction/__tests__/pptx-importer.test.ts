@@ -0,0 +1,308 @@
+/**
+ * PPTX Import Tests
+ *
+ * Round-trips decks through our own PPTX export, and imports hand-built
+ * files that use PowerPoint placeholders, layouts, pictures and notes.
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import JSZip from "jszip";
+import { importPptx } from "../pptx-importer";
+import { parsePptx } from "../pptx-parser";
+import { extractContent, PPTX_MIME_TYPE, validateFile } from "..";
+import { renderSlidesToPptx } from "@/lib/export/pptx-renderer";
+import { DeckSchema } from "@/lib/schemas/deck";
+import type { Slide } from "@/lib/schemas/slide";
+
+const REL_TYPE = "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+
+const shape = (placeholder: string | null, paragraphs: string) =>
+  `<p:sp><p:nvSpPr><p:cNvPr id="2" name="Shape"/><p:cNvSpPr/><p:nvPr>${
+    placeholder ? `<p:ph ${placeholder}/>` : ""
+  }</p:nvPr></p:nvSpPr><p:txBody>${paragraphs}</p:txBody></p:sp>`;
+
+const paragraph = (text: string, pPr = "") => `<a:p>${pPr}<a:r><a:t>${text}</a:t></a:r></a:p>`;
+
+const slideXml = (shapes: string) =>
+  `<p:sld xmlns:a="a" xmlns:r="r" xmlns:p="p"><p:cSld><p:spTree>${shapes}</p:spTree></p:cSld></p:sld>`;
+
+interface TestSlide {
+  xml: string;
+  layout: string;
+  notes?: string;
+  image?: boolean;
+}
+
+/**
+ * Build a minimal PowerPoint file with placeholders, layouts, notes and media
+ */
+async function buildPptx(slides: TestSlide[]): Promise<Buffer> {
+  const zip = new JSZip();
+  zip.file(
+    "ppt/presentation.xml",
+    `<p:presentation><p:sldIdLst>${slides
+      .map((_, i) => `<p:sldId id="${256 + i}" r:id="rId${i + 1}"/>`)
+      .reverse()
+      .join("")}</p:sldIdLst></p:presentation>`
+  );
+  // Slide order comes from the slide list, which is reversed here
+  zip.file(
+    "ppt/_rels/presentation.xml.rels",
+    `<Relationships>${slides
+      .map(
+        (_, i) =>
+          `<Relationship Id="rId${i + 1}" Type="${REL_TYPE}/slide" Target="slides/slide${slides.length - i}.xml"/>`
+      )
+      .join("")}</Relationships>`
+  );
+  zip.file(
+    "docProps/core.xml",
+    "<cp:coreProperties><dc:title>Strategi &amp; plan</dc:title></cp:coreProperties>"
+  );
+
+  slides.forEach((slide, i) => {
+    const n = i + 1;
+    const rels = [
+      `<Relationship Id="rId1" Type="${REL_TYPE}/slideLayout" Target="../slideLayouts/${slide.layout}.xml"/>`,
+    ];
+    if (slide.notes) {
+      rels.push(
+        `<Relationship Id="rId2" Type="${REL_TYPE}/notesSlide" Target="../notesSlides/notesSlide${n}.xml"/>`
+      );
+      zip.file(
+        `ppt/notesSlides/notesSlide${n}.xml`,
+        slideXml(
+          shape('type="sldImg"', "") +
+            shape('type="body" idx="1"', paragraph(slide.notes)) +
+            shape('type="sldNum"', paragraph(String(n)))
+        )
+      );
+    }
+    if (slide.image) {
+      rels.push(
+        `<Relationship Id="rId3" Type="${REL_TYPE}/image" Target="../media/image${n}.png"/>`
+      );
+      zip.file(`ppt/media/image${n}.png`, Buffer.from("png-bytes"));
+    }
+    zip.file(`ppt/slides/slide${n}.xml`, slideXml(slide.xml));
+    zip.file(
+      `ppt/slides/_rels/slide${n}.xml.rels`,
+      `<Relationships>${rels.join("")}</Relationships>`
+    );
+  });
+
+  for (const layout of ["title", "secHead", "obj", "picTx"]) {
+    zip.file(`ppt/slideLayouts/${layout}.xml`, `<p:sldLayout type="${layout}"></p:sldLayout>`);
+  }
+
+  return zip.generateAsync({ type: "nodebuffer" });
+}
+
+describe("PPTX import", () => {
+  it("round-trips slides exported by the PPTX renderer", async () => {
+    const slides: Slide[] = [
+      {
+        type: "cover",
+        blocks: [
+          { kind: "title", text: "Kvartalsrapport" },
+          { kind: "text", text: "Q3 2024" },
+        ],
+      },
+      {
+        type: "bullets",
+        blocks: [
+          { kind: "title", text: "Hovedpunkter" },
+          { kind: "bullets", items: ["Vekst i alle regioner", "Flere kunder", "Nytt marked"] },
+        ],
+        notes: "Husk å nevne tallene",
+      },
+      {
+        type: "action_items_table",
+        blocks: [
+          { kind: "title", text: "Tiltak" },
+          {
+            kind: "table",
+            columns: ["Oppgave", "Eier", "Frist"],
+            rows: [
+              ["Lansere", "Kari", "Q4"],
+              ["Evaluere", "Ola", "Q1"],
+            ],
+          },
+        ],
+      },
+    ];
+
+    const deck = await importPptx(await renderSlidesToPptx(slides, "nordic_light"), {
+      title: "Rapport",
+    });
+
+    expect(DeckSchema.safeParse(deck).success).toBe(true);
+    expect(deck.deck.title).toBe("Rapport");
+    expect(deck.slides.map((s) => s.type)).toEqual(["cover", "bullets", "action_items_table"]);
+    expect(deck.slides[0].blocks).toEqual([
+      { kind: "title", text: "Kvartalsrapport" },
+      { kind: "text", text: "Q3 2024" },
+    ]);
+    expect(deck.slides[1].blocks).toEqual(slides[1].blocks);
+    expect(deck.slides[1].notes).toBe("Husk å nevne tallene");
+    expect(deck.slides[2].blocks[1]).toMatchObject({
+      columns: ["Oppgave", "Eier", "Frist"],
+      rows: [
+        ["Lansere", "Kari", "Q4"],
+        ["Evaluere", "Ola", "Q1"],
+      ],
+    });
+  });
+
+  it("maps placeholders, layouts, pictures and notes", async () => {
+    const buffer = await buildPptx([
+      {
+        layout: "title",
+        xml:
+          shape('type="ctrTitle"', paragraph("Strategi 2025")) +
+          shape('type="subTitle" idx="1"', paragraph("Ledermøte &lt;mars&gt;")),
+      },
+      {
+        layout: "secHead",
+        xml: shape('type="title"', paragraph("Del 1: Marked")),
+        notes: "Kort pause før denne delen",
+      },
+      {
+        layout: "obj",
+        xml:
+          shape('type="title"', paragraph("Prioriteringer")) +
+          shape(
+            'idx="1"',
+            paragraph("Kunder") +
+              paragraph("Eksisterende kunder", '<a:pPr lvl="1"/>') +
+              paragraph("Produkt")
+          ) +
+          shape('type="sldNum"', paragraph("3")),
+      },
+      {
+        layout: "picTx",
+        image: true,
+        xml:
+          shape('type="title"', paragraph("Teamet")) +
+          shape(
+            'type="body" idx="1"',
+            paragraph("Tolv ansatte i Oslo", "<a:pPr><a:buNone/></a:pPr>")
+          ) +
+          '<p:pic><p:nvPicPr><p:cNvPr id="4" name="Bilde" descr="Teamet på kontoret"/></p:nvPicPr><p:blipFill><a:blip r:embed="rId3"/></p:blipFill></p:pic>',
+      },
+    ]);
+
+    const resolveImage = vi.fn(async () => "https://cdn.example.com/team.png");
+    const deck = await importPptx(buffer, { resolveImage });
+
+    expect(deck.deck.title).toBe("Strategi & plan");
+    expect(deck.slides.map((s) => s.type)).toEqual([
+      "cover",
+      "section_header",
+      "bullets",
+      "text_plus_image",
+    ]);
+    expect(deck.slides[0].blocks[1]).toEqual({ kind: "text", text: "Ledermøte <mars>" });
+    expect(deck.slides[1].notes).toBe("Kort pause før denne delen");
+    expect(deck.slides[2].blocks[1].items).toEqual(["Kunder", "Eksisterende kunder", "Produkt"]);
+
+    expect(resolveImage).toHaveBeenCalledWith(
+      expect.objectContaining({ path: "ppt/media/image4.png", contentType: "image/png" }),
+      3
+    );
+    expect(deck.slides[3].blocks).toEqual([
+      { kind: "title", text: "Teamet" },
+      { kind: "text", text: "Tolv ansatte i Oslo" },
+      {
+        kind: "image",
+        url: "https://cdn.example.com/team.png",
+        alt: "Teamet på kontoret",
+        cropMode: "cover",
+      },
+    ]);
+  });
+
+  it("continues long bullet lists on extra slides", async () => {
+    const items = Array.from({ length: 11 }, (_, i) => paragraph(`Punkt ${i + 1}`)).join("");
+    const buffer = await buildPptx([
+      { layout: "title", xml: shape('type="ctrTitle"', paragraph("Plan")) },
+      {
+        layout: "obj",
+        xml: shape('type="title"', paragraph("Mål")) + shape('idx="1"', items),
+      },
+    ]);
+
+    const deck = await importPptx(buffer);
+
+    expect(deck.slides).toHaveLength(3);
+    expect(deck.slides[1].blocks[1].items).toHaveLength(8);
+    expect(deck.slides[2].blocks[0].text).toBe("Mål (forts.)");
+    expect(deck.slides[2].blocks[1].items).toEqual(["Punkt 9", "Punkt 10", "Punkt 11"]);
+  });
+
+  it("drops images when no image store is given", async () => {
+    const buffer = await buildPptx([
+      { layout: "title", xml: shape('type="ctrTitle"', paragraph("Plan")) },
+      {
+        layout: "picTx",
+        image: true,
+        xml:
+          shape('type="title"', paragraph("Bilde")) +
+          '<p:pic><p:nvPicPr><p:cNvPr id="4" name="Bilde"/></p:nvPicPr><p:blipFill><a:blip r:embed="rId3"/></p:blipFill></p:pic>',
+      },
+    ]);
+
+    const deck = await importPptx(buffer);
+
+    expect(deck.slides[1].blocks.some((b) => b.kind === "image")).toBe(false);
+  });
+
+  it("keeps short number and check mark text boxes that are not export badges", async () => {
+    const parsed = await parsePptx(
+      await buildPptx([
+        {
+          layout: "obj",
+          xml:
+            shape('type="title"', paragraph("Nøkkeltall")) +
+            shape(null, paragraph("42")) +
+            shape(null, paragraph("✓")),
+        },
+      ])
+    );
+
+    expect(parsed.slides[0].textShapes.map((s) => s.paragraphs[0].text)).toEqual(["42", "✓"]);
+  });
+
+  it("rejects files that are not presentations", async () => {
+    await expect(parsePptx(Buffer.from("not a zip"))).rejects.toThrow("Invalid PPTX file");
+    await expect(
+      parsePptx(await new JSZip().generateAsync({ type: "nodebuffer" }))
+    ).rejects.toThrow("missing ppt/presentation.xml");
+  });
+
+  describe("text extraction", () => {
+    it("accepts PPTX uploads", () => {
+      expect(validateFile(PPTX_MIME_TYPE, 1024).valid).toBe(true);
+    });
+
+    it("extracts slide text with tables as Markdown", async () => {
+      const buffer = await renderSlidesToPptx(
+        [
+          {
+            type: "action_items_table",
+            blocks: [
+              { kind: "title", text: "Omsetning" },
+              { kind: "table", columns: ["Kvartal", "MNOK"], rows: [["Q1", "12"]] },
+            ],
+          },
+        ],
+        "nordic_light"
+      );
+
+      const result = await extractContent(buffer, PPTX_MIME_TYPE);
+
+      expect(result.text).toBe("Omsetning\n| Kvartal | MNOK |\n|---|---|\n| Q1 | 12 |");
+      expect(result.metadata?.pageCount).toBe(1);
+    });
+  });
+});
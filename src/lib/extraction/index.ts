@@ -2,11 +2,15 @@
  * Content Extraction Factory
  *
  * Central entry point for extracting text from various file types.
+ * PowerPoint files can also be imported as editable decks (see pptx-importer),
+ * and Markdown drafts keep their slide structure (see markdown-slides).
  */
 
 import { extractPdf } from "./pdf-extractor";
 import { extractDocx } from "./docx-extractor";
 import { extractTxt } from "./txt-extractor";
+import { extractPptx } from "./pptx-extractor";
+import { extractMarkdown } from "./md-extractor";
 import type { ExtractionResult } from "./types";
 
 export type { ExtractionResult } from "./types";
@@ -16,23 +20,36 @@ export { MAX_TEXT_LENGTH, sanitizeText, truncateIfNeeded } from "./types";
 export const SUPPORTED_MIME_TYPES = [
   "application/pdf",
   "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  "application/vnd.openxmlformats-officedocument.presentationml.presentation",
   "text/plain",
+  "text/markdown",
 ] as const;
 
+// PowerPoint MIME type (can be imported as an editable deck)
+export const PPTX_MIME_TYPE =
+  "application/vnd.openxmlformats-officedocument.presentationml.presentation";
+
+// Markdown MIME type (slide structure can be kept as-is)
+export const MARKDOWN_MIME_TYPE = "text/markdown";
+
 export type SupportedMimeType = (typeof SUPPORTED_MIME_TYPES)[number];
 
 // File extension mappings
 export const MIME_TYPE_EXTENSIONS: Record<SupportedMimeType, string> = {
   "application/pdf": ".pdf",
   "application/vnd.openxmlformats-officedocument.wordprocessingml.document": ".docx",
+  "application/vnd.openxmlformats-officedocument.presentationml.presentation": ".pptx",
   "text/plain": ".txt",
+  "text/markdown": ".md",
 };
 
 // Human-readable format names
 export const MIME_TYPE_NAMES: Record<SupportedMimeType, string> = {
   "application/pdf": "PDF",
   "application/vnd.openxmlformats-officedocument.wordprocessingml.document": "Word (DOCX)",
+  "application/vnd.openxmlformats-officedocument.presentationml.presentation": "PowerPoint (PPTX)",
   "text/plain": "Tekstfil (TXT)",
+  "text/markdown": "Markdown (MD)",
 };
 
 /**
@@ -42,6 +59,19 @@ export function isSupportedMimeType(mimeType: string): mimeType is SupportedMime
   return SUPPORTED_MIME_TYPES.includes(mimeType as SupportedMimeType);
 }
 
+/**
+ * Resolve the MIME type of a file, falling back to its extension when the
+ * browser leaves the type empty (as most do for .md files)
+ */
+export function resolveMimeType(fileName: string, mimeType: string): string {
+  if (mimeType && mimeType !== "application/octet-stream") return mimeType;
+
+  const extension = fileName.slice(fileName.lastIndexOf(".")).toLowerCase();
+  if (extension === ".markdown") return MARKDOWN_MIME_TYPE;
+  const match = SUPPORTED_MIME_TYPES.find((type) => MIME_TYPE_EXTENSIONS[type] === extension);
+  return match ?? mimeType;
+}
+
 /**
  * Extract text content from a file buffer based on MIME type
  *
@@ -58,9 +88,15 @@ export async function extractContent(buffer: Buffer, mimeType: string): Promise<
     case "application/vnd.openxmlformats-officedocument.wordprocessingml.document":
       return extractDocx(buffer);
 
+    case "application/vnd.openxmlformats-officedocument.presentationml.presentation":
+      return extractPptx(buffer);
+
     case "text/plain":
       return extractTxt(buffer);
 
+    case "text/markdown":
+      return extractMarkdown(buffer);
+
     default:
       throw new Error(`Unsupported MIME type: ${mimeType}`);
   }
@@ -82,7 +118,7 @@ export function validateFile(
   if (!isSupportedMimeType(mimeType)) {
     return {
       valid: false,
-      error: `Ugyldig filtype. Støttede formater: PDF, DOCX, TXT`,
+      error: `Ugyldig filtype. Støttede formater: PDF, DOCX, PPTX, TXT, MD`,
       errorCode: "INVALID_FILE_TYPE",
     };
   }
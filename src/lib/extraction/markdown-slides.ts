@@ -0,0 +1,457 @@
+/**
+ * Markdown Slides
+ *
+ * Maps Markdown talk drafts straight to slides, for the "preserve" text mode.
+ * Slides are separated by `---` lines (or start at each `#`/`##` heading when
+ * there are no separators). Within a slide, the first heading is the title,
+ * lists become bullets, tables become table slides, images become text +
+ * image slides and blockquotes become quote slides. HTML comments are
+ * speaker notes, as in Marp and reveal.js.
+ */
+
+import type { Block } from "@/lib/schemas/block";
+import type { Outline, Slide } from "@/lib/schemas/slide";
+import { BLOCK_CONSTRAINTS, truncateText } from "@/lib/editor/constraints";
+import {
+  bulletSlides,
+  contentBlock,
+  tableBlock,
+  textBlock,
+  titleBlock,
+  toBulletItems,
+} from "./slide-builder";
+
+/** Same cap as generated outlines */
+const MAX_SLIDES = 30;
+const MAX_NOTES_CHARS = 5000;
+
+/** Text this short reads as a subtitle rather than slide body */
+const MAX_SUBTITLE_CHARS = 150;
+
+export type MarkdownElement =
+  | { type: "heading"; level: number; text: string }
+  | { type: "paragraph"; text: string }
+  | { type: "list"; items: string[] }
+  | { type: "table"; rows: string[][] }
+  | { type: "image"; alt: string; url: string }
+  | { type: "quote"; text: string; attribution?: string };
+
+export interface MarkdownSection {
+  elements: MarkdownElement[];
+  notes?: string;
+}
+
+const SEPARATOR = /^\s*(-{3,}|\*{3,}|_{3,})\s*$/;
+const FENCE = /^\s*(```|~~~)/;
+const HEADING = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const LIST_ITEM = /^(\s*)([-*+]|\d+[.)])\s+(.*)$/;
+const IMAGE = /^!\[([^\]]*)\]\(\s*(\S+?)(?:\s+["'][^"']*["'])?\s*\)$/;
+const TABLE_DIVIDER = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+const ATTRIBUTION = /^(—|–|--|-)\s*/;
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+/**
+ * Remove inline Markdown: emphasis, code, links and HTML tags
+ */
+function stripInline(text: string): string {
+  return text
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, "$1")
+    .replace(/(\*\*|__)(.+?)\1/g, "$2")
+    .replace(/(?<![\w*])\*(?!\s)(.+?)(?<!\s)\*(?![\w*])/g, "$1")
+    .replace(/(?<!\w)_(?!\s)(.+?)(?<!\s)_(?!\w)/g, "$1")
+    .replace(/~~(.+?)~~/g, "$1")
+    .replace(/`([^`]+)`/g, "$1")
+    .replace(/<[^>]+>/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Split a table row into cells; `\|` is a literal pipe inside a cell (GFM)
+ */
+function splitTableRow(line: string): string[] {
+  return line
+    .trim()
+    .replace(/^\||(?<!\\)\|$/g, "")
+    .split(/(?<!\\)\|/)
+    .map((cell) => stripInline(cell.replace(/\\\|/g, "|")));
+}
+
+/**
+ * Parse one slide's Markdown into elements, collecting HTML comments as notes
+ */
+export function parseMarkdownSection(markdown: string): MarkdownSection {
+  const notes: string[] = [];
+  const withoutComments = markdown.replace(/<!--([\s\S]*?)-->/g, (_, comment: string) => {
+    if (comment.trim()) notes.push(comment.trim());
+    return "";
+  });
+
+  const lines = withoutComments.split("\n");
+  const elements: MarkdownElement[] = [];
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    const text = stripInline(paragraph.join(" "));
+    if (text) elements.push({ type: "paragraph", text });
+    paragraph = [];
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const trimmed = line.trim();
+
+    if (!trimmed) {
+      flushParagraph();
+      continue;
+    }
+
+    // Code blocks are kept verbatim as a paragraph
+    if (FENCE.test(line)) {
+      flushParagraph();
+      const code: string[] = [];
+      while (i + 1 < lines.length && !FENCE.test(lines[i + 1])) {
+        code.push(lines[++i]);
+      }
+      i++;
+      if (code.some((l) => l.trim())) {
+        elements.push({ type: "paragraph", text: code.join("\n").trim() });
+      }
+      continue;
+    }
+
+    const heading = trimmed.match(HEADING);
+    if (heading) {
+      flushParagraph();
+      elements.push({ type: "heading", level: heading[1].length, text: stripInline(heading[2]) });
+      continue;
+    }
+
+    // Setext headings: a line underlined with === or ---
+    if (paragraph.length === 1 && /^(=+|-+)$/.test(trimmed)) {
+      const text = stripInline(paragraph[0]);
+      paragraph = [];
+      elements.push({ type: "heading", level: trimmed.startsWith("=") ? 1 : 2, text });
+      continue;
+    }
+
+    const image = trimmed.match(IMAGE);
+    if (image) {
+      flushParagraph();
+      elements.push({ type: "image", alt: stripInline(image[1]), url: image[2] });
+      continue;
+    }
+
+    if (trimmed.startsWith(">")) {
+      flushParagraph();
+      const quoteLines: string[] = [];
+      while (i < lines.length && lines[i].trim().startsWith(">")) {
+        quoteLines.push(lines[i].trim().replace(/^>\s?/, ""));
+        i++;
+      }
+      i--;
+      const last = quoteLines[quoteLines.length - 1] ?? "";
+      const attribution =
+        quoteLines.length > 1 && ATTRIBUTION.test(last)
+          ? stripInline(quoteLines.pop()!.replace(ATTRIBUTION, ""))
+          : undefined;
+      const text = stripInline(quoteLines.join(" "));
+      if (text) elements.push({ type: "quote", text, attribution });
+      continue;
+    }
+
+    if (trimmed.includes("|") && TABLE_DIVIDER.test(lines[i + 1] ?? "")) {
+      flushParagraph();
+      const rows = [splitTableRow(trimmed)];
+      i += 2;
+      while (i < lines.length && lines[i].trim().includes("|")) {
+        rows.push(splitTableRow(lines[i]));
+        i++;
+      }
+      i--;
+      elements.push({ type: "table", rows });
+      continue;
+    }
+
+    const listItem = line.match(LIST_ITEM);
+    if (listItem && paragraph.length === 0) {
+      const items: string[] = [];
+      while (i < lines.length) {
+        const current = lines[i];
+        const item = current.match(LIST_ITEM);
+        if (item) {
+          items.push(item[3].replace(/^\[[ xX]\]\s+/, ""));
+        } else if (current.trim() && /^\s+/.test(current) && items.length > 0) {
+          // Indented continuation of the previous item
+          items[items.length - 1] += ` ${current.trim()}`;
+        } else {
+          break;
+        }
+        i++;
+      }
+      i--;
+      elements.push({ type: "list", items: items.map(stripInline).filter(Boolean) });
+      continue;
+    }
+
+    paragraph.push(trimmed);
+  }
+  flushParagraph();
+
+  return { elements, notes: notes.length > 0 ? notes.join("\n\n") : undefined };
+}
+
+/**
+ * Split front matter (`key: value` lines between leading `---` lines)
+ * from the document
+ */
+function splitFrontMatter(markdown: string): { body: string; title?: string } {
+  const match = markdown.match(/^\s*---\n((?:[\w-]+:.*\n)+)---\s*(?:\n|$)/);
+  if (!match) return { body: markdown };
+
+  const title = match[1].match(/^title:\s*["']?(.*?)["']?\s*$/m)?.[1];
+  return { body: markdown.slice(match[0].length), title: title || undefined };
+}
+
+/**
+ * Split a document into slide sources on `---` separators outside code
+ * blocks. A `---` right under a text line is a setext heading, not a break.
+ */
+function splitOnSeparators(markdown: string): string[] {
+  const sections: string[][] = [[]];
+  let inFence = false;
+
+  for (const line of markdown.split("\n")) {
+    if (FENCE.test(line)) inFence = !inFence;
+
+    const current = sections[sections.length - 1];
+    const previous = current[current.length - 1];
+    if (!inFence && SEPARATOR.test(line) && (previous === undefined || !previous.trim())) {
+      sections.push([]);
+      continue;
+    }
+    current.push(line);
+  }
+
+  return sections.map((lines) => lines.join("\n")).filter((section) => section.trim());
+}
+
+/**
+ * Split a document into slides at each `#` or `##` heading
+ */
+function splitOnHeadings(markdown: string): string[] {
+  const sections: string[][] = [[]];
+  let inFence = false;
+
+  for (const line of markdown.split("\n")) {
+    if (FENCE.test(line)) inFence = !inFence;
+    if (!inFence && /^#{1,2}\s/.test(line) && sections[sections.length - 1].some((l) => l.trim())) {
+      sections.push([]);
+    }
+    sections[sections.length - 1].push(line);
+  }
+
+  return sections.map((lines) => lines.join("\n")).filter((section) => section.trim());
+}
+
+function splitSlides(markdown: string): string[] {
+  const separated = splitOnSeparators(markdown);
+  return separated.length > 1 ? separated : splitOnHeadings(markdown);
+}
+
+/**
+ * Check if input is a Markdown slide draft: slide separators, or at least
+ * two top-level headings to split on
+ */
+export function isMarkdownSlideInput(text: string): boolean {
+  const { body } = splitFrontMatter(text.replace(/\r\n?/g, "\n"));
+  if (splitOnSeparators(body).length > 1) return true;
+  return (body.match(/^#{1,2}\s+\S/gm) ?? []).length >= 2;
+}
+
+// ============================================================================
+// Mapping to slides
+// ============================================================================
+
+function isImageUrl(url: string): boolean {
+  return /^https?:\/\//i.test(url) || /^data:image\//i.test(url);
+}
+
+/**
+ * Map one parsed section to slides
+ */
+function sectionToSlides(section: MarkdownSection, isFirst: boolean): Slide[] {
+  const notes = section.notes?.slice(0, MAX_NOTES_CHARS);
+  const withNotes = (slide: Slide): Slide => (notes ? { ...slide, notes } : slide);
+
+  const [firstHeading] = section.elements.filter((e) => e.type === "heading");
+  const title = firstHeading?.type === "heading" ? firstHeading.text : undefined;
+  const titleBlocks = title ? [titleBlock(title)] : [];
+
+  // Later headings are kept as text
+  const content = section.elements
+    .filter((e) => e !== firstHeading)
+    .map((e): MarkdownElement => (e.type === "heading" ? { type: "paragraph", text: e.text } : e));
+
+  const tables = content.filter((e) => e.type === "table");
+  const quotes = content.filter((e) => e.type === "quote");
+  const images = content.filter(
+    (e): e is Extract<MarkdownElement, { type: "image" }> => e.type === "image" && isImageUrl(e.url)
+  );
+  const textElements = content.filter(
+    (e): e is Extract<MarkdownElement, { type: "paragraph" | "list" }> =>
+      e.type === "paragraph" || e.type === "list"
+  );
+  const texts = textElements.flatMap((e) => (e.type === "list" ? e.items : [e.text]));
+  const hasList = textElements.some((e) => e.type === "list");
+  const shortText = !hasList && texts.length <= 1 && (texts[0]?.length ?? 0) <= MAX_SUBTITLE_CHARS;
+
+  // Quote slide
+  if (quotes.length > 0 && tables.length === 0 && images.length === 0 && texts.length === 0) {
+    const [quote] = quotes;
+    if (quote.type !== "quote") return [];
+    return [
+      withNotes({
+        type: "quote_callout",
+        blocks: [
+          {
+            kind: "callout",
+            text: truncateText(quote.text, BLOCK_CONSTRAINTS.callout.maxChars),
+            style: "quote",
+          },
+          ...(quote.attribution ? [textBlock(quote.attribution)] : []),
+        ],
+      }),
+    ];
+  }
+
+  const imageBlock: Block | undefined = images[0] && {
+    kind: "image",
+    url: images[0].url,
+    alt: truncateText(images[0].alt, BLOCK_CONSTRAINTS.image.maxAltChars),
+    cropMode: "cover",
+  };
+
+  // Cover: a first slide with a top-level title and at most a subtitle
+  if (
+    isFirst &&
+    firstHeading?.type === "heading" &&
+    firstHeading.level === 1 &&
+    tables.length === 0 &&
+    quotes.length === 0 &&
+    shortText
+  ) {
+    return [
+      withNotes({
+        type: "cover",
+        blocks: [
+          ...titleBlocks,
+          ...(texts[0] ? [textBlock(texts[0])] : []),
+          ...(imageBlock ? [imageBlock] : []),
+        ],
+      }),
+    ];
+  }
+
+  const slides: Slide[] = [];
+  // Quotes next to other content are kept as text
+  const allTexts = [...texts, ...quotes.flatMap((q) => (q.type === "quote" ? [q.text] : []))];
+  const isList = hasList || allTexts.length > 1;
+
+  if (imageBlock) {
+    slides.push({
+      type: "text_plus_image",
+      blocks: [
+        ...titleBlocks,
+        ...(allTexts.length > 0 ? [contentBlock(allTexts, isList)] : []),
+        imageBlock,
+      ],
+    });
+  } else if (textElements.length === 2 && quotes.length === 0) {
+    // Two text runs side by side (e.g. a paragraph and a list)
+    slides.push({
+      type: "two_column_text",
+      blocks: [
+        ...titleBlocks,
+        ...textElements.map((e) =>
+          e.type === "list" ? contentBlock(e.items, true) : contentBlock([e.text], false)
+        ),
+      ],
+    });
+  } else if (allTexts.length > 1 || hasList) {
+    slides.push(...bulletSlides(title, toBulletItems(allTexts)));
+  } else if (allTexts.length === 1 && allTexts[0].length > MAX_SUBTITLE_CHARS) {
+    slides.push({
+      type: "two_column_text",
+      blocks: [...titleBlocks, contentBlock(allTexts, false)],
+    });
+  } else if (tables.length === 0 && (title || allTexts.length > 0)) {
+    // Section divider: a heading with at most a short line
+    slides.push({
+      type: "section_header",
+      blocks: [...titleBlocks, ...(allTexts[0] ? [textBlock(allTexts[0])] : [])],
+    });
+  }
+
+  // Each table gets its own slide, after any text from the same section
+  for (const table of tables) {
+    if (table.type !== "table" || table.rows.length === 0) continue;
+    slides.push({
+      type: "action_items_table",
+      blocks: [...titleBlocks, tableBlock(table.rows)],
+    });
+  }
+
+  // Notes belong to the first slide made from the section
+  return slides.map((slide, i) => (i === 0 ? withNotes(slide) : slide));
+}
+
+/**
+ * Parse a Markdown document into sections, one per slide
+ */
+export function parseMarkdownSlides(markdown: string): {
+  title?: string;
+  sections: MarkdownSection[];
+} {
+  const { body, title } = splitFrontMatter(markdown.replace(/\r\n?/g, "\n"));
+  return { title, sections: splitSlides(body).map(parseMarkdownSection) };
+}
+
+/**
+ * Map a Markdown document directly to slides, without rewriting any text
+ */
+export function markdownToSlides(markdown: string): { title: string; slides: Slide[] } {
+  const { title, sections } = parseMarkdownSlides(markdown);
+  const slides = sections
+    .flatMap((section, i) => sectionToSlides(section, i === 0))
+    .slice(0, MAX_SLIDES);
+
+  const firstTitle = slides
+    .flatMap((s) => s.blocks)
+    .find((b) => b.kind === "title" && b.text)?.text;
+
+  return { title: title ?? firstTitle ?? "Presentasjon", slides };
+}
+
+/**
+ * Outline matching the slides markdownToSlides produces
+ */
+export function markdownToOutline(markdown: string): Outline {
+  const { title, slides } = markdownToSlides(markdown);
+  return {
+    title: truncateText(title, 100),
+    slides: slides.map((slide, i) => ({
+      title: truncateText(
+        slide.blocks.find((b) => b.kind === "title")?.text ||
+          slide.blocks.find((b) => b.text)?.text ||
+          `Lysbilde ${i + 1}`,
+        100
+      ),
+      suggestedType: slide.type,
+    })),
+  };
+}
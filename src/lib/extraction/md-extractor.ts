@@ -0,0 +1,49 @@
+/**
+ * Markdown Content Extractor
+ *
+ * Extracts Markdown files as-is, keeping the structure (headings, lists,
+ * tables, `---` slide breaks) that the "preserve" text mode maps to slides.
+ * Blank lines and indentation are significant here, so this does its own
+ * light normalisation instead of sanitizeText.
+ */
+
+import { parseMarkdownSlides } from "./markdown-slides";
+import { type ExtractionResult, truncateIfNeeded, countWords, MAX_TEXT_LENGTH } from "./types";
+
+/**
+ * Normalise line endings and whitespace without touching Markdown structure
+ */
+function normalizeMarkdown(text: string): string {
+  return (
+    text
+      // Remove null bytes and BOM
+      .replace(/\0|^\uFEFF/g, "")
+      // Normalize line endings
+      .replace(/\r\n?/g, "\n")
+      // Remove trailing whitespace on each line
+      .replace(/[ \t]+$/gm, "")
+      // Collapse runs of blank lines
+      .replace(/\n{3,}/g, "\n\n")
+      .trim()
+  );
+}
+
+/**
+ * Extract text content from a Markdown buffer
+ */
+export async function extractMarkdown(buffer: Buffer): Promise<ExtractionResult> {
+  const normalized = normalizeMarkdown(buffer.toString("utf-8"));
+
+  // Truncate if needed
+  const { text, truncated } = truncateIfNeeded(normalized, MAX_TEXT_LENGTH);
+
+  return {
+    text,
+    charCount: text.length,
+    truncated,
+    metadata: {
+      pageCount: parseMarkdownSlides(text).sections.length,
+      wordCount: countWords(text),
+    },
+  };
+}
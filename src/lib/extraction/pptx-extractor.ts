@@ -0,0 +1,62 @@
+/**
+ * PPTX Content Extractor
+ *
+ * Extracts slide text from PowerPoint files so they can be used as a
+ * text source. Each slide becomes a heading with its text, bullets and
+ * tables (as Markdown tables, which content analysis reads as data).
+ */
+
+import { parsePptx, type PptxSlide } from "./pptx-parser";
+import {
+  type ExtractionResult,
+  sanitizeText,
+  truncateIfNeeded,
+  countWords,
+  MAX_TEXT_LENGTH,
+} from "./types";
+
+function slideToText(slide: PptxSlide): string {
+  const lines: string[] = [];
+
+  if (slide.title) {
+    lines.push(slide.title);
+  }
+
+  for (const shape of slide.textShapes) {
+    for (const paragraph of shape.paragraphs) {
+      lines.push(
+        paragraph.bullet ? `${"  ".repeat(paragraph.level)}- ${paragraph.text}` : paragraph.text
+      );
+    }
+  }
+
+  for (const [header, ...rows] of slide.tables) {
+    lines.push(`| ${header.join(" | ")} |`, `|${header.map(() => "---").join("|")}|`);
+    rows.forEach((row) => lines.push(`| ${row.join(" | ")} |`));
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Extract text content from a PPTX buffer
+ */
+export async function extractPptx(buffer: Buffer): Promise<ExtractionResult> {
+  const { slides } = await parsePptx(buffer);
+
+  // Sanitize the extracted text
+  const sanitized = sanitizeText(slides.map(slideToText).join("\n"));
+
+  // Truncate if needed
+  const { text, truncated } = truncateIfNeeded(sanitized, MAX_TEXT_LENGTH);
+
+  return {
+    text,
+    charCount: text.length,
+    truncated,
+    metadata: {
+      pageCount: slides.length,
+      wordCount: countWords(text),
+    },
+  };
+}
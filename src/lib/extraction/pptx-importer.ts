@@ -0,0 +1,199 @@
+/**
+ * PPTX Importer
+ *
+ * Converts a parsed PowerPoint file into an editable Deck.
+ * Each slide maps to the closest slide type we have: title slides become
+ * covers, tables become table slides, pictures become text + image slides,
+ * and everything else becomes bullets. Text is clipped to block limits and
+ * long bullet lists continue on extra slides so the result passes DeckSchema.
+ */
+
+import { DeckSchema, type Deck, type ThemeId } from "@/lib/schemas/deck";
+import type { Block } from "@/lib/schemas/block";
+import type { Slide } from "@/lib/schemas/slide";
+import { BLOCK_CONSTRAINTS, truncateText } from "@/lib/editor/constraints";
+import {
+  bulletSlides,
+  contentBlock,
+  tableBlock,
+  textBlock,
+  titleBlock,
+  toBulletItems,
+} from "./slide-builder";
+import { parsePptx, type ParsedPptx, type PptxImage, type PptxSlide } from "./pptx-parser";
+
+const MAX_SLIDES = 50;
+const MAX_NOTES_CHARS = 5000;
+const MAX_DECK_TITLE_CHARS = 200;
+
+/** Subtitle texts longer than this read as body text rather than a subtitle */
+const MAX_SUBTITLE_CHARS = 150;
+
+export interface PptxImportOptions {
+  /** Deck title (falls back to the file's title property, then the first slide) */
+  title?: string;
+  language?: string;
+  themeId?: ThemeId;
+  /**
+   * Store an image and return its URL. Images are dropped when this is not
+   * given or returns undefined.
+   */
+  resolveImage?: (image: PptxImage, slideIndex: number) => Promise<string | undefined>;
+}
+
+async function imageBlock(
+  image: PptxImage,
+  slideIndex: number,
+  resolveImage: PptxImportOptions["resolveImage"]
+): Promise<Block | undefined> {
+  const url = await resolveImage?.(image, slideIndex);
+  if (!url) return undefined;
+  return {
+    kind: "image",
+    url,
+    alt: truncateText(image.alt ?? "", BLOCK_CONSTRAINTS.image.maxAltChars),
+    cropMode: "cover",
+  };
+}
+
+/**
+ * Map one PowerPoint slide to one or more deck slides
+ */
+async function convertSlide(
+  source: PptxSlide,
+  slideIndex: number,
+  options: PptxImportOptions
+): Promise<Slide[]> {
+  const title = source.title ? [titleBlock(source.title)] : [];
+  const notes = source.notes ? { notes: source.notes.slice(0, MAX_NOTES_CHARS) } : {};
+
+  const subtitles = source.textShapes.filter((s) => s.placeholder === "subTitle");
+  const bodies = source.textShapes.filter((s) => s.placeholder !== "subTitle");
+  const bodyParagraphs = bodies.flatMap((s) => s.paragraphs);
+  const subtitle = [...subtitles, ...bodies]
+    .flatMap((s) => s.paragraphs.map((p) => p.text))
+    .join(" ");
+
+  const image = source.images[0]
+    ? await imageBlock(source.images[0], slideIndex, options.resolveImage)
+    : undefined;
+
+  // Title slide: explicit title layout, or a first slide with at most a subtitle
+  const isTitleSlide =
+    source.layoutType === "title" ||
+    (slideIndex === 0 &&
+      source.tables.length === 0 &&
+      bodyParagraphs.length <= 1 &&
+      subtitle.length <= MAX_SUBTITLE_CHARS);
+  if (isTitleSlide) {
+    return [
+      {
+        type: "cover",
+        blocks: [...title, ...(subtitle ? [textBlock(subtitle)] : []), ...(image ? [image] : [])],
+        ...notes,
+      },
+    ];
+  }
+
+  if (source.tables.length > 0) {
+    return [
+      {
+        type: "action_items_table",
+        blocks: [...title, tableBlock(source.tables[0])],
+        ...notes,
+      },
+    ];
+  }
+
+  if (image) {
+    const texts = bodyParagraphs.map((p) => p.text);
+    const isList = bodyParagraphs.some((p) => p.bullet) || texts.length > 1;
+    return [
+      {
+        type: "text_plus_image",
+        blocks: [...title, ...(texts.length > 0 ? [contentBlock(texts, isList)] : []), image],
+        ...notes,
+      },
+    ];
+  }
+
+  // Section divider: explicit layout, or a title with at most a short line
+  if (
+    source.layoutType === "secHead" ||
+    (bodyParagraphs.length <= 1 && subtitle.length <= MAX_SUBTITLE_CHARS)
+  ) {
+    return [
+      {
+        type: "section_header",
+        blocks: [...title, ...(subtitle ? [textBlock(subtitle)] : [])],
+        ...notes,
+      },
+    ];
+  }
+
+  // Two text bodies side by side (two-content layouts)
+  if (bodies.length === 2) {
+    return [
+      {
+        type: "two_column_text",
+        blocks: [
+          ...title,
+          ...bodies.map((body) =>
+            contentBlock(
+              body.paragraphs.map((p) => p.text),
+              body.paragraphs.some((p) => p.bullet)
+            )
+          ),
+        ],
+        ...notes,
+      },
+    ];
+  }
+
+  // Bullets, continued on extra slides when the list is too long
+  const listParagraphs =
+    bodyParagraphs.length > 0 ? bodyParagraphs : subtitles.flatMap((s) => s.paragraphs);
+  const items = toBulletItems(listParagraphs.map((p) => p.text));
+  return bulletSlides(source.title, items, source.notes?.slice(0, MAX_NOTES_CHARS));
+}
+
+/**
+ * Convert a parsed PowerPoint file into a Deck
+ */
+export async function pptxToDeck(
+  parsed: ParsedPptx,
+  options: PptxImportOptions = {}
+): Promise<Deck> {
+  const slides: Slide[] = [];
+  for (let i = 0; i < parsed.slides.length && slides.length < MAX_SLIDES; i++) {
+    slides.push(...(await convertSlide(parsed.slides[i], slides.length, options)));
+  }
+
+  if (slides.length === 0) {
+    throw new Error("Invalid PPTX file: the presentation has no slides");
+  }
+
+  const title =
+    options.title?.trim() ||
+    parsed.title ||
+    parsed.slides.find((s) => s.title)?.title ||
+    "Importert presentasjon";
+
+  return DeckSchema.parse({
+    deck: {
+      title: title.slice(0, MAX_DECK_TITLE_CHARS),
+      language: options.language,
+      themeId: options.themeId,
+    },
+    slides: slides.slice(0, MAX_SLIDES),
+  });
+}
+
+/**
+ * Parse a PPTX buffer and convert it into a Deck
+ *
+ * @throws Error if the buffer is not a PowerPoint file or has no slides
+ */
+export async function importPptx(buffer: Buffer, options: PptxImportOptions = {}): Promise<Deck> {
+  return pptxToDeck(await parsePptx(buffer), options);
+}
@@ -0,0 +1,360 @@
+/**
+ * PPTX Parser
+ *
+ * Reads the slide structure of a PowerPoint file: titles, text bodies,
+ * tables, pictures and speaker notes, in slide order.
+ * PPTX is a zip of OOXML parts, so this reads the parts it needs with
+ * JSZip and picks out the few elements we map to our own schema.
+ */
+
+import JSZip from "jszip";
+
+export interface PptxParagraph {
+  text: string;
+  /** Indent level, 0 for top-level paragraphs */
+  level: number;
+  /** Whether the paragraph is shown with a bullet or number */
+  bullet: boolean;
+}
+
+export interface PptxTextShape {
+  /** Placeholder type (body, subTitle, ...) or undefined for free text boxes */
+  placeholder?: string;
+  paragraphs: PptxParagraph[];
+  /** Largest font size used in the shape, in points */
+  fontSize?: number;
+}
+
+export interface PptxImage {
+  /** Path of the media part inside the file */
+  path: string;
+  contentType: string;
+  alt?: string;
+  /** Read the image bytes (loaded lazily, text extraction never needs them) */
+  read: () => Promise<Buffer>;
+}
+
+export interface PptxSlide {
+  title?: string;
+  /** Slide layout type from the master (title, secHead, twoObj, ...) */
+  layoutType?: string;
+  /** Text shapes other than the title, in document order */
+  textShapes: PptxTextShape[];
+  /** Tables as rows of cell text, first row is the header */
+  tables: string[][][];
+  images: PptxImage[];
+  notes?: string;
+}
+
+export interface ParsedPptx {
+  /** Title from the document properties */
+  title?: string;
+  slides: PptxSlide[];
+}
+
+const TITLE_PLACEHOLDERS = ["title", "ctrTitle"];
+const IGNORED_PLACEHOLDERS = ["dt", "ftr", "hdr", "sldNum", "sldImg"];
+/** Decorative badges in our own exports (BADGE_SHAPE_NAME in pptx-renderer.ts) */
+const BADGE_SHAPE_NAME = "badge";
+
+const IMAGE_CONTENT_TYPES: Record<string, string> = {
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  gif: "image/gif",
+  webp: "image/webp",
+  svg: "image/svg+xml",
+};
+
+// ============================================================================
+// XML helpers
+// ============================================================================
+
+function decodeXml(value: string): string {
+  return value
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex: string) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec: string) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+function getAttribute(tag: string, name: string): string | undefined {
+  const match = tag.match(new RegExp(`\\s${name}="([^"]*)"`));
+  return match ? decodeXml(match[1]) : undefined;
+}
+
+/**
+ * Find all elements with the given qualified name (e.g. "a:p").
+ * Returns the full element markup, self-closing elements included.
+ */
+function findElements(xml: string, name: string): string[] {
+  const pattern = new RegExp(`<${name}(?:\\s[^>]*)?(?:/>|>[\\s\\S]*?</${name}>)`, "g");
+  return xml.match(pattern) ?? [];
+}
+
+function findFirstTag(xml: string, name: string): string | undefined {
+  return xml.match(new RegExp(`<${name}(?:\\s[^>]*)?/?>`))?.[0];
+}
+
+async function readXml(zip: JSZip, path: string): Promise<string | null> {
+  const file = zip.file(path);
+  return file ? file.async("string") : null;
+}
+
+interface Relationship {
+  type: string;
+  target: string;
+}
+
+/**
+ * Resolve a relationship target against the folder of the part that owns it
+ */
+function resolvePartPath(partPath: string, target: string): string {
+  if (target.startsWith("/")) return target.slice(1);
+
+  const parts = partPath.split("/").slice(0, -1);
+  for (const segment of target.split("/")) {
+    if (segment === "..") parts.pop();
+    else if (segment !== ".") parts.push(segment);
+  }
+  return parts.join("/");
+}
+
+/**
+ * Read the relationships of a part, keyed by relationship ID, with targets
+ * resolved to full part paths
+ */
+async function readRelationships(zip: JSZip, partPath: string): Promise<Map<string, Relationship>> {
+  const segments = partPath.split("/");
+  const fileName = segments.pop();
+  const relsPath = [...segments, "_rels", `${fileName}.rels`].join("/");
+  const xml = await readXml(zip, relsPath);
+  const relationships = new Map<string, Relationship>();
+  if (!xml) return relationships;
+
+  for (const tag of findElements(xml, "Relationship")) {
+    const id = getAttribute(tag, "Id");
+    const target = getAttribute(tag, "Target");
+    if (!id || !target || getAttribute(tag, "TargetMode") === "External") continue;
+    relationships.set(id, {
+      type: getAttribute(tag, "Type") ?? "",
+      target: resolvePartPath(partPath, target),
+    });
+  }
+  return relationships;
+}
+
+function findRelationship(
+  relationships: Map<string, Relationship>,
+  typeSuffix: string
+): Relationship | undefined {
+  return [...relationships.values()].find((r) => r.type.endsWith(typeSuffix));
+}
+
+// ============================================================================
+// Shape parsing
+// ============================================================================
+
+function parseParagraph(xml: string, defaultBullet: boolean): PptxParagraph {
+  const properties = findFirstTag(xml, "a:pPr") ?? "";
+  const propertiesBody = xml.match(/<a:pPr[^>]*>([\s\S]*?)<\/a:pPr>/)?.[1] ?? "";
+
+  let bullet = defaultBullet;
+  if (/<a:buNone\b/.test(propertiesBody)) bullet = false;
+  else if (/<a:bu(Char|AutoNum|Blip)\b/.test(propertiesBody)) bullet = true;
+
+  const text = (xml.match(/<a:t(?:\s[^>]*)?>[^<]*<\/a:t>|<a:br\b[^>]*\/?>/g) ?? [])
+    .map((part) => (part.startsWith("<a:br") ? " " : decodeXml(part.replace(/<[^>]*>/g, ""))))
+    .join("")
+    .replace(/\s+/g, " ")
+    .trim();
+
+  return {
+    text,
+    level: parseInt(getAttribute(properties, "lvl") ?? "0", 10),
+    bullet,
+  };
+}
+
+function parseParagraphs(xml: string, defaultBullet: boolean): PptxParagraph[] {
+  return findElements(xml, "a:p")
+    .map((p) => parseParagraph(p, defaultBullet))
+    .filter((p) => p.text.length > 0);
+}
+
+function getPlaceholderType(shapeXml: string): string | undefined {
+  const placeholder = findFirstTag(shapeXml, "p:ph");
+  if (!placeholder) return undefined;
+  // A placeholder without a type is a content (body) placeholder
+  return getAttribute(placeholder, "type") ?? "body";
+}
+
+function getMaxFontSize(shapeXml: string): number | undefined {
+  const sizes = (shapeXml.match(/<a:(?:rPr|defRPr|endParaRPr)\b[^>]*\ssz="(\d+)"/g) ?? []).map(
+    (tag) => parseInt(getAttribute(tag, "sz") ?? "0", 10) / 100
+  );
+  return sizes.length > 0 ? Math.max(...sizes) : undefined;
+}
+
+function parseTable(xml: string): string[][] {
+  return findElements(xml, "a:tr")
+    .map((row) =>
+      findElements(row, "a:tc")
+        // Merged cells repeat as empty continuation cells; keep the first only
+        .filter((cell) => !/^<a:tc\b[^>]*\shMerge="(1|true)"/.test(cell))
+        .map((cell) =>
+          parseParagraphs(cell, false)
+            .map((p) => p.text)
+            .join(" ")
+        )
+    )
+    .filter((row) => row.some((cell) => cell.length > 0));
+}
+
+/**
+ * Pick a title for slides without a title placeholder (e.g. decks built
+ * from free text boxes): the first single-line text at the largest font size.
+ */
+function findVisualTitle(shapes: PptxTextShape[]): PptxTextShape | undefined {
+  const size = (shape: PptxTextShape) => shape.fontSize ?? 0;
+  const largest = Math.max(0, ...shapes.map(size));
+
+  return shapes.find(
+    (s) => size(s) === largest && s.paragraphs.length === 1 && !s.paragraphs[0].bullet
+  );
+}
+
+async function parseSlide(zip: JSZip, slidePath: string): Promise<PptxSlide> {
+  const xml = (await readXml(zip, slidePath)) ?? "";
+  const relationships = await readRelationships(zip, slidePath);
+
+  let title: string | undefined;
+  const textShapes: PptxTextShape[] = [];
+  const tables: string[][][] = [];
+  const images: PptxImage[] = [];
+
+  const shapes = xml.match(/<p:(sp|pic|graphicFrame)\b[\s\S]*?<\/p:\1>/g) ?? [];
+  for (const shape of shapes) {
+    if (shape.startsWith("<p:pic")) {
+      const embed = getAttribute(findFirstTag(shape, "a:blip") ?? "", "r:embed");
+      const media = embed ? relationships.get(embed) : undefined;
+      const extension = media?.target.split(".").pop()?.toLowerCase() ?? "";
+      const file = media ? zip.file(media.target) : null;
+      if (!media || !file || !IMAGE_CONTENT_TYPES[extension]) continue;
+
+      const alt = getAttribute(findFirstTag(shape, "p:cNvPr") ?? "", "descr")?.trim();
+      images.push({
+        path: media.target,
+        contentType: IMAGE_CONTENT_TYPES[extension],
+        alt: alt || undefined,
+        read: () => file.async("nodebuffer"),
+      });
+      continue;
+    }
+
+    if (shape.startsWith("<p:graphicFrame")) {
+      const table = parseTable(shape);
+      if (table.length > 0) tables.push(table);
+      continue;
+    }
+
+    const placeholder = getPlaceholderType(shape);
+    if (placeholder && IGNORED_PLACEHOLDERS.includes(placeholder)) continue;
+    if (getAttribute(findFirstTag(shape, "p:cNvPr") ?? "", "name") === BADGE_SHAPE_NAME) continue;
+
+    const isBody = placeholder === "body" || placeholder === "obj";
+    const paragraphs = parseParagraphs(shape, isBody);
+    if (paragraphs.length === 0) continue;
+
+    if (placeholder && TITLE_PLACEHOLDERS.includes(placeholder) && title === undefined) {
+      title = paragraphs.map((p) => p.text).join(" ");
+      continue;
+    }
+
+    textShapes.push({ placeholder, paragraphs, fontSize: getMaxFontSize(shape) });
+  }
+
+  if (title === undefined) {
+    const visualTitle = findVisualTitle(textShapes);
+    if (visualTitle) {
+      title = visualTitle.paragraphs[0].text;
+      textShapes.splice(textShapes.indexOf(visualTitle), 1);
+    }
+  }
+
+  // Layout type (title, secHead, twoObj, ...) from the slide layout part
+  let layoutType: string | undefined;
+  const layout = findRelationship(relationships, "/slideLayout");
+  if (layout) {
+    const layoutXml = (await readXml(zip, layout.target)) ?? "";
+    layoutType = getAttribute(findFirstTag(layoutXml, "p:sldLayout") ?? "", "type");
+  }
+
+  // Speaker notes live in the body placeholder of the notes slide
+  let notes: string | undefined;
+  const notesPart = findRelationship(relationships, "/notesSlide");
+  if (notesPart) {
+    const notesXml = (await readXml(zip, notesPart.target)) ?? "";
+    const noteText = (notesXml.match(/<p:sp\b[\s\S]*?<\/p:sp>/g) ?? [])
+      .filter((shape) => getPlaceholderType(shape) === "body")
+      .flatMap((shape) => parseParagraphs(shape, false).map((p) => p.text))
+      .join("\n");
+    notes = noteText || undefined;
+  }
+
+  return { title, layoutType, textShapes, tables, images, notes };
+}
+
+/**
+ * Slide part paths in presentation order
+ */
+async function getSlidePaths(zip: JSZip): Promise<string[]> {
+  const presentationPath = "ppt/presentation.xml";
+  const presentation = await readXml(zip, presentationPath);
+  if (!presentation) {
+    throw new Error("Invalid PPTX file: missing ppt/presentation.xml");
+  }
+
+  const relationships = await readRelationships(zip, presentationPath);
+  const ordered = findElements(presentation, "p:sldId")
+    .map((tag) => relationships.get(getAttribute(tag, "r:id") ?? "")?.target)
+    .filter((path): path is string => path !== undefined && zip.file(path) !== null);
+
+  if (ordered.length > 0) return ordered;
+
+  // Fall back to file names when the slide list is missing
+  return Object.keys(zip.files)
+    .filter((path) => /^ppt\/slides\/slide\d+\.xml$/.test(path))
+    .sort((a, b) => parseInt(a.replace(/\D/g, ""), 10) - parseInt(b.replace(/\D/g, ""), 10));
+}
+
+/**
+ * Parse a PPTX buffer into slides
+ *
+ * @throws Error if the buffer is not a PowerPoint file
+ */
+export async function parsePptx(buffer: Buffer): Promise<ParsedPptx> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(buffer);
+  } catch {
+    throw new Error("Invalid PPTX file: not a zip archive");
+  }
+
+  const slidePaths = await getSlidePaths(zip);
+  const slides: PptxSlide[] = [];
+  for (const path of slidePaths) {
+    slides.push(await parseSlide(zip, path));
+  }
+
+  const core = (await readXml(zip, "docProps/core.xml")) ?? "";
+  const title = core.match(/<dc:title>([^<]*)<\/dc:title>/)?.[1];
+
+  return {
+    title: title ? decodeXml(title).trim() || undefined : undefined,
+    slides,
+  };
+}
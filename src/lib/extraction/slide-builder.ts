@@ -0,0 +1,84 @@
+/**
+ * Slide Builder
+ *
+ * Shared helpers for turning structured source documents (PowerPoint,
+ * Markdown) into slides. Text is clipped to block limits, and prose is split
+ * into sentences where a list is needed, so imported content passes the same
+ * constraints as generated content.
+ */
+
+import type { Block } from "@/lib/schemas/block";
+import type { Slide } from "@/lib/schemas/slide";
+import { BLOCK_CONSTRAINTS, truncateText } from "@/lib/editor/constraints";
+
+export function titleBlock(text: string): Block {
+  return { kind: "title", text: truncateText(text, BLOCK_CONSTRAINTS.title.maxChars) };
+}
+
+export function textBlock(text: string): Block {
+  return { kind: "text", text: truncateText(text, BLOCK_CONSTRAINTS.text.maxChars) };
+}
+
+/**
+ * Split prose into sentences so it fits as bullet items
+ */
+export function toBulletItems(texts: string[]): string[] {
+  return texts
+    .flatMap((text) =>
+      text.length > BLOCK_CONSTRAINTS.bullets.maxItemChars ? text.split(/(?<=[.!?])\s+/) : [text]
+    )
+    .map((item) => truncateText(item.trim(), BLOCK_CONSTRAINTS.bullets.maxItemChars))
+    .filter((item) => item.length > 0);
+}
+
+/**
+ * Content block for a run of text: bullets for lists, text for a paragraph
+ */
+export function contentBlock(texts: string[], isList: boolean): Block {
+  if (!isList && texts.length === 1 && texts[0].length <= BLOCK_CONSTRAINTS.text.maxChars) {
+    return textBlock(texts[0]);
+  }
+  return {
+    kind: "bullets",
+    items: toBulletItems(texts).slice(0, BLOCK_CONSTRAINTS.bullets.maxItems),
+  };
+}
+
+/**
+ * Table block with the first row as header, clipped to table limits
+ */
+export function tableBlock(table: string[][]): Block {
+  const { maxColumns, maxRows } = BLOCK_CONSTRAINTS.table;
+  const width = Math.min(Math.max(...table.map((row) => row.length)), maxColumns);
+  const fit = (row: string[]) =>
+    Array.from({ length: width }, (_, i) => row[i] ?? "").map((cell) => cell.trim());
+
+  const [header, ...rows] = table;
+  return {
+    kind: "table",
+    columns: fit(header).map((column, i) => column || `Kolonne ${i + 1}`),
+    rows: (rows.length > 0 ? rows : [header.map(() => "")]).slice(0, maxRows).map(fit),
+  };
+}
+
+/**
+ * Bullets slides for a list, continued on extra slides when the list is
+ * longer than a bullets block allows. Notes stay on the first slide.
+ */
+export function bulletSlides(title: string | undefined, items: string[], notes?: string): Slide[] {
+  const { maxItems } = BLOCK_CONSTRAINTS.bullets;
+  const slides: Slide[] = [];
+
+  for (let i = 0; i < items.length; i += maxItems) {
+    const slideTitle = i === 0 ? title : title && `${title} (forts.)`;
+    slides.push({
+      type: "bullets",
+      blocks: [
+        ...(slideTitle ? [titleBlock(slideTitle)] : []),
+        { kind: "bullets", items: items.slice(i, i + maxItems) },
+      ],
+      ...(i === 0 && notes ? { notes } : {}),
+    });
+  }
+  return slides;
+}
@@ -18,3 +18,6 @@ export { useDebounce, useDebouncedCallback, useDebouncedCallbackWithFlush } from
 
 export { useAutoSave } from "./useAutoSave";
 export type { UseAutoSaveOptions, UseAutoSaveReturn } from "./useAutoSave";
+
+export { usePresenterSync } from "./usePresenterSync";
+export type { UsePresenterSyncOptions, UsePresenterSyncReturn } from "./usePresenterSync";
@@ -31,8 +31,8 @@ export interface UseAutoSaveReturn {
   isSaving: boolean;
   /** Error from last save attempt */
   error: string | null;
-  /** Manually trigger a save */
-  saveNow: () => Promise<void>;
+  /** Manually trigger a save; resolves to whether the deck is saved afterwards */
+  saveNow: () => Promise<boolean>;
   /** Clear the current error */
   clearError: () => void;
 }
@@ -60,6 +60,7 @@ export function useAutoSave({
   const onSaveRef = useRef(onSave);
   const timeoutRef = useRef<NodeJS.Timeout | null>(null);
   const isMountedRef = useRef(true);
+  const pendingSaveRef = useRef<Promise<boolean> | null>(null);
 
   // Update callback ref
   useEffect(() => {
@@ -77,32 +78,41 @@ export function useAutoSave({
     };
   }, []);
 
-  // Perform save
-  const performSave = useCallback(async () => {
-    if (blocked || isSaving) return;
-
-    setIsSaving(true);
-    setError(null);
-
-    try {
-      await onSaveRef.current();
-      if (isMountedRef.current) {
-        setLastSavedAt(new Date());
-        onSuccess?.();
-      }
-    } catch (err) {
-      if (isMountedRef.current) {
-        console.error("Auto-save error:", err);
-        const error = err instanceof Error ? err : new Error("Lagring feilet");
-        setError(error.message);
-        onError?.(error);
+  // Perform save (shares the in-flight save instead of starting a second one)
+  const performSave = useCallback((): Promise<boolean> => {
+    if (blocked) return Promise.resolve(false);
+    if (pendingSaveRef.current) return pendingSaveRef.current;
+
+    const save = (async () => {
+      setIsSaving(true);
+      setError(null);
+
+      try {
+        await onSaveRef.current();
+        if (isMountedRef.current) {
+          setLastSavedAt(new Date());
+          onSuccess?.();
+        }
+        return true;
+      } catch (err) {
+        if (isMountedRef.current) {
+          console.error("Auto-save error:", err);
+          const error = err instanceof Error ? err : new Error("Lagring feilet");
+          setError(error.message);
+          onError?.(error);
+        }
+        return false;
+      } finally {
+        pendingSaveRef.current = null;
+        if (isMountedRef.current) {
+          setIsSaving(false);
+        }
       }
-    } finally {
-      if (isMountedRef.current) {
-        setIsSaving(false);
-      }
-    }
-  }, [blocked, isSaving, onSuccess, onError]);
+    })();
+
+    pendingSaveRef.current = save;
+    return save;
+  }, [blocked, onSuccess, onError]);
 
   // Auto-save trigger when isDirty changes
   useEffect(() => {
@@ -135,9 +145,10 @@ export function useAutoSave({
       timeoutRef.current = null;
     }
 
-    if (!isDirty || blocked) return;
+    if (!isDirty) return true;
+    if (blocked) return false;
 
-    await performSave();
+    return performSave();
   }, [isDirty, blocked, performSave]);
 
   const clearError = useCallback(() => {
@@ -137,6 +137,14 @@ function getBlockMetrics(block: Block): { current: number; max: number } {
       };
     }
 
+    case "chart": {
+      const categories = block.categories ?? [];
+      return {
+        current: categories.length,
+        max: BLOCK_CONSTRAINTS.chart.maxCategories,
+      };
+    }
+
     case "image": {
       // Images don't have editable content in MVP
       return { current: 0, max: 0 };
@@ -1,14 +1,15 @@
 /**
  * useExport Hook
  *
- * React hook for managing deck exports (PDF and PPTX).
+ * React hook for managing deck exports (PDF, PPTX, PNG, SVG, HTML, Markdown and plain text).
  * Handles triggering exports and polling for completion.
  */
 
 import { useState, useCallback, useRef, useEffect } from "react";
+import type { HandoutLayout } from "@/lib/export/pdf-handout";
 
 export type ExportStatus = "idle" | "queued" | "running" | "completed" | "failed";
-export type ExportFormat = "pdf" | "pptx";
+export type ExportFormat = "pdf" | "pptx" | "png" | "svg" | "html" | "markdown" | "txt";
 
 interface ExportState {
   status: ExportStatus;
@@ -18,22 +19,62 @@ interface ExportState {
 }
 
 interface UseExportReturn {
-  /** Trigger PDF export */
-  exportPdf: () => Promise<void>;
+  /** Trigger PDF export; a handout layout prints several slides or note lines per A4 page */
+  exportPdf: (handout?: HandoutLayout) => Promise<void>;
   /** Trigger PPTX export */
   exportPptx: () => Promise<void>;
+  /** Trigger PNG export; scale is the pixel density (2 = 2560x1440) */
+  exportPng: (scale?: number) => Promise<void>;
+  /** Trigger SVG export */
+  exportSvg: () => Promise<void>;
+  /** Trigger offline HTML export */
+  exportHtml: () => Promise<void>;
+  /** Trigger Markdown outline export */
+  exportMarkdown: () => Promise<void>;
+  /** Trigger plain-text outline export */
+  exportText: () => Promise<void>;
   /** PDF export status */
   pdfStatus: ExportStatus;
   /** PPTX export status */
   pptxStatus: ExportStatus;
+  /** PNG export status */
+  pngStatus: ExportStatus;
+  /** SVG export status */
+  svgStatus: ExportStatus;
+  /** HTML export status */
+  htmlStatus: ExportStatus;
+  /** Markdown export status */
+  markdownStatus: ExportStatus;
+  /** Plain-text export status */
+  txtStatus: ExportStatus;
   /** PDF download URL (when completed) */
   pdfUrl: string | null;
   /** PPTX download URL (when completed) */
   pptxUrl: string | null;
+  /** PNG download URL (when completed): an image, or a zip for several slides */
+  pngUrl: string | null;
+  /** SVG download URL (when completed): an image, or a zip for several slides */
+  svgUrl: string | null;
+  /** HTML download URL (when completed) */
+  htmlUrl: string | null;
+  /** Markdown download URL (when completed) */
+  markdownUrl: string | null;
+  /** Plain-text download URL (when completed) */
+  txtUrl: string | null;
   /** PDF error message */
   pdfError: string | null;
   /** PPTX error message */
   pptxError: string | null;
+  /** PNG error message */
+  pngError: string | null;
+  /** SVG error message */
+  svgError: string | null;
+  /** HTML error message */
+  htmlError: string | null;
+  /** Markdown error message */
+  markdownError: string | null;
+  /** Plain-text error message */
+  txtError: string | null;
   /** Whether any export is in progress */
   isExporting: boolean;
   /** Reset export state */
@@ -43,223 +84,253 @@ interface UseExportReturn {
 const POLL_INTERVAL = 2000; // 2 seconds
 const MAX_POLL_ATTEMPTS = 150; // 5 minutes max
 
+const EXPORT_FORMATS: ExportFormat[] = ["pdf", "pptx", "png", "svg", "html", "markdown", "txt"];
+
+const IDLE_STATE: ExportState = {
+  status: "idle",
+  jobId: null,
+  fileUrl: null,
+  error: null,
+};
+
+function idleStates(): Record<ExportFormat, ExportState> {
+  return {
+    pdf: IDLE_STATE,
+    pptx: IDLE_STATE,
+    png: IDLE_STATE,
+    svg: IDLE_STATE,
+    html: IDLE_STATE,
+    markdown: IDLE_STATE,
+    txt: IDLE_STATE,
+  };
+}
+
 /**
  * Hook for managing deck exports
  *
  * @param deckId - The deck ID to export
  */
 export function useExport(deckId: string): UseExportReturn {
-  const [pdfState, setPdfState] = useState<ExportState>({
-    status: "idle",
-    jobId: null,
-    fileUrl: null,
-    error: null,
-  });
-  const [pptxState, setPptxState] = useState<ExportState>({
-    status: "idle",
-    jobId: null,
-    fileUrl: null,
-    error: null,
+  const [states, setStates] = useState<Record<ExportFormat, ExportState>>(idleStates);
+
+  // Polling intervals and attempt counts per format
+  const pollRefs = useRef<Partial<Record<ExportFormat, NodeJS.Timeout>>>({});
+  const pollCountRefs = useRef<Record<ExportFormat, number>>({
+    pdf: 0,
+    pptx: 0,
+    png: 0,
+    svg: 0,
+    html: 0,
+    markdown: 0,
+    txt: 0,
   });
 
-  // Polling intervals refs
-  const pdfPollRef = useRef<NodeJS.Timeout | null>(null);
-  const pptxPollRef = useRef<NodeJS.Timeout | null>(null);
-  const pdfPollCountRef = useRef(0);
-  const pptxPollCountRef = useRef(0);
+  // Update the state of one format
+  const setState = useCallback(
+    (format: ExportFormat, update: Partial<ExportState> | ExportState) => {
+      setStates((prev) => ({ ...prev, [format]: { ...prev[format], ...update } }));
+    },
+    []
+  );
+
+  const stopPolling = useCallback((format: ExportFormat) => {
+    const interval = pollRefs.current[format];
+    if (interval) {
+      clearInterval(interval);
+      delete pollRefs.current[format];
+    }
+  }, []);
 
   // Cleanup on unmount
   useEffect(() => {
+    const polls = pollRefs.current;
     return () => {
-      if (pdfPollRef.current) clearInterval(pdfPollRef.current);
-      if (pptxPollRef.current) clearInterval(pptxPollRef.current);
+      Object.values(polls).forEach((interval) => clearInterval(interval));
     };
   }, []);
 
   // Poll for export status
   const pollStatus = useCallback(
-    async (
-      format: ExportFormat,
-      jobId: string,
-      setState: React.Dispatch<React.SetStateAction<ExportState>>,
-      pollRef: React.MutableRefObject<NodeJS.Timeout | null>,
-      pollCountRef: React.MutableRefObject<number>
-    ) => {
+    async (format: ExportFormat, jobId: string) => {
       try {
         const response = await fetch(`/api/decks/${deckId}/export/${jobId}`);
         const data = await response.json();
 
         if (!response.ok) {
-          setState((prev) => ({
-            ...prev,
+          setState(format, {
             status: "failed",
             error: data.error?.message ?? "Kunne ikke hente eksportstatus",
-          }));
-          if (pollRef.current) {
-            clearInterval(pollRef.current);
-            pollRef.current = null;
-          }
+          });
+          stopPolling(format);
           return;
         }
 
         // Update state based on status
         const newStatus = data.status as ExportStatus;
-        setState((prev) => ({
-          ...prev,
+        setState(format, {
           status: newStatus,
           fileUrl: data.fileUrl ?? null,
           error: data.error?.message ?? null,
-        }));
+        });
 
         // Stop polling if completed or failed
         if (newStatus === "completed" || newStatus === "failed") {
-          if (pollRef.current) {
-            clearInterval(pollRef.current);
-            pollRef.current = null;
-          }
+          stopPolling(format);
         }
 
         // Check max attempts
-        pollCountRef.current++;
-        if (pollCountRef.current >= MAX_POLL_ATTEMPTS) {
-          setState((prev) => ({
-            ...prev,
+        pollCountRefs.current[format]++;
+        if (pollCountRefs.current[format] >= MAX_POLL_ATTEMPTS) {
+          setState(format, {
             status: "failed",
             error: "Eksporten tok for lang tid. Prøv igjen senere.",
-          }));
-          if (pollRef.current) {
-            clearInterval(pollRef.current);
-            pollRef.current = null;
-          }
+          });
+          stopPolling(format);
         }
       } catch (err) {
         console.error(`useExport poll error (${format}):`, err);
-        setState((prev) => ({
-          ...prev,
+        setState(format, {
           status: "failed",
           error: "Nettverksfeil ved sjekking av eksportstatus",
-        }));
-        if (pollRef.current) {
-          clearInterval(pollRef.current);
-          pollRef.current = null;
-        }
+        });
+        stopPolling(format);
       }
     },
-    [deckId]
+    [deckId, setState, stopPolling]
   );
 
   // Trigger export
   const triggerExport = useCallback(
-    async (format: ExportFormat) => {
-      const setState = format === "pdf" ? setPdfState : setPptxState;
-      const pollRef = format === "pdf" ? pdfPollRef : pptxPollRef;
-      const pollCountRef = format === "pdf" ? pdfPollCountRef : pptxPollCountRef;
-
+    async (format: ExportFormat, options?: { scale?: number; handout?: HandoutLayout }) => {
       // Reset state
-      setState({
-        status: "queued",
-        jobId: null,
-        fileUrl: null,
-        error: null,
-      });
+      setState(format, { ...IDLE_STATE, status: "queued" });
 
       // Clear any existing poll
-      if (pollRef.current) {
-        clearInterval(pollRef.current);
-        pollRef.current = null;
-      }
-      pollCountRef.current = 0;
+      stopPolling(format);
+      pollCountRefs.current[format] = 0;
 
       try {
         const response = await fetch(`/api/decks/${deckId}/export`, {
           method: "POST",
           headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ format }),
+          body: JSON.stringify({ format, ...options }),
         });
 
         const data = await response.json();
 
         if (!response.ok) {
-          setState({
+          setState(format, {
+            ...IDLE_STATE,
             status: "failed",
-            jobId: null,
-            fileUrl: null,
             error: data.error?.message ?? "Kunne ikke starte eksport",
           });
           return;
         }
 
         const jobId = data.exportJobId;
-        setState((prev) => ({
-          ...prev,
-          jobId,
-        }));
+
+        // Served from the export cache: no need to poll
+        if (data.status === "completed") {
+          setState(format, { jobId, status: "completed", fileUrl: data.fileUrl ?? null });
+          return;
+        }
+
+        setState(format, { jobId });
 
         // Start polling
-        pollRef.current = setInterval(() => {
-          pollStatus(format, jobId, setState, pollRef, pollCountRef);
+        pollRefs.current[format] = setInterval(() => {
+          pollStatus(format, jobId);
         }, POLL_INTERVAL);
 
         // Initial poll immediately
-        pollStatus(format, jobId, setState, pollRef, pollCountRef);
+        pollStatus(format, jobId);
       } catch (err) {
         console.error(`useExport triggerExport error (${format}):`, err);
-        setState({
+        setState(format, {
+          ...IDLE_STATE,
           status: "failed",
-          jobId: null,
-          fileUrl: null,
           error: "Nettverksfeil ved start av eksport",
         });
       }
     },
-    [deckId, pollStatus]
+    [deckId, pollStatus, setState, stopPolling]
   );
 
-  const exportPdf = useCallback(async () => {
-    await triggerExport("pdf");
-  }, [triggerExport]);
+  const exportPdf = useCallback(
+    async (handout?: HandoutLayout) => {
+      await triggerExport("pdf", { handout });
+    },
+    [triggerExport]
+  );
 
   const exportPptx = useCallback(async () => {
     await triggerExport("pptx");
   }, [triggerExport]);
 
+  const exportPng = useCallback(
+    async (scale?: number) => {
+      await triggerExport("png", { scale });
+    },
+    [triggerExport]
+  );
+
+  const exportSvg = useCallback(async () => {
+    await triggerExport("svg");
+  }, [triggerExport]);
+
+  const exportHtml = useCallback(async () => {
+    await triggerExport("html");
+  }, [triggerExport]);
+
+  const exportMarkdown = useCallback(async () => {
+    await triggerExport("markdown");
+  }, [triggerExport]);
+
+  const exportText = useCallback(async () => {
+    await triggerExport("txt");
+  }, [triggerExport]);
+
   const reset = useCallback(() => {
-    if (pdfPollRef.current) clearInterval(pdfPollRef.current);
-    if (pptxPollRef.current) clearInterval(pptxPollRef.current);
-    pdfPollRef.current = null;
-    pptxPollRef.current = null;
-    pdfPollCountRef.current = 0;
-    pptxPollCountRef.current = 0;
-
-    setPdfState({
-      status: "idle",
-      jobId: null,
-      fileUrl: null,
-      error: null,
-    });
-    setPptxState({
-      status: "idle",
-      jobId: null,
-      fileUrl: null,
-      error: null,
+    EXPORT_FORMATS.forEach((format) => {
+      stopPolling(format);
+      pollCountRefs.current[format] = 0;
     });
-  }, []);
+    setStates(idleStates());
+  }, [stopPolling]);
 
-  const isExporting =
-    pdfState.status === "queued" ||
-    pdfState.status === "running" ||
-    pptxState.status === "queued" ||
-    pptxState.status === "running";
+  const isExporting = EXPORT_FORMATS.some(
+    (format) => states[format].status === "queued" || states[format].status === "running"
+  );
 
   return {
     exportPdf,
     exportPptx,
-    pdfStatus: pdfState.status,
-    pptxStatus: pptxState.status,
-    pdfUrl: pdfState.fileUrl,
-    pptxUrl: pptxState.fileUrl,
-    pdfError: pdfState.error,
-    pptxError: pptxState.error,
+    exportPng,
+    exportSvg,
+    exportHtml,
+    exportMarkdown,
+    exportText,
+    pdfStatus: states.pdf.status,
+    pptxStatus: states.pptx.status,
+    pngStatus: states.png.status,
+    svgStatus: states.svg.status,
+    htmlStatus: states.html.status,
+    markdownStatus: states.markdown.status,
+    txtStatus: states.txt.status,
+    pdfUrl: states.pdf.fileUrl,
+    pptxUrl: states.pptx.fileUrl,
+    pngUrl: states.png.fileUrl,
+    svgUrl: states.svg.fileUrl,
+    htmlUrl: states.html.fileUrl,
+    markdownUrl: states.markdown.fileUrl,
+    txtUrl: states.txt.fileUrl,
+    pdfError: states.pdf.error,
+    pptxError: states.pptx.error,
+    pngError: states.png.error,
+    svgError: states.svg.error,
+    htmlError: states.html.error,
+    markdownError: states.markdown.error,
+    txtError: states.txt.error,
     isExporting,
     reset,
   };
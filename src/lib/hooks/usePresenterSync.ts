@@ -0,0 +1,88 @@
+/**
+ * usePresenterSync Hook
+ *
+ * React hook that keeps presentation windows on the same slide.
+ * Wraps the deck-scoped BroadcastChannel from lib/presenter.
+ */
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { createPresenterSync, type PresenterSync } from "@/lib/presenter";
+
+export interface UsePresenterSyncOptions {
+  /** Channel scope, usually the deck ID. Sync is disabled while null. */
+  deckKey: string | null;
+  /** Slide this window is currently showing (answered on sync requests) */
+  currentIndex: number;
+  /** Called when another window navigates */
+  onRemoteSlide: (index: number) => void;
+  /** Called when another window ends the presentation */
+  onRemoteEnd?: () => void;
+}
+
+export interface UsePresenterSyncReturn {
+  /** Whether BroadcastChannel is available in this browser */
+  isSupported: boolean;
+  /** Announce a local navigation to other windows */
+  publishSlide: (index: number) => void;
+  /** Announce that the presentation has ended */
+  publishEnd: () => void;
+}
+
+/**
+ * Hook for syncing slide navigation across windows
+ */
+export function usePresenterSync({
+  deckKey,
+  currentIndex,
+  onRemoteSlide,
+  onRemoteEnd,
+}: UsePresenterSyncOptions): UsePresenterSyncReturn {
+  const syncRef = useRef<PresenterSync | null>(null);
+  const indexRef = useRef(currentIndex);
+  const handlersRef = useRef({ onRemoteSlide, onRemoteEnd });
+  const [isSupported, setIsSupported] = useState(true);
+
+  useEffect(() => {
+    indexRef.current = currentIndex;
+    handlersRef.current = { onRemoteSlide, onRemoteEnd };
+  });
+
+  useEffect(() => {
+    if (!deckKey) return;
+
+    const sync = createPresenterSync(deckKey, (message) => {
+      switch (message.type) {
+        case "slide":
+          handlersRef.current.onRemoteSlide(message.index);
+          break;
+        case "sync_request":
+          syncRef.current?.publishSlide(indexRef.current);
+          break;
+        case "end":
+          handlersRef.current.onRemoteEnd?.();
+          break;
+      }
+    });
+
+    syncRef.current = sync;
+    setIsSupported(sync !== null);
+
+    // Pick up the slide an already open window is showing
+    sync?.requestSync();
+
+    return () => {
+      sync?.close();
+      syncRef.current = null;
+    };
+  }, [deckKey]);
+
+  const publishSlide = useCallback((index: number) => {
+    syncRef.current?.publishSlide(index);
+  }, []);
+
+  const publishEnd = useCallback(() => {
+    syncRef.current?.publishEnd();
+  }, []);
+
+  return { isSupported, publishSlide, publishEnd };
+}
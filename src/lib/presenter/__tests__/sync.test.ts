@@ -0,0 +1,101 @@
+import { describe, it, expect, afterEach } from "vitest";
+import {
+  createPresenterSync,
+  getPresenterChannelName,
+  isPresenterMessage,
+  formatPresenterTime,
+  type PresenterMessage,
+  type PresenterSync,
+} from "../sync";
+
+/**
+ * Wait until BroadcastChannel has delivered pending messages
+ */
+const flush = () => new Promise((resolve) => setTimeout(resolve, 20));
+
+describe("presenter sync", () => {
+  const open: PresenterSync[] = [];
+
+  const join = (deckKey: string, received: PresenterMessage[]) => {
+    const sync = createPresenterSync(deckKey, (message) => received.push(message));
+    expect(sync).not.toBeNull();
+    open.push(sync!);
+    return sync!;
+  };
+
+  afterEach(() => {
+    open.splice(0).forEach((sync) => sync.close());
+  });
+
+  it("scopes the channel name to the deck", () => {
+    expect(getPresenterChannelName("deck_123")).toBe("arti-presenter:deck_123");
+  });
+
+  it("delivers slide changes to the other window", async () => {
+    const audienceMessages: PresenterMessage[] = [];
+    const presenter = join("deck_a", []);
+    join("deck_a", audienceMessages);
+
+    presenter.publishSlide(3);
+    presenter.publishEnd();
+    await flush();
+
+    expect(audienceMessages).toEqual([{ type: "slide", index: 3 }, { type: "end" }]);
+  });
+
+  it("does not leak messages between decks", async () => {
+    const otherDeckMessages: PresenterMessage[] = [];
+    const presenter = join("deck_a", []);
+    join("deck_b", otherDeckMessages);
+
+    presenter.publishSlide(1);
+    await flush();
+
+    expect(otherDeckMessages).toEqual([]);
+  });
+
+  it("ignores foreign messages on the channel", async () => {
+    const received: PresenterMessage[] = [];
+    join("deck_a", received);
+
+    const foreign = new BroadcastChannel(getPresenterChannelName("deck_a"));
+    foreign.postMessage({ type: "slide", index: -1 });
+    foreign.postMessage({ type: "unknown" });
+    foreign.postMessage("hello");
+    await flush();
+    foreign.close();
+
+    expect(received).toEqual([]);
+  });
+});
+
+describe("isPresenterMessage", () => {
+  it("accepts valid messages", () => {
+    expect(isPresenterMessage({ type: "slide", index: 0 })).toBe(true);
+    expect(isPresenterMessage({ type: "sync_request" })).toBe(true);
+    expect(isPresenterMessage({ type: "end" })).toBe(true);
+  });
+
+  it("rejects invalid slide indexes", () => {
+    expect(isPresenterMessage({ type: "slide" })).toBe(false);
+    expect(isPresenterMessage({ type: "slide", index: 1.5 })).toBe(false);
+    expect(isPresenterMessage({ type: "slide", index: "2" })).toBe(false);
+    expect(isPresenterMessage(null)).toBe(false);
+  });
+});
+
+describe("formatPresenterTime", () => {
+  it("formats minutes and seconds", () => {
+    expect(formatPresenterTime(0)).toBe("0:00");
+    expect(formatPresenterTime(65_000)).toBe("1:05");
+    expect(formatPresenterTime(59_999)).toBe("0:59");
+  });
+
+  it("includes hours past one hour", () => {
+    expect(formatPresenterTime(3_725_000)).toBe("1:02:05");
+  });
+
+  it("prefixes overtime with a minus sign", () => {
+    expect(formatPresenterTime(-90_000)).toBe("-1:30");
+  });
+});
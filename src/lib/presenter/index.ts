@@ -0,0 +1,13 @@
+/**
+ * Presenter Module
+ *
+ * Window sync and timer helpers for presenter mode.
+ */
+
+export {
+  createPresenterSync,
+  getPresenterChannelName,
+  isPresenterMessage,
+  formatPresenterTime,
+} from "./sync";
+export type { PresenterMessage, PresenterSync } from "./sync";
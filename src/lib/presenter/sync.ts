@@ -0,0 +1,100 @@
+/**
+ * Presenter Window Sync
+ *
+ * Keeps the audience window and the presenter window on the same slide.
+ * Both windows join a BroadcastChannel scoped to the deck and act as peers:
+ * whoever navigates publishes the new index, the other follows.
+ */
+
+const CHANNEL_PREFIX = "arti-presenter:";
+
+/**
+ * Messages exchanged between presentation windows
+ */
+export type PresenterMessage =
+  | { type: "slide"; index: number }
+  | { type: "sync_request" }
+  | { type: "end" };
+
+export interface PresenterSync {
+  /** Announce the slide this window is now showing */
+  publishSlide: (index: number) => void;
+  /** Ask other windows for their current slide (sent when a window opens) */
+  requestSync: () => void;
+  /** Tell other windows the presentation has ended */
+  publishEnd: () => void;
+  close: () => void;
+}
+
+/**
+ * Get the BroadcastChannel name for a deck
+ */
+export function getPresenterChannelName(deckKey: string): string {
+  return `${CHANNEL_PREFIX}${deckKey}`;
+}
+
+/**
+ * Check that incoming channel data is a presenter message
+ */
+export function isPresenterMessage(data: unknown): data is PresenterMessage {
+  if (!data || typeof data !== "object") return false;
+  const message = data as { type?: unknown; index?: unknown };
+
+  switch (message.type) {
+    case "slide":
+      return (
+        typeof message.index === "number" && Number.isInteger(message.index) && message.index >= 0
+      );
+    case "sync_request":
+    case "end":
+      return true;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Join the presenter channel for a deck.
+ * Returns null where BroadcastChannel is unavailable (SSR, old browsers).
+ */
+export function createPresenterSync(
+  deckKey: string,
+  onMessage: (message: PresenterMessage) => void
+): PresenterSync | null {
+  if (typeof BroadcastChannel === "undefined") {
+    return null;
+  }
+
+  const channel = new BroadcastChannel(getPresenterChannelName(deckKey));
+  channel.onmessage = (event: MessageEvent) => {
+    if (isPresenterMessage(event.data)) {
+      onMessage(event.data);
+    }
+  };
+
+  const post = (message: PresenterMessage) => channel.postMessage(message);
+
+  return {
+    publishSlide: (index) => post({ type: "slide", index }),
+    requestSync: () => post({ type: "sync_request" }),
+    publishEnd: () => post({ type: "end" }),
+    close: () => channel.close(),
+  };
+}
+
+/**
+ * Format a duration as m:ss, or h:mm:ss past one hour.
+ * Negative durations (overtime) are prefixed with a minus sign.
+ */
+export function formatPresenterTime(ms: number): string {
+  const sign = ms < 0 ? "-" : "";
+  const totalSeconds = Math.floor(Math.abs(ms) / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const pad = (n: number) => n.toString().padStart(2, "0");
+
+  return hours > 0
+    ? `${sign}${hours}:${pad(minutes)}:${pad(seconds)}`
+    : `${sign}${minutes}:${pad(seconds)}`;
+}
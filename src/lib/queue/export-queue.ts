@@ -1,18 +1,25 @@
 /**
  * Export Queue
  *
- * BullMQ queue for asynchronous PDF and PPTX export jobs.
+ * BullMQ queue for asynchronous PDF, PPTX, image, HTML and Markdown export jobs.
  * Separate from generation queue for independent scaling.
  */
 
 import { Queue } from "bullmq";
 import { getRedisConnection } from "./redis";
 import type { ThemeId, BrandKitOverrides } from "@/lib/themes";
+import type { HandoutLayout } from "@/lib/export/pdf-handout";
 
 /**
  * Supported export formats
  */
-export type ExportFormat = "pdf" | "pptx";
+export type ExportFormat = "pdf" | "pptx" | "png" | "svg" | "html" | "markdown" | "txt";
+
+/**
+ * PNG pixel density: 1 gives 1280x720, 2 gives 2560x1440
+ */
+export const DEFAULT_PNG_SCALE = 2;
+export const MAX_PNG_SCALE = 4;
 
 /**
  * Data structure for export jobs in the queue
@@ -24,6 +31,10 @@ export interface ExportJobData {
   format: ExportFormat;
   themeId: ThemeId;
   brandKit?: BrandKitOverrides;
+  /** PNG pixel density, 1 to MAX_PNG_SCALE */
+  scale?: number;
+  /** PDF handout layout; omitted for one 16:9 page per slide */
+  handout?: HandoutLayout;
 }
 
 /**
@@ -1,7 +1,7 @@
 /**
  * Export Worker
  *
- * BullMQ worker that processes PDF and PPTX export jobs.
+ * BullMQ worker that processes PDF, PPTX, image (PNG/SVG), HTML, Markdown and plain-text export jobs.
  * Separate from generation worker for independent scaling.
  */
 
@@ -14,6 +14,7 @@ import {
   markExportJobFailed,
 } from "@/lib/db/export-job";
 import { prisma } from "@/lib/db/prisma";
+import { dbDeckToSchema } from "@/lib/db/deck";
 import {
   uploadFile,
   generateSignedUrl,
@@ -22,9 +23,23 @@ import {
   getDefaultExpirySeconds,
 } from "@/lib/storage";
 import { getTheme } from "@/lib/themes";
-import { renderSlidesToPdf, renderSlidesToPptx } from "@/lib/export";
+import {
+  renderSlidesToPdf,
+  renderSlidesToPptx,
+  renderDeckToHtml,
+  renderDeckToMarkdown,
+  renderDeckToText,
+  renderSlidesToImages,
+  packageSlideImages,
+  type ImageExportFile,
+  type ImageFormat,
+  type HandoutLayout,
+  computeExportHash,
+  findReusableExport,
+  type CachedExportFile,
+} from "@/lib/export";
 import type { Deck } from "@/lib/schemas/deck";
-import type { Slide } from "@/lib/schemas/slide";
+import type { ThemeId } from "@/lib/themes";
 
 /**
  * Export error codes
@@ -33,10 +48,23 @@ export const ExportErrorCodes = {
   DECK_NOT_FOUND: "DECK_NOT_FOUND",
   RENDER_ERROR_PDF: "RENDER_ERROR_PDF",
   RENDER_ERROR_PPTX: "RENDER_ERROR_PPTX",
+  RENDER_ERROR_IMAGE: "RENDER_ERROR_IMAGE",
+  RENDER_ERROR_HTML: "RENDER_ERROR_HTML",
+  RENDER_ERROR_MARKDOWN: "RENDER_ERROR_MARKDOWN",
+  RENDER_ERROR_TEXT: "RENDER_ERROR_TEXT",
   UPLOAD_ERROR: "UPLOAD_ERROR",
   INTERNAL_ERROR: "INTERNAL_ERROR",
 } as const;
 
+/**
+ * GenerationJob fields that hold export URLs for the v1 API
+ */
+const GENERATION_URL_FIELDS: Partial<Record<ExportJobData["format"], string>> = {
+  pdf: "pdfUrl",
+  pptx: "pptxUrl",
+  markdown: "markdownUrl",
+};
+
 /**
  * Fetch deck data from database and convert to Deck schema format
  */
@@ -62,31 +90,8 @@ async function fetchDeckData(deckId: string): Promise<{
     return null;
   }
 
-  // Convert database records to Deck schema format
-  const slides: Slide[] = deckRecord.slides.map((slide) => ({
-    type: slide.type as Slide["type"],
-    layoutVariant: slide.layoutVariant,
-    blocks: slide.blocks.map((block) => block.content as Slide["blocks"][0]),
-  }));
-
-  const deck: Deck = {
-    deck: {
-      title: deckRecord.title,
-      language: deckRecord.language,
-      themeId: deckRecord.themeId as Deck["deck"]["themeId"],
-      brandKit:
-        deckRecord.primaryColor || deckRecord.secondaryColor
-          ? {
-              primaryColor: deckRecord.primaryColor ?? undefined,
-              secondaryColor: deckRecord.secondaryColor ?? undefined,
-              logoUrl: deckRecord.logoUrl ?? undefined,
-            }
-          : undefined,
-    },
-    slides,
-  };
-
-  return { deck, themeId: deckRecord.themeId };
+  // Same conversion as the export route, so both compute the same content hash
+  return { deck: dbDeckToSchema(deckRecord), themeId: deckRecord.themeId };
 }
 
 /**
@@ -95,13 +100,15 @@ async function fetchDeckData(deckId: string): Promise<{
 async function renderPdf(
   deck: Deck,
   themeId: string,
-  brandKit?: Deck["deck"]["brandKit"]
+  brandKit?: Deck["deck"]["brandKit"],
+  handout?: HandoutLayout
 ): Promise<Buffer> {
   console.log(`Rendering PDF for deck: ${deck.deck.title}`);
   return renderSlidesToPdf(
     deck.slides,
     themeId as Parameters<typeof renderSlidesToPdf>[1],
-    brandKit
+    brandKit,
+    { meta: { title: deck.deck.title, language: deck.deck.language }, handout }
   );
 }
 
@@ -122,11 +129,98 @@ async function renderPptx(
   );
 }
 
+/**
+ * Render deck to slide images using Playwright
+ * A single slide becomes the image itself, several slides a zip.
+ */
+async function renderImages(
+  deck: Deck,
+  themeId: string,
+  brandKit: Deck["deck"]["brandKit"] | undefined,
+  format: ImageFormat,
+  scale?: number
+): Promise<ImageExportFile> {
+  console.log(`Rendering ${format.toUpperCase()} images for deck: ${deck.deck.title}`);
+  const images = await renderSlidesToImages(
+    deck.slides,
+    themeId as Parameters<typeof renderSlidesToImages>[1],
+    brandKit,
+    { format, scale, language: deck.deck.language }
+  );
+  return packageSlideImages(images, format);
+}
+
+/**
+ * Render deck to a self-contained HTML file
+ */
+async function renderHtml(
+  deck: Deck,
+  themeId: string,
+  brandKit?: Deck["deck"]["brandKit"]
+): Promise<Buffer> {
+  console.log(`Rendering HTML for deck: ${deck.deck.title}`);
+  return renderDeckToHtml(deck, themeId as Parameters<typeof renderDeckToHtml>[1], brandKit);
+}
+
+/**
+ * Render a deck in the requested format
+ */
+async function renderExport(
+  deck: Deck,
+  format: ExportJobData["format"],
+  themeId: string,
+  brandKit: Deck["deck"]["brandKit"] | undefined,
+  options: { scale?: number; handout?: HandoutLayout }
+): Promise<{
+  buffer: Buffer;
+  contentType: string;
+  extension: ImageExportFile["extension"] | "pdf" | "pptx" | "html" | "md" | "txt";
+}> {
+  if (format === "pdf") {
+    return {
+      buffer: await renderPdf(deck, themeId, brandKit, options.handout),
+      contentType: "application/pdf",
+      extension: "pdf",
+    };
+  }
+  if (format === "pptx") {
+    return {
+      buffer: await renderPptx(deck, themeId, brandKit),
+      contentType: "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+      extension: "pptx",
+    };
+  }
+  if (format === "html") {
+    return {
+      buffer: await renderHtml(deck, themeId, brandKit),
+      contentType: "text/html; charset=utf-8",
+      extension: "html",
+    };
+  }
+  if (format === "markdown") {
+    console.log(`Rendering Markdown for deck: ${deck.deck.title}`);
+    return {
+      buffer: renderDeckToMarkdown(deck),
+      contentType: "text/markdown; charset=utf-8",
+      extension: "md",
+    };
+  }
+  if (format === "txt") {
+    console.log(`Rendering plain text for deck: ${deck.deck.title}`);
+    return {
+      buffer: renderDeckToText(deck),
+      contentType: "text/plain; charset=utf-8",
+      extension: "txt",
+    };
+  }
+  return renderImages(deck, themeId, brandKit, format, options.scale);
+}
+
 /**
  * Process a single export job
  */
 async function processExportJob(job: Job<ExportJobData>): Promise<void> {
-  const { exportJobId, deckId, format, themeId, brandKit } = job.data;
+  const { exportJobId, deckId, format, themeId, brandKit, scale, handout } = job.data;
 
   console.log(`Processing export job ${exportJobId} (format: ${format})`);
 
@@ -152,36 +246,53 @@ async function processExportJob(job: Job<ExportJobData>): Promise<void> {
       throw new ExportError(ExportErrorCodes.INTERNAL_ERROR, `Theme ${resolvedThemeId} not found`);
     }
 
-    // Render based on format
-    let buffer: Buffer;
-    let contentType: string;
-
-    if (format === "pdf") {
-      buffer = await renderPdf(deck, resolvedThemeId, brandKit);
-      contentType = "application/pdf";
+    const contentHash = computeExportHash({
+      deck,
+      format,
+      themeId: resolvedThemeId as ThemeId,
+      brandKit,
+      scale,
+      handout,
+    });
+
+    // Reuse the file from an earlier export of the same content
+    let file: CachedExportFile | null = await findReusableExport(deckId, format, contentHash);
+    const cacheHit = file !== null;
+
+    if (file) {
+      console.log(`Export job ${exportJobId}: cache hit, reusing ${file.fileKey}`);
     } else {
-      buffer = await renderPptx(deck, resolvedThemeId, brandKit);
-      contentType = "application/vnd.openxmlformats-officedocument.presentationml.presentation";
+      const { buffer, contentType, extension } = await renderExport(
+        deck,
+        format,
+        resolvedThemeId,
+        brandKit,
+        { scale, handout }
+      );
+
+      // Generate S3 key
+      const key = generateExportKey(deckId, extension);
+
+      // Upload to S3
+      console.log(`Uploading ${format} to S3: ${key}`);
+      await uploadFile(key, buffer, contentType);
+
+      // Generate signed URL
+      const expirySeconds = getDefaultExpirySeconds();
+      file = {
+        fileUrl: await generateSignedUrl(key, expirySeconds),
+        fileKey: key,
+        expiresAt: calculateExpiryDate(expirySeconds),
+      };
     }
-
-    // Generate S3 key
-    const key = generateExportKey(deckId, format);
-
-    // Upload to S3
-    console.log(`Uploading ${format} to S3: ${key}`);
-    await uploadFile(key, buffer, contentType);
-
-    // Generate signed URL
-    const expirySeconds = getDefaultExpirySeconds();
-    const fileUrl = await generateSignedUrl(key, expirySeconds);
-    const expiresAt = calculateExpiryDate(expirySeconds);
+    const { fileUrl, expiresAt } = file;
 
     // Update export job with result
-    await setExportJobResult(exportJobId, { fileUrl, expiresAt });
+    await setExportJobResult(exportJobId, { ...file, contentHash, cacheHit });
 
-    // Also update GenerationJob if linked (for API response)
-    if (job.data.generationJobId) {
-      const updateField = format === "pdf" ? "pdfUrl" : "pptxUrl";
+    // Also update GenerationJob if linked (for API response); it only has PDF, PPTX and Markdown URLs
+    const updateField = GENERATION_URL_FIELDS[format];
+    if (job.data.generationJobId && updateField) {
       await prisma.generationJob.update({
         where: { id: job.data.generationJobId },
         data: {
@@ -213,6 +324,14 @@ async function processExportJob(job: Job<ExportJobData>): Promise<void> {
         errorCode = ExportErrorCodes.RENDER_ERROR_PPTX;
       } else if (error.message.includes("S3") || error.message.includes("upload")) {
         errorCode = ExportErrorCodes.UPLOAD_ERROR;
+      } else if (format === "png" || format === "svg") {
+        errorCode = ExportErrorCodes.RENDER_ERROR_IMAGE;
+      } else if (format === "html") {
+        errorCode = ExportErrorCodes.RENDER_ERROR_HTML;
+      } else if (format === "markdown") {
+        errorCode = ExportErrorCodes.RENDER_ERROR_MARKDOWN;
+      } else if (format === "txt") {
+        errorCode = ExportErrorCodes.RENDER_ERROR_TEXT;
       }
     }
 
@@ -14,6 +14,8 @@ import type { GenerationRequest } from "@/lib/schemas/deck";
 export interface GenerationJobData {
   generationId: string;
   workspaceId: string;
+  /** API key that created the job, for usage reporting */
+  apiKeyId?: string;
   request: GenerationRequest;
 }
 
@@ -15,12 +15,20 @@ import {
   setJobResult,
   markJobFailed,
   setJobDeckId,
+  setJobLLMModels,
+  addJobUsage,
 } from "@/lib/db/generation-job";
+import { createUsageRecord } from "@/lib/db/usage-record";
+import { UsageRecorder } from "@/lib/usage/recorder";
 import { prisma } from "@/lib/db/prisma";
 import { createPipeline, type PipelineProgress, PipelineError } from "@/lib/ai/pipeline";
+import { createPipelineLLMs, getEnvModelRouting, mergeModelRouting } from "@/lib/ai/model-routing";
 import { mapPipelineErrorToApiCode } from "@/lib/api/errors";
 import { addExportJob } from "./export-queue";
 import { createExportJob } from "@/lib/db/export-job";
+import { getWorkspaceTemplate } from "@/lib/db/golden-template";
+import { getDeckTemplate } from "@/lib/db/deck-template";
+import { getWorkspaceLLMSettings } from "@/lib/db/workspace";
 import type { ThemeId } from "@/lib/themes";
 import { createPublisher, publishEvent, closeConnection } from "@/lib/streaming/redis-pubsub";
 import { createStreamEvent, type StreamEventType } from "@/lib/streaming/types";
@@ -133,7 +141,7 @@ function createProgressUpdater(generationId: string) {
  * Process a single generation job
  */
 async function processGenerationJob(job: Job<GenerationJobData>): Promise<void> {
-  const { generationId, workspaceId, request } = job.data;
+  const { generationId, workspaceId, apiKeyId, request } = job.data;
 
   console.log(`Processing generation job ${generationId}`);
 
@@ -235,10 +243,37 @@ async function processGenerationJob(job: Job<GenerationJobData>): Promise<void>
   });
   console.log(`[${generationId}] Sent deck_created event - user should redirect now`);
 
+  // Usage of every LLM and image call, billed to the workspace and API key
+  const usage = new UsageRecorder(
+    {
+      workspaceId,
+      apiKeyId,
+      generationJobId: generationId,
+      deckId: preDeckId,
+      source: "generation",
+    },
+    createUsageRecord
+  );
+
   try {
+    // Resolve the model for each pipeline stage and record it on the job
+    const { routing, ...llmOptions } = await getWorkspaceLLMSettings(workspaceId);
+    const llms = createPipelineLLMs(
+      { ...llmOptions, onUsage: usage.recordLLM },
+      mergeModelRouting(getEnvModelRouting(), routing)
+    );
+    await setJobLLMModels(generationId, llms.selections);
+
     // Create pipeline with progress callback and pre-generated deckId
     const pipeline = createPipeline({
       deckId: preDeckId, // For image generation storage path
+      llmClient: llms.clients.content,
+      stageClients: llms.clients,
+      onImageUsage: usage.recordImage,
+      // Workspace and deck templates are only visible to the workspace that owns them
+      resolveTemplate: async (templateId) =>
+        (await getWorkspaceTemplate(templateId, workspaceId)) ??
+        (await getDeckTemplate(templateId, workspaceId)),
       onProgress: async (progress: PipelineProgress) => {
         const progressPercent = stageToProgress(
           progress.stage,
@@ -285,6 +320,8 @@ async function processGenerationJob(job: Job<GenerationJobData>): Promise<void>
                 position: slidePosition,
                 type: slideData.type,
                 layoutVariant: slideData.layoutVariant,
+                goldenType: slideData.goldenType,
+                notes: slideData.notes,
               },
             });
 
@@ -361,6 +398,8 @@ async function processGenerationJob(job: Job<GenerationJobData>): Promise<void>
               position: i,
               type: slideData.type,
               layoutVariant: slideData.layoutVariant,
+              goldenType: slideData.goldenType,
+              notes: slideData.notes,
             },
           });
 
@@ -463,7 +502,7 @@ async function processGenerationJob(job: Job<GenerationJobData>): Promise<void>
       );
 
       for (const format of request.exportAs) {
-        if (format === "pdf" || format === "pptx") {
+        if (format === "pdf" || format === "pptx" || format === "markdown") {
           // Create export job in database
           const exportJob = await createExportJob({
             deckId: deck.id,
@@ -529,6 +568,11 @@ async function processGenerationJob(job: Job<GenerationJobData>): Promise<void>
     // Re-throw to let BullMQ handle retry logic
     throw error;
   } finally {
+    const totals = await usage.flush();
+    await addJobUsage(generationId, totals).catch((err) => {
+      console.error(`[${generationId}] Failed to record usage totals:`, err);
+    });
+
     // Clean up publisher connection
     if (publisherConnected) {
       await closeConnection(publisher);
@@ -3,6 +3,7 @@ import { z } from "zod";
 /**
  * Block types supported in MVP (PRD §7.3)
  * Extended in Phase 7 with stat_block, timeline_step, icon_card, numbered_card for Gamma-level design
+ * Extended with chart for data-backed visuals
  */
 export const BlockKind = z.enum([
   "title",
@@ -15,6 +16,7 @@ export const BlockKind = z.enum([
   "timeline_step",
   "icon_card",
   "numbered_card",
+  "chart",
 ]);
 export type BlockKind = z.infer<typeof BlockKind>;
 
@@ -106,6 +108,34 @@ export const NumberedCardBlockContent = z.object({
   description: z.string().max(150).optional(), // Card description
 });
 
+/**
+ * Chart types - rendered natively in the editor, PDF (SVG) and PPTX
+ */
+export const ChartType = z.enum(["bar", "line", "pie", "stacked_bar"]);
+export type ChartType = z.infer<typeof ChartType>;
+
+/**
+ * Chart series - one named row of values, one value per category
+ */
+export const ChartSeriesSchema = z.object({
+  name: z.string().min(1).max(40),
+  values: z.array(z.number()).min(1).max(12),
+});
+export type ChartSeries = z.infer<typeof ChartSeriesSchema>;
+
+/**
+ * Chart block - bar/line/pie/stacked bar chart backed by tabular data
+ * Colours come from the theme's chart palette, never from the block
+ */
+export const ChartBlockContent = z.object({
+  chartType: ChartType,
+  text: z.string().max(80).optional(), // Chart title
+  categories: z.array(z.string().min(1).max(30)).min(1).max(12), // X axis / pie slices
+  series: z.array(ChartSeriesSchema).min(1).max(6),
+  xAxisLabel: z.string().max(40).optional(),
+  yAxisLabel: z.string().max(40).optional(),
+});
+
 /**
  * Union of all block content types
  */
@@ -120,6 +150,7 @@ export const BlockContent = z.discriminatedUnion("kind", [
   z.object({ kind: z.literal("timeline_step"), ...TimelineStepBlockContent.shape }),
   z.object({ kind: z.literal("icon_card"), ...IconCardBlockContent.shape }),
   z.object({ kind: z.literal("numbered_card"), ...NumberedCardBlockContent.shape }),
+  z.object({ kind: z.literal("chart"), ...ChartBlockContent.shape }),
 ]);
 
 /**
@@ -153,6 +184,12 @@ export const BlockSchema = z.object({
   bgColor: z.string().optional(),
   // numbered_card (Phase 7 Sprint 4)
   number: z.number().optional(),
+  // chart (text holds the chart title)
+  chartType: ChartType.optional(),
+  categories: z.array(z.string()).optional(),
+  series: z.array(ChartSeriesSchema).optional(),
+  xAxisLabel: z.string().optional(),
+  yAxisLabel: z.string().optional(),
 });
 
 export type Block = z.infer<typeof BlockSchema>;
@@ -97,11 +97,13 @@ export const GenerationRequestSchema = z.object({
     .optional(),
   // New fields for Prompt Editor
   additionalInstructions: z.string().max(1000).optional(),
+  // Generate speaker notes for every slide
+  speakerNotes: z.boolean().optional(),
   imageArtStyle: ImageArtStyle.optional(),
   imageKeywords: z.string().max(200).optional(),
-  exportAs: z.array(z.enum(["pdf", "pptx"])).optional(),
-  // Phase 8: Golden Templates
-  templateId: GoldenTemplateId.optional(),
+  exportAs: z.array(z.enum(["pdf", "pptx", "markdown"])).optional(),
+  // Phase 8: Golden Templates (built-in ID or workspace template cuid)
+  templateId: z.union([GoldenTemplateId, z.cuid()]).optional(),
   // Freeform-first: outline is optional - if not provided, pipeline generates it inline
   outline: OutlineSchema.optional(),
 });
@@ -118,7 +120,16 @@ export const GenerationResponseSchema = z.object({
   viewUrl: z.string().url().optional(),
   pdfUrl: z.string().url().optional(),
   pptxUrl: z.string().url().optional(),
+  markdownUrl: z.string().url().optional(),
   expiresAt: z.string().datetime().optional(),
+  usage: z
+    .object({
+      promptTokens: z.number().int(),
+      completionTokens: z.number().int(),
+      images: z.number().int(),
+      costUsd: z.number(),
+    })
+    .optional(),
   error: z
     .object({
       code: z.string(),
@@ -80,13 +80,36 @@ export const BulletsLayoutVariant = z
 
 export type BulletsLayoutVariant = z.infer<typeof BulletsLayoutVariant>;
 
+/**
+ * Golden template slide types (Phase 8)
+ *
+ * Set on slides generated from a golden template slot. Renderers and exporters
+ * use it to pick the pixel-perfect golden layout; `type` holds the closest
+ * standard slide type for everything else (editing, validation, fallbacks).
+ */
+export const GoldenSlideType = z.enum([
+  "cover",
+  "stats",
+  "content",
+  "bullets",
+  "cta",
+  "icon_grid",
+  "timeline",
+  "checklist",
+  "numbered_steps",
+  "circle_diagram",
+]);
+
 /**
  * Slide schema - a single slide in a deck
  */
 export const SlideSchema = z.object({
   type: SlideType,
   layoutVariant: LayoutVariant.optional(),
+  goldenType: GoldenSlideType.optional(),
   blocks: z.array(BlockSchema),
+  // Speaker notes (not rendered on the slide itself)
+  notes: z.string().max(5000).optional(),
 });
 
 export type Slide = z.infer<typeof SlideSchema>;
@@ -151,11 +151,13 @@ export async function fileExists(key: string): Promise<boolean> {
  * Generate an object key for export files
  *
  * @param generationId - The generation job ID
- * @param format - The export format (pdf or pptx)
+ * @param extension - The file extension (pdf, pptx, png, svg, html, md, txt, or zip for several images)
  * @returns A unique object key
  */
-export function generateExportKey(generationId: string, format: "pdf" | "pptx"): string {
-  const extension = format === "pdf" ? "pdf" : "pptx";
+export function generateExportKey(
+  generationId: string,
+  extension: "pdf" | "pptx" | "png" | "svg" | "html" | "md" | "txt" | "zip"
+): string {
   const timestamp = Date.now();
   return `exports/${generationId}/${timestamp}.${extension}`;
 }
@@ -254,3 +256,27 @@ export function generateUploadKey(workspaceId: string, uploadId: string, filenam
 
   return `uploads/${workspaceId}/${uploadId}/${sanitized}`;
 }
+
+/**
+ * Generate an object key for media extracted from an imported file
+ *
+ * @param workspaceId - The workspace ID
+ * @param uploadId - The upload the media came from
+ * @param slideIndex - Zero-based slide index in the imported deck
+ * @param filename - The media filename inside the file (will be sanitized)
+ * @returns A unique object key
+ */
+export function generateImportMediaKey(
+  workspaceId: string,
+  uploadId: string,
+  slideIndex: number,
+  filename: string
+): string {
+  const sanitized = filename
+    .toLowerCase()
+    .replace(/[^a-z0-9._-]/g, "-")
+    .replace(/-+/g, "-")
+    .replace(/^-|-$/g, "");
+
+  return `imports/${workspaceId}/${uploadId}/slide-${slideIndex + 1}-${sanitized}`;
+}
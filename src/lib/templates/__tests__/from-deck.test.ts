@@ -0,0 +1,171 @@
+import { describe, it, expect } from "vitest";
+import {
+  deriveDeckTemplateSlots,
+  describeDeckTemplateSlot,
+  applyDeckTemplateSlot,
+  isDeckTemplate,
+} from "../from-deck";
+import { getGoldenTemplate } from "../index";
+import type { Deck } from "@/lib/schemas/deck";
+import type { Slide } from "@/lib/schemas/slide";
+import type { DeckTemplateSlot } from "../types";
+
+const deck: Deck = {
+  deck: { title: "Kvartalsrapport", language: "no", themeId: "nordic_light" },
+  slides: [
+    {
+      type: "cover",
+      layoutVariant: "editorial",
+      blocks: [
+        { kind: "title", text: "Q3 i tall" },
+        { kind: "text", text: "Resultater og veien videre" },
+        { kind: "image", url: "https://example.com/cover.png", alt: "Kontorbygg" },
+      ],
+    },
+    {
+      type: "bullets",
+      layoutVariant: "numbered",
+      blocks: [
+        { kind: "title", text: "Hovedfunn fra kvartalet" },
+        {
+          kind: "bullets",
+          items: ["Omsetningen økte med 12 prosent", "Tre nye kunder", "Lavere churn"],
+        },
+      ],
+    },
+    {
+      type: "summary_with_stats",
+      blocks: [
+        { kind: "title", text: "Nøkkeltall" },
+        { kind: "stat_block", value: "12%", label: "Vekst i omsetning" },
+        { kind: "stat_block", value: "3", label: "Nye kunder" },
+      ],
+    },
+  ],
+};
+
+describe("deriveDeckTemplateSlots", () => {
+  const slots = deriveDeckTemplateSlots(deck);
+
+  it("creates one slot per slide with type, layout and block shape", () => {
+    expect(slots.map((s) => s.position)).toEqual([1, 2, 3]);
+    expect(slots.map((s) => s.slideType)).toEqual(["cover", "bullets", "summary_with_stats"]);
+    expect(slots[0].layoutVariant).toBe("editorial");
+    expect(slots[2].layoutVariant).toBeUndefined();
+    expect(slots[0].blockKinds).toEqual(["title", "text", "image"]);
+    expect(slots[1].purpose).toBe("Hovedfunn fra kvartalet");
+  });
+
+  it("infers limits from current lengths with headroom", () => {
+    // 23 chars * 1.25 -> 29
+    expect(slots[1].constraints.titleMaxChars).toBe(29);
+    expect(slots[1].constraints.itemCount).toBe(3);
+    // Longest item is 31 chars -> 39
+    expect(slots[1].constraints.itemMaxChars).toBe(39);
+    expect(slots[0].constraints.requiresImage).toBe(true);
+  });
+
+  it("never infers limits below the minimum or above BLOCK_CONSTRAINTS", () => {
+    // "Q3 i tall" is 9 chars - minimum applies
+    expect(slots[0].constraints.titleMaxChars).toBe(20);
+
+    const longTitle = "x".repeat(110);
+    const [slot] = deriveDeckTemplateSlots({
+      ...deck,
+      slides: [{ type: "bullets", blocks: [{ kind: "title", text: longTitle }] }],
+    });
+    expect(slot.constraints.titleMaxChars).toBe(120);
+  });
+
+  it("counts cards as items", () => {
+    expect(slots[2].constraints.itemCount).toBe(2);
+    // "Vekst i omsetning" is 17 chars -> 22, capped at stat label limit (50)
+    expect(slots[2].constraints.itemMaxChars).toBe(22);
+  });
+});
+
+describe("describeDeckTemplateSlot", () => {
+  it("describes block shape and limits as short hints", () => {
+    const [, bulletsSlot] = deriveDeckTemplateSlots(deck);
+    const hints = describeDeckTemplateSlot(bulletsSlot);
+
+    expect(hints).toHaveLength(2);
+    expect(hints[0]).toBe("Blocks: title, bullets");
+    expect(hints[1]).toContain("exactly 3 items");
+    hints.forEach((hint) => expect(hint.length).toBeLessThanOrEqual(100));
+  });
+});
+
+describe("applyDeckTemplateSlot", () => {
+  const slot: DeckTemplateSlot = {
+    position: 2,
+    slideType: "bullets",
+    layoutVariant: "numbered",
+    blockKinds: ["title", "bullets", "image"],
+    purpose: "Hovedfunn",
+    constraints: { titleMaxChars: 20, itemCount: 2, itemMaxChars: 20, requiresImage: true },
+  };
+
+  const generated: Slide = {
+    type: "summary_next_steps",
+    layoutVariant: "default",
+    blocks: [
+      { kind: "title", text: "En altfor lang overskrift for malen" },
+      {
+        kind: "bullets",
+        items: ["Kort punkt", "Et punkt som er mye lengre enn tjue tegn", "Ekstra"],
+      },
+      { kind: "callout", text: "Ikke en del av malen" },
+    ],
+  };
+
+  it("forces slide type and layout variant", () => {
+    const result = applyDeckTemplateSlot(generated, slot);
+
+    expect(result.type).toBe("bullets");
+    expect(result.layoutVariant).toBe("numbered");
+  });
+
+  it("cuts blocks, items and text to the slot's shape", () => {
+    const result = applyDeckTemplateSlot(generated, slot);
+
+    expect(result.blocks.map((b) => b.kind)).toEqual(["title", "bullets", "image"]);
+    expect(result.blocks[0].text!.length).toBeLessThanOrEqual(20);
+    const items = result.blocks[1].items!;
+    expect(items).toHaveLength(2);
+    items.forEach((item) => expect(item.length).toBeLessThanOrEqual(20));
+  });
+
+  it("adds an empty image block for image generation", () => {
+    const result = applyDeckTemplateSlot(generated, slot);
+    const image = result.blocks.find((b) => b.kind === "image");
+
+    expect(image).toMatchObject({ url: "", alt: result.blocks[0].text });
+  });
+
+  it("keeps the generated blocks when none match the slot", () => {
+    const result = applyDeckTemplateSlot(
+      { type: "quote_callout", blocks: [{ kind: "callout", text: "Sitat" }] },
+      { ...slot, constraints: {} }
+    );
+
+    expect(result.blocks).toEqual([{ kind: "callout", text: "Sitat" }]);
+  });
+});
+
+describe("isDeckTemplate", () => {
+  it("distinguishes deck templates from golden templates", () => {
+    expect(isDeckTemplate(getGoldenTemplate("executive_brief")!)).toBe(false);
+    expect(
+      isDeckTemplate({
+        kind: "deck",
+        id: "cktemplate000000000001",
+        workspaceId: "ws_default",
+        name: "Kvartalsrapport",
+        description: "",
+        slideCount: 0,
+        slots: [],
+      })
+    ).toBe(true);
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect } from "vitest";
+import { GoldenTemplateInputSchema } from "../schema";
+import { goldenTemplates } from "../index";
+
+const validInput = {
+  name: "Kvartalsrapport",
+  slots: [
+    {
+      position: 1,
+      slideType: "cover",
+      purpose: "Presenter rapporten",
+      constraints: { titleMaxChars: 60 },
+      example: { title: "Q3 2026" },
+    },
+    {
+      position: 2,
+      slideType: "timeline",
+      layoutVariant: "horizontal",
+      purpose: "Vis milepæler",
+      constraints: { itemCountMin: 3, itemCountMax: 5, itemMaxChars: 40 },
+      example: { items: ["Forstudie", "Utvikling", "Lansering"] },
+    },
+  ],
+};
+
+function issueMessages(input: unknown): string[] {
+  const result = GoldenTemplateInputSchema.safeParse(input);
+  return result.success ? [] : result.error.issues.map((issue) => issue.message);
+}
+
+describe("GoldenTemplateInputSchema", () => {
+  it.each(Object.values(goldenTemplates))("accepts built-in template $id", (template) => {
+    expect(issueMessages(template)).toEqual([]);
+  });
+
+  it("accepts a valid workspace template and applies defaults", () => {
+    const result = GoldenTemplateInputSchema.parse(validInput);
+
+    expect(result.description).toBe("");
+    expect(result.useCases).toEqual([]);
+    expect(result.slots).toHaveLength(2);
+  });
+
+  it("rejects slots that are out of order", () => {
+    const input = {
+      ...validInput,
+      slots: [validInput.slots[1], validInput.slots[0]],
+    };
+
+    expect(issueMessages(input).some((m) => m.includes("position must be 1"))).toBe(true);
+  });
+
+  it("rejects item counts the golden component cannot render", () => {
+    const input = {
+      ...validInput,
+      slots: [
+        validInput.slots[0],
+        { ...validInput.slots[1], constraints: { itemCountMin: 3, itemCountMax: 8 } },
+      ],
+    };
+
+    expect(issueMessages(input)).toContain(
+      "Slot 2 (timeline): at most 5 items fit this slide type"
+    );
+  });
+
+  it("requires an item count for slide types with items", () => {
+    const input = {
+      ...validInput,
+      slots: [validInput.slots[0], { ...validInput.slots[1], constraints: {} }],
+    };
+
+    expect(issueMessages(input)).toContain(
+      "Slot 2 (timeline): itemCount or itemCountMax is required"
+    );
+  });
+
+  it("rejects inconsistent min/max constraints", () => {
+    const input = {
+      ...validInput,
+      slots: [
+        validInput.slots[0],
+        { ...validInput.slots[1], constraints: { itemCountMin: 5, itemCountMax: 3 } },
+      ],
+    };
+
+    expect(issueMessages(input)).toContain(
+      "Slot 2 (timeline): itemCountMin cannot exceed itemCountMax"
+    );
+  });
+
+  it("rejects examples that break their own constraints", () => {
+    const input = {
+      ...validInput,
+      slots: [
+        { ...validInput.slots[0], example: { title: "x".repeat(61) } },
+        {
+          ...validInput.slots[1],
+          example: { items: ["Forstudie", "En milepæl med altfor lang beskrivelse her", "Test"] },
+        },
+      ],
+    };
+
+    expect(issueMessages(input)).toEqual([
+      "Slot 1 (cover): example title exceeds 60 characters",
+      "Slot 2 (timeline): example item exceeds 40 characters",
+    ]);
+  });
+
+  it("rejects unknown slide types", () => {
+    const input = {
+      ...validInput,
+      slots: [{ ...validInput.slots[0], slideType: "hero_video" }],
+    };
+
+    expect(GoldenTemplateInputSchema.safeParse(input).success).toBe(false);
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Feature Showcase Golden Template
+ *
+ * 6-slide template for product launches, feature announcements,
+ * and customer-facing product walkthroughs.
+ *
+ * Structure:
+ * 1. COVER - Product name + value proposition + background image
+ * 2. ICON_GRID - 4 key features in a 2x2 icon grid
+ * 3. CONTENT - Main benefit + product image (60/40 split)
+ * 4. TIMELINE - Rollout / availability milestones
+ * 5. STATS - 3 specs or proof points
+ * 6. CTA - How to get started
+ */
+
+import type { GoldenTemplate } from "./types";
+
+export const featureShowcaseTemplate: GoldenTemplate = {
+  id: "feature_showcase",
+  name: "Feature Showcase",
+  description: "Visuell presentasjon av produkt, funksjoner og verdi for brukeren",
+  useCases: ["Produktlanseringer", "Nye funksjoner", "Kundepresentasjoner", "Salgsmøter"],
+  slideCount: 6,
+  defaultTheme: "golden",
+  slots: [
+    // Slide 1: Cover
+    {
+      position: 1,
+      slideType: "cover",
+      layoutVariant: "centered",
+      purpose: "Introduser produktet med et tydelig verdiløfte og et sterkt produktbilde",
+      constraints: {
+        titleMaxChars: 60,
+        bodyMaxChars: 120,
+        requiresImage: true,
+        imageAspect: "16:9",
+        imageStyle: "sleek product, modern technology, clean studio lighting",
+      },
+      example: {
+        title: "Møt Arti Insights",
+        body: "Sanntidsanalyse som gjør data om til beslutninger",
+      },
+    },
+
+    // Slide 2: Icon grid
+    {
+      position: 2,
+      slideType: "icon_grid",
+      layoutVariant: "2x2",
+      purpose: "Vis 4 nøkkelfunksjoner med ikon, kort navn og én setning om nytten",
+      constraints: {
+        titleMaxChars: 50,
+        itemCount: 4, // Exactly 4 features (2x2 grid)
+        itemMaxChars: 40,
+        bodyMaxChars: 100, // Per-feature description
+      },
+      example: {
+        title: "Nøkkelfunksjoner",
+        items: ["Sanntidsdata", "Smarte varsler", "Delte dashboards", "Sikker tilgang"],
+      },
+    },
+
+    // Slide 3: Content (60/40 split)
+    {
+      position: 3,
+      slideType: "content",
+      layoutVariant: "text_left",
+      purpose: "Forklar den viktigste gevinsten for brukeren med støttende produktbilde",
+      constraints: {
+        titleMaxChars: 50,
+        bodyMaxChars: 300,
+        requiresImage: true,
+        imageAspect: "4:3",
+        imageStyle: "product in use, user interface, people collaborating",
+      },
+      example: {
+        title: "Fra data til handling",
+        body: "Arti Insights samler data fra alle kilder i ett bilde og markerer automatisk det som krever oppmerksomhet. Teamet bruker tiden på beslutninger i stedet for rapportering.",
+      },
+    },
+
+    // Slide 4: Timeline
+    {
+      position: 4,
+      slideType: "timeline",
+      layoutVariant: "horizontal",
+      purpose: "Vis lanseringsplan eller tilgjengelighet som 3-4 milepæler",
+      constraints: {
+        titleMaxChars: 50,
+        itemCountMin: 3,
+        itemCountMax: 4,
+        itemMaxChars: 40,
+        bodyMaxChars: 100, // Per-milestone description
+      },
+      example: {
+        title: "Lanseringsplan",
+        items: ["Beta: mars", "Lansering: mai", "Mobilapp: august", "Integrasjoner: Q4"],
+      },
+    },
+
+    // Slide 5: Stats (specs / proof points)
+    {
+      position: 5,
+      slideType: "stats",
+      layoutVariant: "horizontal",
+      purpose: "Presenter 3 spesifikasjoner eller bevispunkter som bygger tillit",
+      constraints: {
+        titleMaxChars: 50,
+        bodyMaxChars: 150,
+        itemCount: 3, // Exactly 3 stats
+        itemMaxChars: 30,
+      },
+      example: {
+        title: "I tall",
+        body: "Resultater fra pilotkundene",
+        items: ["40% mindre rapporteringstid", "99,9% oppetid", "< 2 sek responstid"],
+      },
+    },
+
+    // Slide 6: CTA
+    {
+      position: 6,
+      slideType: "cta",
+      layoutVariant: "centered",
+      purpose: "Avslutt med hvordan publikum kommer i gang",
+      constraints: {
+        titleMaxChars: 40,
+        bodyMaxChars: 200,
+        itemCountMin: 2,
+        itemCountMax: 3,
+        itemMaxChars: 60,
+      },
+      example: {
+        title: "Kom i gang",
+        body: "Prøv Arti Insights gratis i 30 dager",
+        items: ["Book en demo på arti.no", "Inviter teamet ditt til pilot"],
+      },
+    },
+  ],
+};
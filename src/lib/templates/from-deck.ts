@@ -0,0 +1,207 @@
+/**
+ * Deck-Derived Templates
+ *
+ * Turns a polished deck into a reusable template (one slot per slide) and
+ * enforces that structure on slides generated from new source text.
+ * Constraints are inferred from the current block lengths with some headroom,
+ * capped by the editor's BLOCK_CONSTRAINTS.
+ */
+
+import type { Deck } from "@/lib/schemas/deck";
+import type { Slide } from "@/lib/schemas/slide";
+import type { Block, BlockKind } from "@/lib/schemas/block";
+import { BLOCK_CONSTRAINTS, getTextConstraint, truncateText } from "@/lib/editor/constraints";
+import type { DeckTemplateSlot, ResolvedTemplate, DeckTemplate, SlotConstraints } from "./types";
+
+/** Room for new content to be somewhat longer than the source (25%) */
+const LENGTH_HEADROOM = 1.25;
+
+/** Never infer a limit tighter than this, even from very short source text */
+const MIN_INFERRED_CHARS = 20;
+
+/** Block kinds where each block is one item (cards, stats, steps) */
+const CARD_BLOCK_KINDS: BlockKind[] = ["stat_block", "timeline_step", "icon_card", "numbered_card"];
+
+/** Max characters of a card's main text, per card kind */
+const CARD_TEXT_LIMITS: Partial<Record<BlockKind, number>> = {
+  stat_block: BLOCK_CONSTRAINTS.stat_block.maxLabelChars,
+  timeline_step: BLOCK_CONSTRAINTS.timeline_step.maxTitleChars,
+  icon_card: BLOCK_CONSTRAINTS.icon_card.maxTextChars,
+  numbered_card: BLOCK_CONSTRAINTS.numbered_card.maxTextChars,
+};
+
+/**
+ * Check if a resolved template was derived from a deck
+ */
+export function isDeckTemplate(template: ResolvedTemplate): template is DeckTemplate {
+  return "kind" in template && template.kind === "deck";
+}
+
+/**
+ * Infer a character limit from the current length, capped by the block limit
+ */
+function inferLimit(length: number, cap: number): number {
+  return Math.min(cap, Math.max(MIN_INFERRED_CHARS, Math.ceil(length * LENGTH_HEADROOM)));
+}
+
+/**
+ * Main text of a card block (stat blocks are labelled, the rest have text)
+ */
+function cardText(block: Block): string {
+  return (block.kind === "stat_block" ? block.label : block.text) ?? "";
+}
+
+/**
+ * Infer slot constraints from a slide's blocks
+ */
+function inferConstraints(slide: Slide): SlotConstraints {
+  const constraints: SlotConstraints = {};
+
+  const titleBlock = slide.blocks.find((b) => b.kind === "title");
+  if (titleBlock?.text) {
+    constraints.titleMaxChars = inferLimit(
+      titleBlock.text.length,
+      BLOCK_CONSTRAINTS.title.maxChars
+    );
+  }
+
+  for (const block of slide.blocks) {
+    if ((block.kind === "text" || block.kind === "callout") && block.text) {
+      const limit = inferLimit(block.text.length, getTextConstraint(block.kind));
+      constraints.bodyMaxChars = Math.max(constraints.bodyMaxChars ?? 0, limit);
+    }
+  }
+
+  // Items: bullet points take precedence over cards
+  const bulletBlocks = slide.blocks.filter((b) => b.kind === "bullets" && b.items?.length);
+  const cardBlocks = slide.blocks.filter((b) => CARD_BLOCK_KINDS.includes(b.kind));
+
+  if (bulletBlocks.length > 0) {
+    const items = bulletBlocks.flatMap((b) => b.items ?? []);
+    constraints.itemCount = Math.max(...bulletBlocks.map((b) => b.items?.length ?? 0));
+    constraints.itemMaxChars = inferLimit(
+      Math.max(...items.map((item) => item.length)),
+      BLOCK_CONSTRAINTS.bullets.maxItemChars
+    );
+  } else if (cardBlocks.length > 0) {
+    constraints.itemCount = cardBlocks.length;
+    constraints.itemMaxChars = Math.max(
+      ...cardBlocks.map((block) =>
+        inferLimit(cardText(block).length, CARD_TEXT_LIMITS[block.kind] ?? MIN_INFERRED_CHARS)
+      )
+    );
+  }
+
+  if (slide.blocks.some((b) => b.kind === "image")) {
+    constraints.requiresImage = true;
+  }
+
+  return constraints;
+}
+
+/**
+ * Derive template slots from a deck (one slot per slide)
+ */
+export function deriveDeckTemplateSlots(deck: Deck): DeckTemplateSlot[] {
+  return deck.slides.map((slide, index) => {
+    const title = slide.blocks.find((b) => b.kind === "title")?.text;
+
+    return {
+      position: index + 1,
+      slideType: slide.type,
+      ...(slide.layoutVariant ? { layoutVariant: slide.layoutVariant } : {}),
+      blockKinds: slide.blocks.map((b) => b.kind),
+      purpose: title || slide.type,
+      constraints: inferConstraints(slide),
+    };
+  });
+}
+
+/**
+ * Describe a slot's shape as outline hints (max 2, each ≤100 chars)
+ * so the content prompt aims for the same structure
+ */
+export function describeDeckTemplateSlot(slot: DeckTemplateSlot): string[] {
+  const { constraints } = slot;
+  const hints = [truncateText(`Blocks: ${slot.blockKinds.join(", ")}`, 100)];
+
+  const limits: string[] = [];
+  if (constraints.itemCount !== undefined) {
+    limits.push(
+      `exactly ${constraints.itemCount} items` +
+        (constraints.itemMaxChars ? ` (max ${constraints.itemMaxChars} chars each)` : "")
+    );
+  }
+  if (constraints.titleMaxChars) limits.push(`title max ${constraints.titleMaxChars} chars`);
+  if (constraints.bodyMaxChars) limits.push(`text max ${constraints.bodyMaxChars} chars`);
+  if (limits.length > 0) {
+    hints.push(truncateText(limits.join("; "), 100));
+  }
+
+  return hints;
+}
+
+/**
+ * Force a generated slide into its template slot
+ * - Slide type and layout variant come from the slot
+ * - Block kinds the source slide did not have are dropped (unless nothing else is left)
+ * - Card counts, item counts and text lengths are cut to the slot's limits
+ * - An empty image block is added when the source slide had an image
+ */
+export function applyDeckTemplateSlot(slide: Slide, slot: DeckTemplateSlot): Slide {
+  const { constraints } = slot;
+
+  // Allowed count per block kind, taken from the source slide
+  const remaining = new Map<BlockKind, number>();
+  for (const kind of slot.blockKinds) {
+    remaining.set(kind, (remaining.get(kind) ?? 0) + 1);
+  }
+
+  const shaped = slide.blocks.filter((block) => {
+    const left = remaining.get(block.kind) ?? 0;
+    if (left === 0) return false;
+    remaining.set(block.kind, left - 1);
+    return true;
+  });
+
+  const hasContent = shaped.some((b) => b.kind !== "title");
+  let blocks = hasContent ? shaped : slide.blocks;
+
+  blocks = blocks.map((block) => {
+    if (block.kind === "title" && block.text && constraints.titleMaxChars) {
+      return { ...block, text: truncateText(block.text, constraints.titleMaxChars) };
+    }
+    if ((block.kind === "text" || block.kind === "callout") && block.text) {
+      return constraints.bodyMaxChars
+        ? { ...block, text: truncateText(block.text, constraints.bodyMaxChars) }
+        : block;
+    }
+    if (block.kind === "bullets" && block.items) {
+      const items = block.items.slice(0, constraints.itemCount ?? block.items.length);
+      return {
+        ...block,
+        items: constraints.itemMaxChars
+          ? items.map((item) => truncateText(item, constraints.itemMaxChars!))
+          : items,
+      };
+    }
+    if (CARD_BLOCK_KINDS.includes(block.kind) && constraints.itemMaxChars) {
+      return block.kind === "stat_block"
+        ? { ...block, label: block.label && truncateText(block.label, constraints.itemMaxChars) }
+        : { ...block, text: block.text && truncateText(block.text, constraints.itemMaxChars) };
+    }
+    return block;
+  });
+
+  if (constraints.requiresImage && !blocks.some((b) => b.kind === "image")) {
+    const title = blocks.find((b) => b.kind === "title")?.text ?? slot.purpose;
+    blocks = [...blocks, { kind: "image", url: "", alt: title }];
+  }
+
+  return {
+    ...slide,
+    type: slot.slideType,
+    layoutVariant: slot.layoutVariant ?? slide.layoutVariant,
+    blocks,
+  };
+}
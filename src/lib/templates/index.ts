@@ -7,19 +7,28 @@
 
 export * from "./types";
 export { executiveBriefTemplate } from "./executive-brief";
+export { featureShowcaseTemplate } from "./feature-showcase";
+export { projectUpdateTemplate } from "./project-update";
+export {
+  isDeckTemplate,
+  deriveDeckTemplateSlots,
+  describeDeckTemplateSlot,
+  applyDeckTemplateSlot,
+} from "./from-deck";
 
 import type { GoldenTemplate, GoldenTemplateId } from "./types";
 import { executiveBriefTemplate } from "./executive-brief";
+import { featureShowcaseTemplate } from "./feature-showcase";
+import { projectUpdateTemplate } from "./project-update";
 
 /**
  * Registry of all available golden templates
  */
 export const goldenTemplates: Record<GoldenTemplateId, GoldenTemplate> = {
   executive_brief: executiveBriefTemplate,
-  // Future templates:
-  // feature_showcase: featureShowcaseTemplate,
-  // project_update: projectUpdateTemplate,
-} as Record<GoldenTemplateId, GoldenTemplate>;
+  feature_showcase: featureShowcaseTemplate,
+  project_update: projectUpdateTemplate,
+};
 
 /**
  * Get a template by ID
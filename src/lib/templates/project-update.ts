@@ -0,0 +1,131 @@
+/**
+ * Project Update Golden Template
+ *
+ * 5-slide template for PMO reporting, steering committee meetings,
+ * and recurring project status updates.
+ *
+ * Structure:
+ * 1. COVER - Project name + reporting period + background image
+ * 2. TIMELINE - Milestones with completed/current/upcoming status
+ * 3. CHECKLIST - Decisions made or needed + image
+ * 4. NUMBERED_STEPS - Prioritised action items
+ * 5. CTA - Next steps and asks for the steering group
+ */
+
+import type { GoldenTemplate } from "./types";
+
+export const projectUpdateTemplate: GoldenTemplate = {
+  id: "project_update",
+  name: "Project Update",
+  description: "Strukturert prosjektstatus med milepæler, beslutninger og tiltak",
+  useCases: ["Styringsgruppemøter", "Prosjektstatus", "PMO-rapportering", "Sprintgjennomganger"],
+  slideCount: 5,
+  defaultTheme: "golden",
+  slots: [
+    // Slide 1: Cover
+    {
+      position: 1,
+      slideType: "cover",
+      layoutVariant: "centered",
+      purpose: "Presenter prosjektnavn og rapporteringsperiode",
+      constraints: {
+        titleMaxChars: 60,
+        bodyMaxChars: 120,
+        requiresImage: true,
+        imageAspect: "16:9",
+        imageStyle: "construction, planning, teamwork, abstract progress",
+      },
+      example: {
+        title: "Prosjekt Fenix – status uke 12",
+        body: "Fremdrift, beslutninger og tiltak for styringsgruppen",
+      },
+    },
+
+    // Slide 2: Timeline
+    {
+      position: 2,
+      slideType: "timeline",
+      layoutVariant: "horizontal",
+      purpose: "Vis prosjektets milepæler og hvor vi står nå",
+      constraints: {
+        titleMaxChars: 50,
+        itemCountMin: 3,
+        itemCountMax: 5,
+        itemMaxChars: 40,
+        bodyMaxChars: 100, // Per-milestone description
+      },
+      example: {
+        title: "Fremdrift",
+        items: ["Forstudie", "Design", "Utvikling", "Testing", "Produksjonssetting"],
+      },
+    },
+
+    // Slide 3: Checklist (decisions)
+    {
+      position: 3,
+      slideType: "checklist",
+      layoutVariant: "image_right",
+      purpose: "List beslutninger som er tatt og beslutninger som må tas",
+      constraints: {
+        titleMaxChars: 50,
+        itemCountMin: 3,
+        itemCountMax: 5,
+        itemMaxChars: 80,
+        requiresImage: true,
+        imageAspect: "3:4",
+        imageStyle: "meeting room, decision making, documents",
+      },
+      example: {
+        title: "Beslutninger",
+        items: [
+          "Leverandør for skyplattform er valgt",
+          "Budsjett for fase 2 er godkjent",
+          "Dato for produksjonssetting må besluttes",
+        ],
+      },
+    },
+
+    // Slide 4: Numbered steps (actions)
+    {
+      position: 4,
+      slideType: "numbered_steps",
+      layoutVariant: "grid",
+      purpose: "Vis de viktigste tiltakene i prioritert rekkefølge med ansvarlig",
+      constraints: {
+        titleMaxChars: 50,
+        itemCountMin: 3,
+        itemCountMax: 4,
+        itemMaxChars: 50,
+        bodyMaxChars: 120, // Per-step description
+      },
+      example: {
+        title: "Tiltak",
+        items: [
+          "Avklare testmiljø (Kari)",
+          "Fullføre datamigrering (Per)",
+          "Opplæring av superbrukere (Anna)",
+        ],
+      },
+    },
+
+    // Slide 5: CTA
+    {
+      position: 5,
+      slideType: "cta",
+      layoutVariant: "centered",
+      purpose: "Avslutt med neste steg og hva prosjektet trenger fra styringsgruppen",
+      constraints: {
+        titleMaxChars: 40,
+        bodyMaxChars: 200,
+        itemCountMin: 2,
+        itemCountMax: 3,
+        itemMaxChars: 60,
+      },
+      example: {
+        title: "Veien videre",
+        body: "Prosjektet er i rute, men trenger to avklaringer",
+        items: ["Beslutte dato for produksjonssetting", "Godkjenne ekstra testressurs"],
+      },
+    },
+  ],
+};
@@ -0,0 +1,160 @@
+/**
+ * Golden Template Validation Schemas
+ *
+ * Zod schemas for workspace-defined golden templates. Besides the shape,
+ * every slot is checked against its SlotConstraints and against what the
+ * golden component for its slide type can actually render, so a stored
+ * template can never produce a slide that overflows its fixed layout.
+ */
+
+import { z } from "zod";
+import { GoldenSlideType } from "@/lib/schemas/slide";
+import type { GoldenSlideType as GoldenSlideTypeName } from "./types";
+
+/**
+ * Maximum number of items each golden component renders
+ * (0 = the slide type has no item list)
+ */
+export const GOLDEN_SLOT_ITEM_LIMITS: Record<GoldenSlideTypeName, number> = {
+  cover: 0,
+  content: 0,
+  stats: 3,
+  bullets: 5,
+  cta: 3,
+  icon_grid: 4,
+  timeline: 5,
+  checklist: 5,
+  numbered_steps: 4,
+  circle_diagram: 4,
+};
+
+/** Maximum number of slots in a workspace template */
+export const MAX_TEMPLATE_SLOTS = 20;
+
+export const SlotConstraintsSchema = z.object({
+  titleMaxChars: z.number().int().min(10).max(200).optional(),
+  bodyMaxChars: z.number().int().min(10).max(1000).optional(),
+  itemCount: z.number().int().min(1).optional(),
+  itemCountMin: z.number().int().min(1).optional(),
+  itemCountMax: z.number().int().min(1).optional(),
+  itemMaxChars: z.number().int().min(10).max(300).optional(),
+  requiresImage: z.boolean().optional(),
+  imageAspect: z.enum(["16:9", "4:3", "1:1", "3:4"]).optional(),
+  imageStyle: z.string().max(200).optional(),
+});
+
+export const GoldenSlotSchema = z.object({
+  position: z.number().int().min(1),
+  slideType: GoldenSlideType,
+  layoutVariant: z.string().min(1).max(50).optional(),
+  purpose: z.string().min(1).max(500),
+  constraints: SlotConstraintsSchema,
+  example: z
+    .object({
+      title: z.string().optional(),
+      body: z.string().optional(),
+      items: z.array(z.string()).optional(),
+    })
+    .optional(),
+});
+
+export type GoldenSlotInput = z.infer<typeof GoldenSlotSchema>;
+
+/**
+ * Check one slot's constraints and example for consistency
+ * Issues are prefixed with the slot position so flattened errors stay readable
+ */
+function validateSlot(slot: GoldenSlotInput, index: number, ctx: z.RefinementCtx): void {
+  const { constraints, example } = slot;
+  const label = `Slot ${slot.position} (${slot.slideType})`;
+  const addIssue = (message: string, path: (string | number)[]) =>
+    ctx.addIssue({
+      code: "custom",
+      message: `${label}: ${message}`,
+      path: ["slots", index, ...path],
+    });
+
+  const limit = GOLDEN_SLOT_ITEM_LIMITS[slot.slideType];
+  const { itemCount, itemCountMin, itemCountMax } = constraints;
+  const maxItems = itemCount ?? itemCountMax;
+
+  if (itemCountMin !== undefined && itemCountMax !== undefined && itemCountMin > itemCountMax) {
+    addIssue("itemCountMin cannot exceed itemCountMax", ["constraints", "itemCountMin"]);
+  }
+  if (
+    itemCount !== undefined &&
+    ((itemCountMin !== undefined && itemCount < itemCountMin) ||
+      (itemCountMax !== undefined && itemCount > itemCountMax))
+  ) {
+    addIssue("itemCount must lie within itemCountMin..itemCountMax", ["constraints", "itemCount"]);
+  }
+
+  if (limit === 0) {
+    if (maxItems !== undefined || itemCountMin !== undefined) {
+      addIssue("this slide type has no items", ["constraints"]);
+    }
+  } else if (maxItems === undefined) {
+    addIssue("itemCount or itemCountMax is required", ["constraints"]);
+  } else if (maxItems > limit) {
+    addIssue(`at most ${limit} items fit this slide type`, ["constraints"]);
+  }
+
+  if (!example) return;
+
+  if (
+    example.title !== undefined &&
+    constraints.titleMaxChars !== undefined &&
+    example.title.length > constraints.titleMaxChars
+  ) {
+    addIssue(`example title exceeds ${constraints.titleMaxChars} characters`, ["example", "title"]);
+  }
+  if (
+    example.body !== undefined &&
+    constraints.bodyMaxChars !== undefined &&
+    example.body.length > constraints.bodyMaxChars
+  ) {
+    addIssue(`example body exceeds ${constraints.bodyMaxChars} characters`, ["example", "body"]);
+  }
+  if (example.items) {
+    if (maxItems !== undefined && example.items.length > maxItems) {
+      addIssue(`example has more than ${maxItems} items`, ["example", "items"]);
+    }
+    if (constraints.itemMaxChars !== undefined) {
+      example.items.forEach((item, itemIndex) => {
+        if (item.length > constraints.itemMaxChars!) {
+          addIssue(`example item exceeds ${constraints.itemMaxChars} characters`, [
+            "example",
+            "items",
+            itemIndex,
+          ]);
+        }
+      });
+    }
+  }
+}
+
+/**
+ * Workspace template input (create / replace)
+ * Slots must be ordered with positions 1..n
+ */
+export const GoldenTemplateInputSchema = z
+  .object({
+    name: z.string().min(1).max(100),
+    description: z.string().max(500).default(""),
+    useCases: z.array(z.string().min(1).max(100)).max(10).default([]),
+    slots: z.array(GoldenSlotSchema).min(1).max(MAX_TEMPLATE_SLOTS),
+  })
+  .superRefine((template, ctx) => {
+    template.slots.forEach((slot, index) => {
+      if (slot.position !== index + 1) {
+        ctx.addIssue({
+          code: "custom",
+          message: `Slot ${index + 1}: position must be ${index + 1} (slots are ordered 1..n)`,
+          path: ["slots", index, "position"],
+        });
+      }
+      validateSlot(slot, index, ctx);
+    });
+  });
+
+export type GoldenTemplateInput = z.infer<typeof GoldenTemplateInputSchema>;
@@ -5,6 +5,9 @@
  * where AI fills content but NEVER decides structure/layout.
  */
 
+import type { SlideType } from "@/lib/schemas/slide";
+import type { BlockKind } from "@/lib/schemas/block";
+
 /**
  * Available golden template IDs
  */
@@ -94,6 +97,69 @@ export interface GoldenTemplate {
   defaultTheme: "golden";
 }
 
+/**
+ * A golden template defined by a workspace and stored in the database
+ * Same structure as a built-in template, identified by its database ID
+ */
+export interface WorkspaceGoldenTemplate extends Omit<GoldenTemplate, "id"> {
+  /** Database ID (cuid) */
+  id: string;
+  /** Owning workspace */
+  workspaceId: string;
+}
+
+/**
+ * Any template the pipeline can generate from (built-in or workspace-defined)
+ */
+export type AnyGoldenTemplate = GoldenTemplate | WorkspaceGoldenTemplate;
+
+/**
+ * A single slot in a template derived from an existing deck
+ * Reproduces the source slide's type, layout variant and block shape
+ */
+export interface DeckTemplateSlot {
+  /** Position in deck (1-indexed for display) */
+  position: number;
+  /** Fixed slide type of the source slide */
+  slideType: SlideType;
+  /** Layout variant of the source slide */
+  layoutVariant?: string;
+  /** Ordered block kinds of the source slide */
+  blockKinds: BlockKind[];
+  /** Source slide title (guidance for the outline, not reused as content) */
+  purpose: string;
+  /** Limits inferred from the source slide's block lengths */
+  constraints: SlotConstraints;
+}
+
+/**
+ * A template saved from an existing deck ("Lagre som mal")
+ * New source text is poured into the same slide structure
+ */
+export interface DeckTemplate {
+  /** Discriminates deck-derived templates from golden templates */
+  kind: "deck";
+  /** Database ID (cuid) */
+  id: string;
+  /** Owning workspace */
+  workspaceId: string;
+  /** Display name */
+  name: string;
+  /** Description for template selection */
+  description: string;
+  /** Deck the structure was derived from */
+  sourceDeckId?: string;
+  /** Fixed number of slides */
+  slideCount: number;
+  /** Ordered slot definitions */
+  slots: DeckTemplateSlot[];
+}
+
+/**
+ * Any template a non-built-in template ID can resolve to
+ */
+export type ResolvedTemplate = AnyGoldenTemplate | DeckTemplate;
+
 /**
  * Content generated for a single slot
  */
@@ -112,6 +178,7 @@ export interface SlotContent {
     sublabel?: string; // For stats
     icon?: string; // For icon cards
     description?: string;
+    status?: "completed" | "current" | "upcoming"; // For timeline milestones and checklists
   }>;
   /** Generated image URL */
   imageUrl?: string;
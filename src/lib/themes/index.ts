@@ -25,6 +25,9 @@ export {
   getContrastColor,
   cssVarsToStyle,
   mergeCssVars,
+  CHART_COLOR_KEYS,
+  getChartColors,
+  getChartColorVar,
 } from "./theme-utils";
 
 // Theme imports
@@ -5,7 +5,7 @@
  * and applying brand kit overrides.
  */
 
-import type { Theme, ThemeTokens, BrandKitOverrides } from "./types";
+import type { Theme, ThemeTokens, ThemeColors, BrandKitOverrides } from "./types";
 
 /**
  * Convert camelCase to kebab-case
@@ -124,6 +124,35 @@ export function themeToCssVars(tokens: ThemeTokens): Record<string, string> {
   return vars;
 }
 
+/**
+ * Theme colours used for chart series, in order.
+ * Shared by the web renderer (CSS variables) and the PPTX exporter (hex values)
+ * so a chart looks the same everywhere.
+ */
+export const CHART_COLOR_KEYS = [
+  "primary",
+  "accent",
+  "accentPurple",
+  "accentPink",
+  "success",
+  "warning",
+] as const satisfies readonly (keyof ThemeColors)[];
+
+/**
+ * Get the hex colours for chart series from a theme's palette
+ */
+export function getChartColors(colors: ThemeColors): string[] {
+  return CHART_COLOR_KEYS.map((key) => colors[key]);
+}
+
+/**
+ * Get the CSS variable for the nth chart series colour (wraps around)
+ */
+export function getChartColorVar(index: number): string {
+  const key = CHART_COLOR_KEYS[index % CHART_COLOR_KEYS.length];
+  return `var(--theme-color-${toKebabCase(key)})`;
+}
+
 /**
  * Apply brand kit overrides to a theme
  *
@@ -0,0 +1,83 @@
+/**
+ * Usage Pricing Tests
+ */
+
+import { describe, it, expect } from "vitest";
+import { DEFAULT_PRICES, estimateImageCost, estimateLLMCost, getPriceTable } from "../pricing";
+
+describe("pricing", () => {
+  describe("estimateLLMCost", () => {
+    it("prices input and output tokens per million", () => {
+      expect(
+        estimateLLMCost({
+          provider: "openai",
+          model: "gpt-4o",
+          promptTokens: 1_000_000,
+          completionTokens: 100_000,
+        })
+      ).toBeCloseTo(3.5);
+    });
+
+    it("matches the longest model prefix", () => {
+      const usage = { provider: "openai", promptTokens: 1_000_000, completionTokens: 0 };
+
+      expect(estimateLLMCost({ ...usage, model: "gpt-4o-mini-2024-07-18" })).toBeCloseTo(0.15);
+      expect(estimateLLMCost({ ...usage, model: "gpt-4o-2024-08-06" })).toBeCloseTo(2.5);
+    });
+
+    it("treats self-hosted, mock and unknown models as free", () => {
+      const usage = { promptTokens: 1000, completionTokens: 1000 };
+
+      expect(estimateLLMCost({ ...usage, provider: "openai_compatible", model: "gpt-4o" })).toBe(0);
+      expect(estimateLLMCost({ ...usage, provider: "mock", model: "mock" })).toBe(0);
+      expect(estimateLLMCost({ ...usage, provider: "azure_openai", model: "prod-deploy" })).toBe(0);
+    });
+  });
+
+  describe("estimateImageCost", () => {
+    it("prices images per model", () => {
+      expect(estimateImageCost({ model: "dall-e-3", images: 2 })).toBeCloseTo(0.16);
+      expect(estimateImageCost({ model: "gemini-3-pro-image-preview", images: 1 })).toBeCloseTo(
+        0.134
+      );
+    });
+  });
+
+  describe("getPriceTable", () => {
+    it("returns the defaults without USAGE_PRICING", () => {
+      expect(getPriceTable({})).toBe(DEFAULT_PRICES);
+    });
+
+    it("applies USAGE_PRICING overrides", () => {
+      const prices = getPriceTable({
+        USAGE_PRICING: JSON.stringify({
+          llm: { "prod-deploy": { input: 2.5, output: 10 } },
+          image: { "dall-e-3": 0.04 },
+        }),
+      });
+
+      expect(
+        estimateLLMCost(
+          {
+            provider: "azure_openai",
+            model: "prod-deploy",
+            promptTokens: 1_000_000,
+            completionTokens: 0,
+          },
+          prices
+        )
+      ).toBeCloseTo(2.5);
+      expect(estimateImageCost({ model: "dall-e-3", images: 1 }, prices)).toBeCloseTo(0.04);
+      expect(prices.llm["gpt-4o"]).toEqual(DEFAULT_PRICES.llm["gpt-4o"]);
+    });
+
+    it("rejects invalid USAGE_PRICING", () => {
+      expect(() => getPriceTable({ USAGE_PRICING: "{" })).toThrow(
+        "USAGE_PRICING must be a JSON object"
+      );
+      expect(() =>
+        getPriceTable({ USAGE_PRICING: JSON.stringify({ llm: { "gpt-4o": { input: -1 } } }) })
+      ).toThrow("Invalid USAGE_PRICING");
+    });
+  });
+});
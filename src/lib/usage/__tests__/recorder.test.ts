@@ -0,0 +1,95 @@
+/**
+ * Usage Recorder Tests
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import type { CreateUsageRecordInput } from "@/lib/db/usage-record";
+import { UsageRecorder, type UsageContext } from "../recorder";
+import { DEFAULT_PRICES } from "../pricing";
+
+const CONTEXT: UsageContext = {
+  workspaceId: "ws_1",
+  apiKeyId: "key_1",
+  generationJobId: "job_1",
+  source: "generation",
+};
+
+const LLM_USAGE = {
+  provider: "openai",
+  model: "gpt-4o",
+  temperature: 0.7,
+  promptTokens: 1000,
+  completionTokens: 500,
+  stage: "outline",
+};
+
+describe("UsageRecorder", () => {
+  it("writes one priced record per call", async () => {
+    const records: CreateUsageRecordInput[] = [];
+    const recorder = new UsageRecorder(
+      CONTEXT,
+      async (record) => records.push(record),
+      DEFAULT_PRICES
+    );
+
+    recorder.recordLLM(LLM_USAGE);
+    recorder.recordImage({ provider: "openai", model: "dall-e-3", images: 1 });
+    await recorder.flush();
+
+    expect(records).toEqual([
+      {
+        ...CONTEXT,
+        stage: "outline",
+        kind: "llm",
+        provider: "openai",
+        model: "gpt-4o",
+        promptTokens: 1000,
+        completionTokens: 500,
+        images: 0,
+        costUsd: 0.0075,
+      },
+      {
+        ...CONTEXT,
+        kind: "image",
+        provider: "openai",
+        model: "dall-e-3",
+        promptTokens: 0,
+        completionTokens: 0,
+        images: 1,
+        costUsd: 0.08,
+      },
+    ]);
+  });
+
+  it("returns the totals from flush", async () => {
+    const recorder = new UsageRecorder(CONTEXT, async () => undefined, DEFAULT_PRICES);
+
+    recorder.recordLLM(LLM_USAGE);
+    recorder.recordLLM({ ...LLM_USAGE, stage: "content" });
+    recorder.recordImage({ provider: "gemini", model: "gemini-3-pro-image-preview", images: 1 });
+
+    expect(await recorder.flush()).toEqual({
+      promptTokens: 2000,
+      completionTokens: 1000,
+      images: 1,
+      costUsd: 0.149,
+    });
+  });
+
+  it("logs failed writes instead of throwing", async () => {
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+    const recorder = new UsageRecorder(
+      CONTEXT,
+      async () => {
+        throw new Error("database unavailable");
+      },
+      DEFAULT_PRICES
+    );
+
+    recorder.recordLLM(LLM_USAGE);
+
+    await expect(recorder.flush()).resolves.toMatchObject({ promptTokens: 1000 });
+    expect(error).toHaveBeenCalledOnce();
+    error.mockRestore();
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * Usage Pricing
+ *
+ * List prices in USD used to estimate the cost of LLM and image calls.
+ * Models are matched by the longest price key that prefixes the model name,
+ * so dated snapshots (gpt-4o-2024-08-06) share the base model's price.
+ * USAGE_PRICING (JSON) adds or overrides entries, e.g. for Azure deployment
+ * names or negotiated rates:
+ *
+ * {"llm":{"my-gpt4o-deployment":{"input":2.5,"output":10}},"image":{"dall-e-3":0.04}}
+ */
+
+import { z } from "zod";
+
+/**
+ * Price per million tokens
+ */
+export interface TokenPrice {
+  input: number;
+  output: number;
+}
+
+export interface PriceTable {
+  /** Model name prefix → price per million tokens */
+  llm: Record<string, TokenPrice>;
+  /** Model name prefix → price per image */
+  image: Record<string, number>;
+}
+
+export const DEFAULT_PRICES: PriceTable = {
+  llm: {
+    "gpt-4o": { input: 2.5, output: 10 },
+    "gpt-4o-mini": { input: 0.15, output: 0.6 },
+    "gpt-4.1": { input: 2, output: 8 },
+    "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+    "claude-sonnet-4": { input: 3, output: 15 },
+    "claude-opus-4": { input: 15, output: 75 },
+    "claude-haiku-4": { input: 1, output: 5 },
+  },
+  image: {
+    "dall-e-3": 0.08,
+    "gemini-3-pro-image": 0.134,
+  },
+};
+
+/**
+ * Providers that run on our own hardware or in tests cost nothing per call
+ */
+const FREE_PROVIDERS = new Set(["mock", "openai_compatible"]);
+
+const PricingOverrideSchema = z.object({
+  llm: z
+    .record(z.string(), z.object({ input: z.number().min(0), output: z.number().min(0) }))
+    .optional(),
+  image: z.record(z.string(), z.number().min(0)).optional(),
+});
+
+/**
+ * Price table with the USAGE_PRICING overrides applied
+ * @throws Error when USAGE_PRICING is not valid pricing JSON
+ */
+export function getPriceTable(env: Record<string, string | undefined> = process.env): PriceTable {
+  const raw = env.USAGE_PRICING;
+  if (!raw) return DEFAULT_PRICES;
+
+  let json: unknown;
+  try {
+    json = JSON.parse(raw);
+  } catch {
+    throw new Error("USAGE_PRICING must be a JSON object");
+  }
+
+  const result = PricingOverrideSchema.safeParse(json);
+  if (!result.success) {
+    throw new Error(`Invalid USAGE_PRICING: ${result.error.message}`);
+  }
+
+  return {
+    llm: { ...DEFAULT_PRICES.llm, ...result.data.llm },
+    image: { ...DEFAULT_PRICES.image, ...result.data.image },
+  };
+}
+
+function findPrice<T>(prices: Record<string, T>, model: string): T | undefined {
+  const key = Object.keys(prices)
+    .filter((prefix) => model.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0];
+  return key === undefined ? undefined : prices[key];
+}
+
+/**
+ * Estimated cost in USD of one LLM request; 0 for unpriced models
+ */
+export function estimateLLMCost(
+  usage: { provider: string; model: string; promptTokens: number; completionTokens: number },
+  prices: PriceTable = DEFAULT_PRICES
+): number {
+  if (FREE_PROVIDERS.has(usage.provider)) return 0;
+
+  const price = findPrice(prices.llm, usage.model);
+  if (!price) return 0;
+
+  return (usage.promptTokens * price.input + usage.completionTokens * price.output) / 1_000_000;
+}
+
+/**
+ * Estimated cost in USD of generated images; 0 for unpriced models
+ */
+export function estimateImageCost(
+  usage: { model: string; images: number },
+  prices: PriceTable = DEFAULT_PRICES
+): number {
+  return (findPrice(prices.image, usage.model) ?? 0) * usage.images;
+}
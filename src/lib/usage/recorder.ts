@@ -0,0 +1,106 @@
+/**
+ * Usage Recorder
+ *
+ * Collects the usage reported by LLM and image clients for one unit of work
+ * (a generation job or an editor request), prices it and writes one usage
+ * record per call. Pass recordLLM/recordImage as the clients' onUsage.
+ *
+ * Writes run in the background and failures are only logged: usage
+ * accounting must never fail a generation. Call flush() before the work
+ * finishes to wait for them.
+ */
+
+import type { LLMUsage } from "@/lib/ai/llm-providers";
+import type { ImageUsage } from "@/lib/ai/image-client";
+import type { CreateUsageRecordInput, UsageSource, UsageTotals } from "@/lib/db/usage-record";
+import { estimateImageCost, estimateLLMCost, getPriceTable, type PriceTable } from "./pricing";
+
+/**
+ * Who the usage is billed to and what it belongs to
+ */
+export interface UsageContext {
+  workspaceId: string;
+  apiKeyId?: string;
+  generationJobId?: string;
+  deckId?: string;
+  source: UsageSource;
+}
+
+export type UsageWriter = (record: CreateUsageRecordInput) => Promise<unknown>;
+
+/**
+ * Round to the precision of the cost_usd columns
+ */
+function roundCost(costUsd: number): number {
+  return Math.round(costUsd * 1_000_000) / 1_000_000;
+}
+
+export class UsageRecorder {
+  readonly totals: UsageTotals = { promptTokens: 0, completionTokens: 0, images: 0, costUsd: 0 };
+  private pending: Promise<unknown>[] = [];
+
+  constructor(
+    private readonly context: UsageContext,
+    private readonly write: UsageWriter,
+    private readonly prices: PriceTable = getPriceTable()
+  ) {}
+
+  recordLLM = (usage: LLMUsage): void => {
+    const costUsd = roundCost(estimateLLMCost(usage, this.prices));
+
+    this.totals.promptTokens += usage.promptTokens;
+    this.totals.completionTokens += usage.completionTokens;
+    this.save({
+      stage: usage.stage,
+      kind: "llm",
+      provider: usage.provider,
+      model: usage.model,
+      promptTokens: usage.promptTokens,
+      completionTokens: usage.completionTokens,
+      images: 0,
+      costUsd,
+    });
+  };
+
+  recordImage = (usage: ImageUsage): void => {
+    const costUsd = roundCost(estimateImageCost(usage, this.prices));
+
+    this.totals.images += usage.images;
+    this.save({
+      kind: "image",
+      provider: usage.provider,
+      model: usage.model,
+      promptTokens: 0,
+      completionTokens: 0,
+      images: usage.images,
+      costUsd,
+    });
+  };
+
+  /**
+   * Wait for pending writes
+   * @returns Totals recorded so far
+   */
+  async flush(): Promise<UsageTotals> {
+    while (this.pending.length > 0) {
+      const batch = this.pending;
+      this.pending = [];
+      await Promise.all(batch);
+    }
+    return { ...this.totals };
+  }
+
+  private save(record: Omit<CreateUsageRecordInput, keyof UsageContext>): void {
+    this.totals.costUsd = roundCost(this.totals.costUsd + record.costUsd);
+
+    const write = Promise.resolve()
+      .then(() => this.write({ ...this.context, ...record }))
+      .catch((error) => {
+        console.error(
+          `[UsageRecorder] Failed to record ${record.kind} usage (${record.model}):`,
+          error instanceof Error ? error.message : error
+        );
+      });
+    this.pending.push(write);
+  }
+}
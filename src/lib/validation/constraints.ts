@@ -154,7 +154,7 @@ export interface ConstraintViolation {
   message: string;
   current: number;
   limit: number;
-  action: "shorten" | "split" | "adjust_title" | "expand";
+  action: "shorten" | "split" | "adjust_title" | "expand" | "fix_data";
 }
 
 /**
@@ -0,0 +1,10 @@
+-- Migration: Add golden template slide type
+-- Date: 2026-10-19
+-- Purpose: Keep the golden slot type (icon_grid, timeline, checklist, ...) on slides
+-- generated from a golden template so viewers and exporters render the golden layout
+
+ALTER TABLE slides
+  ADD COLUMN IF NOT EXISTS golden_type TEXT;
+
+-- Comments for documentation
+COMMENT ON COLUMN slides.golden_type IS 'Golden template slot type, NULL for dynamically generated slides';
@@ -0,0 +1,46 @@
+-- Migration: Add workspace-defined golden templates
+-- Date: 2026-10-19
+-- Purpose: Let workspaces store their own fixed-structure golden templates
+-- (slots, constraints, examples, layout variants) next to the built-in ones
+
+CREATE TABLE IF NOT EXISTS "golden_templates" (
+    "id" TEXT NOT NULL,
+    "workspace_id" TEXT NOT NULL,
+    "created_by" TEXT,
+    "name" TEXT NOT NULL,
+    "description" TEXT NOT NULL DEFAULT '',
+    "use_cases" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "slots" JSONB NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "golden_templates_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX IF NOT EXISTS "golden_templates_workspace_id_idx" ON "golden_templates"("workspace_id");
+
+ALTER TABLE "golden_templates" ADD CONSTRAINT "golden_templates_workspace_id_fkey" FOREIGN KEY ("workspace_id") REFERENCES "workspaces"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Row Level Security: members read, owners/admins manage
+ALTER TABLE "golden_templates" ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can read workspace golden templates"
+ON "golden_templates" FOR SELECT
+USING (
+  workspace_id IN (
+    SELECT workspace_id FROM "workspace_members"
+    WHERE user_id = auth.uid()::text
+  )
+);
+
+CREATE POLICY "Admins can manage workspace golden templates"
+ON "golden_templates" FOR ALL
+USING (
+  workspace_id IN (
+    SELECT workspace_id FROM "workspace_members"
+    WHERE user_id = auth.uid()::text AND role IN ('owner', 'admin')
+  )
+);
+
+-- Comments for documentation
+COMMENT ON COLUMN golden_templates.slots IS 'Ordered GoldenSlot[] (slideType, layoutVariant, purpose, constraints, example)';
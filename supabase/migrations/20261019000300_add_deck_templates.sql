@@ -0,0 +1,38 @@
+-- Migration: Add deck-derived templates
+-- Date: 2026-10-19
+-- Purpose: Let users save a polished deck's structure (slide types, layout
+-- variants, block shapes) as a reusable template for new source text
+
+CREATE TABLE IF NOT EXISTS "deck_templates" (
+    "id" TEXT NOT NULL,
+    "workspace_id" TEXT NOT NULL,
+    "created_by" TEXT,
+    "source_deck_id" TEXT,
+    "name" TEXT NOT NULL,
+    "description" TEXT NOT NULL DEFAULT '',
+    "slots" JSONB NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "deck_templates_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX IF NOT EXISTS "deck_templates_workspace_id_idx" ON "deck_templates"("workspace_id");
+
+ALTER TABLE "deck_templates" ADD CONSTRAINT "deck_templates_workspace_id_fkey" FOREIGN KEY ("workspace_id") REFERENCES "workspaces"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Row Level Security: any member can read and save templates from their decks
+ALTER TABLE "deck_templates" ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can manage workspace deck templates"
+ON "deck_templates" FOR ALL
+USING (
+  workspace_id IN (
+    SELECT workspace_id FROM "workspace_members"
+    WHERE user_id = auth.uid()::text
+  )
+);
+
+-- Comments for documentation
+COMMENT ON COLUMN deck_templates.source_deck_id IS 'Deck the template was derived from (kept when the deck is deleted)';
+COMMENT ON COLUMN deck_templates.slots IS 'Ordered DeckTemplateSlot[] (slideType, layoutVariant, blockKinds, constraints)';
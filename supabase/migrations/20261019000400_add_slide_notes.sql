@@ -0,0 +1,10 @@
+-- Migration: Add speaker notes to slides
+-- Date: 2026-10-19
+-- Purpose: Store speaker notes per slide for the editor, presenter view
+-- and the notes page in PPTX exports
+
+ALTER TABLE slides
+  ADD COLUMN IF NOT EXISTS notes TEXT;
+
+-- Comments for documentation
+COMMENT ON COLUMN slides.notes IS 'Speaker notes, NULL when the slide has none';
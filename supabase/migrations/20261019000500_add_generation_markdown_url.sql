@@ -0,0 +1,10 @@
+-- Migration: Add Markdown export URL to generation jobs
+-- Date: 2026-10-19
+-- Purpose: Return the Markdown outline export in the v1 generations API,
+-- alongside the PDF and PPTX URLs
+
+ALTER TABLE generation_jobs
+  ADD COLUMN IF NOT EXISTS markdown_url TEXT;
+
+-- Comments for documentation
+COMMENT ON COLUMN generation_jobs.markdown_url IS 'Signed URL of the Markdown export, NULL when not requested';
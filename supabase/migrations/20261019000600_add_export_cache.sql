@@ -0,0 +1,17 @@
+-- Migration: Add content-hash cache to export jobs
+-- Date: 2026-10-19
+-- Purpose: Reuse the file from an earlier export when deck content, theme,
+-- brand kit and format options are unchanged, and count cache hits
+
+ALTER TABLE export_jobs
+  ADD COLUMN IF NOT EXISTS file_key TEXT,
+  ADD COLUMN IF NOT EXISTS content_hash TEXT,
+  ADD COLUMN IF NOT EXISTS cache_hit BOOLEAN NOT NULL DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS "export_jobs_deck_id_content_hash_idx"
+  ON export_jobs (deck_id, content_hash);
+
+-- Comments for documentation
+COMMENT ON COLUMN export_jobs.file_key IS 'S3 key of the export file, used to re-sign expired URLs';
+COMMENT ON COLUMN export_jobs.content_hash IS 'SHA-256 of deck content, theme, brand kit and format options';
+COMMENT ON COLUMN export_jobs.cache_hit IS 'True when the file was reused from an earlier export';
@@ -0,0 +1,12 @@
+-- Migration: Add LLM provider settings to workspaces
+-- Date: 2026-10-19
+-- Purpose: Let a workspace route generation to another LLM provider or model,
+-- e.g. a self-hosted OpenAI-compatible server for data residency
+
+ALTER TABLE workspaces
+  ADD COLUMN IF NOT EXISTS llm_provider TEXT,
+  ADD COLUMN IF NOT EXISTS llm_model TEXT;
+
+-- Comments for documentation
+COMMENT ON COLUMN workspaces.llm_provider IS 'LLM provider id (openai, azure_openai, anthropic, openai_compatible); NULL uses LLM_PROVIDER';
+COMMENT ON COLUMN workspaces.llm_model IS 'Model or Azure deployment override; NULL uses the provider default';
@@ -0,0 +1,14 @@
+-- Migration: Add per-stage LLM model routing
+-- Date: 2026-10-19
+-- Purpose: Let workspaces pick a model and temperature per pipeline stage and
+-- transformation type, and record the models each generation job used
+
+ALTER TABLE workspaces
+  ADD COLUMN IF NOT EXISTS llm_routing JSONB;
+
+ALTER TABLE generation_jobs
+  ADD COLUMN IF NOT EXISTS llm_models JSONB;
+
+-- Comments for documentation
+COMMENT ON COLUMN workspaces.llm_routing IS 'Per-stage provider, model and temperature overrides, keyed by stage (outline, content, repair, split, notes, transform, transform.<type>)';
+COMMENT ON COLUMN generation_jobs.llm_models IS 'Provider, model and temperature used per pipeline stage';
@@ -0,0 +1,60 @@
+-- Migration: Add token usage and cost accounting
+-- Date: 2026-10-19
+-- Purpose: Record token and image usage with an estimated cost for every LLM
+-- and image call, and keep per-job totals, so spend can be reported per
+-- generation, workspace and API key
+
+CREATE TABLE IF NOT EXISTS "usage_records" (
+    "id" TEXT NOT NULL,
+    "workspace_id" TEXT NOT NULL,
+    "api_key_id" TEXT,
+    "generation_job_id" TEXT,
+    "deck_id" TEXT,
+    "source" TEXT NOT NULL,
+    "stage" TEXT,
+    "kind" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "model" TEXT NOT NULL,
+    "prompt_tokens" INTEGER NOT NULL DEFAULT 0,
+    "completion_tokens" INTEGER NOT NULL DEFAULT 0,
+    "images" INTEGER NOT NULL DEFAULT 0,
+    "cost_usd" DECIMAL(12,6) NOT NULL DEFAULT 0,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "usage_records_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX IF NOT EXISTS "usage_records_workspace_id_created_at_idx" ON "usage_records"("workspace_id", "created_at");
+CREATE INDEX IF NOT EXISTS "usage_records_generation_job_id_idx" ON "usage_records"("generation_job_id");
+
+ALTER TABLE "usage_records" ADD CONSTRAINT "usage_records_workspace_id_fkey" FOREIGN KEY ("workspace_id") REFERENCES "workspaces"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "usage_records" ADD CONSTRAINT "usage_records_api_key_id_fkey" FOREIGN KEY ("api_key_id") REFERENCES "api_keys"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "usage_records" ADD CONSTRAINT "usage_records_generation_job_id_fkey" FOREIGN KEY ("generation_job_id") REFERENCES "generation_jobs"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+ALTER TABLE generation_jobs
+  ADD COLUMN IF NOT EXISTS api_key_id TEXT,
+  ADD COLUMN IF NOT EXISTS prompt_tokens INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS completion_tokens INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS image_count INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS cost_usd DECIMAL(12,6) NOT NULL DEFAULT 0;
+
+ALTER TABLE "generation_jobs" ADD CONSTRAINT "generation_jobs_api_key_id_fkey" FOREIGN KEY ("api_key_id") REFERENCES "api_keys"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Row Level Security: usage is written by the server, read by members
+ALTER TABLE "usage_records" ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can read workspace usage"
+ON "usage_records" FOR SELECT
+USING (
+  workspace_id IN (
+    SELECT workspace_id FROM "workspace_members"
+    WHERE user_id = auth.uid()::text
+  )
+);
+
+-- Comments for documentation
+COMMENT ON COLUMN usage_records.source IS 'generation, slide_agent, edit_action or image_generation';
+COMMENT ON COLUMN usage_records.stage IS 'Pipeline stage or transformation route key (outline, content, transform.<type>, ...)';
+COMMENT ON COLUMN usage_records.cost_usd IS 'Estimated cost in USD from list prices (USAGE_PRICING overrides)';
+COMMENT ON COLUMN generation_jobs.api_key_id IS 'API key that created the job; null for jobs created in the app';
+COMMENT ON COLUMN generation_jobs.cost_usd IS 'Estimated cost in USD of all LLM and image calls of the job';